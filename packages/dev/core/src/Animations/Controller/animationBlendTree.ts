@@ -0,0 +1,289 @@
+import type { AnimationGroup } from "../animationGroup";
+import type { Scene } from "../../scene";
+import { Vector2 } from "../../Maths/math.vector";
+
+/**
+ * Defines a child of a blend tree
+ */
+export interface IAnimationBlendTreeChild {
+    /**
+     * The animation group played by this child
+     */
+    animationGroup: AnimationGroup;
+    /**
+     * The value of the parameter for which this child is fully weighted (1D blend trees)
+     */
+    threshold: number;
+    /**
+     * The values of the two parameters for which this child is fully weighted (2D blend trees)
+     */
+    position: Vector2;
+    /**
+     * The speed multiplier of this child
+     */
+    speed: number;
+}
+
+/**
+ * Base class for the blend trees, which blend several animation groups according to the values of some parameters of an animation controller.
+ * All the children of a blend tree are synchronized: their playback speed is adapted so that they play at the same normalized time.
+ */
+export abstract class AnimationBlendTree {
+    /**
+     * The children of the blend tree
+     */
+    public readonly children: IAnimationBlendTreeChild[] = [];
+
+    /**
+     * Gets the class name of the blend tree
+     * @returns the class name
+     */
+    public abstract getClassName(): string;
+
+    /**
+     * Computes the weights of the children of the blend tree. The sum of the weights is 1 (if there is at least one child)
+     * @param getParameter defines a function returning the value of a parameter of the controller
+     * @param weights defines the array receiving the weights, one per child
+     */
+    public abstract computeWeightsToRef(getParameter: (name: string) => number, weights: number[]): void;
+
+    /**
+     * Serializes the blend tree
+     * @returns the serialized object
+     */
+    public serialize(): any {
+        return {
+            className: this.getClassName(),
+            children: this.children.map((child) => ({
+                animationGroup: child.animationGroup.name,
+                threshold: child.threshold,
+                position: child.position.asArray(),
+                speed: child.speed,
+            })),
+        };
+    }
+
+    protected _parseChildren(parsed: any, scene: Scene): void {
+        for (const parsedChild of parsed.children) {
+            const animationGroup = scene.getAnimationGroupByName(parsedChild.animationGroup);
+            if (!animationGroup) {
+                throw new Error(`AnimationBlendTree: animation group "${parsedChild.animationGroup}" not found`);
+            }
+            this.children.push({
+                animationGroup,
+                threshold: parsedChild.threshold ?? 0,
+                position: Vector2.FromArray(parsedChild.position ?? [0, 0]),
+                speed: parsedChild.speed ?? 1,
+            });
+        }
+    }
+
+    /**
+     * Creates a blend tree from a serialized object
+     * @param parsed defines the serialized object
+     * @param scene defines the scene the animation groups belong to
+     * @returns the new blend tree
+     */
+    public static Parse(parsed: any, scene: Scene): AnimationBlendTree {
+        let blendTree: AnimationBlendTree;
+        switch (parsed.className) {
+            case "AnimationBlendTree1D":
+                blendTree = new AnimationBlendTree1D(parsed.parameter);
+                break;
+            case "AnimationBlendTree2D":
+                blendTree = new AnimationBlendTree2D(parsed.parameterX, parsed.parameterY);
+                break;
+            default:
+                throw new Error(`AnimationBlendTree: unknown blend tree type "${parsed.className}"`);
+        }
+        blendTree._parseChildren(parsed, scene);
+        return blendTree;
+    }
+}
+
+/**
+ * Blend tree blending its children according to the value of a single parameter (for eg. idle/walk/run according to the speed)
+ */
+export class AnimationBlendTree1D extends AnimationBlendTree {
+    /**
+     * Creates a new 1D blend tree
+     * @param parameter defines the name of the (float) parameter driving the blend tree
+     */
+    constructor(
+        /**
+         * The name of the (float) parameter driving the blend tree
+         */
+        public parameter: string
+    ) {
+        super();
+    }
+
+    /**
+     * Gets the class name of the blend tree
+     * @returns the string "AnimationBlendTree1D"
+     */
+    public getClassName(): string {
+        return "AnimationBlendTree1D";
+    }
+
+    /**
+     * Adds a child to the blend tree
+     * @param animationGroup defines the animation group played by the child
+     * @param threshold defines the value of the parameter for which the child is fully weighted
+     * @param speed defines the speed multiplier of the child (default: 1)
+     * @returns the new child
+     */
+    public addChild(animationGroup: AnimationGroup, threshold: number, speed = 1): IAnimationBlendTreeChild {
+        const child: IAnimationBlendTreeChild = { animationGroup, threshold, position: new Vector2(threshold, 0), speed };
+        this.children.push(child);
+        return child;
+    }
+
+    /**
+     * Computes the weights of the children of the blend tree
+     * @param getParameter defines a function returning the value of a parameter of the controller
+     * @param weights defines the array receiving the weights, one per child
+     */
+    public computeWeightsToRef(getParameter: (name: string) => number, weights: number[]): void {
+        const children = this.children;
+        const value = getParameter(this.parameter);
+
+        weights.length = children.length;
+        weights.fill(0);
+
+        if (children.length === 0) {
+            return;
+        }
+
+        // Find the two closest thresholds surrounding the value
+        let lower = -1;
+        let upper = -1;
+        for (let i = 0; i < children.length; i++) {
+            const threshold = children[i].threshold;
+            if (threshold <= value && (lower === -1 || threshold > children[lower].threshold)) {
+                lower = i;
+            }
+            if (threshold >= value && (upper === -1 || threshold < children[upper].threshold)) {
+                upper = i;
+            }
+        }
+
+        if (lower === -1 || upper === -1 || lower === upper) {
+            weights[lower === -1 ? upper : lower] = 1;
+            return;
+        }
+
+        const lowerThreshold = children[lower].threshold;
+        const gradient = (value - lowerThreshold) / (children[upper].threshold - lowerThreshold);
+        weights[lower] = 1 - gradient;
+        weights[upper] = gradient;
+    }
+
+    /**
+     * Serializes the blend tree
+     * @returns the serialized object
+     */
+    public override serialize(): any {
+        const serializationObject = super.serialize();
+        serializationObject.parameter = this.parameter;
+        return serializationObject;
+    }
+}
+
+/**
+ * Blend tree blending its children according to the values of two parameters (for eg. walk/run/strafe according to the velocity on the X and Z axes).
+ * The weights are computed with a freeform cartesian interpolation (gradient band interpolation), so the children can be placed anywhere in the 2D space of the parameters.
+ */
+export class AnimationBlendTree2D extends AnimationBlendTree {
+    private _point = new Vector2();
+
+    /**
+     * Creates a new 2D blend tree
+     * @param parameterX defines the name of the (float) parameter used as the X coordinate
+     * @param parameterY defines the name of the (float) parameter used as the Y coordinate
+     */
+    constructor(
+        /**
+         * The name of the (float) parameter used as the X coordinate
+         */
+        public parameterX: string,
+        /**
+         * The name of the (float) parameter used as the Y coordinate
+         */
+        public parameterY: string
+    ) {
+        super();
+    }
+
+    /**
+     * Gets the class name of the blend tree
+     * @returns the string "AnimationBlendTree2D"
+     */
+    public getClassName(): string {
+        return "AnimationBlendTree2D";
+    }
+
+    /**
+     * Adds a child to the blend tree
+     * @param animationGroup defines the animation group played by the child
+     * @param position defines the values of the two parameters for which the child is fully weighted
+     * @param speed defines the speed multiplier of the child (default: 1)
+     * @returns the new child
+     */
+    public addChild(animationGroup: AnimationGroup, position: Vector2, speed = 1): IAnimationBlendTreeChild {
+        const child: IAnimationBlendTreeChild = { animationGroup, threshold: 0, position: position.clone(), speed };
+        this.children.push(child);
+        return child;
+    }
+
+    /**
+     * Computes the weights of the children of the blend tree
+     * @param getParameter defines a function returning the value of a parameter of the controller
+     * @param weights defines the array receiving the weights, one per child
+     */
+    public computeWeightsToRef(getParameter: (name: string) => number, weights: number[]): void {
+        const children = this.children;
+        const point = this._point.copyFromFloats(getParameter(this.parameterX), getParameter(this.parameterY));
+
+        weights.length = children.length;
+
+        let total = 0;
+        for (let i = 0; i < children.length; i++) {
+            const pi = children[i].position;
+            let weight = 1;
+            for (let j = 0; j < children.length; j++) {
+                if (i === j) {
+                    continue;
+                }
+                const pj = children[j].position;
+                const edgeX = pj.x - pi.x;
+                const edgeY = pj.y - pi.y;
+                const lengthSquared = edgeX * edgeX + edgeY * edgeY;
+                if (lengthSquared === 0) {
+                    continue;
+                }
+                const influence = 1 - ((point.x - pi.x) * edgeX + (point.y - pi.y) * edgeY) / lengthSquared;
+                weight = Math.min(weight, influence);
+            }
+            weights[i] = Math.max(weight, 0);
+            total += weights[i];
+        }
+
+        if (total > 0) {
+            for (let i = 0; i < weights.length; i++) {
+                weights[i] /= total;
+            }
+        }
+    }
+
+    /**
+     * Serializes the blend tree
+     * @returns the serialized object
+     */
+    public override serialize(): any {
+        const serializationObject = super.serialize();
+        serializationObject.parameterX = this.parameterX;
+        serializationObject.parameterY = this.parameterY;
+        return serializationObject;
+    }
+}
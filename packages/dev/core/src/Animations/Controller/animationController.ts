@@ -0,0 +1,338 @@
+import type { Nullable } from "../../types";
+import type { Scene, IDisposable } from "../../scene";
+import type { Observer } from "../../Misc/observable";
+import { Observable } from "../../Misc/observable";
+import type { AnimationControllerState, AnimationControllerTransition, IAnimationControllerCondition } from "./animationControllerState";
+import { AnimationControllerConditionMode, AnimationControllerParameterType } from "./animationControllerState";
+import type { IAnimationControllerLayerOptions } from "./animationControllerLayer";
+import { AnimationControllerLayer } from "./animationControllerLayer";
+
+/**
+ * Defines a parameter of an animation controller
+ */
+export interface IAnimationControllerParameter {
+    /**
+     * The type of the parameter
+     */
+    type: AnimationControllerParameterType;
+    /**
+     * The current value of the parameter
+     */
+    value: number | boolean;
+}
+
+/**
+ * Class used to drive animation groups with state machines and blend trees.
+ * A controller is made of layers, each layer being a state machine whose states play animation groups or blend trees.
+ * Transitions between states are evaluated every frame according to the values of the named parameters of the controller, and cross-fade the animation groups of the states.
+ */
+export class AnimationController implements IDisposable {
+    private _scene: Scene;
+    private _parameters = new Map<string, IAnimationControllerParameter>();
+    private _beforeAnimationsObserver: Nullable<Observer<Scene>> = null;
+    private _isStarted = false;
+
+    /**
+     * The layers of the controller. The first layer is the base layer
+     */
+    public readonly layers: AnimationControllerLayer[] = [];
+
+    /**
+     * Observable raised when a state is entered (when a transition to this state starts)
+     */
+    public readonly onStateEnteredObservable = new Observable<AnimationControllerState>();
+
+    /**
+     * Observable raised when a state is exited (when a transition from this state ends)
+     */
+    public readonly onStateExitedObservable = new Observable<AnimationControllerState>();
+
+    /**
+     * Creates a new animation controller
+     * @param name defines the name of the controller
+     * @param scene defines the scene the controller belongs to
+     */
+    constructor(
+        /**
+         * The name of the controller
+         */
+        public name: string,
+        scene: Scene
+    ) {
+        this._scene = scene;
+    }
+
+    /**
+     * Gets the scene the controller belongs to
+     * @returns the scene
+     */
+    public getScene(): Scene {
+        return this._scene;
+    }
+
+    /**
+     * Gets a boolean indicating if the controller is started
+     */
+    public get isStarted(): boolean {
+        return this._isStarted;
+    }
+
+    /**
+     * Gets the class name
+     * @returns the string "AnimationController"
+     */
+    public getClassName(): string {
+        return "AnimationController";
+    }
+
+    /**
+     * Adds a parameter to the controller
+     * @param name defines the name of the parameter
+     * @param type defines the type of the parameter
+     * @param defaultValue defines the initial value of the parameter (default: 0 or false)
+     */
+    public addParameter(name: string, type: AnimationControllerParameterType, defaultValue?: number | boolean): void {
+        const isBoolean = type === AnimationControllerParameterType.Bool || type === AnimationControllerParameterType.Trigger;
+        this._parameters.set(name, { type, value: defaultValue ?? (isBoolean ? false : 0) });
+    }
+
+    /**
+     * Removes a parameter from the controller
+     * @param name defines the name of the parameter
+     */
+    public removeParameter(name: string): void {
+        this._parameters.delete(name);
+    }
+
+    /**
+     * Gets a parameter of the controller
+     * @param name defines the name of the parameter
+     * @returns the parameter or undefined if not found
+     */
+    public getParameter(name: string): IAnimationControllerParameter | undefined {
+        return this._parameters.get(name);
+    }
+
+    /**
+     * Gets the names of the parameters of the controller
+     * @returns the list of names
+     */
+    public getParameterNames(): string[] {
+        return Array.from(this._parameters.keys());
+    }
+
+    /**
+     * Sets the value of a float parameter
+     * @param name defines the name of the parameter
+     * @param value defines the new value
+     */
+    public setFloat(name: string, value: number): void {
+        this._setValue(name, value, AnimationControllerParameterType.Float);
+    }
+
+    /**
+     * Sets the value of an integer parameter
+     * @param name defines the name of the parameter
+     * @param value defines the new value
+     */
+    public setInt(name: string, value: number): void {
+        this._setValue(name, Math.round(value), AnimationControllerParameterType.Int);
+    }
+
+    /**
+     * Sets the value of a boolean parameter
+     * @param name defines the name of the parameter
+     * @param value defines the new value
+     */
+    public setBool(name: string, value: boolean): void {
+        this._setValue(name, value, AnimationControllerParameterType.Bool);
+    }
+
+    /**
+     * Sets a trigger parameter. The trigger stays set until a transition consumes it (or until resetTrigger is called)
+     * @param name defines the name of the parameter
+     */
+    public setTrigger(name: string): void {
+        this._setValue(name, true, AnimationControllerParameterType.Trigger);
+    }
+
+    /**
+     * Resets a trigger parameter
+     * @param name defines the name of the parameter
+     */
+    public resetTrigger(name: string): void {
+        this._setValue(name, false, AnimationControllerParameterType.Trigger);
+    }
+
+    /**
+     * Gets the value of a numeric parameter (float or int)
+     * @param name defines the name of the parameter
+     * @returns the value of the parameter (0 if not found)
+     */
+    public getFloat(name: string): number {
+        return this._getParameterAsNumber(name);
+    }
+
+    /**
+     * Gets the value of a boolean parameter (bool or trigger)
+     * @param name defines the name of the parameter
+     * @returns the value of the parameter (false if not found)
+     */
+    public getBool(name: string): boolean {
+        return !!this._parameters.get(name)?.value;
+    }
+
+    private _setValue(name: string, value: number | boolean, type: AnimationControllerParameterType): void {
+        const parameter = this._parameters.get(name);
+        if (!parameter) {
+            this._parameters.set(name, { type, value });
+            return;
+        }
+        parameter.value = value;
+    }
+
+    /** @internal */
+    public _getParameterAsNumber = (name: string): number => {
+        return Number(this._parameters.get(name)?.value ?? 0);
+    };
+
+    /** @internal */
+    public _evaluateCondition(condition: IAnimationControllerCondition): boolean {
+        const parameter = this._parameters.get(condition.parameter);
+        if (!parameter) {
+            return false;
+        }
+        const value = Number(parameter.value);
+        const threshold = condition.threshold ?? 0;
+        switch (condition.mode) {
+            case AnimationControllerConditionMode.If:
+                return !!parameter.value;
+            case AnimationControllerConditionMode.IfNot:
+                return !parameter.value;
+            case AnimationControllerConditionMode.Greater:
+                return value > threshold;
+            case AnimationControllerConditionMode.Less:
+                return value < threshold;
+            case AnimationControllerConditionMode.Equals:
+                return value === threshold;
+            case AnimationControllerConditionMode.NotEqual:
+                return value !== threshold;
+        }
+        return false;
+    }
+
+    /** @internal */
+    public _consumeTriggers(transition: AnimationControllerTransition): void {
+        for (const condition of transition.conditions) {
+            const parameter = this._parameters.get(condition.parameter);
+            if (parameter?.type === AnimationControllerParameterType.Trigger) {
+                parameter.value = false;
+            }
+        }
+    }
+
+    /**
+     * Adds a layer to the controller
+     * @param name defines the name of the layer
+     * @param options defines the options of the layer
+     * @returns the new layer
+     */
+    public addLayer(name: string, options?: IAnimationControllerLayerOptions): AnimationControllerLayer {
+        const layer = new AnimationControllerLayer(name, this, options);
+        this.layers.push(layer);
+        return layer;
+    }
+
+    /**
+     * Gets a layer by its name
+     * @param name defines the name of the layer
+     * @returns the layer or null if not found
+     */
+    public getLayerByName(name: string): Nullable<AnimationControllerLayer> {
+        return this.layers.find((layer) => layer.name === name) ?? null;
+    }
+
+    /**
+     * Starts the controller: the layers enter their default state and the controller is updated before the animations of each frame
+     */
+    public start(): void {
+        if (this._isStarted) {
+            return;
+        }
+        this._isStarted = true;
+        this.update(0);
+        this._beforeAnimationsObserver = this._scene.onBeforeAnimationsObservable.add(() => {
+            const deltaTime = this._scene.useConstantAnimationDeltaTime ? 16 : this._scene.getEngine().getDeltaTime();
+            this.update((deltaTime * this._scene.animationTimeScale) / 1000);
+        });
+    }
+
+    /**
+     * Stops the controller and all the animation groups it plays
+     */
+    public stop(): void {
+        this._isStarted = false;
+        this._scene.onBeforeAnimationsObservable.remove(this._beforeAnimationsObserver);
+        this._beforeAnimationsObserver = null;
+        for (const layer of this.layers) {
+            layer._stop();
+        }
+    }
+
+    /**
+     * Updates the controller: evaluates the transitions and updates the weights and speeds of the animation groups.
+     * This is done automatically every frame once the controller is started, but can also be called manually
+     * @param deltaTime defines the time elapsed since the last update, in seconds
+     */
+    public update(deltaTime: number): void {
+        for (const layer of this.layers) {
+            layer._update(deltaTime);
+        }
+    }
+
+    /**
+     * Serializes the controller. Animation groups are referenced by name
+     * @returns the serialized object
+     */
+    public serialize(): any {
+        const parameters: any[] = [];
+        this._parameters.forEach((parameter, name) => {
+            parameters.push({ name, type: parameter.type, value: parameter.value });
+        });
+
+        return {
+            name: this.name,
+            parameters,
+            layers: this.layers.map((layer) => layer.serialize()),
+        };
+    }
+
+    /**
+     * Creates a controller from a serialized object
+     * @param parsed defines the serialized object
+     * @param scene defines the scene the controller belongs to. Animation groups are looked up by name in this scene
+     * @returns the new controller
+     */
+    public static Parse(parsed: any, scene: Scene): AnimationController {
+        const controller = new AnimationController(parsed.name, scene);
+
+        for (const parsedParameter of parsed.parameters ?? []) {
+            controller.addParameter(parsedParameter.name, parsedParameter.type, parsedParameter.value);
+        }
+
+        for (const parsedLayer of parsed.layers ?? []) {
+            controller.layers.push(AnimationControllerLayer.Parse(parsedLayer, controller, scene));
+        }
+
+        return controller;
+    }
+
+    /**
+     * Disposes the controller
+     */
+    public dispose(): void {
+        this.stop();
+        this.onStateEnteredObservable.clear();
+        this.onStateExitedObservable.clear();
+    }
+}
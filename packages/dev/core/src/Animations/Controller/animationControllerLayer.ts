@@ -0,0 +1,329 @@
+import type { Nullable } from "../../types";
+import type { Scene } from "../../scene";
+import type { AnimationGroup } from "../animationGroup";
+import { AnimationGroupMask } from "../animationGroupMask";
+import { AnimationBlendTree } from "./animationBlendTree";
+import type { AnimationController } from "./animationController";
+import type { IAnimationControllerTransitionOptions } from "./animationControllerState";
+import { AnimationControllerState, AnimationControllerTransition } from "./animationControllerState";
+
+/**
+ * Options used to create a layer of an animation controller
+ */
+export interface IAnimationControllerLayerOptions {
+    /**
+     * The weight of the layer (default: 1)
+     */
+    weight?: number;
+    /**
+     * The mask applied to all the animation groups played by the layer (default: null)
+     */
+    mask?: Nullable<AnimationGroupMask>;
+    /**
+     * Defines if the animation groups of the layer are played in additive mode (default: false).
+     * The animation groups must have been made additive first (see AnimationGroup.MakeAnimationAdditive)
+     */
+    isAdditive?: boolean;
+}
+
+/**
+ * Defines a layer of an animation controller: a state machine whose states play animation groups or blend trees.
+ * The animations of the layers are blended together with the regular weighted blending of the animation system,
+ * so a layer with a mask can be used to animate only a part of a skeleton (the upper body, for eg).
+ */
+export class AnimationControllerLayer {
+    private _currentState: Nullable<AnimationControllerState> = null;
+    private _activeTransition: Nullable<AnimationControllerTransition> = null;
+    private _transitionSource: Nullable<AnimationControllerState> = null;
+    private _transitionTime = 0;
+
+    /**
+     * The weight of the layer
+     */
+    public weight: number;
+
+    /**
+     * The mask applied to all the animation groups played by the layer
+     */
+    public mask: Nullable<AnimationGroupMask>;
+
+    /**
+     * Defines if the animation groups of the layer are played in additive mode
+     */
+    public isAdditive: boolean;
+
+    /**
+     * The states of the layer
+     */
+    public readonly states: AnimationControllerState[] = [];
+
+    /**
+     * The transitions that can happen from any state of the layer
+     */
+    public readonly anyStateTransitions: AnimationControllerTransition[] = [];
+
+    /**
+     * The state the layer starts in. If not set, the first state added to the layer is used
+     */
+    public defaultState: Nullable<AnimationControllerState> = null;
+
+    /**
+     * Creates a new layer
+     * @param name defines the name of the layer
+     * @param controller defines the controller the layer belongs to
+     * @param options defines the options of the layer
+     */
+    constructor(
+        /**
+         * The name of the layer
+         */
+        public readonly name: string,
+        /**
+         * The controller the layer belongs to
+         */
+        public readonly controller: AnimationController,
+        options: IAnimationControllerLayerOptions = {}
+    ) {
+        this.weight = options.weight ?? 1;
+        this.mask = options.mask ?? null;
+        this.isAdditive = options.isAdditive ?? false;
+    }
+
+    /**
+     * Gets the current state of the layer (the destination state when a transition is in progress)
+     */
+    public get currentState(): Nullable<AnimationControllerState> {
+        return this._currentState;
+    }
+
+    /**
+     * Gets the transition in progress, if any
+     */
+    public get activeTransition(): Nullable<AnimationControllerTransition> {
+        return this._activeTransition;
+    }
+
+    /**
+     * Adds a state to the layer
+     * @param name defines the name of the state
+     * @param motion defines the motion played by the state (an animation group or a blend tree)
+     * @returns the new state
+     */
+    public addState(name: string, motion: Nullable<AnimationGroup | AnimationBlendTree> = null): AnimationControllerState {
+        const state = new AnimationControllerState(name, this, motion);
+        this.states.push(state);
+        if (!this.defaultState) {
+            this.defaultState = state;
+        }
+        return state;
+    }
+
+    /**
+     * Gets a state by its name
+     * @param name defines the name of the state
+     * @returns the state or null if not found
+     */
+    public getStateByName(name: string): Nullable<AnimationControllerState> {
+        return this.states.find((state) => state.name === name) ?? null;
+    }
+
+    /**
+     * Adds a transition that can happen from any state of the layer
+     * @param destination defines the state the transition goes to
+     * @param options defines the options of the transition
+     * @returns the new transition
+     */
+    public addAnyStateTransition(destination: AnimationControllerState, options?: IAnimationControllerTransitionOptions): AnimationControllerTransition {
+        const transition = new AnimationControllerTransition(destination, options);
+        this.anyStateTransitions.push(transition);
+        return transition;
+    }
+
+    /**
+     * Forces the layer to go to a state, without evaluating the transitions
+     * @param state defines the state to go to (or its name)
+     * @param duration defines the duration of the cross-fade, in seconds (default: 0)
+     */
+    public play(state: AnimationControllerState | string, duration = 0): void {
+        const destination = typeof state === "string" ? this.getStateByName(state) : state;
+        if (!destination) {
+            return;
+        }
+        this._startTransition(new AnimationControllerTransition(destination, { duration }));
+    }
+
+    /** @internal */
+    public _update(deltaTime: number): void {
+        if (!this._currentState) {
+            if (!this.defaultState) {
+                return;
+            }
+            this._enterState(this.defaultState);
+        }
+
+        if (!this._activeTransition) {
+            const transition = this._findTransition();
+            if (transition) {
+                this.controller._consumeTriggers(transition);
+                this._startTransition(transition);
+            }
+        }
+
+        const getParameter = this.controller._getParameterAsNumber;
+
+        if (this._activeTransition && this._transitionSource) {
+            this._transitionTime += deltaTime;
+            const duration = this._activeTransition.duration;
+            const progress = duration > 0 ? Math.min(this._transitionTime / duration, 1) : 1;
+
+            this._transitionSource._update(deltaTime, this.weight * (1 - progress), getParameter);
+            this._currentState!._update(deltaTime, this.weight * progress, getParameter);
+
+            if (progress >= 1) {
+                this._exitState(this._transitionSource);
+                this._transitionSource = null;
+                this._activeTransition = null;
+            }
+            return;
+        }
+
+        this._currentState!._update(deltaTime, this.weight, getParameter);
+    }
+
+    /** @internal */
+    public _stop(): void {
+        if (this._transitionSource) {
+            this._exitState(this._transitionSource);
+        }
+        if (this._currentState) {
+            this._exitState(this._currentState);
+        }
+        this._currentState = null;
+        this._transitionSource = null;
+        this._activeTransition = null;
+    }
+
+    private _findTransition(): Nullable<AnimationControllerTransition> {
+        for (const transition of this.anyStateTransitions) {
+            if (transition.destination !== this._currentState && this._canTransition(transition)) {
+                return transition;
+            }
+        }
+        for (const transition of this._currentState!.transitions) {
+            if (this._canTransition(transition)) {
+                return transition;
+            }
+        }
+        return null;
+    }
+
+    private _canTransition(transition: AnimationControllerTransition): boolean {
+        if (transition.hasExitTime && this._currentState!.normalizedTime < transition.exitTime) {
+            return false;
+        }
+        if (!transition.hasExitTime && transition.conditions.length === 0) {
+            return false;
+        }
+        return transition.conditions.every((condition) => this.controller._evaluateCondition(condition));
+    }
+
+    private _startTransition(transition: AnimationControllerTransition): void {
+        // A transition interrupting another one makes the previous source state stop immediately
+        if (this._transitionSource) {
+            this._exitState(this._transitionSource);
+            this._transitionSource = null;
+        }
+
+        const source = this._currentState;
+        const destination = transition.destination;
+
+        if (source === destination) {
+            this._activeTransition = null;
+            return;
+        }
+
+        this._transitionSource = source;
+        this._activeTransition = source ? transition : null;
+        this._transitionTime = 0;
+        this._enterState(destination);
+    }
+
+    private _enterState(state: AnimationControllerState): void {
+        this._currentState = state;
+        state._enter(this.mask, this.isAdditive);
+        this.controller.onStateEnteredObservable.notifyObservers(state);
+    }
+
+    private _exitState(state: AnimationControllerState): void {
+        state._exit();
+        this.controller.onStateExitedObservable.notifyObservers(state);
+    }
+
+    /**
+     * Serializes the layer
+     * @returns the serialized object
+     */
+    public serialize(): any {
+        return {
+            name: this.name,
+            weight: this.weight,
+            isAdditive: this.isAdditive,
+            mask: this.mask?.serialize(),
+            defaultState: this.defaultState?.name,
+            states: this.states.map((state) => state.serialize()),
+            anyStateTransitions: this.anyStateTransitions.map((transition) => transition.serialize()),
+        };
+    }
+
+    /**
+     * Creates a layer from a serialized object
+     * @param parsed defines the serialized object
+     * @param controller defines the controller the layer belongs to
+     * @param scene defines the scene the animation groups belong to
+     * @returns the new layer
+     */
+    public static Parse(parsed: any, controller: AnimationController, scene: Scene): AnimationControllerLayer {
+        const layer = new AnimationControllerLayer(parsed.name, controller, {
+            weight: parsed.weight,
+            isAdditive: parsed.isAdditive,
+            mask: parsed.mask ? AnimationGroupMask.Parse(parsed.mask) : null,
+        });
+
+        for (const parsedState of parsed.states) {
+            let motion: Nullable<AnimationGroup | AnimationBlendTree> = null;
+            if (parsedState.animationGroup !== undefined) {
+                motion = scene.getAnimationGroupByName(parsedState.animationGroup);
+                if (!motion) {
+                    throw new Error(`AnimationControllerLayer: animation group "${parsedState.animationGroup}" not found`);
+                }
+            } else if (parsedState.blendTree) {
+                motion = AnimationBlendTree.Parse(parsedState.blendTree, scene);
+            }
+            const state = layer.addState(parsedState.name, motion);
+            state.speed = parsedState.speed ?? 1;
+            state.loop = parsedState.loop ?? true;
+        }
+
+        const parseTransitions = (parsedTransitions: any[], add: (destination: AnimationControllerState, options: IAnimationControllerTransitionOptions) => void) => {
+            for (const parsedTransition of parsedTransitions ?? []) {
+                const destination = layer.getStateByName(parsedTransition.destination);
+                if (!destination) {
+                    throw new Error(`AnimationControllerLayer: state "${parsedTransition.destination}" not found`);
+                }
+                add(destination, parsedTransition);
+            }
+        };
+
+        for (const parsedState of parsed.states) {
+            const state = layer.getStateByName(parsedState.name)!;
+            parseTransitions(parsedState.transitions, (destination, options) => state.addTransition(destination, options));
+        }
+        parseTransitions(parsed.anyStateTransitions, (destination, options) => layer.addAnyStateTransition(destination, options));
+
+        if (parsed.defaultState !== undefined) {
+            layer.defaultState = layer.getStateByName(parsed.defaultState);
+        }
+
+        return layer;
+    }
+}
@@ -0,0 +1,324 @@
+import type { Nullable } from "../../types";
+import { AnimationGroup } from "../animationGroup";
+import type { AnimationGroupMask } from "../animationGroupMask";
+import { AnimationBlendTree } from "./animationBlendTree";
+import type { AnimationControllerLayer } from "./animationControllerLayer";
+
+/**
+ * Defines the type of a parameter of an animation controller
+ */
+export const enum AnimationControllerParameterType {
+    /** A floating point value */
+    Float = 0,
+    /** An integer value */
+    Int = 1,
+    /** A boolean value */
+    Bool = 2,
+    /** A boolean value which is automatically reset to false when consumed by a transition */
+    Trigger = 3,
+}
+
+/**
+ * Defines how a condition of a transition compares the value of a parameter
+ */
+export const enum AnimationControllerConditionMode {
+    /** The condition is true when the parameter (bool or trigger) is true */
+    If = 0,
+    /** The condition is true when the parameter (bool) is false */
+    IfNot = 1,
+    /** The condition is true when the parameter is greater than the threshold */
+    Greater = 2,
+    /** The condition is true when the parameter is less than the threshold */
+    Less = 3,
+    /** The condition is true when the parameter is equal to the threshold */
+    Equals = 4,
+    /** The condition is true when the parameter is not equal to the threshold */
+    NotEqual = 5,
+}
+
+/**
+ * Defines a condition of a transition
+ */
+export interface IAnimationControllerCondition {
+    /**
+     * The name of the parameter tested by the condition
+     */
+    parameter: string;
+    /**
+     * How the parameter is compared
+     */
+    mode: AnimationControllerConditionMode;
+    /**
+     * The value the parameter is compared to (not used by the If and IfNot modes)
+     */
+    threshold?: number;
+}
+
+/**
+ * Options used to create a transition
+ */
+export interface IAnimationControllerTransitionOptions {
+    /**
+     * The duration of the cross-fade between the two states, in seconds (default: 0.25)
+     */
+    duration?: number;
+    /**
+     * Defines if the transition can only happen once the source state has reached its exit time (default: false)
+     */
+    hasExitTime?: boolean;
+    /**
+     * The normalized time (0 = start, 1 = end of the first loop) of the source state from which the transition can happen (default: 1)
+     */
+    exitTime?: number;
+    /**
+     * The conditions that must all be true for the transition to happen
+     */
+    conditions?: IAnimationControllerCondition[];
+}
+
+/**
+ * Defines a transition between two states of an animation controller layer
+ */
+export class AnimationControllerTransition {
+    /**
+     * The duration of the cross-fade between the two states, in seconds
+     */
+    public duration: number;
+
+    /**
+     * Defines if the transition can only happen once the source state has reached its exit time
+     */
+    public hasExitTime: boolean;
+
+    /**
+     * The normalized time (0 = start, 1 = end of the first loop) of the source state from which the transition can happen
+     */
+    public exitTime: number;
+
+    /**
+     * The conditions that must all be true for the transition to happen
+     */
+    public conditions: IAnimationControllerCondition[];
+
+    /**
+     * Creates a new transition
+     * @param destination defines the state the transition goes to
+     * @param options defines the options of the transition
+     */
+    constructor(
+        /**
+         * The state the transition goes to
+         */
+        public destination: AnimationControllerState,
+        options: IAnimationControllerTransitionOptions = {}
+    ) {
+        this.duration = options.duration ?? 0.25;
+        this.hasExitTime = options.hasExitTime ?? false;
+        this.exitTime = options.exitTime ?? 1;
+        this.conditions = options.conditions ? options.conditions.slice() : [];
+    }
+
+    /**
+     * Adds a condition to the transition
+     * @param parameter defines the name of the parameter tested by the condition
+     * @param mode defines how the parameter is compared
+     * @param threshold defines the value the parameter is compared to
+     * @returns the transition
+     */
+    public addCondition(parameter: string, mode: AnimationControllerConditionMode, threshold?: number): AnimationControllerTransition {
+        this.conditions.push({ parameter, mode, threshold });
+        return this;
+    }
+
+    /**
+     * Serializes the transition
+     * @returns the serialized object
+     */
+    public serialize(): any {
+        return {
+            destination: this.destination.name,
+            duration: this.duration,
+            hasExitTime: this.hasExitTime,
+            exitTime: this.exitTime,
+            conditions: this.conditions.map((condition) => ({ ...condition })),
+        };
+    }
+}
+
+/**
+ * Defines a state of an animation controller layer. A state plays a motion (an animation group or a blend tree)
+ */
+export class AnimationControllerState {
+    private _weights: number[] = [];
+    private _normalizedTime = 0;
+    private _isActive = false;
+
+    /**
+     * The speed multiplier of the state
+     */
+    public speed = 1;
+
+    /**
+     * Defines if the motion of the state loops
+     */
+    public loop = true;
+
+    /**
+     * The transitions leaving this state
+     */
+    public readonly transitions: AnimationControllerTransition[] = [];
+
+    /**
+     * Creates a new state
+     * @param name defines the name of the state
+     * @param layer defines the layer the state belongs to
+     * @param motion defines the motion played by the state
+     */
+    constructor(
+        /**
+         * The name of the state
+         */
+        public readonly name: string,
+        /**
+         * The layer the state belongs to
+         */
+        public readonly layer: AnimationControllerLayer,
+        /**
+         * The motion played by the state (an animation group or a blend tree)
+         */
+        public motion: Nullable<AnimationGroup | AnimationBlendTree> = null
+    ) {}
+
+    /**
+     * Gets the time spent in the state, normalized by the duration of the motion (1 = end of the first loop)
+     */
+    public get normalizedTime(): number {
+        return this._normalizedTime;
+    }
+
+    /**
+     * Gets a boolean indicating if the state is playing (being the current state or part of an active transition)
+     */
+    public get isActive(): boolean {
+        return this._isActive;
+    }
+
+    /**
+     * Adds a transition from this state to another state
+     * @param destination defines the state the transition goes to
+     * @param options defines the options of the transition
+     * @returns the new transition
+     */
+    public addTransition(destination: AnimationControllerState, options?: IAnimationControllerTransitionOptions): AnimationControllerTransition {
+        const transition = new AnimationControllerTransition(destination, options);
+        this.transitions.push(transition);
+        return transition;
+    }
+
+    /**
+     * Gets the animation groups played by the state
+     * @returns the list of animation groups
+     */
+    public getAnimationGroups(): AnimationGroup[] {
+        if (!this.motion) {
+            return [];
+        }
+        if (this.motion instanceof AnimationGroup) {
+            return [this.motion];
+        }
+        return this.motion.children.map((child) => child.animationGroup);
+    }
+
+    /** @internal */
+    public _enter(mask: Nullable<AnimationGroupMask>, isAdditive: boolean): void {
+        this._normalizedTime = 0;
+        this._isActive = true;
+        for (const animationGroup of this.getAnimationGroups()) {
+            // Also assigned when null, so that the mask of another layer playing the same animation group is not kept
+            animationGroup.mask = mask;
+            animationGroup.weight = 0;
+            animationGroup.start(this.loop, this.speed, undefined, undefined, isAdditive);
+        }
+    }
+
+    /** @internal */
+    public _exit(): void {
+        this._isActive = false;
+        for (const animationGroup of this.getAnimationGroups()) {
+            animationGroup.stop();
+        }
+    }
+
+    /** @internal */
+    public _update(deltaTime: number, weight: number, getParameter: (name: string) => number): void {
+        const motion = this.motion;
+        if (!motion) {
+            return;
+        }
+
+        if (motion instanceof AnimationGroup) {
+            const duration = AnimationControllerState._GetDuration(motion);
+            motion.weight = weight;
+            motion.speedRatio = this.speed;
+            this._advance(deltaTime, duration);
+            return;
+        }
+
+        // All the children of a blend tree play at the same normalized time: the duration of the cycle is the weighted average of the durations of the children
+        motion.computeWeightsToRef(getParameter, this._weights);
+        let cycleDuration = 0;
+        for (let i = 0; i < motion.children.length; i++) {
+            const child = motion.children[i];
+            cycleDuration += (this._weights[i] * AnimationControllerState._GetDuration(child.animationGroup)) / child.speed;
+        }
+
+        for (let i = 0; i < motion.children.length; i++) {
+            const animationGroup = motion.children[i].animationGroup;
+            animationGroup.weight = weight * this._weights[i];
+            if (cycleDuration > 0) {
+                animationGroup.speedRatio = (this.speed * AnimationControllerState._GetDuration(animationGroup)) / cycleDuration;
+            }
+        }
+
+        this._advance(deltaTime, cycleDuration);
+    }
+
+    private _advance(deltaTime: number, duration: number): void {
+        if (duration > 0) {
+            this._normalizedTime += (deltaTime * this.speed) / duration;
+        }
+        if (!this.loop) {
+            this._normalizedTime = Math.min(this._normalizedTime, 1);
+        }
+    }
+
+    private static _GetDuration(animationGroup: AnimationGroup): number {
+        const targetedAnimations = animationGroup.targetedAnimations;
+        if (targetedAnimations.length === 0) {
+            return 0;
+        }
+        // Length at normal speed, whatever the current speed ratio of the group
+        return (animationGroup.to - animationGroup.from) / targetedAnimations[0].animation.framePerSecond;
+    }
+
+    /**
+     * Serializes the state
+     * @returns the serialized object
+     */
+    public serialize(): any {
+        const serializationObject: any = {
+            name: this.name,
+            speed: this.speed,
+            loop: this.loop,
+            transitions: this.transitions.map((transition) => transition.serialize()),
+        };
+
+        if (this.motion instanceof AnimationGroup) {
+            serializationObject.animationGroup = this.motion.name;
+        } else if (this.motion instanceof AnimationBlendTree) {
+            serializationObject.blendTree = this.motion.serialize();
+        }
+
+        return serializationObject;
+    }
+}
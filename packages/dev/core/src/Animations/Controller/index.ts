@@ -0,0 +1,4 @@
+export * from "./animationBlendTree";
+export * from "./animationControllerState";
+export * from "./animationControllerLayer";
+export * from "./animationController";
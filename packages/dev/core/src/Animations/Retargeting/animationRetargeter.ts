@@ -0,0 +1,492 @@
+import type { Skeleton } from "../../Bones/skeleton";
+import type { Bone } from "../../Bones/bone";
+import type { Scene } from "../../scene";
+import type { DeepImmutable, Nullable } from "../../types";
+import type { IAnimationKey } from "../animationKey";
+import { Animation } from "../animation";
+import { AnimationGroup } from "../animationGroup";
+import { Matrix, Quaternion, Vector3 } from "../../Maths/math.vector";
+import { Logger } from "../../Misc/logger";
+import type { HumanoidBoneMap, HumanoidBoneRole } from "./humanoidBoneMap";
+import { DetectHumanoidBoneMap, GetHumanoidBone, HumanoidBoneRoles } from "./humanoidBoneMap";
+
+/**
+ * Options used to create an animation retargeter
+ */
+export interface IAnimationRetargeterOptions {
+    /**
+     * Humanoid bone map of the source skeleton. If not provided, it is detected from the bone names (see DetectHumanoidBoneMap)
+     */
+    sourceBoneMap?: HumanoidBoneMap;
+    /**
+     * Humanoid bone map of the target skeleton. If not provided, it is detected from the bone names (see DetectHumanoidBoneMap)
+     */
+    targetBoneMap?: HumanoidBoneMap;
+    /**
+     * Defines if the differences between the rest poses of the two skeletons (T-pose vs A-pose, for eg) should be compensated, by aligning the direction of the bones (default: true)
+     */
+    alignRestPoses?: boolean;
+    /**
+     * Defines if the translation of the hips (root motion) should be retargeted (default: true)
+     */
+    retargetRootMotion?: boolean;
+    /**
+     * Scale applied to the root motion. If not provided, the ratio between the heights of the hips of the target and source skeletons at rest is used
+     */
+    rootMotionScale?: number;
+}
+
+/**
+ * Options used when retargeting an animation group
+ */
+export interface IRetargetAnimationGroupOptions {
+    /**
+     * Name of the new animation group (default: the name of the source animation group)
+     */
+    name?: string;
+    /**
+     * Scene the new animation group is created in (default: the scene of the target skeleton)
+     */
+    scene?: Scene;
+    /**
+     * Number of frames between two generated keys (default: 1)
+     */
+    frameStep?: number;
+}
+
+interface IRetargetedBone {
+    role: HumanoidBoneRole;
+    sourceBone: Bone;
+    targetBone: Bone;
+    alignment: Quaternion;
+}
+
+interface ISkeletonRestData {
+    /** Bones sorted so that parents are listed before their children */
+    sortedBones: Bone[];
+    /** Index of each bone in the bones array of the skeleton */
+    indices: Map<Bone, number>;
+    /** Rest matrices in world space, indexed by bone index */
+    worldMatrices: Matrix[];
+    /** Rest rotations in world space, indexed by bone index */
+    worldRotations: Quaternion[];
+    /** Rest local transformations, indexed by bone index */
+    localRotations: Quaternion[];
+    localPositions: Vector3[];
+    /** World rotation of the parent of the root bones */
+    rootFrameRotations: Map<Bone, Quaternion>;
+}
+
+interface IBoneAnimations {
+    rotationQuaternion?: Animation;
+    rotation?: Animation;
+    position?: Animation;
+    matrix?: Animation;
+}
+
+// For each chain of roles, a bone points to the next mapped bone of the chain
+const RoleChains: HumanoidBoneRole[][] = (() => {
+    const chains: HumanoidBoneRole[][] = [["hips", "spine", "chest", "upperChest", "neck", "head"]];
+    for (const side of ["left", "right"]) {
+        chains.push([`${side}Shoulder`, `${side}UpperArm`, `${side}LowerArm`, `${side}Hand`, `${side}MiddleProximal`] as HumanoidBoneRole[]);
+        chains.push([`${side}UpperLeg`, `${side}LowerLeg`, `${side}Foot`, `${side}Toes`] as HumanoidBoneRole[]);
+        chains.push([`${side}ThumbMetacarpal`, `${side}ThumbProximal`, `${side}ThumbDistal`] as HumanoidBoneRole[]);
+        for (const finger of ["Index", "Middle", "Ring", "Little"]) {
+            chains.push([`${side}${finger}Proximal`, `${side}${finger}Intermediate`, `${side}${finger}Distal`] as HumanoidBoneRole[]);
+        }
+    }
+    return chains;
+})();
+
+/**
+ * Class used to retarget animations between two humanoid skeletons.
+ * The skeletons can have different bone names, bone lengths, hierarchies and rest poses: bones are matched by their humanoid role
+ * and the rotation of each source bone, relative to its rest pose and expressed in world space, is transferred to the target bone.
+ * Only the hips translation is retargeted (scaled by the ratio between the hips heights), the other bones keep their rest translation so that the proportions of the target are preserved.
+ */
+export class AnimationRetargeter {
+    private _sourceSkeleton: Skeleton;
+    private _targetSkeleton: Skeleton;
+    private _sourceRest: ISkeletonRestData;
+    private _targetRest: ISkeletonRestData;
+    private _retargetedBones: IRetargetedBone[] = [];
+    private _hips: Nullable<IRetargetedBone> = null;
+    private _rootMotionScale = 1;
+    private _retargetRootMotion: boolean;
+
+    /**
+     * Gets the source skeleton
+     */
+    public get sourceSkeleton(): Skeleton {
+        return this._sourceSkeleton;
+    }
+
+    /**
+     * Gets the target skeleton
+     */
+    public get targetSkeleton(): Skeleton {
+        return this._targetSkeleton;
+    }
+
+    /**
+     * Gets the list of roles that are mapped in both skeletons
+     */
+    public get mappedRoles(): HumanoidBoneRole[] {
+        return this._retargetedBones.map((retargetedBone) => retargetedBone.role);
+    }
+
+    /**
+     * Gets the scale applied to the root motion
+     */
+    public get rootMotionScale(): number {
+        return this._rootMotionScale;
+    }
+
+    /**
+     * Creates a new animation retargeter
+     * @param sourceSkeleton defines the skeleton the animations are authored for
+     * @param targetSkeleton defines the skeleton the animations must be retargeted to
+     * @param options defines the options of the retargeter
+     */
+    constructor(sourceSkeleton: Skeleton, targetSkeleton: Skeleton, options: IAnimationRetargeterOptions = {}) {
+        this._sourceSkeleton = sourceSkeleton;
+        this._targetSkeleton = targetSkeleton;
+        this._retargetRootMotion = options.retargetRootMotion ?? true;
+
+        const sourceMap = options.sourceBoneMap ?? DetectHumanoidBoneMap(sourceSkeleton);
+        const targetMap = options.targetBoneMap ?? DetectHumanoidBoneMap(targetSkeleton);
+
+        this._sourceRest = AnimationRetargeter._ComputeRestData(sourceSkeleton);
+        this._targetRest = AnimationRetargeter._ComputeRestData(targetSkeleton);
+
+        for (const role of HumanoidBoneRoles) {
+            const sourceBone = GetHumanoidBone(sourceSkeleton, sourceMap, role);
+            const targetBone = GetHumanoidBone(targetSkeleton, targetMap, role);
+            if (!sourceBone || !targetBone) {
+                continue;
+            }
+            const retargetedBone: IRetargetedBone = { role, sourceBone, targetBone, alignment: Quaternion.Identity() };
+            this._retargetedBones.push(retargetedBone);
+            if (role === "hips") {
+                this._hips = retargetedBone;
+            }
+        }
+
+        if (!this._hips) {
+            Logger.Warn("AnimationRetargeter: the hips bone could not be found in both skeletons, root motion will not be retargeted.");
+        }
+
+        if (options.alignRestPoses ?? true) {
+            this._computeAlignments();
+        }
+
+        this._rootMotionScale = options.rootMotionScale ?? this._computeRootMotionScale();
+    }
+
+    /**
+     * Creates a new animation group playing the animations of a source animation group on the target skeleton.
+     * The source animation group must animate the bones of the source skeleton (or the transform nodes linked to them).
+     * @param sourceAnimationGroup defines the animation group to retarget
+     * @param options defines the options used to retarget the animation group
+     * @returns a new animation group animating the target skeleton (or the transform nodes linked to its bones)
+     */
+    public retargetAnimationGroup(sourceAnimationGroup: AnimationGroup, options: IRetargetAnimationGroupOptions = {}): AnimationGroup {
+        const scene = options.scene ?? this._targetSkeleton.getScene();
+        const animationGroup = new AnimationGroup(options.name ?? sourceAnimationGroup.name, scene);
+
+        const sourceAnimations = this._collectSourceAnimations(sourceAnimationGroup);
+        if (sourceAnimations.size === 0 || this._retargetedBones.length === 0) {
+            Logger.Warn(`AnimationRetargeter: no animation of "${sourceAnimationGroup.name}" could be retargeted.`);
+            return animationGroup;
+        }
+
+        const framePerSecond = sourceAnimationGroup.targetedAnimations[0].animation.framePerSecond;
+        const from = sourceAnimationGroup.from;
+        const to = sourceAnimationGroup.to;
+        const frameStep = Math.max(options.frameStep ?? 1, 1e-3);
+
+        const rotationKeys: IAnimationKey[][] = this._retargetedBones.map(() => []);
+        const positionKeys: IAnimationKey[] = [];
+
+        const sourceRest = this._sourceRest;
+        const targetRest = this._targetRest;
+        const sourceWorldRotations = sourceRest.worldRotations.map(() => new Quaternion());
+        const sourceLocalRotations = sourceRest.localRotations.map(() => new Quaternion());
+        const targetWorldRotations = targetRest.worldRotations.map(() => new Quaternion());
+        const targetLocalRotations = targetRest.localRotations.map((rotation) => rotation.clone());
+        const sourceHipsPosition = new Vector3();
+
+        const delta = new Quaternion();
+        const inverse = new Quaternion();
+        const retargetedByTarget = new Map<Bone, number>();
+        this._retargetedBones.forEach((retargetedBone, index) => retargetedByTarget.set(retargetedBone.targetBone, index));
+
+        for (let frame = from; ; frame = Math.min(frame + frameStep, to)) {
+            // Source skeleton: world rotations at this frame
+            for (const bone of sourceRest.sortedBones) {
+                const index = sourceRest.indices.get(bone)!;
+                const local = sourceLocalRotations[index];
+                const position = bone === this._hips?.sourceBone ? sourceHipsPosition : null;
+                this._evaluateLocalTransform(sourceAnimations.get(bone), frame, index, local, position);
+                const parentRotation = this._getParentWorldRotation(bone, sourceRest, sourceWorldRotations);
+                parentRotation.multiplyToRef(local, sourceWorldRotations[index]);
+            }
+
+            // Target skeleton: parents first so that the local rotations can be deduced from the world ones
+            for (const bone of targetRest.sortedBones) {
+                const index = targetRest.indices.get(bone)!;
+                const parentRotation = this._getParentWorldRotation(bone, targetRest, targetWorldRotations);
+                const retargetedIndex = retargetedByTarget.get(bone);
+
+                if (retargetedIndex === undefined) {
+                    parentRotation.multiplyToRef(targetLocalRotations[index], targetWorldRotations[index]);
+                    continue;
+                }
+
+                const retargetedBone = this._retargetedBones[retargetedIndex];
+                const sourceIndex = sourceRest.indices.get(retargetedBone.sourceBone)!;
+
+                // delta = sourceWorld * inverse(sourceRestWorld), expressed in world space
+                Quaternion.InverseToRef(sourceRest.worldRotations[sourceIndex], inverse);
+                sourceWorldRotations[sourceIndex].multiplyToRef(inverse, delta);
+
+                // targetWorld = delta * alignment * targetRestWorld
+                const targetWorld = targetWorldRotations[index];
+                delta.multiplyToRef(retargetedBone.alignment, targetWorld);
+                targetWorld.multiplyInPlace(targetRest.worldRotations[index]);
+
+                // targetLocal = inverse(parentWorld) * targetWorld
+                const local = targetLocalRotations[index];
+                Quaternion.InverseToRef(parentRotation, inverse);
+                inverse.multiplyToRef(targetWorld, local);
+                local.normalize();
+
+                const keys = rotationKeys[retargetedIndex];
+                const value = local.clone();
+                if (keys.length && Quaternion.Dot(keys[keys.length - 1].value, value) < 0) {
+                    value.scaleInPlace(-1);
+                }
+                keys.push({ frame, value });
+            }
+
+            if (this._hips && this._retargetRootMotion) {
+                positionKeys.push({ frame, value: this._retargetHipsPosition(sourceHipsPosition) });
+            }
+
+            if (frame >= to) {
+                break;
+            }
+        }
+
+        this._retargetedBones.forEach((retargetedBone, index) => {
+            const target = retargetedBone.targetBone.getTransformNode() ?? retargetedBone.targetBone;
+            const animation = new Animation(
+                `${animationGroup.name}_${retargetedBone.targetBone.name}_rotation`,
+                "rotationQuaternion",
+                framePerSecond,
+                Animation.ANIMATIONTYPE_QUATERNION
+            );
+            animation.setKeys(rotationKeys[index], true);
+            animationGroup.addTargetedAnimation(animation, target);
+        });
+
+        if (this._hips && positionKeys.length) {
+            const target = this._hips.targetBone.getTransformNode() ?? this._hips.targetBone;
+            const animation = new Animation(`${animationGroup.name}_${this._hips.targetBone.name}_position`, "position", framePerSecond, Animation.ANIMATIONTYPE_VECTOR3);
+            animation.setKeys(positionKeys, true);
+            animationGroup.addTargetedAnimation(animation, target);
+        }
+
+        return animationGroup;
+    }
+
+    private _collectSourceAnimations(animationGroup: AnimationGroup): Map<Bone, IBoneAnimations> {
+        const boneByTarget = new Map<any, Bone>();
+        for (const bone of this._sourceSkeleton.bones) {
+            boneByTarget.set(bone, bone);
+            const transformNode = bone.getTransformNode();
+            if (transformNode) {
+                boneByTarget.set(transformNode, bone);
+            }
+        }
+
+        const result = new Map<Bone, IBoneAnimations>();
+        for (const targetedAnimation of animationGroup.targetedAnimations) {
+            const bone = boneByTarget.get(targetedAnimation.target);
+            if (!bone) {
+                continue;
+            }
+            let animations = result.get(bone);
+            if (!animations) {
+                animations = {};
+                result.set(bone, animations);
+            }
+            const animation = targetedAnimation.animation;
+            switch (animation.targetProperty) {
+                case "rotationQuaternion":
+                    animations.rotationQuaternion = animation;
+                    break;
+                case "rotation":
+                    animations.rotation = animation;
+                    break;
+                case "position":
+                    animations.position = animation;
+                    break;
+                case "_matrix":
+                    animations.matrix = animation;
+                    break;
+            }
+        }
+        return result;
+    }
+
+    private _evaluateLocalTransform(animations: IBoneAnimations | undefined, frame: number, index: number, rotation: Quaternion, position: Nullable<Vector3>): void {
+        rotation.copyFrom(this._sourceRest.localRotations[index]);
+        position?.copyFrom(this._sourceRest.localPositions[index]);
+
+        if (!animations) {
+            return;
+        }
+
+        if (animations.matrix) {
+            (animations.matrix.evaluate(frame) as Matrix).decompose(undefined, rotation, position ?? undefined);
+        }
+        if (animations.rotationQuaternion) {
+            rotation.copyFrom(animations.rotationQuaternion.evaluate(frame));
+        } else if (animations.rotation) {
+            Quaternion.FromEulerVectorToRef(animations.rotation.evaluate(frame), rotation);
+        }
+        if (animations.position && position) {
+            position.copyFrom(animations.position.evaluate(frame));
+        }
+    }
+
+    private _getParentWorldRotation(bone: Bone, restData: ISkeletonRestData, worldRotations: Quaternion[]): Quaternion {
+        const parent = bone.getParent();
+        return parent ? worldRotations[restData.indices.get(parent)!] : restData.rootFrameRotations.get(bone)!;
+    }
+
+    private _retargetHipsPosition(sourcePosition: Vector3): Vector3 {
+        const hips = this._hips!;
+        const sourceIndex = this._sourceRest.indices.get(hips.sourceBone)!;
+        const targetIndex = this._targetRest.indices.get(hips.targetBone)!;
+
+        // Translation relative to the rest position, in world space
+        const worldDelta = sourcePosition.subtract(this._sourceRest.localPositions[sourceIndex]);
+        Vector3.TransformNormalToRef(worldDelta, AnimationRetargeter._GetParentWorldMatrix(hips.sourceBone, this._sourceRest), worldDelta);
+        worldDelta.scaleInPlace(this._rootMotionScale);
+
+        // Back to the local space of the target hips
+        const inverseParent = AnimationRetargeter._GetParentWorldMatrix(hips.targetBone, this._targetRest).clone().invert();
+        const result = Vector3.TransformNormal(worldDelta, inverseParent);
+        return result.addInPlace(this._targetRest.localPositions[targetIndex]);
+    }
+
+    private _computeAlignments(): void {
+        const byRole = new Map<HumanoidBoneRole, IRetargetedBone>();
+        for (const retargetedBone of this._retargetedBones) {
+            byRole.set(retargetedBone.role, retargetedBone);
+        }
+
+        const aligned = new Set<IRetargetedBone>();
+        const sourceDirection = new Vector3();
+        const targetDirection = new Vector3();
+
+        for (const chain of RoleChains) {
+            const mapped = chain.map((role) => byRole.get(role)).filter((retargetedBone) => !!retargetedBone) as IRetargetedBone[];
+            for (let i = 0; i < mapped.length - 1; i++) {
+                const retargetedBone = mapped[i];
+                const tail = mapped[i + 1];
+                if (aligned.has(retargetedBone)) {
+                    continue;
+                }
+                AnimationRetargeter._GetRestDirectionToRef(retargetedBone.sourceBone, tail.sourceBone, this._sourceRest, sourceDirection);
+                AnimationRetargeter._GetRestDirectionToRef(retargetedBone.targetBone, tail.targetBone, this._targetRest, targetDirection);
+                if (sourceDirection.lengthSquared() === 0 || targetDirection.lengthSquared() === 0) {
+                    continue;
+                }
+                Quaternion.FromUnitVectorsToRef(targetDirection, sourceDirection, retargetedBone.alignment);
+                aligned.add(retargetedBone);
+            }
+        }
+    }
+
+    private _computeRootMotionScale(): number {
+        if (!this._hips) {
+            return 1;
+        }
+        const sourceHeight = AnimationRetargeter._GetRestHeight(this._hips.sourceBone, this._sourceRest);
+        const targetHeight = AnimationRetargeter._GetRestHeight(this._hips.targetBone, this._targetRest);
+        return sourceHeight > 0 && targetHeight > 0 ? targetHeight / sourceHeight : 1;
+    }
+
+    private static _GetRestHeight(bone: Bone, restData: ISkeletonRestData): number {
+        const position = restData.worldMatrices[restData.indices.get(bone)!].getTranslation();
+        let root: Bone = bone;
+        while (root.getParent()) {
+            root = root.getParent()!;
+        }
+        const origin = AnimationRetargeter._GetParentWorldMatrix(root, restData).getTranslation();
+        const height = position.y - origin.y;
+        return height > 0 ? height : position.subtract(origin).length();
+    }
+
+    private static _GetRestDirectionToRef(bone: Bone, tail: Bone, restData: ISkeletonRestData, result: Vector3): void {
+        const head = restData.worldMatrices[restData.indices.get(bone)!].getTranslation();
+        restData.worldMatrices[restData.indices.get(tail)!].getTranslationToRef(result);
+        result.subtractInPlace(head);
+        if (result.lengthSquared() > 0) {
+            result.normalize();
+        }
+    }
+
+    private static _GetParentWorldMatrix(bone: Bone, restData: ISkeletonRestData): DeepImmutable<Matrix> {
+        const parent = bone.getParent();
+        if (parent) {
+            return restData.worldMatrices[restData.indices.get(parent)!];
+        }
+        const parentNode = bone.getTransformNode()?.parent;
+        return parentNode ? parentNode.computeWorldMatrix(true) : Matrix.IdentityReadOnly;
+    }
+
+    private static _ComputeRestData(skeleton: Skeleton): ISkeletonRestData {
+        const bones = skeleton.bones;
+        const depth = (bone: Bone): number => {
+            let result = 0;
+            for (let parent = bone.getParent(); parent; parent = parent.getParent()) {
+                result++;
+            }
+            return result;
+        };
+        const depths = new Map<Bone, number>();
+        for (const bone of bones) {
+            depths.set(bone, depth(bone));
+        }
+
+        const data: ISkeletonRestData = {
+            sortedBones: bones.slice().sort((a, b) => depths.get(a)! - depths.get(b)!),
+            indices: new Map(bones.map((bone, index) => [bone, index])),
+            worldMatrices: bones.map(() => new Matrix()),
+            worldRotations: bones.map(() => new Quaternion()),
+            localRotations: bones.map(() => new Quaternion()),
+            localPositions: bones.map(() => new Vector3()),
+            rootFrameRotations: new Map<Bone, Quaternion>(),
+        };
+
+        const scale = new Vector3();
+        for (const bone of data.sortedBones) {
+            const index = data.indices.get(bone)!;
+            const restMatrix = bone.getRestMatrix();
+            restMatrix.decompose(scale, data.localRotations[index], data.localPositions[index]);
+            restMatrix.multiplyToRef(AnimationRetargeter._GetParentWorldMatrix(bone, data), data.worldMatrices[index]);
+            data.worldMatrices[index].decompose(scale, data.worldRotations[index]);
+            if (!bone.getParent()) {
+                const frameRotation = new Quaternion();
+                AnimationRetargeter._GetParentWorldMatrix(bone, data).decompose(scale, frameRotation);
+                data.rootFrameRotations.set(bone, frameRotation);
+            }
+        }
+
+        return data;
+    }
+}
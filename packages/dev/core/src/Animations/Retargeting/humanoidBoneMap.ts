@@ -0,0 +1,228 @@
+import type { Skeleton } from "../../Bones/skeleton";
+import type { Bone } from "../../Bones/bone";
+import type { Nullable } from "../../types";
+
+/**
+ * The roles a bone can play in a humanoid skeleton.
+ * The names follow the VRM humanoid specification, so that a VRM humanoid description can be used as is.
+ */
+export type HumanoidBoneRole =
+    | "hips"
+    | "spine"
+    | "chest"
+    | "upperChest"
+    | "neck"
+    | "head"
+    | "leftShoulder"
+    | "leftUpperArm"
+    | "leftLowerArm"
+    | "leftHand"
+    | "rightShoulder"
+    | "rightUpperArm"
+    | "rightLowerArm"
+    | "rightHand"
+    | "leftUpperLeg"
+    | "leftLowerLeg"
+    | "leftFoot"
+    | "leftToes"
+    | "rightUpperLeg"
+    | "rightLowerLeg"
+    | "rightFoot"
+    | "rightToes"
+    | "leftThumbMetacarpal"
+    | "leftThumbProximal"
+    | "leftThumbDistal"
+    | "leftIndexProximal"
+    | "leftIndexIntermediate"
+    | "leftIndexDistal"
+    | "leftMiddleProximal"
+    | "leftMiddleIntermediate"
+    | "leftMiddleDistal"
+    | "leftRingProximal"
+    | "leftRingIntermediate"
+    | "leftRingDistal"
+    | "leftLittleProximal"
+    | "leftLittleIntermediate"
+    | "leftLittleDistal"
+    | "rightThumbMetacarpal"
+    | "rightThumbProximal"
+    | "rightThumbDistal"
+    | "rightIndexProximal"
+    | "rightIndexIntermediate"
+    | "rightIndexDistal"
+    | "rightMiddleProximal"
+    | "rightMiddleIntermediate"
+    | "rightMiddleDistal"
+    | "rightRingProximal"
+    | "rightRingIntermediate"
+    | "rightRingDistal"
+    | "rightLittleProximal"
+    | "rightLittleIntermediate"
+    | "rightLittleDistal";
+
+/**
+ * Maps humanoid bone roles to the names of the bones playing these roles in a given skeleton
+ */
+export type HumanoidBoneMap = { [role in HumanoidBoneRole]?: string };
+
+const FingerRoleSuffixes: { [finger: string]: string[] } = {
+    thumb: ["ThumbMetacarpal", "ThumbProximal", "ThumbDistal"],
+    index: ["IndexProximal", "IndexIntermediate", "IndexDistal"],
+    middle: ["MiddleProximal", "MiddleIntermediate", "MiddleDistal"],
+    ring: ["RingProximal", "RingIntermediate", "RingDistal"],
+    little: ["LittleProximal", "LittleIntermediate", "LittleDistal"],
+};
+
+/**
+ * Gets the list of all the humanoid bone roles, parents being listed before their children
+ */
+export const HumanoidBoneRoles: ReadonlyArray<HumanoidBoneRole> = (() => {
+    const roles: HumanoidBoneRole[] = ["hips", "spine", "chest", "upperChest", "neck", "head"];
+    for (const side of ["left", "right"]) {
+        roles.push(...([`${side}Shoulder`, `${side}UpperArm`, `${side}LowerArm`, `${side}Hand`] as HumanoidBoneRole[]));
+        roles.push(...([`${side}UpperLeg`, `${side}LowerLeg`, `${side}Foot`, `${side}Toes`] as HumanoidBoneRole[]));
+        for (const finger in FingerRoleSuffixes) {
+            roles.push(...(FingerRoleSuffixes[finger].map((suffix) => `${side}${suffix}`) as HumanoidBoneRole[]));
+        }
+    }
+    return roles;
+})();
+
+// Aliases of the (side-less) roles, normalized (lower case, no separator)
+const RoleAliases: { [alias: string]: string } = {
+    hips: "hips",
+    hip: "hips",
+    pelvis: "hips",
+    spine: "spine",
+    spine0: "spine",
+    spine00: "spine",
+    abdomen: "spine",
+    chest: "chest",
+    spine1: "chest",
+    spine01: "chest",
+    upperchest: "upperChest",
+    spine2: "upperChest",
+    spine02: "upperChest",
+    neck: "neck",
+    neck1: "neck",
+    neck01: "neck",
+    head: "head",
+    shoulder: "Shoulder",
+    clavicle: "Shoulder",
+    collar: "Shoulder",
+    upperarm: "UpperArm",
+    arm: "UpperArm",
+    uparm: "UpperArm",
+    lowerarm: "LowerArm",
+    forearm: "LowerArm",
+    hand: "Hand",
+    wrist: "Hand",
+    upperleg: "UpperLeg",
+    upleg: "UpperLeg",
+    thigh: "UpperLeg",
+    lowerleg: "LowerLeg",
+    leg: "LowerLeg",
+    calf: "LowerLeg",
+    shin: "LowerLeg",
+    foot: "Foot",
+    ankle: "Foot",
+    toes: "Toes",
+    toe: "Toes",
+    toebase: "Toes",
+};
+
+// Tokens which are commonly used as prefixes by authoring tools and do not carry any meaning
+const IgnoredTokens = new Set(["mixamorig", "j", "bip", "bip01", "bip001", "c", "def", "org", "armature", "valvebiped"]);
+
+const LeftTokens = new Set(["left", "l"]);
+const RightTokens = new Set(["right", "r"]);
+
+/**
+ * Guesses the humanoid role of a bone from its name.
+ * Common naming conventions are supported (Mixamo, VRoid/VRM, Blender rigify-like ".L/.R" suffixes, 3ds Max biped, etc.)
+ * @param name defines the name of the bone
+ * @returns the role of the bone or null if the name is not recognized
+ */
+export function GetHumanoidBoneRoleFromName(name: string): Nullable<HumanoidBoneRole> {
+    // Split camel case, separators and digits attached to words ("LeftHandThumb1" => ["left", "hand", "thumb1"])
+    const tokens = (name.match(/[A-Z]?[a-z]+\d*|[A-Z]+\d*(?![a-z])|\d+/g) ?? []).map((token) => token.toLowerCase());
+
+    let side = "";
+    const baseTokens: string[] = [];
+    for (const token of tokens) {
+        if (IgnoredTokens.has(token) || /^mixamorig\d*$/.test(token)) {
+            continue;
+        }
+        if (!side && LeftTokens.has(token)) {
+            side = "left";
+            continue;
+        }
+        if (!side && RightTokens.has(token)) {
+            side = "right";
+            continue;
+        }
+        baseTokens.push(token);
+    }
+
+    const base = baseTokens.join("");
+    if (!base) {
+        return null;
+    }
+
+    const finger = base.match(/^(?:hand)?(thumb|index|middle|ring|little|pinky)(?:finger)?(\d|metacarpal|proximal|intermediate|distal)$/);
+    if (finger) {
+        if (!side) {
+            return null;
+        }
+        const suffixes = FingerRoleSuffixes[finger[1] === "pinky" ? "little" : finger[1]];
+        const digit = parseInt(finger[2]);
+        const suffix = isNaN(digit) ? suffixes.find((s) => s.toLowerCase().endsWith(finger[2])) : suffixes[digit - 1];
+        return suffix ? ((side + suffix) as HumanoidBoneRole) : null;
+    }
+
+    const alias = RoleAliases[base];
+    if (!alias) {
+        return null;
+    }
+
+    // Roles starting with an upper case letter are the sided ones
+    const isSided = alias[0] !== alias[0].toLowerCase();
+    if (isSided !== !!side) {
+        return null;
+    }
+
+    return (side + alias) as HumanoidBoneRole;
+}
+
+/**
+ * Builds a humanoid bone map by guessing the role of each bone of a skeleton from its name.
+ * When several bones are candidates for the same role, the first one in the skeleton is used.
+ * @param skeleton defines the skeleton to analyze
+ * @returns the humanoid bone map of the skeleton
+ */
+export function DetectHumanoidBoneMap(skeleton: Skeleton): HumanoidBoneMap {
+    const map: HumanoidBoneMap = {};
+    for (const bone of skeleton.bones) {
+        const role = GetHumanoidBoneRoleFromName(bone.name);
+        if (role && !map[role]) {
+            map[role] = bone.name;
+        }
+    }
+    return map;
+}
+
+/**
+ * Gets the bone playing a given role in a skeleton
+ * @param skeleton defines the skeleton to look into
+ * @param map defines the humanoid bone map of the skeleton
+ * @param role defines the role to look for
+ * @returns the bone playing the role or null if not found
+ */
+export function GetHumanoidBone(skeleton: Skeleton, map: HumanoidBoneMap, role: HumanoidBoneRole): Nullable<Bone> {
+    const name = map[role];
+    if (!name) {
+        return null;
+    }
+    const index = skeleton.getBoneIndexByName(name);
+    return index === -1 ? null : skeleton.bones[index];
+}
@@ -0,0 +1,2 @@
+export * from "./humanoidBoneMap";
+export * from "./animationRetargeter";
@@ -96,4 +96,27 @@ export class AnimationGroupMask {
     public retainsTarget(name: string): boolean {
         return this._targetNames.has(name) === (this.mode === AnimationGroupMaskMode.Include);
     }
+
+    /**
+     * Serializes the mask
+     * @returns the serialized object
+     */
+    public serialize(): any {
+        return {
+            names: Array.from(this._targetNames),
+            mode: this.mode,
+            disabled: this.disabled,
+        };
+    }
+
+    /**
+     * Creates a mask from a serialized object
+     * @param parsedMask defines the serialized object
+     * @returns the new mask
+     */
+    public static Parse(parsedMask: any): AnimationGroupMask {
+        const mask = new AnimationGroupMask(parsedMask.names, parsedMask.mode);
+        mask.disabled = !!parsedMask.disabled;
+        return mask;
+    }
 }
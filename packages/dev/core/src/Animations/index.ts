@@ -1,3 +1,4 @@
+/* eslint-disable @typescript-eslint/no-restricted-imports */
 export * from "./animatable";
 export * from "./animation";
 export * from "./animationPropertiesOverride";
@@ -11,3 +12,5 @@ export * from "./animatable.interface";
 export * from "./pathCursor";
 export * from "./animationGroupMask";
 export * from "./animation.optimizations";
+export * from "./Retargeting/index";
+export * from "./Controller/index";
@@ -4,13 +4,32 @@ import type { IAbstractAudioOutNodeOptions } from "./abstractAudioOutNode";
 import { AbstractAudioOutNode } from "./abstractAudioOutNode";
 import type { PrimaryAudioBus } from "./audioBus";
 import type { AudioEngineV2 } from "./audioEngineV2";
+import type { AbstractAudioCompressor, IAudioCompressorOptions } from "./subProperties/abstractAudioCompressor";
+import type { AbstractAudioDelay, IAudioDelayOptions } from "./subProperties/abstractAudioDelay";
+import type { AbstractAudioEqualizer, IAudioEqualizerOptions } from "./subProperties/abstractAudioEqualizer";
+import type { AbstractAudioFilter, IAudioFilterOptions } from "./subProperties/abstractAudioFilter";
+import type { AbstractAudioReverb, IAudioReverbOptions } from "./subProperties/abstractAudioReverb";
 import type { AbstractSpatialAudio, ISpatialAudioOptions } from "./subProperties/abstractSpatialAudio";
 import type { AbstractStereoAudio, IStereoAudioOptions } from "./subProperties/abstractStereoAudio";
+import { _AudioCompressor } from "./subProperties/audioCompressor";
+import { _AudioDelay } from "./subProperties/audioDelay";
+import { _AudioEqualizer } from "./subProperties/audioEqualizer";
+import { _AudioFilter } from "./subProperties/audioFilter";
+import { _AudioReverb } from "./subProperties/audioReverb";
 
 /**
  * Options for creating a sound source.
  */
-export interface ISoundSourceOptions extends IAbstractAudioOutNodeOptions, ISpatialAudioOptions, IStereoAudioOptions {
+export interface ISoundSourceOptions
+    extends
+        IAbstractAudioOutNodeOptions,
+        IAudioCompressorOptions,
+        IAudioDelayOptions,
+        IAudioEqualizerOptions,
+        IAudioFilterOptions,
+        IAudioReverbOptions,
+        ISpatialAudioOptions,
+        IStereoAudioOptions {
     /**
      * The output bus for the sound source. Defaults to `null`.
      * - If not set or `null`, and `outBusAutoDefault` is `true`, then the sound source is automatically connected to the audio engine's default main bus.
@@ -30,6 +49,11 @@ export interface ISoundSourceOptions extends IAbstractAudioOutNodeOptions, ISpat
 export abstract class AbstractSoundSource extends AbstractAudioOutNode {
     private readonly _spatialAutoUpdate: boolean = true;
     private readonly _spatialMinUpdateTime: number = 0;
+    private _compressor: Nullable<AbstractAudioCompressor> = null;
+    private _delay: Nullable<AbstractAudioDelay> = null;
+    private _equalizer: Nullable<AbstractAudioEqualizer> = null;
+    private _filter: Nullable<AbstractAudioFilter> = null;
+    private _reverb: Nullable<AbstractAudioReverb> = null;
     private _outBus: Nullable<PrimaryAudioBus> = null;
     private _spatial: Nullable<AbstractSpatialAudio> = null;
 
@@ -75,6 +99,41 @@ export abstract class AbstractSoundSource extends AbstractAudioOutNode {
         }
     }
 
+    /**
+     * The audio compressor features.
+     */
+    public get compressor(): AbstractAudioCompressor {
+        return this._compressor ?? (this._compressor = new _AudioCompressor(this._subGraph));
+    }
+
+    /**
+     * The audio delay features.
+     */
+    public get delay(): AbstractAudioDelay {
+        return this._delay ?? (this._delay = new _AudioDelay(this._subGraph));
+    }
+
+    /**
+     * The audio equalizer features.
+     */
+    public get equalizer(): AbstractAudioEqualizer {
+        return this._equalizer ?? (this._equalizer = new _AudioEqualizer(this._subGraph));
+    }
+
+    /**
+     * The audio filter features.
+     */
+    public get filter(): AbstractAudioFilter {
+        return this._filter ?? (this._filter = new _AudioFilter(this._subGraph));
+    }
+
+    /**
+     * The audio reverb features.
+     */
+    public get reverb(): AbstractAudioReverb {
+        return this._reverb ?? (this._reverb = new _AudioReverb(this._subGraph));
+    }
+
     /**
      * The spatial audio features.
      */
@@ -96,6 +155,21 @@ export abstract class AbstractSoundSource extends AbstractAudioOutNode {
     public override dispose(): void {
         super.dispose();
 
+        this._compressor?.dispose();
+        this._compressor = null;
+
+        this._delay?.dispose();
+        this._delay = null;
+
+        this._equalizer?.dispose();
+        this._equalizer = null;
+
+        this._filter?.dispose();
+        this._filter = null;
+
+        this._reverb?.dispose();
+        this._reverb = null;
+
         this._spatial?.dispose();
         this._spatial = null;
 
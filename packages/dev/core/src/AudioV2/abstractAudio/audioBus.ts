@@ -3,8 +3,18 @@ import type { IAbstractAudioBusOptions } from "./abstractAudioBus";
 import { AbstractAudioBus } from "./abstractAudioBus";
 import type { AudioEngineV2 } from "./audioEngineV2";
 import type { MainAudioBus } from "./mainAudioBus";
+import type { AbstractAudioCompressor, IAudioCompressorOptions } from "./subProperties/abstractAudioCompressor";
+import type { AbstractAudioDelay, IAudioDelayOptions } from "./subProperties/abstractAudioDelay";
+import type { AbstractAudioEqualizer, IAudioEqualizerOptions } from "./subProperties/abstractAudioEqualizer";
+import type { AbstractAudioFilter, IAudioFilterOptions } from "./subProperties/abstractAudioFilter";
+import type { AbstractAudioReverb, IAudioReverbOptions } from "./subProperties/abstractAudioReverb";
 import type { AbstractSpatialAudio, ISpatialAudioOptions } from "./subProperties/abstractSpatialAudio";
 import type { AbstractStereoAudio, IStereoAudioOptions } from "./subProperties/abstractStereoAudio";
+import { _AudioCompressor } from "./subProperties/audioCompressor";
+import { _AudioDelay } from "./subProperties/audioDelay";
+import { _AudioEqualizer } from "./subProperties/audioEqualizer";
+import { _AudioFilter } from "./subProperties/audioFilter";
+import { _AudioReverb } from "./subProperties/audioReverb";
 
 // NB: Secondary audio buses will be added later.
 export type PrimaryAudioBus = MainAudioBus | AudioBus;
@@ -12,7 +22,16 @@ export type PrimaryAudioBus = MainAudioBus | AudioBus;
 /**
  * Options for creating an audio bus.
  */
-export interface IAudioBusOptions extends IAbstractAudioBusOptions, ISpatialAudioOptions, IStereoAudioOptions {
+export interface IAudioBusOptions
+    extends
+        IAbstractAudioBusOptions,
+        IAudioCompressorOptions,
+        IAudioDelayOptions,
+        IAudioEqualizerOptions,
+        IAudioFilterOptions,
+        IAudioReverbOptions,
+        ISpatialAudioOptions,
+        IStereoAudioOptions {
     /**
      * The output bus of the audio bus. Defaults to the audio engine's default main bus.
      * @see {@link AudioEngineV2.defaultMainBus}
@@ -30,6 +49,11 @@ export interface IAudioBusOptions extends IAbstractAudioBusOptions, ISpatialAudi
 export abstract class AudioBus extends AbstractAudioBus {
     private readonly _spatialAutoUpdate: boolean = true;
     private readonly _spatialMinUpdateTime: number = 0;
+    private _compressor: Nullable<AbstractAudioCompressor> = null;
+    private _delay: Nullable<AbstractAudioDelay> = null;
+    private _equalizer: Nullable<AbstractAudioEqualizer> = null;
+    private _filter: Nullable<AbstractAudioFilter> = null;
+    private _reverb: Nullable<AbstractAudioReverb> = null;
     private _outBus: Nullable<PrimaryAudioBus> = null;
     private _spatial: Nullable<AbstractSpatialAudio> = null;
 
@@ -76,6 +100,41 @@ export abstract class AudioBus extends AbstractAudioBus {
         }
     }
 
+    /**
+     * The audio compressor features.
+     */
+    public get compressor(): AbstractAudioCompressor {
+        return this._compressor ?? (this._compressor = new _AudioCompressor(this._subGraph));
+    }
+
+    /**
+     * The audio delay features.
+     */
+    public get delay(): AbstractAudioDelay {
+        return this._delay ?? (this._delay = new _AudioDelay(this._subGraph));
+    }
+
+    /**
+     * The audio equalizer features.
+     */
+    public get equalizer(): AbstractAudioEqualizer {
+        return this._equalizer ?? (this._equalizer = new _AudioEqualizer(this._subGraph));
+    }
+
+    /**
+     * The audio filter features.
+     */
+    public get filter(): AbstractAudioFilter {
+        return this._filter ?? (this._filter = new _AudioFilter(this._subGraph));
+    }
+
+    /**
+     * The audio reverb features.
+     */
+    public get reverb(): AbstractAudioReverb {
+        return this._reverb ?? (this._reverb = new _AudioReverb(this._subGraph));
+    }
+
     /**
      * The spatial audio features.
      */
@@ -97,6 +156,21 @@ export abstract class AudioBus extends AbstractAudioBus {
     public override dispose(): void {
         super.dispose();
 
+        this._compressor?.dispose();
+        this._compressor = null;
+
+        this._delay?.dispose();
+        this._delay = null;
+
+        this._equalizer?.dispose();
+        this._equalizer = null;
+
+        this._filter?.dispose();
+        this._filter = null;
+
+        this._reverb?.dispose();
+        this._reverb = null;
+
         this._spatial?.dispose();
         this._spatial = null;
 
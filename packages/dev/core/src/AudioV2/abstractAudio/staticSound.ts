@@ -55,6 +55,16 @@ export interface IStaticSoundOptions extends IAbstractSoundOptions, IStaticSound
  * Options for playing a static sound.
  */
 export interface IStaticSoundPlayOptions extends IAbstractSoundPlayOptions, IStaticSoundOptionsBase {
+    /**
+     * The pitch of the played instance, in cents. Defaults to the sound's {@link StaticSound.pitch}.
+     * - Setting the sound's `pitch` property while the instance is playing overrides this value.
+     */
+    pitch: number;
+    /**
+     * The playback rate of the played instance. Defaults to the sound's {@link StaticSound.playbackRate}.
+     * - Setting the sound's `playbackRate` property while the instance is playing overrides this value.
+     */
+    playbackRate: number;
     /**
      * The time to wait before playing the sound, in seconds. Defaults to `0`.
      */
@@ -200,25 +210,7 @@ export abstract class StaticSound extends AbstractSound {
      * @param options The options to use when playing the sound. Options set here override the sound's options.
      */
     public play(options: Partial<IStaticSoundPlayOptions> = {}): void {
-        if (this.state === SoundState.Paused) {
-            this.resume();
-            return;
-        }
-
-        options.duration ??= this.duration;
-        options.loop ??= this.loop;
-        options.loopStart ??= this.loopStart;
-        options.loopEnd ??= this.loopEnd;
-        options.startOffset ??= this.startOffset;
-        options.volume ??= 1;
-        options.waitTime ??= 0;
-
-        const instance = this._createInstance();
-        this._beforePlay(instance);
-        instance.play(options);
-        this._afterPlay(instance);
-
-        this._stopExcessInstances();
+        this._play(options);
     }
 
     /**
@@ -242,5 +234,35 @@ export abstract class StaticSound extends AbstractSound {
         }
     }
 
+    /**
+     * Plays the sound and returns the played instance, or `null` if a paused sound was resumed instead.
+     * @internal
+     */
+    public _play(options: Partial<IStaticSoundPlayOptions>): Nullable<_StaticSoundInstance> {
+        if (this.state === SoundState.Paused) {
+            this.resume();
+            return null;
+        }
+
+        options.duration ??= this.duration;
+        options.loop ??= this.loop;
+        options.loopStart ??= this.loopStart;
+        options.loopEnd ??= this.loopEnd;
+        options.pitch ??= this.pitch;
+        options.playbackRate ??= this.playbackRate;
+        options.startOffset ??= this.startOffset;
+        options.volume ??= 1;
+        options.waitTime ??= 0;
+
+        const instance = this._createInstance();
+        this._beforePlay(instance);
+        instance.play(options);
+        this._afterPlay(instance);
+
+        this._stopExcessInstances();
+
+        return instance;
+    }
+
     protected abstract override _createInstance(): _StaticSoundInstance;
 }
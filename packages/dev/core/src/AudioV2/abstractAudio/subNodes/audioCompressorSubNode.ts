@@ -0,0 +1,53 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { AudioParameterRampShape } from "../../audioParameter";
+import type { AudioEngineV2 } from "../audioEngineV2";
+import type { AudioCompressorParameter, IAudioCompressorOptions } from "../subProperties/abstractAudioCompressor";
+import { _AudioCompressorDefaults } from "../subProperties/abstractAudioCompressor";
+import type { _AbstractAudioSubGraph } from "./abstractAudioSubGraph";
+import { _AbstractAudioSubNode } from "./abstractAudioSubNode";
+import { AudioSubNode } from "./audioSubNode";
+
+/** @internal */
+export abstract class _AudioCompressorSubNode extends _AbstractAudioSubNode {
+    protected constructor(engine: AudioEngineV2) {
+        super(AudioSubNode.COMPRESSOR, engine);
+    }
+
+    public abstract threshold: number;
+    public abstract knee: number;
+    public abstract ratio: number;
+    public abstract attack: number;
+    public abstract release: number;
+    public abstract readonly reduction: number;
+
+    /** @internal */
+    public abstract setParameter(parameter: AudioCompressorParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /** @internal */
+    public setOptions(options: Partial<IAudioCompressorOptions>): void {
+        const rampOptions = { shape: AudioParameterRampShape.None };
+
+        this.setParameter("threshold", options.compressorThreshold ?? _AudioCompressorDefaults.threshold, rampOptions);
+        this.setParameter("knee", options.compressorKnee ?? _AudioCompressorDefaults.knee, rampOptions);
+        this.setParameter("ratio", options.compressorRatio ?? _AudioCompressorDefaults.ratio, rampOptions);
+        this.setParameter("attack", options.compressorAttack ?? _AudioCompressorDefaults.attack, rampOptions);
+        this.setParameter("release", options.compressorRelease ?? _AudioCompressorDefaults.release, rampOptions);
+    }
+}
+
+/** @internal */
+export function _GetAudioCompressorSubNode(subGraph: _AbstractAudioSubGraph): Nullable<_AudioCompressorSubNode> {
+    return subGraph.getSubNode<_AudioCompressorSubNode>(AudioSubNode.COMPRESSOR);
+}
+
+/** @internal */
+export function _SetAudioCompressorProperty<K extends keyof typeof _AudioCompressorDefaults>(
+    subGraph: _AbstractAudioSubGraph,
+    property: K,
+    value: _AudioCompressorSubNode[K]
+): void {
+    subGraph.callOnSubNode<_AudioCompressorSubNode>(AudioSubNode.COMPRESSOR, (node) => {
+        node[property] = value;
+    });
+}
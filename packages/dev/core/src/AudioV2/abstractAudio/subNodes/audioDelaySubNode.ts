@@ -0,0 +1,46 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { AudioParameterRampShape } from "../../audioParameter";
+import type { AudioEngineV2 } from "../audioEngineV2";
+import type { AudioDelayParameter, IAudioDelayOptions } from "../subProperties/abstractAudioDelay";
+import { _AudioDelayDefaults } from "../subProperties/abstractAudioDelay";
+import type { _AbstractAudioSubGraph } from "./abstractAudioSubGraph";
+import { _AbstractAudioSubNode } from "./abstractAudioSubNode";
+import { AudioSubNode } from "./audioSubNode";
+
+/** @internal */
+export abstract class _AudioDelaySubNode extends _AbstractAudioSubNode {
+    protected constructor(engine: AudioEngineV2) {
+        super(AudioSubNode.DELAY, engine);
+    }
+
+    public abstract time: number;
+    public abstract feedback: number;
+    public abstract wet: number;
+    public abstract dry: number;
+
+    /** @internal */
+    public abstract setParameter(parameter: AudioDelayParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /** @internal */
+    public setOptions(options: Partial<IAudioDelayOptions>): void {
+        const rampOptions = { shape: AudioParameterRampShape.None };
+
+        this.setParameter("time", options.delayTime ?? _AudioDelayDefaults.time, rampOptions);
+        this.setParameter("feedback", options.delayFeedback ?? _AudioDelayDefaults.feedback, rampOptions);
+        this.setParameter("wet", options.delayWet ?? _AudioDelayDefaults.wet, rampOptions);
+        this.setParameter("dry", options.delayDry ?? _AudioDelayDefaults.dry, rampOptions);
+    }
+}
+
+/** @internal */
+export function _GetAudioDelaySubNode(subGraph: _AbstractAudioSubGraph): Nullable<_AudioDelaySubNode> {
+    return subGraph.getSubNode<_AudioDelaySubNode>(AudioSubNode.DELAY);
+}
+
+/** @internal */
+export function _SetAudioDelayProperty<K extends keyof typeof _AudioDelayDefaults>(subGraph: _AbstractAudioSubGraph, property: K, value: _AudioDelaySubNode[K]): void {
+    subGraph.callOnSubNode<_AudioDelaySubNode>(AudioSubNode.DELAY, (node) => {
+        node[property] = value;
+    });
+}
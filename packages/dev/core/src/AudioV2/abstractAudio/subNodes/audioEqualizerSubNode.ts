@@ -0,0 +1,52 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { AudioParameterRampShape } from "../../audioParameter";
+import type { AudioEngineV2 } from "../audioEngineV2";
+import type { AudioEqualizerParameter, IAudioEqualizerOptions } from "../subProperties/abstractAudioEqualizer";
+import { _AudioEqualizerDefaults } from "../subProperties/abstractAudioEqualizer";
+import type { _AbstractAudioSubGraph } from "./abstractAudioSubGraph";
+import { _AbstractAudioSubNode } from "./abstractAudioSubNode";
+import { AudioSubNode } from "./audioSubNode";
+
+/** @internal */
+export abstract class _AudioEqualizerSubNode extends _AbstractAudioSubNode {
+    protected constructor(engine: AudioEngineV2) {
+        super(AudioSubNode.EQUALIZER, engine);
+    }
+
+    public abstract lowGain: number;
+    public abstract midGain: number;
+    public abstract highGain: number;
+    public abstract lowFrequency: number;
+    public abstract midFrequency: number;
+    public abstract highFrequency: number;
+    public abstract midQualityFactor: number;
+
+    /** @internal */
+    public abstract setParameter(parameter: AudioEqualizerParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /** @internal */
+    public setOptions(options: Partial<IAudioEqualizerOptions>): void {
+        const rampOptions = { shape: AudioParameterRampShape.None };
+
+        this.setParameter("lowGain", options.equalizerLowGain ?? _AudioEqualizerDefaults.lowGain, rampOptions);
+        this.setParameter("midGain", options.equalizerMidGain ?? _AudioEqualizerDefaults.midGain, rampOptions);
+        this.setParameter("highGain", options.equalizerHighGain ?? _AudioEqualizerDefaults.highGain, rampOptions);
+        this.setParameter("lowFrequency", options.equalizerLowFrequency ?? _AudioEqualizerDefaults.lowFrequency, rampOptions);
+        this.setParameter("midFrequency", options.equalizerMidFrequency ?? _AudioEqualizerDefaults.midFrequency, rampOptions);
+        this.setParameter("highFrequency", options.equalizerHighFrequency ?? _AudioEqualizerDefaults.highFrequency, rampOptions);
+        this.setParameter("midQualityFactor", options.equalizerMidQualityFactor ?? _AudioEqualizerDefaults.midQualityFactor, rampOptions);
+    }
+}
+
+/** @internal */
+export function _GetAudioEqualizerSubNode(subGraph: _AbstractAudioSubGraph): Nullable<_AudioEqualizerSubNode> {
+    return subGraph.getSubNode<_AudioEqualizerSubNode>(AudioSubNode.EQUALIZER);
+}
+
+/** @internal */
+export function _SetAudioEqualizerProperty<K extends keyof typeof _AudioEqualizerDefaults>(subGraph: _AbstractAudioSubGraph, property: K, value: _AudioEqualizerSubNode[K]): void {
+    subGraph.callOnSubNode<_AudioEqualizerSubNode>(AudioSubNode.EQUALIZER, (node) => {
+        node[property] = value;
+    });
+}
@@ -0,0 +1,46 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { AudioParameterRampShape } from "../../audioParameter";
+import type { AudioEngineV2 } from "../audioEngineV2";
+import type { AudioFilterParameter, AudioFilterType, IAudioFilterOptions } from "../subProperties/abstractAudioFilter";
+import { _AudioFilterDefaults } from "../subProperties/abstractAudioFilter";
+import type { _AbstractAudioSubGraph } from "./abstractAudioSubGraph";
+import { _AbstractAudioSubNode } from "./abstractAudioSubNode";
+import { AudioSubNode } from "./audioSubNode";
+
+/** @internal */
+export abstract class _AudioFilterSubNode extends _AbstractAudioSubNode {
+    protected constructor(engine: AudioEngineV2) {
+        super(AudioSubNode.FILTER, engine);
+    }
+
+    public abstract type: AudioFilterType;
+    public abstract frequency: number;
+    public abstract qualityFactor: number;
+    public abstract gain: number;
+
+    /** @internal */
+    public abstract setParameter(parameter: AudioFilterParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /** @internal */
+    public setOptions(options: Partial<IAudioFilterOptions>): void {
+        const rampOptions = { shape: AudioParameterRampShape.None };
+
+        this.type = options.filterType ?? _AudioFilterDefaults.type;
+        this.setParameter("frequency", options.filterFrequency ?? _AudioFilterDefaults.frequency, rampOptions);
+        this.setParameter("qualityFactor", options.filterQualityFactor ?? _AudioFilterDefaults.qualityFactor, rampOptions);
+        this.setParameter("gain", options.filterGain ?? _AudioFilterDefaults.gain, rampOptions);
+    }
+}
+
+/** @internal */
+export function _GetAudioFilterSubNode(subGraph: _AbstractAudioSubGraph): Nullable<_AudioFilterSubNode> {
+    return subGraph.getSubNode<_AudioFilterSubNode>(AudioSubNode.FILTER);
+}
+
+/** @internal */
+export function _SetAudioFilterProperty<K extends keyof typeof _AudioFilterDefaults>(subGraph: _AbstractAudioSubGraph, property: K, value: _AudioFilterSubNode[K]): void {
+    subGraph.callOnSubNode<_AudioFilterSubNode>(AudioSubNode.FILTER, (node) => {
+        node[property] = value;
+    });
+}
@@ -0,0 +1,63 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { AudioParameterRampShape } from "../../audioParameter";
+import type { AudioEngineV2 } from "../audioEngineV2";
+import { StaticSoundBuffer } from "../staticSoundBuffer";
+import type { AudioReverbImpulseResponseSource, AudioReverbParameter, IAudioReverbOptions } from "../subProperties/abstractAudioReverb";
+import { _AudioReverbDefaults } from "../subProperties/abstractAudioReverb";
+import type { _AbstractAudioSubGraph } from "./abstractAudioSubGraph";
+import { _AbstractAudioSubNode } from "./abstractAudioSubNode";
+import { AudioSubNode } from "./audioSubNode";
+
+/** @internal */
+export abstract class _AudioReverbSubNode extends _AbstractAudioSubNode {
+    private _impulseResponseUrl: Nullable<string> = null;
+
+    protected constructor(engine: AudioEngineV2) {
+        super(AudioSubNode.REVERB, engine);
+    }
+
+    public abstract wet: number;
+    public abstract dry: number;
+    public abstract normalize: boolean;
+    public abstract readonly impulseResponse: Nullable<StaticSoundBuffer>;
+
+    /** @internal */
+    public get impulseResponseUrl(): Nullable<string> {
+        return this._impulseResponseUrl;
+    }
+
+    /** @internal */
+    public abstract setParameter(parameter: AudioReverbParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /** @internal */
+    public async setImpulseResponseAsync(source: AudioReverbImpulseResponseSource): Promise<void> {
+        const buffer = source instanceof StaticSoundBuffer ? source : await this.engine.createSoundBufferAsync(source);
+
+        this._impulseResponseUrl = typeof source === "string" ? source : null;
+        this._setImpulseResponse(buffer);
+    }
+
+    /** @internal */
+    public setOptions(options: Partial<IAudioReverbOptions>): void {
+        const rampOptions = { shape: AudioParameterRampShape.None };
+
+        this.normalize = options.reverbNormalize ?? _AudioReverbDefaults.normalize;
+        this.setParameter("wet", options.reverbWet ?? _AudioReverbDefaults.wet, rampOptions);
+        this.setParameter("dry", options.reverbDry ?? _AudioReverbDefaults.dry, rampOptions);
+    }
+
+    protected abstract _setImpulseResponse(buffer: StaticSoundBuffer): void;
+}
+
+/** @internal */
+export function _GetAudioReverbSubNode(subGraph: _AbstractAudioSubGraph): Nullable<_AudioReverbSubNode> {
+    return subGraph.getSubNode<_AudioReverbSubNode>(AudioSubNode.REVERB);
+}
+
+/** @internal */
+export function _SetAudioReverbProperty<K extends keyof typeof _AudioReverbDefaults>(subGraph: _AbstractAudioSubGraph, property: K, value: _AudioReverbSubNode[K]): void {
+    subGraph.callOnSubNode<_AudioReverbSubNode>(AudioSubNode.REVERB, (node) => {
+        node[property] = value;
+    });
+}
@@ -1,6 +1,11 @@
 /** @internal */
 export const enum AudioSubNode {
     ANALYZER = "Analyzer",
+    COMPRESSOR = "Compressor",
+    DELAY = "Delay",
+    EQUALIZER = "Equalizer",
+    FILTER = "Filter",
+    REVERB = "Reverb",
     STEREO = "Stereo",
     SPATIAL = "Spatial",
     VOLUME = "Volume",
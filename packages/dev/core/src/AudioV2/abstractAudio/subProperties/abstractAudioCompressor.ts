@@ -0,0 +1,140 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+
+/**
+ * The animatable parameters of an audio compressor.
+ */
+export type AudioCompressorParameter = "threshold" | "knee" | "ratio" | "attack" | "release";
+
+export const _AudioCompressorDefaults = {
+    threshold: -24 as number,
+    knee: 30 as number,
+    ratio: 12 as number,
+    attack: 0.003 as number,
+    release: 0.25 as number,
+} as const;
+
+/**
+ * Options for the audio compressor.
+ */
+export interface IAudioCompressorOptions {
+    /**
+     * Enable the audio compressor. Defaults to false.
+     *
+     * When set to `true`, the audio compressor will be initialized on creation and there will be no delay when setting
+     * the first compressor value.
+     *
+     * - This option is ignored if any other compressor options are set.
+     */
+    compressorEnabled: boolean;
+    /**
+     * The level above which compression is applied, in decibels. Defaults to -24.
+     */
+    compressorThreshold: number;
+    /**
+     * The range above the threshold where the curve smoothly transitions to the compressed portion, in decibels. Defaults to 30.
+     */
+    compressorKnee: number;
+    /**
+     * The amount of change, in decibels, needed in the input for a 1 decibel change in the output. Defaults to 12.
+     */
+    compressorRatio: number;
+    /**
+     * The amount of time taken to reduce the gain by 10 decibels, in seconds. Defaults to 0.003.
+     */
+    compressorAttack: number;
+    /**
+     * The amount of time taken to increase the gain by 10 decibels, in seconds. Defaults to 0.25.
+     */
+    compressorRelease: number;
+}
+
+/**
+ * @param options The audio compressor options to check.
+ * @returns `true` if audio compressor options are defined, otherwise `false`.
+ */
+export function _HasAudioCompressorOptions(options: Partial<IAudioCompressorOptions>): boolean {
+    return (
+        options.compressorEnabled ||
+        options.compressorThreshold !== undefined ||
+        options.compressorKnee !== undefined ||
+        options.compressorRatio !== undefined ||
+        options.compressorAttack !== undefined ||
+        options.compressorRelease !== undefined
+    );
+}
+
+/**
+ * Abstract class representing the `compressor` audio property on a sound or audio bus.
+ *
+ * The compressor lowers the volume of the loudest parts of the signal to reduce its dynamic range.
+ */
+export abstract class AbstractAudioCompressor {
+    /**
+     * The level above which compression is applied, in decibels. Defaults to -24.
+     */
+    public abstract threshold: number;
+
+    /**
+     * The range above the threshold where the curve smoothly transitions to the compressed portion, in decibels. Defaults to 30.
+     */
+    public abstract knee: number;
+
+    /**
+     * The amount of change, in decibels, needed in the input for a 1 decibel change in the output. Defaults to 12.
+     */
+    public abstract ratio: number;
+
+    /**
+     * The amount of time taken to reduce the gain by 10 decibels, in seconds. Defaults to 0.003.
+     */
+    public abstract attack: number;
+
+    /**
+     * The amount of time taken to increase the gain by 10 decibels, in seconds. Defaults to 0.25.
+     */
+    public abstract release: number;
+
+    /**
+     * The amount of gain reduction currently applied by the compressor, in decibels. Returns 0 if the compressor is not enabled.
+     */
+    public abstract readonly reduction: number;
+
+    /**
+     * Whether the compressor is enabled or not.
+     */
+    public abstract readonly isEnabled: boolean;
+
+    /**
+     * Disables the compressor and releases associated resources.
+     */
+    public abstract dispose(): void;
+
+    /**
+     * Enables the compressor.
+     */
+    public abstract enableAsync(): Promise<void>;
+
+    /**
+     * Sets the value of a compressor parameter with optional ramping.
+     * @param parameter The parameter to set.
+     * @param value The value to set the parameter to.
+     * @param options The options to use for ramping the parameter change.
+     */
+    public abstract setParameter(parameter: AudioCompressorParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /**
+     * Serializes the compressor.
+     * @returns The compressor options, which can be used to create a sound or audio bus with the same compressor.
+     */
+    public serialize(): Partial<IAudioCompressorOptions> {
+        return {
+            compressorEnabled: this.isEnabled,
+            compressorThreshold: this.threshold,
+            compressorKnee: this.knee,
+            compressorRatio: this.ratio,
+            compressorAttack: this.attack,
+            compressorRelease: this.release,
+        };
+    }
+}
@@ -0,0 +1,122 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+
+/**
+ * The animatable parameters of an audio delay.
+ */
+export type AudioDelayParameter = "time" | "feedback" | "wet" | "dry";
+
+export const _AudioDelayDefaults = {
+    time: 0.25 as number,
+    feedback: 0.3 as number,
+    wet: 0.5 as number,
+    dry: 1 as number,
+} as const;
+
+/**
+ * The maximum delay time supported by the audio delay, in seconds.
+ */
+export const _AudioDelayMaxTime = 5;
+
+/**
+ * Options for the audio delay.
+ */
+export interface IAudioDelayOptions {
+    /**
+     * Enable the audio delay. Defaults to false.
+     *
+     * When set to `true`, the audio delay will be initialized on creation and there will be no delay when setting
+     * the first delay value.
+     *
+     * - This option is ignored if any other delay options are set.
+     */
+    delayEnabled: boolean;
+    /**
+     * The time between the original signal and its echoes, in seconds. Must be less than or equal to 5. Defaults to 0.25.
+     */
+    delayTime: number;
+    /**
+     * The amount of the delayed signal fed back into the delay, which controls how long the echoes last. Must be less than 1. Defaults to 0.3.
+     */
+    delayFeedback: number;
+    /**
+     * The volume of the delayed signal. Defaults to 0.5.
+     */
+    delayWet: number;
+    /**
+     * The volume of the original signal. Defaults to 1.
+     */
+    delayDry: number;
+}
+
+/**
+ * @param options The audio delay options to check.
+ * @returns `true` if audio delay options are defined, otherwise `false`.
+ */
+export function _HasAudioDelayOptions(options: Partial<IAudioDelayOptions>): boolean {
+    return options.delayEnabled || options.delayTime !== undefined || options.delayFeedback !== undefined || options.delayWet !== undefined || options.delayDry !== undefined;
+}
+
+/**
+ * Abstract class representing the `delay` audio property on a sound or audio bus.
+ *
+ * The delay mixes the original signal with echoes of itself, repeated at a fixed time interval.
+ */
+export abstract class AbstractAudioDelay {
+    /**
+     * The time between the original signal and its echoes, in seconds. Must be less than or equal to 5. Defaults to 0.25.
+     */
+    public abstract time: number;
+
+    /**
+     * The amount of the delayed signal fed back into the delay, which controls how long the echoes last. Must be less than 1. Defaults to 0.3.
+     */
+    public abstract feedback: number;
+
+    /**
+     * The volume of the delayed signal. Defaults to 0.5.
+     */
+    public abstract wet: number;
+
+    /**
+     * The volume of the original signal. Defaults to 1.
+     */
+    public abstract dry: number;
+
+    /**
+     * Whether the delay is enabled or not.
+     */
+    public abstract readonly isEnabled: boolean;
+
+    /**
+     * Disables the delay and releases associated resources.
+     */
+    public abstract dispose(): void;
+
+    /**
+     * Enables the delay.
+     */
+    public abstract enableAsync(): Promise<void>;
+
+    /**
+     * Sets the value of a delay parameter with optional ramping.
+     * @param parameter The parameter to set.
+     * @param value The value to set the parameter to.
+     * @param options The options to use for ramping the parameter change.
+     */
+    public abstract setParameter(parameter: AudioDelayParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /**
+     * Serializes the delay.
+     * @returns The delay options, which can be used to create a sound or audio bus with the same delay.
+     */
+    public serialize(): Partial<IAudioDelayOptions> {
+        return {
+            delayEnabled: this.isEnabled,
+            delayTime: this.time,
+            delayFeedback: this.feedback,
+            delayWet: this.wet,
+            delayDry: this.dry,
+        };
+    }
+}
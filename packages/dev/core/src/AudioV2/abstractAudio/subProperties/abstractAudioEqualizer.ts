@@ -0,0 +1,159 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+
+/**
+ * The animatable parameters of an audio equalizer.
+ */
+export type AudioEqualizerParameter = "lowGain" | "midGain" | "highGain" | "lowFrequency" | "midFrequency" | "highFrequency" | "midQualityFactor";
+
+export const _AudioEqualizerDefaults = {
+    lowGain: 0 as number,
+    midGain: 0 as number,
+    highGain: 0 as number,
+    lowFrequency: 320 as number,
+    midFrequency: 1000 as number,
+    highFrequency: 3200 as number,
+    midQualityFactor: 0.5 as number,
+} as const;
+
+/**
+ * Options for the audio equalizer.
+ */
+export interface IAudioEqualizerOptions {
+    /**
+     * Enable the audio equalizer. Defaults to false.
+     *
+     * When set to `true`, the audio equalizer will be initialized on creation and there will be no delay when setting
+     * the first equalizer value.
+     *
+     * - This option is ignored if any other equalizer options are set.
+     */
+    equalizerEnabled: boolean;
+    /**
+     * The gain of the low band, in decibels. Defaults to 0.
+     */
+    equalizerLowGain: number;
+    /**
+     * The gain of the mid band, in decibels. Defaults to 0.
+     */
+    equalizerMidGain: number;
+    /**
+     * The gain of the high band, in decibels. Defaults to 0.
+     */
+    equalizerHighGain: number;
+    /**
+     * The frequency below which the low band gain is applied, in hertz. Defaults to 320.
+     */
+    equalizerLowFrequency: number;
+    /**
+     * The center frequency of the mid band, in hertz. Defaults to 1000.
+     */
+    equalizerMidFrequency: number;
+    /**
+     * The frequency above which the high band gain is applied, in hertz. Defaults to 3200.
+     */
+    equalizerHighFrequency: number;
+    /**
+     * The quality factor (Q) of the mid band. Higher values make the mid band narrower. Defaults to 0.5.
+     */
+    equalizerMidQualityFactor: number;
+}
+
+/**
+ * @param options The audio equalizer options to check.
+ * @returns `true` if audio equalizer options are defined, otherwise `false`.
+ */
+export function _HasAudioEqualizerOptions(options: Partial<IAudioEqualizerOptions>): boolean {
+    return (
+        options.equalizerEnabled ||
+        options.equalizerLowGain !== undefined ||
+        options.equalizerMidGain !== undefined ||
+        options.equalizerHighGain !== undefined ||
+        options.equalizerLowFrequency !== undefined ||
+        options.equalizerMidFrequency !== undefined ||
+        options.equalizerHighFrequency !== undefined ||
+        options.equalizerMidQualityFactor !== undefined
+    );
+}
+
+/**
+ * Abstract class representing the `equalizer` audio property on a sound or audio bus.
+ *
+ * The equalizer is a 3-band equalizer made of a low shelf, a peaking and a high shelf filter.
+ */
+export abstract class AbstractAudioEqualizer {
+    /**
+     * The gain of the low band, in decibels. Defaults to 0.
+     */
+    public abstract lowGain: number;
+
+    /**
+     * The gain of the mid band, in decibels. Defaults to 0.
+     */
+    public abstract midGain: number;
+
+    /**
+     * The gain of the high band, in decibels. Defaults to 0.
+     */
+    public abstract highGain: number;
+
+    /**
+     * The frequency below which the low band gain is applied, in hertz. Defaults to 320.
+     */
+    public abstract lowFrequency: number;
+
+    /**
+     * The center frequency of the mid band, in hertz. Defaults to 1000.
+     */
+    public abstract midFrequency: number;
+
+    /**
+     * The frequency above which the high band gain is applied, in hertz. Defaults to 3200.
+     */
+    public abstract highFrequency: number;
+
+    /**
+     * The quality factor (Q) of the mid band. Higher values make the mid band narrower. Defaults to 0.5.
+     */
+    public abstract midQualityFactor: number;
+
+    /**
+     * Whether the equalizer is enabled or not.
+     */
+    public abstract readonly isEnabled: boolean;
+
+    /**
+     * Disables the equalizer and releases associated resources.
+     */
+    public abstract dispose(): void;
+
+    /**
+     * Enables the equalizer.
+     */
+    public abstract enableAsync(): Promise<void>;
+
+    /**
+     * Sets the value of an equalizer parameter with optional ramping.
+     * @param parameter The parameter to set.
+     * @param value The value to set the parameter to.
+     * @param options The options to use for ramping the parameter change.
+     */
+    public abstract setParameter(parameter: AudioEqualizerParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /**
+     * Serializes the equalizer.
+     * @returns The equalizer options, which can be used to create a sound or audio bus with the same equalizer.
+     */
+    public serialize(): Partial<IAudioEqualizerOptions> {
+        return {
+            equalizerEnabled: this.isEnabled,
+            equalizerLowGain: this.lowGain,
+            equalizerMidGain: this.midGain,
+            equalizerHighGain: this.highGain,
+            equalizerLowFrequency: this.lowFrequency,
+            equalizerMidFrequency: this.midFrequency,
+            equalizerHighFrequency: this.highFrequency,
+            equalizerMidQualityFactor: this.midQualityFactor,
+        };
+    }
+}
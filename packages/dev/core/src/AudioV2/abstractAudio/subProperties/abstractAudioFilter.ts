@@ -0,0 +1,130 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+
+/**
+ * The type of an audio filter.
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/BiquadFilterNode/type
+ */
+export type AudioFilterType = "lowpass" | "highpass" | "bandpass" | "lowshelf" | "highshelf" | "peaking" | "notch" | "allpass";
+
+/**
+ * The animatable parameters of an audio filter.
+ */
+export type AudioFilterParameter = "frequency" | "qualityFactor" | "gain";
+
+export const _AudioFilterDefaults = {
+    type: "lowpass" as AudioFilterType,
+    frequency: 350 as number,
+    qualityFactor: 1 as number,
+    gain: 0 as number,
+} as const;
+
+/**
+ * Options for the audio filter.
+ */
+export interface IAudioFilterOptions {
+    /**
+     * Enable the audio filter. Defaults to false.
+     *
+     * When set to `true`, the audio filter will be initialized on creation and there will be no delay when setting
+     * the first filter value.
+     *
+     * - This option is ignored if any other filter options are set.
+     */
+    filterEnabled: boolean;
+    /**
+     * The type of the filter. Defaults to "lowpass".
+     */
+    filterType: AudioFilterType;
+    /**
+     * The frequency of the filter, in hertz. Defaults to 350.
+     */
+    filterFrequency: number;
+    /**
+     * The quality factor (Q) of the filter. Defaults to 1.
+     */
+    filterQualityFactor: number;
+    /**
+     * The gain of the filter, in decibels. Only used by the "lowshelf", "highshelf" and "peaking" filter types. Defaults to 0.
+     */
+    filterGain: number;
+}
+
+/**
+ * @param options The audio filter options to check.
+ * @returns `true` if audio filter options are defined, otherwise `false`.
+ */
+export function _HasAudioFilterOptions(options: Partial<IAudioFilterOptions>): boolean {
+    return (
+        options.filterEnabled ||
+        options.filterType !== undefined ||
+        options.filterFrequency !== undefined ||
+        options.filterQualityFactor !== undefined ||
+        options.filterGain !== undefined
+    );
+}
+
+/**
+ * Abstract class representing the `filter` audio property on a sound or audio bus.
+ *
+ * The filter is a biquad filter (lowpass, highpass, bandpass, shelving, peaking, notch or allpass) applied before the
+ * spatial and stereo features of the sound or audio bus.
+ */
+export abstract class AbstractAudioFilter {
+    /**
+     * The type of the filter. Defaults to "lowpass".
+     */
+    public abstract type: AudioFilterType;
+
+    /**
+     * The frequency of the filter, in hertz. Defaults to 350.
+     */
+    public abstract frequency: number;
+
+    /**
+     * The quality factor (Q) of the filter. Defaults to 1.
+     */
+    public abstract qualityFactor: number;
+
+    /**
+     * The gain of the filter, in decibels. Only used by the "lowshelf", "highshelf" and "peaking" filter types. Defaults to 0.
+     */
+    public abstract gain: number;
+
+    /**
+     * Whether the filter is enabled or not.
+     */
+    public abstract readonly isEnabled: boolean;
+
+    /**
+     * Disables the filter and releases associated resources.
+     */
+    public abstract dispose(): void;
+
+    /**
+     * Enables the filter.
+     */
+    public abstract enableAsync(): Promise<void>;
+
+    /**
+     * Sets the value of a filter parameter with optional ramping.
+     * @param parameter The parameter to set.
+     * @param value The value to set the parameter to.
+     * @param options The options to use for ramping the parameter change.
+     */
+    public abstract setParameter(parameter: AudioFilterParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /**
+     * Serializes the filter.
+     * @returns The filter options, which can be used to create a sound or audio bus with the same filter.
+     */
+    public serialize(): Partial<IAudioFilterOptions> {
+        return {
+            filterEnabled: this.isEnabled,
+            filterType: this.type,
+            filterFrequency: this.frequency,
+            filterQualityFactor: this.qualityFactor,
+            filterGain: this.gain,
+        };
+    }
+}
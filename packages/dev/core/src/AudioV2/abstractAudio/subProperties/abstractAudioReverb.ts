@@ -0,0 +1,151 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import type { StaticSoundBuffer } from "../staticSoundBuffer";
+
+/**
+ * The animatable parameters of an audio reverb.
+ */
+export type AudioReverbParameter = "wet" | "dry";
+
+/**
+ * The sources an audio reverb impulse response can be loaded from.
+ * - A URL string, an encoded `ArrayBuffer` or a decoded `AudioBuffer` are loaded into a new static sound buffer.
+ * - A static sound buffer is used as is.
+ */
+export type AudioReverbImpulseResponseSource = ArrayBuffer | AudioBuffer | StaticSoundBuffer | string;
+
+export const _AudioReverbDefaults = {
+    wet: 0.5 as number,
+    dry: 1 as number,
+    normalize: true as boolean,
+} as const;
+
+/**
+ * Options for the audio reverb.
+ */
+export interface IAudioReverbOptions {
+    /**
+     * Enable the audio reverb. Defaults to false.
+     *
+     * When set to `true`, the audio reverb will be initialized on creation and there will be no delay when setting
+     * the first reverb value.
+     *
+     * - This option is ignored if any other reverb options are set.
+     */
+    reverbEnabled: boolean;
+    /**
+     * The impulse response convolved with the signal. Defaults to `undefined`.
+     * - The sound or audio bus is created after the impulse response is loaded.
+     * - The reverb produces no wet signal until an impulse response is set.
+     */
+    reverbImpulseResponse: AudioReverbImpulseResponseSource;
+    /**
+     * Whether the impulse response is scaled by an equal-power normalization. Defaults to `true`.
+     */
+    reverbNormalize: boolean;
+    /**
+     * The volume of the reverberated signal. Defaults to 0.5.
+     */
+    reverbWet: number;
+    /**
+     * The volume of the original signal. Defaults to 1.
+     */
+    reverbDry: number;
+}
+
+/**
+ * @param options The audio reverb options to check.
+ * @returns `true` if audio reverb options are defined, otherwise `false`.
+ */
+export function _HasAudioReverbOptions(options: Partial<IAudioReverbOptions>): boolean {
+    return (
+        options.reverbEnabled ||
+        options.reverbImpulseResponse !== undefined ||
+        options.reverbNormalize !== undefined ||
+        options.reverbWet !== undefined ||
+        options.reverbDry !== undefined
+    );
+}
+
+/**
+ * Abstract class representing the `reverb` audio property on a sound or audio bus.
+ *
+ * The reverb is a convolution reverb, which mixes the original signal with the signal convolved with an impulse
+ * response recorded in a real or simulated space.
+ */
+export abstract class AbstractAudioReverb {
+    /**
+     * The volume of the reverberated signal. Defaults to 0.5.
+     */
+    public abstract wet: number;
+
+    /**
+     * The volume of the original signal. Defaults to 1.
+     */
+    public abstract dry: number;
+
+    /**
+     * Whether the impulse response is scaled by an equal-power normalization. Defaults to `true`.
+     */
+    public abstract normalize: boolean;
+
+    /**
+     * The impulse response convolved with the signal, or `null` if no impulse response is set.
+     */
+    public abstract readonly impulseResponse: Nullable<StaticSoundBuffer>;
+
+    /**
+     * The URL the impulse response was loaded from, or `null` if it was not loaded from a URL.
+     */
+    public abstract readonly impulseResponseUrl: Nullable<string>;
+
+    /**
+     * Whether the reverb is enabled or not.
+     */
+    public abstract readonly isEnabled: boolean;
+
+    /**
+     * Disables the reverb and releases associated resources.
+     */
+    public abstract dispose(): void;
+
+    /**
+     * Enables the reverb.
+     */
+    public abstract enableAsync(): Promise<void>;
+
+    /**
+     * Loads the impulse response convolved with the signal and enables the reverb if needed.
+     * @param source The source of the impulse response.
+     * @returns A promise that resolves when the impulse response is loaded.
+     */
+    public abstract setImpulseResponseAsync(source: AudioReverbImpulseResponseSource): Promise<void>;
+
+    /**
+     * Sets the value of a reverb parameter with optional ramping.
+     * @param parameter The parameter to set.
+     * @param value The value to set the parameter to.
+     * @param options The options to use for ramping the parameter change.
+     */
+    public abstract setParameter(parameter: AudioReverbParameter, value: number, options?: Nullable<Partial<IAudioParameterRampOptions>>): void;
+
+    /**
+     * Serializes the reverb.
+     * - The impulse response is only serialized if it was loaded from a URL.
+     * @returns The reverb options, which can be used to create a sound or audio bus with the same reverb.
+     */
+    public serialize(): Partial<IAudioReverbOptions> {
+        const options: Partial<IAudioReverbOptions> = {
+            reverbEnabled: this.isEnabled,
+            reverbNormalize: this.normalize,
+            reverbWet: this.wet,
+            reverbDry: this.dry,
+        };
+
+        if (this.impulseResponseUrl) {
+            options.reverbImpulseResponse = this.impulseResponseUrl;
+        }
+
+        return options;
+    }
+}
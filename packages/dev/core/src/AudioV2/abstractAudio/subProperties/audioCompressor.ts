@@ -0,0 +1,111 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import type { AudioCompressorParameter } from "../../abstractAudio/subProperties/abstractAudioCompressor";
+import { _AudioCompressorDefaults, AbstractAudioCompressor } from "../../abstractAudio/subProperties/abstractAudioCompressor";
+import type { _AbstractAudioSubGraph } from "../subNodes/abstractAudioSubGraph";
+import type { _AudioCompressorSubNode } from "../subNodes/audioCompressorSubNode";
+import { _GetAudioCompressorSubNode, _SetAudioCompressorProperty } from "../subNodes/audioCompressorSubNode";
+import { AudioSubNode } from "../subNodes/audioSubNode";
+
+/** @internal */
+export class _AudioCompressor extends AbstractAudioCompressor {
+    private _subGraph: _AbstractAudioSubGraph;
+    private _values: { [key in AudioCompressorParameter]: number } = { ..._AudioCompressorDefaults };
+
+    /** @internal */
+    public constructor(subGraph: _AbstractAudioSubGraph) {
+        super();
+        this._subGraph = subGraph;
+    }
+
+    /** @internal */
+    public get attack(): number {
+        return this._getParameter("attack");
+    }
+
+    public set attack(value: number) {
+        this._setParameter("attack", value);
+    }
+
+    /** @internal */
+    public get isEnabled(): boolean {
+        return _GetAudioCompressorSubNode(this._subGraph) !== null;
+    }
+
+    /** @internal */
+    public get knee(): number {
+        return this._getParameter("knee");
+    }
+
+    public set knee(value: number) {
+        this._setParameter("knee", value);
+    }
+
+    /** @internal */
+    public get ratio(): number {
+        return this._getParameter("ratio");
+    }
+
+    public set ratio(value: number) {
+        this._setParameter("ratio", value);
+    }
+
+    /** @internal */
+    public get reduction(): number {
+        return _GetAudioCompressorSubNode(this._subGraph)?.reduction ?? 0;
+    }
+
+    /** @internal */
+    public get release(): number {
+        return this._getParameter("release");
+    }
+
+    public set release(value: number) {
+        this._setParameter("release", value);
+    }
+
+    /** @internal */
+    public get threshold(): number {
+        return this._getParameter("threshold");
+    }
+
+    public set threshold(value: number) {
+        this._setParameter("threshold", value);
+    }
+
+    /** @internal */
+    public dispose(): void {
+        const subNode = _GetAudioCompressorSubNode(this._subGraph);
+        if (subNode) {
+            // eslint-disable-next-line @typescript-eslint/no-floating-promises
+            this._subGraph.removeSubNodeAsync(subNode);
+            subNode.dispose();
+        }
+    }
+
+    /** @internal */
+    public async enableAsync(): Promise<void> {
+        const subNode = _GetAudioCompressorSubNode(this._subGraph);
+        if (!subNode) {
+            await this._subGraph.createAndAddSubNodeAsync(AudioSubNode.COMPRESSOR);
+        }
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioCompressorParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._values[parameter] = value;
+
+        this._subGraph.callOnSubNode<_AudioCompressorSubNode>(AudioSubNode.COMPRESSOR, (node) => {
+            node.setParameter(parameter, value, options);
+        });
+    }
+
+    private _getParameter(parameter: AudioCompressorParameter): number {
+        return _GetAudioCompressorSubNode(this._subGraph)?.[parameter] ?? this._values[parameter];
+    }
+
+    private _setParameter(parameter: AudioCompressorParameter, value: number): void {
+        this._values[parameter] = value;
+        _SetAudioCompressorProperty(this._subGraph, parameter, value);
+    }
+}
@@ -0,0 +1,97 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import type { AudioDelayParameter } from "../../abstractAudio/subProperties/abstractAudioDelay";
+import { _AudioDelayDefaults, AbstractAudioDelay } from "../../abstractAudio/subProperties/abstractAudioDelay";
+import type { _AbstractAudioSubGraph } from "../subNodes/abstractAudioSubGraph";
+import type { _AudioDelaySubNode } from "../subNodes/audioDelaySubNode";
+import { _GetAudioDelaySubNode, _SetAudioDelayProperty } from "../subNodes/audioDelaySubNode";
+import { AudioSubNode } from "../subNodes/audioSubNode";
+
+/** @internal */
+export class _AudioDelay extends AbstractAudioDelay {
+    private _subGraph: _AbstractAudioSubGraph;
+    private _values: { [key in AudioDelayParameter]: number } = { ..._AudioDelayDefaults };
+
+    /** @internal */
+    public constructor(subGraph: _AbstractAudioSubGraph) {
+        super();
+        this._subGraph = subGraph;
+    }
+
+    /** @internal */
+    public get dry(): number {
+        return this._getParameter("dry");
+    }
+
+    public set dry(value: number) {
+        this._setParameter("dry", value);
+    }
+
+    /** @internal */
+    public get feedback(): number {
+        return this._getParameter("feedback");
+    }
+
+    public set feedback(value: number) {
+        this._setParameter("feedback", value);
+    }
+
+    /** @internal */
+    public get isEnabled(): boolean {
+        return _GetAudioDelaySubNode(this._subGraph) !== null;
+    }
+
+    /** @internal */
+    public get time(): number {
+        return this._getParameter("time");
+    }
+
+    public set time(value: number) {
+        this._setParameter("time", value);
+    }
+
+    /** @internal */
+    public get wet(): number {
+        return this._getParameter("wet");
+    }
+
+    public set wet(value: number) {
+        this._setParameter("wet", value);
+    }
+
+    /** @internal */
+    public dispose(): void {
+        const subNode = _GetAudioDelaySubNode(this._subGraph);
+        if (subNode) {
+            // eslint-disable-next-line @typescript-eslint/no-floating-promises
+            this._subGraph.removeSubNodeAsync(subNode);
+            subNode.dispose();
+        }
+    }
+
+    /** @internal */
+    public async enableAsync(): Promise<void> {
+        const subNode = _GetAudioDelaySubNode(this._subGraph);
+        if (!subNode) {
+            await this._subGraph.createAndAddSubNodeAsync(AudioSubNode.DELAY);
+        }
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioDelayParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._values[parameter] = value;
+
+        this._subGraph.callOnSubNode<_AudioDelaySubNode>(AudioSubNode.DELAY, (node) => {
+            node.setParameter(parameter, value, options);
+        });
+    }
+
+    private _getParameter(parameter: AudioDelayParameter): number {
+        return _GetAudioDelaySubNode(this._subGraph)?.[parameter] ?? this._values[parameter];
+    }
+
+    private _setParameter(parameter: AudioDelayParameter, value: number): void {
+        this._values[parameter] = value;
+        _SetAudioDelayProperty(this._subGraph, parameter, value);
+    }
+}
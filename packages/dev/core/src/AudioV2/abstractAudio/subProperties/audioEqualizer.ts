@@ -0,0 +1,124 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import type { AudioEqualizerParameter } from "../../abstractAudio/subProperties/abstractAudioEqualizer";
+import { _AudioEqualizerDefaults, AbstractAudioEqualizer } from "../../abstractAudio/subProperties/abstractAudioEqualizer";
+import type { _AbstractAudioSubGraph } from "../subNodes/abstractAudioSubGraph";
+import type { _AudioEqualizerSubNode } from "../subNodes/audioEqualizerSubNode";
+import { _GetAudioEqualizerSubNode, _SetAudioEqualizerProperty } from "../subNodes/audioEqualizerSubNode";
+import { AudioSubNode } from "../subNodes/audioSubNode";
+
+/** @internal */
+export class _AudioEqualizer extends AbstractAudioEqualizer {
+    private _subGraph: _AbstractAudioSubGraph;
+    private _values: { [key in AudioEqualizerParameter]: number } = { ..._AudioEqualizerDefaults };
+
+    /** @internal */
+    public constructor(subGraph: _AbstractAudioSubGraph) {
+        super();
+        this._subGraph = subGraph;
+    }
+
+    /** @internal */
+    public get highFrequency(): number {
+        return this._getParameter("highFrequency");
+    }
+
+    public set highFrequency(value: number) {
+        this._setParameter("highFrequency", value);
+    }
+
+    /** @internal */
+    public get highGain(): number {
+        return this._getParameter("highGain");
+    }
+
+    public set highGain(value: number) {
+        this._setParameter("highGain", value);
+    }
+
+    /** @internal */
+    public get isEnabled(): boolean {
+        return _GetAudioEqualizerSubNode(this._subGraph) !== null;
+    }
+
+    /** @internal */
+    public get lowFrequency(): number {
+        return this._getParameter("lowFrequency");
+    }
+
+    public set lowFrequency(value: number) {
+        this._setParameter("lowFrequency", value);
+    }
+
+    /** @internal */
+    public get lowGain(): number {
+        return this._getParameter("lowGain");
+    }
+
+    public set lowGain(value: number) {
+        this._setParameter("lowGain", value);
+    }
+
+    /** @internal */
+    public get midFrequency(): number {
+        return this._getParameter("midFrequency");
+    }
+
+    public set midFrequency(value: number) {
+        this._setParameter("midFrequency", value);
+    }
+
+    /** @internal */
+    public get midGain(): number {
+        return this._getParameter("midGain");
+    }
+
+    public set midGain(value: number) {
+        this._setParameter("midGain", value);
+    }
+
+    /** @internal */
+    public get midQualityFactor(): number {
+        return this._getParameter("midQualityFactor");
+    }
+
+    public set midQualityFactor(value: number) {
+        this._setParameter("midQualityFactor", value);
+    }
+
+    /** @internal */
+    public dispose(): void {
+        const subNode = _GetAudioEqualizerSubNode(this._subGraph);
+        if (subNode) {
+            // eslint-disable-next-line @typescript-eslint/no-floating-promises
+            this._subGraph.removeSubNodeAsync(subNode);
+            subNode.dispose();
+        }
+    }
+
+    /** @internal */
+    public async enableAsync(): Promise<void> {
+        const subNode = _GetAudioEqualizerSubNode(this._subGraph);
+        if (!subNode) {
+            await this._subGraph.createAndAddSubNodeAsync(AudioSubNode.EQUALIZER);
+        }
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioEqualizerParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._values[parameter] = value;
+
+        this._subGraph.callOnSubNode<_AudioEqualizerSubNode>(AudioSubNode.EQUALIZER, (node) => {
+            node.setParameter(parameter, value, options);
+        });
+    }
+
+    private _getParameter(parameter: AudioEqualizerParameter): number {
+        return _GetAudioEqualizerSubNode(this._subGraph)?.[parameter] ?? this._values[parameter];
+    }
+
+    private _setParameter(parameter: AudioEqualizerParameter, value: number): void {
+        this._values[parameter] = value;
+        _SetAudioEqualizerProperty(this._subGraph, parameter, value);
+    }
+}
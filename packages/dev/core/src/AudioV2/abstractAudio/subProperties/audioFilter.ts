@@ -0,0 +1,103 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import type { AudioFilterParameter, AudioFilterType } from "../../abstractAudio/subProperties/abstractAudioFilter";
+import { _AudioFilterDefaults, AbstractAudioFilter } from "../../abstractAudio/subProperties/abstractAudioFilter";
+import type { _AbstractAudioSubGraph } from "../subNodes/abstractAudioSubGraph";
+import type { _AudioFilterSubNode } from "../subNodes/audioFilterSubNode";
+import { _GetAudioFilterSubNode, _SetAudioFilterProperty } from "../subNodes/audioFilterSubNode";
+import { AudioSubNode } from "../subNodes/audioSubNode";
+
+/** @internal */
+export class _AudioFilter extends AbstractAudioFilter {
+    private _subGraph: _AbstractAudioSubGraph;
+    private _type: AudioFilterType = _AudioFilterDefaults.type;
+    private _values: { [key in AudioFilterParameter]: number } = {
+        frequency: _AudioFilterDefaults.frequency,
+        qualityFactor: _AudioFilterDefaults.qualityFactor,
+        gain: _AudioFilterDefaults.gain,
+    };
+
+    /** @internal */
+    public constructor(subGraph: _AbstractAudioSubGraph) {
+        super();
+        this._subGraph = subGraph;
+    }
+
+    /** @internal */
+    public get frequency(): number {
+        return this._getParameter("frequency");
+    }
+
+    public set frequency(value: number) {
+        this._setParameter("frequency", value);
+    }
+
+    /** @internal */
+    public get gain(): number {
+        return this._getParameter("gain");
+    }
+
+    public set gain(value: number) {
+        this._setParameter("gain", value);
+    }
+
+    /** @internal */
+    public get isEnabled(): boolean {
+        return _GetAudioFilterSubNode(this._subGraph) !== null;
+    }
+
+    /** @internal */
+    public get qualityFactor(): number {
+        return this._getParameter("qualityFactor");
+    }
+
+    public set qualityFactor(value: number) {
+        this._setParameter("qualityFactor", value);
+    }
+
+    /** @internal */
+    public get type(): AudioFilterType {
+        return _GetAudioFilterSubNode(this._subGraph)?.type ?? this._type;
+    }
+
+    public set type(value: AudioFilterType) {
+        this._type = value;
+        _SetAudioFilterProperty(this._subGraph, "type", value);
+    }
+
+    /** @internal */
+    public dispose(): void {
+        const subNode = _GetAudioFilterSubNode(this._subGraph);
+        if (subNode) {
+            // eslint-disable-next-line @typescript-eslint/no-floating-promises
+            this._subGraph.removeSubNodeAsync(subNode);
+            subNode.dispose();
+        }
+    }
+
+    /** @internal */
+    public async enableAsync(): Promise<void> {
+        const subNode = _GetAudioFilterSubNode(this._subGraph);
+        if (!subNode) {
+            await this._subGraph.createAndAddSubNodeAsync(AudioSubNode.FILTER);
+        }
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioFilterParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._values[parameter] = value;
+
+        this._subGraph.callOnSubNode<_AudioFilterSubNode>(AudioSubNode.FILTER, (node) => {
+            node.setParameter(parameter, value, options);
+        });
+    }
+
+    private _getParameter(parameter: AudioFilterParameter): number {
+        return _GetAudioFilterSubNode(this._subGraph)?.[parameter] ?? this._values[parameter];
+    }
+
+    private _setParameter(parameter: AudioFilterParameter, value: number): void {
+        this._values[parameter] = value;
+        _SetAudioFilterProperty(this._subGraph, parameter, value);
+    }
+}
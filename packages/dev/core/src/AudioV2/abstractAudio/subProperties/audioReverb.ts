@@ -0,0 +1,110 @@
+import type { Nullable } from "../../../types";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import type { AudioReverbImpulseResponseSource, AudioReverbParameter } from "../../abstractAudio/subProperties/abstractAudioReverb";
+import { _AudioReverbDefaults, AbstractAudioReverb } from "../../abstractAudio/subProperties/abstractAudioReverb";
+import type { StaticSoundBuffer } from "../staticSoundBuffer";
+import type { _AbstractAudioSubGraph } from "../subNodes/abstractAudioSubGraph";
+import type { _AudioReverbSubNode } from "../subNodes/audioReverbSubNode";
+import { _GetAudioReverbSubNode, _SetAudioReverbProperty } from "../subNodes/audioReverbSubNode";
+import { AudioSubNode } from "../subNodes/audioSubNode";
+
+/** @internal */
+export class _AudioReverb extends AbstractAudioReverb {
+    private _normalize: boolean = _AudioReverbDefaults.normalize;
+    private _subGraph: _AbstractAudioSubGraph;
+    private _values: { [key in AudioReverbParameter]: number } = {
+        wet: _AudioReverbDefaults.wet,
+        dry: _AudioReverbDefaults.dry,
+    };
+
+    /** @internal */
+    public constructor(subGraph: _AbstractAudioSubGraph) {
+        super();
+        this._subGraph = subGraph;
+    }
+
+    /** @internal */
+    public get dry(): number {
+        return this._getParameter("dry");
+    }
+
+    public set dry(value: number) {
+        this._setParameter("dry", value);
+    }
+
+    /** @internal */
+    public get impulseResponse(): Nullable<StaticSoundBuffer> {
+        return _GetAudioReverbSubNode(this._subGraph)?.impulseResponse ?? null;
+    }
+
+    /** @internal */
+    public get impulseResponseUrl(): Nullable<string> {
+        return _GetAudioReverbSubNode(this._subGraph)?.impulseResponseUrl ?? null;
+    }
+
+    /** @internal */
+    public get isEnabled(): boolean {
+        return _GetAudioReverbSubNode(this._subGraph) !== null;
+    }
+
+    /** @internal */
+    public get normalize(): boolean {
+        return _GetAudioReverbSubNode(this._subGraph)?.normalize ?? this._normalize;
+    }
+
+    public set normalize(value: boolean) {
+        this._normalize = value;
+        _SetAudioReverbProperty(this._subGraph, "normalize", value);
+    }
+
+    /** @internal */
+    public get wet(): number {
+        return this._getParameter("wet");
+    }
+
+    public set wet(value: number) {
+        this._setParameter("wet", value);
+    }
+
+    /** @internal */
+    public dispose(): void {
+        const subNode = _GetAudioReverbSubNode(this._subGraph);
+        if (subNode) {
+            // eslint-disable-next-line @typescript-eslint/no-floating-promises
+            this._subGraph.removeSubNodeAsync(subNode);
+            subNode.dispose();
+        }
+    }
+
+    /** @internal */
+    public async enableAsync(): Promise<void> {
+        const subNode = _GetAudioReverbSubNode(this._subGraph);
+        if (!subNode) {
+            await this._subGraph.createAndAddSubNodeAsync(AudioSubNode.REVERB);
+        }
+    }
+
+    /** @internal */
+    public async setImpulseResponseAsync(source: AudioReverbImpulseResponseSource): Promise<void> {
+        const subNode = (await this._subGraph.createAndAddSubNodeAsync(AudioSubNode.REVERB)) as _AudioReverbSubNode;
+        await subNode.setImpulseResponseAsync(source);
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioReverbParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._values[parameter] = value;
+
+        this._subGraph.callOnSubNode<_AudioReverbSubNode>(AudioSubNode.REVERB, (node) => {
+            node.setParameter(parameter, value, options);
+        });
+    }
+
+    private _getParameter(parameter: AudioReverbParameter): number {
+        return _GetAudioReverbSubNode(this._subGraph)?.[parameter] ?? this._values[parameter];
+    }
+
+    private _setParameter(parameter: AudioReverbParameter, value: number): void {
+        this._values[parameter] = value;
+        _SetAudioReverbProperty(this._subGraph, parameter, value);
+    }
+}
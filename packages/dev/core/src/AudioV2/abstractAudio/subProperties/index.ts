@@ -1,4 +1,9 @@
 export * from "./abstractAudioAnalyzer";
+export * from "./abstractAudioCompressor";
+export * from "./abstractAudioDelay";
+export * from "./abstractAudioEqualizer";
+export * from "./abstractAudioFilter";
+export * from "./abstractAudioReverb";
 export * from "./abstractSpatialAudio";
 export * from "./abstractSpatialAudioListener";
 export * from "./abstractStereoAudio";
@@ -0,0 +1,329 @@
+import { Ray } from "../Culling/ray";
+import { Vector3 } from "../Maths/math.vector";
+import type { AbstractMesh } from "../Meshes/abstractMesh";
+import type { TransformNode } from "../Meshes/transformNode";
+import type { Observer } from "../Misc/observable";
+import { PrecisionDate } from "../Misc/precisionDate";
+import type { IRaycastQuery } from "../Physics/physicsRaycastResult";
+import type { PhysicsEngine as PhysicsEngineV2 } from "../Physics/v2/physicsEngine";
+import type { Scene } from "../scene";
+import type { Nullable } from "../types";
+import type { AbstractAudioNode } from "./abstractAudio/abstractAudioNode";
+import type { AbstractSoundSource } from "./abstractAudio/abstractSoundSource";
+import type { AudioBus } from "./abstractAudio/audioBus";
+import type { AudioFilterType } from "./abstractAudio/subProperties/abstractAudioFilter";
+
+/**
+ * A sound or audio bus whose audio can be occluded by the geometry of the scene.
+ */
+export type AudioOcclusionSource = AbstractSoundSource | AudioBus;
+
+/**
+ * Options for creating an audio occlusion system.
+ */
+export interface IAudioOcclusionOptions {
+    /**
+     * Whether to automatically update the occlusion of the sources before each render of the scene. Defaults to `true`.
+     */
+    autoUpdate: boolean;
+    /**
+     * The minimum time in seconds between two automatic updates. Defaults to `0.1`.
+     */
+    minUpdateTime: number;
+    /**
+     * The occlusion added by each occluder found between the listener and a source, from 0 (transparent) to 1 (opaque). Defaults to `0.5`.
+     * - The occlusions of several occluders are combined, so that a source behind two occluders of 0.5 is occluded by 0.75.
+     */
+    occluderOcclusion: number;
+    /**
+     * Returns the occlusion of the given occluder, from 0 (transparent) to 1 (opaque). Defaults to `null`.
+     * - If `null`, `occluderOcclusion` is used for all the occluders.
+     */
+    getOccluderOcclusion: Nullable<(occluder: TransformNode) => number>;
+    /**
+     * The low-pass filter frequency of a source that is not occluded, in hertz. Defaults to `20000`.
+     */
+    unoccludedFrequency: number;
+    /**
+     * The low-pass filter frequency of a fully occluded source, in hertz. Defaults to `500`.
+     */
+    occludedFrequency: number;
+    /**
+     * The volume multiplier of a fully occluded source. Defaults to `0.25`.
+     */
+    occludedVolume: number;
+    /**
+     * The duration in seconds of the ramps used to apply occlusion changes to the sources. Defaults to `0.1`.
+     */
+    rampDuration: number;
+    /**
+     * Whether to cast rays against the physics bodies of the scene's physics engine (physics V2 only) instead of against the meshes. Defaults to `false`.
+     */
+    usePhysics: boolean;
+    /**
+     * The predicate used to select the meshes that can occlude sources when `usePhysics` is `false`.
+     * - Defaults to enabled, visible and pickable meshes.
+     */
+    meshPredicate: (mesh: AbstractMesh) => boolean;
+    /**
+     * The query used to filter the physics bodies that can occlude sources when `usePhysics` is `true`. Defaults to `undefined`.
+     */
+    physicsQuery: IRaycastQuery;
+}
+
+interface IAudioOcclusionSourceState {
+    baseVolume: number;
+    ignoredNode: Nullable<TransformNode>;
+    occlusion: number;
+    onDisposeObserver: Nullable<Observer<AbstractAudioNode>>;
+    // The filter settings to restore when the source is removed, or `null` if the filter was enabled by the occlusion system
+    previousFilter: Nullable<{ type: AudioFilterType; frequency: number }>;
+}
+
+/**
+ * Occludes sounds and audio buses with the geometry of a scene.
+ *
+ * Rays are cast from the audio engine's listener to each spatial source, and the source is muffled by its low-pass
+ * `filter` and attenuated depending on the occluders found between them. The meshes of the scene are tested by
+ * default, and the physics bodies can be tested instead with the `usePhysics` option.
+ *
+ * The occlusion system controls the `filter` and `volume` of the sources it manages. Use `setBaseVolume` to change the
+ * volume of a managed source. A filter enabled before a source is added is restored when the source is removed.
+ */
+export class AudioOcclusion {
+    private _lastUpdateTime = 0;
+    private readonly _options: IAudioOcclusionOptions;
+    private readonly _ray = new Ray(Vector3.Zero(), Vector3.Forward(), 1);
+    private _sceneObserver: Nullable<Observer<Scene>> = null;
+    private readonly _sources = new Map<AudioOcclusionSource, IAudioOcclusionSourceState>();
+
+    /**
+     * The scene whose geometry occludes the sources.
+     */
+    public readonly scene: Scene;
+
+    /**
+     * Creates a new audio occlusion system.
+     * @param scene The scene whose geometry occludes the sources.
+     * @param options The options of the occlusion system.
+     */
+    public constructor(scene: Scene, options: Partial<IAudioOcclusionOptions> = {}) {
+        this.scene = scene;
+
+        this._options = {
+            autoUpdate: options.autoUpdate ?? true,
+            minUpdateTime: options.minUpdateTime ?? 0.1,
+            occluderOcclusion: options.occluderOcclusion ?? 0.5,
+            getOccluderOcclusion: options.getOccluderOcclusion ?? null,
+            unoccludedFrequency: options.unoccludedFrequency ?? 20000,
+            occludedFrequency: options.occludedFrequency ?? 500,
+            occludedVolume: options.occludedVolume ?? 0.25,
+            rampDuration: options.rampDuration ?? 0.1,
+            usePhysics: options.usePhysics ?? false,
+            meshPredicate: options.meshPredicate ?? ((mesh) => mesh.isEnabled() && mesh.isVisible && mesh.isPickable),
+            physicsQuery: options.physicsQuery ?? {},
+        };
+
+        if (this._options.autoUpdate) {
+            this._sceneObserver = scene.onBeforeRenderObservable.add(() => {
+                const now = PrecisionDate.Now / 1000;
+                if (now - this._lastUpdateTime < this._options.minUpdateTime) {
+                    return;
+                }
+
+                this._lastUpdateTime = now;
+                this.update();
+            });
+        }
+    }
+
+    /**
+     * The sources managed by the occlusion system.
+     */
+    public get sources(): AudioOcclusionSource[] {
+        return Array.from(this._sources.keys());
+    }
+
+    /**
+     * Adds a source to the occlusion system.
+     * - The spatial audio features of the source are enabled if needed, and the source is occluded from its spatial position.
+     * - The current volume of the source is used as its base volume.
+     * - The filter of the source is used as a low-pass filter. If the filter is already enabled, its type and frequency are restored when the source is removed.
+     * @param source The sound or audio bus to occlude.
+     * @param ignoredNode A node that never occludes the source, typically the mesh the source is attached to. Defaults to `null`.
+     */
+    public addSource(source: AudioOcclusionSource, ignoredNode: Nullable<TransformNode> = null): void {
+        if (this._sources.has(source)) {
+            return;
+        }
+
+        const filter = source.filter;
+
+        this._sources.set(source, {
+            baseVolume: source.volume,
+            ignoredNode,
+            occlusion: 0,
+            onDisposeObserver: source.onDisposeObservable.add(() => {
+                this._sources.delete(source);
+            }),
+            previousFilter: filter.isEnabled ? { type: filter.type, frequency: filter.frequency } : null,
+        });
+
+        // Getting the spatial property enables the spatial audio features of the source
+        source.spatial.update();
+
+        filter.type = "lowpass";
+        filter.frequency = this._options.unoccludedFrequency;
+    }
+
+    /**
+     * Removes a source from the occlusion system, restores its base volume, and disables its filter or restores the filter enabled before the source was added.
+     * @param source The sound or audio bus to remove.
+     */
+    public removeSource(source: AudioOcclusionSource): void {
+        const state = this._sources.get(source);
+        if (!state) {
+            return;
+        }
+
+        source.onDisposeObservable.remove(state.onDisposeObserver);
+        this._sources.delete(source);
+
+        if (state.previousFilter) {
+            source.filter.type = state.previousFilter.type;
+            source.filter.frequency = state.previousFilter.frequency;
+        } else {
+            source.filter.dispose();
+        }
+        source.volume = state.baseVolume;
+    }
+
+    /**
+     * Gets the occlusion of a source computed by the last update.
+     * @param source The sound or audio bus to get the occlusion of.
+     * @returns The occlusion of the source, from 0 (not occluded) to 1 (fully occluded), or 0 if the source is not managed by the occlusion system.
+     */
+    public getOcclusion(source: AudioOcclusionSource): number {
+        return this._sources.get(source)?.occlusion ?? 0;
+    }
+
+    /**
+     * Sets the volume of a source when it is not occluded.
+     * @param source The sound or audio bus to set the base volume of.
+     * @param volume The base volume of the source.
+     */
+    public setBaseVolume(source: AudioOcclusionSource, volume: number): void {
+        const state = this._sources.get(source);
+        if (!state) {
+            source.volume = volume;
+            return;
+        }
+
+        state.baseVolume = volume;
+        this._applyOcclusion(source, state);
+    }
+
+    /**
+     * Updates the occlusion of all the sources.
+     *
+     * This is called automatically by default and only needs to be called manually if automatic updates are disabled.
+     */
+    public update(): void {
+        for (const [source, state] of this._sources) {
+            const listenerPosition = source.engine.listener.position;
+            const occlusion = this._computeOcclusion(listenerPosition, source.spatial.position, state.ignoredNode);
+
+            if (Math.abs(occlusion - state.occlusion) < 0.001) {
+                continue;
+            }
+
+            state.occlusion = occlusion;
+            this._applyOcclusion(source, state);
+        }
+    }
+
+    /**
+     * Releases associated resources, restores the base volume of the sources and disables or restores their filter.
+     */
+    public dispose(): void {
+        this.scene.onBeforeRenderObservable.remove(this._sceneObserver);
+        this._sceneObserver = null;
+
+        for (const source of Array.from(this._sources.keys())) {
+            this.removeSource(source);
+        }
+    }
+
+    private _applyOcclusion(source: AudioOcclusionSource, state: IAudioOcclusionSourceState): void {
+        const options = this._options;
+        const rampOptions = { duration: options.rampDuration };
+
+        // The frequency is interpolated logarithmically, which matches the perception of pitch
+        const frequency = options.unoccludedFrequency * Math.pow(options.occludedFrequency / options.unoccludedFrequency, state.occlusion);
+        const volume = state.baseVolume * (1 + (options.occludedVolume - 1) * state.occlusion);
+
+        source.filter.setParameter("frequency", frequency, rampOptions);
+        source.setVolume(volume, rampOptions);
+    }
+
+    private _computeOcclusion(from: Vector3, to: Vector3, ignoredNode: Nullable<TransformNode>): number {
+        const occluders = this._options.usePhysics ? this._getPhysicsOccluders(from, to) : this._getMeshOccluders(from, to);
+
+        let transmission = 1;
+
+        for (const occluder of occluders) {
+            if (occluder === ignoredNode) {
+                continue;
+            }
+
+            const occlusion = this._options.getOccluderOcclusion?.(occluder) ?? this._options.occluderOcclusion;
+            transmission *= 1 - Math.min(Math.max(occlusion, 0), 1);
+        }
+
+        return 1 - transmission;
+    }
+
+    private _getMeshOccluders(from: Vector3, to: Vector3): Set<TransformNode> {
+        const occluders = new Set<TransformNode>();
+
+        const ray = this._ray;
+        ray.origin.copyFrom(from);
+        to.subtractToRef(from, ray.direction);
+
+        ray.length = ray.direction.length();
+        if (ray.length < 0.0001) {
+            return occluders;
+        }
+
+        ray.direction.scaleInPlace(1 / ray.length);
+
+        const pickingInfos = this.scene.multiPickWithRay(ray, this._options.meshPredicate);
+        if (pickingInfos) {
+            for (const pickingInfo of pickingInfos) {
+                if (pickingInfo.hit && pickingInfo.pickedMesh) {
+                    occluders.add(pickingInfo.pickedMesh);
+                }
+            }
+        }
+
+        return occluders;
+    }
+
+    private _getPhysicsOccluders(from: Vector3, to: Vector3): Set<TransformNode> {
+        const occluders = new Set<TransformNode>();
+
+        const physicsEngine = this.scene.getPhysicsEngine();
+        if (!physicsEngine || physicsEngine.getPluginVersion() !== 2) {
+            return occluders;
+        }
+
+        const results = (physicsEngine as PhysicsEngineV2).raycastMulti(from, to, this._options.physicsQuery);
+        for (const result of results) {
+            if (result.hasHit && result.body) {
+                occluders.add(result.body.transformNode);
+            }
+        }
+
+        return occluders;
+    }
+}
@@ -0,0 +1,191 @@
+import { Vector3 } from "../Maths/math.vector";
+import type { AbstractMesh } from "../Meshes/abstractMesh";
+import type { Observer } from "../Misc/observable";
+import type { Scene } from "../scene";
+import type { Nullable } from "../types";
+import type { AudioBus } from "./abstractAudio/audioBus";
+import { _AudioReverbDefaults } from "./abstractAudio/subProperties/abstractAudioReverb";
+
+/**
+ * Options for creating an audio reverb zone.
+ */
+export interface IAudioReverbZoneOptions {
+    /**
+     * Whether to automatically update the reverb of the bus before each render of the scene. Defaults to `true`.
+     */
+    autoUpdate: boolean;
+    /**
+     * The distance in world units over which the reverb fades out when the listener leaves the zone. Defaults to `2`.
+     */
+    blendDistance: number;
+    /**
+     * The mesh whose world bounding box defines the volume of the zone. Defaults to `null`.
+     * - If `null`, the volume of the zone is defined by the `minimum` and `maximum` options.
+     */
+    mesh: Nullable<AbstractMesh>;
+    /**
+     * The minimum corner of the axis-aligned box defining the volume of the zone, in world space. Defaults to (0, 0, 0).
+     * - Ignored if `mesh` is set.
+     */
+    minimum: Vector3;
+    /**
+     * The maximum corner of the axis-aligned box defining the volume of the zone, in world space. Defaults to (0, 0, 0).
+     * - Ignored if `mesh` is set.
+     */
+    maximum: Vector3;
+    /**
+     * The duration in seconds of the ramps used to apply the reverb changes to the bus. Defaults to `0.1`.
+     */
+    rampDuration: number;
+    /**
+     * The volume of the reverberated signal of the bus when the listener is inside the zone. Defaults to `0.5`.
+     */
+    wet: number;
+}
+
+/**
+ * An audio reverb zone blends the `reverb` of an audio bus depending on the position of the audio engine's listener.
+ *
+ * The reverb of the bus is fully applied while the listener is inside the volume of the zone, and fades out as the
+ * listener moves away from it. Using one bus and zone per room, with the sounds of each room routed to its bus, blends
+ * the reverb of the rooms as the listener moves between them.
+ *
+ * The impulse response of the reverb is set on the bus, for example with `bus.reverb.setImpulseResponseAsync`.
+ */
+export class AudioReverbZone {
+    private readonly _closestPoint = new Vector3();
+    private _sceneObserver: Nullable<Observer<Scene>> = null;
+    private _weight = -1;
+
+    /**
+     * The audio bus whose reverb is blended by the zone.
+     */
+    public readonly bus: AudioBus;
+
+    /**
+     * The distance in world units over which the reverb fades out when the listener leaves the zone.
+     */
+    public blendDistance: number;
+
+    /**
+     * The mesh whose world bounding box defines the volume of the zone, or `null` if the volume is defined by `minimum` and `maximum`.
+     */
+    public mesh: Nullable<AbstractMesh>;
+
+    /**
+     * The minimum corner of the axis-aligned box defining the volume of the zone, in world space. Ignored if `mesh` is set.
+     */
+    public readonly minimum: Vector3;
+
+    /**
+     * The maximum corner of the axis-aligned box defining the volume of the zone, in world space. Ignored if `mesh` is set.
+     */
+    public readonly maximum: Vector3;
+
+    /**
+     * The name of the zone.
+     */
+    public name: string;
+
+    /**
+     * The duration in seconds of the ramps used to apply the reverb changes to the bus.
+     */
+    public rampDuration: number;
+
+    /**
+     * The scene the zone belongs to.
+     */
+    public readonly scene: Scene;
+
+    /**
+     * The volume of the reverberated signal of the bus when the listener is inside the zone.
+     */
+    public wet: number;
+
+    /**
+     * Creates a new audio reverb zone.
+     * @param name The name of the zone.
+     * @param bus The audio bus whose reverb is blended by the zone.
+     * @param scene The scene the zone belongs to.
+     * @param options The options of the zone.
+     */
+    public constructor(name: string, bus: AudioBus, scene: Scene, options: Partial<IAudioReverbZoneOptions> = {}) {
+        this.name = name;
+        this.bus = bus;
+        this.scene = scene;
+
+        this.blendDistance = options.blendDistance ?? 2;
+        this.mesh = options.mesh ?? null;
+        this.minimum = options.minimum?.clone() ?? Vector3.Zero();
+        this.maximum = options.maximum?.clone() ?? Vector3.Zero();
+        this.rampDuration = options.rampDuration ?? 0.1;
+        this.wet = options.wet ?? _AudioReverbDefaults.wet;
+
+        if (options.autoUpdate ?? true) {
+            this._sceneObserver = scene.onBeforeRenderObservable.add(() => {
+                this.update();
+            });
+        }
+    }
+
+    /**
+     * The weight of the zone computed by the last update, from 0 (listener out of reach) to 1 (listener inside the zone).
+     */
+    public get weight(): number {
+        return Math.max(this._weight, 0);
+    }
+
+    /**
+     * Computes the weight of the zone at the given position.
+     * @param position The position to compute the weight at, in world space.
+     * @returns The weight of the zone, from 0 (position out of reach) to 1 (position inside the zone).
+     */
+    public getWeight(position: Vector3): number {
+        let minimum = this.minimum;
+        let maximum = this.maximum;
+
+        if (this.mesh) {
+            const boundingBox = this.mesh.getBoundingInfo().boundingBox;
+            minimum = boundingBox.minimumWorld;
+            maximum = boundingBox.maximumWorld;
+        }
+
+        Vector3.ClampToRef(position, minimum, maximum, this._closestPoint);
+        const distance = Vector3.Distance(position, this._closestPoint);
+
+        if (distance <= 0) {
+            return 1;
+        }
+        if (this.blendDistance <= 0) {
+            return 0;
+        }
+
+        return Math.max(1 - distance / this.blendDistance, 0);
+    }
+
+    /**
+     * Updates the reverb of the bus from the position of the listener.
+     *
+     * This is called automatically by default and only needs to be called manually if automatic updates are disabled.
+     */
+    public update(): void {
+        const weight = this.getWeight(this.bus.engine.listener.position);
+
+        if (Math.abs(weight - this._weight) < 0.001) {
+            return;
+        }
+
+        this._weight = weight;
+        this.bus.reverb.setParameter("wet", this.wet * weight, { duration: this.rampDuration });
+    }
+
+    /**
+     * Releases associated resources.
+     * - The reverb of the bus is left unchanged.
+     */
+    public dispose(): void {
+        this.scene.onBeforeRenderObservable.remove(this._sceneObserver);
+        this._sceneObserver = null;
+        this.mesh = null;
+    }
+}
@@ -0,0 +1,155 @@
+import type { Nullable } from "../types";
+import type { AudioEngineV2 } from "./abstractAudio/audioEngineV2";
+import { CreateSoundAsync } from "./abstractAudio/audioEngineV2";
+import type { IStaticSoundOptions, IStaticSoundPlayOptions, IStaticSoundStopOptions, StaticSound } from "./abstractAudio/staticSound";
+import type { StaticSoundBuffer } from "./abstractAudio/staticSoundBuffer";
+import type { _StaticSoundInstance } from "./abstractAudio/staticSoundInstance";
+
+/**
+ * A named region of an audio sprite's sound buffer.
+ */
+export interface IAudioSpriteRegion {
+    /**
+     * The start of the region within the sound buffer, in seconds.
+     */
+    startOffset: number;
+    /**
+     * The duration of the region, in seconds.
+     */
+    duration: number;
+    /**
+     * Whether the region loops when played. Defaults to `false`.
+     * - A looping region plays until it is stopped.
+     */
+    loop?: boolean;
+}
+
+/**
+ * Creates a new audio sprite from a single sound file.
+ * @param name - The name of the audio sprite's sound.
+ * @param source - The source of the sound containing all the regions.
+ * @param regions - The named regions of the sound.
+ * @param options - The options for the audio sprite's sound.
+ * @param engine - The audio engine.
+ * @returns A promise that resolves to the created audio sprite.
+ */
+export async function CreateAudioSpriteAsync(
+    name: string,
+    source: ArrayBuffer | AudioBuffer | StaticSoundBuffer | string | string[],
+    regions: { [name: string]: IAudioSpriteRegion },
+    options: Partial<IStaticSoundOptions> = {},
+    engine: Nullable<AudioEngineV2> = null
+): Promise<AudioSprite> {
+    const sound = await CreateSoundAsync(name, source, options, engine);
+    return new AudioSprite(sound, regions);
+}
+
+/**
+ * An audio sprite plays named regions of a single static sound, such as the footsteps or impacts packed in one file.
+ *
+ * Packing many short sounds in one file avoids a separate download and decode per sound, and lets all the regions share
+ * the sound's bus routing, volume, spatial audio and effects. Several regions can play at the same time.
+ *
+ * Audio sprites are created from an existing static sound, or from a sound file with the {@link CreateAudioSpriteAsync} function.
+ */
+export class AudioSprite {
+    private readonly _regions = new Map<string, IAudioSpriteRegion>();
+
+    /**
+     * The static sound whose buffer contains the regions.
+     */
+    public readonly sound: StaticSound;
+
+    /**
+     * Creates a new audio sprite.
+     * @param sound The static sound whose buffer contains the regions.
+     * @param regions The named regions of the sound. Defaults to no regions.
+     */
+    public constructor(sound: StaticSound, regions: { [name: string]: IAudioSpriteRegion } = {}) {
+        this.sound = sound;
+
+        for (const name in regions) {
+            this.addRegion(name, regions[name]);
+        }
+    }
+
+    /**
+     * The names of the regions of the audio sprite.
+     */
+    public get regionNames(): string[] {
+        return Array.from(this._regions.keys());
+    }
+
+    /**
+     * Adds a region to the audio sprite, or replaces the region with the same name.
+     * @param name The name of the region.
+     * @param region The region to add.
+     */
+    public addRegion(name: string, region: IAudioSpriteRegion): void {
+        this._regions.set(name, { ...region });
+    }
+
+    /**
+     * Gets a region of the audio sprite.
+     * @param name The name of the region.
+     * @returns The region, or `null` if the audio sprite has no region with the given name.
+     */
+    public getRegion(name: string): Nullable<Readonly<IAudioSpriteRegion>> {
+        return this._regions.get(name) ?? null;
+    }
+
+    /**
+     * Removes a region from the audio sprite.
+     * - Playing instances of the region are not stopped.
+     * @param name The name of the region.
+     */
+    public removeRegion(name: string): void {
+        this._regions.delete(name);
+    }
+
+    /**
+     * Plays a region of the audio sprite.
+     * - The region's start offset, duration and loop range override the given options.
+     * @param name The name of the region to play.
+     * @param options The options to use when playing the region.
+     */
+    public play(name: string, options: Partial<IStaticSoundPlayOptions> = {}): void {
+        this._play(name, options);
+    }
+
+    /**
+     * Stops all the playing regions of the audio sprite.
+     * @param options The options to use when stopping the regions.
+     */
+    public stop(options: Partial<IStaticSoundStopOptions> = {}): void {
+        this.sound.stop(options);
+    }
+
+    /**
+     * Releases associated resources, including the audio sprite's sound.
+     */
+    public dispose(): void {
+        this._regions.clear();
+        this.sound.dispose();
+    }
+
+    /** @internal */
+    public _play(name: string, options: Partial<IStaticSoundPlayOptions>): Nullable<_StaticSoundInstance> {
+        const region = this._regions.get(name);
+        if (!region) {
+            throw new Error(`Audio sprite region not found: ${name}`);
+        }
+
+        const loop = region.loop ?? false;
+
+        return this.sound._play({
+            ...options,
+            // A looping region plays until it is stopped, so its duration only sets the loop range.
+            duration: loop ? 0 : region.duration,
+            loop,
+            loopEnd: region.startOffset + region.duration,
+            loopStart: region.startOffset,
+            startOffset: region.startOffset,
+        });
+    }
+}
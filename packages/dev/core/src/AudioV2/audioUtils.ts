@@ -88,3 +88,79 @@ export function _GetAudioParamCurveValues(shape: AudioParameterRampShape, from:
 export function _CleanUrl(url: string) {
     return url.replace(/#/gm, "%23");
 }
+
+/**
+ * The audio data needed to encode a WAV file, as provided by an `AudioBuffer`.
+ * @internal
+ */
+export interface _IWavAudioData {
+    /** The number of sample frames. */
+    readonly length: number;
+    /** The number of channels. */
+    readonly numberOfChannels: number;
+    /** The sample rate, in hertz. */
+    readonly sampleRate: number;
+    /** Returns the samples of the given channel. */
+    getChannelData(channel: number): Float32Array;
+}
+
+/**
+ * Encodes audio data in the WAV format, with interleaved samples.
+ * @param audioData The audio data to encode.
+ * @param bitDepth The bit depth of the samples: 16 for signed integer samples, or 32 for floating point samples.
+ * @returns The content of the WAV file.
+ * @internal
+ */
+export function _EncodeWav(audioData: _IWavAudioData, bitDepth: 16 | 32 = 16): ArrayBuffer {
+    const channelCount = audioData.numberOfChannels;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channelCount * bytesPerSample;
+    const dataSize = audioData.length * blockAlign;
+
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) {
+            view.setUint8(offset + i, value.charCodeAt(i));
+        }
+    };
+
+    writeString(0, "RIFF");
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, "WAVE");
+    writeString(12, "fmt ");
+    view.setUint32(16, 16, true);
+    // Format 1 is integer PCM and format 3 is IEEE floating point
+    view.setUint16(20, bitDepth === 32 ? 3 : 1, true);
+    view.setUint16(22, channelCount, true);
+    view.setUint32(24, audioData.sampleRate, true);
+    view.setUint32(28, audioData.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+    writeString(36, "data");
+    view.setUint32(40, dataSize, true);
+
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < channelCount; channel++) {
+        channels.push(audioData.getChannelData(channel));
+    }
+
+    let offset = 44;
+    for (let i = 0; i < audioData.length; i++) {
+        for (let channel = 0; channel < channelCount; channel++) {
+            const sample = channels[channel][i];
+
+            if (bitDepth === 32) {
+                view.setFloat32(offset, sample, true);
+            } else {
+                const clamped = Math.max(-1, Math.min(1, sample));
+                view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+            }
+
+            offset += bytesPerSample;
+        }
+    }
+
+    return buffer;
+}
@@ -0,0 +1,108 @@
+import type { Nullable } from "../types";
+import type { _StaticSoundInstance } from "./abstractAudio/staticSoundInstance";
+
+/**
+ * A playing sound instance tracked for voice stealing.
+ * @internal
+ */
+export interface _IAudioVoice {
+    /** The playing sound instance. */
+    instance: _StaticSoundInstance;
+    /** The priority of the voice. Voices with lower priorities are stolen first. */
+    priority: number;
+    /** Called when the voice limiter stops the voice, before stopping its instance. */
+    onStopped: () => void;
+}
+
+/**
+ * An audio voice limiter limits the number of voices played by the sound pools that share it.
+ *
+ * When a sound pool plays a new voice and the limit is reached, the voice with the lowest priority is stolen, which
+ * stops it. The oldest voice is stolen among voices with the same priority. If all the playing voices have a higher
+ * priority than the new voice, the new voice is not played.
+ *
+ * Sharing one limiter between sound pools that output to different buses, such as the effects, dialogs and ambience
+ * buses, sets a global voice budget across these buses, which is useful on mobile devices.
+ */
+export class AudioVoiceLimiter {
+    private readonly _voices: _IAudioVoice[] = [];
+
+    /**
+     * The maximum number of voices that can play at the same time.
+     * - Lowering it does not stop any voice until the next voice is played.
+     */
+    public maxVoices: number;
+
+    /**
+     * Creates a new audio voice limiter.
+     * @param maxVoices The maximum number of voices that can play at the same time. Defaults to `32`.
+     */
+    public constructor(maxVoices: number = 32) {
+        this.maxVoices = maxVoices;
+    }
+
+    /**
+     * The number of voices currently playing.
+     */
+    public get activeVoicesCount(): number {
+        return this._voices.length;
+    }
+
+    /**
+     * Stops all the voices.
+     */
+    public stopAll(): void {
+        const voices = this._voices.slice();
+        this._voices.length = 0;
+
+        for (const voice of voices) {
+            voice.onStopped();
+            voice.instance.stop();
+        }
+    }
+
+    /** @internal */
+    public _addVoice(voice: _IAudioVoice): void {
+        this._voices.push(voice);
+    }
+
+    /**
+     * Steals voices until a new voice with the given priority can be played.
+     * @param priority The priority of the new voice.
+     * @param releasedVoice A voice that the caller stops if the new voice can be played, which is not stolen and frees its slot. Defaults to `null`.
+     * @returns `true` if the new voice can be played; otherwise `false`.
+     * @internal
+     */
+    public _makeRoom(priority: number, releasedVoice: Nullable<_IAudioVoice> = null): boolean {
+        const releasedCount = releasedVoice && this._voices.includes(releasedVoice) ? 1 : 0;
+
+        while (this._voices.length - releasedCount >= this.maxVoices) {
+            let victim: _IAudioVoice | undefined = undefined;
+
+            // Voices are sorted from oldest to newest, so the first voice with the lowest priority is the oldest.
+            for (const voice of this._voices) {
+                if (voice !== releasedVoice && (!victim || voice.priority < victim.priority)) {
+                    victim = voice;
+                }
+            }
+
+            if (!victim || priority < victim.priority) {
+                return false;
+            }
+
+            this._removeVoice(victim);
+            victim.onStopped();
+            victim.instance.stop();
+        }
+
+        return true;
+    }
+
+    /** @internal */
+    public _removeVoice(voice: _IAudioVoice): void {
+        const index = this._voices.indexOf(voice);
+        if (index !== -1) {
+            this._voices.splice(index, 1);
+        }
+    }
+}
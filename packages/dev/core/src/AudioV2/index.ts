@@ -1,6 +1,11 @@
 /* eslint-disable @typescript-eslint/no-restricted-imports */
 export * from "./abstractAudio/index";
+export * from "./audioOcclusion";
 export * from "./audioParameter";
+export * from "./audioReverbZone";
+export * from "./audioSprite";
+export * from "./audioVoiceLimiter";
+export * from "./soundPool";
 export * from "./soundState";
 export * from "./spatialAudioAttachmentType";
 export * from "./webAudio/index";
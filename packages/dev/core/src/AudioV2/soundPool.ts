@@ -0,0 +1,261 @@
+import type { Nullable } from "../types";
+import { SoundState } from "./soundState";
+import type { IStaticSoundPlayOptions, StaticSound } from "./abstractAudio/staticSound";
+import type { _StaticSoundInstance } from "./abstractAudio/staticSoundInstance";
+import type { AudioSprite } from "./audioSprite";
+import type { _IAudioVoice, AudioVoiceLimiter } from "./audioVoiceLimiter";
+
+/**
+ * A region of an audio sprite played as a sound pool variation.
+ */
+export interface ISoundPoolSpriteVariation {
+    /**
+     * The audio sprite containing the region.
+     */
+    sprite: AudioSprite;
+    /**
+     * The name of the region to play.
+     */
+    region: string;
+}
+
+/**
+ * A variation of a sound pool: a static sound, or a region of an audio sprite.
+ */
+export type SoundPoolVariation = StaticSound | ISoundPoolSpriteVariation;
+
+/**
+ * Options for creating a sound pool.
+ */
+export interface ISoundPoolOptions {
+    /**
+     * Whether to avoid playing the same variation twice in a row when the pool has more than one variation. Defaults to `true`.
+     */
+    avoidRepeat: boolean;
+    /**
+     * The maximum number of voices of the pool that can play at the same time. Defaults to `Infinity`.
+     * - When the limit is reached, the oldest voice of the pool is stolen to play the new one.
+     */
+    maxVoices: number;
+    /**
+     * The maximum random offset added to the pitch of each played voice, in cents. Defaults to `0`.
+     * - The offset is picked uniformly between `-pitchVariation` and `pitchVariation`.
+     */
+    pitchVariation: number;
+    /**
+     * The priority of the voices of the pool, used by the `voiceLimiter` to pick the voices to steal. Defaults to `0`.
+     * - Voices with lower priorities are stolen first.
+     */
+    priority: number;
+    /**
+     * The maximum random fraction removed from the volume of each played voice, from 0 to 1. Defaults to `0`.
+     * - The volume of each voice is multiplied by a factor picked uniformly between `1 - volumeVariation` and `1`.
+     */
+    volumeVariation: number;
+    /**
+     * The voice limiter shared with other sound pools, used to limit the total number of voices. Defaults to `null`.
+     */
+    voiceLimiter: Nullable<AudioVoiceLimiter>;
+}
+
+interface ISoundPoolVoice extends _IAudioVoice {
+    voiceLimiter: Nullable<AudioVoiceLimiter>;
+}
+
+/**
+ * A sound pool plays a random variation of a sound, such as one of several footstep or impact sounds, with random pitch
+ * and volume variations so repeated sounds don't feel mechanical.
+ *
+ * Variations are static sounds, or regions of audio sprites so that all the variations can be loaded from one file.
+ * The number of voices played at the same time is limited per pool with the `maxVoices` option, and across pools with a
+ * shared {@link AudioVoiceLimiter} which steals voices depending on their priority.
+ *
+ * Disposing a sound pool does not dispose its variations, which can be shared with other sound pools.
+ */
+export class SoundPool {
+    private _lastVariationIndex = -1;
+    private readonly _voices: ISoundPoolVoice[] = [];
+
+    /**
+     * Whether to avoid playing the same variation twice in a row when the pool has more than one variation.
+     */
+    public avoidRepeat: boolean;
+
+    /**
+     * The maximum number of voices of the pool that can play at the same time.
+     */
+    public maxVoices: number;
+
+    /**
+     * The name of the sound pool.
+     */
+    public name: string;
+
+    /**
+     * The maximum random offset added to the pitch of each played voice, in cents.
+     */
+    public pitchVariation: number;
+
+    /**
+     * The priority of the voices of the pool, used by the `voiceLimiter` to pick the voices to steal.
+     * - Changing it does not affect the voices already playing.
+     */
+    public priority: number;
+
+    /**
+     * The variations of the sound pool.
+     */
+    public readonly variations: SoundPoolVariation[];
+
+    /**
+     * The maximum random fraction removed from the volume of each played voice, from 0 to 1.
+     */
+    public volumeVariation: number;
+
+    /**
+     * The voice limiter shared with other sound pools, or `null` if the pool is only limited by its `maxVoices`.
+     * - Changing it does not affect the voices already playing, which stay tracked by the previous voice limiter.
+     */
+    public voiceLimiter: Nullable<AudioVoiceLimiter>;
+
+    /**
+     * Creates a new sound pool.
+     * @param name The name of the sound pool.
+     * @param variations The variations of the sound pool.
+     * @param options The options of the sound pool.
+     */
+    public constructor(name: string, variations: SoundPoolVariation[], options: Partial<ISoundPoolOptions> = {}) {
+        this.name = name;
+        this.variations = variations.slice();
+
+        this.avoidRepeat = options.avoidRepeat ?? true;
+        this.maxVoices = options.maxVoices ?? Infinity;
+        this.pitchVariation = options.pitchVariation ?? 0;
+        this.priority = options.priority ?? 0;
+        this.volumeVariation = options.volumeVariation ?? 0;
+        this.voiceLimiter = options.voiceLimiter ?? null;
+    }
+
+    /**
+     * The number of voices of the pool currently playing.
+     */
+    public get activeVoicesCount(): number {
+        return this._voices.length;
+    }
+
+    /**
+     * Plays a random variation of the sound pool.
+     * - The random pitch offset is added to the given `pitch` option, or to the variation's pitch if not given.
+     * - The given `volume` option is multiplied by the random volume factor.
+     * - A paused variation is not resumed, and no voice is stolen for it.
+     * @param options The options to use when playing the variation.
+     * @returns `true` if a voice was played; otherwise `false`, if the pool has no variation, if the picked variation is paused or if the voice limiter has no voice with a lower priority to steal.
+     */
+    public play(options: Partial<IStaticSoundPlayOptions> = {}): boolean {
+        if (this.variations.length === 0 || this.maxVoices <= 0) {
+            return false;
+        }
+
+        const variation = this.variations[this._pickVariationIndex()];
+        const sound = "sprite" in variation ? variation.sprite.sound : variation;
+
+        // A paused sound is resumed instead of playing a new instance, so it must be ruled out before stealing voices.
+        if (sound.state === SoundState.Paused) {
+            return false;
+        }
+
+        // The oldest voice of a full pool is stolen only if the voice limiter lets the new voice play, and frees a slot of the limiter tracking it.
+        const stolenVoice = this._voices.length >= this.maxVoices ? this._voices[0] : null;
+        if (this.voiceLimiter && !this.voiceLimiter._makeRoom(this.priority, stolenVoice?.voiceLimiter === this.voiceLimiter ? stolenVoice : null)) {
+            return false;
+        }
+
+        while (this._voices.length >= this.maxVoices) {
+            const voice = this._voices[0];
+            this._removeVoice(voice);
+            voice.instance.stop();
+        }
+
+        const playOptions = { ...options };
+        playOptions.pitch = (options.pitch ?? sound.pitch) + (Math.random() * 2 - 1) * this.pitchVariation;
+        playOptions.volume = (options.volume ?? 1) * (1 - Math.random() * this.volumeVariation);
+
+        let instance: Nullable<_StaticSoundInstance>;
+        if ("sprite" in variation) {
+            instance = variation.sprite._play(variation.region, playOptions);
+        } else {
+            instance = variation._play(playOptions);
+        }
+
+        if (!instance) {
+            return false;
+        }
+
+        const voice: ISoundPoolVoice = {
+            instance,
+            priority: this.priority,
+            voiceLimiter: this.voiceLimiter,
+            onStopped: () => {
+                this._removeVoice(voice);
+            },
+        };
+        this._voices.push(voice);
+        this.voiceLimiter?._addVoice(voice);
+
+        // Inserted first because the sound clears the instance's observers when the instance ends.
+        instance.onEndedObservable.add(
+            () => {
+                this._removeVoice(voice);
+            },
+            undefined,
+            true,
+            undefined,
+            true
+        );
+
+        return true;
+    }
+
+    /**
+     * Stops all the voices of the sound pool.
+     */
+    public stop(): void {
+        for (const voice of this._voices.slice()) {
+            this._removeVoice(voice);
+            voice.instance.stop();
+        }
+    }
+
+    /**
+     * Stops all the voices of the sound pool and releases associated resources.
+     * - The variations are not disposed.
+     */
+    public dispose(): void {
+        this.stop();
+        this.variations.length = 0;
+        this.voiceLimiter = null;
+    }
+
+    private _pickVariationIndex(): number {
+        const count = this.variations.length;
+
+        if (!this.avoidRepeat || count < 2 || this._lastVariationIndex < 0 || this._lastVariationIndex >= count) {
+            this._lastVariationIndex = Math.floor(Math.random() * count);
+        } else {
+            // Picks one of the other variations, shifting the indexes at and after the last one.
+            const index = Math.floor(Math.random() * (count - 1));
+            this._lastVariationIndex = index < this._lastVariationIndex ? index : index + 1;
+        }
+
+        return this._lastVariationIndex;
+    }
+
+    private _removeVoice(voice: ISoundPoolVoice): void {
+        const index = this._voices.indexOf(voice);
+        if (index !== -1) {
+            this._voices.splice(index, 1);
+        }
+
+        voice.voiceLimiter?._removeVoice(voice);
+    }
+}
@@ -1,6 +1,7 @@
 export * from "./webAudioBus";
 export * from "./webAudioEngine";
 export * from "./webAudioMainBus";
+export * from "./webAudioOfflineRenderer";
 export * from "./webAudioSoundSource";
 export * from "./webAudioStaticSound";
 export * from "./webAudioStreamingSound";
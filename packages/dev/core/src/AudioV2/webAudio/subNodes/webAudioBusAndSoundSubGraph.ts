@@ -1,28 +1,61 @@
 import type { Nullable } from "../../../types";
 import type { AbstractAudioNode } from "../../abstractAudio/abstractAudioNode";
 import type { _AbstractAudioSubNode } from "../../abstractAudio/subNodes/abstractAudioSubNode";
+import { _GetAudioCompressorSubNode } from "../../abstractAudio/subNodes/audioCompressorSubNode";
+import { _GetAudioDelaySubNode } from "../../abstractAudio/subNodes/audioDelaySubNode";
+import { _GetAudioEqualizerSubNode } from "../../abstractAudio/subNodes/audioEqualizerSubNode";
+import { _GetAudioFilterSubNode } from "../../abstractAudio/subNodes/audioFilterSubNode";
+import { _GetAudioReverbSubNode } from "../../abstractAudio/subNodes/audioReverbSubNode";
 import { AudioSubNode } from "../../abstractAudio/subNodes/audioSubNode";
 import { _GetSpatialAudioSubNode } from "../../abstractAudio/subNodes/spatialAudioSubNode";
 import { _GetStereoAudioSubNode } from "../../abstractAudio/subNodes/stereoAudioSubNode";
 import type { IVolumeAudioOptions } from "../../abstractAudio/subNodes/volumeAudioSubNode";
 import { _GetVolumeAudioSubNode } from "../../abstractAudio/subNodes/volumeAudioSubNode";
+import type { IAudioCompressorOptions } from "../../abstractAudio/subProperties/abstractAudioCompressor";
+import { _HasAudioCompressorOptions } from "../../abstractAudio/subProperties/abstractAudioCompressor";
+import type { IAudioDelayOptions } from "../../abstractAudio/subProperties/abstractAudioDelay";
+import { _HasAudioDelayOptions } from "../../abstractAudio/subProperties/abstractAudioDelay";
+import type { IAudioEqualizerOptions } from "../../abstractAudio/subProperties/abstractAudioEqualizer";
+import { _HasAudioEqualizerOptions } from "../../abstractAudio/subProperties/abstractAudioEqualizer";
+import type { IAudioFilterOptions } from "../../abstractAudio/subProperties/abstractAudioFilter";
+import { _HasAudioFilterOptions } from "../../abstractAudio/subProperties/abstractAudioFilter";
+import type { IAudioReverbOptions } from "../../abstractAudio/subProperties/abstractAudioReverb";
+import { _HasAudioReverbOptions } from "../../abstractAudio/subProperties/abstractAudioReverb";
 import type { ISpatialAudioOptions } from "../../abstractAudio/subProperties/abstractSpatialAudio";
 import { _HasSpatialAudioOptions } from "../../abstractAudio/subProperties/abstractSpatialAudio";
 import type { IStereoAudioOptions } from "../../abstractAudio/subProperties/abstractStereoAudio";
 import { _HasStereoAudioOptions } from "../../abstractAudio/subProperties/abstractStereoAudio";
-import type { IWebAudioOutNode, IWebAudioSubNode } from "../webAudioNode";
+import type { IWebAudioInNode, IWebAudioOutNode, IWebAudioSubNode } from "../webAudioNode";
 import type { _SpatialWebAudioSubNode } from "./spatialWebAudioSubNode";
 import { _CreateSpatialAudioSubNodeAsync } from "./spatialWebAudioSubNode";
 import type { _StereoWebAudioSubNode } from "./stereoWebAudioSubNode";
 import { _CreateStereoAudioSubNodeAsync } from "./stereoWebAudioSubNode";
 import type { _VolumeWebAudioSubNode } from "./volumeWebAudioSubNode";
 import { _WebAudioBaseSubGraph } from "./webAudioBaseSubGraph";
+import { _CreateAudioCompressorSubNodeAsync } from "./webAudioCompressorSubNode";
+import { _CreateAudioDelaySubNodeAsync } from "./webAudioDelaySubNode";
+import { _CreateAudioEqualizerSubNodeAsync } from "./webAudioEqualizerSubNode";
+import { _CreateAudioFilterSubNodeAsync } from "./webAudioFilterSubNode";
+import { _CreateAudioReverbSubNodeAsync } from "./webAudioReverbSubNode";
+
+type EffectSubNode = _AbstractAudioSubNode & IWebAudioInNode & IWebAudioOutNode;
 
 /** @internal */
-export interface IWebAudioBusAndSoundSubGraphOptions extends ISpatialAudioOptions, IStereoAudioOptions, IVolumeAudioOptions {}
+export interface IWebAudioBusAndSoundSubGraphOptions
+    extends
+        IAudioCompressorOptions,
+        IAudioDelayOptions,
+        IAudioEqualizerOptions,
+        IAudioFilterOptions,
+        IAudioReverbOptions,
+        ISpatialAudioOptions,
+        IStereoAudioOptions,
+        IVolumeAudioOptions {}
 
 /** @internal */
 export abstract class _WebAudioBusAndSoundSubGraph extends _WebAudioBaseSubGraph {
+    private _effectsOutNode: Nullable<AudioNode> = null;
+    private _effectsOutTarget: Nullable<AudioNode> = null;
     private _rootNode: Nullable<GainNode> = null;
     protected abstract readonly _upstreamNodes: Nullable<Set<AbstractAudioNode>>;
 
@@ -32,9 +65,29 @@ export abstract class _WebAudioBusAndSoundSubGraph extends _WebAudioBaseSubGraph
     public override async initAsync(options: Partial<IWebAudioBusAndSoundSubGraphOptions>): Promise<void> {
         await super.initAsync(options);
 
+        let hasCompressorOptions = false;
+        let hasDelayOptions = false;
+        let hasEqualizerOptions = false;
+        let hasFilterOptions = false;
+        let hasReverbOptions = false;
         let hasSpatialOptions = false;
         let hasStereoOptions = false;
 
+        if ((hasCompressorOptions = _HasAudioCompressorOptions(options))) {
+            await this.createAndAddSubNodeAsync(AudioSubNode.COMPRESSOR);
+        }
+        if ((hasDelayOptions = _HasAudioDelayOptions(options))) {
+            await this.createAndAddSubNodeAsync(AudioSubNode.DELAY);
+        }
+        if ((hasEqualizerOptions = _HasAudioEqualizerOptions(options))) {
+            await this.createAndAddSubNodeAsync(AudioSubNode.EQUALIZER);
+        }
+        if ((hasFilterOptions = _HasAudioFilterOptions(options))) {
+            await this.createAndAddSubNodeAsync(AudioSubNode.FILTER);
+        }
+        if ((hasReverbOptions = _HasAudioReverbOptions(options))) {
+            await this.createAndAddSubNodeAsync(AudioSubNode.REVERB);
+        }
         if ((hasSpatialOptions = _HasSpatialAudioOptions(options))) {
             await this.createAndAddSubNodeAsync(AudioSubNode.SPATIAL);
         }
@@ -44,6 +97,26 @@ export abstract class _WebAudioBusAndSoundSubGraph extends _WebAudioBaseSubGraph
 
         await this._createSubNodePromisesResolvedAsync();
 
+        if (hasCompressorOptions) {
+            _GetAudioCompressorSubNode(this)?.setOptions(options);
+        }
+        if (hasDelayOptions) {
+            _GetAudioDelaySubNode(this)?.setOptions(options);
+        }
+        if (hasEqualizerOptions) {
+            _GetAudioEqualizerSubNode(this)?.setOptions(options);
+        }
+        if (hasFilterOptions) {
+            _GetAudioFilterSubNode(this)?.setOptions(options);
+        }
+        if (hasReverbOptions) {
+            const reverbNode = _GetAudioReverbSubNode(this);
+            reverbNode?.setOptions(options);
+
+            if (reverbNode && options.reverbImpulseResponse) {
+                await reverbNode.setImpulseResponseAsync(options.reverbImpulseResponse);
+            }
+        }
         if (hasSpatialOptions) {
             _GetSpatialAudioSubNode(this)?.setOptions(options);
         }
@@ -66,6 +139,16 @@ export abstract class _WebAudioBusAndSoundSubGraph extends _WebAudioBaseSubGraph
         } catch (e) {}
 
         switch (name) {
+            case AudioSubNode.COMPRESSOR:
+                return _CreateAudioCompressorSubNodeAsync(this._owner.engine);
+            case AudioSubNode.DELAY:
+                return _CreateAudioDelaySubNodeAsync(this._owner.engine);
+            case AudioSubNode.EQUALIZER:
+                return _CreateAudioEqualizerSubNodeAsync(this._owner.engine);
+            case AudioSubNode.FILTER:
+                return _CreateAudioFilterSubNodeAsync(this._owner.engine);
+            case AudioSubNode.REVERB:
+                return _CreateAudioReverbSubNodeAsync(this._owner.engine);
             case AudioSubNode.SPATIAL:
                 return _CreateSpatialAudioSubNodeAsync(this._owner.engine);
             case AudioSubNode.STEREO:
@@ -109,9 +192,11 @@ export abstract class _WebAudioBusAndSoundSubGraph extends _WebAudioBaseSubGraph
         }
 
         if (spatialNode && stereoNode) {
-            this._rootNode = new GainNode(this._owner.engine._audioContext);
-            this._rootNode.connect((spatialNode as _SpatialWebAudioSubNode)._outNode);
-            this._rootNode.connect((stereoNode as _StereoWebAudioSubNode)._outNode);
+            if (!this._rootNode) {
+                this._rootNode = new GainNode(this._owner.engine._audioContext);
+                this._rootNode.connect((spatialNode as _SpatialWebAudioSubNode)._outNode);
+                this._rootNode.connect((stereoNode as _StereoWebAudioSubNode)._outNode);
+            }
         } else {
             this._rootNode?.disconnect();
             this._rootNode = null;
@@ -135,6 +220,8 @@ export abstract class _WebAudioBusAndSoundSubGraph extends _WebAudioBaseSubGraph
             inNode = inSubNode?.node ?? null;
         }
 
+        inNode = this._connectEffects(inNode);
+
         if (this._inputNode !== inNode) {
             // Disconnect the wrapped upstream WebAudio nodes from the old wrapped WebAudio node.
             // The wrapper nodes are unaware of this change.
@@ -157,4 +244,58 @@ export abstract class _WebAudioBusAndSoundSubGraph extends _WebAudioBaseSubGraph
             }
         }
     }
+
+    /**
+     * Chains the effect sub nodes in a fixed order in front of the given node.
+     * @param inNode The wrapped WebAudio node the effects chain outputs to.
+     * @returns The wrapped WebAudio node at the start of the effects chain, or the given node if there are no effects.
+     */
+    private _connectEffects(inNode: Nullable<AudioNode>): Nullable<AudioNode> {
+        const effectNodes: { node: Nullable<_AbstractAudioSubNode>; className: string }[] = [
+            { node: _GetAudioFilterSubNode(this), className: "_WebAudioFilterSubNode" },
+            { node: _GetAudioEqualizerSubNode(this), className: "_WebAudioEqualizerSubNode" },
+            { node: _GetAudioCompressorSubNode(this), className: "_WebAudioCompressorSubNode" },
+            { node: _GetAudioDelaySubNode(this), className: "_WebAudioDelaySubNode" },
+            { node: _GetAudioReverbSubNode(this), className: "_WebAudioReverbSubNode" },
+        ];
+
+        const effects: EffectSubNode[] = [];
+
+        for (const { node, className } of effectNodes) {
+            if (!node) {
+                continue;
+            }
+            if (node.getClassName() !== className) {
+                throw new Error("Not a WebAudio subnode.");
+            }
+
+            node.disconnectAll();
+            effects.push(node as EffectSubNode);
+        }
+
+        for (let i = 1; i < effects.length; i++) {
+            effects[i - 1].connect(effects[i]);
+        }
+
+        // The last effect is connected to a wrapped WebAudio node that is not always backed by a sub node, so this
+        // connection is not tracked by the sub nodes and needs to be updated manually.
+        const lastEffect = effects.length > 0 ? effects[effects.length - 1] : null;
+        const effectsOutNode = lastEffect?._outNode ?? null;
+        const effectsOutTarget = effectsOutNode ? inNode : null;
+
+        if (this._effectsOutNode !== effectsOutNode || this._effectsOutTarget !== effectsOutTarget) {
+            if (this._effectsOutNode && this._effectsOutTarget) {
+                this._effectsOutNode.disconnect(this._effectsOutTarget);
+            }
+
+            this._effectsOutNode = effectsOutNode;
+            this._effectsOutTarget = effectsOutTarget;
+
+            if (effectsOutNode && effectsOutTarget) {
+                effectsOutNode.connect(effectsOutTarget);
+            }
+        }
+
+        return effects.length > 0 ? effects[0]._inNode : inNode;
+    }
 }
@@ -0,0 +1,148 @@
+import type { Nullable } from "../../../types";
+import { _AudioCompressorSubNode } from "../../abstractAudio/subNodes/audioCompressorSubNode";
+import type { AudioCompressorParameter } from "../../abstractAudio/subProperties/abstractAudioCompressor";
+import { _AudioCompressorDefaults } from "../../abstractAudio/subProperties/abstractAudioCompressor";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { _WebAudioParameterComponent } from "../components/webAudioParameterComponent";
+import type { _WebAudioEngine } from "../webAudioEngine";
+import type { IWebAudioInNode, IWebAudioSubNode } from "../webAudioNode";
+
+/** @internal */
+// eslint-disable-next-line @typescript-eslint/require-await
+export async function _CreateAudioCompressorSubNodeAsync(engine: _WebAudioEngine): Promise<_AudioCompressorSubNode> {
+    return new _WebAudioCompressorSubNode(engine);
+}
+
+/** @internal */
+export class _WebAudioCompressorSubNode extends _AudioCompressorSubNode implements IWebAudioSubNode {
+    private _parameters: { [key in AudioCompressorParameter]: _WebAudioParameterComponent };
+
+    /** @internal */
+    public override readonly engine: _WebAudioEngine;
+
+    /** @internal */
+    public readonly node: DynamicsCompressorNode;
+
+    /** @internal */
+    public constructor(engine: _WebAudioEngine) {
+        super(engine);
+
+        this.node = new DynamicsCompressorNode(engine._audioContext, _AudioCompressorDefaults);
+
+        this._parameters = {
+            attack: new _WebAudioParameterComponent(engine, this.node.attack),
+            knee: new _WebAudioParameterComponent(engine, this.node.knee),
+            ratio: new _WebAudioParameterComponent(engine, this.node.ratio),
+            release: new _WebAudioParameterComponent(engine, this.node.release),
+            threshold: new _WebAudioParameterComponent(engine, this.node.threshold),
+        };
+    }
+
+    /** @internal */
+    public override dispose(): void {
+        super.dispose();
+
+        for (const parameter of Object.values(this._parameters)) {
+            parameter.dispose();
+        }
+    }
+
+    /** @internal */
+    public get attack(): number {
+        return this._parameters.attack.targetValue;
+    }
+
+    public set attack(value: number) {
+        this._parameters.attack.targetValue = value;
+    }
+
+    /** @internal */
+    public get knee(): number {
+        return this._parameters.knee.targetValue;
+    }
+
+    public set knee(value: number) {
+        this._parameters.knee.targetValue = value;
+    }
+
+    /** @internal */
+    public get ratio(): number {
+        return this._parameters.ratio.targetValue;
+    }
+
+    public set ratio(value: number) {
+        this._parameters.ratio.targetValue = value;
+    }
+
+    /** @internal */
+    public get reduction(): number {
+        return this.node.reduction;
+    }
+
+    /** @internal */
+    public get release(): number {
+        return this._parameters.release.targetValue;
+    }
+
+    public set release(value: number) {
+        this._parameters.release.targetValue = value;
+    }
+
+    /** @internal */
+    public get threshold(): number {
+        return this._parameters.threshold.targetValue;
+    }
+
+    public set threshold(value: number) {
+        this._parameters.threshold.targetValue = value;
+    }
+
+    /** @internal */
+    public get _inNode(): AudioNode {
+        return this.node;
+    }
+
+    /** @internal */
+    public get _outNode(): AudioNode {
+        return this.node;
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioCompressorParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._parameters[parameter].setTargetValue(value, options);
+    }
+
+    /** @internal */
+    public getClassName(): string {
+        return "_WebAudioCompressorSubNode";
+    }
+
+    protected override _connect(node: IWebAudioInNode): boolean {
+        const connected = super._connect(node);
+
+        if (!connected) {
+            return false;
+        }
+
+        // If the wrapped node is not available now, it will be connected later by the subgraph.
+        if (node._inNode) {
+            this.node.connect(node._inNode);
+        }
+
+        return true;
+    }
+
+    protected override _disconnect(node: IWebAudioInNode): boolean {
+        const disconnected = super._disconnect(node);
+
+        if (!disconnected) {
+            return false;
+        }
+
+        if (node._inNode) {
+            this.node.disconnect(node._inNode);
+        }
+
+        return true;
+    }
+}
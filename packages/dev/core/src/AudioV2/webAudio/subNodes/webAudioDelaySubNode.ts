@@ -0,0 +1,165 @@
+import type { Nullable } from "../../../types";
+import { _AudioDelaySubNode } from "../../abstractAudio/subNodes/audioDelaySubNode";
+import type { AudioDelayParameter } from "../../abstractAudio/subProperties/abstractAudioDelay";
+import { _AudioDelayDefaults, _AudioDelayMaxTime } from "../../abstractAudio/subProperties/abstractAudioDelay";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { _WebAudioParameterComponent } from "../components/webAudioParameterComponent";
+import type { _WebAudioEngine } from "../webAudioEngine";
+import type { IWebAudioInNode } from "../webAudioNode";
+
+/** @internal */
+// eslint-disable-next-line @typescript-eslint/require-await
+export async function _CreateAudioDelaySubNodeAsync(engine: _WebAudioEngine): Promise<_AudioDelaySubNode> {
+    return new _WebAudioDelaySubNode(engine);
+}
+
+/**
+ * The input node is connected to the output node through two paths:
+ * - a dry path made of the dry gain node.
+ * - a wet path made of the delay node and the wet gain node, with the delay node feeding back into itself through the
+ *   feedback gain node.
+ * @internal
+ */
+export class _WebAudioDelaySubNode extends _AudioDelaySubNode {
+    private readonly _delayNode: DelayNode;
+    private readonly _dryNode: GainNode;
+    private readonly _feedbackNode: GainNode;
+    private readonly _inputNode: GainNode;
+    private readonly _outputNode: GainNode;
+    private readonly _wetNode: GainNode;
+    private _parameters: { [key in AudioDelayParameter]: _WebAudioParameterComponent };
+
+    /** @internal */
+    public override readonly engine: _WebAudioEngine;
+
+    /** @internal */
+    public constructor(engine: _WebAudioEngine) {
+        super(engine);
+
+        const audioContext = engine._audioContext;
+
+        this._inputNode = new GainNode(audioContext);
+        this._outputNode = new GainNode(audioContext);
+        this._delayNode = new DelayNode(audioContext, { delayTime: _AudioDelayDefaults.time, maxDelayTime: _AudioDelayMaxTime });
+        this._dryNode = new GainNode(audioContext, { gain: _AudioDelayDefaults.dry });
+        this._feedbackNode = new GainNode(audioContext, { gain: _AudioDelayDefaults.feedback });
+        this._wetNode = new GainNode(audioContext, { gain: _AudioDelayDefaults.wet });
+
+        this._inputNode.connect(this._dryNode);
+        this._dryNode.connect(this._outputNode);
+
+        this._inputNode.connect(this._delayNode);
+        this._delayNode.connect(this._wetNode);
+        this._delayNode.connect(this._feedbackNode);
+        this._feedbackNode.connect(this._delayNode);
+        this._wetNode.connect(this._outputNode);
+
+        this._parameters = {
+            dry: new _WebAudioParameterComponent(engine, this._dryNode.gain),
+            feedback: new _WebAudioParameterComponent(engine, this._feedbackNode.gain),
+            time: new _WebAudioParameterComponent(engine, this._delayNode.delayTime),
+            wet: new _WebAudioParameterComponent(engine, this._wetNode.gain),
+        };
+    }
+
+    /** @internal */
+    public override dispose(): void {
+        super.dispose();
+
+        for (const parameter of Object.values(this._parameters)) {
+            parameter.dispose();
+        }
+
+        // The feedback loop keeps the nodes alive, so it needs to be broken explicitly.
+        this._inputNode.disconnect();
+        this._dryNode.disconnect();
+        this._delayNode.disconnect();
+        this._feedbackNode.disconnect();
+        this._wetNode.disconnect();
+    }
+
+    /** @internal */
+    public get dry(): number {
+        return this._parameters.dry.targetValue;
+    }
+
+    public set dry(value: number) {
+        this._parameters.dry.targetValue = value;
+    }
+
+    /** @internal */
+    public get feedback(): number {
+        return this._parameters.feedback.targetValue;
+    }
+
+    public set feedback(value: number) {
+        this._parameters.feedback.targetValue = value;
+    }
+
+    /** @internal */
+    public get time(): number {
+        return this._parameters.time.targetValue;
+    }
+
+    public set time(value: number) {
+        this._parameters.time.targetValue = value;
+    }
+
+    /** @internal */
+    public get wet(): number {
+        return this._parameters.wet.targetValue;
+    }
+
+    public set wet(value: number) {
+        this._parameters.wet.targetValue = value;
+    }
+
+    /** @internal */
+    public get _inNode(): AudioNode {
+        return this._inputNode;
+    }
+
+    /** @internal */
+    public get _outNode(): AudioNode {
+        return this._outputNode;
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioDelayParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._parameters[parameter].setTargetValue(value, options);
+    }
+
+    /** @internal */
+    public getClassName(): string {
+        return "_WebAudioDelaySubNode";
+    }
+
+    protected override _connect(node: IWebAudioInNode): boolean {
+        const connected = super._connect(node);
+
+        if (!connected) {
+            return false;
+        }
+
+        // If the wrapped node is not available now, it will be connected later by the subgraph.
+        if (node._inNode) {
+            this._outputNode.connect(node._inNode);
+        }
+
+        return true;
+    }
+
+    protected override _disconnect(node: IWebAudioInNode): boolean {
+        const disconnected = super._disconnect(node);
+
+        if (!disconnected) {
+            return false;
+        }
+
+        if (node._inNode) {
+            this._outputNode.disconnect(node._inNode);
+        }
+
+        return true;
+    }
+}
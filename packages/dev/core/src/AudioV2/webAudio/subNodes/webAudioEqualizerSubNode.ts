@@ -0,0 +1,173 @@
+import type { Nullable } from "../../../types";
+import { _AudioEqualizerSubNode } from "../../abstractAudio/subNodes/audioEqualizerSubNode";
+import type { AudioEqualizerParameter } from "../../abstractAudio/subProperties/abstractAudioEqualizer";
+import { _AudioEqualizerDefaults } from "../../abstractAudio/subProperties/abstractAudioEqualizer";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { _WebAudioParameterComponent } from "../components/webAudioParameterComponent";
+import type { _WebAudioEngine } from "../webAudioEngine";
+import type { IWebAudioInNode } from "../webAudioNode";
+
+/** @internal */
+// eslint-disable-next-line @typescript-eslint/require-await
+export async function _CreateAudioEqualizerSubNodeAsync(engine: _WebAudioEngine): Promise<_AudioEqualizerSubNode> {
+    return new _WebAudioEqualizerSubNode(engine);
+}
+
+/** @internal */
+export class _WebAudioEqualizerSubNode extends _AudioEqualizerSubNode {
+    private readonly _highNode: BiquadFilterNode;
+    private readonly _lowNode: BiquadFilterNode;
+    private readonly _midNode: BiquadFilterNode;
+    private _parameters: { [key in AudioEqualizerParameter]: _WebAudioParameterComponent };
+
+    /** @internal */
+    public override readonly engine: _WebAudioEngine;
+
+    /** @internal */
+    public constructor(engine: _WebAudioEngine) {
+        super(engine);
+
+        const audioContext = engine._audioContext;
+
+        this._lowNode = new BiquadFilterNode(audioContext, { type: "lowshelf", frequency: _AudioEqualizerDefaults.lowFrequency });
+        this._midNode = new BiquadFilterNode(audioContext, { type: "peaking", frequency: _AudioEqualizerDefaults.midFrequency, Q: _AudioEqualizerDefaults.midQualityFactor });
+        this._highNode = new BiquadFilterNode(audioContext, { type: "highshelf", frequency: _AudioEqualizerDefaults.highFrequency });
+
+        this._lowNode.connect(this._midNode);
+        this._midNode.connect(this._highNode);
+
+        this._parameters = {
+            lowGain: new _WebAudioParameterComponent(engine, this._lowNode.gain),
+            midGain: new _WebAudioParameterComponent(engine, this._midNode.gain),
+            highGain: new _WebAudioParameterComponent(engine, this._highNode.gain),
+            lowFrequency: new _WebAudioParameterComponent(engine, this._lowNode.frequency),
+            midFrequency: new _WebAudioParameterComponent(engine, this._midNode.frequency),
+            highFrequency: new _WebAudioParameterComponent(engine, this._highNode.frequency),
+            midQualityFactor: new _WebAudioParameterComponent(engine, this._midNode.Q),
+        };
+    }
+
+    /** @internal */
+    public override dispose(): void {
+        super.dispose();
+
+        for (const parameter of Object.values(this._parameters)) {
+            parameter.dispose();
+        }
+
+        this._lowNode.disconnect();
+        this._midNode.disconnect();
+    }
+
+    /** @internal */
+    public get highFrequency(): number {
+        return this._parameters.highFrequency.targetValue;
+    }
+
+    public set highFrequency(value: number) {
+        this._parameters.highFrequency.targetValue = value;
+    }
+
+    /** @internal */
+    public get highGain(): number {
+        return this._parameters.highGain.targetValue;
+    }
+
+    public set highGain(value: number) {
+        this._parameters.highGain.targetValue = value;
+    }
+
+    /** @internal */
+    public get lowFrequency(): number {
+        return this._parameters.lowFrequency.targetValue;
+    }
+
+    public set lowFrequency(value: number) {
+        this._parameters.lowFrequency.targetValue = value;
+    }
+
+    /** @internal */
+    public get lowGain(): number {
+        return this._parameters.lowGain.targetValue;
+    }
+
+    public set lowGain(value: number) {
+        this._parameters.lowGain.targetValue = value;
+    }
+
+    /** @internal */
+    public get midFrequency(): number {
+        return this._parameters.midFrequency.targetValue;
+    }
+
+    public set midFrequency(value: number) {
+        this._parameters.midFrequency.targetValue = value;
+    }
+
+    /** @internal */
+    public get midGain(): number {
+        return this._parameters.midGain.targetValue;
+    }
+
+    public set midGain(value: number) {
+        this._parameters.midGain.targetValue = value;
+    }
+
+    /** @internal */
+    public get midQualityFactor(): number {
+        return this._parameters.midQualityFactor.targetValue;
+    }
+
+    public set midQualityFactor(value: number) {
+        this._parameters.midQualityFactor.targetValue = value;
+    }
+
+    /** @internal */
+    public get _inNode(): AudioNode {
+        return this._lowNode;
+    }
+
+    /** @internal */
+    public get _outNode(): AudioNode {
+        return this._highNode;
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioEqualizerParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._parameters[parameter].setTargetValue(value, options);
+    }
+
+    /** @internal */
+    public getClassName(): string {
+        return "_WebAudioEqualizerSubNode";
+    }
+
+    protected override _connect(node: IWebAudioInNode): boolean {
+        const connected = super._connect(node);
+
+        if (!connected) {
+            return false;
+        }
+
+        // If the wrapped node is not available now, it will be connected later by the subgraph.
+        if (node._inNode) {
+            this._outNode.connect(node._inNode);
+        }
+
+        return true;
+    }
+
+    protected override _disconnect(node: IWebAudioInNode): boolean {
+        const disconnected = super._disconnect(node);
+
+        if (!disconnected) {
+            return false;
+        }
+
+        if (node._inNode) {
+            this._outNode.disconnect(node._inNode);
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,131 @@
+import type { Nullable } from "../../../types";
+import { _AudioFilterSubNode } from "../../abstractAudio/subNodes/audioFilterSubNode";
+import type { AudioFilterParameter, AudioFilterType } from "../../abstractAudio/subProperties/abstractAudioFilter";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { _WebAudioParameterComponent } from "../components/webAudioParameterComponent";
+import type { _WebAudioEngine } from "../webAudioEngine";
+import type { IWebAudioInNode, IWebAudioSubNode } from "../webAudioNode";
+
+/** @internal */
+// eslint-disable-next-line @typescript-eslint/require-await
+export async function _CreateAudioFilterSubNodeAsync(engine: _WebAudioEngine): Promise<_AudioFilterSubNode> {
+    return new _WebAudioFilterSubNode(engine);
+}
+
+/** @internal */
+export class _WebAudioFilterSubNode extends _AudioFilterSubNode implements IWebAudioSubNode {
+    private _parameters: { [key in AudioFilterParameter]: _WebAudioParameterComponent };
+
+    /** @internal */
+    public override readonly engine: _WebAudioEngine;
+
+    /** @internal */
+    public readonly node: BiquadFilterNode;
+
+    /** @internal */
+    public constructor(engine: _WebAudioEngine) {
+        super(engine);
+
+        this.node = new BiquadFilterNode(engine._audioContext);
+
+        this._parameters = {
+            frequency: new _WebAudioParameterComponent(engine, this.node.frequency),
+            gain: new _WebAudioParameterComponent(engine, this.node.gain),
+            qualityFactor: new _WebAudioParameterComponent(engine, this.node.Q),
+        };
+    }
+
+    /** @internal */
+    public override dispose(): void {
+        super.dispose();
+
+        for (const parameter of Object.values(this._parameters)) {
+            parameter.dispose();
+        }
+    }
+
+    /** @internal */
+    public get frequency(): number {
+        return this._parameters.frequency.targetValue;
+    }
+
+    public set frequency(value: number) {
+        this._parameters.frequency.targetValue = value;
+    }
+
+    /** @internal */
+    public get gain(): number {
+        return this._parameters.gain.targetValue;
+    }
+
+    public set gain(value: number) {
+        this._parameters.gain.targetValue = value;
+    }
+
+    /** @internal */
+    public get qualityFactor(): number {
+        return this._parameters.qualityFactor.targetValue;
+    }
+
+    public set qualityFactor(value: number) {
+        this._parameters.qualityFactor.targetValue = value;
+    }
+
+    /** @internal */
+    public get type(): AudioFilterType {
+        return this.node.type;
+    }
+
+    public set type(value: AudioFilterType) {
+        this.node.type = value;
+    }
+
+    /** @internal */
+    public get _inNode(): AudioNode {
+        return this.node;
+    }
+
+    /** @internal */
+    public get _outNode(): AudioNode {
+        return this.node;
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioFilterParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._parameters[parameter].setTargetValue(value, options);
+    }
+
+    /** @internal */
+    public getClassName(): string {
+        return "_WebAudioFilterSubNode";
+    }
+
+    protected override _connect(node: IWebAudioInNode): boolean {
+        const connected = super._connect(node);
+
+        if (!connected) {
+            return false;
+        }
+
+        // If the wrapped node is not available now, it will be connected later by the subgraph.
+        if (node._inNode) {
+            this.node.connect(node._inNode);
+        }
+
+        return true;
+    }
+
+    protected override _disconnect(node: IWebAudioInNode): boolean {
+        const disconnected = super._disconnect(node);
+
+        if (!disconnected) {
+            return false;
+        }
+
+        if (node._inNode) {
+            this.node.disconnect(node._inNode);
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,171 @@
+import type { Nullable } from "../../../types";
+import type { StaticSoundBuffer } from "../../abstractAudio/staticSoundBuffer";
+import { _AudioReverbSubNode } from "../../abstractAudio/subNodes/audioReverbSubNode";
+import type { AudioReverbParameter } from "../../abstractAudio/subProperties/abstractAudioReverb";
+import { _AudioReverbDefaults } from "../../abstractAudio/subProperties/abstractAudioReverb";
+import type { IAudioParameterRampOptions } from "../../audioParameter";
+import { _WebAudioParameterComponent } from "../components/webAudioParameterComponent";
+import type { _WebAudioEngine } from "../webAudioEngine";
+import type { IWebAudioInNode } from "../webAudioNode";
+import type { _WebAudioStaticSoundBuffer } from "../webAudioStaticSound";
+
+/** @internal */
+// eslint-disable-next-line @typescript-eslint/require-await
+export async function _CreateAudioReverbSubNodeAsync(engine: _WebAudioEngine): Promise<_AudioReverbSubNode> {
+    return new _WebAudioReverbSubNode(engine);
+}
+
+/**
+ * The input node is connected to the output node through two paths:
+ * - a dry path made of the dry gain node.
+ * - a wet path made of the convolver node and the wet gain node.
+ * @internal
+ */
+export class _WebAudioReverbSubNode extends _AudioReverbSubNode {
+    private readonly _convolverNode: ConvolverNode;
+    private readonly _dryNode: GainNode;
+    private _impulseResponse: Nullable<StaticSoundBuffer> = null;
+    private readonly _inputNode: GainNode;
+    private readonly _outputNode: GainNode;
+    private readonly _wetNode: GainNode;
+    private _parameters: { [key in AudioReverbParameter]: _WebAudioParameterComponent };
+
+    /** @internal */
+    public override readonly engine: _WebAudioEngine;
+
+    /** @internal */
+    public constructor(engine: _WebAudioEngine) {
+        super(engine);
+
+        const audioContext = engine._audioContext;
+
+        this._inputNode = new GainNode(audioContext);
+        this._outputNode = new GainNode(audioContext);
+        this._convolverNode = new ConvolverNode(audioContext, { disableNormalization: !_AudioReverbDefaults.normalize });
+        this._dryNode = new GainNode(audioContext, { gain: _AudioReverbDefaults.dry });
+        this._wetNode = new GainNode(audioContext, { gain: _AudioReverbDefaults.wet });
+
+        this._inputNode.connect(this._dryNode);
+        this._dryNode.connect(this._outputNode);
+
+        this._inputNode.connect(this._convolverNode);
+        this._convolverNode.connect(this._wetNode);
+        this._wetNode.connect(this._outputNode);
+
+        this._parameters = {
+            dry: new _WebAudioParameterComponent(engine, this._dryNode.gain),
+            wet: new _WebAudioParameterComponent(engine, this._wetNode.gain),
+        };
+    }
+
+    /** @internal */
+    public override dispose(): void {
+        super.dispose();
+
+        for (const parameter of Object.values(this._parameters)) {
+            parameter.dispose();
+        }
+
+        this._inputNode.disconnect();
+        this._dryNode.disconnect();
+        this._convolverNode.disconnect();
+        this._wetNode.disconnect();
+
+        this._impulseResponse = null;
+    }
+
+    /** @internal */
+    public get dry(): number {
+        return this._parameters.dry.targetValue;
+    }
+
+    public set dry(value: number) {
+        this._parameters.dry.targetValue = value;
+    }
+
+    /** @internal */
+    public get impulseResponse(): Nullable<StaticSoundBuffer> {
+        return this._impulseResponse;
+    }
+
+    /** @internal */
+    public get normalize(): boolean {
+        return this._convolverNode.normalize;
+    }
+
+    public set normalize(value: boolean) {
+        if (this._convolverNode.normalize === value) {
+            return;
+        }
+
+        this._convolverNode.normalize = value;
+
+        // The normalization is only applied when the buffer is set, so the buffer needs to be set again.
+        if (this._impulseResponse) {
+            this._convolverNode.buffer = (this._impulseResponse as _WebAudioStaticSoundBuffer)._audioBuffer;
+        }
+    }
+
+    /** @internal */
+    public get wet(): number {
+        return this._parameters.wet.targetValue;
+    }
+
+    public set wet(value: number) {
+        this._parameters.wet.targetValue = value;
+    }
+
+    /** @internal */
+    public get _inNode(): AudioNode {
+        return this._inputNode;
+    }
+
+    /** @internal */
+    public get _outNode(): AudioNode {
+        return this._outputNode;
+    }
+
+    /** @internal */
+    public setParameter(parameter: AudioReverbParameter, value: number, options: Nullable<Partial<IAudioParameterRampOptions>> = null): void {
+        this._parameters[parameter].setTargetValue(value, options);
+    }
+
+    /** @internal */
+    public getClassName(): string {
+        return "_WebAudioReverbSubNode";
+    }
+
+    protected override _setImpulseResponse(buffer: StaticSoundBuffer): void {
+        this._impulseResponse = buffer;
+        this._convolverNode.buffer = (buffer as _WebAudioStaticSoundBuffer)._audioBuffer;
+    }
+
+    protected override _connect(node: IWebAudioInNode): boolean {
+        const connected = super._connect(node);
+
+        if (!connected) {
+            return false;
+        }
+
+        // If the wrapped node is not available now, it will be connected later by the subgraph.
+        if (node._inNode) {
+            this._outputNode.connect(node._inNode);
+        }
+
+        return true;
+    }
+
+    protected override _disconnect(node: IWebAudioInNode): boolean {
+        const disconnected = super._disconnect(node);
+
+        if (!disconnected) {
+            return false;
+        }
+
+        if (node._inNode) {
+            this._outputNode.disconnect(node._inNode);
+        }
+
+        return true;
+    }
+}
@@ -0,0 +1,250 @@
+import type { Nullable } from "../../types";
+import type { AudioEngineV2, IAudioEngineV2Options } from "../abstractAudio/audioEngineV2";
+import { _EncodeWav } from "../audioUtils";
+import { CreateAudioEngineAsync } from "./webAudioEngine";
+
+/**
+ * Options for creating an offline audio renderer.
+ */
+export interface IOfflineAudioRendererOptions extends IAudioEngineV2Options {
+    /**
+     * The number of channels of the rendered audio. Defaults to `2`.
+     */
+    channelCount: number;
+    /**
+     * The duration of the rendered audio, in seconds. Defaults to `10`.
+     */
+    duration: number;
+    /**
+     * The sample rate of the rendered audio, in hertz. Defaults to `48000`.
+     */
+    sampleRate: number;
+}
+
+/**
+ * Creates a new offline audio renderer.
+ * @param options - The options for creating the offline audio renderer.
+ * @returns A promise that resolves with the created offline audio renderer.
+ */
+export async function CreateOfflineAudioRendererAsync(options: Partial<IOfflineAudioRendererOptions> = {}): Promise<OfflineAudioRenderer> {
+    const renderer = new OfflineAudioRenderer(options);
+    await renderer._initAsync(options);
+    return renderer;
+}
+
+/**
+ * Renders the audio of a v2 audio engine into an audio buffer, faster than real time.
+ *
+ * The audio engine of the renderer is backed by a WebAudio `OfflineAudioContext`, so the sounds, buses and spatial
+ * audio features created with it are mixed deterministically, without any audio output device. This is typically
+ * used to generate the soundtrack of a video captured frame by frame, for example with the `VideoRecorder`.
+ *
+ * The timeline of the rendering is described by scheduling callbacks at given times with the `schedule` function.
+ * The rendering is suspended at each of these times, so the callbacks can play and stop sounds, move them or change
+ * any of their properties before the rendering resumes.
+ *
+ * Offline audio renderers are created by the {@link CreateOfflineAudioRendererAsync} function.
+ */
+export class OfflineAudioRenderer {
+    private _audioContext: OfflineAudioContext;
+    private _engine: Nullable<AudioEngineV2> = null;
+    private _renderedBuffer: Nullable<AudioBuffer> = null;
+    private _renderPromise: Nullable<Promise<AudioBuffer>> = null;
+    private readonly _timeline = new Map<number, Array<() => void | Promise<void>>>();
+    private readonly _suspendedTimes = new Set<number>();
+    private readonly _suspendPromises: Promise<void>[] = [];
+
+    /**
+     * The number of channels of the rendered audio.
+     */
+    public readonly channelCount: number;
+
+    /**
+     * The duration of the rendered audio, in seconds.
+     */
+    public readonly duration: number;
+
+    /**
+     * The sample rate of the rendered audio, in hertz.
+     */
+    public readonly sampleRate: number;
+
+    /** @internal */
+    public constructor(options: Partial<IOfflineAudioRendererOptions>) {
+        this.channelCount = options.channelCount ?? 2;
+        this.duration = options.duration ?? 10;
+        this.sampleRate = options.sampleRate ?? 48000;
+
+        this._audioContext = new OfflineAudioContext({
+            length: Math.ceil(this.duration * this.sampleRate),
+            numberOfChannels: this.channelCount,
+            sampleRate: this.sampleRate,
+        });
+    }
+
+    /** @internal */
+    public async _initAsync(options: Partial<IOfflineAudioRendererOptions>): Promise<void> {
+        this._engine = await CreateAudioEngineAsync({
+            ...options,
+            audioContext: this._audioContext as unknown as AudioContext,
+            disableDefaultUI: true,
+            resumeOnInteraction: false,
+            resumeOnPause: false,
+        });
+    }
+
+    /**
+     * The audio engine used to create the sounds and buses to render.
+     */
+    public get engine(): AudioEngineV2 {
+        if (!this._engine) {
+            throw new Error("Offline audio renderer not initialized.");
+        }
+
+        return this._engine;
+    }
+
+    /**
+     * Whether the rendering has started.
+     */
+    public get isRendering(): boolean {
+        return this._renderPromise !== null;
+    }
+
+    /**
+     * The rendered audio, or `null` if the rendering is not done.
+     */
+    public get renderedBuffer(): Nullable<AudioBuffer> {
+        return this._renderedBuffer;
+    }
+
+    /**
+     * Schedules a callback at the given time of the rendering.
+     * - The time is rounded down to the start of a WebAudio render quantum, which is 128 sample frames long.
+     * - Callbacks scheduled at the same time are called in the order they were scheduled.
+     * - The rendering waits for the promise returned by asynchronous callbacks before resuming.
+     * - Callbacks can schedule other callbacks while the rendering is suspended, as long as their time is later than the current time.
+     * @param time The time of the rendering to call the callback at, in seconds.
+     * @param callback The callback to call.
+     */
+    public schedule(time: number, callback: () => void | Promise<void>): void {
+        if (time < 0 || time >= this.duration) {
+            throw new Error(`Scheduled time ${time} is outside of the rendering duration.`);
+        }
+
+        const quantum = 128 / this.sampleRate;
+        const quantizedTime = Math.floor(time / quantum) * quantum;
+
+        if (this._renderPromise && quantizedTime <= this._audioContext.currentTime) {
+            throw new Error(`Scheduled time ${time} has already been rendered.`);
+        }
+
+        let callbacks = this._timeline.get(quantizedTime);
+
+        if (!callbacks) {
+            callbacks = [];
+            this._timeline.set(quantizedTime, callbacks);
+
+            if (this._renderPromise) {
+                this._scheduleSuspend(quantizedTime, callbacks);
+            }
+        }
+
+        callbacks.push(callback);
+    }
+
+    /**
+     * Renders the audio.
+     * - The rendering can only be done once, and subsequent calls return the same audio buffer.
+     * @returns A promise that resolves with the rendered audio.
+     */
+    // eslint-disable-next-line @typescript-eslint/promise-function-async, no-restricted-syntax
+    public renderAsync(): Promise<AudioBuffer> {
+        if (this._renderPromise) {
+            return this._renderPromise;
+        }
+
+        this._renderPromise = this._renderAsync();
+
+        return this._renderPromise;
+    }
+
+    /**
+     * Renders the audio and encodes it in the WAV format.
+     * @param bitDepth The bit depth of the samples: 16 for signed integer samples, or 32 for floating point samples. Defaults to `16`.
+     * @returns A promise that resolves with the content of the WAV file.
+     */
+    public async renderWavAsync(bitDepth: 16 | 32 = 16): Promise<ArrayBuffer> {
+        return _EncodeWav(await this.renderAsync(), bitDepth);
+    }
+
+    /**
+     * Releases associated resources.
+     */
+    public dispose(): void {
+        this._engine?.dispose();
+        this._engine = null;
+
+        this._timeline.clear();
+    }
+
+    private async _renderAsync(): Promise<AudioBuffer> {
+        // Callbacks at time 0 are called before the rendering starts, since the context can't be suspended at time 0.
+        const startCallbacks = this._timeline.get(0);
+        if (startCallbacks) {
+            this._timeline.delete(0);
+            await this._callAsync(startCallbacks);
+        }
+
+        for (const [time, callbacks] of this._timeline) {
+            this._scheduleSuspend(time, callbacks);
+        }
+
+        const renderedBuffer = await this._audioContext.startRendering();
+
+        // Suspensions can be added while the previous ones are awaited, by the callbacks they call.
+        for (let i = 0; i < this._suspendPromises.length; i++) {
+            // eslint-disable-next-line no-await-in-loop
+            await this._suspendPromises[i];
+        }
+
+        this._renderedBuffer = renderedBuffer;
+
+        return this._renderedBuffer;
+    }
+
+    private async _callAsync(callbacks: Array<() => void | Promise<void>>): Promise<void> {
+        // Callbacks can be added to the array while the previous ones are called.
+        for (let i = 0; i < callbacks.length; i++) {
+            // eslint-disable-next-line no-await-in-loop
+            await callbacks[i]();
+        }
+    }
+
+    private _scheduleSuspend(time: number, callbacks: Array<() => void | Promise<void>>): void {
+        // The context can only be suspended once at a given time.
+        if (this._suspendedTimes.has(time)) {
+            return;
+        }
+
+        this._suspendedTimes.add(time);
+
+        const promise = this._suspendAsync(time, callbacks);
+
+        // The errors are reported by `renderAsync`, once the rendering is done.
+        // eslint-disable-next-line github/no-then
+        promise.catch(() => {});
+
+        this._suspendPromises.push(promise);
+    }
+
+    private async _suspendAsync(time: number, callbacks: Array<() => void | Promise<void>>): Promise<void> {
+        await this._audioContext.suspend(time);
+
+        try {
+            await this._callAsync(callbacks);
+        } finally {
+            await this._audioContext.resume();
+        }
+    }
+}
@@ -286,7 +286,9 @@ class _WebAudioStaticSoundInstance extends _StaticSoundInstance implements IWebA
     private _enginePauseTime: number = 0;
     private _isConnected: boolean = false;
     private _pitch: Nullable<_WebAudioParameterComponent> = null;
+    private _pitchValue: number;
     private _playbackRate: Nullable<_WebAudioParameterComponent> = null;
+    private _playbackRateValue: number;
     private _sourceNode: Nullable<AudioBufferSourceNode> = null;
     private _volumeNode: GainNode;
 
@@ -300,6 +302,8 @@ class _WebAudioStaticSoundInstance extends _StaticSoundInstance implements IWebA
         super(sound);
 
         this._options = options;
+        this._pitchValue = sound.pitch;
+        this._playbackRateValue = sound.playbackRate;
 
         this._volumeNode = new GainNode(sound._audioContext);
         this._initSourceNode();
@@ -359,11 +363,13 @@ class _WebAudioStaticSoundInstance extends _StaticSoundInstance implements IWebA
 
     /** @internal */
     public set pitch(value: number) {
+        this._pitchValue = value;
         this._pitch?.setTargetValue(value);
     }
 
     /** @internal */
     public set playbackRate(value: number) {
+        this._playbackRateValue = value;
         this._playbackRate?.setTargetValue(value);
     }
 
@@ -402,6 +408,12 @@ class _WebAudioStaticSoundInstance extends _StaticSoundInstance implements IWebA
         if (options.startOffset !== undefined) {
             this._options.startOffset = options.startOffset;
         }
+        if (options.pitch !== undefined) {
+            this._pitchValue = options.pitch;
+        }
+        if (options.playbackRate !== undefined) {
+            this._playbackRateValue = options.playbackRate;
+        }
 
         let startOffset = this._options.startOffset;
 
@@ -532,11 +544,11 @@ class _WebAudioStaticSoundInstance extends _StaticSoundInstance implements IWebA
         }
 
         const node = this._sourceNode;
-        node.detune.value = this._sound.pitch;
+        node.detune.value = this._pitchValue;
         node.loop = this._options.loop;
         node.loopEnd = this._options.loopEnd;
         node.loopStart = this._options.loopStart;
-        node.playbackRate.value = this._sound.playbackRate;
+        node.playbackRate.value = this._playbackRateValue;
     }
 
     private _onEngineStateChanged = () => {
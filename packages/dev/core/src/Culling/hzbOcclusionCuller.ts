@@ -0,0 +1,482 @@
+import type { AbstractEngine, AbstractMesh, InternalTexture, Mesh, Nullable, WebGPUEngine } from "core/index";
+import { Constants } from "core/Engines/constants";
+import { Matrix, TmpVectors, Vector3 } from "core/Maths/math.vector";
+import { ComputeShader } from "core/Compute/computeShader";
+import { UniformBuffer } from "core/Materials/uniformBuffer";
+import { StorageBuffer } from "core/Buffers/storageBuffer";
+import { IsDepthTexture } from "core/Materials/Textures/textureHelper.functions";
+import { Logger } from "core/Misc/logger";
+
+import "core/ShadersWGSL/hzbOcclusionCulling.compute";
+
+const BoxFloatStride = 8;
+
+/**
+ * Information about the boxes tested for a mesh.
+ */
+interface IMeshBoxRange {
+    /** Index of the first box of the mesh */
+    start: number;
+    /** Number of boxes of the mesh (1, or the number of thin instances) */
+    count: number;
+    /** True if each box corresponds to a thin instance of the mesh */
+    thinInstances: boolean;
+}
+
+/**
+ * Depth pyramid built by an occlusion culler, which can be reused by other compute shaders (see hzbOcclusionFunctions.fx).
+ * @internal
+ */
+export interface IHZBPyramid {
+    /** Storage buffer containing all the levels of the pyramid */
+    buffer: StorageBuffer;
+    /** View projection matrix of the camera used to generate the depth texture */
+    viewProjection: Matrix;
+    /** Width of the depth texture */
+    depthWidth: number;
+    /** Height of the depth texture */
+    depthHeight: number;
+    /** Width of the first level of the pyramid */
+    width: number;
+    /** Height of the first level of the pyramid */
+    height: number;
+    /** Number of levels of the pyramid */
+    numLevels: number;
+}
+
+/**
+ * Class used to perform occlusion culling on the GPU, by testing the bounding boxes of meshes (and of their thin instances) against a hierarchical depth buffer (HZB).
+ * The depth pyramid is built from a depth texture, and the visibility results are read back asynchronously: they are generally used to cull the objects of the next frame(s).
+ * Occlusion culling is only supported by WebGPU. On other engines, all the meshes are reported as visible.
+ */
+export class HZBOcclusionCuller {
+    private readonly _engine: AbstractEngine;
+    private readonly _params?: UniformBuffer;
+    private readonly _levelParams: UniformBuffer[] = [];
+    private _csBuildFirstLevel?: ComputeShader;
+    private _csBuildLevel?: ComputeShader;
+    private _csTestBoxes?: ComputeShader;
+    private _firstLevelDefines = "";
+    private _pyramidBuffer?: StorageBuffer;
+    private _pyramidWidth = 0;
+    private _pyramidHeight = 0;
+    private _depthWidth = 0;
+    private _depthHeight = 0;
+    private _numLevels = 0;
+    private _pyramidViewProjection = new Matrix();
+    private _pyramidBuilt = false;
+    private _boxBuffer?: StorageBuffer;
+    private _visibilityBuffer?: StorageBuffer;
+    private _boxCapacity = 0;
+    private _boxData = new Float32Array(0);
+    private _pendingRanges: Map<AbstractMesh, IMeshBoxRange> = new Map();
+    private _readbackInProgress = false;
+    private _ranges: Map<AbstractMesh, IMeshBoxRange> = new Map();
+    private _visibility = new Uint32Array(0);
+    private _disposed = false;
+
+    /**
+     * The name of the occlusion culler.
+     */
+    public name: string;
+
+    /**
+     * If true, the bounding boxes of the thin instances of a mesh are tested individually (default: true).
+     * If false, the bounding box of the mesh (which encloses all its thin instances) is tested.
+     */
+    public testThinInstances = true;
+
+    /**
+     * Gets a boolean indicating if occlusion culling is supported by the engine (WebGPU only).
+     */
+    public get isSupported() {
+        return !!this._params;
+    }
+
+    /**
+     * Creates a new HZB occlusion culler.
+     * @param name The name of the occlusion culler.
+     * @param engine The engine used to run the compute shaders.
+     */
+    constructor(name: string, engine: AbstractEngine) {
+        this.name = name;
+        this._engine = engine;
+
+        if (!engine.getCaps().supportComputeShaders) {
+            return;
+        }
+
+        this._params = new UniformBuffer(engine, undefined, undefined, `${name} - params`);
+        this._params.addUniform("viewProjection", 16);
+        this._params.addUniform("depthSize", 2);
+        this._params.addUniform("pyramidSize", 2);
+        this._params.addUniform("numLevels", 1);
+        this._params.addUniform("numBoxes", 1);
+
+        this._csBuildLevel = new ComputeShader(`${name} - build level`, engine, "hzbOcclusionCulling", {
+            bindingsMapping: {
+                params: { group: 0, binding: 1 },
+                levelParams: { group: 0, binding: 2 },
+                pyramid: { group: 0, binding: 3 },
+            },
+            defines: this._getDefines(),
+            entryPoint: "buildLevel",
+        });
+
+        this._csTestBoxes = new ComputeShader(`${name} - test boxes`, engine, "hzbOcclusionCulling", {
+            bindingsMapping: {
+                params: { group: 0, binding: 1 },
+                pyramid: { group: 0, binding: 3 },
+                boxes: { group: 0, binding: 4 },
+                visibility: { group: 0, binding: 5 },
+            },
+            defines: this._getDefines(),
+            entryPoint: "testBoxes",
+        });
+
+        this._csBuildLevel.setUniformBuffer("params", this._params);
+        this._csTestBoxes.setUniformBuffer("params", this._params);
+    }
+
+    /**
+     * Checks if the occlusion culler is ready to be used.
+     * @returns True if the compute shaders are ready.
+     */
+    public isReady() {
+        if (!this.isSupported) {
+            return true;
+        }
+
+        return this._csBuildLevel!.isReady() && this._csTestBoxes!.isReady() && (!this._csBuildFirstLevel || this._csBuildFirstLevel.isReady());
+    }
+
+    /**
+     * Builds the depth pyramid from a depth texture and tests the bounding boxes of the meshes against it.
+     * The results are read back asynchronously, and are available through isMeshOccluded and getThinInstanceVisibility once the GPU has processed the commands.
+     * @param depthTexture The depth texture to build the pyramid from. It can either be a depth attachment or a color texture storing the depth in the red channel,
+     * in normalized device coordinates (as generated by the rendering of the scene with the camera). The texture must not be multi-sampled.
+     * @param viewProjection The view projection matrix of the camera used to generate the depth texture.
+     * @param meshes The meshes to test.
+     */
+    public update(depthTexture: InternalTexture, viewProjection: Matrix, meshes: AbstractMesh[]) {
+        if (!this.isSupported || this._disposed) {
+            return;
+        }
+
+        const csBuildFirstLevel = this._getBuildFirstLevelComputeShader(depthTexture);
+
+        if (!this.isReady()) {
+            return;
+        }
+
+        this._preparePyramid(depthTexture.width, depthTexture.height);
+
+        const numBoxes = this._fillBoxes(meshes);
+
+        this._params!.updateMatrix("viewProjection", viewProjection);
+        this._params!.updateFloat2("depthSize", this._depthWidth, this._depthHeight);
+        this._params!.updateFloat2("pyramidSize", this._pyramidWidth, this._pyramidHeight);
+        this._params!.updateFloat("numLevels", this._numLevels);
+        this._params!.updateFloat("numBoxes", numBoxes);
+        this._params!.update();
+
+        this._engine._debugPushGroup?.(`HZB occlusion culling (${this.name})`, 1);
+
+        csBuildFirstLevel.setInternalTexture("depthTexture", depthTexture);
+        csBuildFirstLevel.dispatch(Math.ceil(this._pyramidWidth / 8), Math.ceil(this._pyramidHeight / 8), 1);
+
+        let width = this._pyramidWidth;
+        let height = this._pyramidHeight;
+        for (let level = 1; level < this._numLevels; ++level) {
+            width = Math.max(Math.ceil(width / 2), 1);
+            height = Math.max(Math.ceil(height / 2), 1);
+
+            this._csBuildLevel!.setUniformBuffer("levelParams", this._levelParams[level]);
+            this._csBuildLevel!.dispatch(Math.ceil(width / 8), Math.ceil(height / 8), 1);
+        }
+
+        this._pyramidViewProjection.copyFrom(viewProjection);
+        this._pyramidBuilt = true;
+
+        if (numBoxes > 0) {
+            this._boxBuffer!.update(this._boxData, 0, numBoxes * BoxFloatStride * 4);
+            this._csTestBoxes!.dispatch(Math.ceil(numBoxes / 64), 1, 1);
+            this._readVisibility(numBoxes);
+        }
+
+        this._engine._debugPopGroup?.(1);
+    }
+
+    /**
+     * Checks if a mesh was found occluded by the last update whose results have been read back.
+     * Meshes that have not been tested are not considered occluded.
+     * @param mesh The mesh to check.
+     * @returns True if the mesh (and all its thin instances) is occluded, else false.
+     */
+    public isMeshOccluded(mesh: AbstractMesh): boolean {
+        const range = this._ranges.get(mesh);
+        if (!range) {
+            return false;
+        }
+
+        for (let i = 0; i < range.count; ++i) {
+            if (this._visibility[range.start + i] !== 0) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Gets the visibility of the thin instances of a mesh, as computed by the last update whose results have been read back.
+     * @param mesh The mesh to get the visibility of the thin instances from.
+     * @returns An array with one entry per thin instance (0 if the thin instance is occluded, 1 if it is visible), or null if the thin instances of the mesh have not been tested.
+     */
+    public getThinInstanceVisibility(mesh: AbstractMesh): Nullable<Uint32Array> {
+        const range = this._ranges.get(mesh);
+        if (!range || !range.thinInstances) {
+            return null;
+        }
+
+        return this._visibility.subarray(range.start, range.start + range.count);
+    }
+
+    /**
+     * Gets the depth pyramid built by the last update.
+     * @returns The depth pyramid, or null if no pyramid has been built yet
+     * @internal
+     */
+    public _getPyramid(): Nullable<IHZBPyramid> {
+        if (!this._pyramidBuilt) {
+            return null;
+        }
+
+        return {
+            buffer: this._pyramidBuffer!,
+            viewProjection: this._pyramidViewProjection,
+            depthWidth: this._depthWidth,
+            depthHeight: this._depthHeight,
+            width: this._pyramidWidth,
+            height: this._pyramidHeight,
+            numLevels: this._numLevels,
+        };
+    }
+
+    /**
+     * Resets the visibility results: all the meshes are considered visible until the results of the next update are available.
+     */
+    public reset() {
+        this._pyramidBuilt = false;
+        this._ranges = new Map();
+        this._visibility = new Uint32Array(0);
+    }
+
+    /**
+     * Disposes the occlusion culler and its GPU resources.
+     */
+    public dispose() {
+        this._disposed = true;
+        this._params?.dispose();
+        for (const ubo of this._levelParams) {
+            ubo.dispose();
+        }
+        this._levelParams.length = 0;
+        this._pyramidBuffer?.dispose();
+        this._boxBuffer?.dispose();
+        this._visibilityBuffer?.dispose();
+        this.reset();
+        this._pendingRanges.clear();
+    }
+
+    private _getDefines(isDepthTexture = false) {
+        const defines: string[] = [];
+        if (isDepthTexture) {
+            defines.push("#define DEPTH_TEXTURE");
+        }
+        if (this._engine.useReverseDepthBuffer) {
+            defines.push("#define REVERSE_DEPTH");
+        }
+        return defines;
+    }
+
+    private _getBuildFirstLevelComputeShader(depthTexture: InternalTexture): ComputeShader {
+        const defines = this._getDefines(IsDepthTexture(depthTexture.format));
+        const join = defines.join("\n");
+
+        if (!this._csBuildFirstLevel || this._firstLevelDefines !== join) {
+            this._firstLevelDefines = join;
+            this._csBuildFirstLevel = new ComputeShader(`${this.name} - build first level`, this._engine, "hzbOcclusionCulling", {
+                bindingsMapping: {
+                    depthTexture: { group: 0, binding: 0 },
+                    params: { group: 0, binding: 1 },
+                    pyramid: { group: 0, binding: 3 },
+                },
+                defines,
+                entryPoint: "buildFirstLevel",
+            });
+            this._csBuildFirstLevel.setUniformBuffer("params", this._params!);
+            if (this._pyramidBuffer) {
+                this._csBuildFirstLevel.setStorageBuffer("pyramid", this._pyramidBuffer);
+            }
+        }
+
+        return this._csBuildFirstLevel;
+    }
+
+    private _preparePyramid(depthWidth: number, depthHeight: number) {
+        if (this._pyramidBuffer && depthWidth === this._depthWidth && depthHeight === this._depthHeight) {
+            return;
+        }
+
+        this._depthWidth = depthWidth;
+        this._depthHeight = depthHeight;
+        this._pyramidWidth = Math.max(Math.ceil(depthWidth / 2), 1);
+        this._pyramidHeight = Math.max(Math.ceil(depthHeight / 2), 1);
+        this._numLevels = Math.ceil(Math.log2(Math.max(this._pyramidWidth, this._pyramidHeight))) + 1;
+
+        let numTexels = 0;
+        let width = this._pyramidWidth;
+        let height = this._pyramidHeight;
+        for (let level = 0; level < this._numLevels; ++level) {
+            numTexels += width * height;
+            width = Math.max(Math.ceil(width / 2), 1);
+            height = Math.max(Math.ceil(height / 2), 1);
+        }
+
+        this._pyramidBuffer?.dispose();
+        this._pyramidBuffer = new StorageBuffer(this._engine as WebGPUEngine, numTexels * 4, Constants.BUFFER_CREATIONFLAG_READWRITE, `${this.name} - depth pyramid`);
+
+        for (let level = this._levelParams.length; level < this._numLevels; ++level) {
+            const ubo = new UniformBuffer(this._engine, undefined, undefined, `${this.name} - level ${level}`);
+            ubo.addUniform("level", 1);
+            ubo.updateFloat("level", level);
+            ubo.update();
+            this._levelParams.push(ubo);
+        }
+
+        this._csBuildFirstLevel!.setStorageBuffer("pyramid", this._pyramidBuffer);
+        this._csBuildLevel!.setStorageBuffer("pyramid", this._pyramidBuffer);
+        this._csTestBoxes!.setStorageBuffer("pyramid", this._pyramidBuffer);
+    }
+
+    private _fillBoxes(meshes: AbstractMesh[]): number {
+        this._pendingRanges = new Map();
+
+        let numBoxes = 0;
+        for (const mesh of meshes) {
+            const thinInstances = this.testThinInstances && mesh.hasThinInstances && !!(mesh as Mesh)._thinInstanceDataStorage.matrixData;
+            const count = thinInstances ? (mesh as Mesh)._thinInstanceDataStorage.instancesCount : 1;
+
+            this._pendingRanges.set(mesh, { start: numBoxes, count, thinInstances });
+            numBoxes += count;
+        }
+
+        this._ensureBoxCapacity(numBoxes);
+
+        this._pendingRanges.forEach((range, mesh) => {
+            if (!range.thinInstances) {
+                const boundingBox = mesh.getBoundingInfo().boundingBox;
+                this._setBox(range.start, boundingBox.minimumWorld, boundingBox.maximumWorld);
+                return;
+            }
+
+            const boundingBox = mesh.getRawBoundingInfo().boundingBox;
+            const matrixData = (mesh as Mesh)._thinInstanceDataStorage.matrixData!;
+            const worldMatrix = mesh.getWorldMatrix();
+            const instanceMatrix = TmpVectors.Matrix[0];
+            const finalMatrix = TmpVectors.Matrix[1];
+
+            for (let i = 0; i < range.count; ++i) {
+                Matrix.FromArrayToRef(matrixData, i * 16, instanceMatrix);
+                instanceMatrix.multiplyToRef(worldMatrix, finalMatrix);
+                this._setTransformedBox(range.start + i, boundingBox.minimum, boundingBox.maximum, finalMatrix);
+            }
+        });
+
+        return numBoxes;
+    }
+
+    private _ensureBoxCapacity(numBoxes: number) {
+        if (numBoxes <= this._boxCapacity) {
+            return;
+        }
+
+        // Grow by 50% to avoid reallocating the buffers each time a mesh is added
+        this._boxCapacity = Math.max(Math.ceil(numBoxes * 1.5), 64);
+        this._boxData = new Float32Array(this._boxCapacity * BoxFloatStride);
+
+        this._boxBuffer?.dispose();
+        this._boxBuffer = new StorageBuffer(this._engine as WebGPUEngine, this._boxCapacity * BoxFloatStride * 4, Constants.BUFFER_CREATIONFLAG_READWRITE, `${this.name} - boxes`);
+
+        // Don't dispose the visibility buffer right away, a read back may still be in progress
+        const previousVisibilityBuffer = this._visibilityBuffer;
+        if (previousVisibilityBuffer) {
+            this._engine.onEndFrameObservable.addOnce(() => previousVisibilityBuffer.dispose());
+        }
+        this._visibilityBuffer = new StorageBuffer(this._engine as WebGPUEngine, this._boxCapacity * 4, Constants.BUFFER_CREATIONFLAG_READWRITE, `${this.name} - visibility`);
+
+        this._csTestBoxes!.setStorageBuffer("boxes", this._boxBuffer);
+        this._csTestBoxes!.setStorageBuffer("visibility", this._visibilityBuffer);
+    }
+
+    private _setBox(index: number, minimum: Vector3, maximum: Vector3) {
+        const offset = index * BoxFloatStride;
+
+        minimum.toArray(this._boxData, offset);
+        maximum.toArray(this._boxData, offset + 4);
+    }
+
+    private _setTransformedBox(index: number, minimum: Vector3, maximum: Vector3, matrix: Matrix) {
+        // Transforms the center and the extents of the box (the resulting box encloses the transformed box)
+        const m = matrix.m;
+        const center = TmpVectors.Vector3[0].copyFrom(minimum).addInPlace(maximum).scaleInPlace(0.5);
+        const extents = TmpVectors.Vector3[1].copyFrom(maximum).subtractInPlace(minimum).scaleInPlace(0.5);
+
+        Vector3.TransformCoordinatesToRef(center, matrix, center);
+
+        const ex = Math.abs(m[0]) * extents.x + Math.abs(m[4]) * extents.y + Math.abs(m[8]) * extents.z;
+        const ey = Math.abs(m[1]) * extents.x + Math.abs(m[5]) * extents.y + Math.abs(m[9]) * extents.z;
+        const ez = Math.abs(m[2]) * extents.x + Math.abs(m[6]) * extents.y + Math.abs(m[10]) * extents.z;
+
+        const offset = index * BoxFloatStride;
+
+        this._boxData[offset + 0] = center.x - ex;
+        this._boxData[offset + 1] = center.y - ey;
+        this._boxData[offset + 2] = center.z - ez;
+        this._boxData[offset + 4] = center.x + ex;
+        this._boxData[offset + 5] = center.y + ey;
+        this._boxData[offset + 6] = center.z + ez;
+    }
+
+    private _readVisibility(numBoxes: number) {
+        // Only one read back at a time: the boxes tested while a read back is in progress are not read
+        if (this._readbackInProgress) {
+            return;
+        }
+
+        this._readbackInProgress = true;
+
+        const ranges = this._pendingRanges;
+
+        this._visibilityBuffer!.read(0, numBoxes * 4)
+            // eslint-disable-next-line github/no-then
+            .then((data) => {
+                if (this._disposed) {
+                    return;
+                }
+
+                this._ranges = ranges;
+                this._visibility = new Uint32Array(data.buffer, data.byteOffset, numBoxes);
+            })
+            // eslint-disable-next-line github/no-then
+            .catch((error) => {
+                // The previous visibility results are kept, and the next frame starts a new read back
+                Logger.Warn(`HZBOcclusionCuller: failed to read back the visibility buffer: ${error}`);
+            })
+            // eslint-disable-next-line github/no-then
+            .finally(() => {
+                this._readbackInProgress = false;
+            });
+    }
+}
@@ -5,5 +5,7 @@ export * from "./Helper/boundingInfoHelper";
 export * from "./Helper/transformFeedbackBoundingHelper";
 export * from "./Helper/computeShaderBoundingHelper";
 export * from "./boundingSphere";
+export * from "./hzbOcclusionCuller";
+export * from "./thinInstanceGPUCuller";
 export * from "./Octrees/index";
 export * from "./ray";
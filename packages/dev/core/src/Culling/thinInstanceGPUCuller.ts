@@ -0,0 +1,334 @@
+import type { Camera, Mesh, Nullable, Observer, Plane, Scene, VertexBuffer, WebGPUDrawContext, WebGPUEngine } from "core/index";
+import type { HZBOcclusionCuller } from "./hzbOcclusionCuller";
+import { Constants } from "core/Engines/constants";
+import { Buffer } from "core/Buffers/buffer";
+import { StorageBuffer } from "core/Buffers/storageBuffer";
+import { ComputeShader } from "core/Compute/computeShader";
+import { UniformBuffer } from "core/Materials/uniformBuffer";
+import { Frustum } from "core/Maths/math.frustum";
+
+import "core/ShadersWGSL/thinInstanceCulling.compute";
+
+const MatrixKinds = ["world0", "world1", "world2", "world3"];
+
+/**
+ * Indirect draw settings of a draw context before it was used by the culler.
+ */
+interface IDrawContextState {
+    enableIndirectDraw: boolean;
+    enableIndirectDrawInCompatMode: boolean;
+}
+
+/**
+ * Class used to cull the thin instances of a mesh on the GPU and to render the visible ones with indirect draws (WebGPU only).
+ * Before each rendering of the scene, a compute shader tests the bounding box of each thin instance against the frustum of the camera (and optionally against
+ * the depth pyramid of an HZB occlusion culler), and compacts the matrices of the visible instances into a buffer used as the instance buffer of the mesh.
+ * The number of visible instances is written by the GPU in the indirect draw buffers of the mesh, so that no CPU work nor read back is needed.
+ * Note that all the draws of the mesh (including the shadow map draws) use the instances visible from the camera, and that the previous world matrices
+ * (used by motion blur) don't follow the compaction.
+ */
+export class ThinInstanceGPUCuller {
+    private readonly _engine: WebGPUEngine;
+    private readonly _scene: Scene;
+    private readonly _params?: UniformBuffer;
+    private _cs?: ComputeShader;
+    private _csHZB?: ComputeShader;
+    private _sourceBuffer: Nullable<Buffer> = null;
+    private _visibleMatrices?: StorageBuffer;
+    private _vertexBuffers: VertexBuffer[] = [];
+    private _sourceVertexBuffers: Nullable<VertexBuffer>[] = [];
+    private _visibleCount?: StorageBuffer;
+    private _drawContexts: Map<WebGPUDrawContext, IDrawContextState> = new Map();
+    private _frustumPlanes: Plane[] = [];
+    private _frustumPlanesData = new Float32Array(24);
+    private _onBeforeRenderObserver: Nullable<Observer<Scene>> = null;
+    private _disposed = false;
+
+    /**
+     * The mesh whose thin instances are culled.
+     */
+    public readonly mesh: Mesh;
+
+    /**
+     * The camera used to cull the thin instances (if not provided, the active camera of the scene is used).
+     */
+    public camera: Nullable<Camera> = null;
+
+    /**
+     * The occlusion culler whose depth pyramid is used to cull the occluded thin instances (optional).
+     * The pyramid built by the last update of the occlusion culler is used, so it should generally be updated at the end of the previous frame.
+     */
+    public hzbOcclusionCuller: Nullable<HZBOcclusionCuller> = null;
+
+    /**
+     * Gets a boolean indicating if GPU culling of thin instances is supported by the engine (WebGPU only).
+     */
+    public get isSupported() {
+        return !!this._params;
+    }
+
+    /**
+     * Creates a new thin instance GPU culler.
+     * The culling is automatically performed before each rendering of the scene, until the culler is disposed.
+     * @param mesh The mesh whose thin instances should be culled.
+     * @param camera The camera used to cull the thin instances (if not provided, the active camera of the scene is used).
+     */
+    constructor(mesh: Mesh, camera: Nullable<Camera> = null) {
+        this.mesh = mesh;
+        this.camera = camera;
+        this._scene = mesh.getScene();
+        this._engine = this._scene.getEngine() as WebGPUEngine;
+
+        if (!this._engine.getCaps().supportComputeShaders) {
+            return;
+        }
+
+        this._params = new UniformBuffer(this._engine, undefined, undefined, `${mesh.name} - thin instance culling params`);
+        this._params.addUniform("world", 16);
+        this._params.addUniform("frustumPlanes", 4, 6);
+        this._params.addUniform("boxCenter", 3);
+        this._params.addUniform("numInstances", 1);
+        this._params.addUniform("boxExtents", 3);
+        this._params.addUniform("hzbViewProjection", 16);
+        this._params.addUniform("hzbDepthSize", 2);
+        this._params.addUniform("hzbPyramidSize", 2);
+        this._params.addUniform("hzbNumLevels", 1);
+
+        this._visibleCount = new StorageBuffer(this._engine, 4, Constants.BUFFER_CREATIONFLAG_READWRITE, `${mesh.name} - visible thin instance count`);
+
+        this._onBeforeRenderObserver = this._scene.onBeforeRenderObservable.add(() => this.update());
+    }
+
+    /**
+     * Checks if the culler is ready to be used.
+     * @returns True if the compute shader is ready.
+     */
+    public isReady() {
+        if (!this.isSupported) {
+            return true;
+        }
+
+        return this._getComputeShader(!!this.hzbOcclusionCuller?._getPyramid()).isReady();
+    }
+
+    /**
+     * Culls the thin instances of the mesh and updates the instance count of the indirect draws.
+     * This method is called automatically before each rendering of the scene, it should not be called while a render pass is in progress.
+     */
+    public update() {
+        if (!this.isSupported || this._disposed) {
+            return;
+        }
+
+        const storage = this.mesh._thinInstanceDataStorage;
+        const camera = this.camera ?? this._scene.activeCamera;
+
+        if (!storage.matrixBuffer || !camera || storage.instancesCount === 0) {
+            return;
+        }
+
+        const pyramid = this.hzbOcclusionCuller?._getPyramid() ?? null;
+        const cs = this._getComputeShader(!!pyramid);
+
+        if (!cs.isReady()) {
+            return;
+        }
+
+        this._prepareBuffers(storage.matrixBuffer, storage.matrixBufferSize / 16);
+
+        const boundingBox = this.mesh.getRawBoundingInfo().boundingBox;
+
+        if (this._frustumPlanes.length === 0) {
+            this._frustumPlanes = Frustum.GetPlanes(camera.getTransformationMatrix());
+        } else {
+            Frustum.GetPlanesToRef(camera.getTransformationMatrix(), this._frustumPlanes);
+        }
+
+        for (let i = 0; i < 6; ++i) {
+            this._frustumPlanes[i].normal.toArray(this._frustumPlanesData, i * 4);
+            this._frustumPlanesData[i * 4 + 3] = this._frustumPlanes[i].d;
+        }
+
+        this._params!.updateMatrix("world", this.mesh.getWorldMatrix());
+        this._params!.updateFloatArray("frustumPlanes", this._frustumPlanesData);
+        this._params!.updateVector3("boxCenter", boundingBox.center);
+        this._params!.updateFloat("numInstances", storage.instancesCount);
+        this._params!.updateVector3("boxExtents", boundingBox.extendSize);
+        if (pyramid) {
+            this._params!.updateMatrix("hzbViewProjection", pyramid.viewProjection);
+            this._params!.updateFloat2("hzbDepthSize", pyramid.depthWidth, pyramid.depthHeight);
+            this._params!.updateFloat2("hzbPyramidSize", pyramid.width, pyramid.height);
+            this._params!.updateFloat("hzbNumLevels", pyramid.numLevels);
+            cs.setStorageBuffer("pyramid", pyramid.buffer);
+        }
+        this._params!.update();
+
+        cs.setStorageBuffer("sourceMatrices", storage.matrixBuffer.getBuffer()!);
+
+        this._engine._debugPushGroup?.(`Thin instance culling (${this.mesh.name})`, 1);
+
+        cs.dispatch(Math.ceil(storage.instancesCount / 64), 1, 1);
+
+        // The instance count is the second value of the indirect draw arguments
+        this._updateDrawContexts();
+        this._drawContexts.forEach((_, drawContext) => {
+            this._engine.copyStorageBufferToBuffer(this._visibleCount!.getBuffer(), drawContext.indirectDrawBuffer!, 0, 4, 4);
+        });
+
+        this._visibleCount!.clear();
+
+        this._engine._debugPopGroup?.(1);
+    }
+
+    /**
+     * Disposes the culler and its GPU resources, and restores the rendering of all the thin instances of the mesh.
+     */
+    public dispose() {
+        this._disposed = true;
+
+        this._scene.onBeforeRenderObservable.remove(this._onBeforeRenderObserver);
+        this._onBeforeRenderObserver = null;
+
+        this._restoreSourceVertexBuffers();
+
+        this._drawContexts.forEach((state, drawContext) => this._restoreDrawContext(drawContext, state));
+        this._drawContexts.clear();
+
+        for (const vertexBuffer of this._vertexBuffers) {
+            vertexBuffer.dispose();
+        }
+        this._vertexBuffers.length = 0;
+
+        this._params?.dispose();
+        this._visibleMatrices?.dispose();
+        this._visibleCount?.dispose();
+        this._sourceBuffer = null;
+    }
+
+    private _getComputeShader(useHZB: boolean): ComputeShader {
+        if (useHZB && this._csHZB) {
+            return this._csHZB;
+        } else if (!useHZB && this._cs) {
+            return this._cs;
+        }
+
+        const defines: string[] = [];
+        if (useHZB) {
+            defines.push("#define HZB");
+            if (this._engine.useReverseDepthBuffer) {
+                defines.push("#define REVERSE_DEPTH");
+            }
+        }
+
+        const cs = new ComputeShader(`${this.mesh.name} - thin instance culling`, this._engine, "thinInstanceCulling", {
+            bindingsMapping: {
+                params: { group: 0, binding: 0 },
+                sourceMatrices: { group: 0, binding: 1 },
+                visibleMatrices: { group: 0, binding: 2 },
+                visibleCount: { group: 0, binding: 3 },
+                ...(useHZB ? { pyramid: { group: 0, binding: 4 } } : {}),
+            },
+            defines,
+        });
+
+        cs.setUniformBuffer("params", this._params!);
+        cs.setStorageBuffer("visibleCount", this._visibleCount!);
+        if (this._visibleMatrices) {
+            cs.setStorageBuffer("visibleMatrices", this._visibleMatrices);
+        }
+
+        if (useHZB) {
+            this._csHZB = cs;
+        } else {
+            this._cs = cs;
+        }
+
+        return cs;
+    }
+
+    private _prepareBuffers(sourceBuffer: Buffer, capacity: number) {
+        if (sourceBuffer === this._sourceBuffer && this.mesh.getVertexBuffer(MatrixKinds[0]) === this._vertexBuffers[0]) {
+            return;
+        }
+
+        // The matrix buffer has been recreated by the thin instance system (for eg, because instances have been added)
+        this._sourceBuffer = sourceBuffer;
+        this._sourceVertexBuffers = MatrixKinds.map((kind) => this.mesh.getVertexBuffer(kind));
+
+        for (const vertexBuffer of this._vertexBuffers) {
+            vertexBuffer.dispose();
+        }
+
+        this._visibleMatrices?.dispose();
+        this._visibleMatrices = new StorageBuffer(
+            this._engine,
+            Math.max(capacity, 1) * 16 * 4,
+            Constants.BUFFER_CREATIONFLAG_READWRITE | Constants.BUFFER_CREATIONFLAG_VERTEX,
+            `${this.mesh.name} - visible thin instance matrices`
+        );
+
+        const visibleMatricesBuffer = new Buffer(this._engine, this._visibleMatrices.getBuffer(), false, 16, false, true);
+        this._vertexBuffers = MatrixKinds.map((kind, index) => visibleMatricesBuffer.createVertexBuffer(kind, index * 4, 4));
+
+        for (const vertexBuffer of this._vertexBuffers) {
+            this.mesh.setVerticesBuffer(vertexBuffer, false);
+        }
+
+        this._cs?.setStorageBuffer("visibleMatrices", this._visibleMatrices);
+        this._csHZB?.setStorageBuffer("visibleMatrices", this._visibleMatrices);
+    }
+
+    private _restoreSourceVertexBuffers() {
+        if (this.mesh.getVertexBuffer(MatrixKinds[0]) !== this._vertexBuffers[0]) {
+            // The vertex buffers have already been replaced by the thin instance system
+            return;
+        }
+
+        for (const vertexBuffer of this._sourceVertexBuffers) {
+            if (vertexBuffer) {
+                this.mesh.setVerticesBuffer(vertexBuffer, false);
+            }
+        }
+    }
+
+    private _updateDrawContexts() {
+        const drawContexts: Map<WebGPUDrawContext, IDrawContextState> = new Map();
+
+        for (const subMesh of this.mesh.subMeshes ?? []) {
+            for (const drawWrapper of subMesh._drawWrappers) {
+                const drawContext = drawWrapper?.drawContext as WebGPUDrawContext | undefined;
+                if (!drawContext || drawContexts.has(drawContext)) {
+                    continue;
+                }
+
+                const state = this._drawContexts.get(drawContext) ?? {
+                    enableIndirectDraw: drawContext.enableIndirectDraw,
+                    enableIndirectDrawInCompatMode: drawContext._enableIndirectDrawInCompatMode,
+                };
+
+                // Indirect draws are also needed in compatibility mode, as the instance count is only known by the GPU
+                drawContext.enableIndirectDraw = true;
+
+                drawContexts.set(drawContext, state);
+            }
+        }
+
+        // Draw contexts no longer used by the mesh (for eg, because its sub-meshes have been recreated)
+        this._drawContexts.forEach((state, drawContext) => {
+            if (!drawContexts.has(drawContext)) {
+                this._restoreDrawContext(drawContext, state);
+            }
+        });
+
+        this._drawContexts = drawContexts;
+    }
+
+    private _restoreDrawContext(drawContext: WebGPUDrawContext, state: IDrawContextState) {
+        // The bundle recorded with the indirect draw buffer must not be reused, as the buffer is released if indirect draws were disabled
+        drawContext.reset();
+        drawContext.enableIndirectDraw = state.enableIndirectDraw;
+        drawContext._enableIndirectDrawInCompatMode = state.enableIndirectDrawInCompatMode;
+        // Overwrites the number of visible instances written by the GPU with the number of thin instances of the mesh
+        drawContext._invalidateIndirectData();
+    }
+}
@@ -170,6 +170,14 @@ export class WebGPUDrawContext implements IDrawContext {
         this._bufferManager.setRawData(this.indirectDrawBuffer, 0, this._indirectDrawData, 0, 20);
     }
 
+    /**
+     * @internal
+     * Forces the indirect draw data to be written to the indirect draw buffer at the next draw, for eg after the buffer has been written by the GPU
+     */
+    public _invalidateIndirectData(): void {
+        this._currentInstanceCount = -1;
+    }
+
     public setVertexPulling(
         useVertexPulling: boolean,
         webgpuPipelineContext: WebGPUPipelineContext,
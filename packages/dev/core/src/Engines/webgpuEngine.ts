@@ -3997,6 +3997,19 @@ export class WebGPUEngine extends ThinWebGPUEngine {
         this._renderEncoder.clearBuffer(storageBuffer.underlyingResource, byteOffset, byteLength);
     }
 
+    /**
+     * Copies data from a storage buffer to another buffer
+     * @param storageBuffer the storage buffer to copy from
+     * @param destination the buffer to copy to (it must have been created with the CopyDst usage)
+     * @param sourceOffset the byte offset in the storage buffer
+     * @param destinationOffset the byte offset in the destination buffer
+     * @param byteLength the byte length to copy
+     */
+    public copyStorageBufferToBuffer(storageBuffer: DataBuffer, destination: GPUBuffer, sourceOffset: number, destinationOffset: number, byteLength: number): void {
+        this._endCurrentRenderPass();
+        this._renderEncoder.copyBufferToBuffer(storageBuffer.underlyingResource, sourceOffset, destination, destinationOffset, byteLength);
+    }
+
     /**
      * Updates a storage buffer
      * @param buffer the storage buffer to update
@@ -0,0 +1,137 @@
+import type { IFlowGraphBlockConfiguration } from "core/FlowGraph/flowGraphBlock";
+import { FlowGraphBlock } from "core/FlowGraph/flowGraphBlock";
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
+import { RichTypeAny, RichTypeBoolean, RichTypeNumber, RichTypeVector3 } from "core/FlowGraph/flowGraphRichTypes";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+import { RegisterClass } from "core/Misc/typeStore";
+import type { Vector3 } from "core/Maths/math.vector";
+import { PhysicsRaycastResult } from "core/Physics/physicsRaycastResult";
+import type { PhysicsBody } from "core/Physics/v2/physicsBody";
+import type { PhysicsEngine } from "core/Physics/v2/physicsEngine";
+import type { Nullable } from "core/types";
+
+/**
+ * @internal
+ * Gets the physics engine V2 of the scene of a context.
+ * @param context the flow graph context
+ * @returns the physics engine, or null if the scene has no physics engine V2
+ */
+export function _GetPhysicsEngineV2(context: FlowGraphContext): Nullable<PhysicsEngine> {
+    const physicsEngine = context.configuration.scene.getPhysicsEngine?.();
+    if (!physicsEngine || physicsEngine.getPluginVersion() !== 2) {
+        return null;
+    }
+    return physicsEngine as PhysicsEngine;
+}
+
+/**
+ * A block that casts a ray in the physics world and delivers the closest hit.
+ * The ray is cast once per execution of the graph. A physics engine V2 is required, otherwise hasHit is false.
+ */
+export class FlowGraphPhysicsRaycastBlock extends FlowGraphBlock {
+    /**
+     * Input connection: The world position where the ray starts.
+     */
+    public readonly from: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Input connection: The world position where the ray ends.
+     */
+    public readonly to: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Input connection: The membership mask of the ray. Defaults to all groups.
+     */
+    public readonly membership: FlowGraphDataConnection<number>;
+
+    /**
+     * Input connection: The mask of the groups the ray collides with. Defaults to all groups.
+     */
+    public readonly collideWith: FlowGraphDataConnection<number>;
+
+    /**
+     * Input connection: Should the ray hit triggers?
+     */
+    public readonly shouldHitTriggers: FlowGraphDataConnection<boolean>;
+
+    /**
+     * Input connection: A body that the ray ignores, for example the body casting the ray.
+     */
+    public readonly ignoreBody: FlowGraphDataConnection<Nullable<PhysicsBody>>;
+
+    /**
+     * Output connection: Whether the ray hit a body.
+     */
+    public readonly hasHit: FlowGraphDataConnection<boolean>;
+
+    /**
+     * Output connection: The body that was hit.
+     */
+    public readonly body: FlowGraphDataConnection<Nullable<PhysicsBody>>;
+
+    /**
+     * Output connection: The world position of the hit.
+     */
+    public readonly hitPoint: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Output connection: The world normal of the hit.
+     */
+    public readonly hitNormal: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Output connection: The distance from the start of the ray to the hit.
+     */
+    public readonly hitDistance: FlowGraphDataConnection<number>;
+
+    constructor(config?: IFlowGraphBlockConfiguration) {
+        super(config);
+        this.from = this.registerDataInput("from", RichTypeVector3);
+        this.to = this.registerDataInput("to", RichTypeVector3);
+        this.membership = this.registerDataInput("membership", RichTypeNumber, ~0);
+        this.collideWith = this.registerDataInput("collideWith", RichTypeNumber, ~0);
+        this.shouldHitTriggers = this.registerDataInput("shouldHitTriggers", RichTypeBoolean, false);
+        this.ignoreBody = this.registerDataInput("ignoreBody", RichTypeAny, null);
+        this.hasHit = this.registerDataOutput("hasHit", RichTypeBoolean, false);
+        this.body = this.registerDataOutput("body", RichTypeAny, null);
+        this.hitPoint = this.registerDataOutput("hitPoint", RichTypeVector3);
+        this.hitNormal = this.registerDataOutput("hitNormal", RichTypeVector3);
+        this.hitDistance = this.registerDataOutput("hitDistance", RichTypeNumber, 0);
+    }
+
+    public override _updateOutputs(context: FlowGraphContext) {
+        if (context._getExecutionVariable(this, "executionId", -1) === context.executionId) {
+            return;
+        }
+        context._setExecutionVariable(this, "executionId", context.executionId);
+
+        const physicsEngine = _GetPhysicsEngineV2(context);
+        const result = context._getExecutionVariable(this, "raycastResult", null) ?? new PhysicsRaycastResult();
+        context._setExecutionVariable(this, "raycastResult", result);
+        result.reset();
+        if (physicsEngine) {
+            physicsEngine.raycastToRef(this.from.getValue(context), this.to.getValue(context), result, {
+                membership: this.membership.getValue(context),
+                collideWith: this.collideWith.getValue(context),
+                shouldHitTriggers: this.shouldHitTriggers.getValue(context),
+                ignoreBody: this.ignoreBody.getValue(context) ?? undefined,
+            });
+        }
+
+        this.hasHit.setValue(result.hasHit, context);
+        this.body.setValue(result.body ?? null, context);
+        this.hitPoint.setValue(result.hitPointWorld.clone(), context);
+        this.hitNormal.setValue(result.hitNormalWorld.clone(), context);
+        this.hitDistance.setValue(result.hitDistance, context);
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.PhysicsRaycast;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.PhysicsRaycast, FlowGraphPhysicsRaycastBlock);
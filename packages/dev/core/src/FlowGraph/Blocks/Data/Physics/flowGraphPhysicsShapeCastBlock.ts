@@ -0,0 +1,137 @@
+import type { IFlowGraphBlockConfiguration } from "core/FlowGraph/flowGraphBlock";
+import { FlowGraphBlock } from "core/FlowGraph/flowGraphBlock";
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
+import { RichTypeAny, RichTypeBoolean, RichTypeNumber, RichTypeQuaternion, RichTypeVector3 } from "core/FlowGraph/flowGraphRichTypes";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+import { RegisterClass } from "core/Misc/typeStore";
+import type { Quaternion, Vector3 } from "core/Maths/math.vector";
+import { ShapeCastResult } from "core/Physics/shapeCastResult";
+import type { PhysicsBody } from "core/Physics/v2/physicsBody";
+import type { PhysicsShape } from "core/Physics/v2/physicsShape";
+import type { HavokPlugin } from "core/Physics/v2/Plugins/havokPlugin";
+import type { Nullable } from "core/types";
+import { _GetPhysicsEngineV2 } from "./flowGraphPhysicsRaycastBlock";
+
+/**
+ * A block that sweeps a physics shape from a start position to an end position and delivers the first hit.
+ * The shape is cast once per execution of the graph. A physics plugin supporting shape casts (like Havok) is required, otherwise hasHit is false.
+ */
+export class FlowGraphPhysicsShapeCastBlock extends FlowGraphBlock {
+    /**
+     * Input connection: The shape to cast.
+     */
+    public readonly shape: FlowGraphDataConnection<Nullable<PhysicsShape>>;
+
+    /**
+     * Input connection: The rotation of the shape.
+     */
+    public readonly rotation: FlowGraphDataConnection<Quaternion>;
+
+    /**
+     * Input connection: The world position where the cast starts.
+     */
+    public readonly startPosition: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Input connection: The world position where the cast ends.
+     */
+    public readonly endPosition: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Input connection: Should the shape hit triggers?
+     */
+    public readonly shouldHitTriggers: FlowGraphDataConnection<boolean>;
+
+    /**
+     * Input connection: A body that the cast ignores, for example the body casting the shape.
+     */
+    public readonly ignoreBody: FlowGraphDataConnection<Nullable<PhysicsBody>>;
+
+    /**
+     * Output connection: Whether the shape hit a body.
+     */
+    public readonly hasHit: FlowGraphDataConnection<boolean>;
+
+    /**
+     * Output connection: The body that was hit.
+     */
+    public readonly body: FlowGraphDataConnection<Nullable<PhysicsBody>>;
+
+    /**
+     * Output connection: The world position of the hit, on the body that was hit.
+     */
+    public readonly hitPoint: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Output connection: The world normal of the hit, on the body that was hit.
+     */
+    public readonly hitNormal: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Output connection: The fraction of the path from the start to the end position where the hit happened.
+     */
+    public readonly hitFraction: FlowGraphDataConnection<number>;
+
+    constructor(config?: IFlowGraphBlockConfiguration) {
+        super(config);
+        this.shape = this.registerDataInput("shape", RichTypeAny, null);
+        this.rotation = this.registerDataInput("rotation", RichTypeQuaternion);
+        this.startPosition = this.registerDataInput("startPosition", RichTypeVector3);
+        this.endPosition = this.registerDataInput("endPosition", RichTypeVector3);
+        this.shouldHitTriggers = this.registerDataInput("shouldHitTriggers", RichTypeBoolean, false);
+        this.ignoreBody = this.registerDataInput("ignoreBody", RichTypeAny, null);
+        this.hasHit = this.registerDataOutput("hasHit", RichTypeBoolean, false);
+        this.body = this.registerDataOutput("body", RichTypeAny, null);
+        this.hitPoint = this.registerDataOutput("hitPoint", RichTypeVector3);
+        this.hitNormal = this.registerDataOutput("hitNormal", RichTypeVector3);
+        this.hitFraction = this.registerDataOutput("hitFraction", RichTypeNumber, 0);
+    }
+
+    public override _updateOutputs(context: FlowGraphContext) {
+        if (context._getExecutionVariable(this, "executionId", -1) === context.executionId) {
+            return;
+        }
+        context._setExecutionVariable(this, "executionId", context.executionId);
+
+        const inputShapeResult = context._getExecutionVariable(this, "inputShapeResult", null) ?? new ShapeCastResult();
+        const hitShapeResult = context._getExecutionVariable(this, "hitShapeResult", null) ?? new ShapeCastResult();
+        context._setExecutionVariable(this, "inputShapeResult", inputShapeResult);
+        context._setExecutionVariable(this, "hitShapeResult", hitShapeResult);
+        inputShapeResult.reset();
+        hitShapeResult.reset();
+
+        // shape casts are not part of the plugin interface
+        const plugin = _GetPhysicsEngineV2(context)?.getPhysicsPlugin() as Nullable<Partial<Pick<HavokPlugin, "shapeCast">>> | undefined;
+        const shape = this.shape.getValue(context);
+        if (plugin?.shapeCast && shape) {
+            plugin.shapeCast(
+                {
+                    shape,
+                    rotation: this.rotation.getValue(context),
+                    startPosition: this.startPosition.getValue(context),
+                    endPosition: this.endPosition.getValue(context),
+                    shouldHitTriggers: this.shouldHitTriggers.getValue(context),
+                    ignoreBody: this.ignoreBody.getValue(context) ?? undefined,
+                },
+                inputShapeResult,
+                hitShapeResult
+            );
+        }
+
+        this.hasHit.setValue(hitShapeResult.hasHit, context);
+        this.body.setValue(hitShapeResult.body ?? null, context);
+        this.hitPoint.setValue(hitShapeResult.hitPoint.clone(), context);
+        this.hitNormal.setValue(hitShapeResult.hitNormal.clone(), context);
+        this.hitFraction.setValue(hitShapeResult.hasHit ? hitShapeResult.hitFraction : 0, context);
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.PhysicsShapeCast;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.PhysicsShapeCast, FlowGraphPhysicsShapeCastBlock);
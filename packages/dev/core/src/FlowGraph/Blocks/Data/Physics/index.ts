@@ -0,0 +1,2 @@
+export * from "./flowGraphPhysicsRaycastBlock";
+export * from "./flowGraphPhysicsShapeCastBlock";
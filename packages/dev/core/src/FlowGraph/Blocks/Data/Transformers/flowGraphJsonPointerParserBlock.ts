@@ -2,7 +2,7 @@ import type { FlowGraphAssetType } from "core/FlowGraph/flowGraphAssetsContext";
 import type { IFlowGraphBlockConfiguration } from "core/FlowGraph/flowGraphBlock";
 import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
 import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
-import { FlowGraphPathConverterComponent } from "core/FlowGraph/flowGraphPathConverterComponent";
+import { _CreateAccessorAnimations, _GetAccessorValue, _SetAccessorValue, FlowGraphPathConverterComponent } from "core/FlowGraph/flowGraphPathConverterComponent";
 import { RichTypeAny } from "core/FlowGraph/flowGraphRichTypes";
 import type { IObjectAccessor } from "core/FlowGraph/typeDefinitions";
 import type { IPathToObjectConverter } from "core/ObjectModel/objectModelInterfaces";
@@ -10,8 +10,6 @@ import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
 import { RegisterClass } from "core/Misc/typeStore";
 import type { Animation } from "core/Animations/animation";
 import type { EasingFunction } from "core/Animations/easing";
-import { Vector3, Vector4 } from "core/Maths/math.vector";
-import { Color3, Color4 } from "core/Maths/math.color";
 import { FlowGraphCachedOperationBlock } from "../flowGraphCachedOperationBlock";
 
 /**
@@ -101,22 +99,11 @@ export class FlowGraphJsonPointerParserBlock<P extends any, O extends FlowGraphA
     }
 
     private _setPropertyValue(_target: O, _propertyName: string, value: P, context: FlowGraphContext): void {
-        const accessorContainer = this.templateComponent.getAccessor(this.config.pathConverter, context);
-        const type = accessorContainer.info.type;
-        if (type.startsWith("Color")) {
-            value = ToColor(value as Vector4, type) as unknown as P;
-        }
-        accessorContainer.info.set?.(value, accessorContainer.object);
+        _SetAccessorValue(this.templateComponent.getAccessor(this.config.pathConverter, context), value);
     }
 
     private _getPropertyValue(_target: O, _propertyName: string, context: FlowGraphContext): P | undefined {
-        const accessorContainer = this.templateComponent.getAccessor(this.config.pathConverter, context);
-        const type = accessorContainer.info.type;
-        const value = accessorContainer.info.get(accessorContainer.object);
-        if (type.startsWith("Color")) {
-            return FromColor(value as Color3 | Color4) as unknown as P;
-        }
-        return value as P | undefined;
+        return _GetAccessorValue(this.templateComponent.getAccessor(this.config.pathConverter, context));
     }
 
     private _getInterpolationAnimationPropertyInfo(
@@ -125,42 +112,8 @@ export class FlowGraphJsonPointerParserBlock<P extends any, O extends FlowGraphA
         context: FlowGraphContext
     ): (keys: any[], fps: number, animationType: number, easingFunction?: EasingFunction) => Animation[] {
         const accessorContainer = this.templateComponent.getAccessor(this.config.pathConverter, context);
-        return (keys: any[], fps: number, animationType: number, easingFunction?: EasingFunction) => {
-            const animations: Animation[] = [];
-            // make sure keys are of the right type (in case of float3 color/vector)
-            const type = accessorContainer.info.type;
-            if (type.startsWith("Color")) {
-                keys = keys.map((key) => {
-                    return {
-                        frame: key.frame,
-                        value: ToColor(key.value, type),
-                    };
-                });
-            }
-            accessorContainer.info.interpolation?.forEach((info, index) => {
-                const name = accessorContainer.info.getPropertyName?.[index](accessorContainer.object) || "Animation-interpolation-" + index;
-                // generate the keys based on interpolation info
-                let newKeys: any[] = keys;
-                if (animationType !== info.type) {
-                    // convert the keys to the right type
-                    newKeys = keys.map((key) => {
-                        return {
-                            frame: key.frame,
-                            value: info.getValue(undefined, key.value.asArray ? key.value.asArray() : [key.value], 0, 1),
-                        };
-                    });
-                }
-                const animationData = info.buildAnimations(accessorContainer.object, name, 60, newKeys);
-                for (const animation of animationData) {
-                    if (easingFunction) {
-                        animation.babylonAnimation.setEasingFunction(easingFunction);
-                    }
-                    animations.push(animation.babylonAnimation);
-                }
-            });
-
-            return animations;
-        };
+        return (keys: any[], _fps: number, animationType: number, easingFunction?: EasingFunction) =>
+            _CreateAccessorAnimations(accessorContainer, keys, animationType, easingFunction);
     }
 
     /**
@@ -172,25 +125,4 @@ export class FlowGraphJsonPointerParserBlock<P extends any, O extends FlowGraphA
     }
 }
 
-function ToColor(value: any, expectedValue: string) {
-    if (value.getClassName().startsWith("Color")) {
-        return value as unknown as Color3 | Color4;
-    }
-    if (expectedValue === "Color3") {
-        return new Color3(value.x, value.y, value.z);
-    } else if (expectedValue === "Color4") {
-        return new Color4(value.x, value.y, value.z, value.w);
-    }
-    return value;
-}
-
-function FromColor(value: Color3 | Color4): Vector3 | Vector4 {
-    if (value instanceof Color3) {
-        return new Vector3(value.r, value.g, value.b);
-    } else if (value instanceof Color4) {
-        return new Vector4(value.r, value.g, value.b, value.a);
-    }
-    throw new Error("Invalid color type");
-}
-
 RegisterClass(FlowGraphBlockNames.JsonPointerParser, FlowGraphJsonPointerParserBlock);
@@ -21,7 +21,11 @@ export class FlowGraphBinaryOperationBlock<LeftT, RightT, ResultT> extends FlowG
         leftRichType: RichType<LeftT>,
         rightRichType: RichType<RightT>,
         resultRichType: RichType<ResultT>,
-        private _operation: (left: LeftT, right: RightT) => ResultT,
+        /**
+         * @internal
+         * The operation of the block, also used by the compiled graphs
+         */
+        public readonly _operation: (left: LeftT, right: RightT) => ResultT,
         private _className: string,
         config?: IFlowGraphBlockConfiguration
     ) {
@@ -10,7 +10,11 @@ import { FlowGraphCachedOperationBlock } from "./flowGraphCachedOperationBlock";
 export class FlowGraphConstantOperationBlock<ResultT> extends FlowGraphCachedOperationBlock<ResultT> {
     constructor(
         richType: RichType<ResultT>,
-        private _operation: (context: FlowGraphContext) => ResultT,
+        /**
+         * @internal
+         * The operation of the block, also used by the compiled graphs
+         */
+        public readonly _operation: (context: FlowGraphContext) => ResultT,
         private _className: string,
         config?: IFlowGraphBlockConfiguration
     ) {
@@ -26,7 +26,11 @@ export class FlowGraphTernaryOperationBlock<T1, T2, T3, ResultT> extends FlowGra
         t2Type: RichType<T2>,
         t3Type: RichType<T3>,
         resultRichType: RichType<ResultT>,
-        private _operation: (a: T1, b: T2, c: T3) => ResultT,
+        /**
+         * @internal
+         * The operation of the block, also used by the compiled graphs
+         */
+        public readonly _operation: (a: T1, b: T2, c: T3) => ResultT,
         private _className: string,
         config?: IFlowGraphBlockConfiguration
     ) {
@@ -17,7 +17,11 @@ export class FlowGraphUnaryOperationBlock<InputT, ResultT> extends FlowGraphCach
     constructor(
         inputRichType: RichType<InputT>,
         resultRichType: RichType<ResultT>,
-        private _operation: (input: InputT) => ResultT,
+        /**
+         * @internal
+         * The operation of the block, also used by the compiled graphs
+         */
+        public readonly _operation: (input: InputT) => ResultT,
         private _className: string,
         config?: IFlowGraphBlockConfiguration
     ) {
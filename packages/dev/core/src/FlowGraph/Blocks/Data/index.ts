@@ -13,3 +13,5 @@ export * from "./Math/index";
 export * from "./Transformers/index";
 // eslint-disable-next-line @typescript-eslint/no-restricted-imports
 export * from "./Utils/index";
+// eslint-disable-next-line @typescript-eslint/no-restricted-imports
+export * from "./Physics/index";
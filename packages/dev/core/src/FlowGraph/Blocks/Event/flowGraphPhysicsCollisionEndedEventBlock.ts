@@ -0,0 +1,86 @@
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import { FlowGraphEventBlock } from "core/FlowGraph/flowGraphEventBlock";
+import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
+import { RichTypeAny } from "core/FlowGraph/flowGraphRichTypes";
+import { FlowGraphBlockNames } from "../flowGraphBlockNames";
+import { RegisterClass } from "core/Misc/typeStore";
+import type { Observer } from "core/Misc/observable";
+import type { Nullable } from "core/types";
+import type { IBasePhysicsCollisionEvent } from "core/Physics/v2/IPhysicsEnginePlugin";
+import type { PhysicsBody } from "core/Physics/v2/physicsBody";
+import type { TransformNode } from "core/Meshes/transformNode";
+import type { IFlowGraphPhysicsCollisionEventBlockConfiguration } from "./flowGraphPhysicsCollisionEventBlock";
+import { _GetPhysicsBody } from "./flowGraphPhysicsCollisionEventBlock";
+
+/**
+ * A block that is triggered when a physics body stops colliding with another body.
+ * The collision ended callbacks of the body are enabled when the block starts listening, and disabled when it stops
+ * listening if they were not enabled before and nothing else observes the collisions ended of the body.
+ * A physics engine V2 is required.
+ */
+export class FlowGraphPhysicsCollisionEndedEventBlock extends FlowGraphEventBlock {
+    /**
+     * Input connection: The physics body to listen to, or a node with a physics body.
+     */
+    public readonly body: FlowGraphDataConnection<PhysicsBody | TransformNode>;
+
+    /**
+     * Output connection: The body that the listened body stopped colliding with.
+     */
+    public readonly otherBody: FlowGraphDataConnection<PhysicsBody>;
+
+    public constructor(
+        /**
+         * the configuration of the block
+         */
+        public override config?: IFlowGraphPhysicsCollisionEventBlockConfiguration
+    ) {
+        super(config);
+        this.body = this.registerDataInput("body", RichTypeAny, config?.body);
+        this.otherBody = this.registerDataOutput("otherBody", RichTypeAny);
+    }
+
+    public override _preparePendingTasks(context: FlowGraphContext): void {
+        const body = _GetPhysicsBody(this.body.getValue(context));
+        if (!body) {
+            this._reportError(context, "No physics body provided");
+            return;
+        }
+        context._setExecutionVariable(this, "_collisionEndedCallbackWasEnabled", body._collisionEndedCBEnabled);
+        body.setCollisionEndedCallbackEnabled(true);
+        const observer = body.getCollisionEndedObservable().add((event: IBasePhysicsCollisionEvent) => {
+            this.otherBody.setValue(event.collidedAgainst, context);
+            this._execute(context);
+        });
+        context._setExecutionVariable(this, "_collisionBody", body);
+        context._setExecutionVariable(this, "_collisionEndedObserver", observer);
+    }
+
+    public override _cancelPendingTasks(context: FlowGraphContext): void {
+        const body = context._getExecutionVariable<Nullable<PhysicsBody>>(this, "_collisionBody", null);
+        const observer = context._getExecutionVariable<Nullable<Observer<IBasePhysicsCollisionEvent>>>(this, "_collisionEndedObserver", null);
+        if (body && observer) {
+            const observable = body.getCollisionEndedObservable();
+            observable.remove(observer);
+            if (!context._getExecutionVariable(this, "_collisionEndedCallbackWasEnabled", false) && !observable.hasObservers()) {
+                body.setCollisionEndedCallbackEnabled(false);
+            }
+        }
+        context._deleteExecutionVariable(this, "_collisionBody");
+        context._deleteExecutionVariable(this, "_collisionEndedObserver");
+        context._deleteExecutionVariable(this, "_collisionEndedCallbackWasEnabled");
+    }
+
+    public override _executeEvent(_context: FlowGraphContext, _payload: any): boolean {
+        return true;
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.PhysicsCollisionEndedEvent;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.PhysicsCollisionEndedEvent, FlowGraphPhysicsCollisionEndedEventBlock);
@@ -0,0 +1,142 @@
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import { FlowGraphEventBlock } from "core/FlowGraph/flowGraphEventBlock";
+import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
+import type { IFlowGraphBlockConfiguration } from "core/FlowGraph/flowGraphBlock";
+import { RichTypeAny, RichTypeNumber, RichTypeVector3 } from "core/FlowGraph/flowGraphRichTypes";
+import { FlowGraphBlockNames } from "../flowGraphBlockNames";
+import { RegisterClass } from "core/Misc/typeStore";
+import type { Observer } from "core/Misc/observable";
+import type { Nullable } from "core/types";
+import type { IPhysicsCollisionEvent } from "core/Physics/v2/IPhysicsEnginePlugin";
+import { PhysicsEventType } from "core/Physics/v2/IPhysicsEnginePlugin";
+import type { PhysicsBody } from "core/Physics/v2/physicsBody";
+import type { TransformNode } from "core/Meshes/transformNode";
+import { Vector3 } from "core/Maths/math.vector";
+
+/**
+ * Configuration for the physics collision event blocks.
+ */
+export interface IFlowGraphPhysicsCollisionEventBlockConfiguration extends IFlowGraphBlockConfiguration {
+    /**
+     * The physics body to listen to, or a node with a physics body. Can also be set by the body input.
+     */
+    body?: PhysicsBody | TransformNode;
+}
+
+/**
+ * @internal
+ * Gets the physics body of a body input, which can be a physics body or a node with a physics body.
+ * @param value the value of the input
+ * @returns the physics body, if any
+ */
+export function _GetPhysicsBody(value: Nullable<PhysicsBody | TransformNode> | undefined): Nullable<PhysicsBody> {
+    if (!value) {
+        return null;
+    }
+    return "physicsBody" in value ? value.physicsBody : value;
+}
+
+/**
+ * A block that is triggered when a physics body starts colliding with another body.
+ * The collision callbacks of the body are enabled when the block starts listening, and disabled when it stops listening
+ * if they were not enabled before and nothing else observes the collisions of the body.
+ * A physics engine V2 is required.
+ */
+export class FlowGraphPhysicsCollisionEventBlock extends FlowGraphEventBlock {
+    /**
+     * Input connection: The physics body to listen to, or a node with a physics body.
+     */
+    public readonly body: FlowGraphDataConnection<PhysicsBody | TransformNode>;
+
+    /**
+     * Output connection: The body that the listened body collided with.
+     */
+    public readonly otherBody: FlowGraphDataConnection<PhysicsBody>;
+
+    /**
+     * Output connection: The world position of the contact.
+     */
+    public readonly point: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Output connection: The world normal of the contact.
+     */
+    public readonly normal: FlowGraphDataConnection<Vector3>;
+
+    /**
+     * Output connection: The impulse computed by the solver for the contact.
+     */
+    public readonly impulse: FlowGraphDataConnection<number>;
+
+    /**
+     * Output connection: The penetration distance of the contact.
+     */
+    public readonly distance: FlowGraphDataConnection<number>;
+
+    public constructor(
+        /**
+         * the configuration of the block
+         */
+        public override config?: IFlowGraphPhysicsCollisionEventBlockConfiguration
+    ) {
+        super(config);
+        this.body = this.registerDataInput("body", RichTypeAny, config?.body);
+        this.otherBody = this.registerDataOutput("otherBody", RichTypeAny);
+        this.point = this.registerDataOutput("point", RichTypeVector3);
+        this.normal = this.registerDataOutput("normal", RichTypeVector3);
+        this.impulse = this.registerDataOutput("impulse", RichTypeNumber);
+        this.distance = this.registerDataOutput("distance", RichTypeNumber);
+    }
+
+    public override _preparePendingTasks(context: FlowGraphContext): void {
+        const body = _GetPhysicsBody(this.body.getValue(context));
+        if (!body) {
+            this._reportError(context, "No physics body provided");
+            return;
+        }
+        context._setExecutionVariable(this, "_collisionCallbackWasEnabled", body._collisionCBEnabled);
+        body.setCollisionCallbackEnabled(true);
+        const observer = body.getCollisionObservable().add((event: IPhysicsCollisionEvent) => {
+            // the observable also notifies the contacts that continue
+            if (event.type !== PhysicsEventType.COLLISION_STARTED) {
+                return;
+            }
+            this.otherBody.setValue(event.collidedAgainst, context);
+            this.point.setValue(event.point ? event.point.clone() : Vector3.Zero(), context);
+            this.normal.setValue(event.normal ? event.normal.clone() : Vector3.Zero(), context);
+            this.impulse.setValue(event.impulse, context);
+            this.distance.setValue(event.distance, context);
+            this._execute(context);
+        });
+        context._setExecutionVariable(this, "_collisionBody", body);
+        context._setExecutionVariable(this, "_collisionObserver", observer);
+    }
+
+    public override _cancelPendingTasks(context: FlowGraphContext): void {
+        const body = context._getExecutionVariable<Nullable<PhysicsBody>>(this, "_collisionBody", null);
+        const observer = context._getExecutionVariable<Nullable<Observer<IPhysicsCollisionEvent>>>(this, "_collisionObserver", null);
+        if (body && observer) {
+            const observable = body.getCollisionObservable();
+            observable.remove(observer);
+            if (!context._getExecutionVariable(this, "_collisionCallbackWasEnabled", false) && !observable.hasObservers()) {
+                body.setCollisionCallbackEnabled(false);
+            }
+        }
+        context._deleteExecutionVariable(this, "_collisionBody");
+        context._deleteExecutionVariable(this, "_collisionObserver");
+        context._deleteExecutionVariable(this, "_collisionCallbackWasEnabled");
+    }
+
+    public override _executeEvent(_context: FlowGraphContext, _payload: any): boolean {
+        return true;
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.PhysicsCollisionEvent;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.PhysicsCollisionEvent, FlowGraphPhysicsCollisionEventBlock);
@@ -5,3 +5,5 @@ export * from "./flowGraphSendCustomEventBlock";
 export * from "./flowGraphSceneTickEventBlock";
 export * from "./flowGraphPointerOutEventBlock";
 export * from "./flowGraphPointerOverEventBlock";
+export * from "./flowGraphPhysicsCollisionEventBlock";
+export * from "./flowGraphPhysicsCollisionEndedEventBlock";
@@ -35,7 +35,7 @@ export const enum EasingFunctionType {
  * @param controlPoint2 The second control point for the bezier curve.
  * @returns The easing function object.
  */
-function CreateEasingFunction(type: EasingFunctionType, ...parameters: number[]): EasingFunction {
+export function _CreateEasingFunction(type: EasingFunctionType, ...parameters: number[]): EasingFunction {
     switch (type) {
         case EasingFunctionType.BezierCurveEase:
             return new BezierCurveEase(...parameters);
@@ -113,7 +113,7 @@ export class FlowGraphEasingBlock extends FlowGraphBlock {
 
         const key = `${type}-${mode}-${parameters.join("-")}`;
         if (!this._easingFunctions[key]) {
-            const easing = CreateEasingFunction(type, ...parameters);
+            const easing = _CreateEasingFunction(type, ...parameters);
             easing.setEasingMode(mode);
             this._easingFunctions[key] = easing;
         }
@@ -0,0 +1,120 @@
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
+import { FlowGraphAsyncExecutionBlock } from "core/FlowGraph/flowGraphAsyncExecutionBlock";
+import { RichTypeAny, RichTypeBoolean, RichTypeNumber } from "core/FlowGraph/flowGraphRichTypes";
+import type { IFlowGraphBlockConfiguration } from "core/FlowGraph/flowGraphBlock";
+import { RegisterClass } from "core/Misc/typeStore";
+import type { Observer } from "core/Misc/observable";
+import type { Nullable } from "core/types";
+import type { AbstractSound } from "core/AudioV2/abstractAudio/abstractSound";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+
+/**
+ * Configuration for the sound blocks.
+ */
+export interface IFlowGraphSoundBlockConfiguration extends IFlowGraphBlockConfiguration {
+    /**
+     * The sound to use. Can also be set by the sound input.
+     */
+    sound?: AbstractSound;
+}
+
+/**
+ * @experimental
+ * A block that plays a sound of the audio engine V2.
+ * The out signal is triggered when the sound starts playing, and the done signal when it ends.
+ * Playing the sound again before it ends restarts it.
+ */
+export class FlowGraphPlaySoundBlock extends FlowGraphAsyncExecutionBlock {
+    /**
+     * Input connection: The sound to play.
+     */
+    public readonly sound: FlowGraphDataConnection<AbstractSound>;
+
+    /**
+     * Input connection: Should the sound loop?
+     */
+    public readonly loop: FlowGraphDataConnection<boolean>;
+
+    /**
+     * Input connection: The time, in seconds, where the sound starts playing.
+     */
+    public readonly startOffset: FlowGraphDataConnection<number>;
+
+    /**
+     * Input connection: The volume of the sound.
+     */
+    public readonly volume: FlowGraphDataConnection<number>;
+
+    constructor(
+        /**
+         * the configuration of the block
+         */
+        public override config?: IFlowGraphSoundBlockConfiguration
+    ) {
+        super(config);
+        this.sound = this.registerDataInput("sound", RichTypeAny, config?.sound);
+        this.loop = this.registerDataInput("loop", RichTypeBoolean, false);
+        this.startOffset = this.registerDataInput("startOffset", RichTypeNumber, 0);
+        this.volume = this.registerDataInput("volume", RichTypeNumber, 1);
+    }
+
+    /**
+     * @internal
+     */
+    public override _preparePendingTasks(context: FlowGraphContext): void {
+        const sound = this.sound.getValue(context);
+        if (!sound) {
+            return this._reportError(context, "No sound provided");
+        }
+        const observer = sound.onEndedObservable.add(() => this._onSoundEnded(context));
+        context._setExecutionVariable(this, "_playingSound", sound);
+        context._setExecutionVariable(this, "_soundEndedObserver", observer);
+        try {
+            sound.play({
+                loop: this.loop.getValue(context),
+                startOffset: this.startOffset.getValue(context),
+                volume: this.volume.getValue(context),
+            });
+        } catch (e) {
+            this._reportError(context, e);
+        }
+    }
+
+    public _execute(context: FlowGraphContext): void {
+        this._startPendingTasks(context);
+    }
+
+    /**
+     * @internal
+     * Stops the sound if it is still playing.
+     */
+    public override _cancelPendingTasks(context: FlowGraphContext): void {
+        const sound = this._removeSoundEndedObserver(context);
+        sound?.stop();
+    }
+
+    private _onSoundEnded(context: FlowGraphContext) {
+        this._removeSoundEndedObserver(context);
+        this._resetAfterCanceled(context);
+        this.done._activateSignal(context);
+    }
+
+    private _removeSoundEndedObserver(context: FlowGraphContext): Nullable<AbstractSound> {
+        const sound = context._getExecutionVariable<Nullable<AbstractSound>>(this, "_playingSound", null);
+        const observer = context._getExecutionVariable<Nullable<Observer<AbstractSound>>>(this, "_soundEndedObserver", null);
+        sound?.onEndedObservable.remove(observer);
+        context._deleteExecutionVariable(this, "_playingSound");
+        context._deleteExecutionVariable(this, "_soundEndedObserver");
+        return sound;
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.PlaySound;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.PlaySound, FlowGraphPlaySoundBlock);
@@ -0,0 +1,71 @@
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
+import { FlowGraphExecutionBlockWithOutSignal } from "core/FlowGraph/flowGraphExecutionBlockWithOutSignal";
+import { RichTypeAny, RichTypeNumber } from "core/FlowGraph/flowGraphRichTypes";
+import type { IFlowGraphBlockConfiguration } from "core/FlowGraph/flowGraphBlock";
+import { RegisterClass } from "core/Misc/typeStore";
+import type { AbstractAudioOutNode } from "core/AudioV2/abstractAudio/abstractAudioOutNode";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+
+/**
+ * Configuration for the set sound volume block.
+ */
+export interface IFlowGraphSetSoundVolumeBlockConfiguration extends IFlowGraphBlockConfiguration {
+    /**
+     * The sound or audio bus to change the volume of. Can also be set by the sound input.
+     */
+    sound?: AbstractAudioOutNode;
+}
+
+/**
+ * @experimental
+ * A block that sets the volume of a sound, or of an audio bus, of the audio engine V2.
+ * The volume changes gradually when a ramp duration is provided.
+ */
+export class FlowGraphSetSoundVolumeBlock extends FlowGraphExecutionBlockWithOutSignal {
+    /**
+     * Input connection: The sound or audio bus to change the volume of.
+     */
+    public readonly sound: FlowGraphDataConnection<AbstractAudioOutNode>;
+
+    /**
+     * Input connection: The new volume.
+     */
+    public readonly volume: FlowGraphDataConnection<number>;
+
+    /**
+     * Input connection: The duration, in seconds, of the change of volume. The volume changes immediately if 0.
+     */
+    public readonly rampDuration: FlowGraphDataConnection<number>;
+
+    constructor(
+        /**
+         * the configuration of the block
+         */
+        public override config?: IFlowGraphSetSoundVolumeBlockConfiguration
+    ) {
+        super(config);
+        this.sound = this.registerDataInput("sound", RichTypeAny, config?.sound);
+        this.volume = this.registerDataInput("volume", RichTypeNumber, 1);
+        this.rampDuration = this.registerDataInput("rampDuration", RichTypeNumber, 0);
+    }
+
+    public _execute(context: FlowGraphContext): void {
+        const sound = this.sound.getValue(context);
+        if (!sound) {
+            return this._reportError(context, "No sound provided");
+        }
+        const duration = this.rampDuration.getValue(context);
+        sound.setVolume(this.volume.getValue(context), duration > 0 ? { duration } : null);
+        this.out._activateSignal(context);
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.SetSoundVolume;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.SetSoundVolume, FlowGraphSetSoundVolumeBlock);
@@ -0,0 +1,47 @@
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import type { FlowGraphDataConnection } from "core/FlowGraph/flowGraphDataConnection";
+import { FlowGraphExecutionBlockWithOutSignal } from "core/FlowGraph/flowGraphExecutionBlockWithOutSignal";
+import { RichTypeAny } from "core/FlowGraph/flowGraphRichTypes";
+import { RegisterClass } from "core/Misc/typeStore";
+import type { AbstractSound } from "core/AudioV2/abstractAudio/abstractSound";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+import type { IFlowGraphSoundBlockConfiguration } from "./flowGraphPlaySoundBlock";
+
+/**
+ * @experimental
+ * A block that stops a sound of the audio engine V2.
+ */
+export class FlowGraphStopSoundBlock extends FlowGraphExecutionBlockWithOutSignal {
+    /**
+     * Input connection: The sound to stop.
+     */
+    public readonly sound: FlowGraphDataConnection<AbstractSound>;
+
+    constructor(
+        /**
+         * the configuration of the block
+         */
+        public override config?: IFlowGraphSoundBlockConfiguration
+    ) {
+        super(config);
+        this.sound = this.registerDataInput("sound", RichTypeAny, config?.sound);
+    }
+
+    public _execute(context: FlowGraphContext): void {
+        const sound = this.sound.getValue(context);
+        if (!sound) {
+            return this._reportError(context, "No sound provided");
+        }
+        sound.stop();
+        this.out._activateSignal(context);
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.StopSound;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.StopSound, FlowGraphStopSoundBlock);
@@ -0,0 +1,3 @@
+export * from "./flowGraphPlaySoundBlock";
+export * from "./flowGraphStopSoundBlock";
+export * from "./flowGraphSetSoundVolumeBlock";
@@ -0,0 +1,84 @@
+import { RegisterClass } from "../../../../Misc/typeStore";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+import type { IFlowGraphBlockConfiguration } from "../../../flowGraphBlock";
+import type { FlowGraphContext } from "../../../flowGraphContext";
+import { FlowGraphExecutionBlock } from "../../../flowGraphExecutionBlock";
+import type { FlowGraphSignalConnection } from "../../../flowGraphSignalConnection";
+import type { FlowGraphSubGraph } from "../../../flowGraphSubGraph";
+import type { FlowGraphSubGraphInputsBlock } from "./flowGraphSubGraphInputsBlock";
+import type { FlowGraphSubGraphOutputsBlock } from "./flowGraphSubGraphOutputsBlock";
+
+/**
+ * Configuration for the sub-graph block.
+ */
+export interface IFlowGraphSubGraphBlockConfiguration extends IFlowGraphBlockConfiguration {
+    /**
+     * The sub-graph instantiated by the block.
+     */
+    subGraph: FlowGraphSubGraph;
+}
+
+/**
+ * A block that executes an instance of a sub-graph.
+ * The block has the signal and data inputs and outputs of the sub-graph. Each block creates its own copy of the blocks of the sub-graph,
+ * so that the instances don't share their state, while the sub-graph is only serialized once with the flow graph.
+ */
+export class FlowGraphSubGraphBlock extends FlowGraphExecutionBlock {
+    private _inputs: FlowGraphSubGraphInputsBlock;
+    private _outputs: FlowGraphSubGraphOutputsBlock;
+
+    constructor(
+        /**
+         * the configuration of the block
+         */
+        public override config: IFlowGraphSubGraphBlockConfiguration
+    ) {
+        super(config);
+        const subGraphConfig = config.subGraph.config;
+        for (const name of subGraphConfig.signalInputs ?? []) {
+            if (!this.getSignalInput(name)) {
+                this._registerSignalInput(name);
+            }
+        }
+        for (const name of subGraphConfig.signalOutputs ?? []) {
+            if (!this.getSignalOutput(name)) {
+                this._registerSignalOutput(name);
+            }
+        }
+        for (const port of subGraphConfig.dataInputs ?? []) {
+            this.registerDataInput(port.name, port.richType, port.defaultValue);
+        }
+        for (const port of subGraphConfig.dataOutputs ?? []) {
+            this.registerDataOutput(port.name, port.richType, port.defaultValue);
+        }
+        const instance = config.subGraph._instantiate(this);
+        this._inputs = instance.inputs;
+        this._outputs = instance.outputs;
+    }
+
+    /**
+     * The sub-graph instantiated by the block.
+     */
+    public get subGraph(): FlowGraphSubGraph {
+        return this.config.subGraph;
+    }
+
+    public _execute(context: FlowGraphContext, callingSignal: FlowGraphSignalConnection): void {
+        this._inputs.getSignalOutput(callingSignal.name)?._activateSignal(context);
+    }
+
+    public override _updateOutputs(context: FlowGraphContext): void {
+        for (const output of this.dataOutputs) {
+            output.setValue(this._outputs.getDataInput(output.name)!.getValue(context), context);
+        }
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.SubGraph;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.SubGraph, FlowGraphSubGraphBlock);
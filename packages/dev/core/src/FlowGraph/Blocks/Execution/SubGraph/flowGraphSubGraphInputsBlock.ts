@@ -0,0 +1,59 @@
+import { RegisterClass } from "../../../../Misc/typeStore";
+import type { Nullable } from "../../../../types";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+import type { FlowGraphContext } from "../../../flowGraphContext";
+import { FlowGraphExecutionBlock } from "../../../flowGraphExecutionBlock";
+import type { IFlowGraphSubGraphConfiguration } from "../../../flowGraphSubGraph";
+import type { FlowGraphSubGraphBlock } from "./flowGraphSubGraphBlock";
+
+/**
+ * The entry block of a sub-graph.
+ * It has a signal output for each signal input of the sub-graph, and a data output for each data input of the sub-graph.
+ * In an instance of the sub-graph, they are activated by the signal inputs of the sub-graph block, and provide the values of its data inputs.
+ */
+export class FlowGraphSubGraphInputsBlock extends FlowGraphExecutionBlock {
+    /**
+     * The sub-graph block of the instance this block belongs to, or null in the definition of the sub-graph.
+     * @internal
+     */
+    public _instance: Nullable<FlowGraphSubGraphBlock> = null;
+
+    constructor(
+        /**
+         * the configuration of the sub-graph
+         */
+        public readonly subGraphConfig: IFlowGraphSubGraphConfiguration
+    ) {
+        super({ name: `${subGraphConfig.name} inputs` });
+        for (const name of subGraphConfig.signalInputs ?? []) {
+            if (!this.getSignalOutput(name)) {
+                this._registerSignalOutput(name);
+            }
+        }
+        for (const port of subGraphConfig.dataInputs ?? []) {
+            this.registerDataOutput(port.name, port.richType, port.defaultValue);
+        }
+    }
+
+    public override _updateOutputs(context: FlowGraphContext): void {
+        if (!this._instance) {
+            return;
+        }
+        for (const output of this.dataOutputs) {
+            output.setValue(this._instance.getDataInput(output.name)!.getValue(context), context);
+        }
+    }
+
+    public _execute(): void {
+        // The signal outputs are activated by the sub-graph block
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.SubGraphInputs;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.SubGraphInputs, FlowGraphSubGraphInputsBlock);
@@ -0,0 +1,51 @@
+import { RegisterClass } from "../../../../Misc/typeStore";
+import type { Nullable } from "../../../../types";
+import { FlowGraphBlockNames } from "../../flowGraphBlockNames";
+import type { FlowGraphContext } from "../../../flowGraphContext";
+import { FlowGraphExecutionBlock } from "../../../flowGraphExecutionBlock";
+import type { FlowGraphSignalConnection } from "../../../flowGraphSignalConnection";
+import type { IFlowGraphSubGraphConfiguration } from "../../../flowGraphSubGraph";
+import type { FlowGraphSubGraphBlock } from "./flowGraphSubGraphBlock";
+
+/**
+ * The exit block of a sub-graph.
+ * It has a signal input for each signal output of the sub-graph, and a data input for each data output of the sub-graph.
+ * In an instance of the sub-graph, they activate the signal outputs of the sub-graph block, and provide the values of its data outputs.
+ */
+export class FlowGraphSubGraphOutputsBlock extends FlowGraphExecutionBlock {
+    /**
+     * The sub-graph block of the instance this block belongs to, or null in the definition of the sub-graph.
+     * @internal
+     */
+    public _instance: Nullable<FlowGraphSubGraphBlock> = null;
+
+    constructor(
+        /**
+         * the configuration of the sub-graph
+         */
+        public readonly subGraphConfig: IFlowGraphSubGraphConfiguration
+    ) {
+        super({ name: `${subGraphConfig.name} outputs` });
+        for (const name of subGraphConfig.signalOutputs ?? []) {
+            if (!this.getSignalInput(name)) {
+                this._registerSignalInput(name);
+            }
+        }
+        for (const port of subGraphConfig.dataOutputs ?? []) {
+            this.registerDataInput(port.name, port.richType, port.defaultValue);
+        }
+    }
+
+    public _execute(context: FlowGraphContext, callingSignal: FlowGraphSignalConnection): void {
+        this._instance?.getSignalOutput(callingSignal.name)?._activateSignal(context);
+    }
+
+    /**
+     * @returns class name of the block.
+     */
+    public override getClassName(): string {
+        return FlowGraphBlockNames.SubGraphOutputs;
+    }
+}
+
+RegisterClass(FlowGraphBlockNames.SubGraphOutputs, FlowGraphSubGraphOutputsBlock);
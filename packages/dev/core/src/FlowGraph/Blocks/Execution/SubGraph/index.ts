@@ -0,0 +1,3 @@
+export * from "./flowGraphSubGraphBlock";
+export * from "./flowGraphSubGraphInputsBlock";
+export * from "./flowGraphSubGraphOutputsBlock";
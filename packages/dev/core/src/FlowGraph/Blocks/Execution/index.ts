@@ -3,3 +3,7 @@ export * from "./flowGraphConsoleLogBlock";
 export * from "./ControlFlow/index";
 // eslint-disable-next-line @typescript-eslint/no-restricted-imports
 export * from "./Animation/index";
+// eslint-disable-next-line @typescript-eslint/no-restricted-imports
+export * from "./SubGraph/index";
+// eslint-disable-next-line @typescript-eslint/no-restricted-imports
+export * from "./Audio/index";
@@ -300,6 +300,26 @@ export function blockFactory(blockName: FlowGraphBlockNames | string): () => Pro
             return async () => (await import("./Data/Utils/flowGraphFunctionReferenceBlock")).FlowGraphFunctionReferenceBlock;
         case FlowGraphBlockNames.DataSwitch:
             return async () => (await import("./Data/flowGraphDataSwitchBlock")).FlowGraphDataSwitchBlock;
+        case FlowGraphBlockNames.SubGraph:
+            return async () => (await import("./Execution/SubGraph/flowGraphSubGraphBlock")).FlowGraphSubGraphBlock;
+        case FlowGraphBlockNames.SubGraphInputs:
+            return async () => (await import("./Execution/SubGraph/flowGraphSubGraphInputsBlock")).FlowGraphSubGraphInputsBlock;
+        case FlowGraphBlockNames.SubGraphOutputs:
+            return async () => (await import("./Execution/SubGraph/flowGraphSubGraphOutputsBlock")).FlowGraphSubGraphOutputsBlock;
+        case FlowGraphBlockNames.PhysicsCollisionEvent:
+            return async () => (await import("./Event/flowGraphPhysicsCollisionEventBlock")).FlowGraphPhysicsCollisionEventBlock;
+        case FlowGraphBlockNames.PhysicsCollisionEndedEvent:
+            return async () => (await import("./Event/flowGraphPhysicsCollisionEndedEventBlock")).FlowGraphPhysicsCollisionEndedEventBlock;
+        case FlowGraphBlockNames.PhysicsRaycast:
+            return async () => (await import("./Data/Physics/flowGraphPhysicsRaycastBlock")).FlowGraphPhysicsRaycastBlock;
+        case FlowGraphBlockNames.PhysicsShapeCast:
+            return async () => (await import("./Data/Physics/flowGraphPhysicsShapeCastBlock")).FlowGraphPhysicsShapeCastBlock;
+        case FlowGraphBlockNames.PlaySound:
+            return async () => (await import("./Execution/Audio/flowGraphPlaySoundBlock")).FlowGraphPlaySoundBlock;
+        case FlowGraphBlockNames.StopSound:
+            return async () => (await import("./Execution/Audio/flowGraphStopSoundBlock")).FlowGraphStopSoundBlock;
+        case FlowGraphBlockNames.SetSoundVolume:
+            return async () => (await import("./Execution/Audio/flowGraphSetSoundVolumeBlock")).FlowGraphSetSoundVolumeBlock;
         default:
             // check if the block is a custom block
             if (CustomBlocks[blockName]) {
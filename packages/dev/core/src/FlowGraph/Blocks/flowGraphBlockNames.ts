@@ -148,4 +148,14 @@ export const enum FlowGraphBlockNames {
     FunctionReference = "FlowGraphFunctionReference",
     BezierCurveEasing = "FlowGraphBezierCurveEasing",
     DataSwitch = "FlowGraphDataSwitchBlock",
+    SubGraph = "FlowGraphSubGraphBlock",
+    SubGraphInputs = "FlowGraphSubGraphInputsBlock",
+    SubGraphOutputs = "FlowGraphSubGraphOutputsBlock",
+    PhysicsCollisionEvent = "FlowGraphPhysicsCollisionEventBlock",
+    PhysicsCollisionEndedEvent = "FlowGraphPhysicsCollisionEndedEventBlock",
+    PhysicsRaycast = "FlowGraphPhysicsRaycastBlock",
+    PhysicsShapeCast = "FlowGraphPhysicsShapeCastBlock",
+    PlaySound = "FlowGraphPlaySoundBlock",
+    StopSound = "FlowGraphStopSoundBlock",
+    SetSoundVolume = "FlowGraphSetSoundVolumeBlock",
 }
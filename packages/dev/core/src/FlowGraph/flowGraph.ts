@@ -15,6 +15,8 @@ import type { IFlowGraphEventTrigger } from "./flowGraphSceneEventCoordinator";
 import { FlowGraphSceneEventCoordinator } from "./flowGraphSceneEventCoordinator";
 import type { FlowGraphMeshPickEventBlock } from "./Blocks/Event/flowGraphMeshPickEventBlock";
 import { _IsDescendantOf } from "./utils";
+import type { FlowGraphSubGraph } from "./flowGraphSubGraph";
+import { _AddSubGraphOfBlock } from "./flowGraphSubGraph";
 
 export const enum FlowGraphState {
     /**
@@ -323,11 +325,20 @@ export class FlowGraph {
      */
     public serialize(serializationObject: any = {}, valueSerializeFunction?: (key: string, value: any, serializationObject: any) => void) {
         serializationObject.allBlocks = [];
+        const subGraphs: FlowGraphSubGraph[] = [];
         this.visitAllBlocks((block) => {
             const serializedBlock: any = {};
-            block.serialize(serializedBlock);
+            block.serialize(serializedBlock, valueSerializeFunction);
             serializationObject.allBlocks.push(serializedBlock);
+            _AddSubGraphOfBlock(block, subGraphs);
         });
+        // the sub-graphs are serialized once, however many times they are instantiated
+        serializationObject.subGraphs = [];
+        for (const subGraph of subGraphs) {
+            const serializedSubGraph: any = {};
+            subGraph.serialize(serializedSubGraph, valueSerializeFunction);
+            serializationObject.subGraphs.push(serializedSubGraph);
+        }
         serializationObject.executionContexts = [];
         for (const context of this._executionContexts) {
             const serializedContext: any = {};
@@ -9,6 +9,7 @@ import type { Scene } from "../scene";
 import type { IPathToObjectConverter } from "../ObjectModel/objectModelInterfaces";
 import type { IAssetContainer } from "core/IAssetContainer";
 import type { FlowGraphAction } from "./flowGraphLogger";
+import type { FlowGraphSubGraph } from "./flowGraphSubGraph";
 
 /**
  * Options for parsing a block.
@@ -34,6 +35,10 @@ export interface IFlowGraphBlockParseOptions {
      * The path converter to use to convert the path to an object accessor.
      */
     pathConverter?: IPathToObjectConverter<IObjectAccessor>;
+    /**
+     * The sub-graphs that can be instantiated by the sub-graph blocks.
+     */
+    subGraphs?: FlowGraphSubGraph[];
 }
 
 /**
@@ -0,0 +1,808 @@
+import { Animation } from "../Animations/animation";
+import { AnimationGroup } from "../Animations/animationGroup";
+import type { EasingFunction } from "../Animations/easing";
+import { Constants } from "../Engines/constants";
+import type { AbstractMesh } from "../Meshes/abstractMesh";
+import type { Node } from "../node";
+import type { Observer } from "../Misc/observable";
+import { Logger } from "../Misc/logger";
+import { AdvancedTimer } from "../Misc/timer";
+import { GetClass } from "../Misc/typeStore";
+import type { IObjectInfo, IPathToObjectConverter } from "../ObjectModel/objectModelInterfaces";
+import type { Nullable } from "../types";
+import type { Scene } from "../scene";
+import type { IAssetContainer } from "core/IAssetContainer";
+import { FlowGraphCoordinator } from "./flowGraphCoordinator";
+import { FlowGraphState } from "./flowGraph";
+import { FlowGraphEventType } from "./flowGraphEventType";
+import type { IFlowGraphEventTrigger } from "./flowGraphSceneEventCoordinator";
+import { FlowGraphSceneEventCoordinator } from "./flowGraphSceneEventCoordinator";
+import type { FlowGraphNumber } from "./utils";
+import { _IsDescendantOf, getNumericValue } from "./utils";
+import { FlowGraphInteger } from "./CustomTypes/flowGraphInteger";
+import { getRichTypeByAnimationType, getRichTypeByFlowGraphType } from "./flowGraphRichTypes";
+import { _CreateAccessorAnimations, _GetAccessorValue, _GetPathAccessor, _SetAccessorValue } from "./flowGraphPathConverterComponent";
+import { defaultValueParseFunction } from "./serialization";
+import type { IObjectAccessor } from "./typeDefinitions";
+import { blockFactory } from "./Blocks/flowGraphBlockFactory";
+import type { FlowGraphBlockNames } from "./Blocks/flowGraphBlockNames";
+import type { IFlowGraphOnTickEventPayload } from "./Blocks/Event/flowGraphSceneTickEventBlock";
+import type { EasingFunctionType } from "./Blocks/Execution/Animation/flowGraphEasingBlock";
+import { _CreateEasingFunction } from "./Blocks/Execution/Animation/flowGraphEasingBlock";
+
+/**
+ * A flow graph compiled with CompileFlowGraphAsync.
+ */
+export interface IFlowGraphCompiledModule {
+    /**
+     * The class names of the blocks whose operations are used by the compiled graph
+     */
+    requiredBlocks: string[];
+    /**
+     * Creates the variables and functions of the compiled graph, and registers its events to the runtime.
+     * @param runtime the compiled graph being created
+     */
+    create(runtime: FlowGraphCompiledGraph): void;
+}
+
+/**
+ * Parameters used to create a compiled flow graph.
+ */
+export interface IFlowGraphCompiledGraphParams {
+    /**
+     * The scene that the compiled flow graph belongs to.
+     */
+    scene: Scene;
+    /**
+     * The event coordinator used by the compiled flow graph.
+     */
+    coordinator: FlowGraphCoordinator;
+    /**
+     * The assets container the values of the graph are read from. Defaults to the scene.
+     */
+    assetsContext?: IAssetContainer;
+    /**
+     * A function that parses complex values in a scene.
+     * @param key the key of the value
+     * @param serializationObject the object to read the value from
+     * @param scene the scene to read the value from
+     */
+    valueParseFunction?: (key: string, serializationObject: any, assetsContainer: IAssetContainer, scene: Scene) => any;
+    /**
+     * The path converter used by the JSON pointer blocks of the graph.
+     */
+    pathConverter?: IPathToObjectConverter<IObjectAccessor>;
+}
+
+/**
+ * The inputs of an animation played by a compiled flow graph, like the inputs of the play animation block.
+ */
+export interface IFlowGraphCompiledAnimationInputs {
+    /**
+     * The animation group to play
+     */
+    animationGroup?: AnimationGroup;
+    /**
+     * The animations to play on the object, if no animation group is provided
+     */
+    animation?: Animation | Animation[];
+    /**
+     * The object animated by the animations
+     */
+    object?: any;
+    /**
+     * The speed of the animation. 0 plays at normal speed.
+     */
+    speed?: number;
+    /**
+     * Whether the animation loops
+     */
+    loop?: boolean;
+    /**
+     * The starting frame of the animation
+     */
+    from?: number;
+    /**
+     * The ending frame of the animation. 0 plays until the end of the animation group.
+     */
+    to?: number;
+}
+
+/**
+ * The callbacks of an animation played by a compiled flow graph, activating the signal outputs of the play animation block.
+ */
+export interface IFlowGraphCompiledAnimationCallbacks {
+    /**
+     * Called when the animation group ends
+     */
+    onAnimationGroupEnd: () => void;
+    /**
+     * Called when an animation of the group ends
+     */
+    onAnimationEnd: () => void;
+    /**
+     * Called when an animation of the group loops
+     */
+    onAnimationLoop: () => void;
+    /**
+     * Called when the animation group loops
+     */
+    onAnimationGroupLoop: () => void;
+    /**
+     * Called when the animation cannot be played
+     */
+    onError: () => void;
+}
+
+/**
+ * Options for loading a compiled flow graph.
+ */
+export interface IFlowGraphCompiledGraphLoadOptions extends Omit<IFlowGraphCompiledGraphParams, "scene"> {}
+
+/**
+ * Class used to run a flow graph compiled with CompileFlowGraphAsync, in place of the interpreted graph.
+ * It runs the compiled code on the events of the scene and of the coordinator, and holds the variables of the graph.
+ * The methods that are not part of the public API of the graph are used by the compiled code.
+ *
+ * @experimental FlowGraph is still in development and is subject to change.
+ */
+export class FlowGraphCompiledGraph {
+    /**
+     * The user variables of the graph
+     */
+    public readonly variables: { [key: string]: any } = {};
+
+    private readonly _scene: Scene;
+    private readonly _coordinator: FlowGraphCoordinator;
+    private readonly _assetsContext: IAssetContainer;
+    private readonly _valueParseFunction: (key: string, serializationObject: any, assetsContainer: IAssetContainer, scene: Scene) => any;
+    private readonly _sceneEventCoordinator: FlowGraphSceneEventCoordinator;
+    private _eventObserver: Nullable<Observer<IFlowGraphEventTrigger>>;
+    private _state: FlowGraphState = FlowGraphState.Stopped;
+    private readonly _sceneReadyCallbacks: (() => void)[] = [];
+    private readonly _tickCallbacks: ((timeSinceStart: number, deltaTime: number) => void)[] = [];
+    private readonly _customEventCallbacks: { eventId: string; callback: (eventData: any) => void; onError?: () => void }[] = [];
+    private readonly _customEventObservers: { eventId: string; observer: Observer<any> }[] = [];
+    private readonly _pointerEventCallbacks: { type: FlowGraphEventType; callback: (payload: any) => boolean; getTargetMesh?: () => Nullable<AbstractMesh> }[] = [];
+    private readonly _pendingTickCallbacks: (() => void)[] = [];
+    private readonly _disposeCallbacks: (() => void)[] = [];
+    private readonly _pathConverter?: IPathToObjectConverter<IObjectAccessor>;
+    private readonly _runningAnimationGroups: AnimationGroup[] = [];
+    private readonly _pendingStopAnimations: { animationGroup: AnimationGroup; stopAtFrame: number; onStopped: () => void }[] = [];
+    private readonly _interpolationAnimations: number[] = [];
+    private readonly _easingFunctions: { [key: string]: EasingFunction } = {};
+    private readonly _delays: AdvancedTimer[] = [];
+
+    /**
+     * The state of the graph
+     */
+    public get state() {
+        return this._state;
+    }
+
+    /**
+     * Construct a compiled flow graph
+     * @param compiledGraph the compiled graph
+     * @param params construction parameters
+     */
+    public constructor(compiledGraph: IFlowGraphCompiledModule, params: IFlowGraphCompiledGraphParams) {
+        this._scene = params.scene;
+        this._coordinator = params.coordinator;
+        this._assetsContext = params.assetsContext ?? params.scene;
+        this._valueParseFunction = params.valueParseFunction ?? defaultValueParseFunction;
+        this._pathConverter = params.pathConverter;
+        this._sceneEventCoordinator = new FlowGraphSceneEventCoordinator(this._scene);
+
+        this._eventObserver = this._sceneEventCoordinator.onEventTriggeredObservable.add((event) => {
+            if (this._state !== FlowGraphState.Started) {
+                return;
+            }
+            switch (event.type) {
+                case FlowGraphEventType.SceneReady:
+                    this._sceneEventCoordinator.sceneReadyTriggered = true;
+                    for (const callback of this._sceneReadyCallbacks) {
+                        callback();
+                    }
+                    break;
+                case FlowGraphEventType.SceneBeforeRender: {
+                    const payload = event.payload as IFlowGraphOnTickEventPayload;
+                    for (const callback of this._tickCallbacks) {
+                        callback(payload.timeSinceStart, payload.deltaTime);
+                    }
+                    for (const callback of this._pendingTickCallbacks) {
+                        callback();
+                    }
+                    this._stopPendingAnimations();
+                    break;
+                }
+                case FlowGraphEventType.PointerOver:
+                case FlowGraphEventType.PointerOut:
+                case FlowGraphEventType.MeshPick:
+                    this._notifyPointerEvent(event.type, event.payload);
+                    break;
+                case FlowGraphEventType.SceneDispose:
+                    this.dispose();
+                    break;
+            }
+        });
+
+        compiledGraph.create(this);
+    }
+
+    /**
+     * Starts the graph, listening to the events of the scene and of the coordinator.
+     */
+    public start() {
+        if (this._state === FlowGraphState.Started) {
+            return;
+        }
+        this._state = FlowGraphState.Started;
+        for (const { eventId, callback, onError } of this._customEventCallbacks) {
+            const observable = this._coordinator.getCustomEventObservable(eventId);
+            // like the interpreted graph, limit the number of observers of an event
+            if (observable.hasObservers() && observable.observers.length > FlowGraphCoordinator.MaxEventsPerType) {
+                onError?.();
+                continue;
+            }
+            this._customEventObservers.push({ eventId, observer: observable.add(callback) });
+        }
+        // if the scene is already ready when the graph starts, trigger the scene ready event
+        if (this._scene.isReady(true)) {
+            this._sceneEventCoordinator.onEventTriggeredObservable.notifyObservers({ type: FlowGraphEventType.SceneReady });
+        }
+    }
+
+    /**
+     * Disposes of the graph, removing all of its event listeners.
+     */
+    public dispose() {
+        if (this._state === FlowGraphState.Stopped) {
+            return;
+        }
+        this._state = FlowGraphState.Stopped;
+        for (const { eventId, observer } of this._customEventObservers) {
+            this._coordinator.getCustomEventObservable(eventId).remove(observer);
+        }
+        this._customEventObservers.length = 0;
+        for (const callback of this._disposeCallbacks) {
+            callback();
+        }
+        for (const delay of this._delays) {
+            delay.dispose();
+        }
+        this._pendingStopAnimations.length = 0;
+        this._eventObserver?.remove();
+        this._eventObserver = null;
+        this._sceneEventCoordinator.dispose();
+    }
+
+    /**
+     * @param name the name of the variable
+     * @returns whether the graph has a variable with this name
+     */
+    public hasVariable(name: string): boolean {
+        return name in this.variables;
+    }
+
+    /**
+     * @param name the name of the variable
+     * @returns the value of the variable
+     */
+    public getVariable(name: string): any {
+        return this.variables[name];
+    }
+
+    /**
+     * Sets a variable of the graph.
+     * @param name the name of the variable
+     * @param value the value of the variable
+     */
+    public setVariable(name: string, value: any) {
+        this.variables[name] = value;
+    }
+
+    /**
+     * Parses the serialized values used by the compiled graph.
+     * @param serializedValues the serialized values
+     * @returns the parsed values
+     */
+    public parseValues(serializedValues: any[]): any[] {
+        return serializedValues.map((value) => this._valueParseFunction("value", { value }, this._assetsContext, this._scene));
+    }
+
+    /**
+     * Gets the operation of an operation block class, configured with a serialized configuration.
+     * @param className the class name of the block
+     * @param serializedConfig the serialized configuration of the block
+     * @returns the operation
+     */
+    public getOperation(className: string, serializedConfig: any): (...args: any[]) => any {
+        const classType = GetClass(className);
+        if (!classType) {
+            throw new Error(`Block ${className} is not loaded`);
+        }
+        const config: any = {};
+        for (const key in serializedConfig) {
+            config[key] = this._valueParseFunction(key, serializedConfig, this._assetsContext, this._scene);
+        }
+        return new classType(config)._operation;
+    }
+
+    /**
+     * @param typeName the flow graph type
+     * @returns the function transforming the values of a connection of this type
+     */
+    public getTypeTransformer(typeName: string): (value: any) => any {
+        return getRichTypeByFlowGraphType(typeName).typeTransformer;
+    }
+
+    /**
+     * @param value a number or a flow graph integer
+     * @returns the numeric value
+     */
+    public getNumericValue(value: FlowGraphNumber): number {
+        return getNumericValue(value);
+    }
+
+    /**
+     * @param value the value of the integer
+     * @returns a flow graph integer
+     */
+    public createInteger(value: number): FlowGraphInteger {
+        return new FlowGraphInteger(value);
+    }
+
+    /**
+     * Logs a message, like the console log block.
+     * @param message the message
+     * @param logType the type of log, "log", "warn" or "error"
+     */
+    public log(message: any, logType: string) {
+        if (logType === "warn") {
+            Logger.Warn(message);
+        } else if (logType === "error") {
+            Logger.Error(message);
+        } else {
+            Logger.Log(message);
+        }
+    }
+
+    /**
+     * Registers a callback called when the scene is ready.
+     * @param callback the callback
+     */
+    public onSceneReady(callback: () => void) {
+        this._sceneReadyCallbacks.push(callback);
+    }
+
+    /**
+     * Registers a callback called before each frame is rendered.
+     * @param callback the callback, receiving the time since the start of the scene and the time since the last frame
+     */
+    public onTick(callback: (timeSinceStart: number, deltaTime: number) => void) {
+        this._tickCallbacks.push(callback);
+    }
+
+    /**
+     * Registers a callback called when a custom event is sent to the coordinator, while the graph is started.
+     * @param eventId the id of the event
+     * @param callback the callback, receiving the data of the event
+     * @param onError called when the event has too many observers to be listened to
+     */
+    public onCustomEvent(eventId: string, callback: (eventData: any) => void, onError?: () => void) {
+        this._customEventCallbacks.push({ eventId, callback, onError });
+    }
+
+    /**
+     * Sends a custom event to the coordinator.
+     * @param eventId the id of the event
+     * @param eventData the data of the event
+     */
+    public sendCustomEvent(eventId: string, eventData: any) {
+        this._coordinator.notifyCustomEvent(eventId, eventData);
+    }
+
+    /**
+     * Registers a callback called on a pointer event of the scene, like the pointer and mesh pick event blocks.
+     * The mesh pick callbacks of descendants of a mesh are called before the callbacks of the mesh.
+     * @param type the type of the event, PointerOver, PointerOut or MeshPick
+     * @param callback the callback, receiving the payload of the event and returning false to stop its propagation
+     * @param getTargetMesh returns the mesh listened to by a mesh pick callback
+     */
+    public onPointerEvent(type: FlowGraphEventType, callback: (payload: any) => boolean, getTargetMesh?: () => Nullable<AbstractMesh>) {
+        if (type === FlowGraphEventType.PointerOver || type === FlowGraphEventType.PointerOut) {
+            this._scene.constantlyUpdateMeshUnderPointer = true;
+        }
+        this._pointerEventCallbacks.push({ type, callback, getTargetMesh });
+    }
+
+    /**
+     * Registers a callback called before each frame is rendered, after the tick callbacks, like the pending tasks of the asynchronous blocks.
+     * @param callback the callback
+     */
+    public onPendingTick(callback: () => void) {
+        this._pendingTickCallbacks.push(callback);
+    }
+
+    /**
+     * Registers a callback called when the graph is disposed, to cancel the pending tasks of the blocks.
+     * @param callback the callback
+     */
+    public onDispose(callback: () => void) {
+        this._disposeCallbacks.push(callback);
+    }
+
+    /**
+     * @param node a node
+     * @param ancestor another node
+     * @returns whether the node is a descendant of the other node
+     */
+    public isDescendantOf(node: Node, ancestor: Node): boolean {
+        return _IsDescendantOf(node, ancestor);
+    }
+
+    /**
+     * Gets the value of a property, like the get property block.
+     * @param target the object owning the property
+     * @param propertyName the name of the property, with dots separating the path to the property
+     * @param customGetFunction a function used to get the value instead of reading the property
+     * @returns the value of the property, or undefined if not found
+     */
+    public getProperty(target: any, propertyName: string, customGetFunction?: (target: any, propertyName: string) => any): any {
+        if (customGetFunction) {
+            return customGetFunction(target, propertyName);
+        }
+        if (!target || !propertyName) {
+            return undefined;
+        }
+        let value = target;
+        for (const property of propertyName.split(".")) {
+            value = value[property];
+            if (value === undefined) {
+                return undefined;
+            }
+        }
+        return value;
+    }
+
+    /**
+     * Sets the value of a property, like the set property block. The running animations of the property are stopped.
+     * @param target the object owning the property
+     * @param propertyName the name of the property, with dots separating the path to the property
+     * @param value the new value
+     * @param customSetFunction a function used to set the value instead of writing the property
+     */
+    public setProperty(target: any, propertyName: string, value: any, customSetFunction?: (target: any, propertyName: string, value: any) => void) {
+        for (const animationGroup of this._runningAnimationGroups.slice()) {
+            if (animationGroup.targetedAnimations.some((targetedAnimation) => targetedAnimation.target === target && targetedAnimation.animation.targetProperty === propertyName)) {
+                this.stopAnimationGroup(animationGroup);
+            }
+        }
+        if (customSetFunction) {
+            customSetFunction(target, propertyName, value);
+            return;
+        }
+        const path = propertyName.split(".");
+        let object = target;
+        for (let i = 0; i < path.length - 1; i++) {
+            if (object[path[i]] === undefined) {
+                object[path[i]] = {};
+            }
+            object = object[path[i]];
+        }
+        object[path[path.length - 1]] = value;
+    }
+
+    /**
+     * Gets the accessor of a JSON pointer, like the JSON pointer parser block.
+     * @param jsonPointer the JSON pointer, with templates
+     * @param templateValues the values of the templates of the JSON pointer
+     * @returns the accessor of the property
+     */
+    public getJsonPointerAccessor(jsonPointer: string, templateValues: { [name: string]: FlowGraphInteger }): IObjectInfo<IObjectAccessor> {
+        if (!this._pathConverter) {
+            throw new Error("Path converter is required for this block");
+        }
+        return _GetPathAccessor(jsonPointer, templateValues, this._pathConverter);
+    }
+
+    /**
+     * @param accessor the accessor of a property
+     * @returns the value of the property, with colors converted to vectors
+     */
+    public getAccessorValue(accessor: IObjectInfo<IObjectAccessor>): any {
+        return _GetAccessorValue(accessor);
+    }
+
+    /**
+     * @param accessor the accessor of a property
+     * @param value the new value of the property, with vectors converted to colors
+     */
+    public setAccessorValue(accessor: IObjectInfo<IObjectAccessor>, value: any) {
+        _SetAccessorValue(accessor, value);
+    }
+
+    /**
+     * @param accessor the accessor of a property
+     * @param keys the keys of the animations
+     * @param animationType the type of the values of the keys
+     * @param easingFunction the easing function of the animations
+     * @returns the animations interpolating the property
+     */
+    public createAccessorAnimations(accessor: IObjectInfo<IObjectAccessor>, keys: any[], animationType: number, easingFunction?: EasingFunction): Animation[] {
+        return _CreateAccessorAnimations(accessor, keys, animationType, easingFunction);
+    }
+
+    /**
+     * Creates an easing function, like the easing blocks. Easing functions are shared by the blocks using the same parameters.
+     * @param type the type of the easing function
+     * @param mode the mode of the easing function
+     * @param parameters the parameters of the easing function
+     * @returns the easing function, or undefined if the type or the mode is undefined
+     */
+    public createEasingFunction(type: EasingFunctionType, mode: number, parameters: number[]): EasingFunction | undefined {
+        if (type === undefined || mode === undefined) {
+            return undefined;
+        }
+        const key = `${type}-${mode}-${parameters.join("-")}`;
+        if (!this._easingFunctions[key]) {
+            const easing = _CreateEasingFunction(type, ...parameters);
+            easing.setEasingMode(mode);
+            this._easingFunctions[key] = easing;
+        }
+        return this._easingFunctions[key];
+    }
+
+    /**
+     * Creates the animations interpolating between key frames, like the interpolation block.
+     * @param animationType the type of the animated values, an animation type or a flow graph type
+     * @param keyFrames the durations in seconds and the values of the key frames, starting with the initial value
+     * @param propertyName the name of the animated property, or the names of the animated properties
+     * @param easingFunction the easing function of the animations
+     * @param customBuildAnimation creates the animations instead of animating the properties
+     * @returns the animations
+     */
+    public createInterpolationAnimation(
+        animationType: number | string | undefined,
+        keyFrames: { duration: number; value: any }[],
+        propertyName: string | string[],
+        easingFunction?: EasingFunction,
+        customBuildAnimation?: (target: any, propertyName: any) => (keys: any[], fps: number, animationType: number, easingFunction?: EasingFunction) => Animation | Animation[]
+    ): Animation | Animation[] {
+        const type = typeof animationType === "string" ? getRichTypeByFlowGraphType(animationType) : getRichTypeByAnimationType(animationType ?? Constants.ANIMATIONTYPE_FLOAT);
+        const keys: { frame: number; value: any }[] = [{ frame: 0, value: keyFrames[0].value || type.defaultValue }];
+        for (let i = 1; i < keyFrames.length; i++) {
+            const duration = keyFrames[i].duration;
+            let value = keyFrames[i].value;
+            if (i === keyFrames.length - 2) {
+                value = value || type.defaultValue;
+            }
+            if (duration !== undefined && value) {
+                // convert duration to frames, based on 60 fps
+                keys.push({ frame: duration * 60, value });
+            }
+        }
+        let animations: Animation | Animation[];
+        if (customBuildAnimation) {
+            animations = customBuildAnimation(null, null)(keys, 60, type.animationType, easingFunction);
+        } else {
+            animations = (typeof propertyName === "string" ? [propertyName] : propertyName).map((name) => {
+                const animation = Animation.CreateAnimation(name, type.animationType, 60, easingFunction!);
+                animation.setKeys(keys);
+                return animation;
+            });
+        }
+        // to make sure no 2 interpolations are running on the same target, the animations are marked as interpolations
+        for (const animation of Array.isArray(animations) ? animations : [animations]) {
+            this._interpolationAnimations.push(animation.uniqueId);
+        }
+        return animations;
+    }
+
+    /**
+     * Plays an animation group, or animations on an object, like the play animation block.
+     * @param inputs the inputs of the animation
+     * @param currentAnimationGroup the animation group previously played by the block, disposed if not played again
+     * @param callbacks the callbacks of the animation
+     * @returns the played animation group, or the current animation group if the animation cannot be played
+     */
+    public playAnimation(
+        inputs: IFlowGraphCompiledAnimationInputs,
+        currentAnimationGroup: Nullable<AnimationGroup>,
+        callbacks: IFlowGraphCompiledAnimationCallbacks
+    ): Nullable<AnimationGroup> {
+        if (!inputs.animationGroup && !inputs.animation) {
+            callbacks.onError();
+            return currentAnimationGroup;
+        }
+        // if an animation group was already created, dispose it and create a new one
+        if (currentAnimationGroup && currentAnimationGroup !== inputs.animationGroup) {
+            currentAnimationGroup.dispose();
+        }
+        let animationGroup = inputs.animationGroup;
+        if (!animationGroup) {
+            const target = inputs.object;
+            if (!target) {
+                callbacks.onError();
+                return currentAnimationGroup;
+            }
+            const animations = Array.isArray(inputs.animation) ? inputs.animation : [inputs.animation!];
+            animationGroup = new AnimationGroup("flowGraphAnimationGroup-" + animations[0].name + "-" + target.name, this._scene);
+            let isInterpolation = false;
+            for (const animation of animations) {
+                animationGroup.addTargetedAnimation(animation, target);
+                if (this._interpolationAnimations.indexOf(animation.uniqueId) !== -1) {
+                    isInterpolation = true;
+                }
+            }
+            // stop the running animation groups interpolating the same properties
+            if (isInterpolation) {
+                for (const runningAnimationGroup of this._runningAnimationGroups.slice()) {
+                    if (
+                        runningAnimationGroup.targetedAnimations.some(
+                            (targetedAnimation) =>
+                                targetedAnimation.target === target && animations.some((animation) => animation.targetProperty === targetedAnimation.animation.targetProperty)
+                        )
+                    ) {
+                        this.stopAnimationGroup(runningAnimationGroup);
+                    }
+                }
+            }
+        }
+        // not accepting 0
+        const speed = inputs.speed || 1;
+        const from = inputs.from ?? 0;
+        // not accepting 0
+        const to = inputs.to || animationGroup.to;
+        const loop = !isFinite(to) || !!inputs.loop;
+
+        const index = this._runningAnimationGroups.indexOf(animationGroup);
+        if (index !== -1) {
+            animationGroup.stop();
+            this._runningAnimationGroups.splice(index, 1);
+        }
+        try {
+            const playedAnimationGroup = animationGroup;
+            animationGroup.start(loop, speed, from, to);
+            animationGroup.onAnimationGroupEndObservable.add(() => {
+                this._removeRunningAnimationGroup(playedAnimationGroup);
+                callbacks.onAnimationGroupEnd();
+            });
+            animationGroup.onAnimationEndObservable.add(callbacks.onAnimationEnd);
+            animationGroup.onAnimationLoopObservable.add(callbacks.onAnimationLoop);
+            animationGroup.onAnimationGroupLoopObservable.add(callbacks.onAnimationGroupLoop);
+            this._runningAnimationGroups.push(animationGroup);
+        } catch {
+            callbacks.onError();
+        }
+        return animationGroup;
+    }
+
+    /**
+     * Stops an animation group played by the graph without notifying its end, and disposes it.
+     * @param animationGroup the animation group
+     */
+    public stopAnimationGroup(animationGroup: AnimationGroup) {
+        animationGroup.stop(true);
+        animationGroup.dispose();
+        this._removeRunningAnimationGroup(animationGroup);
+    }
+
+    /**
+     * Stops an animation group played by the graph, like the stop animation block.
+     * @param animationGroup the animation group
+     */
+    public stopAnimation(animationGroup: AnimationGroup) {
+        if (this._removeRunningAnimationGroup(animationGroup)) {
+            animationGroup.stop();
+        }
+    }
+
+    /**
+     * Stops an animation group played by the graph when it reaches a frame, like the stop animation block.
+     * It replaces the previous pending stop of the animation group.
+     * @param animationGroup the animation group
+     * @param stopAtFrame the frame
+     * @param onStopped called when the animation group is stopped
+     */
+    public stopAnimationAtFrame(animationGroup: AnimationGroup, stopAtFrame: number, onStopped: () => void) {
+        this.cancelStopAnimation(animationGroup);
+        this._pendingStopAnimations.push({ animationGroup, stopAtFrame, onStopped });
+    }
+
+    /**
+     * Cancels the pending stop of an animation group.
+     * @param animationGroup the animation group
+     */
+    public cancelStopAnimation(animationGroup: AnimationGroup) {
+        const index = this._pendingStopAnimations.findIndex((pendingStop) => pendingStop.animationGroup === animationGroup);
+        if (index !== -1) {
+            this._pendingStopAnimations.splice(index, 1);
+        }
+    }
+
+    /**
+     * Activates a callback after a delay, like the set delay block.
+     * @param duration the duration of the delay in seconds
+     * @param onEnded called when the delay ends
+     * @returns the index of the delay, to cancel it
+     */
+    public setDelay(duration: number, onEnded: () => void): number {
+        const timer = new AdvancedTimer({
+            timeout: duration * 1000,
+            contextObservable: this._scene.onBeforeRenderObservable,
+            onEnded,
+        });
+        timer.start();
+        this._delays.push(timer);
+        return this._delays.length - 1;
+    }
+
+    /**
+     * Cancels a delay, like the cancel delay block.
+     * @param delayIndex the index of the delay
+     */
+    public cancelDelay(delayIndex: number) {
+        // the disposed timer is kept to keep the indices of the delays
+        this._delays[delayIndex]?.dispose();
+    }
+
+    private _removeRunningAnimationGroup(animationGroup: AnimationGroup): boolean {
+        const index = this._runningAnimationGroups.indexOf(animationGroup);
+        if (index === -1) {
+            return false;
+        }
+        this._runningAnimationGroups.splice(index, 1);
+        return true;
+    }
+
+    private _stopPendingAnimations() {
+        for (const pendingStop of this._pendingStopAnimations.slice()) {
+            if (pendingStop.animationGroup.getCurrentFrame() >= pendingStop.stopAtFrame) {
+                this.stopAnimation(pendingStop.animationGroup);
+                this.cancelStopAnimation(pendingStop.animationGroup);
+                pendingStop.onStopped();
+            }
+        }
+    }
+
+    private _notifyPointerEvent(type: FlowGraphEventType, payload: any) {
+        const callbacks = this._pointerEventCallbacks.filter((candidate) => candidate.type === type);
+        let order = callbacks;
+        if (type === FlowGraphEventType.MeshPick) {
+            // guarantee that picks of children meshes come before picks of parent meshes
+            order = [];
+            for (const callback1 of callbacks) {
+                const mesh1 = callback1.getTargetMesh?.();
+                let i = 0;
+                for (; i < callbacks.length; i++) {
+                    const mesh2 = callbacks[i].getTargetMesh?.();
+                    if (mesh1 && mesh2 && _IsDescendantOf(mesh1, mesh2)) {
+                        break;
+                    }
+                }
+                order.splice(i, 0, callback1);
+            }
+        }
+        for (const { callback } of order) {
+            if (!callback(payload)) {
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Loads a compiled flow graph in a coordinator, in place of the interpreted graph.
+ * The compiled graph can be imported from the module generated by CompileFlowGraphAsync.
+ * @param compiledGraph the compiled graph
+ * @param options the options for loading the graph
+ * @returns a promise resolving to the compiled graph, ready to be started
+ */
+export async function LoadCompiledFlowGraphAsync(compiledGraph: IFlowGraphCompiledModule, options: IFlowGraphCompiledGraphLoadOptions): Promise<FlowGraphCompiledGraph> {
+    // loading the blocks registers their classes, to create their operations
+    await Promise.all(compiledGraph.requiredBlocks.map(async (className) => await blockFactory(className as FlowGraphBlockNames)()));
+    const graph = new FlowGraphCompiledGraph(compiledGraph, { ...options, scene: options.coordinator.config.scene });
+    options.coordinator.addCompiledGraph(graph);
+    return graph;
+}
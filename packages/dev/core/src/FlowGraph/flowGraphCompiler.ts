@@ -0,0 +1,1026 @@
+import type { ISerializedFlowGraph, ISerializedFlowGraphBlock, ISerializedFlowGraphConnection, ISerializedFlowGraphContext } from "./typeDefinitions";
+import { blockFactory } from "./Blocks/flowGraphBlockFactory";
+import { FlowGraphBlockNames } from "./Blocks/flowGraphBlockNames";
+import { FlowGraphUnaryOperationBlock } from "./Blocks/Data/flowGraphUnaryOperationBlock";
+import { FlowGraphBinaryOperationBlock } from "./Blocks/Data/flowGraphBinaryOperationBlock";
+import { FlowGraphTernaryOperationBlock } from "./Blocks/Data/flowGraphTernaryOperationBlock";
+import { FlowGraphConstantOperationBlock } from "./Blocks/Data/flowGraphConstantOperationBlock";
+import { FlowGraphForLoopBlock } from "./Blocks/Execution/ControlFlow/flowGraphForLoopBlock";
+import { FlowGraphWhileLoopBlock } from "./Blocks/Execution/ControlFlow/flowGraphWhileLoopBlock";
+import { EasingFunctionType } from "./Blocks/Execution/Animation/flowGraphEasingBlock";
+import { FlowGraphEventType } from "./flowGraphEventType";
+import { getRichTypeByFlowGraphType } from "./flowGraphRichTypes";
+
+/**
+ * Options of the flow graph compiler.
+ */
+export interface IFlowGraphCompilerOptions {
+    /**
+     * The index of the serialized execution context whose connection values and variables are compiled. Defaults to 0.
+     */
+    contextIndex?: number;
+    /**
+     * The format of the generated code. Defaults to "module".
+     * - "module" generates an ES module whose default export is the compiled graph.
+     * - "function" generates the body of a function returning the compiled graph, to be used with `new Function`.
+     */
+    format?: "module" | "function";
+}
+
+/**
+ * Generates the code of the blocks of a class.
+ * Each function returns JavaScript statements (or an expression for data outputs), using the helpers of the compiled block.
+ */
+export interface IFlowGraphBlockCompiler {
+    /**
+     * Generates the statements executed when a signal input of the block is activated.
+     * @param block the compiled block
+     * @param signalInputName the name of the activated signal input
+     * @returns the statements
+     */
+    compileSignalInput?(block: FlowGraphCompilerBlock, signalInputName: string): string;
+    /**
+     * Generates the expression delivering the value of a data output of the block.
+     * When not provided, or when returning undefined, the output delivers the last value set to its state variable.
+     * @param block the compiled block
+     * @param dataOutputName the name of the data output
+     * @returns the expression
+     */
+    compileDataOutput?(block: FlowGraphCompilerBlock, dataOutputName: string): string | undefined;
+    /**
+     * Generates the statements registering an event block to the runtime when the compiled graph is created.
+     * @param block the compiled block
+     * @returns the statements
+     */
+    compileEvent?(block: FlowGraphCompilerBlock): string;
+}
+
+const BlockCompilers: { [className: string]: IFlowGraphBlockCompiler } = {};
+
+/**
+ * Registers the code generator of a block class, so that graphs using it can be compiled.
+ * @param className the class name of the block
+ * @param compiler the code generator of the block
+ */
+export function RegisterFlowGraphBlockCompiler(className: string, compiler: IFlowGraphBlockCompiler) {
+    BlockCompilers[className] = compiler;
+}
+
+/**
+ * Indents every line of a piece of code.
+ * @param code the code to indent
+ * @param level the number of indentation levels
+ * @returns the indented code
+ */
+function Indent(code: string, level: number = 1): string {
+    const indentation = "    ".repeat(level);
+    return code
+        .split("\n")
+        .map((line) => (line.length ? indentation + line : line))
+        .join("\n");
+}
+
+/**
+ * Joins statements, skipping the empty ones.
+ * @param statements the statements
+ * @returns the joined statements
+ */
+function JoinStatements(...statements: string[]): string {
+    return statements.filter((statement) => statement.length).join("\n");
+}
+
+/**
+ * A block of a graph being compiled. It is given to the block compilers to generate the code of the block.
+ */
+export class FlowGraphCompilerBlock {
+    /**
+     * @internal
+     */
+    public constructor(
+        /**
+         * The serialized block
+         */
+        public readonly serializedBlock: ISerializedFlowGraphBlock,
+        /**
+         * The prefix of the identifiers generated for this block
+         */
+        public readonly id: string,
+        private readonly _compilation: FlowGraphCompilation
+    ) {}
+
+    /**
+     * The class name of the block
+     */
+    public get className(): string {
+        return this.serializedBlock.className;
+    }
+
+    /**
+     * The serialized configuration of the block
+     */
+    public get config(): any {
+        return this.serializedBlock.config ?? {};
+    }
+
+    /**
+     * The names of the data inputs of the block
+     */
+    public get dataInputNames(): string[] {
+        return this.serializedBlock.dataInputs.map((input) => input.name);
+    }
+
+    /**
+     * The names of the data outputs of the block
+     */
+    public get dataOutputNames(): string[] {
+        return this.serializedBlock.dataOutputs.map((output) => output.name);
+    }
+
+    /**
+     * @param name the name of the signal output
+     * @returns whether the block has a signal output with this name
+     */
+    public hasSignalOutput(name: string): boolean {
+        return !!this.serializedBlock.signalOutputs?.some((output) => output.name === name);
+    }
+
+    /**
+     * Generates the expression reading a data input, from its connected output or from its value in the compiled context.
+     * @param name the name of the data input
+     * @returns the expression
+     */
+    public dataInput(name: string): string {
+        return this._compilation._compileDataInput(this, name);
+    }
+
+    /**
+     * Generates the expression of the default value of a data connection of the block.
+     * @param name the name of the data connection
+     * @returns the expression
+     */
+    public defaultValue(name: string): string {
+        const connection =
+            this.serializedBlock.dataInputs.find((candidate) => candidate.name === name) ?? this.serializedBlock.dataOutputs.find((candidate) => candidate.name === name);
+        if (!connection) {
+            throw new Error(`Block ${this.className} has no data connection named ${name}`);
+        }
+        return this.value(connection.defaultValue);
+    }
+
+    /**
+     * Gets the state variable holding the value of a data output, declaring it with the value of the output in the compiled context.
+     * @param name the name of the data output
+     * @returns the identifier of the variable
+     */
+    public dataOutput(name: string): string {
+        const output = this.serializedBlock.dataOutputs.find((candidate) => candidate.name === name);
+        if (!output) {
+            throw new Error(`Block ${this.className} has no data output named ${name}`);
+        }
+        return this.state(name, this.value(this._compilation._getConnectionValue(output)));
+    }
+
+    /**
+     * Generates the statements activating a signal output, calling the signal inputs connected to it.
+     * @param name the name of the signal output
+     * @returns the statements, empty if the output is not connected
+     */
+    public signalOutput(name: string): string {
+        const output = this.serializedBlock.signalOutputs?.find((candidate) => candidate.name === name);
+        if (!output) {
+            return "";
+        }
+        return output.connectedPointIds.map((id) => `${this._compilation._getSignalInputFunction(id)}();`).join("\n");
+    }
+
+    /**
+     * Generates the expression of a serialized value, parsed once when the compiled graph is created.
+     * @param serializedValue the serialized value
+     * @returns the expression
+     */
+    public value(serializedValue: any): string {
+        return this._compilation._compileValue(serializedValue);
+    }
+
+    /**
+     * Declares a state variable of the block, if not already declared.
+     * @param name the name of the state
+     * @param initialValue the expression of the initial value of the state
+     * @param isConstant whether the state is never assigned after its initialization
+     * @returns the identifier of the variable
+     */
+    public state(name: string, initialValue: string = "undefined", isConstant: boolean = false): string {
+        return this._compilation._declareState(this, name, initialValue, isConstant);
+    }
+
+    /**
+     * Adds code, usually functions, to the body of the compiled graph. The code is added once per block and key.
+     * @param key a key identifying the code in the block
+     * @param code a function generating the code
+     */
+    public declare(key: string, code: () => string): void {
+        this._compilation._declare(this, key, code);
+    }
+}
+
+/**
+ * The state of the compilation of a graph.
+ */
+class FlowGraphCompilation {
+    private readonly _blocks: FlowGraphCompilerBlock[] = [];
+    private readonly _compilers = new Map<FlowGraphCompilerBlock, IFlowGraphBlockCompiler>();
+    private readonly _dataOutputs = new Map<string, { block: FlowGraphCompilerBlock; name: string; connection: ISerializedFlowGraphConnection }>();
+    private readonly _signalInputs = new Map<string, { block: FlowGraphCompilerBlock; name: string }>();
+    private readonly _signalInputFunctions = new Map<string, string>();
+    private readonly _dataOutputExpressions = new Map<string, string>();
+    private readonly _states = new Map<string, string>();
+    private readonly _declaredKeys = new Set<string>();
+    private readonly _identifiers = new Set<string>();
+    private readonly _values: any[] = [];
+    private readonly _declarations: string[] = [];
+    private readonly _requiredBlocks = new Set<string>();
+
+    public constructor(
+        private readonly _serializedGraph: ISerializedFlowGraph,
+        private readonly _context: ISerializedFlowGraphContext | undefined
+    ) {}
+
+    public async compileAsync(format: "module" | "function"): Promise<string> {
+        await this._resolveCompilersAsync();
+
+        const events: string[] = [];
+        for (const block of this._blocks) {
+            const compiler = this._compilers.get(block)!;
+            if (compiler.compileEvent) {
+                events.push(compiler.compileEvent(block));
+            }
+        }
+
+        const variables: string[] = [];
+        const userVariables = this._context?._userVariables ?? {};
+        for (const name in userVariables) {
+            variables.push(`variables[${JSON.stringify(name)}] = ${this._compileValue(userVariables[name])};`);
+        }
+
+        const body = [
+            `const values = runtime.parseValues(${JSON.stringify(this._values)});`,
+            "const variables = runtime.variables;",
+            "let executionId = 0;",
+            ...variables,
+            ...this._declarations,
+            ...events,
+        ].join("\n");
+        const requiredBlocks = JSON.stringify(Array.from(this._requiredBlocks).sort());
+        const compiledGraph = `{\n    requiredBlocks: ${requiredBlocks},\n    create(runtime) {\n${Indent(body, 2)}\n    },\n}`;
+        const header = "// Compiled flow graph. Generated code, do not edit.";
+        return format === "function" ? `${header}\nreturn ${compiledGraph};\n` : `${header}\nexport default ${compiledGraph};\n`;
+    }
+
+    private async _resolveCompilersAsync() {
+        const unsupported = new Set<string>();
+        const compilers = await Promise.all(this._serializedGraph.allBlocks.map(async (serializedBlock) => await this._getBlockCompilerAsync(serializedBlock)));
+        for (let index = 0; index < this._serializedGraph.allBlocks.length; index++) {
+            const serializedBlock = this._serializedGraph.allBlocks[index];
+            const block = new FlowGraphCompilerBlock(serializedBlock, `b${index}`, this);
+            const compiler = compilers[index];
+            if (!compiler) {
+                unsupported.add(serializedBlock.className);
+                continue;
+            }
+            this._blocks.push(block);
+            this._compilers.set(block, compiler);
+            for (const output of serializedBlock.dataOutputs) {
+                this._dataOutputs.set(output.uniqueId, { block, name: output.name, connection: output });
+            }
+            for (const input of serializedBlock.signalInputs ?? []) {
+                this._signalInputs.set(input.uniqueId, { block, name: input.name });
+            }
+        }
+        if (unsupported.size) {
+            throw new Error(`The flow graph cannot be compiled, the following blocks are not supported: ${Array.from(unsupported).join(", ")}`);
+        }
+    }
+
+    private async _getBlockCompilerAsync(serializedBlock: ISerializedFlowGraphBlock): Promise<IFlowGraphBlockCompiler | undefined> {
+        // the send custom event block serializes with the class name of the receive block, but it is the only one with an "in" signal and no "done" signal
+        if (serializedBlock.className === FlowGraphBlockNames.ReceiveCustomEvent && !serializedBlock.signalOutputs?.some((output) => output.name === "done")) {
+            return BlockCompilers[FlowGraphBlockNames.SendCustomEvent];
+        }
+        const compiler = BlockCompilers[serializedBlock.className];
+        if (compiler) {
+            return compiler;
+        }
+        let classType: any;
+        try {
+            classType = await blockFactory(serializedBlock.className as FlowGraphBlockNames)();
+        } catch {
+            return undefined;
+        }
+        const prototype = classType?.prototype;
+        let inputs: string[] | undefined;
+        if (prototype instanceof FlowGraphUnaryOperationBlock) {
+            inputs = ["a"];
+        } else if (prototype instanceof FlowGraphBinaryOperationBlock) {
+            inputs = ["a", "b"];
+        } else if (prototype instanceof FlowGraphTernaryOperationBlock) {
+            inputs = ["a", "b", "c"];
+        } else if (prototype instanceof FlowGraphConstantOperationBlock && serializedBlock.dataInputs.length === 0) {
+            // constant operations reading inputs, like random, need the interpreted context
+            inputs = [];
+        }
+        if (!inputs) {
+            return undefined;
+        }
+        this._requiredBlocks.add(serializedBlock.className);
+        const operationInputs = inputs;
+        return CreateCachedOperationCompiler((block) => {
+            const operation = block.state("operation", `runtime.getOperation(${JSON.stringify(block.className)}, ${JSON.stringify(block.serializedBlock.config ?? {})})`, true);
+            return `const result = ${operation}(${operationInputs.map((input) => block.dataInput(input)).join(", ")});`;
+        });
+    }
+
+    /** @internal */
+    public _getConnectionValue(connection: ISerializedFlowGraphConnection): any {
+        return this._context?._connectionValues?.[connection.uniqueId] ?? connection.defaultValue;
+    }
+
+    /** @internal */
+    public _compileValue(serializedValue: any): string {
+        if (serializedValue === undefined) {
+            return "undefined";
+        }
+        if (serializedValue === null || typeof serializedValue !== "object") {
+            return JSON.stringify(serializedValue);
+        }
+        this._values.push(serializedValue);
+        return `values[${this._values.length - 1}]`;
+    }
+
+    /** @internal */
+    public _compileDataInput(block: FlowGraphCompilerBlock, name: string): string {
+        const input = block.serializedBlock.dataInputs.find((candidate) => candidate.name === name);
+        if (!input) {
+            throw new Error(`Block ${block.className} has no data input named ${name}`);
+        }
+        let expression: string;
+        if (input.connectedPointIds.length) {
+            const source = this._dataOutputs.get(input.connectedPointIds[0]);
+            if (!source) {
+                throw new Error(`Could not find the data output connected to the input ${name} of block ${block.className}`);
+            }
+            expression = this._compileDataOutput(source.block, source.name, source.connection);
+        } else {
+            expression = this._compileValue(this._getConnectionValue(input));
+        }
+        return this._applyTypeTransformer(input, expression);
+    }
+
+    private _compileDataOutput(block: FlowGraphCompilerBlock, name: string, connection: ISerializedFlowGraphConnection): string {
+        let expression = this._dataOutputExpressions.get(connection.uniqueId);
+        if (expression === undefined) {
+            expression = this._compilers.get(block)!.compileDataOutput?.(block, name) ?? block.dataOutput(name);
+            expression = this._applyTypeTransformer(connection, expression);
+            this._dataOutputExpressions.set(connection.uniqueId, expression);
+        }
+        return expression;
+    }
+
+    private _applyTypeTransformer(connection: ISerializedFlowGraphConnection, expression: string): string {
+        const typeName = connection.richType?.typeName;
+        const typeTransformer: ((value: any) => any) | undefined = typeName ? getRichTypeByFlowGraphType(typeName).typeTransformer : undefined;
+        if (typeName && typeTransformer) {
+            const transformer = this._declareState(undefined, `transform${typeName}`, `runtime.getTypeTransformer(${JSON.stringify(typeName)})`, true);
+            return `${transformer}(${expression})`;
+        }
+        return expression;
+    }
+
+    /** @internal */
+    public _getSignalInputFunction(signalInputId: string): string {
+        let functionName = this._signalInputFunctions.get(signalInputId);
+        if (functionName) {
+            return functionName;
+        }
+        const target = this._signalInputs.get(signalInputId);
+        if (!target) {
+            throw new Error(`Could not find the signal input ${signalInputId}`);
+        }
+        functionName = this._createIdentifier(`${target.block.id}_${target.name}`);
+        // registered before compiling the body, so that cycles call the function being generated
+        this._signalInputFunctions.set(signalInputId, functionName);
+        const compiler = this._compilers.get(target.block)!;
+        if (!compiler.compileSignalInput) {
+            throw new Error(`Block ${target.block.className} cannot be executed`);
+        }
+        const body = compiler.compileSignalInput(target.block, target.name);
+        this._declarations.push(`function ${functionName}() {\n${Indent(JoinStatements(body, "executionId++;"))}\n}`);
+        return functionName;
+    }
+
+    /** @internal */
+    public _declareState(block: FlowGraphCompilerBlock | undefined, name: string, initialValue: string, isConst = false): string {
+        const key = `${block?.id ?? ""}/${name}`;
+        let identifier = this._states.get(key);
+        if (!identifier) {
+            identifier = this._createIdentifier(block ? `${block.id}_${name}` : name);
+            this._states.set(key, identifier);
+            this._declarations.push(`${isConst ? "const" : "let"} ${identifier} = ${initialValue};`);
+        }
+        return identifier;
+    }
+
+    /** @internal */
+    public _declare(block: FlowGraphCompilerBlock, key: string, code: () => string) {
+        const declarationKey = `${block.id}/${key}`;
+        if (!this._declaredKeys.has(declarationKey)) {
+            this._declaredKeys.add(declarationKey);
+            this._declarations.push(code());
+        }
+    }
+
+    private _createIdentifier(base: string): string {
+        const sanitized = base.replace(/[^A-Za-z0-9_$]/g, "_");
+        let identifier = sanitized;
+        for (let i = 1; this._identifiers.has(identifier); i++) {
+            identifier = `${sanitized}_${i}`;
+        }
+        this._identifiers.add(identifier);
+        return identifier;
+    }
+}
+
+/**
+ * Creates the compiler of cached operation blocks, like the operation blocks.
+ * Like the interpreted blocks, the result is cached per execution and invalid if the operation fails.
+ * @param compileOperation generates the statements computing the result of the operation in a "result" constant, and setting the other outputs of the block
+ * @returns the block compiler
+ */
+function CreateCachedOperationCompiler(compileOperation: (block: FlowGraphCompilerBlock) => string): IFlowGraphBlockCompiler {
+    const compileUpdate = (block: FlowGraphCompilerBlock) => {
+        const value = block.dataOutput("value");
+        const isValid = block.dataOutput("isValid");
+        const cachedExecutionId = block.state("executionId", "-1");
+        const update = `${block.id}_update`;
+        block.declare("update", () => {
+            return [
+                `function ${update}() {`,
+                Indent(
+                    [
+                        `if (${cachedExecutionId} === executionId) {`,
+                        "    return;",
+                        "}",
+                        "try {",
+                        Indent(compileOperation(block)),
+                        "    if (result === undefined || result === null) {",
+                        `        ${isValid} = false;`,
+                        "        return;",
+                        "    }",
+                        `    ${value} = result;`,
+                        `    ${isValid} = true;`,
+                        `    ${cachedExecutionId} = executionId;`,
+                        "} catch (e) {",
+                        `    ${isValid} = false;`,
+                        "}",
+                    ].join("\n")
+                ),
+                "}",
+            ].join("\n");
+        });
+        return update;
+    };
+    return {
+        compileDataOutput: (block, name) => `(${compileUpdate(block)}(), ${block.dataOutput(name)})`,
+    };
+}
+
+/**
+ * The compiler of event blocks. An activated "in" signal triggers the done signal, like the interpreted event blocks.
+ * @param compileEvent generates the registration of the event
+ * @returns the block compiler
+ */
+function CreateEventCompiler(compileEvent: (block: FlowGraphCompilerBlock) => string): IFlowGraphBlockCompiler {
+    return {
+        compileEvent,
+        compileSignalInput: (block) => block.signalOutput("done"),
+    };
+}
+
+RegisterFlowGraphBlockCompiler(
+    FlowGraphBlockNames.SceneReadyEvent,
+    CreateEventCompiler((block) => `runtime.onSceneReady(() => {\n${Indent(block.signalOutput("done"))}\n});`)
+);
+
+RegisterFlowGraphBlockCompiler(
+    FlowGraphBlockNames.SceneTickEvent,
+    CreateEventCompiler((block) => {
+        const body = JoinStatements(`${block.dataOutput("timeSinceStart")} = timeSinceStart;`, `${block.dataOutput("deltaTime")} = deltaTime;`, block.signalOutput("done"));
+        return `runtime.onTick((timeSinceStart, deltaTime) => {\n${Indent(body)}\n});`;
+    })
+);
+
+RegisterFlowGraphBlockCompiler(
+    FlowGraphBlockNames.ReceiveCustomEvent,
+    CreateEventCompiler((block) => {
+        const body = block.dataOutputNames.map((name) => {
+            const key = JSON.stringify(name);
+            return `if (Object.prototype.hasOwnProperty.call(eventData, ${key})) {\n    ${block.dataOutput(name)} = eventData[${key}];\n}`;
+        });
+        const onError = block.signalOutput("error");
+        return `runtime.onCustomEvent(${JSON.stringify(block.config.eventId)}, (eventData) => {\n${Indent(JoinStatements(...body, block.signalOutput("done")))}\n}${onError ? `, () => {\n${Indent(onError)}\n}` : ""});`;
+    })
+);
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.SendCustomEvent, {
+    compileSignalInput: (block) => {
+        const eventData = block.dataInputNames.map((name) => `${JSON.stringify(name)}: ${block.dataInput(name)}`).join(", ");
+        return JoinStatements(`runtime.sendCustomEvent(${JSON.stringify(block.config.eventId)}, { ${eventData} });`, block.signalOutput("out"));
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.ConsoleLog, {
+    compileSignalInput: (block) => {
+        const lines = [`const logType = ${block.dataInput("logType")};`];
+        const template: string | undefined = block.config.messageTemplate;
+        if (template) {
+            lines.push(`let message = ${JSON.stringify(template)};`);
+            const regex = /\{([^}]+)\}/g;
+            let match;
+            while ((match = regex.exec(template)) !== null) {
+                lines.push(`{`, `    const value = ${block.dataInput(match[1])};`, `    if (value !== undefined) {`);
+                lines.push(`        message = message.split(${JSON.stringify(match[0])}).join(value.toString());`, `    }`, `}`);
+            }
+        } else {
+            lines.push(`const message = ${block.dataInput("message")};`);
+        }
+        lines.push("runtime.log(message, logType);");
+        return JoinStatements(`{\n${Indent(lines.join("\n"))}\n}`, block.signalOutput("out"));
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.SetVariable, {
+    compileSignalInput: (block) => {
+        const lines: string[] = [];
+        if (block.config.variables) {
+            for (const variable of block.config.variables as string[]) {
+                lines.push(`variables[${JSON.stringify(variable)}] = ${block.dataInput(variable)};`);
+            }
+        } else {
+            lines.push(`variables[${JSON.stringify(block.config.variable)}] = ${block.dataInput("value")};`);
+        }
+        return JoinStatements(...lines, block.signalOutput("out"));
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.Branch, {
+    compileSignalInput: (block) => {
+        const onFalse = block.signalOutput("onFalse");
+        return JoinStatements(`if (${block.dataInput("condition")}) {`, Indent(block.signalOutput("onTrue")), onFalse ? `} else {\n${Indent(onFalse)}` : "", "}");
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.Sequence, {
+    compileSignalInput: (block) => {
+        const lines: string[] = [];
+        for (let i = 0; block.hasSignalOutput(`out_${i}`); i++) {
+            lines.push(block.signalOutput(`out_${i}`));
+        }
+        return JoinStatements(...lines);
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.ForLoop, {
+    compileSignalInput: (block) => {
+        const index = block.dataOutput("index");
+        const lines = [
+            `const startIndex = runtime.getNumericValue(${block.dataInput("startIndex")});`,
+            `const step = ${block.dataInput("step")};`,
+            `let endIndex = runtime.getNumericValue(${block.dataInput("endIndex")});`,
+            "for (let i = startIndex; i < endIndex; i += step) {",
+            Indent(
+                JoinStatements(
+                    `${index} = runtime.createInteger(i);`,
+                    block.signalOutput("executionFlow"),
+                    `endIndex = runtime.getNumericValue(${block.dataInput("endIndex")});`,
+                    `if (i > ${FlowGraphForLoopBlock.MaxLoopIterations} * step) {`,
+                    "    break;",
+                    "}"
+                )
+            ),
+            "}",
+        ];
+        if (block.config.incrementIndexWhenLoopDone) {
+            lines.push(`${index} = runtime.createInteger(runtime.getNumericValue(${index}) + step);`);
+        }
+        lines.push(block.signalOutput("completed"));
+        return `{\n${Indent(JoinStatements(...lines))}\n}`;
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.WhileLoop, {
+    compileSignalInput: (block) => {
+        const condition = block.dataInput("condition");
+        const executionFlow = block.signalOutput("executionFlow");
+        const lines = [`let condition = ${condition};`];
+        if (block.config.doWhile) {
+            lines.push(`if (!condition) {\n${Indent(executionFlow)}\n}`);
+        }
+        lines.push(
+            "let i = 0;",
+            "while (condition) {",
+            Indent(
+                JoinStatements(
+                    executionFlow,
+                    "++i;",
+                    `if (i >= ${FlowGraphWhileLoopBlock.MaxLoopCount}) {`,
+                    `    runtime.log("FlowGraphWhileLoopBlock: Max loop count reached. Breaking.", "warn");`,
+                    "    break;",
+                    "}",
+                    `condition = ${condition};`
+                )
+            ),
+            "}",
+            block.signalOutput("completed")
+        );
+        return `{\n${Indent(JoinStatements(...lines))}\n}`;
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.FlipFlop, {
+    compileSignalInput: (block) => {
+        const startValue = block.config.startValue;
+        const state = block.state("state", typeof startValue === "boolean" ? `${!startValue}` : "false");
+        const value = block.dataOutput("value");
+        return JoinStatements(
+            `${state} = !${state};`,
+            `${value} = ${state};`,
+            `if (${value}) {`,
+            Indent(block.signalOutput("onOn")),
+            "} else {",
+            Indent(block.signalOutput("onOff")),
+            "}"
+        );
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.DoN, {
+    compileSignalInput: (block, signalInputName) => {
+        const executionCount = block.dataOutput("executionCount");
+        if (signalInputName === "reset") {
+            return `${executionCount} = ${block.config.startIndex !== undefined ? block.value(block.config.startIndex) : "runtime.createInteger(0)"};`;
+        }
+        const lines = [
+            `if (${executionCount}.value < ${block.dataInput("maxExecutions")}.value) {`,
+            Indent(JoinStatements(`${executionCount} = runtime.createInteger(${executionCount}.value + 1);`, block.signalOutput("out"))),
+            "}",
+        ];
+        return lines.join("\n");
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.CallCounter, {
+    compileSignalInput: (block, signalInputName) => {
+        const counter = block.state("counter", "0");
+        const count = block.dataOutput("count");
+        if (signalInputName === "reset") {
+            return `${counter} = 0;\n${count} = 0;`;
+        }
+        return JoinStatements(`${counter}++;`, `${count} = ${counter};`, block.signalOutput("out"));
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.Constant, {
+    compileDataOutput: (block) => block.value(block.config.value),
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.GetVariable, {
+    compileDataOutput: (block) => {
+        const name = JSON.stringify(block.config.variable);
+        const value = block.dataOutput("value");
+        return `(${name} in variables ? (${value} = variables[${name}]) : ${value})`;
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.Conditional, {
+    compileDataOutput: (block) => `(${block.dataOutput("output")} = ${block.dataInput("condition")} ? ${block.dataInput("onTrue")} : ${block.dataInput("onFalse")})`,
+});
+
+/**
+ * Generates the statements catching the errors of statements, like the interpreted blocks reporting errors.
+ * @param statements the statements
+ * @param onError the statements executed on error
+ * @returns the statements
+ */
+function CompileTryCatch(statements: string, onError: string): string {
+    return JoinStatements("try {", Indent(statements), "} catch (e) {", Indent(onError), "}");
+}
+
+/**
+ * Generates the return statement of a pointer event callback, stopping the propagation of the event if configured.
+ * @param block the compiled event block
+ * @returns the statement
+ */
+function CompilePointerEventReturn(block: FlowGraphCompilerBlock): string {
+    return `return ${!block.config.stopPropagation};`;
+}
+
+RegisterFlowGraphBlockCompiler(
+    FlowGraphBlockNames.PointerOverEvent,
+    CreateEventCompiler((block) => {
+        const body = [
+            `const mesh = ${block.dataInput("targetMesh")};`,
+            `${block.dataOutput("meshUnderPointer")} = payload.mesh;`,
+            `${block.dataOutput("pointerId")} = payload.pointerId;`,
+            // skip if the pointer moved from a mesh that is under the hierarchy of the target mesh
+            "if (!(payload.out && runtime.isDescendantOf(payload.out, mesh)) && (payload.mesh === mesh || runtime.isDescendantOf(payload.mesh, mesh))) {",
+            Indent(JoinStatements(block.signalOutput("done"), CompilePointerEventReturn(block))),
+            "}",
+            "return true;",
+        ];
+        return `runtime.onPointerEvent(${JSON.stringify(FlowGraphEventType.PointerOver)}, (payload) => {\n${Indent(body.join("\n"))}\n});`;
+    })
+);
+
+RegisterFlowGraphBlockCompiler(
+    FlowGraphBlockNames.PointerOutEvent,
+    CreateEventCompiler((block) => {
+        const body = [
+            `const mesh = ${block.dataInput("targetMesh")};`,
+            `${block.dataOutput("meshOutOfPointer")} = payload.mesh;`,
+            `${block.dataOutput("pointerId")} = payload.pointerId;`,
+            "if (!(payload.over && runtime.isDescendantOf(payload.mesh, mesh)) && (payload.mesh === mesh || runtime.isDescendantOf(payload.mesh, mesh))) {",
+            Indent(JoinStatements(block.signalOutput("done"), CompilePointerEventReturn(block))),
+            "}",
+            "return true;",
+        ];
+        return `runtime.onPointerEvent(${JSON.stringify(FlowGraphEventType.PointerOut)}, (payload) => {\n${Indent(body.join("\n"))}\n});`;
+    })
+);
+
+RegisterFlowGraphBlockCompiler(
+    FlowGraphBlockNames.MeshPickEvent,
+    CreateEventCompiler((block) => {
+        const outputs = ["pointerId", "pickOrigin", "pickedPoint", "pickedMesh"];
+        const body = [
+            // continue the propagation of the pointer event to the other blocks
+            `if (${block.dataInput("pointerType")} !== pointerInfo.type) {`,
+            "    return true;",
+            "}",
+            `const mesh = ${block.dataInput("asset")};`,
+            "const pickedMesh = pointerInfo.pickInfo?.pickedMesh;",
+            "if (mesh && pickedMesh && (pickedMesh === mesh || runtime.isDescendantOf(pickedMesh, mesh))) {",
+            Indent(
+                JoinStatements(
+                    `${block.dataOutput("pointerId")} = pointerInfo.event.pointerId;`,
+                    `${block.dataOutput("pickOrigin")} = pointerInfo.pickInfo.ray?.origin;`,
+                    `${block.dataOutput("pickedPoint")} = pointerInfo.pickInfo.pickedPoint;`,
+                    `${block.dataOutput("pickedMesh")} = pickedMesh;`,
+                    block.signalOutput("done"),
+                    CompilePointerEventReturn(block)
+                )
+            ),
+            "}",
+            ...outputs.map((name) => `${block.dataOutput(name)} = ${block.defaultValue(name)};`),
+            "return true;",
+        ];
+        return `runtime.onPointerEvent(${JSON.stringify(FlowGraphEventType.MeshPick)}, (pointerInfo) => {\n${Indent(body.join("\n"))}\n}, () => ${block.dataInput("asset")});`;
+    })
+);
+
+RegisterFlowGraphBlockCompiler(
+    FlowGraphBlockNames.GetProperty,
+    CreateCachedOperationCompiler(
+        (block) => `const result = runtime.getProperty(${block.dataInput("object")}, ${block.dataInput("propertyName")}, ${block.dataInput("customGetFunction")});`
+    )
+);
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.SetProperty, {
+    compileSignalInput: (block) => {
+        const setProperty = `runtime.setProperty(${block.dataInput("object")}, ${block.dataInput("propertyName")}, ${block.dataInput("value")}, ${block.dataInput("customSetFunction")});`;
+        return JoinStatements(CompileTryCatch(setProperty, block.signalOutput("error")), block.signalOutput("out"));
+    },
+});
+
+const JsonPointerParserCachedOperationCompiler = CreateCachedOperationCompiler((block) => {
+    const getAccessor = CompileJsonPointerAccessor(block);
+    return [
+        `const accessor = ${getAccessor}();`,
+        "const result = accessor.info.get(accessor.object);",
+        "const object = accessor.info.getTarget?.(accessor.object);",
+        "const propertyName = accessor.info.getPropertyName?.[0](accessor.object);",
+        "if (!object) {",
+        '    throw new Error("Object is undefined");',
+        "}",
+        `${block.dataOutput("object")} = object;`,
+        "if (propertyName) {",
+        `    ${block.dataOutput("propertyName")} = propertyName;`,
+        "}",
+    ].join("\n");
+});
+
+/**
+ * Declares the function getting the accessor of the JSON pointer of a JSON pointer parser block, with the values of its templates.
+ * @param block the compiled block
+ * @returns the name of the function
+ */
+function CompileJsonPointerAccessor(block: FlowGraphCompilerBlock): string {
+    const getAccessor = `${block.id}_getAccessor`;
+    block.declare("getAccessor", () => {
+        // the data inputs of the block are the templates of the JSON pointer
+        const templateValues = block.dataInputNames.map((name) => `${JSON.stringify(name)}: ${block.dataInput(name)}`).join(", ");
+        return `function ${getAccessor}() {\n    return runtime.getJsonPointerAccessor(${JSON.stringify(block.config.jsonPointer)}, { ${templateValues} });\n}`;
+    });
+    return getAccessor;
+}
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.JsonPointerParser, {
+    compileDataOutput: (block, name) => {
+        const getAccessor = CompileJsonPointerAccessor(block);
+        switch (name) {
+            case "setFunction":
+                return block.state(name, `(target, propertyName, value) => runtime.setAccessorValue(${getAccessor}(), value)`, true);
+            case "getFunction":
+                return block.state(name, `() => runtime.getAccessorValue(${getAccessor}())`, true);
+            case "generateAnimationsFunction":
+                return block.state(
+                    name,
+                    `() => {\n    const accessor = ${getAccessor}();\n    return (keys, fps, animationType, easingFunction) => runtime.createAccessorAnimations(accessor, keys, animationType, easingFunction);\n}`,
+                    true
+                );
+            default:
+                return JsonPointerParserCachedOperationCompiler.compileDataOutput!(block, name);
+        }
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.PlayAnimation, {
+    compileSignalInput: (block) => {
+        const currentAnimationGroup = block.dataOutput("currentAnimationGroup");
+        const currentFrame = block.dataOutput("currentFrame");
+        const currentTime = block.dataOutput("currentTime");
+        // whether the animation is a pending task of the block, updating the outputs on each frame and stopped when the graph is disposed
+        const isPending = block.state("isPending", "false");
+        block.declare("pendingTask", () =>
+            [
+                "runtime.onPendingTick(() => {",
+                `    if (${isPending} && ${currentAnimationGroup}) {`,
+                `        ${currentFrame} = ${currentAnimationGroup}.getCurrentFrame();`,
+                `        ${currentTime} = ${currentAnimationGroup}.animatables[0]?.elapsedTime ?? 0;`,
+                "    }",
+                "});",
+                "runtime.onDispose(() => {",
+                `    if (${isPending} && ${currentAnimationGroup}) {`,
+                `        runtime.stopAnimationGroup(${currentAnimationGroup});`,
+                "    }",
+                "});",
+            ].join("\n")
+        );
+        const inputs = ["animationGroup", "animation", "object", "speed", "loop", "from", "to"].map((name) => `${name}: ${block.dataInput(name)}`).join(", ");
+        const callbacks = [
+            `onAnimationGroupEnd: () => {\n${Indent(JoinStatements(`${isPending} = false;`, block.signalOutput("done")))}\n},`,
+            `onAnimationEnd: () => {\n${Indent(block.signalOutput("animationEndEvent"))}\n},`,
+            `onAnimationLoop: () => {\n${Indent(block.signalOutput("animationLoopEvent"))}\n},`,
+            `onAnimationGroupLoop: () => {\n${Indent(block.signalOutput("animationGroupLoopEvent"))}\n},`,
+            `onError: () => {\n${Indent(JoinStatements(`${currentFrame} = -1;`, `${currentTime} = -1;`, block.signalOutput("error")))}\n},`,
+        ];
+        return JoinStatements(
+            // playing again stops the animation group played before
+            `if (${isPending} && ${currentAnimationGroup}) {`,
+            `    runtime.stopAnimationGroup(${currentAnimationGroup});`,
+            "}",
+            `${currentAnimationGroup} = runtime.playAnimation({ ${inputs} }, ${currentAnimationGroup}, {\n${Indent(callbacks.join("\n"))}\n});`,
+            `${isPending} = true;`,
+            block.signalOutput("out")
+        );
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.StopAnimation, {
+    compileSignalInput: (block) => {
+        const lines = [
+            `const animationGroup = ${block.dataInput("animationGroup")};`,
+            `const stopAtFrame = ${block.dataInput("stopAtFrame")} ?? -1;`,
+            "if (!animationGroup) {",
+            Indent(JoinStatements('runtime.log("No animation group provided to stop.", "warn");', block.signalOutput("error"))),
+            "} else if (isNaN(stopAtFrame)) {",
+            Indent(block.signalOutput("error")),
+            "} else {",
+            Indent(
+                JoinStatements(
+                    "if (stopAtFrame > 0) {",
+                    `    runtime.stopAnimationAtFrame(animationGroup, stopAtFrame, () => {\n${Indent(block.signalOutput("done"), 2)}\n    });`,
+                    "} else {",
+                    "    runtime.stopAnimation(animationGroup);",
+                    "}",
+                    // note that out is not activated in case of an error
+                    block.signalOutput("out")
+                )
+            ),
+            "}",
+        ];
+        return `{\n${Indent(JoinStatements(...lines))}\n}`;
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.PauseAnimation, {
+    compileSignalInput: (block) => JoinStatements(`${block.dataInput("animationToPause")}.pause();`, block.signalOutput("out")),
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.ValueInterpolation, {
+    compileDataOutput: (block) => {
+        const keyFrames: string[] = [];
+        const numberOfKeyFrames: number = block.config.numberOfKeyFrames ?? 1;
+        for (let i = 0; i < numberOfKeyFrames + 1 && block.dataInputNames.includes(`duration_${i}`); i++) {
+            keyFrames.push(`{ duration: ${block.dataInput(`duration_${i}`)}, value: ${block.dataInput(`value_${i}`)} }`);
+        }
+        const args = [
+            block.value(block.config.animationType),
+            `[${keyFrames.join(", ")}]`,
+            block.dataInput("propertyName"),
+            block.dataInput("easingFunction"),
+            block.dataInput("customBuildAnimation"),
+        ].join(", ");
+        return `(${block.dataOutput("animation")} = runtime.createInterpolationAnimation(${args}))`;
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.Easing, {
+    compileDataOutput: (block) => {
+        const easingFunction = block.dataOutput("easingFunction");
+        return `(${easingFunction} = runtime.createEasingFunction(${block.dataInput("type")}, ${block.dataInput("mode")}, ${block.dataInput("parameters")}) ?? ${easingFunction})`;
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.BezierCurveEasing, {
+    compileDataOutput: (block) => {
+        const easingFunction = block.dataOutput("easingFunction");
+        const controlPoints = `[${block.dataInput("controlPoint1")}, ${block.dataInput("controlPoint2")}]`;
+        // a bezier curve easing function is an easing function of type BezierCurveEase, with the coordinates of the control points as parameters
+        const parameters = `${controlPoints}.flatMap((controlPoint) => [controlPoint.x, controlPoint.y])`;
+        return `(${easingFunction} = runtime.createEasingFunction(${EasingFunctionType.BezierCurveEase}, ${block.dataInput("mode")}, ${parameters}) ?? ${easingFunction})`;
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.SetDelay, {
+    compileSignalInput: (block, signalInputName) => {
+        const lastDelayIndex = block.dataOutput("lastDelayIndex");
+        // the indices of the pending delays of the block
+        const delayIndices = block.state("delayIndices", "[]", true);
+        if (signalInputName === "cancel") {
+            return JoinStatements(
+                `for (const delayIndex of ${delayIndices}) {`,
+                "    runtime.cancelDelay(delayIndex);",
+                "}",
+                `${delayIndices}.length = 0;`,
+                `${lastDelayIndex} = runtime.createInteger(-1);`
+            );
+        }
+        const lines = [
+            `const duration = ${block.dataInput("duration")};`,
+            "if (duration < 0 || isNaN(duration) || !isFinite(duration)) {",
+            Indent(block.signalOutput("error")),
+            "} else {",
+            Indent(
+                JoinStatements(
+                    "const delayIndex = runtime.setDelay(duration, () => {",
+                    Indent(JoinStatements(`${delayIndices}.splice(${delayIndices}.indexOf(delayIndex), 1);`, block.signalOutput("done"))),
+                    "});",
+                    `${delayIndices}.push(delayIndex);`,
+                    `${lastDelayIndex} = runtime.createInteger(delayIndex);`
+                )
+            ),
+            "}",
+        ];
+        return JoinStatements(`{\n${Indent(JoinStatements(...lines))}\n}`, block.signalOutput("out"));
+    },
+});
+
+RegisterFlowGraphBlockCompiler(FlowGraphBlockNames.CancelDelay, {
+    compileSignalInput: (block) => {
+        const lines = [
+            `const delayIndex = runtime.getNumericValue(${block.dataInput("delayIndex")});`,
+            "if (delayIndex <= 0 || isNaN(delayIndex) || !isFinite(delayIndex)) {",
+            Indent(block.signalOutput("error")),
+            "} else {",
+            Indent(JoinStatements("runtime.cancelDelay(delayIndex);", block.signalOutput("out"))),
+            "}",
+        ];
+        return `{\n${Indent(JoinStatements(...lines))}\n}`;
+    },
+});
+
+/**
+ * Compiles a serialized flow graph to JavaScript code with the same behavior, without the cost of interpreting the blocks and connections.
+ * Signal inputs become functions calling each other, data connections become expressions and the states of the blocks become variables.
+ * The generated code is loaded with LoadCompiledFlowGraphAsync, in place of the interpreted graph.
+ * Graphs using blocks without a registered compiler (see RegisterFlowGraphBlockCompiler) cannot be compiled.
+ * @param serializedGraph the serialized flow graph
+ * @param options the options of the compiler
+ * @returns a promise resolving to the generated code
+ */
+export async function CompileFlowGraphAsync(serializedGraph: ISerializedFlowGraph, options: IFlowGraphCompilerOptions = {}): Promise<string> {
+    if (serializedGraph.subGraphs?.length) {
+        throw new Error("Flow graphs using sub-graphs cannot be compiled");
+    }
+    const compilation = new FlowGraphCompilation(serializedGraph, serializedGraph.executionContexts?.[options.contextIndex ?? 0]);
+    return await compilation.compileAsync(options.format ?? "module");
+}
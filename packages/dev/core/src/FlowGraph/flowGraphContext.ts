@@ -14,6 +14,7 @@ import type { IAssetContainer } from "core/IAssetContainer";
 import type { Nullable } from "core/types";
 import { FlowGraphAction, FlowGraphLogger } from "./flowGraphLogger";
 import type { IFlowGraphOnTickEventPayload } from "./Blocks/Event/flowGraphSceneTickEventBlock";
+import type { FlowGraphDebugger } from "./flowGraphDebugger";
 
 /**
  * Construction parameters for the context.
@@ -119,6 +120,12 @@ export class FlowGraphContext {
      */
     public logger: Nullable<FlowGraphLogger>;
 
+    /**
+     * The debugger attached to the context, if any.
+     * @internal
+     */
+    public _debugger: Nullable<FlowGraphDebugger> = null;
+
     /**
      * Enable logging on this context
      */
@@ -208,6 +215,13 @@ export class FlowGraphContext {
         return this._userVariables;
     }
 
+    /**
+     * Gets all global context variables map
+     */
+    public get globalContextVariables() {
+        return this._globalContextVariables;
+    }
+
     /**
      * Get the scene that the context belongs to.
      * @returns the scene
@@ -6,6 +6,7 @@ import type { IPathToObjectConverter } from "../ObjectModel/objectModelInterface
 import type { IObjectAccessor } from "./typeDefinitions";
 import type { IAssetContainer } from "core/IAssetContainer";
 import { Logger } from "core/Misc/logger";
+import type { FlowGraphCompiledGraph } from "./flowGraphCompiledGraph";
 
 /**
  * Parameters used to create a flow graph engine.
@@ -69,6 +70,8 @@ export class FlowGraphCoordinator {
 
     private readonly _flowGraphs: FlowGraph[] = [];
 
+    private readonly _compiledGraphs: FlowGraphCompiledGraph[] = [];
+
     private _customEventsMap: Map<string, Observable<any>> = new Map();
 
     private _eventExecutionCounter: Map<string, number> = new Map();
@@ -135,12 +138,36 @@ export class FlowGraphCoordinator {
     }
 
     /**
-     * Starts all graphs
+     * Adds a compiled flow graph to the list of existing compiled graphs.
+     * Compiled graphs are usually added with LoadCompiledFlowGraphAsync.
+     * @param graph the compiled graph to add
+     */
+    public addCompiledGraph(graph: FlowGraphCompiledGraph) {
+        this._compiledGraphs.push(graph);
+    }
+
+    /**
+     * Removes a compiled flow graph from the list of existing compiled graphs and disposes it
+     * @param graph the compiled graph to remove
+     */
+    public removeCompiledGraph(graph: FlowGraphCompiledGraph) {
+        const index = this._compiledGraphs.indexOf(graph);
+        if (index !== -1) {
+            graph.dispose();
+            this._compiledGraphs.splice(index, 1);
+        }
+    }
+
+    /**
+     * Starts all graphs, including the compiled ones
      */
     public start() {
         for (const graph of this._flowGraphs) {
             graph.start();
         }
+        for (const graph of this._compiledGraphs) {
+            graph.start();
+        }
     }
 
     /**
@@ -151,6 +178,10 @@ export class FlowGraphCoordinator {
             graph.dispose();
         }
         this._flowGraphs.length = 0;
+        for (const graph of this._compiledGraphs) {
+            graph.dispose();
+        }
+        this._compiledGraphs.length = 0;
         this._disposeObserver?.remove();
         this._onBeforeRenderObserver?.remove();
 
@@ -184,6 +215,13 @@ export class FlowGraphCoordinator {
         return this._flowGraphs;
     }
 
+    /**
+     * Gets the list of compiled flow graphs
+     */
+    public get compiledGraphs() {
+        return this._compiledGraphs;
+    }
+
     /**
      * Get an observable that will be notified when the event with the given id is fired.
      * @param id the id of the event
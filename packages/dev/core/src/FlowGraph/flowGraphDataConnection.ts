@@ -116,6 +116,15 @@ export class FlowGraphDataConnection<T> extends FlowGraphConnection<FlowGraphBlo
         context._setConnectionValue(this, this._defaultValue);
     }
 
+    /**
+     * @internal
+     * Sets the value used when the connection has no value in a context.
+     * @param value the new default value
+     */
+    public _setDefaultValue(value: T): void {
+        this._defaultValue = value;
+    }
+
     /**
      * Connect this point to another point.
      * @param point the point to connect to.
@@ -0,0 +1,388 @@
+import { Observable } from "../Misc/observable";
+import type { Nullable } from "../types";
+import type { FlowGraphBlock } from "./flowGraphBlock";
+import { FlowGraphConnectionType } from "./flowGraphConnection";
+import type { FlowGraphContext } from "./flowGraphContext";
+import type { FlowGraphDataConnection } from "./flowGraphDataConnection";
+import type { FlowGraphExecutionBlock } from "./flowGraphExecutionBlock";
+import type { FlowGraphSignalConnection } from "./flowGraphSignalConnection";
+
+/**
+ * A breakpoint of the flow graph debugger.
+ */
+export interface IFlowGraphBreakpoint {
+    /**
+     * The block or signal connection the breakpoint is set on.
+     * A breakpoint on a block pauses before any of its input signals is executed.
+     * A breakpoint on an output signal pauses before the blocks connected to it are executed.
+     */
+    target: FlowGraphExecutionBlock | FlowGraphSignalConnection;
+    /**
+     * An optional condition. The execution is paused only if it returns true.
+     */
+    condition?: (context: FlowGraphContext) => boolean;
+    /**
+     * Whether the breakpoint is enabled.
+     */
+    enabled: boolean;
+}
+
+/**
+ * Information about a pause of the flow graph debugger.
+ */
+export interface IFlowGraphDebuggerPauseInfo {
+    /**
+     * The signal connection that was about to be activated when the execution was paused.
+     */
+    connection: FlowGraphSignalConnection;
+    /**
+     * The breakpoint that was hit, or null if the execution was paused with pause().
+     */
+    breakpoint: Nullable<IFlowGraphBreakpoint>;
+}
+
+/**
+ * A signal activation deferred while the debugger is paused.
+ */
+export interface IFlowGraphPendingSignal {
+    /**
+     * The input signal connection to activate.
+     */
+    connection: FlowGraphSignalConnection;
+    /**
+     * The values of the data outputs of the blocks activating the signal, when it was deferred.
+     * They are restored before executing the signal, so that blocks activating their outputs several times (loops, sequences...) provide the right values.
+     */
+    values: Map<FlowGraphDataConnection<any>, any>;
+}
+
+/**
+ * A debugger for the execution of a flow graph context.
+ * It can pause the execution on breakpoints set on blocks and signal connections, step signal by signal, and resume the execution.
+ * It also gives access to the values of the data connections and of the variables of the context, to inspect them while paused.
+ *
+ * Since the flow graph executes synchronously, the execution is not suspended when paused: the signal activations are deferred instead,
+ * and replayed in their original order when stepping or resuming. Events, timers and other asynchronous blocks keep running while paused,
+ * but the signals they activate are deferred as well.
+ *
+ * @experimental FlowGraph is still in development and is subject to change.
+ */
+export class FlowGraphDebugger {
+    /**
+     * An observable triggered when the execution is paused, on a breakpoint or after a call to pause().
+     * Note that it is triggered during the execution of the graph: stepping or resuming should be done later, for example from a UI event.
+     */
+    public onPausedObservable = new Observable<IFlowGraphDebuggerPauseInfo>();
+
+    /**
+     * An observable triggered when the execution is resumed.
+     */
+    public onResumedObservable = new Observable<FlowGraphDebugger>();
+
+    /**
+     * An observable triggered after a signal was executed with step().
+     */
+    public onStepObservable = new Observable<FlowGraphSignalConnection>();
+
+    private _breakpoints: IFlowGraphBreakpoint[] = [];
+    private _watchedConnections: FlowGraphDataConnection<any>[] = [];
+    private _pendingSignals: IFlowGraphPendingSignal[] = [];
+    private _nestedSignals: Nullable<IFlowGraphPendingSignal[]> = null;
+    private _isPaused = false;
+    private _pauseRequested = false;
+    private _skipNextSignal = false;
+    private _pauseInfo: Nullable<IFlowGraphDebuggerPauseInfo> = null;
+
+    /**
+     * Creates a debugger and attaches it to a context. A previous debugger of the context is disposed.
+     * @param context the context to debug
+     */
+    constructor(public readonly context: FlowGraphContext) {
+        context._debugger?.dispose();
+        context._debugger = this;
+    }
+
+    /**
+     * Whether the execution is paused.
+     */
+    public get isPaused() {
+        return this._isPaused;
+    }
+
+    /**
+     * Information about the current pause, or null if the execution is not paused.
+     */
+    public get pauseInfo() {
+        return this._pauseInfo;
+    }
+
+    /**
+     * The breakpoints of the debugger.
+     */
+    public get breakpoints(): ReadonlyArray<IFlowGraphBreakpoint> {
+        return this._breakpoints;
+    }
+
+    /**
+     * The signal activations deferred while paused, in execution order.
+     * The first one is executed by the next call to step().
+     */
+    public get pendingSignals(): ReadonlyArray<IFlowGraphPendingSignal> {
+        return this._pendingSignals;
+    }
+
+    /**
+     * The block executed by the next call to step(), if any.
+     */
+    public get nextBlock(): Nullable<FlowGraphExecutionBlock> {
+        return this._pendingSignals.length ? this._pendingSignals[0].connection._ownerBlock : null;
+    }
+
+    /**
+     * The data connections watched by the debugger.
+     */
+    public get watchedConnections(): ReadonlyArray<FlowGraphDataConnection<any>> {
+        return this._watchedConnections;
+    }
+
+    /**
+     * Adds a breakpoint on a block or a signal connection.
+     * @param target the block or signal connection to break on
+     * @param condition an optional condition. The execution is paused only if it returns true.
+     * @returns the breakpoint
+     */
+    public addBreakpoint(target: FlowGraphExecutionBlock | FlowGraphSignalConnection, condition?: (context: FlowGraphContext) => boolean): IFlowGraphBreakpoint {
+        const breakpoint: IFlowGraphBreakpoint = { target, condition, enabled: true };
+        this._breakpoints.push(breakpoint);
+        return breakpoint;
+    }
+
+    /**
+     * Removes a breakpoint
+     * @param breakpoint the breakpoint to remove
+     */
+    public removeBreakpoint(breakpoint: IFlowGraphBreakpoint) {
+        const index = this._breakpoints.indexOf(breakpoint);
+        if (index !== -1) {
+            this._breakpoints.splice(index, 1);
+        }
+    }
+
+    /**
+     * Removes all the breakpoints
+     */
+    public clearBreakpoints() {
+        this._breakpoints.length = 0;
+    }
+
+    /**
+     * Pauses the execution before the next signal activation.
+     */
+    public pause() {
+        if (!this._isPaused) {
+            this._pauseRequested = true;
+        }
+    }
+
+    /**
+     * Executes the next deferred signal activation, and pauses again before the following one.
+     * @returns the block that was executed, or null if no signal activation was pending
+     */
+    public step(): Nullable<FlowGraphExecutionBlock> {
+        if (!this._isPaused || !this._pendingSignals.length) {
+            return null;
+        }
+        const pendingSignal = this._executeNextSignal();
+        this._pauseInfo = this._pendingSignals.length ? { connection: this._pendingSignals[0].connection, breakpoint: null } : null;
+        this.onStepObservable.notifyObservers(pendingSignal.connection);
+        return pendingSignal.connection._ownerBlock;
+    }
+
+    /**
+     * Resumes the execution, replaying the deferred signal activations until the next breakpoint.
+     */
+    public resume() {
+        this._pauseRequested = false;
+        if (!this._isPaused) {
+            return;
+        }
+        this._isPaused = false;
+        this._pauseInfo = null;
+        this.onResumedObservable.notifyObservers(this);
+        while (!this._isPaused && this._pendingSignals.length) {
+            this._executeNextSignal();
+        }
+    }
+
+    /**
+     * Adds a data connection to the watched connections
+     * @param connection the data connection to watch
+     */
+    public watch(connection: FlowGraphDataConnection<any>) {
+        if (!this._watchedConnections.includes(connection)) {
+            this._watchedConnections.push(connection);
+        }
+    }
+
+    /**
+     * Removes a data connection from the watched connections
+     * @param connection the data connection to stop watching
+     */
+    public unwatch(connection: FlowGraphDataConnection<any>) {
+        const index = this._watchedConnections.indexOf(connection);
+        if (index !== -1) {
+            this._watchedConnections.splice(index, 1);
+        }
+    }
+
+    /**
+     * Gets the current values of the watched connections
+     * @returns a map of the watched connections to their values
+     */
+    public getWatchedValues(): Map<FlowGraphDataConnection<any>, any> {
+        const values = new Map<FlowGraphDataConnection<any>, any>();
+        for (const connection of this._watchedConnections) {
+            values.set(connection, this.getConnectionValue(connection));
+        }
+        return values;
+    }
+
+    /**
+     * Gets the current value of a data connection in the context, without executing the graph.
+     * The value of an output is the last one computed by its block, and the value of a connected input is the one of its connected output.
+     * @param connection the data connection
+     * @returns the value of the connection
+     */
+    public getConnectionValue<T>(connection: FlowGraphDataConnection<T>): T {
+        if (connection.connectionType === FlowGraphConnectionType.Input && connection.isConnected()) {
+            return this.getConnectionValue(connection._connectedPoint[0]);
+        }
+        if (connection.connectionType === FlowGraphConnectionType.Output) {
+            return this.context._getConnectionValue(connection);
+        }
+        return connection.getValue(this.context);
+    }
+
+    /**
+     * Gets the current values of the data inputs and outputs of a block, without executing the graph.
+     * @param block the block to inspect
+     * @returns the values of the data inputs and outputs, by connection name
+     */
+    public getBlockValues(block: FlowGraphBlock): { inputs: { [name: string]: any }; outputs: { [name: string]: any } } {
+        const inputs: { [name: string]: any } = {};
+        const outputs: { [name: string]: any } = {};
+        for (const input of block.dataInputs) {
+            inputs[input.name] = this.getConnectionValue(input);
+        }
+        for (const output of block.dataOutputs) {
+            outputs[output.name] = this.getConnectionValue(output);
+        }
+        return { inputs, outputs };
+    }
+
+    /**
+     * The user-defined variables of the context
+     */
+    public get userVariables() {
+        return this.context.userVariables;
+    }
+
+    /**
+     * The global variables of the context, set by the blocks (for example the time since the start of the graph)
+     */
+    public get globalVariables() {
+        return this.context.globalContextVariables;
+    }
+
+    /**
+     * Detaches the debugger from its context, and resumes the execution.
+     */
+    public dispose() {
+        this.clearBreakpoints();
+        this.resume();
+        this._watchedConnections.length = 0;
+        if (this.context._debugger === this) {
+            this.context._debugger = null;
+        }
+        this.onPausedObservable.clear();
+        this.onResumedObservable.clear();
+        this.onStepObservable.clear();
+    }
+
+    /**
+     * Called when a signal connection is activated, before it is executed.
+     * @internal
+     * @param connection the activated signal connection
+     * @returns true if the activation is deferred, and must not be executed now
+     */
+    public _deferSignalActivation(connection: FlowGraphSignalConnection): boolean {
+        if (connection.connectionType === FlowGraphConnectionType.Output) {
+            // Pause before the blocks connected to the output
+            const breakpoint = this._getBreakpoint(connection);
+            if (breakpoint && !this._isPaused) {
+                this._pauseOn(connection, breakpoint);
+            }
+            return false;
+        }
+
+        if (this._skipNextSignal) {
+            // The signal is executed by step() or resume()
+            this._skipNextSignal = false;
+            return false;
+        }
+
+        if (!this._isPaused) {
+            const breakpoint = this._getBreakpoint(connection) ?? this._getBreakpoint(connection._ownerBlock);
+            if (!breakpoint && !this._pauseRequested) {
+                return false;
+            }
+            this._pauseOn(connection, breakpoint);
+        }
+
+        const values = new Map<FlowGraphDataConnection<any>, any>();
+        for (const activatingSignal of connection._connectedPoint) {
+            for (const output of activatingSignal._ownerBlock.dataOutputs) {
+                if (this.context._hasConnectionValue(output)) {
+                    values.set(output, this.context._getConnectionValue(output));
+                }
+            }
+        }
+        (this._nestedSignals ?? this._pendingSignals).push({ connection, values });
+        return true;
+    }
+
+    private _getBreakpoint(target: FlowGraphExecutionBlock | FlowGraphSignalConnection): Nullable<IFlowGraphBreakpoint> {
+        for (const breakpoint of this._breakpoints) {
+            if (breakpoint.enabled && breakpoint.target === target && (!breakpoint.condition || breakpoint.condition(this.context))) {
+                return breakpoint;
+            }
+        }
+        return null;
+    }
+
+    private _pauseOn(connection: FlowGraphSignalConnection, breakpoint: Nullable<IFlowGraphBreakpoint>) {
+        this._isPaused = true;
+        this._pauseRequested = false;
+        this._pauseInfo = { connection, breakpoint };
+        this.onPausedObservable.notifyObservers(this._pauseInfo);
+    }
+
+    private _executeNextSignal(): IFlowGraphPendingSignal {
+        const pendingSignal = this._pendingSignals.shift()!;
+        for (const [output, value] of pendingSignal.values) {
+            this.context._setConnectionValue(output, value);
+        }
+        // The signals deferred during the execution are executed before the other pending signals, in depth-first order like the regular execution
+        const nestedSignals: IFlowGraphPendingSignal[] = [];
+        this._nestedSignals = nestedSignals;
+        this._skipNextSignal = true;
+        try {
+            pendingSignal.connection._activateSignal(this.context);
+        } finally {
+            this._skipNextSignal = false;
+            this._nestedSignals = null;
+            this._pendingSignals.unshift(...nestedSignals);
+        }
+        return pendingSignal;
+    }
+}
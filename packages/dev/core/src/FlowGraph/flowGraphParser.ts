@@ -1,6 +1,6 @@
 import type { IAssetContainer } from "core/IAssetContainer";
 import { blockFactory } from "./Blocks/flowGraphBlockFactory";
-import type { FlowGraphBlockNames } from "./Blocks/flowGraphBlockNames";
+import { FlowGraphBlockNames } from "./Blocks/flowGraphBlockNames";
 import type { FlowGraph, IFlowGraphParseOptions } from "./flowGraph";
 import type { FlowGraphBlock, IFlowGraphBlockParseOptions } from "./flowGraphBlock";
 import type { FlowGraphContext, IFlowGraphContextParseOptions } from "./flowGraphContext";
@@ -11,10 +11,12 @@ import { FlowGraphEventBlock } from "./flowGraphEventBlock";
 import { FlowGraphExecutionBlock } from "./flowGraphExecutionBlock";
 import type { FlowGraphSignalConnection } from "./flowGraphSignalConnection";
 import { defaultValueParseFunction, needsPathConverter } from "./serialization";
-import type { ISerializedFlowGraph, ISerializedFlowGraphBlock, ISerializedFlowGraphContext } from "./typeDefinitions";
+import type { ISerializedFlowGraph, ISerializedFlowGraphBlock, ISerializedFlowGraphContext, ISerializedFlowGraphSubGraph } from "./typeDefinitions";
 import type { Node } from "core/node";
 import { getRichTypeByFlowGraphType, RichType } from "./flowGraphRichTypes";
 import type { FlowGraphConnection } from "./flowGraphConnection";
+import type { IFlowGraphSubGraphDataPort } from "./flowGraphSubGraph";
+import { FlowGraphSubGraph } from "./flowGraphSubGraph";
 
 /**
  * Given a list of blocks, find an output data connection that has a specific unique id
@@ -92,14 +94,17 @@ export async function ParseCoordinatorAsync(serializedObject: any, options: IFlo
  */
 export async function ParseFlowGraphAsync(serializationObject: ISerializedFlowGraph, options: IFlowGraphParseOptions): Promise<FlowGraph> {
     // get all classes types needed for the blocks using the block factory
-    const resolvedClasses = await Promise.all(
-        serializationObject.allBlocks.map(async (serializedBlock) => {
-            const classFactory = blockFactory(serializedBlock.className as FlowGraphBlockNames);
-            return await classFactory();
-        })
-    );
+    const resolveClassesAsync = async (serializedBlocks: ISerializedFlowGraphBlock[]) =>
+        await Promise.all(
+            serializedBlocks.map(async (serializedBlock) => {
+                const classFactory = blockFactory(serializedBlock.className as FlowGraphBlockNames);
+                return await classFactory();
+            })
+        );
+    const resolvedClasses = await resolveClassesAsync(serializationObject.allBlocks);
+    const resolvedSubGraphClasses = await Promise.all((serializationObject.subGraphs ?? []).map(async (subGraph) => await resolveClassesAsync(subGraph.allBlocks)));
     // async will be used when we start using the block async factory
-    return ParseFlowGraph(serializationObject, options, resolvedClasses);
+    return ParseFlowGraph(serializationObject, options, resolvedClasses, resolvedSubGraphClasses);
 }
 
 /**
@@ -107,27 +112,53 @@ export async function ParseFlowGraphAsync(serializationObject: ISerializedFlowGr
  * @param serializationObject the object where the values are written
  * @param options options for parsing the graph
  * @param resolvedClasses the resolved classes for the blocks
+ * @param resolvedSubGraphClasses the resolved classes for the blocks of each sub-graph
  * @returns the parsed graph
  */
-export function ParseFlowGraph(serializationObject: ISerializedFlowGraph, options: IFlowGraphParseOptions, resolvedClasses: (typeof FlowGraphBlock)[]) {
+export function ParseFlowGraph(
+    serializationObject: ISerializedFlowGraph,
+    options: IFlowGraphParseOptions,
+    resolvedClasses: (typeof FlowGraphBlock)[],
+    resolvedSubGraphClasses: (typeof FlowGraphBlock)[][] = []
+) {
     const graph = options.coordinator.createGraph();
     const blocks: FlowGraphBlock[] = [];
     const valueParseFunction = options.valueParseFunction ?? defaultValueParseFunction;
+    const blockParseOptions: IFlowGraphBlockParseOptions = {
+        scene: options.coordinator.config.scene,
+        pathConverter: options.pathConverter,
+        assetsContainer: options.coordinator.config.scene,
+        valueParseFunction,
+        subGraphs: [],
+    };
+    // Parse the sub-graphs first, in dependency order, so that the sub-graph blocks can instantiate them
+    const serializedSubGraphs = serializationObject.subGraphs ?? [];
+    for (let i = 0; i < serializedSubGraphs.length; i++) {
+        blockParseOptions.subGraphs!.push(ParseFlowGraphSubGraph(serializedSubGraphs[i], blockParseOptions, resolvedSubGraphClasses[i]));
+    }
     // Parse all blocks
     // for (const serializedBlock of serializationObject.allBlocks) {
     for (let i = 0; i < serializationObject.allBlocks.length; i++) {
         const serializedBlock = serializationObject.allBlocks[i];
-        const block = ParseFlowGraphBlockWithClassType(
-            serializedBlock,
-            { scene: options.coordinator.config.scene, pathConverter: options.pathConverter, assetsContainer: options.coordinator.config.scene, valueParseFunction },
-            resolvedClasses[i]
-        );
+        const block = ParseFlowGraphBlockWithClassType(serializedBlock, blockParseOptions, resolvedClasses[i]);
         blocks.push(block);
         if (block instanceof FlowGraphEventBlock) {
             graph.addEventBlock(block);
         }
     }
     // After parsing all blocks, connect them
+    ConnectParsedBlocks(blocks);
+    for (const serializedContext of serializationObject.executionContexts) {
+        ParseFlowGraphContext(serializedContext, { graph, valueParseFunction }, serializationObject.rightHanded);
+    }
+    return graph;
+}
+
+/**
+ * Connects parsed blocks, using the connected point ids of their data inputs and signal outputs
+ * @param blocks the parsed blocks
+ */
+function ConnectParsedBlocks(blocks: FlowGraphBlock[]) {
     for (const block of blocks) {
         for (const dataIn of block.dataInputs) {
             for (const serializedConnection of dataIn.connectedPointIds) {
@@ -144,10 +175,57 @@ export function ParseFlowGraph(serializationObject: ISerializedFlowGraph, option
             }
         }
     }
-    for (const serializedContext of serializationObject.executionContexts) {
-        ParseFlowGraphContext(serializedContext, { graph, valueParseFunction }, serializationObject.rightHanded);
+}
+
+/**
+ * Parses a sub-graph from a serialization object
+ * @param serializationObject the object to parse from
+ * @param parseOptions options for parsing the blocks of the sub-graph. Its sub-graphs must contain the sub-graphs instantiated by this one.
+ * @param resolvedClasses the resolved classes for the blocks of the sub-graph
+ * @returns the parsed sub-graph
+ */
+export function ParseFlowGraphSubGraph(
+    serializationObject: ISerializedFlowGraphSubGraph,
+    parseOptions: IFlowGraphBlockParseOptions,
+    resolvedClasses: (typeof FlowGraphBlock)[]
+): FlowGraphSubGraph {
+    const valueParseFunction = parseOptions.valueParseFunction ?? defaultValueParseFunction;
+    const parsePort = (serializedPort: any): IFlowGraphSubGraphDataPort => ({
+        name: serializedPort.name,
+        richType: getRichTypeByFlowGraphType(serializedPort.richType?.typeName),
+        defaultValue:
+            serializedPort.defaultValue !== undefined
+                ? valueParseFunction("defaultValue", serializedPort, parseOptions.assetsContainer || parseOptions.scene, parseOptions.scene)
+                : undefined,
+    });
+    const subGraph = new FlowGraphSubGraph({
+        name: serializationObject.name,
+        signalInputs: serializationObject.signalInputs,
+        signalOutputs: serializationObject.signalOutputs,
+        dataInputs: serializationObject.dataInputs.map(parsePort),
+        dataOutputs: serializationObject.dataOutputs.map(parsePort),
+    });
+    const blocks: FlowGraphBlock[] = [];
+    for (let i = 0; i < serializationObject.allBlocks.length; i++) {
+        const serializedBlock = serializationObject.allBlocks[i];
+        // the entry and exit blocks are created with the sub-graph
+        if (serializedBlock.className === FlowGraphBlockNames.SubGraphInputs) {
+            blocks.push(DeserializeBlock(subGraph.inputs, serializedBlock));
+        } else if (serializedBlock.className === FlowGraphBlockNames.SubGraphOutputs) {
+            blocks.push(DeserializeBlock(subGraph.outputs, serializedBlock));
+        } else {
+            blocks.push(ParseFlowGraphBlockWithClassType(serializedBlock, parseOptions, resolvedClasses[i]));
+        }
     }
-    return graph;
+    ConnectParsedBlocks(blocks);
+    for (const serializedValue of serializationObject.inputValues ?? []) {
+        const input = blocks.find((block) => block.uniqueId === serializedValue.block)?.getDataInput(serializedValue.input);
+        if (!input) {
+            throw new Error("Could not find data input with name " + serializedValue.input + " in sub-graph " + serializationObject.name);
+        }
+        subGraph.setInputValue(input, valueParseFunction("value", serializedValue, parseOptions.assetsContainer || parseOptions.scene, parseOptions.scene));
+    }
+    return subGraph;
 }
 
 /**
@@ -249,7 +327,24 @@ export function ParseFlowGraphBlockWithClassType(
         }
         parsedConfig.pathConverter = parseOptions.pathConverter;
     }
-    const obj = new classType(parsedConfig);
+    if (serializationObject.className === FlowGraphBlockNames.SubGraph) {
+        const subGraphName = serializationObject.config?.subGraph?.name;
+        const subGraph = parseOptions.subGraphs?.find((candidate) => candidate.name === subGraphName);
+        if (!subGraph) {
+            throw new Error("Could not find sub-graph with name " + subGraphName);
+        }
+        parsedConfig.subGraph = subGraph;
+    }
+    return DeserializeBlock(new classType(parsedConfig), serializationObject);
+}
+
+/**
+ * Deserializes the unique ids and connections of a block that was created with its configuration
+ * @param obj the block
+ * @param serializationObject the object to parse from
+ * @returns the block
+ */
+function DeserializeBlock(obj: FlowGraphBlock, serializationObject: ISerializedFlowGraphBlock): FlowGraphBlock {
     obj.uniqueId = serializationObject.uniqueId;
     for (let i = 0; i < serializationObject.dataInputs.length; i++) {
         const dataInput = obj.getDataInput(serializationObject.dataInputs[i].name);
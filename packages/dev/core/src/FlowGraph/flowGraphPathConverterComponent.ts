@@ -1,3 +1,7 @@
+import type { Animation } from "../Animations/animation";
+import type { EasingFunction } from "../Animations/easing";
+import { Color3, Color4 } from "../Maths/math.color";
+import { Vector3, Vector4 } from "../Maths/math.vector";
 import type { IObjectInfo, IPathToObjectConverter } from "../ObjectModel/objectModelInterfaces";
 import type { FlowGraphBlock } from "./flowGraphBlock";
 import type { FlowGraphContext } from "./flowGraphContext";
@@ -42,14 +46,131 @@ export class FlowGraphPathConverterComponent {
      * @throws if the value for a templated input is invalid.
      */
     public getAccessor(pathConverter: IPathToObjectConverter<IObjectAccessor>, context: FlowGraphContext): IObjectInfo<IObjectAccessor> {
-        let finalPath = this.path;
+        const templateValues: { [name: string]: FlowGraphInteger } = {};
         for (const templatedInput of this.templatedInputs) {
-            const valueToReplace = templatedInput.getValue(context).value;
-            if (typeof valueToReplace !== "number" || valueToReplace < 0) {
-                throw new Error("Invalid value for templated input.");
+            templateValues[templatedInput.name] = templatedInput.getValue(context);
+        }
+        return _GetPathAccessor(this.path, templateValues, pathConverter);
+    }
+}
+
+/**
+ * @internal
+ * Gets the accessor of a path, replacing its templates with their values.
+ * @param path the path, with templates
+ * @param templateValues the values of the templates of the path
+ * @param pathConverter the path converter to use to convert the path to an object accessor.
+ * @returns the accessor for the path.
+ * @throws if the value for a template is invalid.
+ */
+export function _GetPathAccessor(
+    path: string,
+    templateValues: { [name: string]: FlowGraphInteger },
+    pathConverter: IPathToObjectConverter<IObjectAccessor>
+): IObjectInfo<IObjectAccessor> {
+    let finalPath = path;
+    for (const name in templateValues) {
+        const valueToReplace = templateValues[name].value;
+        if (typeof valueToReplace !== "number" || valueToReplace < 0) {
+            throw new Error("Invalid value for templated input.");
+        }
+        finalPath = finalPath.replace(`{${name}}`, valueToReplace.toString());
+    }
+    return pathConverter.convert(finalPath);
+}
+
+/**
+ * @internal
+ * Sets the value of the property of an accessor, converting vectors to colors if needed.
+ * @param accessorContainer the accessor of the property
+ * @param value the new value
+ */
+export function _SetAccessorValue(accessorContainer: IObjectInfo<IObjectAccessor>, value: any): void {
+    const type = accessorContainer.info.type;
+    if (type.startsWith("Color")) {
+        value = ToColor(value as Vector4, type);
+    }
+    accessorContainer.info.set?.(value, accessorContainer.object);
+}
+
+/**
+ * @internal
+ * Gets the value of the property of an accessor, converting colors to vectors.
+ * @param accessorContainer the accessor of the property
+ * @returns the value
+ */
+export function _GetAccessorValue(accessorContainer: IObjectInfo<IObjectAccessor>): any {
+    const type = accessorContainer.info.type;
+    const value = accessorContainer.info.get(accessorContainer.object);
+    if (type.startsWith("Color")) {
+        return FromColor(value as Color3 | Color4);
+    }
+    return value;
+}
+
+/**
+ * @internal
+ * Creates the animations interpolating the property of an accessor.
+ * @param accessorContainer the accessor of the property
+ * @param keys the keys of the animations
+ * @param animationType the type of the values of the keys
+ * @param easingFunction the easing function of the animations
+ * @returns the animations
+ */
+export function _CreateAccessorAnimations(accessorContainer: IObjectInfo<IObjectAccessor>, keys: any[], animationType: number, easingFunction?: EasingFunction): Animation[] {
+    const animations: Animation[] = [];
+    // make sure keys are of the right type (in case of float3 color/vector)
+    const type = accessorContainer.info.type;
+    if (type.startsWith("Color")) {
+        keys = keys.map((key) => {
+            return {
+                frame: key.frame,
+                value: ToColor(key.value, type),
+            };
+        });
+    }
+    accessorContainer.info.interpolation?.forEach((info, index) => {
+        const name = accessorContainer.info.getPropertyName?.[index](accessorContainer.object) || "Animation-interpolation-" + index;
+        // generate the keys based on interpolation info
+        let newKeys: any[] = keys;
+        if (animationType !== info.type) {
+            // convert the keys to the right type
+            newKeys = keys.map((key) => {
+                return {
+                    frame: key.frame,
+                    value: info.getValue(undefined, key.value.asArray ? key.value.asArray() : [key.value], 0, 1),
+                };
+            });
+        }
+        const animationData = info.buildAnimations(accessorContainer.object, name, 60, newKeys);
+        for (const animation of animationData) {
+            if (easingFunction) {
+                animation.babylonAnimation.setEasingFunction(easingFunction);
             }
-            finalPath = finalPath.replace(`{${templatedInput.name}}`, valueToReplace.toString());
+            animations.push(animation.babylonAnimation);
         }
-        return pathConverter.convert(finalPath);
+    });
+
+    return animations;
+}
+
+function ToColor(value: any, expectedValue: string) {
+    if (value.getClassName().startsWith("Color")) {
+        return value as unknown as Color3 | Color4;
+    }
+    if (expectedValue === "Color3") {
+        return new Color3(value.x, value.y, value.z);
+    } else if (expectedValue === "Color4") {
+        return new Color4(value.x, value.y, value.z, value.w);
+    }
+    return value;
+}
+
+function FromColor(value: Color3 | Color4): Vector3 | Vector4 {
+    if (value instanceof Color3) {
+        return new Vector3(value.r, value.g, value.b);
+    } else if (value instanceof Color4) {
+        return new Vector4(value.r, value.g, value.b, value.a);
     }
+    throw new Error("Invalid color type");
 }
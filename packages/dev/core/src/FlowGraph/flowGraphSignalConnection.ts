@@ -44,6 +44,9 @@ export class FlowGraphSignalConnection extends FlowGraphConnection<FlowGraphExec
                 name: this.name,
             },
         });
+        if (context._debugger?._deferSignalActivation(this)) {
+            return;
+        }
         if (this.connectionType === FlowGraphConnectionType.Input) {
             context._notifyExecuteNode(this._ownerBlock);
             this._ownerBlock._execute(context, this);
@@ -0,0 +1,272 @@
+import { FlowGraphBlockNames } from "./Blocks/flowGraphBlockNames";
+import { FlowGraphSubGraphInputsBlock } from "./Blocks/Execution/SubGraph/flowGraphSubGraphInputsBlock";
+import { FlowGraphSubGraphOutputsBlock } from "./Blocks/Execution/SubGraph/flowGraphSubGraphOutputsBlock";
+import type { FlowGraphSubGraphBlock } from "./Blocks/Execution/SubGraph/flowGraphSubGraphBlock";
+import type { FlowGraphBlock } from "./flowGraphBlock";
+import { FlowGraphConnectionType } from "./flowGraphConnection";
+import type { FlowGraphDataConnection } from "./flowGraphDataConnection";
+import { FlowGraphEventBlock } from "./flowGraphEventBlock";
+import { FlowGraphExecutionBlock } from "./flowGraphExecutionBlock";
+import type { RichType } from "./flowGraphRichTypes";
+import { defaultValueSerializationFunction } from "./serialization";
+
+/**
+ * A typed data input or output of a sub-graph.
+ */
+export interface IFlowGraphSubGraphDataPort {
+    /**
+     * The name of the input or output.
+     */
+    name: string;
+    /**
+     * The type of the data.
+     */
+    richType: RichType<any>;
+    /**
+     * The default value of the data. Defaults to the default value of the type.
+     */
+    defaultValue?: any;
+}
+
+/**
+ * Configuration of a sub-graph.
+ */
+export interface IFlowGraphSubGraphConfiguration {
+    /**
+     * The name of the sub-graph. It must be unique in a flow graph.
+     */
+    name: string;
+    /**
+     * The names of the signal inputs of the sub-graph.
+     */
+    signalInputs?: string[];
+    /**
+     * The names of the signal outputs of the sub-graph.
+     */
+    signalOutputs?: string[];
+    /**
+     * The data inputs of the sub-graph.
+     */
+    dataInputs?: IFlowGraphSubGraphDataPort[];
+    /**
+     * The data outputs of the sub-graph.
+     */
+    dataOutputs?: IFlowGraphSubGraphDataPort[];
+}
+
+/**
+ * A reusable graph of blocks, with typed signal and data inputs and outputs, that can be instantiated many times with sub-graph blocks.
+ * The blocks of the sub-graph are connected to its entry block (inputs) and its exit block (outputs).
+ * Each sub-graph block instantiates its own copy of these blocks, created from their configuration. Event blocks are not supported in sub-graphs.
+ * Values of unconnected inputs of the blocks are set with setInputValue, as values set in a context are not used by the instances of the sub-graph.
+ *
+ * @experimental FlowGraph is still in development and is subject to change.
+ */
+export class FlowGraphSubGraph {
+    /**
+     * The entry block of the sub-graph. Its signal and data outputs are the signal and data inputs of the sub-graph.
+     */
+    public readonly inputs: FlowGraphSubGraphInputsBlock;
+
+    /**
+     * The exit block of the sub-graph. Its signal and data inputs are the signal and data outputs of the sub-graph.
+     */
+    public readonly outputs: FlowGraphSubGraphOutputsBlock;
+
+    private _isInstantiating = false;
+    private readonly _inputValues = new Map<FlowGraphDataConnection<any>, any>();
+
+    /**
+     * Creates a sub-graph
+     * @param config the configuration of the sub-graph
+     */
+    constructor(
+        /**
+         * the configuration of the sub-graph
+         */
+        public readonly config: IFlowGraphSubGraphConfiguration
+    ) {
+        this.inputs = new FlowGraphSubGraphInputsBlock(config);
+        this.outputs = new FlowGraphSubGraphOutputsBlock(config);
+    }
+
+    /**
+     * The name of the sub-graph
+     */
+    public get name(): string {
+        return this.config.name;
+    }
+
+    /**
+     * Sets the value of a data input of a block of the sub-graph, used by all the instances of the sub-graph when the input is not connected.
+     * @param input the data input of a block of the sub-graph
+     * @param value the value of the input
+     */
+    public setInputValue<T>(input: FlowGraphDataConnection<T>, value: T) {
+        if (input.connectionType !== FlowGraphConnectionType.Input) {
+            throw new Error(`${input.name} is not a data input`);
+        }
+        this._inputValues.set(input, value);
+    }
+
+    /**
+     * Gets the value of a data input of a block of the sub-graph, set with setInputValue.
+     * @param input the data input of a block of the sub-graph
+     * @returns the value of the input, or undefined if no value was set
+     */
+    public getInputValue<T>(input: FlowGraphDataConnection<T>): T | undefined {
+        return this._inputValues.get(input);
+    }
+
+    /**
+     * Executes a function in all blocks of the sub-graph, starting with its entry and exit blocks.
+     * @param visitor the function to execute.
+     */
+    public visitAllBlocks(visitor: (block: FlowGraphBlock) => void) {
+        const visitList: FlowGraphBlock[] = [this.outputs, this.inputs];
+        const visitedBlocks = new Set<FlowGraphBlock>(visitList);
+
+        while (visitList.length > 0) {
+            const block = visitList.pop()!;
+            visitor(block);
+
+            for (const dataIn of block.dataInputs) {
+                for (const connection of dataIn._connectedPoint) {
+                    if (!visitedBlocks.has(connection._ownerBlock)) {
+                        visitList.push(connection._ownerBlock);
+                        visitedBlocks.add(connection._ownerBlock);
+                    }
+                }
+            }
+            if (block instanceof FlowGraphExecutionBlock) {
+                for (const signalOut of block.signalOutputs) {
+                    for (const connection of signalOut._connectedPoint) {
+                        if (!visitedBlocks.has(connection._ownerBlock)) {
+                            visitList.push(connection._ownerBlock);
+                            visitedBlocks.add(connection._ownerBlock);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Creates a copy of the blocks of the sub-graph for a sub-graph block.
+     * @internal
+     * @param instance the sub-graph block
+     * @returns the entry and exit blocks of the copy
+     */
+    public _instantiate(instance: FlowGraphSubGraphBlock): { inputs: FlowGraphSubGraphInputsBlock; outputs: FlowGraphSubGraphOutputsBlock } {
+        if (this._isInstantiating) {
+            throw new Error(`Sub-graph ${this.name} cannot instantiate itself`);
+        }
+        this._isInstantiating = true;
+        try {
+            const copies = new Map<FlowGraphBlock, FlowGraphBlock>();
+            this.visitAllBlocks((block) => {
+                let copy: FlowGraphBlock;
+                if (block === this.inputs) {
+                    copy = new FlowGraphSubGraphInputsBlock(this.config);
+                } else if (block === this.outputs) {
+                    copy = new FlowGraphSubGraphOutputsBlock(this.config);
+                } else if (block instanceof FlowGraphEventBlock) {
+                    throw new Error(`Event block ${block.name} is not supported in sub-graph ${this.name}`);
+                } else {
+                    copy = new (block.constructor as typeof FlowGraphBlock)(block.config);
+                }
+                copy.name = block.name;
+                copy.metadata = block.metadata;
+                copies.set(block, copy);
+            });
+
+            for (const [block, copy] of copies) {
+                for (let i = 0; i < block.dataInputs.length; i++) {
+                    if (this._inputValues.has(block.dataInputs[i])) {
+                        copy.dataInputs[i]._setDefaultValue(this._inputValues.get(block.dataInputs[i]));
+                    }
+                    for (const connection of block.dataInputs[i]._connectedPoint) {
+                        const source = copies.get(connection._ownerBlock)!;
+                        copy.dataInputs[i].connectTo(source.dataOutputs[connection._ownerBlock.dataOutputs.indexOf(connection)]);
+                    }
+                }
+                if (block instanceof FlowGraphExecutionBlock && copy instanceof FlowGraphExecutionBlock) {
+                    for (let i = 0; i < block.signalOutputs.length; i++) {
+                        for (const connection of block.signalOutputs[i]._connectedPoint) {
+                            const target = copies.get(connection._ownerBlock) as FlowGraphExecutionBlock;
+                            copy.signalOutputs[i].connectTo(target.signalInputs[connection._ownerBlock.signalInputs.indexOf(connection)]);
+                        }
+                    }
+                }
+            }
+
+            const inputs = copies.get(this.inputs) as FlowGraphSubGraphInputsBlock;
+            const outputs = copies.get(this.outputs) as FlowGraphSubGraphOutputsBlock;
+            inputs._instance = instance;
+            outputs._instance = instance;
+            return { inputs, outputs };
+        } finally {
+            this._isInstantiating = false;
+        }
+    }
+
+    /**
+     * Serializes the sub-graph
+     * @param serializationObject the object to write the values in
+     * @param valueSerializeFunction a function to serialize complex values
+     */
+    public serialize(serializationObject: any = {}, valueSerializeFunction: (key: string, value: any, serializationObject: any) => void = defaultValueSerializationFunction) {
+        const serializePort = (port: IFlowGraphSubGraphDataPort) => {
+            const serializedPort: any = { name: port.name, richType: {} };
+            port.richType.serialize(serializedPort.richType);
+            if (port.defaultValue !== undefined) {
+                valueSerializeFunction("defaultValue", port.defaultValue, serializedPort);
+            }
+            return serializedPort;
+        };
+        serializationObject.name = this.name;
+        serializationObject.signalInputs = [...(this.config.signalInputs ?? [])];
+        serializationObject.signalOutputs = [...(this.config.signalOutputs ?? [])];
+        serializationObject.dataInputs = (this.config.dataInputs ?? []).map(serializePort);
+        serializationObject.dataOutputs = (this.config.dataOutputs ?? []).map(serializePort);
+        serializationObject.allBlocks = [];
+        serializationObject.inputValues = [];
+        this.visitAllBlocks((block) => {
+            const serializedBlock: any = {};
+            block.serialize(serializedBlock);
+            serializationObject.allBlocks.push(serializedBlock);
+            for (const input of block.dataInputs) {
+                if (this._inputValues.has(input)) {
+                    const serializedValue: any = { block: block.uniqueId, input: input.name };
+                    valueSerializeFunction("value", this._inputValues.get(input), serializedValue);
+                    serializationObject.inputValues.push(serializedValue);
+                }
+            }
+        });
+    }
+
+    /**
+     * @returns the class name of the object.
+     */
+    public getClassName() {
+        return "FlowGraphSubGraph";
+    }
+}
+
+/**
+ * Adds the sub-graph instantiated by a block to a list, after the sub-graphs it instantiates itself.
+ * @internal
+ * @param block the block to check
+ * @param subGraphs the list of sub-graphs, in dependency order
+ */
+export function _AddSubGraphOfBlock(block: FlowGraphBlock, subGraphs: FlowGraphSubGraph[]) {
+    if (block.getClassName() !== FlowGraphBlockNames.SubGraph) {
+        return;
+    }
+    const subGraph = (block as FlowGraphSubGraphBlock).subGraph;
+    if (subGraphs.includes(subGraph)) {
+        return;
+    }
+    subGraph.visitAllBlocks((subGraphBlock) => _AddSubGraphOfBlock(subGraphBlock, subGraphs));
+    subGraphs.push(subGraph);
+}
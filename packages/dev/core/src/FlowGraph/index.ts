@@ -14,6 +14,10 @@ export * from "./flowGraphParser";
 export * from "./flowGraphPathConverter";
 export * from "./flowGraphPathConverterComponent";
 export * from "./flowGraphLogger";
+export * from "./flowGraphDebugger";
+export * from "./flowGraphSubGraph";
+export * from "./flowGraphCompiler";
+export * from "./flowGraphCompiledGraph";
 // eslint-disable-next-line @typescript-eslint/no-restricted-imports
 export * from "./Blocks/index";
 // eslint-disable-next-line @typescript-eslint/no-restricted-imports
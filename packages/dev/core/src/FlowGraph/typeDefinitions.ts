@@ -116,6 +116,14 @@ export interface ISerializedFlowGraphConnection {
      * The id of the connection that this is connected to
      */
     connectedPointIds: string[];
+    /**
+     * The type of a data connection, with the name and the default value of the type
+     */
+    richType?: { typeName: string; defaultValue: any };
+    /**
+     * The default value of a data connection
+     */
+    defaultValue?: any;
 }
 
 /**
@@ -160,6 +168,40 @@ export interface ISerializedFlowGraphBlock {
     signalOutputs: ISerializedFlowGraphConnection[];
 }
 
+/**
+ * A Serialized Flow Graph Sub-Graph
+ */
+export interface ISerializedFlowGraphSubGraph {
+    /**
+     * The name of the sub-graph
+     */
+    name: string;
+    /**
+     * The names of the signal inputs
+     */
+    signalInputs: string[];
+    /**
+     * The names of the signal outputs
+     */
+    signalOutputs: string[];
+    /**
+     * The data inputs, with their name, rich type and optional default value
+     */
+    dataInputs: any[];
+    /**
+     * The data outputs, with their name, rich type and optional default value
+     */
+    dataOutputs: any[];
+    /**
+     * Blocks belonging to the sub-graph, including its entry and exit blocks
+     */
+    allBlocks: ISerializedFlowGraphBlock[];
+    /**
+     * Values of the data inputs of the blocks, with the unique id of the block, the name of the input and the value
+     */
+    inputValues?: any[];
+}
+
 /**
  * A Serialized Flow Graph
  */
@@ -172,6 +214,10 @@ export interface ISerializedFlowGraph {
      * Blocks belonging to the flow graph
      */
     allBlocks: ISerializedFlowGraphBlock[];
+    /**
+     * Sub-graphs instantiated by the blocks of the flow graph, in dependency order
+     */
+    subGraphs?: ISerializedFlowGraphSubGraph[];
 
     /**
      * Is the flow graph in RHS mode?
@@ -0,0 +1,146 @@
+import type { NodeRenderGraphConnectionPoint, Scene, NodeRenderGraphBuildState, FrameGraphTextureHandle, FrameGraph, Camera, ClusteredLightContainer } from "core/index";
+import { RegisterClass } from "../../../../Misc/typeStore";
+import { NodeRenderGraphBlockConnectionPointTypes } from "../../Types/nodeRenderGraphTypes";
+import { editableInPropertyPage, PropertyTypeForEdition } from "../../../../Decorators/nodeDecorator";
+import { FrameGraphDeferredLightingTask } from "core/FrameGraph/Tasks/Rendering/deferredLightingTask";
+import { ThinDeferredLightingPostProcess } from "core/PostProcesses/thinDeferredLightingPostProcess";
+import { NodeRenderGraphBaseWithPropertiesPostProcessBlock } from "../PostProcesses/baseWithPropertiesPostProcessBlock";
+import { Color3 } from "core/Maths/math.color";
+
+/**
+ * Block that lights the content of a G-buffer with the lights of a clustered light container (deferred shading)
+ */
+export class NodeRenderGraphDeferredLightingBlock extends NodeRenderGraphBaseWithPropertiesPostProcessBlock {
+    protected override _frameGraphTask: FrameGraphDeferredLightingTask;
+
+    /**
+     * Gets the frame graph task associated with this block
+     */
+    public override get task() {
+        return this._frameGraphTask;
+    }
+
+    /**
+     * Create a new NodeRenderGraphDeferredLightingBlock
+     * @param name defines the block name
+     * @param frameGraph defines the hosting frame graph
+     * @param scene defines the hosting scene
+     */
+    public constructor(name: string, frameGraph: FrameGraph, scene: Scene) {
+        super(name, frameGraph, scene);
+
+        this.registerInput("camera", NodeRenderGraphBlockConnectionPointTypes.Camera);
+        this.registerInput("lightContainer", NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer);
+        this.registerInput("geomAlbedo", NodeRenderGraphBlockConnectionPointTypes.TextureAlbedo);
+        this.registerInput("geomWorldNormal", NodeRenderGraphBlockConnectionPointTypes.TextureWorldNormal);
+        this.registerInput("geomWorldPosition", NodeRenderGraphBlockConnectionPointTypes.TextureWorldPosition);
+        this.registerInput("geomReflectivity", NodeRenderGraphBlockConnectionPointTypes.TextureReflectivity);
+
+        this._finalizeInputOutputRegistering();
+
+        this._frameGraphTask = new FrameGraphDeferredLightingTask(this.name, frameGraph, new ThinDeferredLightingPostProcess(name, scene.getEngine()));
+    }
+
+    /** The ambient color added to the lighting (multiplied by the albedo) */
+    @editableInPropertyPage("Ambient color", PropertyTypeForEdition.Color3, "PROPERTIES")
+    public get ambientColor(): Color3 {
+        return this._frameGraphTask.postProcess.ambientColor;
+    }
+
+    public set ambientColor(value: Color3) {
+        this._frameGraphTask.postProcess.ambientColor = value;
+    }
+
+    /** The specular power used for a glossiness of 1 */
+    @editableInPropertyPage("Specular power", PropertyTypeForEdition.Float, "PROPERTIES", { min: 1, max: 512 })
+    public get specularPower(): number {
+        return this._frameGraphTask.postProcess.specularPower;
+    }
+
+    public set specularPower(value: number) {
+        this._frameGraphTask.postProcess.specularPower = value;
+    }
+
+    /**
+     * Gets the current class name
+     * @returns the class name
+     */
+    public override getClassName() {
+        return "NodeRenderGraphDeferredLightingBlock";
+    }
+
+    /**
+     * Gets the camera input component
+     */
+    public get camera(): NodeRenderGraphConnectionPoint {
+        return this._inputs[2];
+    }
+
+    /**
+     * Gets the light container input component
+     */
+    public get lightContainer(): NodeRenderGraphConnectionPoint {
+        return this._inputs[3];
+    }
+
+    /**
+     * Gets the geometry albedo input component
+     */
+    public get geomAlbedo(): NodeRenderGraphConnectionPoint {
+        return this._inputs[4];
+    }
+
+    /**
+     * Gets the geometry world normal input component
+     */
+    public get geomWorldNormal(): NodeRenderGraphConnectionPoint {
+        return this._inputs[5];
+    }
+
+    /**
+     * Gets the geometry world position input component
+     */
+    public get geomWorldPosition(): NodeRenderGraphConnectionPoint {
+        return this._inputs[6];
+    }
+
+    /**
+     * Gets the geometry reflectivity input component
+     */
+    public get geomReflectivity(): NodeRenderGraphConnectionPoint {
+        return this._inputs[7];
+    }
+
+    protected override _buildBlock(state: NodeRenderGraphBuildState) {
+        super._buildBlock(state);
+
+        this._frameGraphTask.camera = this.camera.connectedPoint?.value as Camera;
+        this._frameGraphTask.lightContainer = this.lightContainer.connectedPoint?.value as ClusteredLightContainer;
+        this._frameGraphTask.albedoTexture = this.geomAlbedo.connectedPoint?.value as FrameGraphTextureHandle;
+        this._frameGraphTask.normalTexture = this.geomWorldNormal.connectedPoint?.value as FrameGraphTextureHandle;
+        this._frameGraphTask.positionTexture = this.geomWorldPosition.connectedPoint?.value as FrameGraphTextureHandle;
+        this._frameGraphTask.reflectivityTexture = this.geomReflectivity.connectedPoint?.value as FrameGraphTextureHandle;
+    }
+
+    protected override _dumpPropertiesCode() {
+        const codes: string[] = [];
+        codes.push(`${this._codeVariableName}.ambientColor = new Color3(${this.ambientColor.r}, ${this.ambientColor.g}, ${this.ambientColor.b});`);
+        codes.push(`${this._codeVariableName}.specularPower = ${this.specularPower};`);
+        return super._dumpPropertiesCode() + codes.join("\n");
+    }
+
+    public override serialize(): any {
+        const serializationObject = super.serialize();
+        serializationObject.ambientColor = this.ambientColor.asArray();
+        serializationObject.specularPower = this.specularPower;
+        return serializationObject;
+    }
+
+    public override _deserialize(serializationObject: any) {
+        super._deserialize(serializationObject);
+        this.ambientColor = Color3.FromArray(serializationObject.ambientColor);
+        this.specularPower = serializationObject.specularPower;
+    }
+}
+
+RegisterClass("BABYLON.NodeRenderGraphDeferredLightingBlock", NodeRenderGraphDeferredLightingBlock);
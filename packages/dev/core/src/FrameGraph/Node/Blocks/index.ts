@@ -37,6 +37,7 @@ export * from "./PostProcesses/tonemapPostProcessBlock";
 export * from "./PostProcesses/volumetricLightingBlock";
 
 export * from "./Rendering/csmShadowGeneratorBlock";
+export * from "./Rendering/deferredLightingBlock";
 export * from "./Rendering/geometryRendererBlock";
 export * from "./Rendering/objectRendererBlock";
 export * from "./Rendering/shadowGeneratorBlock";
@@ -8,8 +8,12 @@ import type {
     Nullable,
     FrameGraphTextureCreationOptions,
     FrameGraphTextureHandle,
+    FrameGraphBufferHandle,
+    FrameGraphBufferCreationOptions,
     FrameGraphObjectList,
     IShadowLight,
+    ClusteredLightContainer,
+    StorageBuffer,
 } from "core/index";
 import { Observable } from "../../../Misc/observable";
 import { NodeRenderGraphBlockConnectionPointTypes } from "../Types/nodeRenderGraphTypes";
@@ -19,7 +23,7 @@ import { editableInPropertyPage, PropertyTypeForEdition } from "../../../Decorat
 import { backbufferColorTextureHandle, backbufferDepthStencilTextureHandle } from "../../../FrameGraph/frameGraphTypes";
 import { Constants } from "../../../Engines/constants";
 
-export type NodeRenderGraphValueType = InternalTexture | Camera | FrameGraphObjectList | IShadowLight;
+export type NodeRenderGraphValueType = InternalTexture | Camera | FrameGraphObjectList | IShadowLight | ClusteredLightContainer | StorageBuffer;
 
 export type NodeRenderGraphInputCreationOptions = FrameGraphTextureCreationOptions;
 
@@ -40,6 +44,9 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
     /** Gets or sets the options to create the input value */
     public creationOptions: NodeRenderGraphInputCreationOptions;
 
+    /** Gets or sets the options to create the storage buffer (if the input is a storage buffer) */
+    public bufferCreationOptions: FrameGraphBufferCreationOptions;
+
     /**
      * Gets or sets the connection point type (default is Undefined)
      */
@@ -124,6 +131,13 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
                 this.value = this._scene.cameras[0];
                 this.isExternal = true;
                 break;
+            case NodeRenderGraphBlockConnectionPointTypes.StorageBuffer:
+                this.bufferCreationOptions = {
+                    byteSize: 1024,
+                    creationFlags: Constants.BUFFER_CREATIONFLAG_READWRITE,
+                    persistent: false,
+                };
+                break;
             default:
                 this.isExternal = true;
         }
@@ -224,6 +238,22 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
         return (this.type & NodeRenderGraphBlockConnectionPointTypes.ShadowLight) !== 0;
     }
 
+    /**
+     * Check if the block is a clustered light container
+     * @returns true if the block is a clustered light container
+     */
+    public isClusteredLightContainer(): boolean {
+        return (this.type & NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer) !== 0;
+    }
+
+    /**
+     * Check if the block is a storage buffer
+     * @returns true if the block is a storage buffer
+     */
+    public isStorageBuffer(): boolean {
+        return (this.type & NodeRenderGraphBlockConnectionPointTypes.StorageBuffer) !== 0;
+    }
+
     protected override _buildBlock(state: NodeRenderGraphBuildState) {
         super._buildBlock(state);
 
@@ -238,6 +268,13 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
                 this.output.value = this.getTypedValue<FrameGraphObjectList>();
             } else if (this.isShadowLight()) {
                 this.output.value = this.getTypedValue<IShadowLight>();
+            } else if (this.isClusteredLightContainer()) {
+                this.output.value = this.getTypedValue<ClusteredLightContainer>();
+            } else if (this.isStorageBuffer()) {
+                if (!this._storedValue) {
+                    throw new Error(`NodeRenderGraphInputBlock: External input "${this.name}" is not set`);
+                }
+                this.output.value = this._frameGraph.bufferManager.importBuffer(this.name, this.getTypedValue<StorageBuffer>(), this.output.value as FrameGraphBufferHandle);
             } else {
                 if (this._storedValue === undefined || this._storedValue === null) {
                     throw new Error(`NodeRenderGraphInputBlock: External input "${this.name}" is not set`);
@@ -258,6 +295,12 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
             }
 
             this.output.value = this._frameGraph.textureManager.createRenderTargetTexture(this.name, textureCreateOptions);
+        } else if (this.isStorageBuffer()) {
+            if (!this.bufferCreationOptions) {
+                throw new Error(`NodeRenderGraphInputBlock: Creation options are missing for storage buffer "${this.name}"`);
+            }
+
+            this.output.value = this._frameGraph.bufferManager.createBuffer(this.name, this.bufferCreationOptions);
         }
     }
 
@@ -282,6 +325,14 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
             codes.push(`${this._codeVariableName}.value = EXTERNAL_OBJECT_LIST; // TODO: set the external object list`);
         } else if (this.isShadowLight()) {
             codes.push(`${this._codeVariableName}.value = EXTERNAL_SHADOW_LIGHT; // TODO: set the external shadow light`);
+        } else if (this.isClusteredLightContainer()) {
+            codes.push(`${this._codeVariableName}.value = EXTERNAL_CLUSTERED_LIGHT_CONTAINER; // TODO: set the external clustered light container`);
+        } else if (this.isStorageBuffer()) {
+            if (!this.isExternal) {
+                codes.push(`${this._codeVariableName}.bufferCreationOptions = ${JSON.stringify(this.bufferCreationOptions)};`);
+            } else {
+                codes.push(`${this._codeVariableName}.value = EXTERNAL_STORAGE_BUFFER; // TODO: set the external storage buffer`);
+            }
         }
         return super._dumpPropertiesCode() + codes.join("\n");
     }
@@ -293,6 +344,9 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
         if (this.creationOptions) {
             serializationObject.creationOptions = this.creationOptions;
         }
+        if (this.bufferCreationOptions) {
+            serializationObject.bufferCreationOptions = this.bufferCreationOptions;
+        }
         return serializationObject;
     }
 
@@ -308,6 +362,9 @@ export class NodeRenderGraphInputBlock extends NodeRenderGraphBlock {
             }
             this.creationOptions = serializationObject.creationOptions;
         }
+        if (serializationObject.bufferCreationOptions) {
+            this.bufferCreationOptions = serializationObject.bufferCreationOptions;
+        }
     }
 }
 
@@ -5,6 +5,7 @@ import type {
     Camera,
     FrameGraphObjectList,
     IShadowLight,
+    ClusteredLightContainer,
     FrameGraphShadowGeneratorTask,
     FrameGraphObjectRendererTask,
     FrameGraph,
@@ -107,10 +108,14 @@ export enum NodeRenderGraphBlockConnectionPointTypes {
     ShadowGenerator = 0x00200000,
     /** Light */
     ShadowLight = 0x00400000,
+    /** Clustered light container */
+    ClusteredLightContainer = 0x00800000,
     /** Camera */
     Camera = 0x01000000,
     /** List of objects (meshes, particle systems, sprites) */
     ObjectList = 0x02000000,
+    /** Storage buffer */
+    StorageBuffer = 0x04000000,
 
     /** Detect type based on connection */
     AutoDetect = 0x10000000,
@@ -150,9 +155,4 @@ export const enum NodeRenderGraphConnectionPointDirection {
  * Defines the type of a connection point value
  */
 export type NodeRenderGraphBlockConnectionPointValueType =
-    | FrameGraphTextureHandle
-    | Camera
-    | FrameGraphObjectList
-    | IShadowLight
-    | FrameGraphShadowGeneratorTask
-    | FrameGraphObjectRendererTask;
+    FrameGraphTextureHandle | Camera | FrameGraphObjectList | IShadowLight | ClusteredLightContainer | FrameGraphShadowGeneratorTask | FrameGraphObjectRendererTask;
@@ -10,6 +10,7 @@ import type {
     Scene,
     WritableObject,
     IShadowLight,
+    ClusteredLightContainer,
     INodeRenderGraphCustomBlockDescription,
     Immutable,
 } from "core/index";
@@ -23,6 +24,7 @@ import { Constants } from "../../Engines/constants";
 import { WebRequest } from "../../Misc/webRequest";
 import { NodeRenderGraphInputBlock } from "./Blocks/inputBlock";
 import { Tools } from "../../Misc/tools";
+import { LightConstants } from "../../Lights/lightConstants";
 import { Engine } from "../../Engines/engine";
 import { NodeRenderGraphBlockConnectionPointTypes } from "./Types/nodeRenderGraphTypes";
 import { NodeRenderGraphClearBlock } from "./Blocks/Textures/clearBlock";
@@ -357,14 +359,18 @@ export class NodeRenderGraph {
         const allInputs = this.getInputBlocks();
 
         const shadowLights: IShadowLight[] = [];
+        const lightContainers: ClusteredLightContainer[] = [];
         for (const light of this._scene.lights) {
             if ((light as IShadowLight).setShadowProjectionMatrix !== undefined) {
                 shadowLights.push(light as IShadowLight);
+            } else if (light.getTypeID() === LightConstants.LIGHTTYPEID_CLUSTERED_CONTAINER) {
+                lightContainers.push(light as ClusteredLightContainer);
             }
         }
 
         let cameraIndex = 0;
         let lightIndex = 0;
+        let lightContainerIndex = 0;
         for (const input of allInputs) {
             if (!input.isExternal) {
                 continue;
@@ -388,6 +394,11 @@ export class NodeRenderGraph {
                     input.value = shadowLights[lightIndex++];
                     lightIndex = lightIndex % shadowLights.length;
                 }
+            } else if (input.isClusteredLightContainer()) {
+                if (lightContainerIndex < lightContainers.length) {
+                    input.value = lightContainers[lightContainerIndex++];
+                    lightContainerIndex = lightContainerIndex % lightContainers.length;
+                }
             }
         }
     }
@@ -8,6 +8,7 @@ import type {
     FrameGraph,
     NodeRenderGraphResourceContainerBlock,
     FrameGraphTextureHandle,
+    FrameGraphBufferHandle,
 } from "core/index";
 import { GetClass } from "../../Misc/typeStore";
 import { serialize } from "../../Misc/decorators";
@@ -299,6 +300,7 @@ export class NodeRenderGraphBlock {
             NodeRenderGraphBlockConnectionPointTypes.TextureAllButBackBuffer |
                 NodeRenderGraphBlockConnectionPointTypes.ResourceContainer |
                 NodeRenderGraphBlockConnectionPointTypes.ShadowGenerator |
+                NodeRenderGraphBlockConnectionPointTypes.StorageBuffer |
                 additionalAllowedTypes
         );
 
@@ -362,6 +364,7 @@ export class NodeRenderGraphBlock {
 
         if (this._frameGraphTask) {
             this._frameGraphTask.dependencies = undefined;
+            this._frameGraphTask.bufferDependencies = undefined;
 
             const dependenciesConnectedPoint = this.getInputByName("dependencies")?.connectedPoint;
             if (dependenciesConnectedPoint) {
@@ -369,14 +372,12 @@ export class NodeRenderGraphBlock {
                     const container = dependenciesConnectedPoint.ownerBlock as NodeRenderGraphResourceContainerBlock;
                     for (let i = 0; i < container.inputs.length; i++) {
                         const input = container.inputs[i];
-                        if (input.connectedPoint && input.connectedPoint.value !== undefined && NodeRenderGraphConnectionPoint.IsTextureHandle(input.connectedPoint.value)) {
-                            this._frameGraphTask.dependencies = this._frameGraphTask.dependencies || new Set();
-                            this._frameGraphTask.dependencies.add(input.connectedPoint.value as FrameGraphTextureHandle);
+                        if (input.connectedPoint && input.connectedPoint.value !== undefined) {
+                            this._addDependency(this._frameGraphTask, input.connectedPoint);
                         }
                     }
-                } else if (NodeRenderGraphConnectionPoint.IsTextureHandle(dependenciesConnectedPoint.value)) {
-                    this._frameGraphTask.dependencies = this._frameGraphTask.dependencies || new Set();
-                    this._frameGraphTask.dependencies.add(dependenciesConnectedPoint.value as FrameGraphTextureHandle);
+                } else {
+                    this._addDependency(this._frameGraphTask, dependenciesConnectedPoint);
                 }
             }
             this._frameGraph.addTask(this._frameGraphTask);
@@ -387,6 +388,19 @@ export class NodeRenderGraphBlock {
         return false;
     }
 
+    private _addDependency(task: FrameGraphTask, connectedPoint: NodeRenderGraphConnectionPoint) {
+        // Storage buffer handles are numbers too, so the type of the connection point must be checked first
+        if (connectedPoint.type === NodeRenderGraphBlockConnectionPointTypes.StorageBuffer) {
+            if (connectedPoint.value !== undefined) {
+                task.bufferDependencies = task.bufferDependencies || new Set();
+                task.bufferDependencies.add(connectedPoint.value as FrameGraphBufferHandle);
+            }
+        } else if (NodeRenderGraphConnectionPoint.IsTextureHandle(connectedPoint.value)) {
+            task.dependencies = task.dependencies || new Set();
+            task.dependencies.add(connectedPoint.value as FrameGraphTextureHandle);
+        }
+    }
+
     protected _linkConnectionTypes(inputIndex0: number, inputIndex1: number, looseCoupling = false) {
         if (looseCoupling) {
             this._inputs[inputIndex1]._acceptedConnectionPointType = this._inputs[inputIndex0];
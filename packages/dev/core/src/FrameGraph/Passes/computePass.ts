@@ -0,0 +1,114 @@
+import type { FrameGraphContext, IFrameGraphPass, FrameGraphTextureHandle, FrameGraphBufferHandle } from "core/index";
+import { FrameGraphPass } from "./pass";
+
+/**
+ * Compute pass used to dispatch compute shaders.
+ * The pass declares the textures and buffers it reads and writes, so that the frame graph can schedule it as early as possible when it is asynchronous.
+ */
+export class FrameGraphComputePass extends FrameGraphPass<FrameGraphContext> {
+    protected _readTextures: Set<FrameGraphTextureHandle> = new Set();
+    protected _writtenTextures: Set<FrameGraphTextureHandle> = new Set();
+    protected _readBuffers: Set<FrameGraphBufferHandle> = new Set();
+    protected _writtenBuffers: Set<FrameGraphBufferHandle> = new Set();
+
+    /**
+     * Checks if a pass is a compute pass.
+     * @param pass The pass to check.
+     * @returns True if the pass is a compute pass, else false.
+     */
+    public static IsComputePass(pass: IFrameGraphPass): pass is FrameGraphComputePass {
+        return (pass as FrameGraphComputePass).addWrittenTextures !== undefined;
+    }
+
+    /**
+     * Gets the handles of the textures read by the compute pass.
+     */
+    public get readTextures(): ReadonlySet<FrameGraphTextureHandle> {
+        return this._readTextures;
+    }
+
+    /**
+     * Gets the handles of the textures written by the compute pass.
+     */
+    public get writtenTextures(): ReadonlySet<FrameGraphTextureHandle> {
+        return this._writtenTextures;
+    }
+
+    /**
+     * Gets the handles of the buffers read by the compute pass.
+     */
+    public get readBuffers(): ReadonlySet<FrameGraphBufferHandle> {
+        return this._readBuffers;
+    }
+
+    /**
+     * Gets the handles of the buffers written by the compute pass.
+     */
+    public get writtenBuffers(): ReadonlySet<FrameGraphBufferHandle> {
+        return this._writtenBuffers;
+    }
+
+    /**
+     * Adds dependencies (textures read by the compute shader) to the compute pass.
+     * @param dependencies The dependencies to add.
+     */
+    public addDependencies(dependencies?: FrameGraphTextureHandle | Iterable<FrameGraphTextureHandle>) {
+        this._addHandles(this._readTextures, dependencies);
+    }
+
+    /**
+     * Adds textures written by the compute shader (storage textures) to the compute pass.
+     * @param textures The textures to add.
+     */
+    public addWrittenTextures(textures?: FrameGraphTextureHandle | Iterable<FrameGraphTextureHandle>) {
+        this._addHandles(this._writtenTextures, textures);
+    }
+
+    /**
+     * Adds buffer dependencies (storage buffers read by the compute shader) to the compute pass.
+     * @param dependencies The buffer dependencies to add.
+     */
+    public addBufferDependencies(dependencies?: FrameGraphBufferHandle | Iterable<FrameGraphBufferHandle>) {
+        this._addHandles(this._readBuffers, dependencies);
+    }
+
+    /**
+     * Adds storage buffers written by the compute shader to the compute pass.
+     * @param buffers The buffers to add.
+     */
+    public addWrittenBuffers(buffers?: FrameGraphBufferHandle | Iterable<FrameGraphBufferHandle>) {
+        this._addHandles(this._writtenBuffers, buffers);
+    }
+
+    /**
+     * Collects the dependencies of the compute pass (the textures read and written by the pass).
+     * @param dependencies The set of dependencies to update.
+     */
+    public collectDependencies(dependencies: Set<FrameGraphTextureHandle>): void {
+        this._readTextures.forEach((handle) => dependencies.add(handle));
+        this._writtenTextures.forEach((handle) => dependencies.add(handle));
+    }
+
+    /**
+     * Collects the buffer dependencies of the compute pass (the buffers read and written by the pass).
+     * @param dependencies The set of buffer dependencies to update.
+     */
+    public collectBufferDependencies(dependencies: Set<FrameGraphBufferHandle>): void {
+        this._readBuffers.forEach((handle) => dependencies.add(handle));
+        this._writtenBuffers.forEach((handle) => dependencies.add(handle));
+    }
+
+    private _addHandles(set: Set<number>, handles?: number | Iterable<number>) {
+        if (handles === undefined) {
+            return;
+        }
+
+        if (typeof handles === "number") {
+            set.add(handles);
+        } else {
+            for (const handle of handles) {
+                set.add(handle);
+            }
+        }
+    }
+}
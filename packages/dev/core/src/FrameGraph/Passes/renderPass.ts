@@ -1,4 +1,13 @@
-import type { Nullable, FrameGraphRenderContext, AbstractEngine, IFrameGraphPass, FrameGraphTextureHandle, FrameGraphTask, FrameGraphRenderTarget } from "core/index";
+import type {
+    Nullable,
+    FrameGraphRenderContext,
+    AbstractEngine,
+    IFrameGraphPass,
+    FrameGraphTextureHandle,
+    FrameGraphBufferHandle,
+    FrameGraphTask,
+    FrameGraphRenderTarget,
+} from "core/index";
 import { FrameGraphPass } from "./pass";
 
 /**
@@ -10,6 +19,7 @@ export class FrameGraphRenderPass extends FrameGraphPass<FrameGraphRenderContext
     protected _renderTargetDepth: FrameGraphTextureHandle | undefined;
     protected _frameGraphRenderTarget: FrameGraphRenderTarget | undefined;
     protected _dependencies: Set<FrameGraphTextureHandle> = new Set();
+    protected _bufferDependencies: Set<FrameGraphBufferHandle> = new Set();
 
     /**
      * Checks if a pass is a render pass.
@@ -91,6 +101,32 @@ export class FrameGraphRenderPass extends FrameGraphPass<FrameGraphRenderContext
         }
     }
 
+    /**
+     * Adds buffer dependencies (storage buffers read by the render pass) to the render pass.
+     * @param dependencies The buffer dependencies to add.
+     */
+    public addBufferDependencies(dependencies?: FrameGraphBufferHandle | FrameGraphBufferHandle[]) {
+        if (dependencies === undefined) {
+            return;
+        }
+
+        if (Array.isArray(dependencies)) {
+            for (const dependency of dependencies) {
+                this._bufferDependencies.add(dependency);
+            }
+        } else {
+            this._bufferDependencies.add(dependencies);
+        }
+    }
+
+    /**
+     * Collects the buffer dependencies of the render pass.
+     * @param dependencies The set of buffer dependencies to update.
+     */
+    public collectBufferDependencies(dependencies: Set<FrameGraphBufferHandle>): void {
+        this._bufferDependencies.forEach((handle) => dependencies.add(handle));
+    }
+
     /**
      * Collects the dependencies of the render pass.
      * @param dependencies The set of dependencies to update.
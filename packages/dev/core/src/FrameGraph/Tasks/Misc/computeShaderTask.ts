@@ -3,8 +3,10 @@ import type {
     DataBuffer,
     ExternalTexture,
     FrameGraph,
+    FrameGraphBufferHandle,
+    FrameGraphComputePass,
     FrameGraphContext,
-    FrameGraphPass,
+    FrameGraphTextureHandle,
     IComputeShaderOptions,
     IComputeShaderPath,
     InternalTexture,
@@ -25,6 +27,7 @@ export class FrameGraphComputeShaderTask extends FrameGraphTask {
     private readonly _notSupported: boolean;
     private readonly _cs: ComputeShader;
     private readonly _ubo: { [name: string]: { ubo: UniformBuffer; autoUpdate: boolean } };
+    private readonly _storageBufferHandles: { [name: string]: { handle: FrameGraphBufferHandle; readOnly: boolean } } = {};
 
     /**
      * Defines the dispatch size for the compute shader
@@ -34,15 +37,30 @@ export class FrameGraphComputeShaderTask extends FrameGraphTask {
     /**
      * Defines an indirect dispatch buffer and offset.
      * If set, this will be used instead of the dispatchSize property and an indirect dispatch will be performed.
+     * The buffer can be a handle to a buffer managed by the frame graph (in which case it is added to the buffer dependencies of the task).
      * "offset" is the offset in the buffer where the workgroup counts are stored (default: 0)
      */
-    public indirectDispatch?: { buffer: StorageBuffer | DataBuffer; offset?: number };
+    public indirectDispatch?: { buffer: StorageBuffer | DataBuffer | FrameGraphBufferHandle; offset?: number };
 
     /**
      * An optional execute function that will be called at the beginning of the task execution
      */
     public execute?: (context: FrameGraphContext) => void;
 
+    /**
+     * If true, the task is asynchronous: the frame graph is free to execute it earlier than its position in the task list (WebGPU only, default: false).
+     * The task is executed right after the last task it depends on, so the textures and buffers read and written by the compute shader must be declared
+     * (see dependencies, writtenTextures and setStorageBufferHandle). Resources which are not tracked by the frame graph (storage buffers not managed by the frame graph, etc.)
+     * are only safe to share with other asynchronous compute tasks, because asynchronous compute tasks are always executed in the order they have been added to the frame graph.
+     */
+    public asyncCompute = false;
+
+    /**
+     * The textures written by the compute shader (optional).
+     * The textures read by the compute shader should be added to the dependencies property.
+     */
+    public writtenTextures?: Set<FrameGraphTextureHandle>;
+
     /**
      * Gets the compute shader used by the task
      */
@@ -174,6 +192,25 @@ export class FrameGraphComputeShaderTask extends FrameGraphTask {
         this._cs.setStorageBuffer(name, buffer);
     }
 
+    /**
+     * Binds a storage buffer managed by the frame graph to the shader.
+     * The buffer is added to the dependencies of the task, so that the frame graph can order the tasks and alias the buffers correctly.
+     * @param name Binding name of the buffer
+     * @param handle Handle of the buffer
+     * @param readOnly If true, the buffer is only read by the compute shader (default: false)
+     */
+    public setStorageBufferHandle(name: string, handle: FrameGraphBufferHandle, readOnly = false): void {
+        this._storageBufferHandles[name] = { handle, readOnly };
+    }
+
+    /**
+     * Removes a storage buffer binding created by a call to setStorageBufferHandle()
+     * @param name Binding name of the buffer
+     */
+    public removeStorageBufferHandle(name: string): void {
+        delete this._storageBufferHandles[name];
+    }
+
     /**
      * Binds a texture sampler to the shader
      * @param name Binding name of the sampler
@@ -187,8 +224,25 @@ export class FrameGraphComputeShaderTask extends FrameGraphTask {
         return "FrameGraphComputeShaderTask";
     }
 
-    public record(skipCreationOfDisabledPasses?: boolean): FrameGraphPass<FrameGraphContext> {
-        const pass = this._frameGraph.addPass(this.name);
+    public record(skipCreationOfDisabledPasses?: boolean): FrameGraphComputePass {
+        const pass = this._frameGraph.addComputePass(this.name);
+
+        pass.addDependencies(this.dependencies);
+        pass.addWrittenTextures(this.writtenTextures);
+        pass.addBufferDependencies(this.bufferDependencies);
+
+        for (const name in this._storageBufferHandles) {
+            const { handle, readOnly } = this._storageBufferHandles[name];
+            if (readOnly) {
+                pass.addBufferDependencies(handle);
+            } else {
+                pass.addWrittenBuffers(handle);
+            }
+        }
+
+        if (typeof this.indirectDispatch?.buffer === "number") {
+            pass.addBufferDependencies(this.indirectDispatch.buffer);
+        }
 
         if (this._notSupported) {
             pass.setExecuteFunc(() => {});
@@ -203,10 +257,20 @@ export class FrameGraphComputeShaderTask extends FrameGraphTask {
                     }
                 }
 
+                for (const name in this._storageBufferHandles) {
+                    const buffer = context.getBufferFromHandle(this._storageBufferHandles[name].handle);
+                    if (buffer) {
+                        this._cs.setStorageBuffer(name, buffer);
+                    }
+                }
+
                 if (this.indirectDispatch) {
-                    context.pushDebugGroup(`Indirect dispatch compute shader (${this.name})`);
-                    this._cs.dispatchIndirect(this.indirectDispatch.buffer, this.indirectDispatch.offset);
-                    context.popDebugGroup();
+                    const buffer = typeof this.indirectDispatch.buffer === "number" ? context.getBufferFromHandle(this.indirectDispatch.buffer) : this.indirectDispatch.buffer;
+                    if (buffer) {
+                        context.pushDebugGroup(`Indirect dispatch compute shader (${this.name})`);
+                        this._cs.dispatchIndirect(buffer, this.indirectDispatch.offset);
+                        context.popDebugGroup();
+                    }
                 } else {
                     context.pushDebugGroup(`Dispatch compute shader (${this.name})`);
                     this._cs.dispatch(this.dispatchSize.x, this.dispatchSize.y, this.dispatchSize.z);
@@ -216,7 +280,7 @@ export class FrameGraphComputeShaderTask extends FrameGraphTask {
         }
 
         if (!skipCreationOfDisabledPasses) {
-            const passDisabled = this._frameGraph.addPass(this.name + "_disabled", true);
+            const passDisabled = this._frameGraph.addComputePass(this.name + "_disabled", true);
 
             passDisabled.setExecuteFunc(() => {});
         }
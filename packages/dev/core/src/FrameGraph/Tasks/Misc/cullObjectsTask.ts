@@ -1,4 +1,4 @@
-import type { Scene, Camera, FrameGraph, FrameGraphObjectList } from "core/index";
+import type { Scene, Camera, FrameGraph, FrameGraphObjectList, FrameGraphHZBOcclusionCullingTask, Nullable } from "core/index";
 import { FrameGraphTask } from "../../frameGraphTask";
 
 /**
@@ -15,6 +15,12 @@ export class FrameGraphCullObjectsTask extends FrameGraphTask {
      */
     public camera: Camera;
 
+    /**
+     * The occlusion culling task providing the visibility of the objects (optional).
+     * The meshes found occluded by the last results of the occlusion culling task are culled (meshes with alwaysSelectAsActiveMesh = true are never culled).
+     */
+    public occlusionCullingTask: Nullable<FrameGraphHZBOcclusionCullingTask> = null;
+
     /**
      * The output object list containing the culled objects.
      */
@@ -67,6 +73,7 @@ export class FrameGraphCullObjectsTask extends FrameGraphTask {
             this.camera._updateFrustumPlanes();
 
             const frustumPlanes = this.camera._frustumPlanes;
+            const occlusionCuller = this.occlusionCullingTask && !this.occlusionCullingTask.disabled ? this.occlusionCullingTask.culler : null;
 
             const meshes = this.objectList.meshes || this._scene.meshes;
             for (let i = 0; i < meshes.length; i++) {
@@ -79,7 +86,8 @@ export class FrameGraphCullObjectsTask extends FrameGraphTask {
                     mesh.isVisible &&
                     mesh.visibility > 0 &&
                     (mesh.layerMask & this.camera.layerMask) !== 0 &&
-                    (this._scene.skipFrustumClipping || mesh.alwaysSelectAsActiveMesh || mesh.isInFrustum(frustumPlanes))
+                    (this._scene.skipFrustumClipping || mesh.alwaysSelectAsActiveMesh || mesh.isInFrustum(frustumPlanes)) &&
+                    (!occlusionCuller || mesh.alwaysSelectAsActiveMesh || !occlusionCuller.isMeshOccluded(mesh))
                 ) {
                     this.outputObjectList.meshes.push(mesh);
                 }
@@ -0,0 +1,102 @@
+import type { Scene, Camera, FrameGraph, FrameGraphObjectList, FrameGraphTextureHandle, FrameGraphComputePass } from "core/index";
+import { FrameGraphTask } from "../../frameGraphTask";
+import { HZBOcclusionCuller } from "core/Culling/hzbOcclusionCuller";
+
+/**
+ * Task used to perform occlusion culling on the GPU, by building a hierarchical depth buffer (HZB) from a depth texture and testing the bounding boxes of the objects against it (WebGPU only).
+ * The task should be executed after the objects have been rendered in the depth texture: the visibility results are read back asynchronously, and are used
+ * by the cull objects tasks referencing this task (see FrameGraphCullObjectsTask.occlusionCullingTask) to cull the objects of the next frame(s).
+ */
+export class FrameGraphHZBOcclusionCullingTask extends FrameGraphTask {
+    /**
+     * The depth texture used to build the depth pyramid.
+     * It can either be a depth attachment or a color texture storing the depth in normalized device coordinates in the red channel. It must not be multi-sampled.
+     */
+    public depthTexture: FrameGraphTextureHandle;
+
+    /**
+     * The camera used to render the depth texture.
+     */
+    public camera: Camera;
+
+    /**
+     * The object list to test (if the list of meshes is not provided, the meshes of the scene are tested).
+     * It should be the input object list of the cull objects task which uses the results of this task (FrameGraphCullObjectsTask.objectList), not its output object list:
+     * the meshes culled because they are occluded would not be tested anymore, so they would be considered visible again on the next frame and would flicker.
+     */
+    public objectList: FrameGraphObjectList;
+
+    /**
+     * The occlusion culler used by the task.
+     */
+    public readonly culler: HZBOcclusionCuller;
+
+    public override get name() {
+        return this._name;
+    }
+
+    public override set name(name: string) {
+        this._name = name;
+        if (this.culler) {
+            this.culler.name = name;
+        }
+    }
+
+    private readonly _scene: Scene;
+
+    /**
+     * Creates a new HZB occlusion culling task.
+     * @param name The name of the task.
+     * @param frameGraph The frame graph the task belongs to.
+     * @param scene The scene the objects to test belong to.
+     */
+    constructor(name: string, frameGraph: FrameGraph, scene: Scene) {
+        super(name, frameGraph);
+
+        this._scene = scene;
+        this.culler = new HZBOcclusionCuller(name, frameGraph.engine);
+    }
+
+    public override isReady() {
+        return this.culler.isReady();
+    }
+
+    public override getClassName(): string {
+        return "FrameGraphHZBOcclusionCullingTask";
+    }
+
+    public record(skipCreationOfDisabledPasses = false): FrameGraphComputePass {
+        if (this.depthTexture === undefined || this.camera === undefined || this.objectList === undefined) {
+            throw new Error(`FrameGraphHZBOcclusionCullingTask ${this.name}: depthTexture, camera and objectList are required`);
+        }
+
+        const pass = this._frameGraph.addComputePass(this.name);
+
+        pass.addDependencies(this.depthTexture);
+        pass.setExecuteFunc((context) => {
+            const depthTexture = context.getTextureFromHandle(this.depthTexture);
+
+            if (!depthTexture) {
+                return;
+            }
+
+            this.culler.update(depthTexture, this.camera.getTransformationMatrix(), this.objectList.meshes || this._scene.meshes);
+        });
+
+        if (!skipCreationOfDisabledPasses) {
+            const passDisabled = this._frameGraph.addComputePass(this.name + "_disabled", true);
+
+            passDisabled.setExecuteFunc(() => {
+                // Stale results must not be used while the task is disabled
+                this.culler.reset();
+            });
+        }
+
+        return pass;
+    }
+
+    public override dispose(): void {
+        this.culler.dispose();
+        super.dispose();
+    }
+}
@@ -0,0 +1,119 @@
+import type { FrameGraph, FrameGraphTextureHandle, FrameGraphRenderPass, Camera, ClusteredLightContainer } from "core/index";
+import { FrameGraphPostProcessTask } from "../PostProcesses/postProcessTask";
+import { ThinDeferredLightingPostProcess } from "core/PostProcesses/thinDeferredLightingPostProcess";
+
+/**
+ * Task which lights the content of a G-buffer (generated by a geometry renderer task) with the lights of a clustered light container.
+ * The lighting is added to the source texture, which generally contains the rendering of the scene without the clustered lights (background, emissive, etc).
+ */
+export class FrameGraphDeferredLightingTask extends FrameGraphPostProcessTask {
+    /**
+     * The albedo texture of the G-buffer.
+     */
+    public albedoTexture: FrameGraphTextureHandle;
+
+    /**
+     * The normal texture of the G-buffer.
+     * It must store normals in world space.
+     */
+    public normalTexture: FrameGraphTextureHandle;
+
+    /**
+     * The position texture of the G-buffer.
+     * It must store positions in world space, and the alpha channel must be 0 for the pixels not covered by any geometry.
+     */
+    public positionTexture: FrameGraphTextureHandle;
+
+    /**
+     * The reflectivity texture of the G-buffer (specular color in rgb and glossiness in alpha).
+     */
+    public reflectivityTexture: FrameGraphTextureHandle;
+
+    /**
+     * The camera used to render the G-buffer.
+     */
+    public get camera() {
+        return this.postProcess.camera!;
+    }
+
+    public set camera(camera: Camera) {
+        this.postProcess.camera = camera;
+    }
+
+    /**
+     * The clustered light container providing the lights.
+     */
+    public get lightContainer() {
+        return this.postProcess.lightContainer!;
+    }
+
+    public set lightContainer(container: ClusteredLightContainer) {
+        this.postProcess.lightContainer = container;
+    }
+
+    public override readonly postProcess: ThinDeferredLightingPostProcess;
+
+    /**
+     * Constructs a new deferred lighting task.
+     * @param name The name of the task.
+     * @param frameGraph The frame graph this task belongs to.
+     * @param thinPostProcess The thin post process to use for the task. If not provided, a new one will be created.
+     */
+    constructor(name: string, frameGraph: FrameGraph, thinPostProcess?: ThinDeferredLightingPostProcess) {
+        super(name, frameGraph, thinPostProcess || new ThinDeferredLightingPostProcess(name, frameGraph.engine));
+    }
+
+    public override getClassName(): string {
+        return "FrameGraphDeferredLightingTask";
+    }
+
+    public override record(skipCreationOfDisabledPasses = false): FrameGraphRenderPass {
+        if (
+            this.sourceTexture === undefined ||
+            this.albedoTexture === undefined ||
+            this.normalTexture === undefined ||
+            this.positionTexture === undefined ||
+            this.reflectivityTexture === undefined ||
+            !this.postProcess.camera ||
+            !this.postProcess.lightContainer
+        ) {
+            throw new Error(
+                `FrameGraphDeferredLightingTask "${this.name}": sourceTexture, albedoTexture, normalTexture, positionTexture, reflectivityTexture, camera and lightContainer are required`
+            );
+        }
+
+        const pass = super.record(
+            skipCreationOfDisabledPasses,
+            () => {
+                this._renderTileMask();
+            },
+            (context) => {
+                const effect = this._postProcessDrawWrapper.effect!;
+
+                context.bindTextureHandle(effect, "albedoSampler", this.albedoTexture);
+                context.bindTextureHandle(effect, "normalSampler", this.normalTexture);
+                context.bindTextureHandle(effect, "positionSampler", this.positionTexture);
+                context.bindTextureHandle(effect, "reflectivitySampler", this.reflectivityTexture);
+            }
+        );
+
+        pass.addDependencies([this.albedoTexture, this.normalTexture, this.positionTexture, this.reflectivityTexture]);
+
+        return pass;
+    }
+
+    private _renderTileMask() {
+        const container = this.postProcess.lightContainer;
+        const camera = this.postProcess.camera;
+
+        if (!container?.isSupported || !camera) {
+            return;
+        }
+
+        // The tile mask must be rendered from the point of view of the camera used to render the G-buffer
+        const tileMaskTexture = container._updateBatches(camera);
+
+        tileMaskTexture.activeCamera = camera;
+        tileMaskTexture.render();
+    }
+}
@@ -1,10 +1,24 @@
-import type { Scene, AbstractEngine, FrameGraphTask, Nullable, NodeRenderGraph, IDisposable } from "core/index";
+import type {
+    Scene,
+    AbstractEngine,
+    FrameGraphTask,
+    Nullable,
+    NodeRenderGraph,
+    IDisposable,
+    IFrameGraphPass,
+    FrameGraphTextureHandle,
+    FrameGraphBufferHandle,
+    FrameGraphComputeShaderTask,
+} from "core/index";
 import { FrameGraphPass } from "./Passes/pass";
 import { FrameGraphRenderPass } from "./Passes/renderPass";
 import { FrameGraphObjectListPass } from "./Passes/objectListPass";
+import { FrameGraphComputePass } from "./Passes/computePass";
 import { FrameGraphRenderContext } from "./frameGraphRenderContext";
 import { FrameGraphContext } from "./frameGraphContext";
 import { FrameGraphTextureManager } from "./frameGraphTextureManager";
+import { FrameGraphBufferManager } from "./frameGraphBufferManager";
+import { FrameGraphProfiler } from "./frameGraphProfiler";
 import { Observable } from "core/Misc/observable";
 import { _RetryWithInterval } from "core/Misc/timingTools";
 import { Logger } from "core/Misc/logger";
@@ -17,8 +31,21 @@ enum FrameGraphPassType {
     Normal = 0,
     Render = 1,
     ObjectList = 2,
+    Compute = 3,
 }
 
+/**
+ * Textures and buffers read and written by a task, used to schedule asynchronous compute tasks
+ */
+type FrameGraphTaskResourceAccesses = {
+    reads: Set<FrameGraphTextureHandle>;
+    writes: Set<FrameGraphTextureHandle>;
+    bufferReads: Set<FrameGraphBufferHandle>;
+    bufferWrites: Set<FrameGraphBufferHandle>;
+    /** True if the task has passes which don't declare the textures they use (the task is a barrier for asynchronous compute tasks) */
+    undeclared: boolean;
+};
+
 /**
  * Class used to implement a frame graph
  * @experimental
@@ -29,9 +56,20 @@ export class FrameGraph implements IDisposable {
      */
     public readonly textureManager: FrameGraphTextureManager;
 
+    /**
+     * Gets the buffer manager used by the frame graph
+     */
+    public readonly bufferManager: FrameGraphBufferManager;
+
+    /**
+     * Gets the profiler used to report the resources used by the passes and to measure the execution time of the passes
+     */
+    public readonly profiler: FrameGraphProfiler;
+
     private readonly _engine: AbstractEngine;
     private readonly _scene: Scene;
     private readonly _tasks: FrameGraphTask[] = [];
+    private readonly _executionOrder: FrameGraphTask[] = [];
     private readonly _passContext: FrameGraphContext;
     private readonly _renderContext: FrameGraphRenderContext;
     private readonly _initAsyncPromises: Promise<void>[] = [];
@@ -53,6 +91,17 @@ export class FrameGraph implements IDisposable {
      */
     public optimizeTextureAllocation = true;
 
+    /**
+     * Gets or sets a boolean indicating that storage buffer allocation should be optimized (that is, reuse existing buffers when possible to limit GPU memory usage) (default: true)
+     */
+    public optimizeBufferAllocation = true;
+
+    /**
+     * Gets or sets a boolean indicating that compute tasks flagged as asynchronous (see FrameGraphComputeShaderTask.asyncCompute) can be executed earlier than their position in the task list (default: true).
+     * An asynchronous compute task is executed right after the last task it depends on (read-after-write, write-after-read and write-after-write dependencies on textures and buffers).
+     */
+    public scheduleAsyncCompute = true;
+
     /**
      * Observable raised when the node render graph is built
      */
@@ -79,6 +128,14 @@ export class FrameGraph implements IDisposable {
         return this._tasks;
     }
 
+    /**
+     * Gets the list of tasks in execution order.
+     * It is the same as the list of tasks, except for the asynchronous compute tasks that may have been moved earlier (only valid after the graph has been built)
+     */
+    public get executionOrder(): ReadonlyArray<FrameGraphTask> {
+        return this._executionOrder;
+    }
+
     /**
      * Indicates whether the execution of the frame graph is paused (default is false)
      */
@@ -106,8 +163,10 @@ export class FrameGraph implements IDisposable {
         this._scene = scene;
         this._engine = scene.getEngine();
         this.textureManager = new FrameGraphTextureManager(this._engine, debugTextures, scene);
-        this._passContext = new FrameGraphContext(this._engine, this.textureManager, scene);
-        this._renderContext = new FrameGraphRenderContext(this._engine, this.textureManager, scene);
+        this.bufferManager = new FrameGraphBufferManager(this._engine);
+        this._passContext = new FrameGraphContext(this._engine, this.textureManager, scene, this.bufferManager);
+        this._renderContext = new FrameGraphRenderContext(this._engine, this.textureManager, scene, this.bufferManager);
+        this.profiler = new FrameGraphProfiler(this);
 
         this._scene.addFrameGraph(this);
     }
@@ -181,6 +240,16 @@ export class FrameGraph implements IDisposable {
         return this._addPass(name, FrameGraphPassType.ObjectList, whenTaskDisabled) as FrameGraphObjectListPass;
     }
 
+    /**
+     * Adds a compute pass to a task. This method can only be called during a Task.record execution.
+     * @param name The name of the pass
+     * @param whenTaskDisabled If true, the pass will be added to the list of passes to execute when the task is disabled (default is false)
+     * @returns The compute pass created
+     */
+    public addComputePass(name: string, whenTaskDisabled = false): FrameGraphComputePass {
+        return this._addPass(name, FrameGraphPassType.Compute, whenTaskDisabled) as FrameGraphComputePass;
+    }
+
     private _addPass(name: string, passType: FrameGraphPassType, whenTaskDisabled = false): FrameGraphPass<FrameGraphContext> | FrameGraphRenderPass {
         if (!this._currentProcessedTask) {
             throw new Error("FrameGraph: A pass must be created during a Task.record execution only.");
@@ -195,6 +264,9 @@ export class FrameGraph implements IDisposable {
             case FrameGraphPassType.ObjectList:
                 pass = new FrameGraphObjectListPass(name, this._currentProcessedTask, this._passContext, this._engine);
                 break;
+            case FrameGraphPassType.Compute:
+                pass = new FrameGraphComputePass(name, this._currentProcessedTask, this._passContext);
+                break;
             default:
                 pass = new FrameGraphPass(name, this._currentProcessedTask, this._passContext);
                 break;
@@ -229,6 +301,7 @@ export class FrameGraph implements IDisposable {
      */
     public async buildAsync(waitForReadiness = true): Promise<void> {
         this.textureManager._releaseTextures(false);
+        this.bufferManager._releaseBuffers(false);
 
         this.pausedExecution = true;
         this._built = false;
@@ -241,14 +314,19 @@ export class FrameGraph implements IDisposable {
 
                 this._currentProcessedTask = task;
                 this.textureManager._isRecordingTask = true;
+                this.bufferManager._isRecordingTask = true;
 
                 task.record();
 
                 this.textureManager._isRecordingTask = false;
+                this.bufferManager._isRecordingTask = false;
                 this._currentProcessedTask = null;
             }
 
-            this.textureManager._allocateTextures(this.optimizeTextureAllocation ? this._tasks : undefined);
+            this._scheduleTasks();
+
+            this.textureManager._allocateTextures(this.optimizeTextureAllocation ? this._executionOrder : undefined);
+            this.bufferManager._allocateBuffers(this.optimizeBufferAllocation ? this._executionOrder : undefined);
 
             for (const task of this._tasks) {
                 task._checkTask();
@@ -260,6 +338,8 @@ export class FrameGraph implements IDisposable {
 
             this._built = true;
 
+            this.profiler._generateReport();
+
             this.onBuildObservable.notifyObservers(this);
 
             if (waitForReadiness) {
@@ -267,8 +347,10 @@ export class FrameGraph implements IDisposable {
             }
         } catch (e) {
             this._tasks.length = 0;
+            this._executionOrder.length = 0;
             this._currentProcessedTask = null;
             this.textureManager._isRecordingTask = false;
+            this.bufferManager._isRecordingTask = false;
             throw e;
         } finally {
             this.pausedExecution = false;
@@ -367,7 +449,9 @@ export class FrameGraph implements IDisposable {
 
         this.textureManager._updateHistoryTextures();
 
-        for (const task of this._tasks) {
+        this.profiler._collectGPUTimes();
+
+        for (const task of this._executionOrder) {
             task._execute();
         }
 
@@ -387,10 +471,134 @@ export class FrameGraph implements IDisposable {
         }
 
         this._tasks.length = 0;
+        this._executionOrder.length = 0;
         this.textureManager._releaseTextures();
+        this.bufferManager._releaseBuffers();
+        this.profiler._clear();
         this._currentProcessedTask = null;
     }
 
+    private _scheduleTasks() {
+        this._executionOrder.length = 0;
+
+        if (!this.scheduleAsyncCompute) {
+            this._executionOrder.push(...this._tasks);
+            return;
+        }
+
+        const accesses = new Map<FrameGraphTask, FrameGraphTaskResourceAccesses>();
+
+        for (const task of this._tasks) {
+            accesses.set(task, this._getTaskResourceAccesses(task));
+        }
+
+        for (const task of this._tasks) {
+            const taskAccesses = accesses.get(task)!;
+
+            if (!(task as FrameGraphComputeShaderTask).asyncCompute || taskAccesses.undeclared) {
+                this._executionOrder.push(task);
+                continue;
+            }
+
+            // Move the task right after the last task it depends on.
+            // Asynchronous compute tasks keep their relative order, as they may share resources not tracked by the frame graph (storage buffers, ...)
+            let index = this._executionOrder.length;
+            while (index > 0) {
+                const previousTask = this._executionOrder[index - 1];
+                const previousAccesses = accesses.get(previousTask)!;
+
+                if ((previousTask as FrameGraphComputeShaderTask).asyncCompute || previousAccesses.undeclared || this._tasksDependOnEachOther(taskAccesses, previousAccesses)) {
+                    break;
+                }
+
+                index--;
+            }
+
+            this._executionOrder.splice(index, 0, task);
+        }
+    }
+
+    private _tasksDependOnEachOther(task1: FrameGraphTaskResourceAccesses, task2: FrameGraphTaskResourceAccesses): boolean {
+        return (
+            this._resourcesDependOnEachOther(task1.reads, task1.writes, task2.reads, task2.writes) ||
+            this._resourcesDependOnEachOther(task1.bufferReads, task1.bufferWrites, task2.bufferReads, task2.bufferWrites)
+        );
+    }
+
+    private _resourcesDependOnEachOther(reads1: Set<number>, writes1: Set<number>, reads2: Set<number>, writes2: Set<number>): boolean {
+        for (const handle of reads1) {
+            if (writes2.has(handle)) {
+                return true; // read-after-write
+            }
+        }
+
+        for (const handle of writes1) {
+            if (reads2.has(handle) || writes2.has(handle)) {
+                return true; // write-after-read / write-after-write
+            }
+        }
+
+        return false;
+    }
+
+    private _getTaskResourceAccesses(task: FrameGraphTask): FrameGraphTaskResourceAccesses {
+        const accesses: FrameGraphTaskResourceAccesses = { reads: new Set(), writes: new Set(), bufferReads: new Set(), bufferWrites: new Set(), undeclared: false };
+
+        const resolveHandle = (handle: FrameGraphTextureHandle) => {
+            let entry = this.textureManager._textures.get(handle);
+            while (entry?.refHandle !== undefined) {
+                handle = entry.refHandle;
+                entry = this.textureManager._textures.get(handle);
+            }
+            return handle;
+        };
+
+        const resolveBufferHandle = (handle: FrameGraphBufferHandle) => {
+            return this.bufferManager._buffers.get(handle)?.refHandle ?? handle;
+        };
+
+        const addPasses = (passes: IFrameGraphPass[]) => {
+            for (const pass of passes) {
+                if (FrameGraphRenderPass.IsRenderPass(pass)) {
+                    const writes = new Set<FrameGraphTextureHandle>();
+                    const renderTargets = Array.isArray(pass.renderTarget) ? pass.renderTarget : [pass.renderTarget];
+                    for (const handle of renderTargets) {
+                        if (handle !== undefined) {
+                            writes.add(handle);
+                        }
+                    }
+                    if (pass.renderTargetDepth !== undefined && !pass.depthReadOnly) {
+                        writes.add(pass.renderTargetDepth);
+                    }
+
+                    const dependencies = new Set<FrameGraphTextureHandle>();
+                    pass.collectDependencies(dependencies);
+                    dependencies.forEach((handle) => (writes.has(handle) ? accesses.writes : accesses.reads).add(resolveHandle(handle)));
+
+                    const bufferDependencies = new Set<FrameGraphBufferHandle>();
+                    pass.collectBufferDependencies(bufferDependencies);
+                    bufferDependencies.forEach((handle) => accesses.bufferReads.add(resolveBufferHandle(handle)));
+                } else if (FrameGraphComputePass.IsComputePass(pass)) {
+                    pass.readTextures.forEach((handle) => accesses.reads.add(resolveHandle(handle)));
+                    pass.writtenTextures.forEach((handle) => accesses.writes.add(resolveHandle(handle)));
+                    pass.readBuffers.forEach((handle) => accesses.bufferReads.add(resolveBufferHandle(handle)));
+                    pass.writtenBuffers.forEach((handle) => accesses.bufferWrites.add(resolveBufferHandle(handle)));
+                } else {
+                    // Generic and object list passes can be used for anything (object lists can be consumed by compute tasks, for eg): we don't know which resources they use
+                    accesses.undeclared = true;
+                }
+            }
+        };
+
+        addPasses(task.passes);
+        addPasses(task.passesDisabled);
+
+        task.dependencies?.forEach((handle) => accesses.reads.add(resolveHandle(handle)));
+        task.bufferDependencies?.forEach((handle) => accesses.bufferReads.add(resolveBufferHandle(handle)));
+
+        return accesses;
+    }
+
     /**
      * Disposes the frame graph
      */
@@ -399,7 +607,9 @@ export class FrameGraph implements IDisposable {
         this._whenReadyAsyncCancel = null;
         this.clear();
         this.textureManager._dispose();
+        this.bufferManager._dispose();
         this._renderContext._dispose();
+        this.profiler.dispose();
 
         this._scene.removeFrameGraph(this);
     }
@@ -0,0 +1,412 @@
+import type { AbstractEngine, FrameGraphBufferCreationOptions, FrameGraphBufferHandle, FrameGraphTask, IFrameGraphPass, Nullable, WebGPUEngine } from "core/index";
+import { StorageBuffer } from "../Buffers/storageBuffer";
+import { Constants } from "../Engines/constants";
+import { Logger } from "../Misc/logger";
+import { FrameGraphRenderPass } from "./Passes/renderPass";
+import { FrameGraphComputePass } from "./Passes/computePass";
+
+type BufferLifespan = {
+    firstTask: number;
+    lastTask: number;
+};
+
+type BufferEntry = {
+    buffer: Nullable<StorageBuffer>;
+    name: string;
+    creationOptions: FrameGraphBufferCreationOptions;
+    namespace: FrameGraphBufferNamespace;
+    refHandle?: FrameGraphBufferHandle; // Handle of the buffer this one is referencing - used for dangling handles
+    lifespan?: BufferLifespan;
+    aliasHandle?: FrameGraphBufferHandle; // Handle of the buffer this one is aliasing - can be set after execution of buffer allocation optimization
+};
+
+enum FrameGraphBufferNamespace {
+    Task,
+    Graph,
+    External,
+}
+
+/**
+ * Manages the storage buffers used by a frame graph
+ * @experimental
+ */
+export class FrameGraphBufferManager {
+    private static _Counter = 0;
+
+    /** @internal */
+    public readonly _buffers: Map<FrameGraphBufferHandle, BufferEntry> = new Map();
+
+    /** @internal */
+    public _isRecordingTask = false;
+
+    /**
+     * Gets or sets a boolean indicating if debug logs should be shown when applying buffer allocation optimization (default: false)
+     */
+    public showDebugLogsForBufferAllocationOptimization = false;
+
+    /**
+     * Constructs a new instance of the buffer manager
+     * @param engine The engine to use
+     */
+    constructor(public readonly engine: AbstractEngine) {}
+
+    /**
+     * Gets a buffer from a handle
+     * @param handle The handle of the buffer
+     * @returns The buffer or null if not found
+     */
+    public getBufferFromHandle(handle: FrameGraphBufferHandle): Nullable<StorageBuffer> {
+        return this._buffers.get(handle)?.buffer ?? null;
+    }
+
+    /**
+     * Gets the creation options of a buffer
+     * @param handle Handle of the buffer
+     * @returns The creation options of the buffer
+     */
+    public getBufferCreationOptions(handle: FrameGraphBufferHandle): FrameGraphBufferCreationOptions {
+        handle = this._buffers.get(handle)?.refHandle ?? handle;
+
+        const entry = this._buffers.get(handle);
+        if (!entry) {
+            throw new Error(`getBufferCreationOptions: Buffer handle ${handle} does not exist!`);
+        }
+
+        return { ...entry.creationOptions };
+    }
+
+    /**
+     * Gets the name of a buffer
+     * @param handle Handle of the buffer
+     * @returns The name of the buffer
+     */
+    public getBufferName(handle: FrameGraphBufferHandle): string {
+        return this._buffers.get(handle)?.name ?? "";
+    }
+
+    /**
+     * Imports a storage buffer into the buffer manager
+     * @param name Name of the buffer
+     * @param buffer Buffer to import
+     * @param handle Existing handle to use for the buffer. If not provided (default), a new handle will be created.
+     * @returns The handle to the buffer
+     */
+    public importBuffer(name: string, buffer: StorageBuffer, handle?: FrameGraphBufferHandle): FrameGraphBufferHandle {
+        if (handle !== undefined) {
+            this._buffers.delete(handle);
+        }
+
+        return this._createHandleForBuffer(
+            name,
+            buffer,
+            {
+                byteSize: buffer.getBuffer()?.capacity ?? 0,
+                label: "imported",
+            },
+            FrameGraphBufferNamespace.External,
+            handle
+        );
+    }
+
+    /**
+     * Creates a new storage buffer
+     * @param name Name of the buffer
+     * @param creationOptions Options to use when creating the buffer
+     * @param handle Existing handle to use for the buffer. If not provided (default), a new handle will be created.
+     * @returns The handle to the buffer
+     */
+    public createBuffer(name: string, creationOptions: FrameGraphBufferCreationOptions, handle?: FrameGraphBufferHandle): FrameGraphBufferHandle {
+        return this._createHandleForBuffer(name, null, { ...creationOptions }, this._isRecordingTask ? FrameGraphBufferNamespace.Task : FrameGraphBufferNamespace.Graph, handle);
+    }
+
+    /**
+     * Creates a handle which is not associated with any buffer.
+     * Call resolveDanglingHandle to associate the handle with a valid buffer handle.
+     * @returns The dangling handle
+     */
+    public createDanglingHandle() {
+        return FrameGraphBufferManager._Counter++;
+    }
+
+    /**
+     * Associates a buffer with a dangling handle
+     * @param danglingHandle The dangling handle
+     * @param handle The handle to associate with the dangling handle (if not provided, a new buffer handle will be created, using the newBufferName and creationOptions parameters)
+     * @param newBufferName The name of the new buffer to create (if handle is not provided)
+     * @param creationOptions The options to use when creating the new buffer (if handle is not provided)
+     */
+    public resolveDanglingHandle(
+        danglingHandle: FrameGraphBufferHandle,
+        handle?: FrameGraphBufferHandle,
+        newBufferName?: string,
+        creationOptions?: FrameGraphBufferCreationOptions
+    ) {
+        if (handle === undefined) {
+            if (newBufferName === undefined || creationOptions === undefined) {
+                throw new Error("resolveDanglingHandle: Either handle or newBufferName and creationOptions must be provided.");
+            }
+            this.createBuffer(newBufferName, creationOptions, danglingHandle);
+            return;
+        }
+
+        const bufferEntry = this._buffers.get(handle);
+
+        if (bufferEntry === undefined) {
+            throw new Error(`resolveDanglingHandle: Buffer handle ${handle} does not exist!`);
+        }
+
+        handle = bufferEntry.refHandle ?? handle; // gets the refHandle if handle is a (resolved) dangling handle itself
+
+        this._buffers.set(danglingHandle, {
+            buffer: bufferEntry.buffer,
+            refHandle: handle,
+            name: bufferEntry.name,
+            creationOptions: { ...bufferEntry.creationOptions },
+            namespace: bufferEntry.namespace,
+        });
+    }
+
+    /**
+     * Computes the total byte size of the buffers managed by the buffer manager (external buffers are not taken into account)
+     * @param optimizedSize True if the calculation should not factor in aliased buffers
+     * @returns The total size of the buffers, in bytes
+     */
+    public computeTotalBufferSize(optimizedSize = true): number {
+        let totalSize = 0;
+
+        this._buffers.forEach((entry) => {
+            if (entry.refHandle !== undefined || entry.namespace === FrameGraphBufferNamespace.External || (optimizedSize && entry.aliasHandle !== undefined)) {
+                return;
+            }
+
+            totalSize += entry.creationOptions.byteSize;
+        });
+
+        return totalSize;
+    }
+
+    /** @internal */
+    public _dispose(): void {
+        this._releaseBuffers();
+    }
+
+    /** @internal */
+    public _allocateBuffers(tasks?: FrameGraphTask[]): void {
+        if (tasks) {
+            this._optimizeBufferAllocation(tasks);
+        }
+
+        let notSupported = false;
+
+        this._buffers.forEach((entry) => {
+            if (entry.buffer) {
+                return;
+            }
+
+            if (entry.refHandle !== undefined) {
+                // entry is a dangling handle which has been resolved to point to refHandle
+                return;
+            }
+
+            if (entry.namespace === FrameGraphBufferNamespace.External) {
+                return;
+            }
+
+            if (entry.aliasHandle !== undefined) {
+                return;
+            }
+
+            if (!this.engine.isWebGPU) {
+                notSupported = true;
+                return;
+            }
+
+            entry.buffer = new StorageBuffer(
+                this.engine as WebGPUEngine,
+                entry.creationOptions.byteSize,
+                entry.creationOptions.creationFlags ?? Constants.BUFFER_CREATIONFLAG_READWRITE,
+                entry.creationOptions.label ?? entry.name
+            );
+        });
+
+        // Second pass, once all the "real" buffers have been created: aliased buffers and dangling handles reference the buffer of another entry
+        this._buffers.forEach((entry) => {
+            if (entry.buffer) {
+                return;
+            }
+
+            if (entry.aliasHandle !== undefined) {
+                entry.buffer = this._buffers.get(entry.aliasHandle)!.buffer;
+            }
+        });
+
+        this._buffers.forEach((entry) => {
+            if (entry.refHandle !== undefined) {
+                const refEntry = this._buffers.get(entry.refHandle)!;
+                entry.buffer = refEntry.buffer;
+            }
+        });
+
+        if (notSupported) {
+            Logger.Error("FrameGraphBufferManager: Storage buffers are only supported by WebGPU!");
+        }
+    }
+
+    /** @internal */
+    public _releaseBuffers(releaseAll = true): void {
+        this._buffers.forEach((entry, handle) => {
+            if (entry.lifespan) {
+                entry.lifespan.firstTask = Number.MAX_VALUE;
+                entry.lifespan.lastTask = 0;
+            }
+
+            if (entry.namespace === FrameGraphBufferNamespace.External) {
+                return;
+            }
+
+            // Aliased buffers and dangling handles don't own their buffer
+            if (entry.aliasHandle === undefined && entry.refHandle === undefined) {
+                entry.buffer?.dispose();
+            }
+
+            entry.aliasHandle = undefined;
+            entry.buffer = null;
+
+            if (releaseAll || entry.namespace === FrameGraphBufferNamespace.Task) {
+                this._buffers.delete(handle);
+            }
+        });
+
+        if (releaseAll) {
+            this._buffers.clear();
+        }
+    }
+
+    private _createHandleForBuffer(
+        name: string,
+        buffer: Nullable<StorageBuffer>,
+        creationOptions: FrameGraphBufferCreationOptions,
+        namespace: FrameGraphBufferNamespace,
+        handle?: FrameGraphBufferHandle
+    ): FrameGraphBufferHandle {
+        handle = handle ?? FrameGraphBufferManager._Counter++;
+
+        this._buffers.set(handle, {
+            buffer,
+            name,
+            creationOptions,
+            namespace,
+            lifespan: {
+                firstTask: Number.MAX_VALUE,
+                lastTask: 0,
+            },
+        });
+
+        return handle;
+    }
+
+    private _optimizeBufferAllocation(tasks: FrameGraphTask[]): void {
+        this._computeBufferLifespan(tasks);
+
+        if (this.showDebugLogsForBufferAllocationOptimization) {
+            Logger.Log(`================== Optimization of buffer allocation ==================`);
+        }
+
+        // Buffers can be aliased if they have the same size and creation flags, and if their lifespans don't overlap
+        const cache: Map<string, Array<[FrameGraphBufferHandle, Array<BufferLifespan>]>> = new Map();
+
+        this._buffers.forEach((entry, handle) => {
+            if (
+                entry.refHandle !== undefined ||
+                entry.namespace === FrameGraphBufferNamespace.External ||
+                entry.creationOptions.persistent ||
+                entry.lifespan!.firstTask === Number.MAX_VALUE
+            ) {
+                return;
+            }
+
+            const hash = `${entry.creationOptions.byteSize}_${entry.creationOptions.creationFlags ?? Constants.BUFFER_CREATIONFLAG_READWRITE}`;
+            const lifespan = entry.lifespan!;
+
+            const cacheEntries = cache.get(hash);
+            if (!cacheEntries) {
+                cache.set(hash, [[handle, [lifespan]]]);
+                return;
+            }
+
+            for (const [sourceHandle, lifespanArray] of cacheEntries) {
+                let overlapped = false;
+                for (const otherLifespan of lifespanArray) {
+                    if (otherLifespan.firstTask <= lifespan.lastTask && otherLifespan.lastTask >= lifespan.firstTask) {
+                        overlapped = true;
+                        break;
+                    }
+                }
+
+                if (!overlapped) {
+                    if (this.showDebugLogsForBufferAllocationOptimization) {
+                        Logger.Log(`Buffer ${handle} (${entry.name}) reuses cache entry ${sourceHandle}`);
+                    }
+
+                    lifespanArray.push(lifespan);
+                    entry.aliasHandle = sourceHandle;
+                    return;
+                }
+            }
+
+            cacheEntries.push([handle, [lifespan]]);
+        });
+    }
+
+    // Loop through all task/pass buffer dependencies and compute the lifespan of each buffer (that is, the first task/pass that uses it and the last task/pass that uses it)
+    private _computeBufferLifespan(tasks: FrameGraphTask[]): void {
+        for (let t = 0; t < tasks.length; ++t) {
+            const task = tasks[t];
+
+            this._computeBufferLifespanForPasses(t, task.passes);
+            this._computeBufferLifespanForPasses(t, task.passesDisabled);
+
+            if (task.bufferDependencies) {
+                this._updateLifespan(t * 100 + 99, task.bufferDependencies);
+            }
+        }
+    }
+
+    private _computeBufferLifespanForPasses(taskIndex: number, passes: IFrameGraphPass[]): void {
+        for (let p = 0; p < passes.length; ++p) {
+            const pass = passes[p];
+
+            if (!FrameGraphRenderPass.IsRenderPass(pass) && !FrameGraphComputePass.IsComputePass(pass)) {
+                continue;
+            }
+
+            const dependencies = new Set<FrameGraphBufferHandle>();
+
+            pass.collectBufferDependencies(dependencies);
+
+            this._updateLifespan(taskIndex * 100 + p, dependencies);
+        }
+    }
+
+    private _updateLifespan(passOrderNum: number, dependencies: Set<FrameGraphBufferHandle>) {
+        dependencies.forEach((bufferHandle) => {
+            let entry = this._buffers.get(bufferHandle);
+            if (!entry) {
+                throw new Error(
+                    `FrameGraph._computeBufferLifespan: Buffer handle "${bufferHandle}" not found in the buffer manager. Make sure you didn't forget to add a task in the frame graph.`
+                );
+            }
+
+            while (entry.refHandle !== undefined) {
+                entry = this._buffers.get(entry.refHandle)!;
+            }
+
+            if (entry.namespace === FrameGraphBufferNamespace.External) {
+                return;
+            }
+
+            entry.lifespan!.firstTask = Math.min(entry.lifespan!.firstTask, passOrderNum);
+            entry.lifespan!.lastTask = Math.max(entry.lifespan!.lastTask, passOrderNum);
+        });
+    }
+}
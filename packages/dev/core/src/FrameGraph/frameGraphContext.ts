@@ -1,4 +1,15 @@
-import type { AbstractEngine, FrameGraphTextureManager, Scene, FrameGraphTextureHandle, Nullable, InternalTexture, IViewportLike } from "core/index";
+import type {
+    AbstractEngine,
+    FrameGraphTextureManager,
+    FrameGraphBufferManager,
+    Scene,
+    FrameGraphTextureHandle,
+    FrameGraphBufferHandle,
+    Nullable,
+    InternalTexture,
+    IViewportLike,
+    StorageBuffer,
+} from "core/index";
 
 /**
  * Base class for frame graph context.
@@ -11,7 +22,8 @@ export class FrameGraphContext {
     constructor(
         protected readonly _engine: AbstractEngine,
         protected readonly _textureManager: FrameGraphTextureManager,
-        protected readonly _scene: Scene
+        protected readonly _scene: Scene,
+        protected readonly _bufferManager: FrameGraphBufferManager
     ) {}
 
     /**
@@ -51,6 +63,15 @@ export class FrameGraphContext {
         return this._textureManager.getTextureFromHandle(handle);
     }
 
+    /**
+     * Gets a storage buffer from a handle.
+     * @param handle The handle of the buffer
+     * @returns The buffer or null if not found
+     */
+    public getBufferFromHandle(handle: FrameGraphBufferHandle): Nullable<StorageBuffer> {
+        return this._bufferManager.getBufferFromHandle(handle);
+    }
+
     /**
      * Pushes a debug group to the engine's debug stack.
      * @param name The name of the debug group
@@ -0,0 +1,382 @@
+import type { FrameGraph, FrameGraphTask, FrameGraphTextureHandle, IFrameGraphPass, Nullable, ThinEngine, _TimeToken } from "core/index";
+import { FrameGraphRenderPass } from "./Passes/renderPass";
+import { FrameGraphObjectListPass } from "./Passes/objectListPass";
+import { FrameGraphComputePass } from "./Passes/computePass";
+import { Observable } from "core/Misc/observable";
+import { PerfCounter } from "core/Misc/perfCounter";
+
+/**
+ * Describes a pass of a frame graph, as reported by the frame graph profiler.
+ */
+export type FrameGraphPassReport = {
+    /** Index of the pass in the list of passes of the report */
+    index: number;
+
+    /** Name of the pass */
+    name: string;
+
+    /** Type of the pass ("render", "objectList", "compute" or "generic") */
+    type: "render" | "objectList" | "compute" | "generic";
+
+    /** Name of the task the pass belongs to */
+    taskName: string;
+
+    /** Index of the task the pass belongs to in the frame graph */
+    taskIndex: number;
+
+    /** True if the pass is executed in place of the regular passes of the task when the task is disabled */
+    whenTaskDisabled: boolean;
+
+    /** Handles of the textures read by the pass */
+    readTextures: FrameGraphTextureHandle[];
+
+    /** Handles of the textures written by the pass */
+    writtenTextures: FrameGraphTextureHandle[];
+
+    /** CPU time spent executing the pass, in milliseconds (only updated when the profiler is enabled) */
+    cpuTime: PerfCounter;
+
+    /** GPU time spent executing the pass, in milliseconds (only updated when the profiler is enabled and the engine supports timestamp queries) */
+    gpuTime: PerfCounter;
+};
+
+/**
+ * Describes a texture of a frame graph, as reported by the frame graph profiler.
+ */
+export type FrameGraphTextureReport = {
+    /** Handle of the texture */
+    handle: FrameGraphTextureHandle;
+
+    /** Name of the texture */
+    name: string;
+
+    /** Size of the texture, in pixels */
+    size: { width: number; height: number };
+
+    /** Type of the texture (Constants.TEXTURETYPE_XXX) */
+    type: number;
+
+    /** Format of the texture (Constants.TEXTUREFORMAT_XXX) */
+    format: number;
+
+    /** Sample count of the texture */
+    samples: number;
+
+    /** True if the texture has mipmaps */
+    createMipMaps: boolean;
+
+    /** Size of the texture in GPU memory, in bytes */
+    byteSize: number;
+
+    /** True if the texture has not been created by the frame graph (imported textures, back buffer textures) */
+    isExternal: boolean;
+
+    /** True if the texture is a history texture */
+    isHistoryTexture: boolean;
+
+    /** Handle of the texture whose memory is reused by this texture, if the texture allocation optimization aliased it */
+    aliasHandle?: FrameGraphTextureHandle;
+
+    /** Index of the first pass that uses the texture (-1 if the texture is not used by any pass) */
+    firstPass: number;
+
+    /** Index of the last pass that uses the texture (-1 if the texture is not used by any pass) */
+    lastPass: number;
+};
+
+/**
+ * Describes the resources used by a frame graph after it has been built, as reported by the frame graph profiler.
+ */
+export type FrameGraphResourceReport = {
+    /** The passes of the frame graph, in execution order */
+    passes: FrameGraphPassReport[];
+
+    /** The textures of the frame graph (dangling handles are resolved to the textures they reference) */
+    textures: FrameGraphTextureReport[];
+
+    /** Total size of the textures, in bytes, if no texture was aliased */
+    totalByteSize: number;
+
+    /** Total size of the textures, in bytes, taking into account the textures aliased by the texture allocation optimization */
+    optimizedByteSize: number;
+};
+
+/**
+ * Class used to report the resources used by the passes of a frame graph (texture reads/writes, texture aliasing and memory)
+ * each time the frame graph is built, and to measure the CPU/GPU time spent in each pass when the frame graph is executed.
+ * @experimental
+ */
+export class FrameGraphProfiler {
+    private _report: Nullable<FrameGraphResourceReport> = null;
+    private readonly _passReports = new Map<IFrameGraphPass, FrameGraphPassReport>();
+    private readonly _pendingGPUQueries: Array<{ token: _TimeToken; counter: PerfCounter }> = [];
+    private _currentPassReport: Nullable<FrameGraphPassReport> = null;
+    private _currentGPUQuery: Nullable<{ token: _TimeToken; counter: PerfCounter }> = null;
+
+    /**
+     * Gets or sets a boolean indicating if the CPU/GPU time spent in each pass should be measured when the frame graph is executed (default: false)
+     */
+    public enabled = false;
+
+    /**
+     * Observable raised when a new report is available (that is, each time the frame graph is built)
+     */
+    public onReportObservable = new Observable<FrameGraphResourceReport>();
+
+    /**
+     * Gets the report generated by the last build of the frame graph (null if the frame graph has not been built yet)
+     */
+    public get report() {
+        return this._report;
+    }
+
+    /**
+     * Constructs a new frame graph profiler
+     * @param _frameGraph The frame graph to profile
+     */
+    constructor(private readonly _frameGraph: FrameGraph) {}
+
+    /** @internal */
+    public _generateReport(): void {
+        const textureManager = this._frameGraph.textureManager;
+        const passes: FrameGraphPassReport[] = [];
+        const firstPass = new Map<FrameGraphTextureHandle, number>();
+        const lastPass = new Map<FrameGraphTextureHandle, number>();
+
+        const resolveHandle = (handle: FrameGraphTextureHandle) => {
+            let entry = textureManager._textures.get(handle);
+            while (entry?.refHandle !== undefined) {
+                handle = entry.refHandle;
+                entry = textureManager._textures.get(handle);
+            }
+            return handle;
+        };
+
+        const useTextures = (handles: FrameGraphTextureHandle[], passIndex: number) => {
+            for (const handle of handles) {
+                if (!firstPass.has(handle)) {
+                    firstPass.set(handle, passIndex);
+                }
+                lastPass.set(handle, passIndex);
+            }
+        };
+
+        const addPasses = (task: FrameGraphTask, taskIndex: number, taskPasses: IFrameGraphPass[], whenTaskDisabled: boolean) => {
+            for (const pass of taskPasses) {
+                const passReport = this._createPassReport(pass, task, taskIndex, whenTaskDisabled, passes.length, resolveHandle);
+
+                useTextures(passReport.readTextures, passReport.index);
+                useTextures(passReport.writtenTextures, passReport.index);
+
+                passes.push(passReport);
+            }
+        };
+
+        this._passReports.clear();
+        this._currentPassReport = null;
+
+        const tasks = this._frameGraph.tasks;
+        for (const task of this._frameGraph.executionOrder) {
+            const t = tasks.indexOf(task);
+            const firstTaskPass = passes.length;
+
+            addPasses(task, t, task.passes, false);
+            addPasses(task, t, task.passesDisabled, true);
+
+            if (task.dependencies && passes.length > firstTaskPass) {
+                // The dependencies of the task are read by all the passes of the task
+                const dependencies = Array.from(task.dependencies, resolveHandle);
+                for (let p = firstTaskPass; p < passes.length; ++p) {
+                    this._addUniqueHandles(passes[p].readTextures, dependencies);
+                    useTextures(dependencies, p);
+                }
+            }
+        }
+
+        const textures: FrameGraphTextureReport[] = [];
+
+        textureManager._textures.forEach((entry, handle) => {
+            if (entry.refHandle !== undefined) {
+                return;
+            }
+
+            const description = textureManager.getTextureDescription(handle);
+
+            textures.push({
+                handle,
+                name: entry.name,
+                size: description.size,
+                type: description.options.types?.[0] ?? 0,
+                format: description.options.formats?.[0] ?? 0,
+                samples: description.options.samples ?? 1,
+                createMipMaps: !!description.options.createMipMaps,
+                byteSize: textureManager._computeTextureByteSize(handle),
+                isExternal: textureManager._isExternalTexture(handle),
+                isHistoryTexture: textureManager.isHistoryTexture(handle, true),
+                aliasHandle: entry.aliasHandle,
+                firstPass: firstPass.get(handle) ?? -1,
+                lastPass: lastPass.get(handle) ?? -1,
+            });
+        });
+
+        const outputWidth = this._frameGraph.engine.getRenderWidth(true);
+        const outputHeight = this._frameGraph.engine.getRenderHeight(true);
+
+        this._report = {
+            passes,
+            textures,
+            totalByteSize: textureManager.computeTotalTextureSize(false, outputWidth, outputHeight),
+            optimizedByteSize: textureManager.computeTotalTextureSize(true, outputWidth, outputHeight),
+        };
+
+        this.onReportObservable.notifyObservers(this._report);
+    }
+
+    /** @internal */
+    public _beginPass(pass: IFrameGraphPass): void {
+        const passReport = this._passReports.get(pass);
+        if (!passReport) {
+            return;
+        }
+
+        this._currentPassReport = passReport;
+
+        passReport.cpuTime.beginMonitoring();
+
+        // A new GPU query is started only when the result of the previous one has been retrieved
+        const engine = this._frameGraph.engine as ThinEngine;
+        if (engine.startTimeQuery && engine.getCaps().canUseTimestampForTimerQuery && !this._pendingGPUQueries.some((query) => query.counter === passReport.gpuTime)) {
+            const token = engine.startTimeQuery();
+            if (token) {
+                this._currentGPUQuery = { token, counter: passReport.gpuTime };
+            }
+        }
+    }
+
+    /** @internal */
+    public _endPass(): void {
+        const passReport = this._currentPassReport;
+        if (!passReport) {
+            return;
+        }
+
+        passReport.cpuTime.endMonitoring();
+
+        // The first call to endTimeQuery ends the query: the result is generally not available before the next frames
+        if (this._currentGPUQuery && !this._retrieveGPUTime(this._currentGPUQuery)) {
+            this._pendingGPUQueries.push(this._currentGPUQuery);
+        }
+
+        this._currentGPUQuery = null;
+
+        this._currentPassReport = null;
+    }
+
+    /** @internal */
+    public _collectGPUTimes(): void {
+        for (let i = 0; i < this._pendingGPUQueries.length; ++i) {
+            if (this._retrieveGPUTime(this._pendingGPUQueries[i])) {
+                this._pendingGPUQueries.splice(i--, 1);
+            }
+        }
+    }
+
+    /** @internal */
+    public _clear(): void {
+        this._report = null;
+        this._passReports.clear();
+        this._currentPassReport = null;
+    }
+
+    /**
+     * Disposes the profiler
+     */
+    public dispose(): void {
+        this._clear();
+        this._pendingGPUQueries.length = 0;
+        this.onReportObservable.clear();
+    }
+
+    private _createPassReport(
+        pass: IFrameGraphPass,
+        task: FrameGraphTask,
+        taskIndex: number,
+        whenTaskDisabled: boolean,
+        index: number,
+        resolveHandle: (handle: FrameGraphTextureHandle) => FrameGraphTextureHandle
+    ): FrameGraphPassReport {
+        const readTextures: FrameGraphTextureHandle[] = [];
+        const writtenTextures: FrameGraphTextureHandle[] = [];
+
+        let type: FrameGraphPassReport["type"] = "generic";
+
+        if (FrameGraphRenderPass.IsRenderPass(pass)) {
+            type = "render";
+
+            const renderTargets = Array.isArray(pass.renderTarget) ? pass.renderTarget : [pass.renderTarget];
+            for (const handle of renderTargets) {
+                if (handle !== undefined) {
+                    this._addUniqueHandles(writtenTextures, [resolveHandle(handle)]);
+                }
+            }
+
+            if (pass.renderTargetDepth !== undefined) {
+                this._addUniqueHandles(pass.depthReadOnly ? readTextures : writtenTextures, [resolveHandle(pass.renderTargetDepth)]);
+            }
+
+            // The dependencies also include the render targets, which are already reported as written
+            const dependencies = new Set<FrameGraphTextureHandle>();
+            pass.collectDependencies(dependencies);
+            dependencies.forEach((handle) => {
+                handle = resolveHandle(handle);
+                if (writtenTextures.indexOf(handle) === -1) {
+                    this._addUniqueHandles(readTextures, [handle]);
+                }
+            });
+        } else if (FrameGraphObjectListPass.IsObjectListPass(pass)) {
+            type = "objectList";
+        } else if (FrameGraphComputePass.IsComputePass(pass)) {
+            type = "compute";
+
+            pass.readTextures.forEach((handle) => this._addUniqueHandles(readTextures, [resolveHandle(handle)]));
+            pass.writtenTextures.forEach((handle) => this._addUniqueHandles(writtenTextures, [resolveHandle(handle)]));
+        }
+
+        const passReport: FrameGraphPassReport = {
+            index,
+            name: pass.name,
+            type,
+            taskName: task.name,
+            taskIndex,
+            whenTaskDisabled,
+            readTextures,
+            writtenTextures,
+            cpuTime: new PerfCounter(),
+            gpuTime: new PerfCounter(),
+        };
+
+        this._passReports.set(pass, passReport);
+
+        return passReport;
+    }
+
+    private _retrieveGPUTime(query: { token: _TimeToken; counter: PerfCounter }): boolean {
+        const time = (this._frameGraph.engine as ThinEngine).endTimeQuery(query.token);
+        if (time < 0) {
+            return false;
+        }
+
+        query.counter.fetchNewFrame();
+        query.counter.addCount(time * 0.000001, true);
+
+        return true;
+    }
+
+    private _addUniqueHandles(handles: FrameGraphTextureHandle[], newHandles: FrameGraphTextureHandle[]) {
+        for (const handle of newHandles) {
+            if (handles.indexOf(handle) === -1) {
+                handles.push(handle);
+            }
+        }
+    }
+}
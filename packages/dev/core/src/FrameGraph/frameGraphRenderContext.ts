@@ -7,6 +7,7 @@ import type {
     FrameGraphTextureHandle,
     Effect,
     FrameGraphTextureManager,
+    FrameGraphBufferManager,
     ObjectRenderer,
     Scene,
     FrameGraphRenderTarget,
@@ -56,8 +57,8 @@ export class FrameGraphRenderContext extends FrameGraphContext {
     }
 
     /** @internal */
-    constructor(engine: AbstractEngine, textureManager: FrameGraphTextureManager, scene: Scene) {
-        super(engine, textureManager, scene);
+    constructor(engine: AbstractEngine, textureManager: FrameGraphTextureManager, scene: Scene, bufferManager: FrameGraphBufferManager) {
+        super(engine, textureManager, scene, bufferManager);
         this._effectRenderer = new EffectRenderer(this._engine);
         this._effectRendererBack = new EffectRenderer(this._engine, {
             positions: [1, 1, -1, 1, -1, -1, 1, -1],
@@ -1,4 +1,13 @@
-import type { FrameGraph, FrameGraphObjectList, IFrameGraphPass, Nullable, FrameGraphTextureHandle, InternalTexture, FrameGraphRenderContext } from "core/index";
+import type {
+    FrameGraph,
+    FrameGraphObjectList,
+    IFrameGraphPass,
+    Nullable,
+    FrameGraphTextureHandle,
+    FrameGraphBufferHandle,
+    InternalTexture,
+    FrameGraphRenderContext,
+} from "core/index";
 import { FrameGraphObjectListPass } from "./Passes/objectListPass";
 import { FrameGraphRenderPass } from "./Passes/renderPass";
 import { Observable } from "core/Misc/observable";
@@ -60,6 +69,11 @@ export abstract class FrameGraphTask {
      */
     public dependencies?: Set<FrameGraphTextureHandle>;
 
+    /**
+     * The (storage buffer) dependencies of the task (optional).
+     */
+    public bufferDependencies?: Set<FrameGraphBufferHandle>;
+
     /**
      * Records the task in the frame graph. Use this function to add content (render passes, ...) to the task.
      * @param skipCreationOfDisabledPasses If true, the disabled passe(s) won't be created.
@@ -229,8 +243,16 @@ export abstract class FrameGraphTask {
 
         this._frameGraph.engine._debugPushGroup?.(`${this.getClassName()} (${this.name})`, 1);
 
+        const profiler = this._frameGraph.profiler;
+
         for (const pass of passes) {
-            pass._execute();
+            if (profiler.enabled) {
+                profiler._beginPass(pass);
+                pass._execute();
+                profiler._endPass();
+            } else {
+                pass._execute();
+            }
         }
 
         this._frameGraph.engine._debugPopGroup?.(1);
@@ -20,6 +20,7 @@ import { Constants } from "../Engines/constants";
 import { InternalTextureSource } from "../Materials/Textures/internalTexture";
 import { FrameGraphRenderTarget } from "./frameGraphRenderTarget";
 import { FrameGraphRenderPass } from "./Passes/renderPass";
+import { FrameGraphComputePass } from "./Passes/computePass";
 import { Logger } from "../Misc/logger";
 import { GetTypeForDepthTexture, IsDepthTexture, HasStencilAspect } from "core/Materials/Textures/textureHelper.functions";
 
@@ -470,42 +471,58 @@ export class FrameGraphTextureManager {
         let totalSize = 0;
 
         this._textures.forEach((entry, handle) => {
-            if (
-                (!this._backBufferTextureOverriden && (handle === backbufferColorTextureHandle || handle === backbufferDepthStencilTextureHandle)) ||
-                entry.refHandle !== undefined
-            ) {
-                return;
-            }
             if (optimizedSize && entry.aliasHandle !== undefined) {
                 return;
             }
 
-            const options = entry.creationOptions;
-            const textureIndex = entry.textureIndex || 0;
-            const dimensions = options.sizeIsPercentage ? this.getAbsoluteDimensions(options.size, outputWidth, outputHeight) : getDimensionsFromTextureSize(options.size);
+            totalSize += this._computeTextureByteSize(handle, outputWidth, outputHeight);
+        });
 
-            const blockInfo = FrameGraphTextureManager._GetTextureBlockInformation(
-                options.options.types?.[textureIndex] ?? Constants.TEXTURETYPE_UNSIGNED_BYTE,
-                options.options.formats![textureIndex]
-            );
+        return totalSize;
+    }
 
-            const textureByteSize = Math.ceil(dimensions.width / blockInfo.width) * Math.ceil(dimensions.height / blockInfo.height) * blockInfo.length;
+    /**
+     * @internal
+     * Computes the byte size of a texture. Returns 0 for dangling handles and for the back buffer textures (if they are not overriden).
+     */
+    public _computeTextureByteSize(handle: FrameGraphTextureHandle, outputWidth?: number, outputHeight?: number): number {
+        const entry = this._textures.get(handle);
+        if (
+            !entry ||
+            (!this._backBufferTextureOverriden && (handle === backbufferColorTextureHandle || handle === backbufferDepthStencilTextureHandle)) ||
+            entry.refHandle !== undefined
+        ) {
+            return 0;
+        }
 
-            let byteSize = textureByteSize;
+        const options = entry.creationOptions;
+        const textureIndex = entry.textureIndex || 0;
+        const dimensions = options.sizeIsPercentage ? this.getAbsoluteDimensions(options.size, outputWidth, outputHeight) : getDimensionsFromTextureSize(options.size);
 
-            if (options.options.createMipMaps) {
-                byteSize = Math.floor((byteSize * 4) / 3);
-            }
+        const blockInfo = FrameGraphTextureManager._GetTextureBlockInformation(
+            options.options.types?.[textureIndex] ?? Constants.TEXTURETYPE_UNSIGNED_BYTE,
+            options.options.formats![textureIndex]
+        );
 
-            if ((options.options.samples || 1) > 1) {
-                // We need an additional texture in the case of MSAA
-                byteSize += textureByteSize;
-            }
+        const textureByteSize = Math.ceil(dimensions.width / blockInfo.width) * Math.ceil(dimensions.height / blockInfo.height) * blockInfo.length;
 
-            totalSize += byteSize;
-        });
+        let byteSize = textureByteSize;
 
-        return totalSize;
+        if (options.options.createMipMaps) {
+            byteSize = Math.floor((byteSize * 4) / 3);
+        }
+
+        if ((options.options.samples || 1) > 1) {
+            // We need an additional texture in the case of MSAA
+            byteSize += textureByteSize;
+        }
+
+        return byteSize;
+    }
+
+    /** @internal */
+    public _isExternalTexture(handle: FrameGraphTextureHandle): boolean {
+        return this._textures.get(handle)?.namespace === FrameGraphTextureNamespace.External;
     }
 
     /**
@@ -1028,7 +1045,7 @@ export class FrameGraphTextureManager {
             const dependencies = new Set<FrameGraphTextureHandle>();
             const pass = passes[p];
 
-            if (!FrameGraphRenderPass.IsRenderPass(pass)) {
+            if (!FrameGraphRenderPass.IsRenderPass(pass) && !FrameGraphComputePass.IsComputePass(pass)) {
                 continue;
             }
 
@@ -72,6 +72,28 @@ export type FrameGraphTextureDescription = {
     options: FrameGraphTextureOptions;
 };
 
+/**
+ * Represents a (storage) buffer handle in the frame graph.
+ */
+export type FrameGraphBufferHandle = number;
+
+/**
+ * Options used to create a storage buffer in the frame graph.
+ */
+export type FrameGraphBufferCreationOptions = {
+    /** Size of the buffer, in bytes */
+    byteSize: number;
+
+    /** Defines the creation flags of the buffer (default: Constants.BUFFER_CREATIONFLAG_READWRITE). Add Constants.BUFFER_CREATIONFLAG_INDIRECT if the buffer is used for indirect draws/dispatches, for eg */
+    creationFlags?: number;
+
+    /** Defines the name of the buffer (used for debugging purpose) */
+    label?: string;
+
+    /** If true, the buffer is never aliased with another buffer, so that its content is preserved from one frame to the next (particle states, for eg) (default: false) */
+    persistent?: boolean;
+};
+
 /**
  * Defines a pass in the frame graph.
  */
@@ -6,6 +6,7 @@ export * from "./Node/nodeRenderGraphBuildState";
 export * from "./Node/Types/nodeRenderGraphTypes";
 export * from "./Node/Blocks/index";
 
+export * from "./Passes/computePass";
 export * from "./Passes/objectListPass";
 export * from "./Passes/pass";
 export * from "./Passes/renderPass";
@@ -16,6 +17,7 @@ export * from "./Tasks/Layers/highlightLayerTask";
 export * from "./Tasks/Misc/computeShaderTask";
 export * from "./Tasks/Misc/cullObjectsTask";
 export * from "./Tasks/Misc/executeTask";
+export * from "./Tasks/Misc/hzbOcclusionCullingTask";
 export * from "./Tasks/Misc/lightingVolumeTask";
 
 export * from "./Tasks/PostProcesses/anaglyphTask";
@@ -50,14 +52,17 @@ export * from "./Tasks/Texture/copyToTextureTask";
 export * from "./Tasks/Texture/generateMipMapsTask";
 
 export * from "./Tasks/Rendering/csmShadowGeneratorTask";
+export * from "./Tasks/Rendering/deferredLightingTask";
 export * from "./Tasks/Rendering/geometryRendererTask";
 export * from "./Tasks/Rendering/objectRendererTask";
 export * from "./Tasks/Rendering/shadowGeneratorTask";
 export * from "./Tasks/Rendering/utilityLayerRendererTask";
 
 export * from "./frameGraph";
+export * from "./frameGraphBufferManager";
 export * from "./frameGraphContext";
 export * from "./frameGraphObjectList";
+export * from "./frameGraphProfiler";
 export * from "./frameGraphRenderContext";
 export * from "./frameGraphRenderTarget";
 export * from "./frameGraphTask";
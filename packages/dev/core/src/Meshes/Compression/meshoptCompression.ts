@@ -5,11 +5,34 @@ import type { Nullable } from "../../types";
 // eslint-disable-next-line @typescript-eslint/naming-convention
 declare let MeshoptDecoder: any;
 
+// eslint-disable-next-line @typescript-eslint/naming-convention
+declare let MeshoptEncoder: IMeshoptEncoder;
+
 // eslint-disable-next-line @typescript-eslint/naming-convention
 let NumberOfWorkers = 0;
 // eslint-disable-next-line @typescript-eslint/naming-convention
 let WorkerTimeout: Nullable<ReturnType<typeof setTimeout>> = null;
 
+/**
+ * The part of the meshopt encoder library (https://github.com/zeux/meshoptimizer/tree/master/js#encoder) used by Babylon.js.
+ */
+export interface IMeshoptEncoder {
+    /**
+     * A promise resolved when the WebAssembly module of the encoder is compiled.
+     */
+    ready: Promise<void>;
+
+    /**
+     * Encodes the data of a glTF buffer view.
+     * @param source The input data.
+     * @param count The number of elements.
+     * @param stride The stride in bytes.
+     * @param mode The compression mode.
+     * @returns the encoded data
+     */
+    encodeGltfBuffer(source: Uint8Array, count: number, stride: number, mode: "ATTRIBUTES" | "TRIANGLES" | "INDICES"): Uint8Array;
+}
+
 /**
  * Configuration for meshoptimizer compression
  */
@@ -23,6 +46,21 @@ export interface IMeshoptCompressionConfiguration {
          */
         url: string;
     };
+
+    /**
+     * Configuration for the encoder. One of the url or the module is required.
+     */
+    encoder?: {
+        /**
+         * The url to a script of the meshopt encoder library defining the global `MeshoptEncoder`.
+         */
+        url?: string;
+
+        /**
+         * The meshopt encoder module, e.g. the `MeshoptEncoder` export of the meshoptimizer package.
+         */
+        jsModule?: IMeshoptEncoder;
+    };
 }
 
 /**
@@ -32,7 +70,13 @@ export interface IMeshoptCompressionConfiguration {
  *
  * **Encoder**
  *
- * The encoder is not currently implemented.
+ * The encoder is not published on the Babylon.js CDN, so it must be configured before use (by the glTF serializer for eg.),
+ * either with the meshopt encoder module or with the url of a script defining the global `MeshoptEncoder`:
+ * ```javascript
+ *     import { MeshoptEncoder } from "meshoptimizer";
+ *     MeshoptCompression.Configuration.encoder = { jsModule: MeshoptEncoder };
+ * ```
+ * Use `MeshoptCompression.EncoderAvailable` to determine if the encoder is configured.
  *
  * **Decoder**
  *
@@ -43,15 +87,19 @@ export interface IMeshoptCompressionConfiguration {
  *     MeshoptCompression.Configuration = {
  *         decoder: {
  *             url: "<url to the meshopt decoder library>"
+ *         },
+ *         encoder: {
+ *             url: "<url to the meshopt encoder library>"
  *         }
  *     };
  * ```
  */
 export class MeshoptCompression implements IDisposable {
     private _decoderModulePromise?: Promise<any>;
+    private _encoderModulePromise?: Promise<IMeshoptEncoder>;
 
     /**
-     * The configuration. Defaults to the following:
+     * The configuration. Defaults to the following, without encoder:
      * ```javascript
      * decoder: {
      *   url: "https://cdn.babylonjs.com/meshopt_decoder.js"
@@ -64,6 +112,14 @@ export class MeshoptCompression implements IDisposable {
         },
     };
 
+    /**
+     * Returns true if the encoder of the `Configuration` is available.
+     */
+    public static get EncoderAvailable(): boolean {
+        const encoder = MeshoptCompression.Configuration.encoder;
+        return !!(encoder?.jsModule || encoder?.url);
+    }
+
     private static _Default: Nullable<MeshoptCompression> = null;
 
     /**
@@ -95,6 +151,7 @@ export class MeshoptCompression implements IDisposable {
      */
     public dispose(): void {
         delete this._decoderModulePromise;
+        delete this._encoderModulePromise;
     }
 
     /**
@@ -125,4 +182,36 @@ export class MeshoptCompression implements IDisposable {
         }, 1000);
         return result;
     }
+
+    /**
+     * Encode data with meshopt, for the EXT_meshopt_compression glTF extension.
+     * @see https://github.com/zeux/meshoptimizer/tree/master/js#encoder
+     * @param source The input data.
+     * @param count The number of elements.
+     * @param stride The stride in bytes.
+     * @param mode The compression mode.
+     * @returns a Promise<Uint8Array> that resolves to the encoded data
+     */
+    public async encodeGltfBufferAsync(source: Uint8Array, count: number, stride: number, mode: "ATTRIBUTES" | "TRIANGLES" | "INDICES"): Promise<Uint8Array> {
+        if (!this._encoderModulePromise) {
+            const encoder = MeshoptCompression.Configuration.encoder;
+            const jsModule = encoder?.jsModule;
+            if (jsModule) {
+                // eslint-disable-next-line github/no-then
+                this._encoderModulePromise = jsModule.ready.then(() => jsModule);
+            } else if (encoder?.url) {
+                // eslint-disable-next-line github/no-then
+                this._encoderModulePromise = Tools.LoadBabylonScriptAsync(encoder.url).then(async () => {
+                    // Wait for WebAssembly compilation before resolving promise
+                    await MeshoptEncoder.ready;
+                    return MeshoptEncoder;
+                });
+            } else {
+                throw new Error("The meshopt encoder is not configured, set the url or the module of MeshoptCompression.Configuration.encoder");
+            }
+        }
+
+        const encoder = await this._encoderModulePromise;
+        return encoder.encodeGltfBuffer(source, count, stride, mode);
+    }
 }
@@ -0,0 +1,644 @@
+import type { Nullable } from "core/types";
+import type { Scene } from "core/scene";
+import type { Camera } from "core/Cameras/camera";
+import type { Vector2 } from "core/Maths/math.vector";
+import { Matrix, Quaternion, TmpVectors, Vector3 } from "core/Maths/math.vector";
+import { Color4 } from "core/Maths/math.color";
+import type { Color3 } from "core/Maths/math.color";
+import { Observable } from "core/Misc/observable";
+import { GaussianSplattingMesh } from "./gaussianSplattingMesh";
+
+/**
+ * Defines how a selection query is combined with the current selection of a GaussianSplattingEditor
+ */
+export const enum GaussianSplattingSelectionMode {
+    /** The splats matching the query replace the current selection */
+    Replace = 0,
+    /** The splats matching the query are added to the current selection */
+    Add = 1,
+    /** The splats matching the query are removed from the current selection */
+    Subtract = 2,
+    /** Only the selected splats matching the query stay selected */
+    Intersect = 3,
+}
+
+/**
+ * Size in bytes of a splat in the splats data: position (3 floats), scale (3 floats), color (4 bytes), orientation quaternion (4 bytes)
+ */
+const ROW_LENGTH = 32;
+
+/**
+ * Number of bytes used by a splat in each SH array
+ */
+const SH_ROW_LENGTH = 16;
+
+/**
+ * Byte value of a SH coefficient equal to 0
+ */
+const SH_ZERO = 128;
+
+/**
+ * SH vectors (of the degrees 1 to 3) which are odd functions of the x, y and z axes
+ */
+const SH_ODD_VECTORS = [
+    [2, 3, 6, 9, 12, 14],
+    [0, 3, 4, 8, 9, 10],
+    [1, 4, 6, 9, 11, 13],
+];
+
+interface ISplatBuffers {
+    data: ArrayBuffer;
+    sh?: Uint8Array[];
+}
+
+/**
+ * Gets the data of a mesh, throwing if it is not kept in RAM
+ * @param mesh defines the mesh
+ * @returns the splats data and the SH arrays of the mesh
+ */
+function GetBuffers(mesh: GaussianSplattingMesh): ISplatBuffers {
+    const data = mesh.splatsData;
+    if (!data) {
+        throw new Error(`The splats data of the mesh ${mesh.name} is not available: the mesh must be created with keepInRam set to true to be edited.`);
+    }
+    const sh = mesh.shDegree ? mesh.shData : null;
+    return { data, sh: sh ?? undefined };
+}
+
+/**
+ * Creates the buffers for a number of splats
+ * @param splatCount defines the number of splats
+ * @param shArrayCount defines the number of SH arrays (the SH degree)
+ * @param scene defines the scene used to get the size of the SH textures
+ * @returns the new buffers, the SH coefficients being set to 0
+ */
+function CreateBuffers(splatCount: number, shArrayCount: number, scene: Scene): ISplatBuffers {
+    const buffers: ISplatBuffers = { data: new ArrayBuffer(splatCount * ROW_LENGTH) };
+    if (shArrayCount) {
+        // The SH arrays are used as is to create the SH textures
+        const width = scene.getEngine().getCaps().maxTextureSize;
+        const height = Math.max(1, Math.ceil(splatCount / width));
+        buffers.sh = [];
+        for (let i = 0; i < shArrayCount; i++) {
+            buffers.sh.push(new Uint8Array(width * height * SH_ROW_LENGTH).fill(SH_ZERO));
+        }
+    }
+    return buffers;
+}
+
+/**
+ * Copies a splat, and its SH coefficients when both buffers have some
+ * @param source defines the source buffers
+ * @param sourceIndex defines the index of the splat in the source buffers
+ * @param target defines the target buffers
+ * @param targetIndex defines the index of the splat in the target buffers
+ */
+function CopySplat(source: ISplatBuffers, sourceIndex: number, target: ISplatBuffers, targetIndex: number): void {
+    new Uint8Array(target.data, targetIndex * ROW_LENGTH, ROW_LENGTH).set(new Uint8Array(source.data, sourceIndex * ROW_LENGTH, ROW_LENGTH));
+    if (source.sh && target.sh) {
+        const count = Math.min(source.sh.length, target.sh.length);
+        for (let i = 0; i < count; i++) {
+            target.sh[i].set(source.sh[i].subarray(sourceIndex * SH_ROW_LENGTH, (sourceIndex + 1) * SH_ROW_LENGTH), targetIndex * SH_ROW_LENGTH);
+        }
+    }
+}
+
+/**
+ * Computes the eigen decomposition of a symmetric 3x3 matrix with the Jacobi eigenvalue algorithm
+ * @param matrix defines the row-major symmetric matrix, which is diagonalized in place
+ * @param eigenVectors receives the row-major matrix whose columns are the eigen vectors
+ */
+function JacobiEigenDecomposition(matrix: number[], eigenVectors: number[]): void {
+    eigenVectors.length = 0;
+    eigenVectors.push(1, 0, 0, 0, 1, 0, 0, 0, 1);
+
+    for (let sweep = 0; sweep < 16; sweep++) {
+        const offDiagonal = Math.abs(matrix[1]) + Math.abs(matrix[2]) + Math.abs(matrix[5]);
+        if (offDiagonal < 1e-20) {
+            return;
+        }
+
+        for (let p = 0; p < 2; p++) {
+            for (let q = p + 1; q < 3; q++) {
+                const apq = matrix[p * 3 + q];
+                if (Math.abs(apq) < 1e-30) {
+                    continue;
+                }
+
+                // Rotation zeroing the (p, q) element
+                const theta = (matrix[q * 3 + q] - matrix[p * 3 + p]) / (2 * apq);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+
+                for (let k = 0; k < 3; k++) {
+                    const akp = matrix[k * 3 + p];
+                    const akq = matrix[k * 3 + q];
+                    matrix[k * 3 + p] = c * akp - s * akq;
+                    matrix[k * 3 + q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < 3; k++) {
+                    const apk = matrix[p * 3 + k];
+                    const aqk = matrix[q * 3 + k];
+                    matrix[p * 3 + k] = c * apk - s * aqk;
+                    matrix[q * 3 + k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < 3; k++) {
+                    const vkp = eigenVectors[k * 3 + p];
+                    const vkq = eigenVectors[k * 3 + q];
+                    eigenVectors[k * 3 + p] = c * vkp - s * vkq;
+                    eigenVectors[k * 3 + q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Applies a transformation to splats in place
+ * @param data defines the splats data
+ * @param indices defines the indices of the splats to transform
+ * @param matrix defines the transformation, in the rendering space of the splats (the local space of the mesh)
+ */
+function TransformSplats(data: ArrayBuffer, indices: Iterable<number>, matrix: Matrix): void {
+    const floats = new Float32Array(data);
+    const bytes = new Uint8Array(data);
+    const m = matrix.m;
+
+    const position = TmpVectors.Vector3[0];
+    const quaternion = TmpVectors.Quaternion[0];
+    const rotation = TmpVectors.Matrix[0];
+    const covariance: number[] = [];
+    const transformed: number[] = [];
+    const eigenVectors: number[] = [];
+
+    for (const index of indices) {
+        const floatOffset = index * 8;
+        const byteOffset = index * ROW_LENGTH + 28;
+
+        // The splats are rendered with the y axis flipped
+        Vector3.TransformCoordinatesFromFloatsToRef(floats[floatOffset], -floats[floatOffset + 1], floats[floatOffset + 2], matrix, position);
+        floats[floatOffset] = position.x;
+        floats[floatOffset + 1] = -position.y;
+        floats[floatOffset + 2] = position.z;
+
+        // Covariance of the splat in the rendering space, as computed by the mesh to render it: R.S.S.Rt
+        quaternion
+            .set((bytes[byteOffset + 1] - 127.5) / 127.5, (bytes[byteOffset + 2] - 127.5) / 127.5, (bytes[byteOffset + 3] - 127.5) / 127.5, -(bytes[byteOffset] - 127.5) / 127.5)
+            .normalize()
+            .toRotationMatrix(rotation);
+        const r = rotation.m;
+        const scale = [floats[floatOffset + 3], floats[floatOffset + 4], floats[floatOffset + 5]];
+        covariance.length = 0;
+        for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 3; j++) {
+                // The y axis is flipped when rendering the covariance
+                const flip = (i === 1 ? -1 : 1) * (j === 1 ? -1 : 1);
+                covariance.push(flip * (r[i * 4] * r[j * 4] * scale[0] ** 2 + r[i * 4 + 1] * r[j * 4 + 1] * scale[1] ** 2 + r[i * 4 + 2] * r[j * 4 + 2] * scale[2] ** 2));
+            }
+        }
+
+        // Transformed covariance: Mt.C.M (the matrices of Babylon.js transforming row vectors)
+        transformed.length = 0;
+        for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 3; j++) {
+                let value = 0;
+                for (let k = 0; k < 3; k++) {
+                    for (let l = 0; l < 3; l++) {
+                        value += m[k * 4 + i] * covariance[k * 3 + l] * m[l * 4 + j];
+                    }
+                }
+                const flip = (i === 1 ? -1 : 1) * (j === 1 ? -1 : 1);
+                transformed.push(flip * value);
+            }
+        }
+
+        // Back to a rotation and scales
+        JacobiEigenDecomposition(transformed, eigenVectors);
+        const determinant =
+            eigenVectors[0] * (eigenVectors[4] * eigenVectors[8] - eigenVectors[5] * eigenVectors[7]) -
+            eigenVectors[1] * (eigenVectors[3] * eigenVectors[8] - eigenVectors[5] * eigenVectors[6]) +
+            eigenVectors[2] * (eigenVectors[3] * eigenVectors[7] - eigenVectors[4] * eigenVectors[6]);
+        const sign = determinant < 0 ? -1 : 1;
+        Matrix.FromValuesToRef(
+            eigenVectors[0],
+            eigenVectors[1],
+            sign * eigenVectors[2],
+            0,
+            eigenVectors[3],
+            eigenVectors[4],
+            sign * eigenVectors[5],
+            0,
+            eigenVectors[6],
+            eigenVectors[7],
+            sign * eigenVectors[8],
+            0,
+            0,
+            0,
+            0,
+            1,
+            rotation
+        );
+        Quaternion.FromRotationMatrixToRef(rotation, quaternion);
+        quaternion.normalize();
+
+        for (let i = 0; i < 3; i++) {
+            floats[floatOffset + 3 + i] = Math.sqrt(Math.max(transformed[i * 4], 0));
+        }
+        bytes[byteOffset] = Math.round(-quaternion.w * 127.5 + 127.5);
+        bytes[byteOffset + 1] = Math.round(quaternion.x * 127.5 + 127.5);
+        bytes[byteOffset + 2] = Math.round(quaternion.y * 127.5 + 127.5);
+        bytes[byteOffset + 3] = Math.round(quaternion.z * 127.5 + 127.5);
+    }
+}
+
+/**
+ * Class used to select and edit the splats of a GaussianSplattingMesh.
+ * The mesh must keep its data in RAM (see the keepInRam parameter of GaussianSplattingMesh and the keepInRam option of the SPLAT loader).
+ * The selection queries use the world space positions of the centers of the splats.
+ */
+export class GaussianSplattingEditor {
+    private _selection = new Uint8Array(0);
+    private _selectedCount = 0;
+
+    /**
+     * Observable raised when the selection changes
+     */
+    public readonly onSelectionChangedObservable = new Observable<GaussianSplattingEditor>();
+
+    /**
+     * Creates a new editor
+     * @param mesh defines the mesh to edit
+     */
+    constructor(
+        /** The mesh edited */
+        public readonly mesh: GaussianSplattingMesh
+    ) {}
+
+    /**
+     * Gets the number of splats of the mesh
+     */
+    public get splatCount(): number {
+        return GetBuffers(this.mesh).data.byteLength / ROW_LENGTH;
+    }
+
+    /**
+     * Gets the selection, as one value per splat (1 if selected, 0 otherwise)
+     */
+    public get selection(): Uint8Array {
+        const splatCount = this.splatCount;
+        if (this._selection.length !== splatCount) {
+            // The data of the mesh changed
+            this._selection = new Uint8Array(splatCount);
+            this._selectedCount = 0;
+        }
+        return this._selection;
+    }
+
+    /**
+     * Gets the number of selected splats
+     */
+    public get selectedCount(): number {
+        return this.selection.length ? this._selectedCount : 0;
+    }
+
+    /**
+     * Gets the indices of the selected splats
+     * @returns the list of indices
+     */
+    public getSelectedIndices(): number[] {
+        const indices: number[] = [];
+        const selection = this.selection;
+        for (let i = 0; i < selection.length; i++) {
+            if (selection[i]) {
+                indices.push(i);
+            }
+        }
+        return indices;
+    }
+
+    /**
+     * Selects splats from a predicate
+     * @param predicate defines the function returning true for the splats matching the query
+     * @param mode defines how the splats matching the query are combined with the current selection
+     */
+    public select(predicate: (index: number) => boolean, mode = GaussianSplattingSelectionMode.Replace): void {
+        const selection = this.selection;
+        let selectedCount = 0;
+        for (let i = 0; i < selection.length; i++) {
+            let selected = selection[i] === 1;
+            switch (mode) {
+                case GaussianSplattingSelectionMode.Replace:
+                    selected = predicate(i);
+                    break;
+                case GaussianSplattingSelectionMode.Add:
+                    selected = selected || predicate(i);
+                    break;
+                case GaussianSplattingSelectionMode.Subtract:
+                    selected = selected && !predicate(i);
+                    break;
+                case GaussianSplattingSelectionMode.Intersect:
+                    selected = selected && predicate(i);
+                    break;
+            }
+            selection[i] = selected ? 1 : 0;
+            selectedCount += selection[i];
+        }
+        this._selectedCount = selectedCount;
+        this.onSelectionChangedObservable.notifyObservers(this);
+    }
+
+    /**
+     * Selects all the splats
+     */
+    public selectAll(): void {
+        this.select(() => true);
+    }
+
+    /**
+     * Deselects all the splats
+     */
+    public clearSelection(): void {
+        this.select(() => false);
+    }
+
+    /**
+     * Inverts the selection
+     */
+    public invertSelection(): void {
+        const selection = this.selection;
+        this.select((index) => !selection[index]);
+    }
+
+    /**
+     * Selects the splats whose center is inside an axis aligned box
+     * @param min defines the minimum corner of the box, in world space
+     * @param max defines the maximum corner of the box, in world space
+     * @param mode defines how the splats matching the query are combined with the current selection
+     */
+    public selectInBox(min: Vector3, max: Vector3, mode = GaussianSplattingSelectionMode.Replace): void {
+        const positions = this._getWorldPositions();
+        this.select((index) => {
+            const x = positions[index * 3];
+            const y = positions[index * 3 + 1];
+            const z = positions[index * 3 + 2];
+            return x >= min.x && x <= max.x && y >= min.y && y <= max.y && z >= min.z && z <= max.z;
+        }, mode);
+    }
+
+    /**
+     * Selects the splats whose center is inside a sphere
+     * @param center defines the center of the sphere, in world space
+     * @param radius defines the radius of the sphere
+     * @param mode defines how the splats matching the query are combined with the current selection
+     */
+    public selectInSphere(center: Vector3, radius: number, mode = GaussianSplattingSelectionMode.Replace): void {
+        const positions = this._getWorldPositions();
+        const radiusSquared = radius * radius;
+        this.select((index) => {
+            const x = positions[index * 3] - center.x;
+            const y = positions[index * 3 + 1] - center.y;
+            const z = positions[index * 3 + 2] - center.z;
+            return x * x + y * y + z * z <= radiusSquared;
+        }, mode);
+    }
+
+    /**
+     * Selects the splats whose center is inside a screen space polygon, as drawn with the pointer
+     * @param points defines the points of the polygon, in pixels (as scene.pointerX and scene.pointerY)
+     * @param camera defines the camera used to project the splats
+     * @param mode defines how the splats matching the query are combined with the current selection
+     */
+    public selectInLasso(points: Vector2[], camera: Camera, mode = GaussianSplattingSelectionMode.Replace): void {
+        const engine = camera.getEngine();
+        const viewport = camera.viewport.toGlobal(engine.getRenderWidth(), engine.getRenderHeight());
+        const transform = camera.getTransformationMatrix();
+        const positions = this._getWorldPositions();
+        const position = new Vector3();
+        const projected = new Vector3();
+
+        this.select((index) => {
+            position.set(positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]);
+            Vector3.ProjectToRef(position, Matrix.IdentityReadOnly, transform, viewport, projected);
+            if (projected.z < 0 || projected.z > 1) {
+                // Behind the camera
+                return false;
+            }
+
+            // Even-odd rule
+            let inside = false;
+            for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+                const pi = points[i];
+                const pj = points[j];
+                if (pi.y > projected.y !== pj.y > projected.y && projected.x < ((pj.x - pi.x) * (projected.y - pi.y)) / (pj.y - pi.y) + pi.x) {
+                    inside = !inside;
+                }
+            }
+            return inside;
+        }, mode);
+    }
+
+    /**
+     * Selects the splats whose opacity is lower than a threshold, which are often floaters in captured scans
+     * @param threshold defines the opacity (between 0 and 1) under which the splats are selected
+     * @param mode defines how the splats matching the query are combined with the current selection
+     */
+    public selectByOpacity(threshold: number, mode = GaussianSplattingSelectionMode.Replace): void {
+        const bytes = new Uint8Array(GetBuffers(this.mesh).data);
+        this.select((index) => bytes[index * ROW_LENGTH + 27] / 255 < threshold, mode);
+    }
+
+    /**
+     * Deletes the selected splats from the mesh
+     */
+    public deleteSelected(): void {
+        const selection = this.selection;
+        const kept = [];
+        for (let i = 0; i < selection.length; i++) {
+            if (!selection[i]) {
+                kept.push(i);
+            }
+        }
+        this._updateMesh(this._copySplats(kept));
+    }
+
+    /**
+     * Sets the color of the selected splats. The SH coefficients of the selected splats are cleared, so that their color doesn't depend on the view direction.
+     * @param color defines the new color of the splats. The opacity of the splats is also set if this is a Color4
+     */
+    public recolorSelected(color: Color3 | Color4): void {
+        const buffers = GetBuffers(this.mesh);
+        const bytes = new Uint8Array(buffers.data);
+        const colorBytes = [color.r, color.g, color.b, color instanceof Color4 ? color.a : -1].map((value) => Math.round(Math.min(Math.max(value, 0), 1) * 255));
+
+        for (const index of this.getSelectedIndices()) {
+            for (let channel = 0; channel < 4; channel++) {
+                if (channel < 3 || color instanceof Color4) {
+                    bytes[index * ROW_LENGTH + 24 + channel] = colorBytes[channel];
+                }
+            }
+            for (const sh of buffers.sh ?? []) {
+                sh.fill(SH_ZERO, index * SH_ROW_LENGTH, (index + 1) * SH_ROW_LENGTH);
+            }
+        }
+
+        this._updateMesh(buffers);
+    }
+
+    /**
+     * Transforms the selected splats. The SH coefficients of the splats are not rotated.
+     * @param matrix defines the transformation to apply to the selected splats, in world space
+     */
+    public transformSelected(matrix: Matrix): void {
+        const buffers = GetBuffers(this.mesh);
+        const worldMatrix = this.mesh.computeWorldMatrix(true);
+
+        // Transformation in the local space of the mesh: to world space, transformation, back to local space
+        const localMatrix = worldMatrix.multiply(matrix).multiply(Matrix.Invert(worldMatrix));
+        TransformSplats(buffers.data, this.getSelectedIndices(), localMatrix);
+
+        this._updateMesh(buffers);
+    }
+
+    /**
+     * Creates a new mesh from the selected splats. The new mesh has the same transformation than the edited mesh.
+     * @param name defines the name of the new mesh
+     * @param removeFromSource defines if the selected splats are removed from the edited mesh (default: false)
+     * @returns the new mesh
+     */
+    public extractSelected(name: string, removeFromSource = false): GaussianSplattingMesh {
+        const mesh = this.mesh;
+        const extracted = new GaussianSplattingMesh(name, null, mesh.getScene(), true);
+        extracted.parent = mesh.parent;
+        extracted.position.copyFrom(mesh.position);
+        extracted.rotation.copyFrom(mesh.rotation);
+        if (mesh.rotationQuaternion) {
+            extracted.rotationQuaternion = mesh.rotationQuaternion.clone();
+        }
+        extracted.scaling.copyFrom(mesh.scaling);
+        extracted.viewDirectionFactor.copyFrom(mesh.viewDirectionFactor);
+
+        const buffers = this._copySplats(this.getSelectedIndices());
+        extracted.updateData(buffers.data, buffers.sh);
+
+        if (removeFromSource) {
+            this.deleteSelected();
+        }
+
+        return extracted;
+    }
+
+    /**
+     * Merges several meshes into a new mesh, the transformations of the meshes being applied to their splats. The SH coefficients of the splats are not rotated.
+     * @param meshes defines the meshes to merge
+     * @param name defines the name of the new mesh
+     * @param scene defines the scene of the new mesh (the scene of the first mesh by default)
+     * @returns the new mesh
+     */
+    public static Merge(meshes: GaussianSplattingMesh[], name: string, scene: Nullable<Scene> = null): GaussianSplattingMesh {
+        if (!meshes.length) {
+            throw new Error("No mesh to merge");
+        }
+
+        scene = scene ?? meshes[0].getScene();
+        const viewDirectionFactor = meshes[0].viewDirectionFactor;
+
+        let splatCount = 0;
+        let shArrayCount = 0;
+        for (const mesh of meshes) {
+            const buffers = GetBuffers(mesh);
+            splatCount += buffers.data.byteLength / ROW_LENGTH;
+            shArrayCount = Math.max(shArrayCount, buffers.sh?.length ?? 0);
+        }
+
+        const merged = CreateBuffers(splatCount, shArrayCount, scene);
+        let offset = 0;
+        for (const mesh of meshes) {
+            const buffers = GetBuffers(mesh);
+            const count = buffers.data.byteLength / ROW_LENGTH;
+            for (let i = 0; i < count; i++) {
+                CopySplat(buffers, i, merged, offset + i);
+            }
+
+            const indices = Array.from({ length: count }, (_, i) => offset + i);
+            TransformSplats(merged.data, indices, mesh.computeWorldMatrix(true));
+            if (merged.sh && buffers.sh) {
+                GaussianSplattingEditor._ConvertSh(merged.sh, indices, mesh.viewDirectionFactor, viewDirectionFactor);
+            }
+
+            offset += count;
+        }
+
+        const mergedMesh = new GaussianSplattingMesh(name, null, scene, true);
+        mergedMesh.viewDirectionFactor.copyFrom(viewDirectionFactor);
+        mergedMesh.updateData(merged.data, merged.sh);
+        return mergedMesh;
+    }
+
+    /**
+     * Converts SH coefficients from a view direction factor to another one, negating the coefficients which are odd functions of the flipped axes
+     * @param sh defines the SH arrays
+     * @param indices defines the splats to convert
+     * @param from defines the view direction factor of the coefficients
+     * @param to defines the new view direction factor
+     */
+    private static _ConvertSh(sh: Uint8Array[], indices: number[], from: Vector3, to: Vector3): void {
+        const negated = new Array<boolean>(15).fill(false);
+        const fromArray = from.asArray();
+        const toArray = to.asArray();
+        for (let axis = 0; axis < 3; axis++) {
+            if (Math.sign(fromArray[axis]) !== Math.sign(toArray[axis])) {
+                for (const vectorIndex of SH_ODD_VECTORS[axis]) {
+                    negated[vectorIndex] = !negated[vectorIndex];
+                }
+            }
+        }
+        if (!negated.some((value) => value)) {
+            return;
+        }
+
+        for (const index of indices) {
+            for (let coefficientIndex = 0; coefficientIndex < sh.length * SH_ROW_LENGTH; coefficientIndex++) {
+                if (negated[Math.floor(coefficientIndex / 3)]) {
+                    const offset = index * SH_ROW_LENGTH + (coefficientIndex & 15);
+                    const array = sh[coefficientIndex >> 4];
+                    array[offset] = 255 - array[offset];
+                }
+            }
+        }
+    }
+
+    private _getWorldPositions(): Float32Array {
+        const floats = new Float32Array(GetBuffers(this.mesh).data);
+        const splatCount = floats.length / 8;
+        const worldMatrix = this.mesh.computeWorldMatrix(true);
+        const positions = new Float32Array(splatCount * 3);
+        const position = TmpVectors.Vector3[0];
+        for (let i = 0; i < splatCount; i++) {
+            // The splats are rendered with the y axis flipped
+            Vector3.TransformCoordinatesFromFloatsToRef(floats[i * 8], -floats[i * 8 + 1], floats[i * 8 + 2], worldMatrix, position);
+            positions[i * 3] = position.x;
+            positions[i * 3 + 1] = position.y;
+            positions[i * 3 + 2] = position.z;
+        }
+        return positions;
+    }
+
+    private _copySplats(indices: number[]): ISplatBuffers {
+        const source = GetBuffers(this.mesh);
+        const target = CreateBuffers(indices.length, source.sh?.length ?? 0, this.mesh.getScene());
+        for (let i = 0; i < indices.length; i++) {
+            CopySplat(source, indices[i], target, i);
+        }
+        return target;
+    }
+
+    private _updateMesh(buffers: ISplatBuffers): void {
+        this.mesh.updateData(buffers.data, buffers.sh);
+        if (this._selection.length !== this.splatCount) {
+            this._selection = new Uint8Array(this.splatCount);
+            this._selectedCount = 0;
+            this.onSelectionChangedObservable.notifyObservers(this);
+        }
+    }
+}
@@ -27,6 +27,8 @@ interface IDelayedTextureUpdate {
     colors: Uint8Array;
     centers: Float32Array;
     sh?: Uint8Array[];
+    // sorted indices of the texture lines to update, all the lines being updated when undefined
+    lines?: number[];
 }
 
 // @internal
@@ -357,6 +359,13 @@ export class GaussianSplattingMesh extends Mesh {
         return this._splatsData;
     }
 
+    /**
+     * returns the SH data arrays, as used to create the SH textures (16 bytes per splat and per array). Only available when the mesh keeps its data in RAM
+     */
+    public get shData() {
+        return this._sh;
+    }
+
     /**
      * Set the number of batch (a batch is 16384 splats) after which a display update is performed
      * A value of 0 (default) means display update will not happens before splat is ready.
@@ -1336,6 +1345,20 @@ export class GaussianSplattingMesh extends Mesh {
      * @param doNotRecurse Set to true to not recurse into each children (recurse into each children by default)
      */
     public override dispose(doNotRecurse?: boolean): void {
+        this._disposeTextures();
+
+        this._worker?.terminate();
+        this._worker = null;
+
+        // delete meshes created for each camera
+        this._cameraViewInfos.forEach((cameraViewInfo) => {
+            cameraViewInfo.mesh.dispose();
+        });
+
+        super.dispose(doNotRecurse, true);
+    }
+
+    private _disposeTextures(): void {
         this._covariancesATexture?.dispose();
         this._covariancesBTexture?.dispose();
         this._centersTexture?.dispose();
@@ -1351,16 +1374,7 @@ export class GaussianSplattingMesh extends Mesh {
         this._centersTexture = null;
         this._colorsTexture = null;
         this._shTextures = null;
-
-        this._worker?.terminate();
-        this._worker = null;
-
-        // delete meshes created for each camera
-        this._cameraViewInfos.forEach((cameraViewInfo) => {
-            cameraViewInfo.mesh.dispose();
-        });
-
-        super.dispose(doNotRecurse, true);
+        this._delayedTextureUpdate = null;
     }
 
     private _copyTextures(source: GaussianSplattingMesh): void {
@@ -1555,7 +1569,7 @@ export class GaussianSplattingMesh extends Mesh {
             this._delayedTextureUpdate = { covA: covA, covB: covB, colors: colorArray, centers: this._splatPositions!, sh: sh };
             const positions = Float32Array.from(this._splatPositions!);
             const vertexCount = this._vertexCount;
-            this._worker!.postMessage({ positions, vertexCount }, [positions.buffer]);
+            this._worker!.postMessage({ positions, vertexCountPadded: (vertexCount + 15) & ~0xf }, [positions.buffer]);
 
             this._postToWorker(true);
         } else {
@@ -1594,13 +1608,13 @@ export class GaussianSplattingMesh extends Mesh {
 
         if (this._keepInRam) {
             this._splatsData = data;
-            if (sh) {
-                this._sh = sh;
-            }
+            this._sh = sh ?? null;
         }
 
         const vertexCount = uBuffer.length / GaussianSplattingMesh._RowOutputLength;
         if (vertexCount != this._vertexCount) {
+            // the textures and the worker are created again for the new splat count
+            this._disposeTextures();
             this._updateSplatIndexBuffer(vertexCount);
         }
         this._vertexCount = vertexCount;
@@ -1643,7 +1657,7 @@ export class GaussianSplattingMesh extends Mesh {
             // sort will be dirty here as just finished filled positions will not be sorted
             const positions = Float32Array.from(this._splatPositions);
             const vertexCount = this._vertexCount;
-            this._worker!.postMessage({ positions, vertexCount }, [positions.buffer]);
+            this._worker!.postMessage({ positions, vertexCountPadded: (vertexCount + 15) & ~0xf }, [positions.buffer]);
             this._sortIsDirty = true;
         } else {
             const paddedVertexCount = (vertexCount + 15) & ~0xf;
@@ -1686,6 +1700,76 @@ export class GaussianSplattingMesh extends Mesh {
         runCoroutineSync(this._updateData(data, false, sh));
     }
 
+    /**
+     * Updates ranges of splats without changing the splat count, only the texture lines containing these splats being computed and uploaded once the splats are sorted again.
+     * The splats with a null scale are empty. The bounding info is extended to contain the updated splats.
+     * @param data array buffer containing center, color, orientation and scale of all the splats
+     * @param ranges the ranges of the updated splats
+     * @param sh optional array of uint8 array for SH data of all the splats
+     * @internal
+     */
+    public _updateDataRanges(data: ArrayBuffer, ranges: { start: number; count: number }[], sh?: Uint8Array[]): void {
+        if (!this._covariancesATexture || data.byteLength / GaussianSplattingMesh._RowOutputLength !== this._vertexCount) {
+            throw new Error("The splat ranges can only be updated when the splat count doesn't change.");
+        }
+
+        const uBuffer = new Uint8Array(data);
+        const fBuffer = new Float32Array(data);
+
+        if (this._keepInRam) {
+            this._splatsData = data;
+            this._sh = sh ?? null;
+        }
+
+        const textureSize = this._getTextureSize(this._vertexCount);
+        const textureLength = textureSize.x * textureSize.y;
+        const covA = new Uint16Array(textureLength * 4);
+        const covB = new Uint16Array((this._useRGBACovariants ? 4 : 2) * textureLength);
+        const colorArray = new Uint8Array(textureLength * 4);
+
+        // the lines of a pending update are computed again, as its arrays are replaced
+        const lines = new Set<number>();
+        const pendingLines = this._delayedTextureUpdate ? (this._delayedTextureUpdate.lines ?? Array.from({ length: textureSize.y }, (_, line) => line)) : [];
+        for (const line of pendingLines) {
+            lines.add(line);
+        }
+        for (const range of ranges) {
+            if (range.count > 0) {
+                const lastLine = Math.floor((range.start + range.count - 1) / textureSize.x);
+                for (let line = Math.floor(range.start / textureSize.x); line <= lastLine; line++) {
+                    lines.add(line);
+                }
+            }
+        }
+
+        const boundingInfo = this.getBoundingInfo();
+        const minimum = boundingInfo.minimum.clone();
+        const maximum = boundingInfo.maximum.clone();
+        for (const line of lines) {
+            for (let index = line * textureSize.x; index < (line + 1) * textureSize.x; index++) {
+                if (index < this._vertexCount && (fBuffer[8 * index + 3] || fBuffer[8 * index + 4] || fBuffer[8 * index + 5])) {
+                    this._makeSplat(index, fBuffer, uBuffer, covA, covB, colorArray, minimum, maximum);
+                } else {
+                    this._makeEmptySplat(index, covA, covB, colorArray);
+                }
+            }
+        }
+
+        this._delayedTextureUpdate = {
+            covA: covA,
+            covB: covB,
+            colors: colorArray,
+            centers: this._splatPositions!,
+            sh: sh,
+            lines: Array.from(lines).sort((a, b) => a - b),
+        };
+        const positions = Float32Array.from(this._splatPositions!);
+        this._worker!.postMessage({ positions, vertexCountPadded: (this._vertexCount + 15) & ~0xf }, [positions.buffer]);
+        this._postToWorker(true);
+
+        boundingInfo.reConstruct(minimum, maximum, this.getWorldMatrix());
+    }
+
     /**
      * Refreshes the bounding info, taking into account all the thin instances defined
      * @returns the current Gaussian Splatting
@@ -1729,7 +1813,7 @@ export class GaussianSplattingMesh extends Mesh {
         if (sh) {
             for (let i = 0; i < sh.length; i++) {
                 const componentCount = 4;
-                const shView = new Uint8Array(this._sh![i].buffer, texelStart * componentCount, texelCount * componentCount);
+                const shView = new Uint32Array(sh[i].buffer, sh[i].byteOffset + texelStart * componentCount * Uint32Array.BYTES_PER_ELEMENT, texelCount * componentCount);
                 updateTextureFromData(this._shTextures![i], shView, textureSize.x, lineStart, lineCount);
             }
         }
@@ -1742,6 +1826,8 @@ export class GaussianSplattingMesh extends Mesh {
 
         // Start the worker thread
         this._worker?.terminate();
+        // a sort requested to the previous worker will never complete
+        this._canPostToWorker = true;
         this._worker = new Worker(
             URL.createObjectURL(
                 new Blob(["(", GaussianSplattingMesh._CreateWorker.toString(), ")(self)"], {
@@ -1767,16 +1853,19 @@ export class GaussianSplattingMesh extends Mesh {
                 }
             }
             if (this._delayedTextureUpdate) {
-                const textureSize = this._getTextureSize(vertexCountPadded);
-                this._updateSubTextures(
-                    this._delayedTextureUpdate.centers,
-                    this._delayedTextureUpdate.covA,
-                    this._delayedTextureUpdate.covB,
-                    this._delayedTextureUpdate.colors,
-                    0,
-                    textureSize.y,
-                    this._delayedTextureUpdate.sh
-                );
+                const { centers, covA, covB, colors, sh, lines } = this._delayedTextureUpdate;
+                if (lines) {
+                    // update the runs of consecutive lines
+                    for (let start = 0, end = 1; start < lines.length; start = end++) {
+                        while (end < lines.length && lines[end] === lines[end - 1] + 1) {
+                            end++;
+                        }
+                        this._updateSubTextures(centers, covA, covB, colors, lines[start], end - start, sh);
+                    }
+                } else {
+                    const textureSize = this._getTextureSize(vertexCountPadded);
+                    this._updateSubTextures(centers, covA, covB, colors, 0, textureSize.y, sh);
+                }
                 this._delayedTextureUpdate = null;
             }
 
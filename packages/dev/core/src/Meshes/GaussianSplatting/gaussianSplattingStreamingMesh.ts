@@ -0,0 +1,691 @@
+import type { Nullable } from "core/types";
+import type { Scene } from "core/scene";
+import type { Camera } from "core/Cameras/camera";
+import type { Observer } from "core/Misc/observable";
+import { Observable } from "core/Misc/observable";
+import { Logger } from "core/Misc/logger";
+import { TmpVectors, Vector3 } from "core/Maths/math.vector";
+import type { Plane } from "core/Maths/math.plane";
+import { Frustum } from "core/Maths/math.frustum";
+import { BoundingBox } from "core/Culling/boundingBox";
+import { GaussianSplattingMesh } from "./gaussianSplattingMesh";
+
+/**
+ * Data of a level of detail of a chunk of splats
+ */
+export interface IGaussianSplattingChunkData {
+    /**
+     * Splats data, in the format used by GaussianSplattingMesh.updateData (32 bytes per splat)
+     */
+    data: ArrayBuffer;
+    /**
+     * Optional SH arrays (16 bytes per splat in each array)
+     */
+    sh?: Uint8Array[];
+}
+
+/**
+ * Description of a chunk of splats, a spatial partition of the splats of a GaussianSplattingStreamingMesh
+ */
+export interface IGaussianSplattingChunk {
+    /**
+     * Minimum corner of the box containing the splats of the chunk, in the space of the splats data
+     */
+    minimum: Vector3;
+    /**
+     * Maximum corner of the box containing the splats of the chunk, in the space of the splats data
+     */
+    maximum: Vector3;
+    /**
+     * Number of levels of detail of the chunk. The level 0 is the full detail level, each following level having less splats.
+     */
+    lodCount: number;
+}
+
+/**
+ * Chunks of splats built in memory by GaussianSplattingStreamingMesh.BuildChunks
+ */
+export interface IGaussianSplattingChunkSet {
+    /**
+     * The chunks
+     */
+    chunks: IGaussianSplattingChunk[];
+    /**
+     * The data of the levels of detail, indexed by chunk then by level
+     */
+    levels: IGaussianSplattingChunkData[][];
+}
+
+/**
+ * Options used to build the chunks of splats
+ */
+export interface IGaussianSplattingChunkBuildOptions {
+    /**
+     * Maximum number of splats in a chunk (default: 65536)
+     */
+    maxSplatsPerChunk?: number;
+    /**
+     * Number of levels of detail of the chunks, including the full detail level (default: 3)
+     */
+    lodCount?: number;
+    /**
+     * Ratio between the splat counts of two successive levels of detail (default: 4)
+     */
+    lodReductionFactor?: number;
+}
+
+/**
+ * Function loading a level of detail of a chunk
+ */
+export type GaussianSplattingChunkLoader = (chunkIndex: number, lod: number) => Promise<IGaussianSplattingChunkData>;
+
+interface IChunkState {
+    boundingBox: BoundingBox;
+    levels: Array<IGaussianSplattingChunkData | undefined>;
+    loading: Set<number>;
+    failed: Set<number>;
+    lastDisplayedFrame: number;
+    // range of the splats of the chunk in the displayed splats, which can contain a level with less splats
+    range: Nullable<{ start: number; count: number }>;
+}
+
+/**
+ * Size in bytes of a splat in the splats data
+ */
+const ROW_LENGTH = 32;
+
+/**
+ * Number of bytes used by a splat in each SH array
+ */
+const SH_ROW_LENGTH = 16;
+
+/**
+ * Extent of the quad of a splat, relative to its scale
+ */
+const SplatExtent = 4 * Math.SQRT2;
+
+/**
+ * Gets the importance of a splat when reducing the detail of a chunk: the opacity times the area of the splat
+ * @param floats defines the splats data, as floats
+ * @param bytes defines the splats data, as bytes
+ * @param index defines the index of the splat
+ * @returns the importance of the splat
+ */
+function GetImportance(floats: Float32Array, bytes: Uint8Array, index: number): number {
+    const sx = floats[index * 8 + 3];
+    const sy = floats[index * 8 + 4];
+    const sz = floats[index * 8 + 5];
+    return (bytes[index * ROW_LENGTH + 27] / 255) * (sx * sy + sy * sz + sx * sz) + 1e-12;
+}
+
+/**
+ * Groups splats in the cells of a grid
+ * @param floats defines the splats data, as floats
+ * @param indices defines the splats to group
+ * @param minimum defines the minimum corner of the splats
+ * @param cellSize defines the size of the cells
+ * @returns the splats of each cell
+ */
+function GroupInCells(floats: Float32Array, indices: Uint32Array, minimum: Vector3, cellSize: number): Map<number, number[]> {
+    const cells = new Map<number, number[]>();
+    const cellCount = 1 << 17;
+    for (const index of indices) {
+        const x = Math.floor((floats[index * 8] - minimum.x) / cellSize);
+        const y = Math.floor((floats[index * 8 + 1] - minimum.y) / cellSize);
+        const z = Math.floor((floats[index * 8 + 2] - minimum.z) / cellSize);
+        const key = (x * cellCount + y) * cellCount + z;
+        const cell = cells.get(key);
+        if (cell) {
+            cell.push(index);
+        } else {
+            cells.set(key, [index]);
+        }
+    }
+    return cells;
+}
+
+/**
+ * Creates a reduced detail level of a chunk. The splats are grouped in the cells of a grid, each cell being represented by its most important splat.
+ * The representative splat is moved to the center of the cell splats, takes their average color and is enlarged to cover their area.
+ * @param data defines the splats data
+ * @param sh defines the SH arrays of the splats
+ * @param indices defines the splats of the chunk
+ * @param targetCount defines the approximate number of splats of the level
+ * @param minimum defines the minimum corner of the splats of the chunk
+ * @param maximum defines the maximum corner of the splats of the chunk
+ * @returns the data of the level
+ */
+function ReduceDetail(data: ArrayBuffer, sh: Nullable<Uint8Array[]>, indices: Uint32Array, targetCount: number, minimum: Vector3, maximum: Vector3): IGaussianSplattingChunkData {
+    const floats = new Float32Array(data);
+    const bytes = new Uint8Array(data);
+
+    // Search the size of the cells giving about the target splat count, the splats being mostly on surfaces
+    const extent = maximum.subtract(minimum);
+    const maxExtent = Math.max(extent.x, extent.y, extent.z);
+    const maxArea = Math.max(extent.x * extent.y, extent.y * extent.z, extent.x * extent.z);
+    const minCellSize = Math.max(maxExtent / (1 << 16), 1e-6);
+    let cellSize = Math.max(Math.cbrt((extent.x * extent.y * extent.z) / targetCount), Math.sqrt(maxArea / targetCount), maxExtent / targetCount, minCellSize);
+    let cells = GroupInCells(floats, indices, minimum, cellSize);
+    for (let iteration = 0; iteration < 16 && (cells.size > targetCount * 1.25 || cells.size < targetCount * 0.8); iteration++) {
+        cellSize = Math.max(cellSize * Math.sqrt(cells.size / targetCount), minCellSize);
+        cells = GroupInCells(floats, indices, minimum, cellSize);
+    }
+
+    const level: IGaussianSplattingChunkData = { data: new ArrayBuffer(cells.size * ROW_LENGTH) };
+    const levelFloats = new Float32Array(level.data);
+    const levelBytes = new Uint8Array(level.data);
+    if (sh) {
+        level.sh = sh.map(() => new Uint8Array(cells.size * SH_ROW_LENGTH));
+    }
+
+    let levelIndex = 0;
+    cells.forEach((cell) => {
+        let representative = cell[0];
+        let maxImportance = 0;
+        let totalImportance = 0;
+        const center = [0, 0, 0];
+        const color = [0, 0, 0];
+        for (const index of cell) {
+            const importance = GetImportance(floats, bytes, index);
+            if (importance > maxImportance) {
+                maxImportance = importance;
+                representative = index;
+            }
+            totalImportance += importance;
+            for (let i = 0; i < 3; i++) {
+                center[i] += floats[index * 8 + i] * importance;
+                color[i] += bytes[index * ROW_LENGTH + 24 + i] * importance;
+            }
+        }
+
+        levelBytes.set(bytes.subarray(representative * ROW_LENGTH, (representative + 1) * ROW_LENGTH), levelIndex * ROW_LENGTH);
+        const maxScale = Math.max(floats[representative * 8 + 3], floats[representative * 8 + 4], floats[representative * 8 + 5]);
+        const scaleFactor = Math.max(1, Math.min(Math.sqrt(cell.length), cellSize / maxScale));
+        for (let i = 0; i < 3; i++) {
+            levelFloats[levelIndex * 8 + i] = center[i] / totalImportance;
+            levelFloats[levelIndex * 8 + 3 + i] *= scaleFactor;
+            levelBytes[levelIndex * ROW_LENGTH + 24 + i] = Math.round(color[i] / totalImportance);
+        }
+        if (sh && level.sh) {
+            for (let i = 0; i < sh.length; i++) {
+                level.sh[i].set(sh[i].subarray(representative * SH_ROW_LENGTH, (representative + 1) * SH_ROW_LENGTH), levelIndex * SH_ROW_LENGTH);
+            }
+        }
+        levelIndex++;
+    });
+
+    return level;
+}
+
+/**
+ * Class used to render large Gaussian splatting scenes, split in chunks which are streamed in progressively.
+ * Only the chunks in the frustum of the active camera are displayed (and sorted), the distant chunks using reduced detail levels.
+ * The coarsest level of the visible chunks is loaded first so that the whole scene appears quickly, then the levels matching the distance to the camera are loaded, the closest chunks first.
+ * The chunks can be built in memory with BuildChunks, or loaded from the files listed in a chunk manifest by the SPLAT loader.
+ */
+export class GaussianSplattingStreamingMesh extends GaussianSplattingMesh {
+    private readonly _chunks: IGaussianSplattingChunk[];
+    private readonly _loader: GaussianSplattingChunkLoader;
+    private readonly _chunkStates: IChunkState[];
+    private _displayedLevels: number[];
+    private _displayedKey = "";
+    private _displayedData: Nullable<Uint8Array> = null;
+    private _displayedSh: Uint8Array[] | undefined = undefined;
+    private _isUpdating = false;
+    private _loadingCount = 0;
+    private _loadedSplatCount = 0;
+    private _beforeRenderObserver: Nullable<Observer<Scene>> = null;
+
+    /**
+     * Ratio between the distance to the camera and the size of a chunk at which the next level of detail is used.
+     * A chunk uses its full detail level when closer than lodDistanceRatio times its size, the level 1 when closer than twice this distance, the level 2 when closer than 4 times this distance...
+     */
+    public lodDistanceRatio = 1;
+
+    /**
+     * Maximum number of chunk levels loaded at the same time
+     */
+    public maxConcurrentLoads = 4;
+
+    /**
+     * Number of loaded splats above which the levels which are not displayed are released, the least recently displayed first. The coarsest levels are always kept.
+     */
+    public maxLoadedSplatCount = 8 * 1024 * 1024;
+
+    /**
+     * Defines if the chunks outside of the frustum of the camera are hidden (default: true)
+     */
+    public chunkCulling = true;
+
+    /**
+     * Observable raised when a level of a chunk is loaded
+     */
+    public readonly onChunkLoadedObservable = new Observable<{ chunkIndex: number; lod: number }>();
+
+    /**
+     * Creates a new streaming Gaussian splatting mesh
+     * @param name defines the name of the mesh
+     * @param chunks defines the chunks of splats
+     * @param loader defines the function loading the levels of the chunks
+     * @param scene defines the hosting scene (optional)
+     * @param keepInRam keep the data of the displayed chunks in ram for editing purpose
+     */
+    constructor(name: string, chunks: IGaussianSplattingChunk[], loader: GaussianSplattingChunkLoader, scene: Nullable<Scene> = null, keepInRam: boolean = false) {
+        super(name, null, scene, keepInRam);
+
+        this._chunks = chunks;
+        this._loader = loader;
+        this._chunkStates = chunks.map((chunk) => ({
+            // The splats are rendered with the y axis flipped
+            boundingBox: new BoundingBox(new Vector3(chunk.minimum.x, -chunk.maximum.y, chunk.minimum.z), new Vector3(chunk.maximum.x, -chunk.minimum.y, chunk.maximum.z)),
+            levels: new Array(chunk.lodCount),
+            loading: new Set<number>(),
+            failed: new Set<number>(),
+            lastDisplayedFrame: -1,
+            range: null,
+        }));
+        this._displayedLevels = new Array(chunks.length).fill(-1);
+
+        // The chunks are updated even if the mesh is culled, as the mesh only contains the displayed chunks
+        this._beforeRenderObserver = this._scene.onBeforeRenderObservable.add(() => {
+            this.update();
+        });
+    }
+
+    /**
+     * Returns the class name
+     * @returns "GaussianSplattingStreamingMesh"
+     */
+    public override getClassName(): string {
+        return "GaussianSplattingStreamingMesh";
+    }
+
+    /**
+     * Gets the chunks of splats
+     */
+    public get chunks(): ReadonlyArray<IGaussianSplattingChunk> {
+        return this._chunks;
+    }
+
+    /**
+     * Gets the level displayed for each chunk, -1 if the chunk is not displayed
+     */
+    public get displayedLevels(): ReadonlyArray<number> {
+        return this._displayedLevels;
+    }
+
+    /**
+     * Gets the number of chunk levels being loaded
+     */
+    public get loadingCount(): number {
+        return this._loadingCount;
+    }
+
+    private _getRequiredLevel(chunkIndex: number, camera: Camera, frustumPlanes: Nullable<Plane[]>): number {
+        const boundingBox = this._chunkStates[chunkIndex].boundingBox;
+        boundingBox._update(this.getWorldMatrix());
+        if (frustumPlanes && !boundingBox.isInFrustum(frustumPlanes)) {
+            return -1;
+        }
+
+        // Distance between the camera and the box of the chunk
+        const position = camera.globalPosition;
+        const minimum = boundingBox.minimumWorld;
+        const maximum = boundingBox.maximumWorld;
+        const dx = Math.max(minimum.x - position.x, 0, position.x - maximum.x);
+        const dy = Math.max(minimum.y - position.y, 0, position.y - maximum.y);
+        const dz = Math.max(minimum.z - position.z, 0, position.z - maximum.z);
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+        const size = Vector3.Distance(minimum, maximum) * this.lodDistanceRatio;
+        const level = distance < size || size <= 0 ? 0 : Math.floor(Math.log2(distance / size)) + 1;
+        return Math.min(level, this._chunks[chunkIndex].lodCount - 1);
+    }
+
+    /**
+     * Updates the displayed chunks and loads the missing levels. This is done automatically before rendering the scene.
+     * @param camera defines the camera used to select the chunks (the active camera of the scene by default)
+     */
+    public update(camera: Nullable<Camera> = this._scene.activeCamera): void {
+        if (!camera || !this._chunks.length) {
+            return;
+        }
+
+        const frameId = this._scene.getFrameId();
+        const transform = camera.getViewMatrix().multiplyToRef(camera.getProjectionMatrix(), TmpVectors.Matrix[0]);
+        const frustumPlanes = this.chunkCulling ? Frustum.GetPlanes(transform) : null;
+        const coarseRequests: { chunkIndex: number; lod: number; distance: number }[] = [];
+        const requests: { chunkIndex: number; lod: number; distance: number }[] = [];
+        const displayedLevels: number[] = [];
+
+        for (let chunkIndex = 0; chunkIndex < this._chunks.length; chunkIndex++) {
+            const state = this._chunkStates[chunkIndex];
+            const requiredLevel = this._getRequiredLevel(chunkIndex, camera, frustumPlanes);
+            if (requiredLevel < 0) {
+                displayedLevels.push(-1);
+                continue;
+            }
+
+            const distance = Vector3.DistanceSquared(state.boundingBox.centerWorld, camera.globalPosition);
+            const coarsestLevel = this._chunks[chunkIndex].lodCount - 1;
+            const displayedLevel = this._getClosestLoadedLevel(state, requiredLevel);
+            if (displayedLevel < 0) {
+                coarseRequests.push({ chunkIndex, lod: coarsestLevel, distance });
+            }
+            if (displayedLevel !== requiredLevel) {
+                requests.push({ chunkIndex, lod: requiredLevel, distance });
+            }
+
+            displayedLevels.push(displayedLevel);
+            if (displayedLevel >= 0) {
+                state.lastDisplayedFrame = frameId;
+            }
+        }
+
+        // Coarse levels first, closest chunks first
+        coarseRequests.sort((a, b) => a.distance - b.distance);
+        requests.sort((a, b) => a.distance - b.distance);
+        for (const request of [...coarseRequests, ...requests]) {
+            if (this._loadingCount >= this.maxConcurrentLoads) {
+                break;
+            }
+            this._loadLevel(request.chunkIndex, request.lod);
+        }
+
+        const key = displayedLevels.join(",");
+        if (key !== this._displayedKey && !this._isUpdating) {
+            this._displayLevelsAsync(displayedLevels, key)
+                // eslint-disable-next-line github/no-then
+                .catch((error) => {
+                    Logger.Warn(`Failed to display the chunks of the Gaussian splatting mesh ${this.name}: ${error}`);
+                });
+        }
+    }
+
+    /**
+     * Splits splats in chunks, using a k-d tree, and creates the reduced detail levels of the chunks
+     * @param data defines the splats data, in the format used by GaussianSplattingMesh.updateData
+     * @param sh defines the optional SH arrays of the splats
+     * @param options defines the options used to build the chunks
+     * @returns the chunks and the data of their levels of detail
+     */
+    public static BuildChunks(data: ArrayBuffer, sh: Nullable<Uint8Array[]> = null, options: IGaussianSplattingChunkBuildOptions = {}): IGaussianSplattingChunkSet {
+        const maxSplatsPerChunk = Math.max(1, options.maxSplatsPerChunk ?? 65536);
+        const lodCount = Math.max(1, options.lodCount ?? 3);
+        const lodReductionFactor = Math.max(1, options.lodReductionFactor ?? 4);
+
+        const floats = new Float32Array(data);
+        const bytes = new Uint8Array(data);
+        const splatCount = data.byteLength / ROW_LENGTH;
+        const indices = new Uint32Array(splatCount);
+        for (let i = 0; i < splatCount; i++) {
+            indices[i] = i;
+        }
+
+        const getBounds = (range: Uint32Array, margin: number) => {
+            const minimum = new Vector3(Number.MAX_VALUE, Number.MAX_VALUE, Number.MAX_VALUE);
+            const maximum = new Vector3(-Number.MAX_VALUE, -Number.MAX_VALUE, -Number.MAX_VALUE);
+            for (const index of range) {
+                const extent = margin * Math.max(floats[index * 8 + 3], floats[index * 8 + 4], floats[index * 8 + 5]);
+                minimum.minimizeInPlaceFromFloats(floats[index * 8] - extent, floats[index * 8 + 1] - extent, floats[index * 8 + 2] - extent);
+                maximum.maximizeInPlaceFromFloats(floats[index * 8] + extent, floats[index * 8 + 1] + extent, floats[index * 8 + 2] + extent);
+            }
+            return { minimum, maximum };
+        };
+
+        // Split the splats at the median of the longest axis of their bounds until the chunks are small enough
+        const leaves: Uint32Array[] = [];
+        const ranges = splatCount ? [indices] : [];
+        while (ranges.length) {
+            const range = ranges.pop()!;
+            if (range.length <= maxSplatsPerChunk) {
+                leaves.push(range);
+                continue;
+            }
+            const { minimum, maximum } = getBounds(range, 0);
+            const extent = maximum.subtract(minimum);
+            const axis = extent.x >= extent.y && extent.x >= extent.z ? 0 : extent.y >= extent.z ? 1 : 2;
+            range.sort((a, b) => floats[a * 8 + axis] - floats[b * 8 + axis]);
+            const median = range.length >> 1;
+            ranges.push(range.subarray(median), range.subarray(0, median));
+        }
+
+        const result: IGaussianSplattingChunkSet = { chunks: [], levels: [] };
+        for (const leaf of leaves) {
+            const { minimum, maximum } = getBounds(leaf, SplatExtent);
+            result.chunks.push({ minimum, maximum, lodCount });
+
+            // Full detail level
+            const fullLevel: IGaussianSplattingChunkData = { data: new ArrayBuffer(leaf.length * ROW_LENGTH) };
+            const fullBytes = new Uint8Array(fullLevel.data);
+            if (sh) {
+                fullLevel.sh = sh.map(() => new Uint8Array(leaf.length * SH_ROW_LENGTH));
+            }
+            leaf.forEach((index, i) => {
+                fullBytes.set(bytes.subarray(index * ROW_LENGTH, (index + 1) * ROW_LENGTH), i * ROW_LENGTH);
+                fullLevel.sh?.forEach((array, arrayIndex) => {
+                    array.set(sh![arrayIndex].subarray(index * SH_ROW_LENGTH, (index + 1) * SH_ROW_LENGTH), i * SH_ROW_LENGTH);
+                });
+            });
+
+            const levels = [fullLevel];
+            const centers = getBounds(leaf, 0);
+            for (let lod = 1; lod < lodCount; lod++) {
+                const targetCount = Math.max(1, Math.ceil(leaf.length / Math.pow(lodReductionFactor, lod)));
+                levels.push(ReduceDetail(data, sh, leaf, targetCount, centers.minimum, centers.maximum));
+            }
+            result.levels.push(levels);
+        }
+
+        return result;
+    }
+
+    /**
+     * Releases resources associated with this mesh.
+     * @param doNotRecurse Set to true to not recurse into each children (recurse into each children by default)
+     */
+    public override dispose(doNotRecurse?: boolean): void {
+        this._scene.onBeforeRenderObservable.remove(this._beforeRenderObserver);
+        this._beforeRenderObserver = null;
+        this.onChunkLoadedObservable.clear();
+        for (const state of this._chunkStates) {
+            state.levels.fill(undefined);
+        }
+        this._displayedData = null;
+        this._displayedSh = undefined;
+        super.dispose(doNotRecurse);
+    }
+
+    private _getClosestLoadedLevel(state: IChunkState, level: number): number {
+        // The finer level is preferred when two levels are as close to the required one
+        for (let offset = 0; offset < state.levels.length; offset++) {
+            if (state.levels[level - offset]) {
+                return level - offset;
+            }
+            if (state.levels[level + offset]) {
+                return level + offset;
+            }
+        }
+        return -1;
+    }
+
+    private _loadLevel(chunkIndex: number, lod: number): void {
+        const state = this._chunkStates[chunkIndex];
+        if (state.levels[lod] || state.loading.has(lod) || state.failed.has(lod)) {
+            return;
+        }
+
+        state.loading.add(lod);
+        this._loadingCount++;
+        this._loader(chunkIndex, lod)
+            // eslint-disable-next-line github/no-then
+            .then((levelData) => {
+                if (this.isDisposed()) {
+                    return;
+                }
+                state.levels[lod] = levelData;
+                this._loadedSplatCount += levelData.data.byteLength / ROW_LENGTH;
+                this.onChunkLoadedObservable.notifyObservers({ chunkIndex, lod });
+                this._releaseLevels();
+            })
+            // eslint-disable-next-line github/no-then
+            .catch((error) => {
+                state.failed.add(lod);
+                Logger.Warn(`Failed to load the level ${lod} of the chunk ${chunkIndex} of the Gaussian splatting mesh ${this.name}: ${error}`);
+            })
+            // eslint-disable-next-line github/no-then
+            .finally(() => {
+                state.loading.delete(lod);
+                this._loadingCount--;
+            });
+    }
+
+    private _releaseLevels(): void {
+        if (this._loadedSplatCount <= this.maxLoadedSplatCount) {
+            return;
+        }
+
+        const candidates: { chunkIndex: number; lod: number; lastDisplayedFrame: number }[] = [];
+        this._chunkStates.forEach((state, chunkIndex) => {
+            for (let lod = 0; lod < state.levels.length - 1; lod++) {
+                if (state.levels[lod] && this._displayedLevels[chunkIndex] !== lod) {
+                    candidates.push({ chunkIndex, lod, lastDisplayedFrame: state.lastDisplayedFrame });
+                }
+            }
+        });
+        candidates.sort((a, b) => a.lastDisplayedFrame - b.lastDisplayedFrame);
+
+        for (const { chunkIndex, lod } of candidates) {
+            if (this._loadedSplatCount <= this.maxLoadedSplatCount) {
+                break;
+            }
+            const levels = this._chunkStates[chunkIndex].levels;
+            this._loadedSplatCount -= levels[lod]!.data.byteLength / ROW_LENGTH;
+            levels[lod] = undefined;
+        }
+    }
+
+    private _getDisplayedLevel(chunkIndex: number): IGaussianSplattingChunkData | undefined {
+        const lod = this._displayedLevels[chunkIndex];
+        return lod >= 0 ? this._chunkStates[chunkIndex].levels[lod] : undefined;
+    }
+
+    private async _displayLevelsAsync(displayedLevels: number[], key: string): Promise<void> {
+        const previousLevels = this._displayedLevels;
+        this._displayedLevels = displayedLevels;
+        this._displayedKey = key;
+
+        if (!this._updateDisplayedRanges(previousLevels)) {
+            await this._updateDisplayedDataAsync();
+        }
+    }
+
+    private _updateDisplayedRanges(previousLevels: number[]): boolean {
+        const data = this._displayedData;
+        if (!data || !this.covariancesATexture) {
+            return false;
+        }
+
+        // The changed chunks are updated in place when their level fits in their range
+        const shArrayCount = this._displayedSh?.length ?? 0;
+        const changedChunks: number[] = [];
+        let splatCount = 0;
+        for (let chunkIndex = 0; chunkIndex < this._chunks.length; chunkIndex++) {
+            const level = this._getDisplayedLevel(chunkIndex);
+            const count = level ? level.data.byteLength / ROW_LENGTH : 0;
+            splatCount += count;
+            if (this._displayedLevels[chunkIndex] === previousLevels[chunkIndex]) {
+                continue;
+            }
+            const range = this._chunkStates[chunkIndex].range;
+            if ((count && (!range || count > range.count)) || (level?.sh?.length ?? 0) > shArrayCount) {
+                return false;
+            }
+            if (range) {
+                changedChunks.push(chunkIndex);
+            }
+        }
+
+        const ranges: { start: number; count: number }[] = [];
+        for (const chunkIndex of changedChunks) {
+            const range = this._chunkStates[chunkIndex].range!;
+            const level = this._getDisplayedLevel(chunkIndex);
+            const count = level ? level.data.byteLength / ROW_LENGTH : 0;
+
+            // The rest of the range is filled with empty splats
+            data.fill(0, range.start * ROW_LENGTH, (range.start + range.count) * ROW_LENGTH);
+            this._displayedSh?.forEach((array) => array.fill(128, range.start * SH_ROW_LENGTH, (range.start + range.count) * SH_ROW_LENGTH));
+            if (level) {
+                data.set(new Uint8Array(level.data), range.start * ROW_LENGTH);
+                level.sh?.forEach((array, i) => {
+                    this._displayedSh![i].set(array.subarray(0, count * SH_ROW_LENGTH), range.start * SH_ROW_LENGTH);
+                });
+            }
+            ranges.push(range);
+        }
+
+        if (ranges.length) {
+            this._updateDataRanges(data.buffer, ranges, this._displayedSh);
+        }
+        this.isVisible = splatCount > 0;
+        return true;
+    }
+
+    private async _updateDisplayedDataAsync(): Promise<void> {
+        this._displayedData = null;
+        this._displayedSh = undefined;
+
+        const levels: IGaussianSplattingChunkData[] = [];
+        let splatCount = 0;
+        let shArrayCount = 0;
+        this._chunkStates.forEach((state, chunkIndex) => {
+            const level = this._getDisplayedLevel(chunkIndex);
+            state.range = null;
+            if (level) {
+                const count = level.data.byteLength / ROW_LENGTH;
+                state.range = { start: splatCount, count };
+                levels.push(level);
+                splatCount += count;
+                shArrayCount = Math.max(shArrayCount, level.sh?.length ?? 0);
+            }
+        });
+
+        if (!splatCount) {
+            this.isVisible = false;
+            return;
+        }
+
+        // Concatenate the levels, the SH arrays being used as is to create the SH textures
+        const data = new Uint8Array(splatCount * ROW_LENGTH);
+        let sh: Uint8Array[] | undefined;
+        if (shArrayCount) {
+            const width = this.getEngine().getCaps().maxTextureSize;
+            const shLength = Math.ceil(splatCount / width) * width * SH_ROW_LENGTH;
+            sh = [];
+            for (let i = 0; i < shArrayCount; i++) {
+                sh.push(new Uint8Array(shLength).fill(128));
+            }
+        }
+
+        let offset = 0;
+        for (const level of levels) {
+            const count = level.data.byteLength / ROW_LENGTH;
+            data.set(new Uint8Array(level.data), offset * ROW_LENGTH);
+            level.sh?.forEach((array, i) => {
+                sh![i].set(array.subarray(0, count * SH_ROW_LENGTH), offset * SH_ROW_LENGTH);
+            });
+            offset += count;
+        }
+
+        this._isUpdating = true;
+        try {
+            await this.updateDataAsync(data.buffer, sh);
+            this.isVisible = true;
+            // The data is kept to update the ranges of the chunks
+            this._displayedData = data;
+            this._displayedSh = sh;
+        } finally {
+            this._isUpdating = false;
+        }
+    }
+}
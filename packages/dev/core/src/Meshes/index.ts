@@ -40,6 +40,8 @@ import "./thinInstanceMesh";
 export * from "./thinInstanceMesh";
 export * from "./Node/index";
 export * from "./GaussianSplatting/gaussianSplattingMesh";
+export * from "./GaussianSplatting/gaussianSplattingEditor";
+export * from "./GaussianSplatting/gaussianSplattingStreamingMesh";
 
 // LineMesh
 export * from "../Shaders/color.fragment";
@@ -8,5 +8,6 @@ export * from "./physicsAggregate";
 export * from "./ragdoll";
 export * from "./IPhysicsEnginePlugin";
 export * from "./characterController";
+export * from "./vehicleController";
 /* eslint-disable @typescript-eslint/no-restricted-imports */
 export * from "./Plugins/index";
@@ -39,12 +39,14 @@ export class PhysicsBody {
     private _physicsEngine: PhysicsEngine;
     /**
      * If the collision callback is enabled
+     * @internal
      */
-    private _collisionCBEnabled: boolean = false;
+    public _collisionCBEnabled: boolean = false;
     /**
      * If the collision ended callback is enabled
+     * @internal
      */
-    private _collisionEndedCBEnabled: boolean = false;
+    public _collisionEndedCBEnabled: boolean = false;
     /**
      * The transform node associated with this Physics Body
      */
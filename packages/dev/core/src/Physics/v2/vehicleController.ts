@@ -0,0 +1,1000 @@
+import { Quaternion, TmpVectors, Vector3 } from "../../Maths/math.vector";
+import type { TransformNode } from "../../Meshes/transformNode";
+import type { Scene } from "../../scene";
+import type { Nullable } from "../../types";
+import type { IRaycastQuery } from "../physicsRaycastResult";
+import { PhysicsRaycastResult } from "../physicsRaycastResult";
+import { ShapeCastResult } from "../shapeCastResult";
+import { PhysicsMotionType } from "./IPhysicsEnginePlugin";
+import type { PhysicsBody } from "./physicsBody";
+import type { PhysicsEngine } from "./physicsEngine";
+import { PhysicsShapeCylinder } from "./physicsShape";
+import type { HavokPlugin } from "./Plugins/havokPlugin";
+
+/**
+ * Type of differential splitting the drive torque between the two wheels of an axle
+ */
+export const enum PhysicsVehicleDifferentialType {
+    /**
+     * The torque is split evenly, so a wheel without grip spins freely and limits the torque of the other wheel
+     */
+    OPEN,
+    /**
+     * Both wheels always turn at the same speed
+     */
+    LOCKED,
+    /**
+     * Torque is transferred to the slower wheel, up to the axle's `limitedSlipRatio`
+     */
+    LIMITED_SLIP,
+}
+
+/**
+ * Tire friction curve, giving the friction coefficient of a tire from its slip.
+ * The coefficient rises to `extremumValue` at `extremumSlip`, then blends to `asymptoteValue` at `asymptoteSlip` and stays constant.
+ * The longitudinal slip is the slip ratio of the wheel, and the lateral slip is the slip angle of the wheel in radians.
+ */
+export interface IPhysicsVehicleFrictionCurve {
+    /**
+     * slip at which the friction is the highest
+     */
+    extremumSlip: number;
+    /**
+     * friction coefficient at extremumSlip
+     */
+    extremumValue: number;
+    /**
+     * slip from which the friction stays constant
+     */
+    asymptoteSlip: number;
+    /**
+     * friction coefficient from asymptoteSlip
+     */
+    asymptoteValue: number;
+}
+
+/**
+ * Wheel properties for the vehicle controller
+ */
+export interface IPhysicsVehicleWheelOptions {
+    /**
+     * Center of the wheel when the suspension is fully compressed, in the local space of the chassis
+     */
+    position: Vector3;
+    /**
+     * wheel radius
+     * default 0.35
+     */
+    radius?: number;
+    /**
+     * wheel width, used by shape casts
+     * default 0.25
+     */
+    width?: number;
+    /**
+     * wheel mass, used for the wheel spin inertia
+     * default 20
+     */
+    mass?: number;
+    /**
+     * length of the suspension when it is fully extended
+     * default 0.3
+     */
+    suspensionRestLength?: number;
+    /**
+     * suspension spring stiffness, in newtons per meter
+     * default 35000
+     */
+    suspensionStiffness?: number;
+    /**
+     * suspension damping when compressing, in newton seconds per meter
+     * default 3000
+     */
+    suspensionCompressionDamping?: number;
+    /**
+     * suspension damping when extending, in newton seconds per meter
+     * default 4000
+     */
+    suspensionRelaxationDamping?: number;
+    /**
+     * maximum force applied by the suspension
+     * default Infinity
+     */
+    maxSuspensionForce?: number;
+    /**
+     * steering angle of the wheel, in radians, when the steering input is 1. Use a negative value for rear wheel steering
+     * default 0
+     */
+    maxSteeringAngle?: number;
+    /**
+     * brake torque when the brake input is 1
+     * default 2000
+     */
+    maxBrakeTorque?: number;
+    /**
+     * brake torque when the handbrake input is 1
+     * default 0
+     */
+    maxHandbrakeTorque?: number;
+    /**
+     * friction curve along the rolling direction of the wheel
+     */
+    longitudinalFriction?: IPhysicsVehicleFrictionCurve;
+    /**
+     * friction curve along the axle of the wheel
+     */
+    lateralFriction?: IPhysicsVehicleFrictionCurve;
+    /**
+     * factor applied to both friction curves, for example to change the grip depending on the ground
+     * default 1
+     */
+    frictionFactor?: number;
+    /**
+     * optional node displaying the wheel. It must be a child of the chassis node, its position and rotation are set in the chassis local space
+     */
+    transformNode?: Nullable<TransformNode>;
+}
+
+/**
+ * Axle properties for the vehicle controller
+ */
+export interface IPhysicsVehicleAxleOptions {
+    /**
+     * index of the left wheel of the axle
+     */
+    leftWheel: number;
+    /**
+     * index of the right wheel of the axle
+     */
+    rightWheel: number;
+    /**
+     * share of the drive torque sent to the axle. Shares are normalized over the driven axles. 0 for an axle that is not driven
+     * default 0
+     */
+    torqueShare?: number;
+    /**
+     * differential of the axle
+     * default PhysicsVehicleDifferentialType.OPEN
+     */
+    differential?: PhysicsVehicleDifferentialType;
+    /**
+     * maximum ratio between the torques of the slower and the faster wheel, with a limited slip differential
+     * default 3
+     */
+    limitedSlipRatio?: number;
+    /**
+     * anti-roll bar stiffness, in newtons per meter of suspension compression difference between the two wheels
+     * default 0
+     */
+    antiRollStiffness?: number;
+}
+
+/**
+ * Engine properties for the vehicle controller
+ */
+export interface IPhysicsVehicleEngineOptions {
+    /**
+     * maximum torque of the engine, in newton meters
+     * default 400
+     */
+    maxTorque: number;
+    /**
+     * torque factors from 0 to 1, sampled evenly from 0 to maxRpm
+     * default [0.4, 0.6, 0.8, 0.95, 1, 0.95, 0.85, 0.7]
+     */
+    torqueCurve: number[];
+    /**
+     * engine speed when idling, in revolutions per minute
+     * default 1000
+     */
+    idleRpm: number;
+    /**
+     * engine speed limit, in revolutions per minute
+     * default 7000
+     */
+    maxRpm: number;
+    /**
+     * torque slowing the vehicle down when the throttle is released, at maxRpm
+     * default 50
+     */
+    engineBrakingTorque: number;
+    /**
+     * engine inertia, used when the engine is not connected to the wheels
+     * default 0.3
+     */
+    inertia: number;
+}
+
+/**
+ * Gearbox properties for the vehicle controller
+ */
+export interface IPhysicsVehicleGearboxOptions {
+    /**
+     * ratios of the forward gears, from the first gear
+     * default [3.5, 2.2, 1.5, 1.1, 0.9]
+     */
+    forwardRatios: number[];
+    /**
+     * ratio of the reverse gear
+     * default 3.2
+     */
+    reverseRatio: number;
+    /**
+     * ratio of the final drive, applied in all gears
+     * default 3.7
+     */
+    finalDriveRatio: number;
+    /**
+     * fraction of the engine torque reaching the wheels
+     * default 0.9
+     */
+    efficiency: number;
+    /**
+     * whether the forward gears are shifted automatically
+     * default true
+     */
+    automatic: boolean;
+    /**
+     * engine speed above which the automatic gearbox shifts up
+     * default 6000
+     */
+    shiftUpRpm: number;
+    /**
+     * engine speed under which the automatic gearbox shifts down
+     * default 2500
+     */
+    shiftDownRpm: number;
+    /**
+     * duration of a gear shift in seconds, during which the engine is disconnected from the wheels
+     * default 0.2
+     */
+    shiftTime: number;
+}
+
+/**
+ * Vehicle controller options
+ */
+export interface IPhysicsVehicleControllerOptions {
+    /**
+     * wheels of the vehicle
+     */
+    wheels: IPhysicsVehicleWheelOptions[];
+    /**
+     * axles of the vehicle, pairing wheels for the drivetrain and the anti-roll bars
+     */
+    axles?: IPhysicsVehicleAxleOptions[];
+    /**
+     * engine properties
+     */
+    engine?: Partial<IPhysicsVehicleEngineOptions>;
+    /**
+     * gearbox properties
+     */
+    gearbox?: Partial<IPhysicsVehicleGearboxOptions>;
+    /**
+     * cast the wheel cylinders instead of rays to find the ground. Requires the Havok plugin.
+     * Shape casts can't filter collisions, so castQuery can't set membership or collideWith with this option
+     * default false
+     */
+    useShapeCast?: boolean;
+    /**
+     * collision filtering of the ground queries. The chassis body is always ignored.
+     * Only shouldHitTriggers is used by shape casts
+     */
+    castQuery?: IRaycastQuery;
+}
+
+/**
+ * Wheel of a vehicle controller, with its properties and its state computed by the last update
+ */
+export class PhysicsVehicleWheel {
+    /**
+     * Center of the wheel when the suspension is fully compressed, in the local space of the chassis
+     */
+    public position: Vector3;
+    /**
+     * wheel radius. The cylinder used by shape casts keeps the radius given at creation
+     */
+    public radius: number;
+    /**
+     * wheel width, used by shape casts
+     */
+    public readonly width: number;
+    /**
+     * wheel mass, used for the wheel spin inertia
+     */
+    public mass: number;
+    /**
+     * length of the suspension when it is fully extended
+     */
+    public suspensionRestLength: number;
+    /**
+     * suspension spring stiffness, in newtons per meter
+     */
+    public suspensionStiffness: number;
+    /**
+     * suspension damping when compressing
+     */
+    public suspensionCompressionDamping: number;
+    /**
+     * suspension damping when extending
+     */
+    public suspensionRelaxationDamping: number;
+    /**
+     * maximum force applied by the suspension
+     */
+    public maxSuspensionForce: number;
+    /**
+     * steering angle of the wheel when the steering input is 1
+     */
+    public maxSteeringAngle: number;
+    /**
+     * brake torque when the brake input is 1
+     */
+    public maxBrakeTorque: number;
+    /**
+     * brake torque when the handbrake input is 1
+     */
+    public maxHandbrakeTorque: number;
+    /**
+     * friction curve along the rolling direction of the wheel
+     */
+    public longitudinalFriction: IPhysicsVehicleFrictionCurve;
+    /**
+     * friction curve along the axle of the wheel
+     */
+    public lateralFriction: IPhysicsVehicleFrictionCurve;
+    /**
+     * factor applied to both friction curves
+     */
+    public frictionFactor: number;
+    /**
+     * optional node displaying the wheel, child of the chassis node
+     */
+    public transformNode: Nullable<TransformNode>;
+
+    /**
+     * whether the wheel touches the ground
+     */
+    public isGrounded = false;
+    /**
+     * current length of the suspension
+     */
+    public suspensionLength: number;
+    /**
+     * force applied by the suspension, which is also the load of the tire
+     */
+    public suspensionForce = 0;
+    /**
+     * contact point with the ground, in world space
+     */
+    public readonly contactPoint = Vector3.Zero();
+    /**
+     * ground normal at the contact point, in world space
+     */
+    public readonly contactNormal = Vector3.Up();
+    /**
+     * body touched by the wheel
+     */
+    public contactBody: Nullable<PhysicsBody> = null;
+    /**
+     * current steering angle, in radians
+     */
+    public steeringAngle = 0;
+    /**
+     * spin speed of the wheel, in radians per second
+     */
+    public angularVelocity = 0;
+    /**
+     * spin angle of the wheel, in radians
+     */
+    public rotation = 0;
+    /**
+     * drive torque applied to the wheel by the drivetrain
+     */
+    public driveTorque = 0;
+    /**
+     * longitudinal slip ratio of the tire
+     */
+    public longitudinalSlip = 0;
+    /**
+     * lateral slip angle of the tire, in radians
+     */
+    public lateralSlip = 0;
+
+    /** @internal */
+    public _shape: Nullable<PhysicsShapeCylinder> = null;
+    /** @internal */
+    public _previousSuspensionLength: number;
+
+    /**
+     * Creates a vehicle wheel
+     * @param options wheel properties
+     */
+    public constructor(options: IPhysicsVehicleWheelOptions) {
+        this.position = options.position.clone();
+        this.radius = options.radius ?? 0.35;
+        this.width = options.width ?? 0.25;
+        this.mass = options.mass ?? 20;
+        this.suspensionRestLength = options.suspensionRestLength ?? 0.3;
+        this.suspensionStiffness = options.suspensionStiffness ?? 35000;
+        this.suspensionCompressionDamping = options.suspensionCompressionDamping ?? 3000;
+        this.suspensionRelaxationDamping = options.suspensionRelaxationDamping ?? 4000;
+        this.maxSuspensionForce = options.maxSuspensionForce ?? Infinity;
+        this.maxSteeringAngle = options.maxSteeringAngle ?? 0;
+        this.maxBrakeTorque = options.maxBrakeTorque ?? 2000;
+        this.maxHandbrakeTorque = options.maxHandbrakeTorque ?? 0;
+        this.longitudinalFriction = { ...(options.longitudinalFriction ?? { extremumSlip: 0.1, extremumValue: 1, asymptoteSlip: 0.8, asymptoteValue: 0.75 }) };
+        this.lateralFriction = { ...(options.lateralFriction ?? { extremumSlip: 0.15, extremumValue: 1, asymptoteSlip: 0.6, asymptoteValue: 0.7 }) };
+        this.frictionFactor = options.frictionFactor ?? 1;
+        this.transformNode = options.transformNode ?? null;
+        this.suspensionLength = this.suspensionRestLength;
+        this._previousSuspensionLength = this.suspensionRestLength;
+    }
+
+    /**
+     * Spin inertia of the wheel
+     */
+    public get inertia(): number {
+        return 0.5 * this.mass * this.radius * this.radius;
+    }
+}
+
+/**
+ * Evaluates a friction curve
+ * @param curve friction curve
+ * @param slip slip of the tire
+ * @returns signed friction coefficient
+ */
+function EvaluateFrictionCurve(curve: IPhysicsVehicleFrictionCurve, slip: number): number {
+    const absSlip = Math.abs(slip);
+    let value: number;
+    if (absSlip <= curve.extremumSlip) {
+        // ease out, so the curve is flat at the extremum
+        const t = curve.extremumSlip > 0 ? absSlip / curve.extremumSlip : 1;
+        value = curve.extremumValue * t * (2 - t);
+    } else if (absSlip < curve.asymptoteSlip) {
+        const t = (absSlip - curve.extremumSlip) / (curve.asymptoteSlip - curve.extremumSlip);
+        value = curve.extremumValue + (curve.asymptoteValue - curve.extremumValue) * t * t * (3 - 2 * t);
+    } else {
+        value = curve.asymptoteValue;
+    }
+    return Math.sign(slip) * value;
+}
+
+const RpmToRadPerSecond = Math.PI / 30;
+
+// Speed under which the slips are computed against this speed, to keep them stable when the vehicle stops
+const LowSpeed = 0.5;
+
+/**
+ * Raycast vehicle controller for Physics V2.
+ * Each wheel finds the ground with a ray or a shape cast, and the suspension, anti-roll bars and tire forces are applied to the chassis body.
+ * The engine drives the wheels through the gearbox and the differentials of the axles.
+ *
+ * The chassis must be a dynamic body, whose local X axis points to the right, Y axis points up and Z axis points forward.
+ * Call `update` before each physics step, for example in `scene.onBeforePhysicsObservable`, with the physics time step.
+ * @experimental
+ */
+export class PhysicsVehicleController {
+    private _scene: Scene;
+    private _gear = 1;
+    private _rpm: number;
+    private _shiftTimer = 0;
+    private _speed = 0;
+    private _raycastResult = new PhysicsRaycastResult();
+    private _inputShapeResult = new ShapeCastResult();
+    private _hitShapeResult = new ShapeCastResult();
+    private _castQuery: IRaycastQuery;
+    private _up = Vector3.Up();
+    private _right = Vector3.Right();
+    private _forward = Vector3.Forward();
+    private _com = Vector3.Zero();
+    private _linearVelocity = Vector3.Zero();
+    private _angularVelocity = Vector3.Zero();
+    private _tmpQuaternion = new Quaternion();
+
+    /**
+     * chassis body
+     */
+    public readonly body: PhysicsBody;
+    /**
+     * wheels of the vehicle
+     */
+    public readonly wheels: PhysicsVehicleWheel[];
+    /**
+     * axles of the vehicle
+     */
+    public readonly axles: Required<IPhysicsVehicleAxleOptions>[];
+    /**
+     * engine properties
+     */
+    public readonly engine: IPhysicsVehicleEngineOptions;
+    /**
+     * gearbox properties
+     */
+    public readonly gearbox: IPhysicsVehicleGearboxOptions;
+    /**
+     * whether the wheels cast cylinders instead of rays to find the ground
+     */
+    public readonly useShapeCast: boolean;
+
+    /**
+     * throttle input, from 0 to 1
+     */
+    public throttle = 0;
+    /**
+     * brake input, from 0 to 1
+     */
+    public brake = 0;
+    /**
+     * handbrake input, from 0 to 1
+     */
+    public handbrake = 0;
+    /**
+     * steering input, from -1 (left) to 1 (right)
+     */
+    public steering = 0;
+
+    /**
+     * Creates a vehicle controller
+     * @param body dynamic chassis body
+     * @param options vehicle options
+     */
+    public constructor(body: PhysicsBody, options: IPhysicsVehicleControllerOptions) {
+        if (body.getMotionType() !== PhysicsMotionType.DYNAMIC) {
+            throw new Error("The chassis of a vehicle controller must be a dynamic body.");
+        }
+
+        this.body = body;
+        this._scene = body.transformNode.getScene();
+
+        this.wheels = options.wheels.map((wheelOptions) => new PhysicsVehicleWheel(wheelOptions));
+        this.axles = (options.axles ?? []).map((axle) => {
+            if (!this.wheels[axle.leftWheel] || !this.wheels[axle.rightWheel]) {
+                throw new Error("Invalid wheel index in vehicle axle.");
+            }
+            return {
+                leftWheel: axle.leftWheel,
+                rightWheel: axle.rightWheel,
+                torqueShare: axle.torqueShare ?? 0,
+                differential: axle.differential ?? PhysicsVehicleDifferentialType.OPEN,
+                limitedSlipRatio: axle.limitedSlipRatio ?? 3,
+                antiRollStiffness: axle.antiRollStiffness ?? 0,
+            };
+        });
+
+        this.engine = {
+            maxTorque: 400,
+            torqueCurve: [0.4, 0.6, 0.8, 0.95, 1, 0.95, 0.85, 0.7],
+            idleRpm: 1000,
+            maxRpm: 7000,
+            engineBrakingTorque: 50,
+            inertia: 0.3,
+            ...options.engine,
+        };
+        this.gearbox = {
+            forwardRatios: [3.5, 2.2, 1.5, 1.1, 0.9],
+            reverseRatio: 3.2,
+            finalDriveRatio: 3.7,
+            efficiency: 0.9,
+            automatic: true,
+            shiftUpRpm: 6000,
+            shiftDownRpm: 2500,
+            shiftTime: 0.2,
+            ...options.gearbox,
+        };
+        this._rpm = this.engine.idleRpm;
+
+        this._castQuery = { ...options.castQuery, ignoreBody: body };
+
+        this.useShapeCast = options.useShapeCast ?? false;
+        if (this.useShapeCast) {
+            if (this._castQuery.membership !== undefined || this._castQuery.collideWith !== undefined) {
+                throw new Error("The ground queries of a vehicle controller can't filter collisions with shape casts.");
+            }
+
+            for (const wheel of this.wheels) {
+                const halfWidth = wheel.width * 0.5;
+                wheel._shape = new PhysicsShapeCylinder(new Vector3(-halfWidth, 0, 0), new Vector3(halfWidth, 0, 0), wheel.radius, this._scene);
+            }
+        }
+    }
+
+    /**
+     * Current gear: -1 for reverse, 0 for neutral, 1 and above for the forward gears
+     */
+    public get gear(): number {
+        return this._gear;
+    }
+
+    public set gear(value: number) {
+        value = Math.max(-1, Math.min(Math.round(value), this.gearbox.forwardRatios.length));
+        if (value !== this._gear) {
+            this._gear = value;
+            this._shiftTimer = this.gearbox.shiftTime;
+        }
+    }
+
+    /**
+     * Engine speed, in revolutions per minute
+     */
+    public get rpm(): number {
+        return this._rpm;
+    }
+
+    /**
+     * Speed of the chassis along its forward axis, computed by the last update
+     */
+    public get speed(): number {
+        return this._speed;
+    }
+
+    /**
+     * Whether a gear shift is in progress
+     */
+    public get isShifting(): boolean {
+        return this._shiftTimer > 0;
+    }
+
+    /**
+     * Shifts to the next gear
+     */
+    public shiftUp() {
+        this.gear = this._gear + 1;
+    }
+
+    /**
+     * Shifts to the previous gear
+     */
+    public shiftDown() {
+        this.gear = this._gear - 1;
+    }
+
+    /**
+     * Updates the vehicle and applies its forces to the chassis. Must be called before each physics step
+     * @param deltaTime time step in seconds
+     */
+    public update(deltaTime: number) {
+        const physicsEngine = this._scene.getPhysicsEngine() as Nullable<PhysicsEngine>;
+        if (!physicsEngine || deltaTime <= 0) {
+            return;
+        }
+
+        const worldMatrix = this.body.transformNode.computeWorldMatrix(true);
+        Vector3.TransformNormalToRef(Vector3.UpReadOnly, worldMatrix, this._up).normalize();
+        Vector3.TransformNormalToRef(Vector3.RightReadOnly, worldMatrix, this._right).normalize();
+        Vector3.TransformNormalToRef(Vector3.LeftHandedForwardReadOnly, worldMatrix, this._forward).normalize();
+        this.body.getObjectCenterWorldToRef(this._com);
+        this.body.getLinearVelocityToRef(this._linearVelocity);
+        this.body.getAngularVelocityToRef(this._angularVelocity);
+        this._speed = this._linearVelocity.dot(this._forward);
+
+        let groundedCount = 0;
+        for (const wheel of this.wheels) {
+            wheel.steeringAngle = this.steering * wheel.maxSteeringAngle;
+            this._castWheel(physicsEngine, wheel);
+            this._updateSuspension(wheel, deltaTime);
+            if (wheel.isGrounded) {
+                groundedCount++;
+            }
+        }
+
+        this._applyAntiRoll();
+        this._updateDrivetrain(deltaTime);
+
+        const mass = this.body.getMassProperties().mass ?? 1;
+        const massPerWheel = mass / Math.max(groundedCount, 1);
+        for (const wheel of this.wheels) {
+            this._applyWheelForces(wheel, massPerWheel, deltaTime);
+        }
+
+        this._lockDifferentials();
+
+        for (const wheel of this.wheels) {
+            wheel.rotation = (wheel.rotation + wheel.angularVelocity * deltaTime) % (2 * Math.PI);
+            this._syncWheelTransform(wheel);
+        }
+    }
+
+    /**
+     * Releases the resources of the vehicle controller. The chassis body and the wheel nodes are not disposed
+     */
+    public dispose() {
+        for (const wheel of this.wheels) {
+            wheel._shape?.dispose();
+            wheel._shape = null;
+        }
+    }
+
+    private _castWheel(physicsEngine: PhysicsEngine, wheel: PhysicsVehicleWheel) {
+        const top = Vector3.TransformCoordinatesToRef(wheel.position, this.body.transformNode.getWorldMatrix(), TmpVectors.Vector3[0]);
+        const down = this._up.scaleToRef(-1, TmpVectors.Vector3[1]);
+
+        wheel.isGrounded = false;
+        wheel.contactBody = null;
+
+        if (wheel._shape) {
+            const end = top.addToRef(down.scaleToRef(wheel.suspensionRestLength, TmpVectors.Vector3[2]), TmpVectors.Vector3[2]);
+            Quaternion.RotationAxisToRef(Vector3.UpReadOnly, wheel.steeringAngle, this._tmpQuaternion);
+            this.body.transformNode.absoluteRotationQuaternion.multiplyToRef(this._tmpQuaternion, this._tmpQuaternion);
+
+            const plugin = physicsEngine.getPhysicsPlugin() as HavokPlugin;
+            plugin.shapeCast(
+                {
+                    shape: wheel._shape,
+                    rotation: this._tmpQuaternion,
+                    startPosition: top,
+                    endPosition: end,
+                    shouldHitTriggers: this._castQuery.shouldHitTriggers ?? false,
+                    ignoreBody: this.body,
+                },
+                this._inputShapeResult,
+                this._hitShapeResult
+            );
+
+            const result = this._hitShapeResult;
+            if (result.hasHit) {
+                wheel.isGrounded = true;
+                wheel.suspensionLength = result.hitFraction * wheel.suspensionRestLength;
+                wheel.contactPoint.copyFrom(result.hitPoint);
+                wheel.contactNormal.copyFrom(result.hitNormal);
+                wheel.contactBody = result.body ?? null;
+            }
+        } else {
+            const end = top.addToRef(down.scaleToRef(wheel.suspensionRestLength + wheel.radius, TmpVectors.Vector3[2]), TmpVectors.Vector3[2]);
+            const result = this._raycastResult;
+            physicsEngine.raycastToRef(top, end, result, this._castQuery);
+
+            if (result.hasHit) {
+                wheel.isGrounded = true;
+                wheel.suspensionLength = Math.max(result.hitDistance - wheel.radius, 0);
+                wheel.contactPoint.copyFrom(result.hitPoint);
+                wheel.contactNormal.copyFrom(result.hitNormal);
+                wheel.contactBody = result.body ?? null;
+            }
+        }
+
+        if (!wheel.isGrounded) {
+            wheel.suspensionLength = wheel.suspensionRestLength;
+        }
+    }
+
+    private _updateSuspension(wheel: PhysicsVehicleWheel, deltaTime: number) {
+        const compressionVelocity = (wheel._previousSuspensionLength - wheel.suspensionLength) / deltaTime;
+        wheel._previousSuspensionLength = wheel.suspensionLength;
+
+        if (!wheel.isGrounded) {
+            wheel.suspensionForce = 0;
+            return;
+        }
+
+        const compression = wheel.suspensionRestLength - wheel.suspensionLength;
+        const damping = compressionVelocity > 0 ? wheel.suspensionCompressionDamping : wheel.suspensionRelaxationDamping;
+        const force = wheel.suspensionStiffness * compression + damping * compressionVelocity;
+        wheel.suspensionForce = Math.max(0, Math.min(force, wheel.maxSuspensionForce));
+    }
+
+    private _applyAntiRoll() {
+        for (const axle of this.axles) {
+            if (axle.antiRollStiffness === 0) {
+                continue;
+            }
+
+            const left = this.wheels[axle.leftWheel];
+            const right = this.wheels[axle.rightWheel];
+            const leftCompression = left.isGrounded ? left.suspensionRestLength - left.suspensionLength : 0;
+            const rightCompression = right.isGrounded ? right.suspensionRestLength - right.suspensionLength : 0;
+            const force = (leftCompression - rightCompression) * axle.antiRollStiffness;
+
+            if (left.isGrounded) {
+                left.suspensionForce = Math.max(0, left.suspensionForce + force);
+            }
+            if (right.isGrounded) {
+                right.suspensionForce = Math.max(0, right.suspensionForce - force);
+            }
+        }
+    }
+
+    private _getGearRatio(): number {
+        if (this._gear > 0) {
+            return this.gearbox.forwardRatios[this._gear - 1];
+        }
+        return this._gear < 0 ? -this.gearbox.reverseRatio : 0;
+    }
+
+    private _getEngineTorque(): number {
+        const engine = this.engine;
+        if (this.throttle > 0) {
+            if (this._rpm >= engine.maxRpm) {
+                return 0;
+            }
+            const curve = engine.torqueCurve;
+            const position = Math.max(0, (this._rpm / engine.maxRpm) * (curve.length - 1));
+            const index = Math.min(Math.floor(position), curve.length - 1);
+            const next = Math.min(index + 1, curve.length - 1);
+            const factor = curve.length ? curve[index] + (curve[next] - curve[index]) * (position - index) : 1;
+            return this.throttle * engine.maxTorque * factor;
+        }
+        return (-engine.engineBrakingTorque * (this._rpm - engine.idleRpm)) / Math.max(engine.maxRpm - engine.idleRpm, 1);
+    }
+
+    private _updateDrivetrain(deltaTime: number) {
+        const engine = this.engine;
+        const gearbox = this.gearbox;
+
+        for (const wheel of this.wheels) {
+            wheel.driveTorque = 0;
+        }
+
+        let totalShare = 0;
+        let drivenSpeed = 0;
+        let drivenCount = 0;
+        for (const axle of this.axles) {
+            if (axle.torqueShare > 0) {
+                totalShare += axle.torqueShare;
+                drivenSpeed += this.wheels[axle.leftWheel].angularVelocity + this.wheels[axle.rightWheel].angularVelocity;
+                drivenCount += 2;
+            }
+        }
+
+        this._shiftTimer = Math.max(0, this._shiftTimer - deltaTime);
+        const ratio = this._getGearRatio() * gearbox.finalDriveRatio;
+        const isCoupled = ratio !== 0 && this._shiftTimer === 0 && drivenCount > 0;
+
+        if (!isCoupled) {
+            // the engine revs freely
+            const torque = this._getEngineTorque();
+            this._rpm += ((torque / engine.inertia) * deltaTime) / RpmToRadPerSecond;
+            this._rpm = Math.max(engine.idleRpm, Math.min(this._rpm, engine.maxRpm));
+            return;
+        }
+
+        const wheelRpm = drivenSpeed / drivenCount / RpmToRadPerSecond;
+        this._rpm = Math.max(engine.idleRpm, Math.min(Math.abs(wheelRpm * ratio), engine.maxRpm));
+
+        if (gearbox.automatic && this._gear > 0) {
+            if (this._rpm > gearbox.shiftUpRpm && this._gear < gearbox.forwardRatios.length) {
+                this.shiftUp();
+                return;
+            } else if (this._rpm < gearbox.shiftDownRpm && this._gear > 1) {
+                this.shiftDown();
+                return;
+            }
+        }
+
+        const driveTorque = this._getEngineTorque() * ratio * gearbox.efficiency;
+
+        for (const axle of this.axles) {
+            if (axle.torqueShare <= 0) {
+                continue;
+            }
+
+            const left = this.wheels[axle.leftWheel];
+            const right = this.wheels[axle.rightWheel];
+            const axleTorque = (driveTorque * axle.torqueShare) / totalShare;
+            let transfer = 0;
+
+            if (axle.differential === PhysicsVehicleDifferentialType.LIMITED_SLIP) {
+                // transfer torque from the faster wheel to the slower one, bounded by the torque bias ratio
+                const inertia = (left.inertia + right.inertia) * 0.5;
+                const maxTransfer = (Math.abs(axleTorque) * 0.5 * (axle.limitedSlipRatio - 1)) / (axle.limitedSlipRatio + 1);
+                transfer = ((right.angularVelocity - left.angularVelocity) * inertia) / (2 * deltaTime);
+                transfer = Math.max(-maxTransfer, Math.min(transfer, maxTransfer));
+            }
+
+            left.driveTorque = axleTorque * 0.5 + transfer;
+            right.driveTorque = axleTorque * 0.5 - transfer;
+        }
+    }
+
+    private _applyWheelForces(wheel: PhysicsVehicleWheel, massPerWheel: number, deltaTime: number) {
+        const inertia = wheel.inertia;
+        let longitudinalForce = 0;
+
+        if (wheel.isGrounded) {
+            const normal = wheel.contactNormal;
+
+            // rolling and axle directions on the ground plane
+            const cos = Math.cos(wheel.steeringAngle);
+            const sin = Math.sin(wheel.steeringAngle);
+            const forward = TmpVectors.Vector3[3];
+            this._forward.scaleToRef(cos, forward).addInPlace(this._right.scaleToRef(sin, TmpVectors.Vector3[4]));
+            forward.subtractInPlace(normal.scaleToRef(forward.dot(normal), TmpVectors.Vector3[4])).normalize();
+            const side = Vector3.CrossToRef(normal, forward, TmpVectors.Vector3[5]);
+
+            // velocity of the contact point relative to the ground, which can be moving
+            const velocity = this._getPointVelocityToRef(this._com, this._linearVelocity, this._angularVelocity, wheel.contactPoint, TmpVectors.Vector3[6]);
+            const groundBody = wheel.contactBody;
+            if (groundBody && groundBody.getMotionType() !== PhysicsMotionType.STATIC) {
+                const groundCom = groundBody.getObjectCenterWorldToRef(TmpVectors.Vector3[7]);
+                const groundLinearVelocity = TmpVectors.Vector3[8];
+                const groundAngularVelocity = TmpVectors.Vector3[9];
+                groundBody.getLinearVelocityToRef(groundLinearVelocity);
+                groundBody.getAngularVelocityToRef(groundAngularVelocity);
+                velocity.subtractInPlace(this._getPointVelocityToRef(groundCom, groundLinearVelocity, groundAngularVelocity, wheel.contactPoint, TmpVectors.Vector3[10]));
+            }
+
+            const longitudinalVelocity = velocity.dot(forward);
+            const lateralVelocity = velocity.dot(side);
+            const slipVelocity = wheel.angularVelocity * wheel.radius - longitudinalVelocity;
+            const referenceSpeed = Math.max(Math.abs(longitudinalVelocity), LowSpeed);
+            wheel.longitudinalSlip = slipVelocity / referenceSpeed;
+            wheel.lateralSlip = Math.atan2(lateralVelocity, referenceSpeed);
+
+            const load = wheel.suspensionForce * wheel.frictionFactor;
+            longitudinalForce = load * EvaluateFrictionCurve(wheel.longitudinalFriction, wheel.longitudinalSlip);
+            let lateralForce = -load * EvaluateFrictionCurve(wheel.lateralFriction, wheel.lateralSlip);
+
+            // friction circle
+            const maxForce = load * Math.max(wheel.longitudinalFriction.extremumValue, wheel.lateralFriction.extremumValue);
+            const totalForce = Math.sqrt(longitudinalForce * longitudinalForce + lateralForce * lateralForce);
+            if (totalForce > maxForce && totalForce > 0) {
+                longitudinalForce *= maxForce / totalForce;
+                lateralForce *= maxForce / totalForce;
+            }
+
+            // never apply more than the force cancelling the slip in one step, which would make the tires oscillate
+            const maxLongitudinalForce = Math.abs(slipVelocity) / deltaTime / (1 / massPerWheel + (wheel.radius * wheel.radius) / inertia);
+            longitudinalForce = Math.max(-maxLongitudinalForce, Math.min(longitudinalForce, maxLongitudinalForce));
+            const maxLateralForce = (Math.abs(lateralVelocity) * massPerWheel) / deltaTime;
+            lateralForce = Math.max(-maxLateralForce, Math.min(lateralForce, maxLateralForce));
+
+            const impulse = TmpVectors.Vector3[11];
+            this._up.scaleToRef(wheel.suspensionForce, impulse);
+            impulse.addInPlace(forward.scaleInPlace(longitudinalForce));
+            impulse.addInPlace(side.scaleInPlace(lateralForce));
+            impulse.scaleInPlace(deltaTime);
+            this.body.applyImpulse(impulse, wheel.contactPoint);
+
+            if (groundBody && groundBody.getMotionType() === PhysicsMotionType.DYNAMIC) {
+                groundBody.applyImpulse(impulse.scaleInPlace(-1), wheel.contactPoint);
+            }
+        } else {
+            wheel.longitudinalSlip = 0;
+            wheel.lateralSlip = 0;
+        }
+
+        // wheel spin
+        wheel.angularVelocity += ((wheel.driveTorque - longitudinalForce * wheel.radius) / inertia) * deltaTime;
+
+        const brakeTorque = this.brake * wheel.maxBrakeTorque + this.handbrake * wheel.maxHandbrakeTorque;
+        const brakeDelta = (brakeTorque / inertia) * deltaTime;
+        if (Math.abs(wheel.angularVelocity) <= brakeDelta) {
+            wheel.angularVelocity = 0;
+        } else {
+            wheel.angularVelocity -= Math.sign(wheel.angularVelocity) * brakeDelta;
+        }
+    }
+
+    private _lockDifferentials() {
+        for (const axle of this.axles) {
+            if (axle.torqueShare <= 0 || axle.differential !== PhysicsVehicleDifferentialType.LOCKED) {
+                continue;
+            }
+
+            const left = this.wheels[axle.leftWheel];
+            const right = this.wheels[axle.rightWheel];
+            const speed = (left.angularVelocity * left.inertia + right.angularVelocity * right.inertia) / (left.inertia + right.inertia);
+            left.angularVelocity = speed;
+            right.angularVelocity = speed;
+        }
+    }
+
+    private _getPointVelocityToRef(com: Vector3, linearVelocity: Vector3, angularVelocity: Vector3, point: Vector3, result: Vector3): Vector3 {
+        const relativePosition = point.subtractToRef(com, TmpVectors.Vector3[12]);
+        Vector3.CrossToRef(angularVelocity, relativePosition, result);
+        return result.addInPlace(linearVelocity);
+    }
+
+    private _syncWheelTransform(wheel: PhysicsVehicleWheel) {
+        const node = wheel.transformNode;
+        if (!node) {
+            return;
+        }
+
+        node.position.copyFromFloats(wheel.position.x, wheel.position.y - wheel.suspensionLength, wheel.position.z);
+        node.rotationQuaternion ??= new Quaternion();
+        Quaternion.RotationYawPitchRollToRef(wheel.steeringAngle, wheel.rotation, 0, node.rotationQuaternion);
+    }
+}
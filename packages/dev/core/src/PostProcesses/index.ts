@@ -41,6 +41,7 @@ export * from "./thinChromaticAberrationPostProcess";
 export * from "./thinCircleOfConfusionPostProcess";
 export * from "./thinColorCorrectionPostProcess";
 export * from "./thinConvolutionPostProcess";
+export * from "./thinDeferredLightingPostProcess";
 export * from "./thinDepthOfFieldEffect";
 export * from "./thinExtractHighlightsPostProcess";
 export * from "./thinFilterPostProcess";
@@ -0,0 +1,127 @@
+import type { Nullable, AbstractEngine, EffectWrapperCreationOptions, Camera, ClusteredLightContainer } from "core/index";
+import { EffectWrapper } from "../Materials/effectRenderer";
+import { Engine } from "../Engines/engine";
+import { Color3 } from "../Maths/math.color";
+
+/**
+ * Post process used to light the pixels of a G-buffer with the lights of a clustered light container (deferred shading)
+ */
+export class ThinDeferredLightingPostProcess extends EffectWrapper {
+    /**
+     * The fragment shader url
+     */
+    public static readonly FragmentUrl = "deferredLighting";
+
+    /**
+     * The list of uniforms used by the effect
+     */
+    public static readonly Uniforms = ["vEyePosition", "view", "ambientColor", "tileCount", "specularPower"];
+
+    /**
+     * The list of samplers used by the effect
+     */
+    public static readonly Samplers = ["albedoSampler", "normalSampler", "positionSampler", "reflectivitySampler", "lightDataTexture0", "tileMaskTexture0"];
+
+    /**
+     * The list of uniform buffers used by the effect
+     */
+    public static readonly UniformBuffers = ["Light0"];
+
+    protected override _gatherImports(useWebGPU: boolean, list: Promise<any>[]) {
+        if (useWebGPU) {
+            this._webGPUReady = true;
+            list.push(import("../ShadersWGSL/deferredLighting.fragment"));
+        } else {
+            list.push(import("../Shaders/deferredLighting.fragment"));
+        }
+    }
+
+    /**
+     * Constructs a new deferred lighting post process
+     * @param name Name of the effect
+     * @param engine Engine to use to render the effect. If not provided, the last created engine will be used
+     * @param options Options to configure the effect
+     */
+    constructor(name: string, engine: Nullable<AbstractEngine> = null, options?: EffectWrapperCreationOptions) {
+        super({
+            ...options,
+            name,
+            engine: engine || Engine.LastCreatedEngine!,
+            useShaderStore: true,
+            useAsPostProcess: true,
+            fragmentShader: ThinDeferredLightingPostProcess.FragmentUrl,
+            uniforms: ThinDeferredLightingPostProcess.Uniforms,
+            samplers: ThinDeferredLightingPostProcess.Samplers,
+            uniformBuffers: ThinDeferredLightingPostProcess.UniformBuffers,
+            // The effect can't be compiled before a light container is set
+            blockCompilation: true,
+        });
+    }
+
+    /**
+     * The camera used to render the G-buffer
+     */
+    public camera: Nullable<Camera> = null;
+
+    /**
+     * The ambient color added to the lighting (multiplied by the albedo)
+     */
+    public ambientColor = new Color3(0, 0, 0);
+
+    /**
+     * The specular power used for a glossiness of 1 (the glossiness is read from the alpha channel of the reflectivity texture)
+     */
+    public specularPower = 64;
+
+    private _lightContainer: Nullable<ClusteredLightContainer> = null;
+
+    /**
+     * The clustered light container providing the lights.
+     * Note that the effect is recompiled when the light container is changed: if the number of depth slices of the container is changed, the light container must be set again.
+     */
+    public get lightContainer() {
+        return this._lightContainer;
+    }
+
+    public set lightContainer(container: Nullable<ClusteredLightContainer>) {
+        this._lightContainer = container;
+        this.updateEffect();
+    }
+
+    public override updateEffect() {
+        if (!this._lightContainer) {
+            return;
+        }
+
+        const lightDefines: { [name: string]: any } = {};
+        const defines = ["#define LIGHT0"];
+
+        this._lightContainer.prepareLightSpecificDefines(lightDefines, 0);
+
+        for (const name in lightDefines) {
+            defines.push(lightDefines[name] === true ? `#define ${name}` : `#define ${name} ${lightDefines[name]}`);
+        }
+
+        super.updateEffect(defines.join("\n"));
+    }
+
+    public override bind(noDefaultBindings = false) {
+        super.bind(noDefaultBindings);
+
+        const effect = this._drawWrapper.effect!;
+        const container = this._lightContainer;
+        const camera = this.camera;
+
+        if (!container || !camera) {
+            return;
+        }
+
+        effect.setVector3("vEyePosition", camera.globalPosition);
+        effect.setMatrix("view", camera.getViewMatrix());
+        effect.setColor3("ambientColor", this.ambientColor);
+        effect.setFloat2("tileCount", container.horizontalTiles, container.verticalTiles);
+        effect.setFloat("specularPower", this.specularPower);
+
+        container._bindLight(0, container.getScene(), effect, true, false);
+    }
+}
@@ -0,0 +1,106 @@
+precision highp float;
+
+// Samplers
+varying vec2 vUV;
+uniform sampler2D textureSampler;
+uniform sampler2D albedoSampler;
+uniform sampler2D normalSampler;
+uniform sampler2D positionSampler;
+uniform sampler2D reflectivitySampler;
+
+uniform vec3 vEyePosition;
+uniform mat4 view;
+uniform vec3 ambientColor;
+uniform vec2 tileCount;
+uniform float specularPower;
+
+#include<helperFunctions>
+#include<lightUboDeclaration>[0]
+#include<clusteredLightingFunctions>
+
+struct deferredLightingInfo {
+    vec3 diffuse;
+    vec3 specular;
+};
+
+void addClusteredLight(ClusteredLight light, vec3 positionW, vec3 normalW, vec3 viewDirectionW, float glossiness, inout deferredLightingInfo result) {
+    vec3 direction = light.vLightData.xyz - positionW;
+    vec3 lightVectorW = normalize(direction);
+    float attenuation = max(0., 1.0 - length(direction) / light.vLightDiffuse.a);
+
+    // Assume an angle greater than 180º is a point light
+    if (light.vLightDirection.w >= 0.) {
+        float cosAngle = max(0., dot(light.vLightDirection.xyz, -lightVectorW));
+        if (cosAngle < light.vLightDirection.w) {
+            return;
+        }
+        attenuation *= max(0., pow(cosAngle, light.vLightData.w));
+    }
+
+    float ndl = max(0., dot(normalW, lightVectorW));
+    result.diffuse += ndl * light.vLightDiffuse.rgb * attenuation;
+
+    vec3 angleW = normalize(viewDirectionW + lightVectorW);
+    float specComp = pow(max(0., dot(normalW, angleW)), max(1., glossiness));
+    result.specular += specComp * light.vLightSpecular.rgb * attenuation;
+}
+
+#define CUSTOM_FRAGMENT_DEFINITIONS
+
+void main(void) {
+    vec4 color = texture2D(textureSampler, vUV);
+
+    ivec2 texel = ivec2(vUV * vec2(textureSize(positionSampler, 0)));
+    vec4 positionW = texelFetch(positionSampler, texel, 0);
+
+    // Pixels not covered by the geometry keep the source color
+    if (positionW.a == 0.) {
+        gl_FragColor = color;
+        return;
+    }
+
+    vec3 albedo = texelFetch(albedoSampler, texel, 0).rgb;
+    vec3 normalW = normalize(texelFetch(normalSampler, texel, 0).xyz);
+    vec4 reflectivity = texelFetch(reflectivitySampler, texel, 0);
+    vec3 viewDirectionW = normalize(vEyePosition - positionW.xyz);
+    float glossiness = reflectivity.a * specularPower;
+
+    deferredLightingInfo result;
+    result.diffuse = vec3(0.);
+    result.specular = vec3(0.);
+
+#if CLUSTLIGHT_BATCH > 0
+    float viewDepth = (view * vec4(positionW.xyz, 1.0)).z;
+    int sliceIndex = getClusteredSliceIndex(light0.vSliceData, viewDepth);
+
+    if (sliceIndex >= 0) {
+        ivec2 sliceRange = ivec2(light0.vSliceRanges[min(sliceIndex, CLUSTLIGHT_SLICES - 1)]);
+        ivec2 tilePosition = min(ivec2(vUV * tileCount), ivec2(tileCount) - 1);
+        int maskHeight = int(light0.vLightData.z);
+
+        ivec2 batchRange = sliceRange / CLUSTLIGHT_BATCH;
+        int batchOffset = batchRange.x * CLUSTLIGHT_BATCH;
+        tilePosition.y += maskHeight * batchRange.x;
+
+        for (int i = batchRange.x; i <= batchRange.y; i += 1) {
+            uint mask = uint(texelFetch(tileMaskTexture0, tilePosition, 0).r);
+            tilePosition.y += maskHeight;
+            // Mask out the bits outside the range
+            int maskOffset = max(sliceRange.x - batchOffset, 0);
+            int maskWidth = min(sliceRange.y - batchOffset + 1, CLUSTLIGHT_BATCH);
+            mask = extractBits(mask, maskOffset, maskWidth);
+
+            while (mask != 0u) {
+                // This gets the lowest set bit
+                uint bit = mask & -mask;
+                mask ^= bit;
+                int position = onlyBitPosition(bit);
+                addClusteredLight(getClusteredLight(lightDataTexture0, batchOffset + maskOffset + position), positionW.xyz, normalW, viewDirectionW, glossiness, result);
+            }
+            batchOffset += CLUSTLIGHT_BATCH;
+        }
+    }
+#endif
+
+    gl_FragColor = vec4(color.rgb + albedo * (ambientColor + result.diffuse) + reflectivity.rgb * result.specular, color.a);
+}
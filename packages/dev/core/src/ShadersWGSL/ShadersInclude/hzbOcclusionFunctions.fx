@@ -0,0 +1,75 @@
+// Requires a storage buffer named "pyramid" (array<f32>) storing all the levels of the depth pyramid, one after the other
+
+// Returns the size (xy) and the offset in the pyramid buffer (z) of a level of the pyramid
+fn getHZBLevelInfo(pyramidSize: vec2f, level: u32) -> vec3u {
+    var size = vec2u(pyramidSize);
+    var offset = 0u;
+    for (var i = 0u; i < level; i++) {
+        offset += size.x * size.y;
+        size = max((size + 1u) / 2u, vec2u(1u));
+    }
+    return vec3u(size, offset);
+}
+
+fn getHZBFarthestDepth(a: f32, b: f32) -> f32 {
+#ifdef REVERSE_DEPTH
+    return min(a, b);
+#else
+    return max(a, b);
+#endif
+}
+
+// Returns true if the box (in world space) is hidden by the depth pyramid.
+// Boxes crossing the camera plane or outside of the screen are never reported as occluded
+fn isBoxOccludedByHZB(minimum: vec3f, maximum: vec3f, viewProjection: mat4x4f, depthSize: vec2f, pyramidSize: vec2f, numLevels: f32) -> bool {
+    var ndcMin = vec3f(1e30);
+    var ndcMax = vec3f(-1e30);
+
+    for (var i = 0u; i < 8u; i++) {
+        let corner = select(minimum, maximum, vec3<bool>((i & 1u) != 0u, (i & 2u) != 0u, (i & 4u) != 0u));
+        let clipPosition = viewProjection * vec4f(corner, 1.0);
+
+        // The box crosses the camera plane: it can't be tested against the pyramid
+        if (clipPosition.w <= 0.0) {
+            return false;
+        }
+
+        let ndc = clipPosition.xyz / clipPosition.w;
+
+        ndcMin = min(ndcMin, ndc);
+        ndcMax = max(ndcMax, ndc);
+    }
+
+    if (any(ndcMax.xy < vec2f(-1.0)) || any(ndcMin.xy > vec2f(1.0))) {
+        return false;
+    }
+
+    let uvMin = clamp(vec2f(ndcMin.x, -ndcMax.y) * 0.5 + 0.5, vec2f(0.0), vec2f(1.0));
+    let uvMax = clamp(vec2f(ndcMax.x, -ndcMin.y) * 0.5 + 0.5, vec2f(0.0), vec2f(1.0));
+
+    // A texel of the first level of the pyramid covers 2x2 texels of the depth texture
+    let rectMin = uvMin * depthSize * 0.5;
+    let rectMax = uvMax * depthSize * 0.5;
+    let rectSize = max(rectMax - rectMin, vec2f(1.0));
+
+    // Selects the level where the rectangle covers at most 2x2 texels
+    let level = u32(clamp(ceil(log2(max(rectSize.x, rectSize.y))), 0.0, numLevels - 1.0));
+    let info = getHZBLevelInfo(pyramidSize, level);
+    let scale = 1.0 / f32(1u << level);
+
+    let texelMin = min(vec2u(rectMin * scale), info.xy - 1u);
+    let texelMax = min(vec2u(rectMax * scale), info.xy - 1u);
+
+    var farthestDepth = pyramid[info.z + texelMin.y * info.x + texelMin.x];
+    for (var y = texelMin.y; y <= texelMax.y; y++) {
+        for (var x = texelMin.x; x <= texelMax.x; x++) {
+            farthestDepth = getHZBFarthestDepth(farthestDepth, pyramid[info.z + y * info.x + x]);
+        }
+    }
+
+#ifdef REVERSE_DEPTH
+    return ndcMax.z < farthestDepth;
+#else
+    return ndcMin.z > farthestDepth;
+#endif
+}
@@ -0,0 +1,105 @@
+// Samplers
+varying vUV: vec2f;
+var textureSamplerSampler: sampler;
+var textureSampler: texture_2d<f32>;
+var albedoSampler: texture_2d<f32>;
+var normalSampler: texture_2d<f32>;
+var positionSampler: texture_2d<f32>;
+var reflectivitySampler: texture_2d<f32>;
+
+uniform vEyePosition: vec3f;
+uniform view: mat4x4f;
+uniform ambientColor: vec3f;
+uniform tileCount: vec2f;
+uniform specularPower: f32;
+
+#include<lightUboDeclaration>[0]
+#include<clusteredLightingFunctions>
+
+struct deferredLightingInfo {
+    diffuse: vec3f,
+    specular: vec3f,
+}
+
+fn addClusteredLight(light: ClusteredLight, positionW: vec3f, normalW: vec3f, viewDirectionW: vec3f, glossiness: f32, result: ptr<function, deferredLightingInfo>) {
+    let direction = light.vLightData.xyz - positionW;
+    let lightVectorW = normalize(direction);
+    var attenuation = max(0., 1.0 - length(direction) / light.vLightDiffuse.a);
+
+    // Assume an angle greater than 180º is a point light
+    if (light.vLightDirection.w >= 0.) {
+        let cosAngle = max(0., dot(light.vLightDirection.xyz, -lightVectorW));
+        if (cosAngle < light.vLightDirection.w) {
+            return;
+        }
+        attenuation *= max(0., pow(cosAngle, light.vLightData.w));
+    }
+
+    let ndl = max(0., dot(normalW, lightVectorW));
+    (*result).diffuse += ndl * light.vLightDiffuse.rgb * attenuation;
+
+    let angleW = normalize(viewDirectionW + lightVectorW);
+    let specComp = pow(max(0., dot(normalW, angleW)), max(1., glossiness));
+    (*result).specular += specComp * light.vLightSpecular.rgb * attenuation;
+}
+
+#define CUSTOM_FRAGMENT_DEFINITIONS
+
+@fragment
+fn main(input: FragmentInputs) -> FragmentOutputs
+{
+    let color = textureSample(textureSampler, textureSamplerSampler, fragmentInputs.vUV);
+
+    let texel = vec2i(fragmentInputs.vUV * vec2f(textureDimensions(positionSampler, 0)));
+    let positionW = textureLoad(positionSampler, texel, 0);
+
+    // Pixels not covered by the geometry keep the source color
+    if (positionW.a == 0.) {
+        fragmentOutputs.color = color;
+        return fragmentOutputs;
+    }
+
+    let albedo = textureLoad(albedoSampler, texel, 0).rgb;
+    let normalW = normalize(textureLoad(normalSampler, texel, 0).xyz);
+    let reflectivity = textureLoad(reflectivitySampler, texel, 0);
+    let viewDirectionW = normalize(uniforms.vEyePosition - positionW.xyz);
+    let glossiness = reflectivity.a * uniforms.specularPower;
+
+    var result: deferredLightingInfo;
+    result.diffuse = vec3f(0.);
+    result.specular = vec3f(0.);
+
+#if CLUSTLIGHT_BATCH > 0
+    let viewDepth = (uniforms.view * vec4f(positionW.xyz, 1.0)).z;
+    let sliceIndex = getClusteredSliceIndex(light0.vSliceData, viewDepth);
+
+    if (sliceIndex >= 0) {
+        let sliceRange = vec2u(light0.vSliceRanges[min(sliceIndex, CLUSTLIGHT_SLICES - 1)].xy);
+        let tilePosition = min(vec2u(fragmentInputs.vUV * uniforms.tileCount), vec2u(uniforms.tileCount) - 1);
+        let maskResolution = vec2u(light0.vLightData.zw);
+        var tileIndex = (tilePosition.x * maskResolution.x + tilePosition.y) * maskResolution.y;
+
+        let batchRange = sliceRange / CLUSTLIGHT_BATCH;
+        var batchOffset = batchRange.x * CLUSTLIGHT_BATCH;
+        tileIndex += batchRange.x;
+
+        for (var i = batchRange.x; i <= batchRange.y; i += 1) {
+            var mask = tileMaskBuffer0[tileIndex];
+            tileIndex += 1;
+            // Mask out the bits outside the range
+            let maskOffset = max(sliceRange.x, batchOffset) - batchOffset; // Be careful with unsigned values
+            let maskWidth = min(sliceRange.y - batchOffset + 1, CLUSTLIGHT_BATCH);
+            mask = extractBits(mask, maskOffset, maskWidth);
+
+            while mask != 0 {
+                let trailing = firstTrailingBit(mask);
+                mask ^= 1u << trailing;
+                addClusteredLight(getClusteredLight(lightDataTexture0, batchOffset + maskOffset + trailing), positionW.xyz, normalW, viewDirectionW, glossiness, &result);
+            }
+            batchOffset += CLUSTLIGHT_BATCH;
+        }
+    }
+#endif
+
+    fragmentOutputs.color = vec4f(color.rgb + albedo * (uniforms.ambientColor + result.diffuse) + reflectivity.rgb * result.specular, color.a);
+}
@@ -0,0 +1,97 @@
+struct Params {
+    viewProjection: mat4x4f,
+    depthSize: vec2f,
+    pyramidSize: vec2f,
+    numLevels: f32,
+    numBoxes: f32,
+};
+
+struct LevelParams {
+    level: f32,
+};
+
+struct Box {
+    minimum: vec4f,
+    maximum: vec4f,
+};
+
+#ifdef DEPTH_TEXTURE
+@group(0) @binding(0) var depthTexture: texture_depth_2d;
+#else
+@group(0) @binding(0) var depthTexture: texture_2d<f32>;
+#endif
+@group(0) @binding(1) var<uniform> params: Params;
+@group(0) @binding(2) var<uniform> levelParams: LevelParams;
+@group(0) @binding(3) var<storage, read_write> pyramid: array<f32>;
+@group(0) @binding(4) var<storage, read> boxes: array<Box>;
+@group(0) @binding(5) var<storage, read_write> visibility: array<u32>;
+
+#include<hzbOcclusionFunctions>
+
+fn loadDepth(coord: vec2u) -> f32 {
+#ifdef DEPTH_TEXTURE
+    return textureLoad(depthTexture, coord, 0);
+#else
+    return textureLoad(depthTexture, coord, 0).r;
+#endif
+}
+
+@compute @workgroup_size(8, 8, 1)
+fn buildFirstLevel(@builtin(global_invocation_id) global_id: vec3u) {
+    let size = vec2u(params.pyramidSize);
+    if (any(global_id.xy >= size)) {
+        return;
+    }
+
+    // Texels outside of the depth texture are clamped, so that odd sizes are correctly handled
+    let maxCoord = vec2u(params.depthSize) - 1u;
+    let coord = global_id.xy * 2u;
+
+    let depth0 = loadDepth(min(coord, maxCoord));
+    let depth1 = loadDepth(min(coord + vec2u(1u, 0u), maxCoord));
+    let depth2 = loadDepth(min(coord + vec2u(0u, 1u), maxCoord));
+    let depth3 = loadDepth(min(coord + vec2u(1u, 1u), maxCoord));
+
+    pyramid[global_id.y * size.x + global_id.x] = getHZBFarthestDepth(getHZBFarthestDepth(depth0, depth1), getHZBFarthestDepth(depth2, depth3));
+}
+
+@compute @workgroup_size(8, 8, 1)
+fn buildLevel(@builtin(global_invocation_id) global_id: vec3u) {
+    let level = u32(levelParams.level);
+    let src = getHZBLevelInfo(params.pyramidSize, level - 1u);
+    let dst = getHZBLevelInfo(params.pyramidSize, level);
+
+    if (any(global_id.xy >= dst.xy)) {
+        return;
+    }
+
+    let maxCoord = src.xy - 1u;
+    let coord = global_id.xy * 2u;
+
+    let coord0 = min(coord, maxCoord);
+    let coord1 = min(coord + vec2u(1u, 0u), maxCoord);
+    let coord2 = min(coord + vec2u(0u, 1u), maxCoord);
+    let coord3 = min(coord + vec2u(1u, 1u), maxCoord);
+
+    let depth0 = pyramid[src.z + coord0.y * src.x + coord0.x];
+    let depth1 = pyramid[src.z + coord1.y * src.x + coord1.x];
+    let depth2 = pyramid[src.z + coord2.y * src.x + coord2.x];
+    let depth3 = pyramid[src.z + coord3.y * src.x + coord3.x];
+
+    pyramid[dst.z + global_id.y * dst.x + global_id.x] = getHZBFarthestDepth(getHZBFarthestDepth(depth0, depth1), getHZBFarthestDepth(depth2, depth3));
+}
+
+@compute @workgroup_size(64, 1, 1)
+fn testBoxes(@builtin(global_invocation_id) global_id: vec3u) {
+    let index = global_id.x;
+    if (index >= u32(params.numBoxes)) {
+        return;
+    }
+
+    let box = boxes[index];
+
+    // Boxes outside of the screen are not culled: frustum culling is done on the CPU side, with the camera of the current frame
+    let occluded = isBoxOccludedByHZB(box.minimum.xyz, box.maximum.xyz, params.viewProjection, params.depthSize, params.pyramidSize, params.numLevels);
+
+    visibility[index] = select(1u, 0u, occluded);
+}
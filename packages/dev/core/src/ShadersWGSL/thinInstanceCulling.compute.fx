@@ -0,0 +1,54 @@
+struct Params {
+    world: mat4x4f,
+    frustumPlanes: array<vec4f, 6>,
+    boxCenter: vec3f,
+    numInstances: f32,
+    boxExtents: vec3f,
+    hzbViewProjection: mat4x4f,
+    hzbDepthSize: vec2f,
+    hzbPyramidSize: vec2f,
+    hzbNumLevels: f32,
+};
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> sourceMatrices: array<mat4x4f>;
+@group(0) @binding(2) var<storage, read_write> visibleMatrices: array<mat4x4f>;
+@group(0) @binding(3) var<storage, read_write> visibleCount: atomic<u32>;
+
+#ifdef HZB
+@group(0) @binding(4) var<storage, read> pyramid: array<f32>;
+
+#include<hzbOcclusionFunctions>
+#endif
+
+@compute @workgroup_size(64, 1, 1)
+fn main(@builtin(global_invocation_id) global_id: vec3u) {
+    let index = global_id.x;
+    if (index >= u32(params.numInstances)) {
+        return;
+    }
+
+    let instanceMatrix = sourceMatrices[index];
+    let world = params.world * instanceMatrix;
+
+    // Transforms the center and the extents of the box (the resulting box encloses the transformed box)
+    let center = (world * vec4f(params.boxCenter, 1.0)).xyz;
+    let extents = abs(world[0].xyz) * params.boxExtents.x + abs(world[1].xyz) * params.boxExtents.y + abs(world[2].xyz) * params.boxExtents.z;
+
+    for (var i = 0u; i < 6u; i++) {
+        let plane = params.frustumPlanes[i];
+        if (dot(plane.xyz, center) + plane.w < -dot(abs(plane.xyz), extents)) {
+            return;
+        }
+    }
+
+#ifdef HZB
+    if (isBoxOccludedByHZB(center - extents, center + extents, params.hzbViewProjection, params.hzbDepthSize, params.hzbPyramidSize, params.hzbNumLevels)) {
+        return;
+    }
+#endif
+
+    // Compacts the matrices of the visible instances at the beginning of the buffer
+    let visibleIndex = atomicAdd(&visibleCount, 1u);
+    visibleMatrices[visibleIndex] = instanceMatrix;
+}
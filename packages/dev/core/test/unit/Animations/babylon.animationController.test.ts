@@ -0,0 +1,197 @@
+import {
+    Animation,
+    AnimationBlendTree1D,
+    AnimationBlendTree2D,
+    AnimationController,
+    AnimationControllerConditionMode,
+    AnimationControllerParameterType,
+    AnimationGroup,
+    AnimationGroupMask,
+} from "core/Animations";
+import type { AnimationControllerState } from "core/Animations";
+import type { Engine } from "core/Engines";
+import { NullEngine } from "core/Engines";
+import { Vector2, Vector3 } from "core/Maths";
+import { TransformNode } from "core/Meshes";
+import { Scene } from "core/scene";
+
+describe("AnimationController", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let node: TransformNode;
+
+    function CreateAnimationGroup(name: string, frames: number): AnimationGroup {
+        const animationGroup = new AnimationGroup(name, scene);
+        const animation = new Animation(name, "position", 60, Animation.ANIMATIONTYPE_VECTOR3);
+        animation.setKeys([
+            { frame: 0, value: Vector3.Zero() },
+            { frame: frames, value: new Vector3(1, 0, 0) },
+        ]);
+        animationGroup.addTargetedAnimation(animation, node);
+        return animationGroup;
+    }
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+        scene = new Scene(engine);
+        node = new TransformNode("node", scene);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("computes 1D blend tree weights", () => {
+        const blendTree = new AnimationBlendTree1D("speed");
+        blendTree.addChild(CreateAnimationGroup("idle", 60), 0);
+        blendTree.addChild(CreateAnimationGroup("walk", 60), 1);
+        blendTree.addChild(CreateAnimationGroup("run", 30), 3);
+
+        const weights: number[] = [];
+        blendTree.computeWeightsToRef(() => 2, weights);
+        expect(weights).toEqual([0, 0.5, 0.5]);
+
+        blendTree.computeWeightsToRef(() => -1, weights);
+        expect(weights).toEqual([1, 0, 0]);
+
+        blendTree.computeWeightsToRef(() => 10, weights);
+        expect(weights).toEqual([0, 0, 1]);
+    });
+
+    it("computes 2D blend tree weights", () => {
+        const blendTree = new AnimationBlendTree2D("x", "y");
+        blendTree.addChild(CreateAnimationGroup("idle", 60), new Vector2(0, 0));
+        blendTree.addChild(CreateAnimationGroup("forward", 60), new Vector2(0, 1));
+        blendTree.addChild(CreateAnimationGroup("left", 60), new Vector2(-1, 0));
+        blendTree.addChild(CreateAnimationGroup("right", 60), new Vector2(1, 0));
+
+        const weights: number[] = [];
+        blendTree.computeWeightsToRef((name) => (name === "x" ? 0 : 1), weights);
+        expect(weights[1]).toBeCloseTo(1);
+        expect(weights[0] + weights[2] + weights[3]).toBeCloseTo(0);
+
+        blendTree.computeWeightsToRef((name) => (name === "x" ? 0.5 : 0), weights);
+        expect(weights[0]).toBeCloseTo(0.5);
+        expect(weights[3]).toBeCloseTo(0.5);
+        expect(weights.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1);
+    });
+
+    it("cross-fades between states according to the parameters", () => {
+        const idle = CreateAnimationGroup("idle", 60);
+        const walk = CreateAnimationGroup("walk", 60);
+        const jump = CreateAnimationGroup("jump", 30);
+
+        const controller = new AnimationController("controller", scene);
+        controller.addParameter("speed", AnimationControllerParameterType.Float);
+        controller.addParameter("jump", AnimationControllerParameterType.Trigger);
+
+        const layer = controller.addLayer("base");
+        const idleState = layer.addState("idle", idle);
+        const walkState = layer.addState("walk", walk);
+        const jumpState = layer.addState("jump", jump);
+        jumpState.loop = false;
+
+        idleState.addTransition(walkState, { duration: 0.5 }).addCondition("speed", AnimationControllerConditionMode.Greater, 0.1);
+        walkState.addTransition(idleState, { duration: 0.5 }).addCondition("speed", AnimationControllerConditionMode.Less, 0.1);
+        layer.addAnyStateTransition(jumpState, { duration: 0, conditions: [{ parameter: "jump", mode: AnimationControllerConditionMode.If }] });
+        jumpState.addTransition(idleState, { duration: 0.2, hasExitTime: true, exitTime: 1 });
+
+        const entered: string[] = [];
+        const exited: string[] = [];
+        controller.onStateEnteredObservable.add((state: AnimationControllerState) => entered.push(state.name));
+        controller.onStateExitedObservable.add((state: AnimationControllerState) => exited.push(state.name));
+
+        controller.update(0);
+        expect(layer.currentState).toBe(idleState);
+        expect(idle.isStarted).toBe(true);
+        expect(idle.weight).toBe(1);
+
+        controller.setFloat("speed", 1);
+        controller.update(0.25);
+        expect(layer.currentState).toBe(walkState);
+        expect(layer.activeTransition).not.toBeNull();
+        expect(idle.weight).toBeCloseTo(0.5);
+        expect(walk.weight).toBeCloseTo(0.5);
+
+        controller.update(0.25);
+        expect(layer.activeTransition).toBeNull();
+        expect(idle.isStarted).toBe(false);
+        expect(walk.weight).toBe(1);
+
+        controller.setTrigger("jump");
+        controller.update(0.1);
+        expect(layer.currentState).toBe(jumpState);
+        expect(controller.getBool("jump")).toBe(false);
+        expect(walk.isStarted).toBe(false);
+
+        // The jump lasts 0.5s, then goes back to idle
+        controller.update(0.3);
+        expect(layer.currentState).toBe(jumpState);
+        controller.update(0.3);
+        controller.update(0.3);
+        expect(layer.currentState).toBe(idleState);
+
+        expect(entered).toEqual(["idle", "walk", "jump", "idle"]);
+        expect(exited).toEqual(["idle", "walk", "jump"]);
+
+        controller.dispose();
+    });
+
+    it("applies the mask of the layer to the animation groups, and removes it in a layer without mask", () => {
+        const wave = CreateAnimationGroup("wave", 60);
+        const mask = new AnimationGroupMask(["node"]);
+
+        const controller = new AnimationController("controller", scene);
+        const upperBodyLayer = controller.addLayer("upperBody", { mask });
+        upperBodyLayer.addState("wave", wave);
+
+        controller.update(0);
+        expect(wave.mask).toBe(mask);
+
+        controller.dispose();
+
+        const otherController = new AnimationController("otherController", scene);
+        otherController.addLayer("base").addState("wave", wave);
+
+        otherController.update(0);
+        expect(wave.mask).toBeNull();
+
+        otherController.dispose();
+    });
+
+    it("serializes and parses a controller", () => {
+        CreateAnimationGroup("idle", 60);
+        CreateAnimationGroup("walk", 60);
+        CreateAnimationGroup("run", 30);
+
+        const controller = new AnimationController("controller", scene);
+        controller.addParameter("speed", AnimationControllerParameterType.Float, 0.5);
+        controller.addParameter("grounded", AnimationControllerParameterType.Bool, true);
+        const layer = controller.addLayer("base");
+        const blendTree = new AnimationBlendTree1D("speed");
+        blendTree.addChild(scene.getAnimationGroupByName("walk")!, 1);
+        blendTree.addChild(scene.getAnimationGroupByName("run")!, 3);
+        const idleState = layer.addState("idle", scene.getAnimationGroupByName("idle"));
+        const locomotionState = layer.addState("locomotion", blendTree);
+        idleState.addTransition(locomotionState).addCondition("speed", AnimationControllerConditionMode.Greater, 0.1);
+
+        const serialized = controller.serialize();
+        const parsed = AnimationController.Parse(JSON.parse(JSON.stringify(serialized)), scene);
+
+        expect(parsed.serialize()).toEqual(serialized);
+        expect(parsed.getFloat("speed")).toBe(0.5);
+        expect(parsed.getBool("grounded")).toBe(true);
+
+        const parsedLayer = parsed.getLayerByName("base")!;
+        expect(parsedLayer.defaultState!.name).toBe("idle");
+        expect(parsedLayer.getStateByName("locomotion")!.motion).toBeInstanceOf(AnimationBlendTree1D);
+        expect(parsedLayer.getStateByName("idle")!.transitions[0].destination.name).toBe("locomotion");
+    });
+});
@@ -0,0 +1,135 @@
+import { Animation, AnimationGroup, AnimationRetargeter, DetectHumanoidBoneMap, GetHumanoidBoneRoleFromName } from "core/Animations";
+import { Bone, Skeleton } from "core/Bones";
+import type { Engine } from "core/Engines";
+import { NullEngine } from "core/Engines";
+import { Matrix, Quaternion, Vector3 } from "core/Maths";
+import { Scene } from "core/scene";
+
+/**
+ * Creates a minimal humanoid skeleton: hips, spine, left arm (upper arm, lower arm, hand)
+ * @param scene the scene
+ * @param names the names of the bones, in the order above
+ * @param hipsHeight the height of the hips
+ * @param armLength the length of the arm segments
+ * @param armAngle the angle of the arm with the horizontal axis (0 = T-pose)
+ * @returns the skeleton
+ */
+function CreateSkeleton(scene: Scene, names: string[], hipsHeight: number, armLength: number, armAngle: number): Skeleton {
+    const skeleton = new Skeleton("skeleton", "skeleton", scene);
+    const hips = new Bone(names[0], skeleton, null, Matrix.Translation(0, hipsHeight, 0));
+    const spine = new Bone(names[1], skeleton, hips, Matrix.Translation(0, hipsHeight * 0.5, 0));
+    const armRotation = Matrix.RotationZ(-armAngle);
+    const upperArm = new Bone(names[2], skeleton, spine, armRotation.multiply(Matrix.Translation(0.2, 0, 0)));
+    const lowerArm = new Bone(names[3], skeleton, upperArm, Matrix.Translation(armLength, 0, 0));
+    new Bone(names[4], skeleton, lowerArm, Matrix.Translation(armLength, 0, 0));
+    skeleton.computeAbsoluteMatrices(true);
+    return skeleton;
+}
+
+function ApplyAnimationGroup(animationGroup: AnimationGroup, frame: number) {
+    for (const targetedAnimation of animationGroup.targetedAnimations) {
+        targetedAnimation.target[targetedAnimation.animation.targetProperty] = targetedAnimation.animation.evaluate(frame);
+    }
+}
+
+function GetDirection(skeleton: Skeleton, from: number, to: number): Vector3 {
+    skeleton.computeAbsoluteMatrices(true);
+    return skeleton.bones[to].getAbsolutePosition().subtract(skeleton.bones[from].getAbsolutePosition()).normalize();
+}
+
+describe("AnimationRetargeter", () => {
+    let engine: Engine;
+    let scene: Scene;
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+        scene = new Scene(engine);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("detects the role of bones from common naming conventions", () => {
+        expect(GetHumanoidBoneRoleFromName("mixamorig:Hips")).toBe("hips");
+        expect(GetHumanoidBoneRoleFromName("mixamorig:LeftForeArm")).toBe("leftLowerArm");
+        expect(GetHumanoidBoneRoleFromName("mixamorig:RightUpLeg")).toBe("rightUpperLeg");
+        expect(GetHumanoidBoneRoleFromName("mixamorig:LeftHandIndex2")).toBe("leftIndexIntermediate");
+        expect(GetHumanoidBoneRoleFromName("J_Bip_C_UpperChest")).toBe("upperChest");
+        expect(GetHumanoidBoneRoleFromName("J_Bip_R_LowerLeg")).toBe("rightLowerLeg");
+        expect(GetHumanoidBoneRoleFromName("upper_arm.L")).toBe("leftUpperArm");
+        expect(GetHumanoidBoneRoleFromName("thigh.R")).toBe("rightUpperLeg");
+        expect(GetHumanoidBoneRoleFromName("mixamorig:HeadTop_End")).toBeNull();
+        expect(GetHumanoidBoneRoleFromName("Arm")).toBeNull();
+    });
+
+    it("retargets rotations between skeletons with different rest poses and proportions", () => {
+        const source = CreateSkeleton(scene, ["mixamorig:Hips", "mixamorig:Spine", "mixamorig:LeftArm", "mixamorig:LeftForeArm", "mixamorig:LeftHand"], 1, 0.3, 0);
+        const target = CreateSkeleton(scene, ["J_Bip_C_Hips", "J_Bip_C_Spine", "J_Bip_L_UpperArm", "J_Bip_L_LowerArm", "J_Bip_L_Hand"], 2, 0.5, Math.PI / 4);
+
+        expect(DetectHumanoidBoneMap(target)).toEqual({
+            hips: "J_Bip_C_Hips",
+            spine: "J_Bip_C_Spine",
+            leftUpperArm: "J_Bip_L_UpperArm",
+            leftLowerArm: "J_Bip_L_LowerArm",
+            leftHand: "J_Bip_L_Hand",
+        });
+
+        const sourceGroup = new AnimationGroup("wave", scene);
+        const armAnimation = new Animation("arm", "rotationQuaternion", 60, Animation.ANIMATIONTYPE_QUATERNION);
+        armAnimation.setKeys([
+            { frame: 0, value: Quaternion.Identity() },
+            { frame: 10, value: Quaternion.RotationAxis(Vector3.Forward(), Math.PI / 3) },
+        ]);
+        sourceGroup.addTargetedAnimation(armAnimation, source.bones[2]);
+        const lowerArmAnimation = new Animation("lowerArm", "rotationQuaternion", 60, Animation.ANIMATIONTYPE_QUATERNION);
+        lowerArmAnimation.setKeys([
+            { frame: 0, value: Quaternion.Identity() },
+            { frame: 10, value: Quaternion.RotationAxis(Vector3.Up(), Math.PI / 2) },
+        ]);
+        sourceGroup.addTargetedAnimation(lowerArmAnimation, source.bones[3]);
+        const hipsAnimation = new Animation("hips", "position", 60, Animation.ANIMATIONTYPE_VECTOR3);
+        hipsAnimation.setKeys([
+            { frame: 0, value: new Vector3(0, 1, 0) },
+            { frame: 10, value: new Vector3(1, 1, 0) },
+        ]);
+        sourceGroup.addTargetedAnimation(hipsAnimation, source.bones[0]);
+
+        const retargeter = new AnimationRetargeter(source, target);
+        expect(retargeter.mappedRoles).toEqual(["hips", "spine", "leftUpperArm", "leftLowerArm", "leftHand"]);
+        expect(retargeter.rootMotionScale).toBeCloseTo(2);
+
+        const targetGroup = retargeter.retargetAnimationGroup(sourceGroup, { name: "wave_retargeted" });
+        expect(targetGroup.name).toBe("wave_retargeted");
+        expect(targetGroup.from).toBe(0);
+        expect(targetGroup.to).toBe(10);
+
+        for (const frame of [0, 5, 10]) {
+            ApplyAnimationGroup(sourceGroup, frame);
+            ApplyAnimationGroup(targetGroup, frame);
+
+            const sourceUpperArm = GetDirection(source, 2, 3);
+            const targetUpperArm = GetDirection(target, 2, 3);
+            expect(Vector3.Distance(sourceUpperArm, targetUpperArm)).toBeLessThan(1e-4);
+
+            const sourceLowerArm = GetDirection(source, 3, 4);
+            const targetLowerArm = GetDirection(target, 3, 4);
+            expect(Vector3.Distance(sourceLowerArm, targetLowerArm)).toBeLessThan(1e-4);
+        }
+
+        // Root motion is scaled by the ratio of the hips heights
+        const hipsPosition = target.bones[0].position;
+        expect(hipsPosition.x).toBeCloseTo(2);
+        expect(hipsPosition.y).toBeCloseTo(2);
+
+        // Bone lengths of the target are preserved
+        expect(target.bones[3].position.x).toBeCloseTo(0.5);
+    });
+});
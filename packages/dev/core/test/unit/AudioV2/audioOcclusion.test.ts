@@ -0,0 +1,104 @@
+import type { AudioOcclusionSource } from "core/AudioV2/audioOcclusion";
+import { AudioOcclusion } from "core/AudioV2/audioOcclusion";
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import { Vector3 } from "core/Maths/math.vector";
+import { MeshBuilder } from "core/Meshes/meshBuilder";
+import { Observable } from "core/Misc/observable";
+import { Scene } from "core/scene";
+
+function CreateMockSource(listenerPosition: Vector3, position: Vector3) {
+    return {
+        engine: { listener: { position: listenerPosition } },
+        filter: { type: "", frequency: 0, isEnabled: false, dispose: jest.fn(), setParameter: jest.fn() },
+        onDisposeObservable: new Observable(),
+        setVolume: jest.fn(),
+        spatial: { position, update: jest.fn() },
+        volume: 1,
+    };
+}
+
+describe("AudioOcclusion", () => {
+    let engine: Engine;
+    let scene: Scene;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("does not occlude a source in line of sight of the listener", () => {
+        const occlusion = new AudioOcclusion(scene, { autoUpdate: false });
+        const source = CreateMockSource(new Vector3(0, 0, -5), new Vector3(0, 0, 5));
+
+        occlusion.addSource(source as unknown as AudioOcclusionSource);
+        occlusion.update();
+
+        expect(occlusion.getOcclusion(source as unknown as AudioOcclusionSource)).toBe(0);
+        expect(source.filter.type).toBe("lowpass");
+        expect(source.spatial.update).toHaveBeenCalled();
+        expect(source.setVolume).not.toHaveBeenCalled();
+
+        occlusion.removeSource(source as unknown as AudioOcclusionSource);
+
+        expect(source.filter.dispose).toHaveBeenCalled();
+    });
+
+    it("restores the filter enabled before adding a source", () => {
+        const occlusion = new AudioOcclusion(scene, { autoUpdate: false });
+        const source = CreateMockSource(Vector3.Zero(), Vector3.One());
+        source.filter.isEnabled = true;
+        source.filter.type = "highpass";
+        source.filter.frequency = 1000;
+
+        occlusion.addSource(source as unknown as AudioOcclusionSource);
+
+        expect(source.filter.type).toBe("lowpass");
+        expect(source.filter.frequency).toBe(20000);
+
+        occlusion.dispose();
+
+        expect(source.filter.dispose).not.toHaveBeenCalled();
+        expect(source.filter.type).toBe("highpass");
+        expect(source.filter.frequency).toBe(1000);
+    });
+
+    it("combines the occlusion of the meshes between the listener and a source", () => {
+        const wall1 = MeshBuilder.CreateBox("wall1", { width: 10, height: 10, depth: 0.2 }, scene);
+        const wall2 = MeshBuilder.CreateBox("wall2", { width: 10, height: 10, depth: 0.2 }, scene);
+        wall1.position.z = -1;
+        wall2.position.z = 1;
+        wall1.computeWorldMatrix(true);
+        wall2.computeWorldMatrix(true);
+
+        const occlusion = new AudioOcclusion(scene, { autoUpdate: false, occludedVolume: 0 });
+        const source = CreateMockSource(new Vector3(0, 0, -5), new Vector3(0, 0, 5));
+
+        occlusion.addSource(source as unknown as AudioOcclusionSource);
+        occlusion.update();
+
+        expect(occlusion.getOcclusion(source as unknown as AudioOcclusionSource)).toBeCloseTo(0.75);
+        expect(source.setVolume).toHaveBeenLastCalledWith(0.25, { duration: 0.1 });
+
+        occlusion.removeSource(source as unknown as AudioOcclusionSource);
+        occlusion.addSource(source as unknown as AudioOcclusionSource, wall1);
+        occlusion.update();
+
+        expect(occlusion.getOcclusion(source as unknown as AudioOcclusionSource)).toBeCloseTo(0.5);
+    });
+
+    it("stops managing a source when it is disposed", () => {
+        const occlusion = new AudioOcclusion(scene, { autoUpdate: false });
+        const source = CreateMockSource(Vector3.Zero(), Vector3.One());
+
+        occlusion.addSource(source as unknown as AudioOcclusionSource);
+        source.onDisposeObservable.notifyObservers(source);
+
+        expect(occlusion.sources.length).toBe(0);
+    });
+});
@@ -0,0 +1,67 @@
+import type { AudioBus } from "core/AudioV2/abstractAudio/audioBus";
+import { AudioReverbZone } from "core/AudioV2/audioReverbZone";
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import { Vector3 } from "core/Maths/math.vector";
+import { MeshBuilder } from "core/Meshes/meshBuilder";
+import { Scene } from "core/scene";
+
+function CreateMockBus(listenerPosition: Vector3) {
+    return {
+        engine: { listener: { position: listenerPosition } },
+        reverb: { setParameter: jest.fn() },
+    };
+}
+
+describe("AudioReverbZone", () => {
+    let engine: Engine;
+    let scene: Scene;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("blends the reverb with the distance of the listener to the zone", () => {
+        const listenerPosition = new Vector3(0, 0, 0);
+        const bus = CreateMockBus(listenerPosition);
+        const zone = new AudioReverbZone("zone", bus as unknown as AudioBus, scene, {
+            autoUpdate: false,
+            blendDistance: 2,
+            minimum: new Vector3(-1, -1, -1),
+            maximum: new Vector3(1, 1, 1),
+            wet: 0.8,
+        });
+
+        zone.update();
+        expect(zone.weight).toBe(1);
+        expect(bus.reverb.setParameter).toHaveBeenLastCalledWith("wet", 0.8, { duration: 0.1 });
+
+        listenerPosition.set(2, 0, 0);
+        zone.update();
+        expect(zone.weight).toBeCloseTo(0.5);
+        expect(bus.reverb.setParameter).toHaveBeenLastCalledWith("wet", 0.4, { duration: 0.1 });
+
+        listenerPosition.set(0, 5, 0);
+        zone.update();
+        expect(zone.weight).toBe(0);
+    });
+
+    it("uses the world bounding box of its mesh", () => {
+        const box = MeshBuilder.CreateBox("room", { size: 4 }, scene);
+        box.position.x = 10;
+        box.computeWorldMatrix(true);
+
+        const bus = CreateMockBus(Vector3.Zero());
+        const zone = new AudioReverbZone("zone", bus as unknown as AudioBus, scene, { autoUpdate: false, mesh: box });
+
+        expect(zone.getWeight(new Vector3(9, 0, 0))).toBe(1);
+        expect(zone.getWeight(new Vector3(7, 0, 0))).toBeCloseTo(0.5);
+        expect(zone.getWeight(Vector3.Zero())).toBe(0);
+    });
+});
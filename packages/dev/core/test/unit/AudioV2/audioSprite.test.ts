@@ -0,0 +1,43 @@
+import type { StaticSound } from "core/AudioV2/abstractAudio/staticSound";
+import { AudioSprite } from "core/AudioV2/audioSprite";
+
+function CreateMockSound() {
+    return {
+        _play: jest.fn(() => null),
+        dispose: jest.fn(),
+        stop: jest.fn(),
+    };
+}
+
+describe("AudioSprite", () => {
+    it("plays the range of the named region", () => {
+        const sound = CreateMockSound();
+        const sprite = new AudioSprite(sound as unknown as StaticSound, {
+            step1: { startOffset: 0, duration: 0.25 },
+            step2: { startOffset: 0.5, duration: 0.3 },
+        });
+
+        sprite.play("step2", { volume: 0.5, duration: 10 });
+
+        expect(sprite.regionNames).toEqual(["step1", "step2"]);
+        expect(sound._play).toHaveBeenCalledWith({ volume: 0.5, duration: 0.3, loop: false, loopEnd: 0.8, loopStart: 0.5, startOffset: 0.5 });
+    });
+
+    it("plays looping regions until they are stopped", () => {
+        const sound = CreateMockSound();
+        const sprite = new AudioSprite(sound as unknown as StaticSound);
+        sprite.addRegion("engine", { startOffset: 1, duration: 2, loop: true });
+
+        sprite.play("engine");
+
+        expect(sound._play).toHaveBeenCalledWith({ duration: 0, loop: true, loopEnd: 3, loopStart: 1, startOffset: 1 });
+    });
+
+    it("throws when playing an unknown region", () => {
+        const sprite = new AudioSprite(CreateMockSound() as unknown as StaticSound, { step: { startOffset: 0, duration: 1 } });
+        sprite.removeRegion("step");
+
+        expect(sprite.getRegion("step")).toBeNull();
+        expect(() => sprite.play("step")).toThrow();
+    });
+});
@@ -0,0 +1,73 @@
+import { _EncodeWav } from "core/AudioV2/audioUtils";
+
+function CreateAudioData(channels: number[][], sampleRate = 48000) {
+    return {
+        length: channels[0].length,
+        numberOfChannels: channels.length,
+        sampleRate,
+        getChannelData: (channel: number) => new Float32Array(channels[channel]),
+    };
+}
+
+function ReadString(view: DataView, offset: number, length: number): string {
+    let value = "";
+    for (let i = 0; i < length; i++) {
+        value += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return value;
+}
+
+describe("_EncodeWav", () => {
+    it("writes the header of a 16-bit PCM file", () => {
+        const wav = _EncodeWav(
+            CreateAudioData(
+                [
+                    [0, 0, 0],
+                    [0, 0, 0],
+                ],
+                44100
+            )
+        );
+        const view = new DataView(wav);
+
+        expect(wav.byteLength).toBe(44 + 3 * 2 * 2);
+        expect(ReadString(view, 0, 4)).toBe("RIFF");
+        expect(view.getUint32(4, true)).toBe(wav.byteLength - 8);
+        expect(ReadString(view, 8, 4)).toBe("WAVE");
+        expect(ReadString(view, 12, 4)).toBe("fmt ");
+        expect(view.getUint16(20, true)).toBe(1);
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(44100);
+        expect(view.getUint32(28, true)).toBe(44100 * 4);
+        expect(view.getUint16(32, true)).toBe(4);
+        expect(view.getUint16(34, true)).toBe(16);
+        expect(ReadString(view, 36, 4)).toBe("data");
+        expect(view.getUint32(40, true)).toBe(12);
+    });
+
+    it("interleaves and clamps 16-bit samples", () => {
+        const wav = _EncodeWav(
+            CreateAudioData([
+                [1, -1],
+                [2, -0.5],
+            ])
+        );
+        const view = new DataView(wav);
+
+        expect(view.getInt16(44, true)).toBe(0x7fff);
+        expect(view.getInt16(46, true)).toBe(0x7fff);
+        expect(view.getInt16(48, true)).toBe(-0x8000);
+        expect(view.getInt16(50, true)).toBe(-0x4000);
+    });
+
+    it("writes 32-bit floating point samples", () => {
+        const wav = _EncodeWav(CreateAudioData([[0.25, -2]]), 32);
+        const view = new DataView(wav);
+
+        expect(wav.byteLength).toBe(44 + 2 * 4);
+        expect(view.getUint16(20, true)).toBe(3);
+        expect(view.getUint16(34, true)).toBe(32);
+        expect(view.getFloat32(44, true)).toBe(0.25);
+        expect(view.getFloat32(48, true)).toBe(-2);
+    });
+});
@@ -0,0 +1,178 @@
+import type { StaticSound } from "core/AudioV2/abstractAudio/staticSound";
+import { AudioVoiceLimiter } from "core/AudioV2/audioVoiceLimiter";
+import { SoundPool } from "core/AudioV2/soundPool";
+import { SoundState } from "core/AudioV2/soundState";
+import { Observable } from "core/Misc/observable";
+
+interface IMockInstance {
+    onEndedObservable: Observable<IMockInstance>;
+    stop: jest.Mock;
+}
+
+function CreateMockSound(pitch = 0, endsWhenStopped = true) {
+    const instances: IMockInstance[] = [];
+
+    const sound = {
+        instances,
+        pitch,
+        state: SoundState.Stopped,
+        _play: jest.fn(() => {
+            const instance: IMockInstance = {
+                onEndedObservable: new Observable<IMockInstance>(),
+                stop: jest.fn(() => {
+                    if (endsWhenStopped) {
+                        instance.onEndedObservable.notifyObservers(instance);
+                    }
+                }),
+            };
+            instances.push(instance);
+            return instance;
+        }),
+    };
+
+    return sound;
+}
+
+describe("SoundPool", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("applies random pitch and volume variations", () => {
+        jest.spyOn(Math, "random").mockReturnValue(0.75);
+
+        const sound = CreateMockSound(100);
+        const pool = new SoundPool("pool", [sound as unknown as StaticSound], { pitchVariation: 50, volumeVariation: 0.2 });
+
+        expect(pool.play({ volume: 0.5 })).toBe(true);
+
+        const options = sound._play.mock.calls[0] as unknown as [{ pitch: number; volume: number }];
+        expect(options[0].pitch).toBeCloseTo(125);
+        expect(options[0].volume).toBeCloseTo(0.425);
+    });
+
+    it("avoids playing the same variation twice in a row", () => {
+        jest.spyOn(Math, "random").mockReturnValue(0);
+
+        const sound1 = CreateMockSound();
+        const sound2 = CreateMockSound();
+        const pool = new SoundPool("pool", [sound1 as unknown as StaticSound, sound2 as unknown as StaticSound]);
+
+        pool.play();
+        pool.play();
+        pool.play();
+
+        expect(sound1._play).toHaveBeenCalledTimes(2);
+        expect(sound2._play).toHaveBeenCalledTimes(1);
+    });
+
+    it("steals the oldest voice of the pool when its maximum number of voices is reached", () => {
+        const sound = CreateMockSound();
+        const pool = new SoundPool("pool", [sound as unknown as StaticSound], { maxVoices: 2 });
+
+        pool.play();
+        pool.play();
+        pool.play();
+
+        expect(pool.activeVoicesCount).toBe(2);
+        expect(sound.instances[0].stop).toHaveBeenCalledTimes(1);
+        expect(sound.instances[1].stop).not.toHaveBeenCalled();
+    });
+
+    it("steals the voices with the lowest priority across pools sharing a voice limiter", () => {
+        const voiceLimiter = new AudioVoiceLimiter(2);
+        // The stopped voices end asynchronously, so the pools forget them when they are stolen
+        const ambience = CreateMockSound(0, false);
+        const dialog = CreateMockSound(0, false);
+        const ambiencePool = new SoundPool("ambience", [ambience as unknown as StaticSound], { priority: 0, voiceLimiter });
+        const dialogPool = new SoundPool("dialog", [dialog as unknown as StaticSound], { priority: 10, voiceLimiter });
+
+        ambiencePool.play();
+        dialogPool.play();
+        dialogPool.play();
+
+        expect(ambience.instances[0].stop).toHaveBeenCalledTimes(1);
+        expect(ambiencePool.activeVoicesCount).toBe(0);
+        expect(dialogPool.activeVoicesCount).toBe(2);
+
+        expect(ambiencePool.play()).toBe(false);
+        expect(voiceLimiter.activeVoicesCount).toBe(2);
+    });
+
+    it("steals the oldest voice of a full pool instead of another voice of the voice limiter", () => {
+        const voiceLimiter = new AudioVoiceLimiter(2);
+        const sound1 = CreateMockSound();
+        const sound2 = CreateMockSound();
+        const pool1 = new SoundPool("pool1", [sound1 as unknown as StaticSound], { maxVoices: 1, voiceLimiter });
+        const pool2 = new SoundPool("pool2", [sound2 as unknown as StaticSound], { voiceLimiter });
+
+        pool2.play();
+        pool1.play();
+
+        expect(pool1.play()).toBe(true);
+        expect(sound1.instances[0].stop).toHaveBeenCalledTimes(1);
+        expect(sound2.instances[0].stop).not.toHaveBeenCalled();
+        expect(voiceLimiter.activeVoicesCount).toBe(2);
+    });
+
+    it("does not steal a voice of a full pool when the voice limiter refuses the new voice", () => {
+        const voiceLimiter = new AudioVoiceLimiter(1);
+        const dialog = CreateMockSound();
+        const ambience = CreateMockSound();
+        const dialogPool = new SoundPool("dialog", [dialog as unknown as StaticSound], { priority: 10, voiceLimiter });
+        const ambiencePool = new SoundPool("ambience", [ambience as unknown as StaticSound], { maxVoices: 1 });
+
+        dialogPool.play();
+        ambiencePool.play();
+        ambiencePool.voiceLimiter = voiceLimiter;
+
+        expect(ambiencePool.play()).toBe(false);
+        expect(ambience.instances[0].stop).not.toHaveBeenCalled();
+        expect(ambiencePool.activeVoicesCount).toBe(1);
+    });
+
+    it("does not steal a voice for a paused variation, nor resume it", () => {
+        const voiceLimiter = new AudioVoiceLimiter(2);
+        const sound = CreateMockSound();
+        const other = CreateMockSound();
+        const pool = new SoundPool("pool", [sound as unknown as StaticSound], { maxVoices: 1, priority: 10, voiceLimiter });
+        const otherPool = new SoundPool("other", [other as unknown as StaticSound], { voiceLimiter });
+
+        pool.play();
+        otherPool.play();
+        sound.state = SoundState.Paused;
+
+        expect(pool.play()).toBe(false);
+        expect(sound._play).toHaveBeenCalledTimes(1);
+        expect(sound.instances[0].stop).not.toHaveBeenCalled();
+        expect(other.instances[0].stop).not.toHaveBeenCalled();
+        expect(pool.activeVoicesCount).toBe(1);
+        expect(voiceLimiter.activeVoicesCount).toBe(2);
+    });
+
+    it("forgets the voices stopped by the voice limiter", () => {
+        const voiceLimiter = new AudioVoiceLimiter();
+        const sound = CreateMockSound(0, false);
+        const pool = new SoundPool("pool", [sound as unknown as StaticSound], { voiceLimiter });
+
+        pool.play();
+        pool.play();
+        voiceLimiter.stopAll();
+
+        expect(sound.instances[0].stop).toHaveBeenCalledTimes(1);
+        expect(pool.activeVoicesCount).toBe(0);
+        expect(voiceLimiter.activeVoicesCount).toBe(0);
+    });
+
+    it("forgets the voices that end", () => {
+        const voiceLimiter = new AudioVoiceLimiter(4);
+        const sound = CreateMockSound();
+        const pool = new SoundPool("pool", [sound as unknown as StaticSound], { voiceLimiter });
+
+        pool.play();
+        sound.instances[0].onEndedObservable.notifyObservers(sound.instances[0]);
+
+        expect(pool.activeVoicesCount).toBe(0);
+        expect(voiceLimiter.activeVoicesCount).toBe(0);
+    });
+});
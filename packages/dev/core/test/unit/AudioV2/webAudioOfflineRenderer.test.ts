@@ -0,0 +1,183 @@
+import { OfflineAudioRenderer } from "core/AudioV2/webAudio/webAudioOfflineRenderer";
+
+/**
+ * Renders the audio instantly, suspending the rendering at the requested times like the WebAudio offline context
+ */
+class OfflineAudioContextMock {
+    public static Instance: OfflineAudioContextMock;
+
+    public currentTime = 0;
+    public isRendering = false;
+
+    private readonly _length: number;
+    private readonly _sampleRate: number;
+    private readonly _suspends = new Map<number, () => void>();
+    private _resume: (() => void) | null = null;
+
+    public constructor(options: { length: number; sampleRate: number }) {
+        this._length = options.length;
+        this._sampleRate = options.sampleRate;
+        OfflineAudioContextMock.Instance = this;
+    }
+
+    public async suspend(time: number): Promise<void> {
+        if (this._suspends.has(time) || time <= this.currentTime) {
+            throw new Error("InvalidStateError");
+        }
+
+        return await new Promise<void>((resolve) => this._suspends.set(time, resolve));
+    }
+
+    public async resume(): Promise<void> {
+        this._resume?.();
+        this._resume = null;
+    }
+
+    public async startRendering(): Promise<AudioBuffer> {
+        this.isRendering = true;
+
+        for (;;) {
+            const times = Array.from(this._suspends.keys())
+                .filter((time) => time > this.currentTime)
+                .sort((a, b) => a - b);
+            if (times.length === 0) {
+                break;
+            }
+
+            this.currentTime = times[0];
+            const resumed = new Promise<void>((resolve) => (this._resume = resolve));
+            this._suspends.get(this.currentTime)!();
+            // eslint-disable-next-line no-await-in-loop
+            await resumed;
+        }
+
+        this.currentTime = this._length / this._sampleRate;
+        this.isRendering = false;
+
+        return { length: this._length, sampleRate: this._sampleRate } as AudioBuffer;
+    }
+}
+
+describe("OfflineAudioRenderer", () => {
+    let offlineAudioContext: any;
+    let unhandledRejections: unknown[];
+    const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+
+    beforeAll(() => {
+        offlineAudioContext = (globalThis as any).OfflineAudioContext;
+        (globalThis as any).OfflineAudioContext = OfflineAudioContextMock;
+    });
+
+    afterAll(() => {
+        (globalThis as any).OfflineAudioContext = offlineAudioContext;
+    });
+
+    beforeEach(() => {
+        unhandledRejections = [];
+        process.on("unhandledRejection", onUnhandledRejection);
+    });
+
+    afterEach(async () => {
+        // Unhandled rejections are reported after the pending callbacks
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        process.off("unhandledRejection", onUnhandledRejection);
+        expect(unhandledRejections).toEqual([]);
+    });
+
+    // A render quantum of 128 sample frames lasts 1 second
+    const createRenderer = () => new OfflineAudioRenderer({ duration: 10, sampleRate: 128 });
+
+    it("calls the callbacks in time order, at the start of their render quantum", async () => {
+        const renderer = createRenderer();
+        const calls: string[] = [];
+        const log = (name: string) => () => {
+            calls.push(`${name}@${OfflineAudioContextMock.Instance.currentTime}`);
+        };
+
+        renderer.schedule(5.5, log("c"));
+        renderer.schedule(2, log("a"));
+        renderer.schedule(5, log("d"));
+        renderer.schedule(2.9, log("b"));
+
+        const buffer = await renderer.renderAsync();
+
+        expect(calls).toEqual(["a@2", "b@2", "c@5", "d@5"]);
+        expect(buffer.length).toBe(1280);
+        expect(renderer.renderedBuffer).toBe(buffer);
+        expect(renderer.renderAsync()).toBe(renderer.renderAsync());
+    });
+
+    it("calls the callbacks at time 0 before the rendering starts", async () => {
+        const renderer = createRenderer();
+        const calls: boolean[] = [];
+
+        renderer.schedule(0, () => {
+            calls.push(OfflineAudioContextMock.Instance.isRendering);
+        });
+
+        await renderer.renderAsync();
+
+        expect(calls).toEqual([false]);
+    });
+
+    it("calls the callbacks scheduled by other callbacks, including asynchronous callbacks at time 0", async () => {
+        const renderer = createRenderer();
+        const calls: string[] = [];
+
+        renderer.schedule(0, async () => {
+            await Promise.resolve();
+            renderer.schedule(2, () => {
+                calls.push("newTimeFromStart");
+            });
+            renderer.schedule(3, () => {
+                calls.push("fromStart");
+            });
+        });
+        renderer.schedule(3, () => {
+            calls.push("initial");
+            renderer.schedule(4, () => {
+                calls.push("later");
+            });
+            expect(() => renderer.schedule(1, () => {})).toThrow("Scheduled time 1 has already been rendered.");
+        });
+
+        await renderer.renderAsync();
+
+        expect(calls).toEqual(["newTimeFromStart", "initial", "fromStart", "later"]);
+    });
+
+    it("rejects with the errors of the callbacks, after the rendering", async () => {
+        const renderer = createRenderer();
+        const calls: number[] = [];
+
+        renderer.schedule(1, () => {
+            throw new Error("callback error");
+        });
+        renderer.schedule(2, () => {
+            calls.push(2);
+        });
+
+        await expect(renderer.renderAsync()).rejects.toThrow("callback error");
+        expect(calls).toEqual([2]);
+        expect(renderer.renderedBuffer).toBeNull();
+    });
+
+    it("rejects with the errors of the callbacks at time 0", async () => {
+        const renderer = createRenderer();
+
+        renderer.schedule(0, async () => {
+            await Promise.resolve();
+            throw new Error("start error");
+        });
+
+        await expect(renderer.renderAsync()).rejects.toThrow("start error");
+        expect(OfflineAudioContextMock.Instance.isRendering).toBe(false);
+    });
+
+    it("throws when a callback is scheduled outside of the rendering duration", () => {
+        const renderer = createRenderer();
+
+        expect(() => renderer.schedule(-1, () => {})).toThrow("Scheduled time -1 is outside of the rendering duration.");
+        expect(() => renderer.schedule(10, () => {})).toThrow("Scheduled time 10 is outside of the rendering duration.");
+    });
+});
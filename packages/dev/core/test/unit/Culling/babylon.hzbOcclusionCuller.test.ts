@@ -0,0 +1,177 @@
+import { ComputeShader } from "core/Compute/computeShader";
+import { HZBOcclusionCuller } from "core/Culling/hzbOcclusionCuller";
+import { Constants } from "core/Engines/constants";
+import { NullEngine } from "core/Engines/nullEngine";
+import type { InternalTexture } from "core/Materials/Textures/internalTexture";
+import { Matrix } from "core/Maths/math.vector";
+import type { Mesh } from "core/Meshes/mesh";
+import { CreateBox } from "core/Meshes/Builders/boxBuilder";
+import { Logger } from "core/Misc/logger";
+import { Observable } from "core/Misc/observable";
+import { Scene } from "core/scene";
+import "core/Meshes/thinInstanceMesh";
+
+describe("HZBOcclusionCuller", () => {
+    let nullEngine: NullEngine;
+    let scene: Scene;
+    let mesh: Mesh;
+    let thinInstanceMesh: Mesh;
+    let engine: any;
+    let visibility: Uint32Array;
+
+    const depthTexture = { width: 16, height: 8, format: Constants.TEXTUREFORMAT_DEPTH32_FLOAT } as InternalTexture;
+
+    // Waits for the visibility buffer to be read back
+    const readBackAsync = async () => await new Promise((resolve) => setTimeout(resolve, 0));
+
+    // Gets the boxes (min x, y, z, max x, y, z) uploaded by the last update
+    const getUploadedBoxes = () => {
+        const [, data, , byteLength] = engine.updateStorageBuffer.mock.lastCall;
+        const boxes: number[][] = [];
+        for (let offset = 0; offset < byteLength / 4; offset += 8) {
+            boxes.push([...data.slice(offset, offset + 3), ...data.slice(offset + 4, offset + 7)]);
+        }
+        return boxes;
+    };
+
+    beforeEach(() => {
+        nullEngine = new NullEngine();
+        // The null engine doesn't support thin instances
+        nullEngine.getCaps().instancedArrays = true;
+        scene = new Scene(nullEngine);
+
+        mesh = CreateBox("mesh", { size: 2 }, scene);
+        mesh.position.set(10, 0, 0);
+        mesh.computeWorldMatrix(true);
+
+        thinInstanceMesh = CreateBox("thinInstanceMesh", { size: 2 }, scene);
+        thinInstanceMesh.position.set(1, 0, 0);
+        thinInstanceMesh.thinInstanceAdd([Matrix.Translation(0, 5, 0), Matrix.Scaling(2, 2, 2).multiply(Matrix.Translation(0, 0, 3))]);
+        thinInstanceMesh.computeWorldMatrix(true);
+
+        visibility = new Uint32Array(0);
+        engine = {
+            getCaps: () => ({ supportComputeShaders: true }),
+            supportsUniformBuffers: true,
+            useReverseDepthBuffer: false,
+            _features: { trackUbosInFrame: false },
+            _uniformBuffers: [],
+            _storageBuffers: [],
+            onEndFrameObservable: new Observable(),
+            createComputeContext: () => ({}),
+            createUniformBuffer: () => ({}),
+            updateUniformBuffer: jest.fn(),
+            createStorageBuffer: () => ({}),
+            updateStorageBuffer: jest.fn(),
+            readFromStorageBuffer: jest.fn(async (_buffer: unknown, offset: number, size: number) => new Uint8Array(visibility.slice().buffer, offset, size)),
+            _releaseBuffer: jest.fn(),
+        };
+
+        jest.spyOn(ComputeShader.prototype, "isReady").mockReturnValue(true);
+        jest.spyOn(ComputeShader.prototype, "dispatch").mockReturnValue(true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        scene.dispose();
+        nullEngine.dispose();
+    });
+
+    it("is not supported without compute shaders, and reports all the meshes as visible", () => {
+        const culler = new HZBOcclusionCuller("culler", nullEngine);
+
+        culler.update(depthTexture, Matrix.Identity(), [mesh]);
+
+        expect(culler.isSupported).toBe(false);
+        expect(culler.isReady()).toBe(true);
+        expect(culler.isMeshOccluded(mesh)).toBe(false);
+        expect(culler._getPyramid()).toBeNull();
+    });
+
+    it("tests the bounding box of the meshes, and the bounding box of each thin instance", () => {
+        const culler = new HZBOcclusionCuller("culler", engine);
+
+        culler.update(depthTexture, Matrix.Identity(), [mesh, thinInstanceMesh]);
+
+        expect(getUploadedBoxes()).toEqual([
+            [9, -1, -1, 11, 1, 1],
+            [0, 4, -1, 2, 6, 1],
+            [-1, -2, 1, 3, 2, 5],
+        ]);
+        expect(engine.readFromStorageBuffer).toHaveBeenCalledWith(expect.anything(), 0, 3 * 4, undefined, undefined);
+        expect(culler._getPyramid()).toMatchObject({ depthWidth: 16, depthHeight: 8, width: 8, height: 4, numLevels: 4 });
+    });
+
+    it("tests the bounding box enclosing the thin instances when testThinInstances is false", () => {
+        const culler = new HZBOcclusionCuller("culler", engine);
+        culler.testThinInstances = false;
+
+        culler.update(depthTexture, Matrix.Identity(), [thinInstanceMesh, mesh]);
+
+        const boundingBox = thinInstanceMesh.getBoundingInfo().boundingBox;
+        expect(getUploadedBoxes()).toEqual([
+            [...boundingBox.minimumWorld.asArray(), ...boundingBox.maximumWorld.asArray()],
+            [9, -1, -1, 11, 1, 1],
+        ]);
+    });
+
+    it("reports the occluded meshes and the visibility of the thin instances once the results are read back", async () => {
+        const culler = new HZBOcclusionCuller("culler", engine);
+        const otherMesh = CreateBox("other", {}, scene);
+        visibility = new Uint32Array([0, 1, 0]);
+
+        culler.update(depthTexture, Matrix.Identity(), [mesh, thinInstanceMesh]);
+
+        // The results are not available before they are read back
+        expect(culler.isMeshOccluded(mesh)).toBe(false);
+        expect(culler.getThinInstanceVisibility(thinInstanceMesh)).toBeNull();
+
+        await readBackAsync();
+
+        expect(culler.isMeshOccluded(mesh)).toBe(true);
+        expect(culler.isMeshOccluded(thinInstanceMesh)).toBe(false);
+        expect(culler.isMeshOccluded(otherMesh)).toBe(false);
+        expect(culler.getThinInstanceVisibility(mesh)).toBeNull();
+        expect(Array.from(culler.getThinInstanceVisibility(thinInstanceMesh)!)).toEqual([1, 0]);
+
+        visibility = new Uint32Array([1, 0, 0]);
+        culler.update(depthTexture, Matrix.Identity(), [mesh, thinInstanceMesh]);
+        await readBackAsync();
+
+        expect(culler.isMeshOccluded(mesh)).toBe(false);
+        expect(culler.isMeshOccluded(thinInstanceMesh)).toBe(true);
+
+        culler.reset();
+
+        expect(culler.isMeshOccluded(thinInstanceMesh)).toBe(false);
+        expect(culler.getThinInstanceVisibility(thinInstanceMesh)).toBeNull();
+        expect(culler._getPyramid()).toBeNull();
+    });
+
+    it("reads back one result at a time, and keeps the previous results when the read back fails", async () => {
+        const warnSpy = jest.spyOn(Logger, "Warn").mockImplementation(() => {});
+        const culler = new HZBOcclusionCuller("culler", engine);
+        visibility = new Uint32Array([0]);
+
+        culler.update(depthTexture, Matrix.Identity(), [mesh]);
+        culler.update(depthTexture, Matrix.Identity(), [mesh]);
+        await readBackAsync();
+
+        expect(engine.readFromStorageBuffer).toHaveBeenCalledTimes(1);
+        expect(culler.isMeshOccluded(mesh)).toBe(true);
+
+        engine.readFromStorageBuffer.mockRejectedValueOnce(new Error("device lost"));
+        culler.update(depthTexture, Matrix.Identity(), [mesh]);
+        await readBackAsync();
+
+        expect(warnSpy).toHaveBeenCalledWith("HZBOcclusionCuller: failed to read back the visibility buffer: Error: device lost");
+        expect(culler.isMeshOccluded(mesh)).toBe(true);
+
+        visibility = new Uint32Array([1]);
+        culler.update(depthTexture, Matrix.Identity(), [mesh]);
+        await readBackAsync();
+
+        expect(engine.readFromStorageBuffer).toHaveBeenCalledTimes(3);
+        expect(culler.isMeshOccluded(mesh)).toBe(false);
+    });
+});
@@ -0,0 +1,124 @@
+import { ThinInstanceGPUCuller } from "core/Culling/thinInstanceGPUCuller";
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import { WebGPUDrawContext } from "core/Engines/WebGPU/webgpuDrawContext";
+import { DrawWrapper } from "core/Materials/drawWrapper";
+import type { Mesh } from "core/Meshes/mesh";
+import { CreateBox } from "core/Meshes/Builders/boxBuilder";
+import { Scene } from "core/scene";
+
+describe("ThinInstanceGPUCuller", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let mesh: Mesh;
+    let bufferManager: { createRawBuffer: jest.Mock; releaseBuffer: jest.Mock; setRawData: jest.Mock };
+
+    function CreateDrawContext(useInstancing: boolean) {
+        const drawContext = new WebGPUDrawContext(bufferManager as any, {} as any);
+        drawContext.useInstancing = useInstancing;
+        const drawWrapper = new DrawWrapper(engine);
+        drawWrapper.drawContext = drawContext;
+        mesh.subMeshes[0]._drawWrappers[0] = drawWrapper;
+        return drawContext;
+    }
+
+    // Culls the thin instances, as done before each rendering of the scene
+    function Cull(culler: ThinInstanceGPUCuller) {
+        (culler as any)._updateDrawContexts();
+    }
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        mesh = CreateBox("box", {}, scene);
+        bufferManager = {
+            createRawBuffer: jest.fn(() => ({})),
+            releaseBuffer: jest.fn(),
+            setRawData: jest.fn(),
+        };
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("is not supported without compute shaders", () => {
+        const culler = new ThinInstanceGPUCuller(mesh);
+
+        expect(culler.isSupported).toBe(false);
+        expect(culler.isReady()).toBe(true);
+
+        culler.dispose();
+    });
+
+    it("enables the indirect draws of the mesh, also in compatibility mode", () => {
+        const drawContext = CreateDrawContext(false);
+        const culler = new ThinInstanceGPUCuller(mesh);
+
+        Cull(culler);
+
+        expect(drawContext.enableIndirectDraw).toBe(true);
+        expect(drawContext._enableIndirectDrawInCompatMode).toBe(true);
+        expect(drawContext.indirectDrawBuffer).toBeDefined();
+
+        culler.dispose();
+    });
+
+    it("restores the indirect draw settings of the draw contexts when disposed", () => {
+        const drawContext = CreateDrawContext(false);
+        const culler = new ThinInstanceGPUCuller(mesh);
+
+        Cull(culler);
+        Cull(culler);
+        drawContext.fastBundle = {} as GPURenderBundle;
+        const indirectDrawBuffer = drawContext.indirectDrawBuffer;
+
+        culler.dispose();
+
+        expect(drawContext.fastBundle).toBeUndefined();
+        expect(drawContext.enableIndirectDraw).toBe(false);
+        expect(drawContext._enableIndirectDrawInCompatMode).toBe(false);
+        expect(drawContext.indirectDrawBuffer).toBeUndefined();
+        expect(bufferManager.releaseBuffer).toHaveBeenCalledWith(indirectDrawBuffer);
+    });
+
+    it("keeps the indirect draw buffer of an instanced draw and overwrites the instance count written by the GPU", () => {
+        const drawContext = CreateDrawContext(true);
+        const indirectDrawBuffer = drawContext.indirectDrawBuffer;
+        const culler = new ThinInstanceGPUCuller(mesh);
+
+        drawContext.setIndirectData(36, 10, 0);
+        Cull(culler);
+
+        // The instance count written by the GPU is not overwritten while culling
+        drawContext.setIndirectData(36, 10, 0);
+        expect(bufferManager.setRawData).toHaveBeenCalledTimes(1);
+
+        drawContext.fastBundle = {} as GPURenderBundle;
+        culler.dispose();
+
+        expect(drawContext.fastBundle).toBeUndefined();
+        expect(drawContext.enableIndirectDraw).toBe(true);
+        expect(drawContext._enableIndirectDrawInCompatMode).toBe(false);
+        expect(drawContext.indirectDrawBuffer).toBe(indirectDrawBuffer);
+        expect(bufferManager.releaseBuffer).not.toHaveBeenCalled();
+
+        drawContext.setIndirectData(36, 10, 0);
+        expect(bufferManager.setRawData).toHaveBeenCalledTimes(2);
+    });
+
+    it("restores the draw contexts no longer used by the mesh", () => {
+        const drawContext = CreateDrawContext(false);
+        const culler = new ThinInstanceGPUCuller(mesh);
+
+        Cull(culler);
+        mesh.subMeshes[0]._drawWrappers.length = 0;
+        Cull(culler);
+
+        expect(drawContext.enableIndirectDraw).toBe(false);
+        expect(drawContext._enableIndirectDrawInCompatMode).toBe(false);
+
+        culler.dispose();
+    });
+});
@@ -0,0 +1,344 @@
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import type { FlowGraph } from "core/FlowGraph/flowGraph";
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import { FlowGraphCoordinator } from "core/FlowGraph/flowGraphCoordinator";
+import { CompileFlowGraphAsync } from "core/FlowGraph/flowGraphCompiler";
+import type { IFlowGraphCompiledModule } from "core/FlowGraph/flowGraphCompiledGraph";
+import { LoadCompiledFlowGraphAsync } from "core/FlowGraph/flowGraphCompiledGraph";
+import { FlowGraphAddBlock } from "core/FlowGraph/Blocks/Data/Math/flowGraphMathBlocks";
+import { FlowGraphGetVariableBlock } from "core/FlowGraph/Blocks/Data/flowGraphGetVariableBlock";
+import { FlowGraphConditionalDataBlock } from "core/FlowGraph/Blocks/Data/flowGraphConditionalDataBlock";
+import { FlowGraphGetPropertyBlock } from "core/FlowGraph/Blocks/Data/flowGraphGetPropertyBlock";
+import { FlowGraphSceneReadyEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphSceneReadyEventBlock";
+import { FlowGraphSceneTickEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphSceneTickEventBlock";
+import { FlowGraphConsoleLogBlock } from "core/FlowGraph/Blocks/Execution/flowGraphConsoleLogBlock";
+import { FlowGraphSetVariableBlock } from "core/FlowGraph/Blocks/Execution/flowGraphSetVariableBlock";
+import { FlowGraphBranchBlock } from "core/FlowGraph/Blocks/Execution/ControlFlow/flowGraphBranchBlock";
+import { FlowGraphForLoopBlock } from "core/FlowGraph/Blocks/Execution/ControlFlow/flowGraphForLoopBlock";
+import { FlowGraphCallCounterBlock } from "core/FlowGraph/Blocks/Execution/ControlFlow/flowGraphCounterBlock";
+import { FlowGraphMeshPickEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphMeshPickEventBlock";
+import { FlowGraphPointerOverEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphPointerOverEventBlock";
+import { FlowGraphSetPropertyBlock } from "core/FlowGraph/Blocks/Execution/flowGraphSetPropertyBlock";
+import { FlowGraphJsonPointerParserBlock } from "core/FlowGraph/Blocks/Data/Transformers/flowGraphJsonPointerParserBlock";
+import { FlowGraphSetDelayBlock } from "core/FlowGraph/Blocks/Execution/ControlFlow/flowGraphSetDelayBlock";
+import { FlowGraphThrottleBlock } from "core/FlowGraph/Blocks/Execution/ControlFlow/flowGraphThrottleBlock";
+import { FlowGraphInterpolationBlock } from "core/FlowGraph/Blocks/Execution/Animation/flowGraphInterpolationBlock";
+import { FlowGraphBezierCurveEasingBlock } from "core/FlowGraph/Blocks/Execution/Animation/flowGraphBezierCurveEasingBlock";
+import { FlowGraphPlayAnimationBlock } from "core/FlowGraph/Blocks/Execution/Animation/flowGraphPlayAnimationBlock";
+import { FlowGraphStopAnimationBlock } from "core/FlowGraph/Blocks/Execution/Animation/flowGraphStopAnimationBlock";
+import { FlowGraphInteger } from "core/FlowGraph/CustomTypes/flowGraphInteger";
+import { defaultValueSerializationFunction } from "core/FlowGraph/serialization";
+import { BezierCurveEase } from "core/Animations/easing";
+import { PickingInfo } from "core/Collisions/pickingInfo";
+import { PointerEventTypes, PointerInfo } from "core/Events/pointerEvents";
+import { Ray } from "core/Culling/ray";
+import { Vector2, Vector3 } from "core/Maths/math.vector";
+import type { Mesh } from "core/Meshes/mesh";
+import { CreateBox } from "core/Meshes/Builders/boxBuilder";
+import "core/Materials/standardMaterial";
+import { Logger } from "core/Misc/logger";
+import { Scene } from "core/scene";
+
+describe("Flow Graph Compiler", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let flowGraphCoordinator: FlowGraphCoordinator;
+    let flowGraph: FlowGraph;
+    let flowGraphContext: FlowGraphContext;
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+
+        Logger.Log = jest.fn();
+        scene = new Scene(engine);
+        flowGraphCoordinator = new FlowGraphCoordinator({ scene });
+        flowGraph = flowGraphCoordinator.createGraph();
+        flowGraphContext = flowGraph.createContext();
+    });
+
+    async function CompileAsync(): Promise<IFlowGraphCompiledModule> {
+        const serialized: any = {};
+        // the path converter of the JSON pointer blocks is given when loading the graph
+        flowGraph.serialize(serialized, (key, value, serializationObject) => key !== "pathConverter" && defaultValueSerializationFunction(key, value, serializationObject));
+        const code = await CompileFlowGraphAsync(serialized, { format: "function" });
+        // eslint-disable-next-line no-new-func
+        return new Function(code)();
+    }
+
+    it("Runs a compiled graph like the interpreted graph", async () => {
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+
+        const forLoop = new FlowGraphForLoopBlock();
+        sceneReady.done.connectTo(forLoop.in);
+        forLoop.endIndex.setValue(3, flowGraphContext);
+
+        const add = new FlowGraphAddBlock();
+        forLoop.index.connectTo(add.a);
+        add.b.setValue(10, flowGraphContext);
+
+        const logIndex = new FlowGraphConsoleLogBlock();
+        forLoop.executionFlow.connectTo(logIndex.in);
+        add.value.connectTo(logIndex.message);
+
+        const setVariable = new FlowGraphSetVariableBlock({ variable: "total" });
+        forLoop.completed.connectTo(setVariable.in);
+        add.value.connectTo(setVariable.getDataInput("value")!);
+
+        const branch = new FlowGraphBranchBlock();
+        setVariable.out.connectTo(branch.in);
+        const getFlag = new FlowGraphGetVariableBlock({ variable: "flag" });
+        getFlag.value.connectTo(branch.condition);
+        flowGraphContext.setVariable("flag", true);
+
+        const conditional = new FlowGraphConditionalDataBlock();
+        getFlag.value.connectTo(conditional.condition);
+        conditional.onTrue.setValue("on", flowGraphContext);
+        conditional.onFalse.setValue("off", flowGraphContext);
+
+        const logFlag = new FlowGraphConsoleLogBlock();
+        branch.onTrue.connectTo(logFlag.in);
+        conditional.output.connectTo(logFlag.message);
+
+        const compiledGraph = await CompileAsync();
+
+        flowGraph.start();
+        const interpretedCalls = (Logger.Log as jest.Mock).mock.calls.slice();
+        expect(interpretedCalls.length).toBe(4);
+        flowGraphCoordinator.removeGraph(flowGraph);
+        (Logger.Log as jest.Mock).mockClear();
+
+        const graph = await LoadCompiledFlowGraphAsync(compiledGraph, { coordinator: flowGraphCoordinator });
+        expect(flowGraphCoordinator.compiledGraphs).toContain(graph);
+        flowGraphCoordinator.start();
+
+        expect((Logger.Log as jest.Mock).mock.calls).toEqual(interpretedCalls);
+        expect(graph.getVariable("total")).toEqual(flowGraphContext.getVariable("total"));
+    });
+
+    it("Runs the tick events of a compiled graph", async () => {
+        const sceneTick = new FlowGraphSceneTickEventBlock();
+        flowGraph.addEventBlock(sceneTick);
+
+        const counter = new FlowGraphCallCounterBlock();
+        sceneTick.done.connectTo(counter.in);
+
+        const log = new FlowGraphConsoleLogBlock({ messageTemplate: "tick {count}" });
+        counter.out.connectTo(log.in);
+        counter.count.connectTo(log.getDataInput("count")!);
+
+        // the compiled graph runs in another scene, where the interpreted graph does not listen to the ticks
+        const compiledScene = new Scene(engine);
+        const compiledCoordinator = new FlowGraphCoordinator({ scene: compiledScene });
+        const graph = await LoadCompiledFlowGraphAsync(await CompileAsync(), { coordinator: compiledCoordinator });
+        graph.start();
+
+        compiledScene.onBeforeRenderObservable.notifyObservers(compiledScene);
+        compiledScene.onBeforeRenderObservable.notifyObservers(compiledScene);
+        expect(Logger.Log).toHaveBeenNthCalledWith(1, "tick 1");
+        expect(Logger.Log).toHaveBeenNthCalledWith(2, "tick 2");
+
+        compiledCoordinator.dispose();
+        compiledScene.onBeforeRenderObservable.notifyObservers(compiledScene);
+        expect(Logger.Log).toHaveBeenCalledTimes(2);
+    });
+
+    it("Runs the pointer events of a compiled graph", async () => {
+        const parent = CreateBox("parent", {}, scene);
+        const child = CreateBox("child", {}, scene);
+        child.parent = parent;
+
+        const meshPick = new FlowGraphMeshPickEventBlock({ targetMesh: parent });
+        flowGraph.addEventBlock(meshPick);
+        const getPickedMeshName = new FlowGraphGetPropertyBlock({ propertyName: "name" });
+        meshPick.pickedMesh.connectTo(getPickedMeshName.object);
+        const logPick = new FlowGraphConsoleLogBlock({ messageTemplate: "pick {mesh} {pointerId} {point}" });
+        meshPick.done.connectTo(logPick.in);
+        getPickedMeshName.value.connectTo(logPick.getDataInput("mesh")!);
+        meshPick.pointerId.connectTo(logPick.getDataInput("pointerId")!);
+        meshPick.pickedPoint.connectTo(logPick.getDataInput("point")!);
+
+        const pointerOver = new FlowGraphPointerOverEventBlock({ targetMesh: parent });
+        flowGraph.addEventBlock(pointerOver);
+        const getMeshUnderPointerName = new FlowGraphGetPropertyBlock({ propertyName: "name" });
+        pointerOver.meshUnderPointer.connectTo(getMeshUnderPointerName.object);
+        const logOver = new FlowGraphConsoleLogBlock({ messageTemplate: "over {mesh}" });
+        pointerOver.done.connectTo(logOver.in);
+        getMeshUnderPointerName.value.connectTo(logOver.getDataInput("mesh")!);
+
+        const triggerPointerEvents = () => {
+            const pickInfo = new PickingInfo();
+            pickInfo.hit = true;
+            pickInfo.pickedMesh = child;
+            pickInfo.pickedPoint = new Vector3(1, 2, 3);
+            pickInfo.ray = new Ray(Vector3.Zero(), Vector3.Forward());
+            scene.onPointerObservable.notifyObservers(new PointerInfo(PointerEventTypes.POINTERPICK, { pointerId: 7 } as any, pickInfo), PointerEventTypes.POINTERPICK);
+            scene.onMeshUnderPointerUpdatedObservable.notifyObservers({ mesh: child, pointerId: 7 }, PointerEventTypes.POINTERMOVE);
+            scene.onMeshUnderPointerUpdatedObservable.notifyObservers({ mesh: null, pointerId: 7 }, PointerEventTypes.POINTERMOVE);
+        };
+
+        const compiledGraph = await CompileAsync();
+
+        flowGraph.start();
+        triggerPointerEvents();
+        const interpretedCalls = (Logger.Log as jest.Mock).mock.calls.slice();
+        expect(interpretedCalls).toEqual([["pick child 7 {X: 1 Y: 2 Z: 3}"], ["over child"]]);
+        flowGraphCoordinator.removeGraph(flowGraph);
+        (Logger.Log as jest.Mock).mockClear();
+
+        const graph = await LoadCompiledFlowGraphAsync(compiledGraph, { coordinator: flowGraphCoordinator });
+        graph.start();
+        triggerPointerEvents();
+
+        expect((Logger.Log as jest.Mock).mock.calls).toEqual(interpretedCalls);
+        expect(scene.constantlyUpdateMeshUnderPointer).toBe(true);
+    });
+
+    it("Sets properties and JSON pointers in a compiled graph", async () => {
+        const nodes = [CreateBox("first", {}, scene), CreateBox("second", {}, scene)];
+        const pathConverter = {
+            convert: (path: string) => ({
+                object: nodes[Number(path.split("/")[2])],
+                info: {
+                    type: "number",
+                    get: (node: Mesh) => node.position.y,
+                    set: (value: number, node: Mesh) => {
+                        node.position.y = value;
+                    },
+                    getTarget: (node: Mesh) => node,
+                    getPropertyName: [() => "position.y"],
+                },
+            }),
+        };
+
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+
+        const setProperty = new FlowGraphSetPropertyBlock({ target: nodes[0], propertyName: "position.x" });
+        sceneReady.done.connectTo(setProperty.in);
+        setProperty.value.setValue(5, flowGraphContext);
+
+        const jsonPointer = new FlowGraphJsonPointerParserBlock({ jsonPointer: "/meshes/{index}/y", pathConverter });
+        jsonPointer.getDataInput("index")!.setValue(new FlowGraphInteger(1), flowGraphContext);
+        const setPointer = new FlowGraphSetPropertyBlock({});
+        setProperty.out.connectTo(setPointer.in);
+        jsonPointer.setterFunction.connectTo(setPointer.customSetFunction);
+        setPointer.value.setValue(7, flowGraphContext);
+
+        const getPointer = new FlowGraphGetPropertyBlock({});
+        jsonPointer.getterFunction.connectTo(getPointer.customGetFunction);
+        const log = new FlowGraphConsoleLogBlock({ messageTemplate: "{x} {y} {name}" });
+        setPointer.out.connectTo(log.in);
+        const getX = new FlowGraphGetPropertyBlock({ object: nodes[0], propertyName: "position.x" });
+        getX.value.connectTo(log.getDataInput("x")!);
+        getPointer.value.connectTo(log.getDataInput("y")!);
+        jsonPointer.propertyName.connectTo(log.getDataInput("name")!);
+
+        const compiledGraph = await CompileAsync();
+
+        flowGraph.start();
+        // the meshes are never ready with the null engine
+        scene.onReadyObservable.notifyObservers(scene);
+        const interpretedCalls = (Logger.Log as jest.Mock).mock.calls.slice();
+        expect(interpretedCalls).toEqual([["5 7 position.y"]]);
+        flowGraphCoordinator.removeGraph(flowGraph);
+        (Logger.Log as jest.Mock).mockClear();
+        nodes[0].position.x = 0;
+        nodes[1].position.y = 0;
+
+        const graph = await LoadCompiledFlowGraphAsync(compiledGraph, { coordinator: flowGraphCoordinator, pathConverter });
+        graph.start();
+        scene.onReadyObservable.notifyObservers(scene);
+
+        expect((Logger.Log as jest.Mock).mock.calls).toEqual(interpretedCalls);
+        expect(nodes[0].position.x).toBe(5);
+        expect(nodes[1].position.y).toBe(7);
+    });
+
+    it("Runs the animation and delay blocks of a compiled graph", async () => {
+        const node = CreateBox("node", {}, scene);
+
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+        const setDelay = new FlowGraphSetDelayBlock();
+        sceneReady.done.connectTo(setDelay.in);
+        setDelay.duration.setValue(0, flowGraphContext);
+        const logDelay = new FlowGraphConsoleLogBlock({ messageTemplate: "delay {index}" });
+        setDelay.out.connectTo(logDelay.in);
+        setDelay.lastDelayIndex.connectTo(logDelay.getDataInput("index")!);
+
+        const easing = new FlowGraphBezierCurveEasingBlock();
+        easing.controlPoint1.setValue(new Vector2(0.25, 0.1), flowGraphContext);
+        easing.controlPoint2.setValue(new Vector2(0.25, 1), flowGraphContext);
+        const interpolation = new FlowGraphInterpolationBlock({ propertyName: "position.x", duration: 1 });
+        interpolation.keyFrames[1].value.setValue(10, flowGraphContext);
+        easing.easingFunction.connectTo(interpolation.easingFunction);
+
+        const playAnimation = new FlowGraphPlayAnimationBlock();
+        setDelay.done.connectTo(playAnimation.in);
+        interpolation.animation.connectTo(playAnimation.animation);
+        playAnimation.object.setValue(node, flowGraphContext);
+        const logPlay = new FlowGraphConsoleLogBlock();
+        playAnimation.out.connectTo(logPlay.in);
+        logPlay.message.setValue("playing", flowGraphContext);
+
+        const stopDelay = new FlowGraphSetDelayBlock();
+        logPlay.out.connectTo(stopDelay.in);
+        stopDelay.duration.setValue(1, flowGraphContext);
+        const stopAnimation = new FlowGraphStopAnimationBlock();
+        stopDelay.done.connectTo(stopAnimation.in);
+        playAnimation.currentAnimationGroup.connectTo(stopAnimation.animationGroup);
+        const logStop = new FlowGraphConsoleLogBlock();
+        stopAnimation.out.connectTo(logStop.in);
+        logStop.message.setValue("stopped", flowGraphContext);
+
+        // the delays are timed with the current date
+        let now = 1000;
+        const dateNow = jest.spyOn(Date, "now").mockImplementation(() => now);
+        const compiledScene = new Scene(engine);
+        const compiledNode = CreateBox("node", {}, compiledScene);
+        const compiledCoordinator = new FlowGraphCoordinator({ scene: compiledScene });
+        const graph = await LoadCompiledFlowGraphAsync(await CompileAsync(), { coordinator: compiledCoordinator });
+        graph.start();
+        compiledScene.onReadyObservable.notifyObservers(compiledScene);
+        expect(Logger.Log).toHaveBeenNthCalledWith(1, "delay 0");
+
+        compiledScene.onBeforeRenderObservable.notifyObservers(compiledScene);
+        expect(Logger.Log).toHaveBeenCalledTimes(2);
+        expect(Logger.Log).toHaveBeenNthCalledWith(2, "playing");
+        const animationGroup = compiledScene.animationGroups[0];
+        expect(animationGroup.isPlaying).toBe(true);
+        expect(animationGroup.targetedAnimations[0].target).toBe(compiledNode);
+        expect(animationGroup.targetedAnimations[0].animation.targetProperty).toBe("position.x");
+        expect(animationGroup.targetedAnimations[0].animation.getKeys().map((key) => [key.frame, key.value])).toEqual([
+            [0, 0],
+            [60, 10],
+        ]);
+        expect(animationGroup.targetedAnimations[0].animation.getEasingFunction()).toBeInstanceOf(BezierCurveEase);
+
+        now += 1000;
+        compiledScene.onBeforeRenderObservable.notifyObservers(compiledScene);
+        expect(Logger.Log).toHaveBeenNthCalledWith(3, "stopped");
+        expect(animationGroup.isPlaying).toBe(false);
+
+        compiledCoordinator.dispose();
+        dateNow.mockRestore();
+    });
+
+    it("Does not compile graphs with unsupported blocks", async () => {
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+
+        const throttle = new FlowGraphThrottleBlock();
+        sceneReady.done.connectTo(throttle.in);
+
+        await expect(CompileAsync()).rejects.toThrow("FlowGraphThrottleBlock");
+    });
+});
@@ -0,0 +1,146 @@
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import type { FlowGraph } from "core/FlowGraph/flowGraph";
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import { FlowGraphCoordinator } from "core/FlowGraph/flowGraphCoordinator";
+import type { IFlowGraphDebuggerPauseInfo } from "core/FlowGraph/flowGraphDebugger";
+import { FlowGraphDebugger } from "core/FlowGraph/flowGraphDebugger";
+import { FlowGraphSceneReadyEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphSceneReadyEventBlock";
+import { FlowGraphConsoleLogBlock } from "core/FlowGraph/Blocks/Execution/flowGraphConsoleLogBlock";
+import { FlowGraphForLoopBlock } from "core/FlowGraph/Blocks/Execution/ControlFlow/flowGraphForLoopBlock";
+import { Logger } from "core/Misc/logger";
+import { Scene } from "core/scene";
+
+describe("Flow Graph Debugger", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let flowGraphCoordinator: FlowGraphCoordinator;
+    let flowGraph: FlowGraph;
+    let flowGraphContext: FlowGraphContext;
+    let forLoop: FlowGraphForLoopBlock;
+    let loop: FlowGraphConsoleLogBlock;
+    let done: FlowGraphConsoleLogBlock;
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+
+        Logger.Log = jest.fn();
+        scene = new Scene(engine);
+        flowGraphCoordinator = new FlowGraphCoordinator({ scene });
+        flowGraph = flowGraphCoordinator.createGraph();
+        flowGraphContext = flowGraph.createContext();
+
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+
+        forLoop = new FlowGraphForLoopBlock();
+        sceneReady.done.connectTo(forLoop.in);
+        forLoop.startIndex.setValue(1, flowGraphContext);
+        forLoop.endIndex.setValue(7, flowGraphContext);
+        forLoop.step.setValue(2, flowGraphContext);
+
+        loop = new FlowGraphConsoleLogBlock();
+        forLoop.executionFlow.connectTo(loop.in);
+        forLoop.index.connectTo(loop.message);
+
+        done = new FlowGraphConsoleLogBlock();
+        forLoop.completed.connectTo(done.in);
+        done.message.setValue("done", flowGraphContext);
+    });
+
+    it("Pauses on a block breakpoint and resumes", () => {
+        const graphDebugger = new FlowGraphDebugger(flowGraphContext);
+        const breakpoint = graphDebugger.addBreakpoint(loop);
+        const pauses: IFlowGraphDebuggerPauseInfo[] = [];
+        graphDebugger.onPausedObservable.add((info) => pauses.push(info));
+
+        flowGraph.start();
+
+        expect(graphDebugger.isPaused).toBe(true);
+        expect(pauses.length).toBe(1);
+        expect(pauses[0].breakpoint).toBe(breakpoint);
+        expect(pauses[0].connection).toBe(loop.in);
+        expect(graphDebugger.nextBlock).toBe(loop);
+        expect(graphDebugger.pendingSignals.length).toBe(4);
+        expect(Logger.Log).not.toHaveBeenCalled();
+
+        graphDebugger.removeBreakpoint(breakpoint);
+        graphDebugger.resume();
+
+        expect(graphDebugger.isPaused).toBe(false);
+        expect(graphDebugger.pendingSignals.length).toBe(0);
+        expect(Logger.Log).toHaveBeenCalledTimes(4);
+        expect(Logger.Log).toHaveBeenNthCalledWith(1, { value: 1 });
+        expect(Logger.Log).toHaveBeenNthCalledWith(2, { value: 3 });
+        expect(Logger.Log).toHaveBeenNthCalledWith(3, { value: 5 });
+        expect(Logger.Log).toHaveBeenNthCalledWith(4, "done");
+    });
+
+    it("Steps signal by signal", () => {
+        const graphDebugger = new FlowGraphDebugger(flowGraphContext);
+        graphDebugger.addBreakpoint(forLoop);
+
+        flowGraph.start();
+
+        expect(graphDebugger.nextBlock).toBe(forLoop);
+        expect(graphDebugger.step()).toBe(forLoop);
+        expect(Logger.Log).not.toHaveBeenCalled();
+        expect(graphDebugger.step()).toBe(loop);
+        expect(Logger.Log).toHaveBeenLastCalledWith({ value: 1 });
+        expect(graphDebugger.getConnectionValue(loop.message)).toEqual({ value: 1 });
+        expect(graphDebugger.step()).toBe(loop);
+        expect(Logger.Log).toHaveBeenLastCalledWith({ value: 3 });
+        expect(graphDebugger.step()).toBe(loop);
+        expect(graphDebugger.step()).toBe(done);
+        expect(Logger.Log).toHaveBeenLastCalledWith("done");
+        expect(graphDebugger.step()).toBe(null);
+        expect(graphDebugger.isPaused).toBe(true);
+    });
+
+    it("Pauses on an output signal breakpoint with a condition", () => {
+        const graphDebugger = new FlowGraphDebugger(flowGraphContext);
+        graphDebugger.addBreakpoint(forLoop.executionFlow, (context) => forLoop.index.getValue(context).value === 5);
+
+        flowGraph.start();
+
+        expect(graphDebugger.isPaused).toBe(true);
+        expect(graphDebugger.pauseInfo!.connection).toBe(forLoop.executionFlow);
+        expect(Logger.Log).toHaveBeenCalledTimes(2);
+        expect(graphDebugger.getBlockValues(forLoop).outputs.index.value).toBe(5);
+
+        graphDebugger.resume();
+
+        expect(Logger.Log).toHaveBeenCalledTimes(4);
+        expect(Logger.Log).toHaveBeenNthCalledWith(3, { value: 5 });
+    });
+
+    it("Pauses on request and inspects the variables", () => {
+        const graphDebugger = new FlowGraphDebugger(flowGraphContext);
+        flowGraphContext.setVariable("test", 42);
+        graphDebugger.watch(loop.message);
+        graphDebugger.pause();
+
+        flowGraph.start();
+
+        expect(graphDebugger.isPaused).toBe(true);
+        expect(graphDebugger.pauseInfo!.breakpoint).toBe(null);
+        expect(graphDebugger.nextBlock).toBe(forLoop);
+        expect(graphDebugger.userVariables.test).toBe(42);
+
+        graphDebugger.step();
+        graphDebugger.step();
+
+        expect(graphDebugger.getWatchedValues().get(loop.message)).toEqual({ value: 1 });
+
+        graphDebugger.dispose();
+
+        expect(flowGraphContext._debugger).toBe(null);
+        expect(Logger.Log).toHaveBeenCalledTimes(4);
+    });
+});
@@ -0,0 +1,208 @@
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import type { FlowGraph } from "core/FlowGraph/flowGraph";
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import { FlowGraphCoordinator } from "core/FlowGraph/flowGraphCoordinator";
+import { FlowGraphPhysicsRaycastBlock } from "core/FlowGraph/Blocks/Data/Physics/flowGraphPhysicsRaycastBlock";
+import { FlowGraphPhysicsCollisionEndedEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphPhysicsCollisionEndedEventBlock";
+import { FlowGraphPhysicsCollisionEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphPhysicsCollisionEventBlock";
+import { FlowGraphSceneReadyEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphSceneReadyEventBlock";
+import { FlowGraphPlaySoundBlock } from "core/FlowGraph/Blocks/Execution/Audio/flowGraphPlaySoundBlock";
+import { FlowGraphSetSoundVolumeBlock } from "core/FlowGraph/Blocks/Execution/Audio/flowGraphSetSoundVolumeBlock";
+import { FlowGraphStopSoundBlock } from "core/FlowGraph/Blocks/Execution/Audio/flowGraphStopSoundBlock";
+import { FlowGraphConsoleLogBlock } from "core/FlowGraph/Blocks/Execution/flowGraphConsoleLogBlock";
+import { Vector3 } from "core/Maths/math.vector";
+import { Logger } from "core/Misc/logger";
+import { Observable } from "core/Misc/observable";
+import type { PhysicsRaycastResult } from "core/Physics/physicsRaycastResult";
+import { PhysicsEventType } from "core/Physics/v2/IPhysicsEnginePlugin";
+import { Scene } from "core/scene";
+
+describe("Flow Graph Physics and Audio Nodes", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let flowGraphCoordinator: FlowGraphCoordinator;
+    let flowGraph: FlowGraph;
+    let flowGraphContext: FlowGraphContext;
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+
+        Logger.Log = jest.fn();
+        scene = new Scene(engine);
+        flowGraphCoordinator = new FlowGraphCoordinator({ scene });
+        flowGraph = flowGraphCoordinator.createGraph();
+        flowGraphContext = flowGraph.createContext();
+    });
+
+    function CreateBody() {
+        return {
+            collisionObservable: new Observable<any>(),
+            collisionEndedObservable: new Observable<any>(),
+            getCollisionObservable() {
+                return this.collisionObservable;
+            },
+            getCollisionEndedObservable() {
+                return this.collisionEndedObservable;
+            },
+            _collisionCBEnabled: false,
+            _collisionEndedCBEnabled: false,
+            setCollisionCallbackEnabled: jest.fn(function (this: any, enabled: boolean) {
+                this._collisionCBEnabled = enabled;
+            }),
+            setCollisionEndedCallbackEnabled: jest.fn(function (this: any, enabled: boolean) {
+                this._collisionEndedCBEnabled = enabled;
+            }),
+        };
+    }
+
+    function CreateSound() {
+        return {
+            onEndedObservable: new Observable<any>(),
+            play: jest.fn(),
+            stop: jest.fn(),
+            setVolume: jest.fn(),
+        };
+    }
+
+    it("Triggers on collision started and ended", () => {
+        const body = CreateBody();
+        const other = CreateBody();
+
+        const collision = new FlowGraphPhysicsCollisionEventBlock({ body: body as any });
+        flowGraph.addEventBlock(collision);
+        const logImpulse = new FlowGraphConsoleLogBlock();
+        collision.done.connectTo(logImpulse.in);
+        collision.impulse.connectTo(logImpulse.message);
+
+        const collisionEnded = new FlowGraphPhysicsCollisionEndedEventBlock();
+        collisionEnded.body.setValue(body as any, flowGraphContext);
+        flowGraph.addEventBlock(collisionEnded);
+        const logEnded = new FlowGraphConsoleLogBlock();
+        collisionEnded.done.connectTo(logEnded.in);
+        logEnded.message.setValue("ended", flowGraphContext);
+
+        flowGraph.start();
+
+        expect(body.setCollisionCallbackEnabled).toHaveBeenCalledWith(true);
+        expect(body.setCollisionEndedCallbackEnabled).toHaveBeenCalledWith(true);
+
+        const event = { collider: body, collidedAgainst: other, point: new Vector3(1, 2, 3), normal: Vector3.Up(), impulse: 4, distance: 0 };
+        body.collisionObservable.notifyObservers({ ...event, type: PhysicsEventType.COLLISION_STARTED });
+        body.collisionObservable.notifyObservers({ ...event, type: PhysicsEventType.COLLISION_CONTINUED });
+        expect(Logger.Log).toHaveBeenCalledTimes(1);
+        expect(Logger.Log).toHaveBeenCalledWith(4);
+        expect(collision.otherBody.getValue(flowGraphContext)).toBe(other);
+        expect(collision.point.getValue(flowGraphContext).equals(new Vector3(1, 2, 3))).toBe(true);
+
+        body.collisionEndedObservable.notifyObservers({ collider: body, collidedAgainst: other, type: PhysicsEventType.COLLISION_FINISHED });
+        expect(Logger.Log).toHaveBeenLastCalledWith("ended");
+        expect(collisionEnded.otherBody.getValue(flowGraphContext)).toBe(other);
+
+        flowGraph.dispose();
+        expect(body.collisionObservable.hasObservers()).toBe(false);
+        expect(body.collisionEndedObservable.hasObservers()).toBe(false);
+        expect(body.setCollisionCallbackEnabled).toHaveBeenLastCalledWith(false);
+        expect(body.setCollisionEndedCallbackEnabled).toHaveBeenLastCalledWith(false);
+    });
+
+    it("Keeps the collision callbacks enabled before listening", () => {
+        const body = CreateBody();
+        body._collisionCBEnabled = true;
+        body.collisionEndedObservable.add(() => {});
+
+        flowGraph.addEventBlock(new FlowGraphPhysicsCollisionEventBlock({ body: body as any }));
+        flowGraph.addEventBlock(new FlowGraphPhysicsCollisionEndedEventBlock({ body: body as any }));
+        flowGraph.start();
+        flowGraph.dispose();
+
+        expect(body._collisionCBEnabled).toBe(true);
+        expect(body._collisionEndedCBEnabled).toBe(true);
+    });
+
+    it("Casts a ray in the physics engine", () => {
+        const hitBody = CreateBody();
+        const raycastToRef = jest.fn((_from: Vector3, _to: Vector3, result: PhysicsRaycastResult) => {
+            result.setHitData(Vector3.Up(), new Vector3(0, 1, 0));
+            result.setHitDistance(9);
+            result.body = hitBody as any;
+        });
+        (scene as any).getPhysicsEngine = () => ({ getPluginVersion: () => 2, raycastToRef });
+
+        const raycast = new FlowGraphPhysicsRaycastBlock();
+        raycast.from.setValue(new Vector3(0, 10, 0), flowGraphContext);
+        raycast.to.setValue(new Vector3(0, -10, 0), flowGraphContext);
+        raycast.collideWith.setValue(2, flowGraphContext);
+
+        expect(raycast.hasHit.getValue(flowGraphContext)).toBe(true);
+        expect(raycast.body.getValue(flowGraphContext)).toBe(hitBody);
+        expect(raycast.hitDistance.getValue(flowGraphContext)).toBe(9);
+        expect(raycast.hitPoint.getValue(flowGraphContext).equals(new Vector3(0, 1, 0))).toBe(true);
+        // the ray is cast once per execution
+        expect(raycastToRef).toHaveBeenCalledTimes(1);
+        expect(raycastToRef.mock.calls[0][3]).toEqual({ membership: ~0, collideWith: 2, shouldHitTriggers: false, ignoreBody: undefined });
+    });
+
+    it("Does not hit without a physics engine", () => {
+        const raycast = new FlowGraphPhysicsRaycastBlock();
+
+        expect(raycast.hasHit.getValue(flowGraphContext)).toBe(false);
+        expect(raycast.body.getValue(flowGraphContext)).toBe(null);
+    });
+
+    it("Plays, sets the volume of and stops a sound", () => {
+        const sound = CreateSound();
+
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+
+        const play = new FlowGraphPlaySoundBlock({ sound: sound as any });
+        sceneReady.done.connectTo(play.in);
+        play.loop.setValue(true, flowGraphContext);
+        play.volume.setValue(0.5, flowGraphContext);
+
+        const setVolume = new FlowGraphSetSoundVolumeBlock({ sound: sound as any });
+        play.out.connectTo(setVolume.in);
+        setVolume.volume.setValue(0.25, flowGraphContext);
+        setVolume.rampDuration.setValue(2, flowGraphContext);
+
+        const stop = new FlowGraphStopSoundBlock({ sound: sound as any });
+        setVolume.out.connectTo(stop.in);
+
+        const logDone = new FlowGraphConsoleLogBlock();
+        play.done.connectTo(logDone.in);
+        logDone.message.setValue("done", flowGraphContext);
+
+        flowGraph.start();
+
+        expect(sound.play).toHaveBeenCalledWith({ loop: true, startOffset: 0, volume: 0.5 });
+        expect(sound.setVolume).toHaveBeenCalledWith(0.25, { duration: 2 });
+        expect(sound.stop).toHaveBeenCalledTimes(1);
+        expect(Logger.Log).not.toHaveBeenCalled();
+
+        sound.onEndedObservable.notifyObservers(sound);
+        expect(Logger.Log).toHaveBeenCalledWith("done");
+        expect(sound.onEndedObservable.hasObservers()).toBe(false);
+    });
+
+    it("Reports an error when no sound is provided", () => {
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+
+        const stop = new FlowGraphStopSoundBlock();
+        sceneReady.done.connectTo(stop.in);
+        const logError = new FlowGraphConsoleLogBlock();
+        stop.error.connectTo(logError.in);
+        logError.message.setValue("error", flowGraphContext);
+
+        flowGraph.start();
+
+        expect(Logger.Log).toHaveBeenCalledWith("error");
+    });
+});
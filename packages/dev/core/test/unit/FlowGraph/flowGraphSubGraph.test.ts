@@ -0,0 +1,182 @@
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import type { FlowGraph } from "core/FlowGraph/flowGraph";
+import type { FlowGraphContext } from "core/FlowGraph/flowGraphContext";
+import { FlowGraphCoordinator } from "core/FlowGraph/flowGraphCoordinator";
+import { ParseFlowGraphAsync } from "core/FlowGraph/flowGraphParser";
+import { RichTypeNumber } from "core/FlowGraph/flowGraphRichTypes";
+import { FlowGraphSubGraph } from "core/FlowGraph/flowGraphSubGraph";
+import { FlowGraphAddBlock } from "core/FlowGraph/Blocks/Data/Math/flowGraphMathBlocks";
+import { FlowGraphSceneReadyEventBlock } from "core/FlowGraph/Blocks/Event/flowGraphSceneReadyEventBlock";
+import { FlowGraphConsoleLogBlock } from "core/FlowGraph/Blocks/Execution/flowGraphConsoleLogBlock";
+import { FlowGraphSubGraphBlock } from "core/FlowGraph/Blocks/Execution/SubGraph/flowGraphSubGraphBlock";
+import { Logger } from "core/Misc/logger";
+import { Scene } from "core/scene";
+
+describe("Flow Graph Sub-Graphs", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let flowGraphCoordinator: FlowGraphCoordinator;
+    let flowGraph: FlowGraph;
+    let flowGraphContext: FlowGraphContext;
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+
+        Logger.Log = jest.fn();
+        scene = new Scene(engine);
+        flowGraphCoordinator = new FlowGraphCoordinator({ scene });
+        flowGraph = flowGraphCoordinator.createGraph();
+        flowGraphContext = flowGraph.createContext();
+    });
+
+    // Logs and outputs the sum of its two inputs
+    function CreateLogSumSubGraph() {
+        const subGraph = new FlowGraphSubGraph({
+            name: "LogSum",
+            signalInputs: ["in"],
+            signalOutputs: ["out"],
+            dataInputs: [
+                { name: "a", richType: RichTypeNumber },
+                { name: "b", richType: RichTypeNumber, defaultValue: 10 },
+            ],
+            dataOutputs: [{ name: "sum", richType: RichTypeNumber }],
+        });
+        const add = new FlowGraphAddBlock();
+        subGraph.inputs.getDataOutput("a")!.connectTo(add.a);
+        subGraph.inputs.getDataOutput("b")!.connectTo(add.b);
+        const log = new FlowGraphConsoleLogBlock();
+        add.value.connectTo(log.message);
+        subGraph.inputs.getSignalOutput("in")!.connectTo(log.in);
+        log.out.connectTo(subGraph.outputs.getSignalInput("out")!);
+        add.value.connectTo(subGraph.outputs.getDataInput("sum")!);
+        return subGraph;
+    }
+
+    function CreateGraph(subGraph: FlowGraphSubGraph) {
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+
+        const first = new FlowGraphSubGraphBlock({ subGraph });
+        sceneReady.done.connectTo(first.in);
+        first.getDataInput("a")!.setValue(1, flowGraphContext);
+        first.getDataInput("b")!.setValue(2, flowGraphContext);
+
+        const second = new FlowGraphSubGraphBlock({ subGraph });
+        first.getSignalOutput("out")!.connectTo(second.in);
+        first.getDataOutput("sum")!.connectTo(second.getDataInput("a")!);
+
+        const log = new FlowGraphConsoleLogBlock();
+        second.getSignalOutput("out")!.connectTo(log.in);
+        second.getDataOutput("sum")!.connectTo(log.message);
+    }
+
+    it("Executes instances of a sub-graph", () => {
+        CreateGraph(CreateLogSumSubGraph());
+
+        flowGraph.start();
+
+        expect(Logger.Log).toHaveBeenCalledTimes(3);
+        expect(Logger.Log).toHaveBeenNthCalledWith(1, 3);
+        expect(Logger.Log).toHaveBeenNthCalledWith(2, 13);
+        expect(Logger.Log).toHaveBeenNthCalledWith(3, 13);
+    });
+
+    it("Serializes a sub-graph once and parses it", async () => {
+        CreateGraph(CreateLogSumSubGraph());
+
+        const serialized: any = {};
+        flowGraph.serialize(serialized);
+
+        expect(serialized.allBlocks.length).toBe(4);
+        expect(serialized.subGraphs.length).toBe(1);
+        expect(serialized.subGraphs[0].name).toBe("LogSum");
+        expect(serialized.subGraphs[0].allBlocks.length).toBe(4);
+
+        flowGraph.dispose();
+        const parsed = await ParseFlowGraphAsync(serialized, { coordinator: flowGraphCoordinator });
+        parsed.start();
+
+        expect(Logger.Log).toHaveBeenCalledTimes(3);
+        expect(Logger.Log).toHaveBeenNthCalledWith(1, 3);
+        expect(Logger.Log).toHaveBeenNthCalledWith(2, 13);
+        expect(Logger.Log).toHaveBeenNthCalledWith(3, 13);
+    });
+
+    it("Copies the values of unconnected inputs to the instances and serializes them", async () => {
+        const subGraph = new FlowGraphSubGraph({ name: "AddHundred", signalInputs: ["in"], dataInputs: [{ name: "a", richType: RichTypeNumber }] });
+        const add = new FlowGraphAddBlock();
+        subGraph.inputs.getDataOutput("a")!.connectTo(add.a);
+        subGraph.setInputValue(add.b, 100);
+        const log = new FlowGraphConsoleLogBlock();
+        add.value.connectTo(log.message);
+        subGraph.inputs.getSignalOutput("in")!.connectTo(log.in);
+
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+        const instance = new FlowGraphSubGraphBlock({ subGraph });
+        sceneReady.done.connectTo(instance.in);
+        instance.getDataInput("a")!.setValue(5, flowGraphContext);
+
+        expect(subGraph.getInputValue(add.b)).toBe(100);
+        expect(subGraph.getInputValue(add.a)).toBeUndefined();
+        expect(() => subGraph.setInputValue(add.value as any, 1)).toThrow();
+
+        flowGraph.start();
+
+        expect(Logger.Log).toHaveBeenCalledTimes(1);
+        expect(Logger.Log).toHaveBeenCalledWith(105);
+
+        const serialized: any = {};
+        flowGraph.serialize(serialized);
+        expect(serialized.subGraphs[0].inputValues).toEqual([{ block: add.uniqueId, input: "b", value: 100 }]);
+
+        flowGraph.dispose();
+        const parsed = await ParseFlowGraphAsync(serialized, { coordinator: flowGraphCoordinator });
+        parsed.start();
+
+        expect(Logger.Log).toHaveBeenCalledTimes(2);
+        expect(Logger.Log).toHaveBeenNthCalledWith(2, 105);
+    });
+
+    it("Instantiates nested sub-graphs", () => {
+        const logSum = CreateLogSumSubGraph();
+        const twice = new FlowGraphSubGraph({ name: "Twice", signalInputs: ["in"], dataInputs: [{ name: "a", richType: RichTypeNumber }] });
+        const first = new FlowGraphSubGraphBlock({ subGraph: logSum });
+        const second = new FlowGraphSubGraphBlock({ subGraph: logSum });
+        twice.inputs.getSignalOutput("in")!.connectTo(first.in);
+        twice.inputs.getDataOutput("a")!.connectTo(first.getDataInput("a")!);
+        first.getSignalOutput("out")!.connectTo(second.in);
+        first.getDataOutput("sum")!.connectTo(second.getDataInput("a")!);
+
+        const sceneReady = new FlowGraphSceneReadyEventBlock();
+        flowGraph.addEventBlock(sceneReady);
+        const instance = new FlowGraphSubGraphBlock({ subGraph: twice });
+        sceneReady.done.connectTo(instance.in);
+        instance.getDataInput("a")!.setValue(5, flowGraphContext);
+
+        flowGraph.start();
+
+        expect(Logger.Log).toHaveBeenCalledTimes(2);
+        expect(Logger.Log).toHaveBeenNthCalledWith(1, 15);
+        expect(Logger.Log).toHaveBeenNthCalledWith(2, 25);
+
+        const serialized: any = {};
+        flowGraph.serialize(serialized);
+        expect(serialized.subGraphs.map((subGraph: any) => subGraph.name)).toEqual(["LogSum", "Twice"]);
+    });
+
+    it("Does not instantiate a sub-graph in itself", () => {
+        const subGraph = new FlowGraphSubGraph({ name: "Recursive", signalInputs: ["in"] });
+        const instance = new FlowGraphSubGraphBlock({ subGraph });
+        subGraph.inputs.getSignalOutput("in")!.connectTo(instance.in);
+
+        expect(() => new FlowGraphSubGraphBlock({ subGraph })).toThrow();
+    });
+});
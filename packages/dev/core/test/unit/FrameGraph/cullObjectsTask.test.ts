@@ -0,0 +1,99 @@
+import { FreeCamera } from "core/Cameras/freeCamera";
+import { NullEngine } from "core/Engines/nullEngine";
+import { FrameGraph } from "core/FrameGraph/frameGraph";
+import { FrameGraphCullObjectsTask } from "core/FrameGraph/Tasks/Misc/cullObjectsTask";
+import { FrameGraphHZBOcclusionCullingTask } from "core/FrameGraph/Tasks/Misc/hzbOcclusionCullingTask";
+import { Vector3 } from "core/Maths/math.vector";
+import type { AbstractMesh } from "core/Meshes/abstractMesh";
+import { CreateBox } from "core/Meshes/Builders/boxBuilder";
+import { Scene } from "core/scene";
+
+describe("FrameGraphCullObjectsTask", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let frameGraph: FrameGraph;
+    let camera: FreeCamera;
+    let visibleMesh: AbstractMesh;
+    let occludedMesh: AbstractMesh;
+    let outOfFrustumMesh: AbstractMesh;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        frameGraph = new FrameGraph(scene);
+        camera = new FreeCamera("camera", new Vector3(0, 0, -10), scene);
+        // Computes the matrices of the camera, as done by the scene before rendering
+        camera.getViewMatrix();
+        camera.getProjectionMatrix();
+        visibleMesh = CreateBox("visible", {}, scene);
+        occludedMesh = CreateBox("occluded", {}, scene);
+        outOfFrustumMesh = CreateBox("outOfFrustum", {}, scene);
+        outOfFrustumMesh.position.z = -50;
+        outOfFrustumMesh.computeWorldMatrix(true);
+    });
+
+    afterEach(() => {
+        frameGraph.dispose();
+        scene.dispose();
+        engine.dispose();
+    });
+
+    const createTask = () => {
+        const task = new FrameGraphCullObjectsTask("cull", frameGraph, scene);
+        task.objectList = { meshes: [visibleMesh, occludedMesh, outOfFrustumMesh], particleSystems: [] };
+        task.camera = camera;
+        frameGraph.addTask(task);
+        return task;
+    };
+
+    // The occlusion culling task is not added to the frame graph: its culler reports the results of a previous frame
+    const createOcclusionCullingTask = () => {
+        const occlusionCullingTask = new FrameGraphHZBOcclusionCullingTask("hzb", frameGraph, scene);
+        jest.spyOn(occlusionCullingTask.culler, "isMeshOccluded").mockImplementation((mesh) => mesh === occludedMesh);
+        return occlusionCullingTask;
+    };
+
+    const cullAsync = async (task: FrameGraphCullObjectsTask) => {
+        await frameGraph.buildAsync(false);
+        frameGraph.execute();
+        return task.outputObjectList.meshes!.map((mesh) => mesh.name);
+    };
+
+    it("culls the meshes outside of the camera frustum", async () => {
+        const task = createTask();
+
+        expect(await cullAsync(task)).toEqual(["visible", "occluded"]);
+    });
+
+    it("culls the meshes found occluded by the occlusion culling task", async () => {
+        const task = createTask();
+        task.occlusionCullingTask = createOcclusionCullingTask();
+
+        expect(await cullAsync(task)).toEqual(["visible"]);
+    });
+
+    it("doesn't cull the occluded meshes which are always selected as active meshes", async () => {
+        const task = createTask();
+        task.occlusionCullingTask = createOcclusionCullingTask();
+        occludedMesh.alwaysSelectAsActiveMesh = true;
+
+        expect(await cullAsync(task)).toEqual(["visible", "occluded"]);
+    });
+
+    it("doesn't use the results of the occlusion culling task when it is disabled", async () => {
+        const task = createTask();
+        task.occlusionCullingTask = createOcclusionCullingTask();
+        task.occlusionCullingTask.disabled = true;
+
+        expect(await cullAsync(task)).toEqual(["visible", "occluded"]);
+        expect(task.occlusionCullingTask.culler.isMeshOccluded).not.toHaveBeenCalled();
+    });
+
+    it("outputs the input object list when the task is disabled", async () => {
+        const task = createTask();
+        task.occlusionCullingTask = createOcclusionCullingTask();
+        task.disabled = true;
+
+        expect(await cullAsync(task)).toEqual(["visible", "occluded", "outOfFrustum"]);
+    });
+});
@@ -0,0 +1,97 @@
+import { FreeCamera } from "core/Cameras/freeCamera";
+import { Constants } from "core/Engines/constants";
+import { NullEngine } from "core/Engines/nullEngine";
+import { FrameGraph } from "core/FrameGraph/frameGraph";
+import { FrameGraphDeferredLightingTask } from "core/FrameGraph/Tasks/Rendering/deferredLightingTask";
+import { ClusteredLightContainer } from "core/Lights/Clustered/clusteredLightContainer";
+import { InternalTexture } from "core/Materials/Textures/internalTexture";
+import { Vector3 } from "core/Maths/math.vector";
+import { Scene } from "core/scene";
+
+describe("FrameGraphDeferredLightingTask", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let frameGraph: FrameGraph;
+    let camera: FreeCamera;
+    let lightContainer: ClusteredLightContainer;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        // The null engine can't create render target textures
+        jest.spyOn(engine, "_createInternalTexture").mockImplementation((_size, _options, _delayGPUTextureCreation, source) => new InternalTexture(engine, source!));
+        frameGraph = new FrameGraph(scene);
+        camera = new FreeCamera("camera", new Vector3(0, 0, -10), scene);
+        lightContainer = new ClusteredLightContainer("lights", [], scene);
+    });
+
+    afterEach(() => {
+        frameGraph.dispose();
+        scene.dispose();
+        engine.dispose();
+    });
+
+    const createTexture = (name: string, type = Constants.TEXTURETYPE_UNSIGNED_BYTE) => {
+        return frameGraph.textureManager.createRenderTargetTexture(name, {
+            size: { width: 8, height: 4 },
+            options: { types: [type], formats: [Constants.TEXTUREFORMAT_RGBA] },
+            sizeIsPercentage: false,
+        });
+    };
+
+    const createTask = () => {
+        const task = new FrameGraphDeferredLightingTask("lighting", frameGraph);
+        task.sourceTexture = createTexture("source");
+        task.albedoTexture = createTexture("albedo");
+        task.normalTexture = createTexture("normal", Constants.TEXTURETYPE_HALF_FLOAT);
+        task.positionTexture = createTexture("position", Constants.TEXTURETYPE_HALF_FLOAT);
+        task.reflectivityTexture = createTexture("reflectivity");
+        task.camera = camera;
+        task.lightContainer = lightContainer;
+        frameGraph.addTask(task);
+        return task;
+    };
+
+    it("lights the source texture, reading the textures of the G-buffer", async () => {
+        const task = createTask();
+
+        await frameGraph.buildAsync(false);
+
+        const [pass] = frameGraph.profiler.report!.passes;
+        expect(pass.type).toBe("render");
+        expect(pass.readTextures).toEqual([task.sourceTexture, task.albedoTexture, task.normalTexture, task.positionTexture, task.reflectivityTexture]);
+        expect(pass.writtenTextures).toEqual([task.outputTexture]);
+        const outputDescription = frameGraph.textureManager.getTextureDescription(task.outputTexture);
+        expect(outputDescription.size).toEqual({ width: 8, height: 4 });
+        expect(outputDescription.options.types).toEqual([Constants.TEXTURETYPE_UNSIGNED_BYTE]);
+    });
+
+    it("compiles the effect with the defines of the light container", () => {
+        const task = createTask();
+
+        const defines = task.postProcess.drawWrapper.effect!.defines;
+
+        expect(defines).toContain("#define LIGHT0");
+        expect(defines).toContain("#define CLUSTLIGHT0");
+        expect(defines).toContain(`#define CLUSTLIGHT_SLICES ${lightContainer.depthSlices}`);
+    });
+
+    const requiredProperties = ["albedoTexture", "normalTexture", "positionTexture", "reflectivityTexture"] as const;
+    for (const property of requiredProperties) {
+        it(`throws when the ${property} is not set`, async () => {
+            const task = createTask();
+            (task as Partial<FrameGraphDeferredLightingTask>)[property] = undefined;
+
+            await expect(frameGraph.buildAsync(false)).rejects.toThrow(
+                'FrameGraphDeferredLightingTask "lighting": sourceTexture, albedoTexture, normalTexture, positionTexture, reflectivityTexture, camera and lightContainer are required'
+            );
+        });
+    }
+
+    it("throws when the light container is not set", async () => {
+        const task = createTask();
+        task.postProcess.lightContainer = null;
+
+        await expect(frameGraph.buildAsync(false)).rejects.toThrow("camera and lightContainer are required");
+    });
+});
@@ -0,0 +1,146 @@
+import { Constants } from "core/Engines/constants";
+import { NullEngine } from "core/Engines/nullEngine";
+import { FrameGraph } from "core/FrameGraph/frameGraph";
+import { FrameGraphTask } from "core/FrameGraph/frameGraphTask";
+import { InternalTexture } from "core/Materials/Textures/internalTexture";
+import type { FrameGraphComputePass } from "core/FrameGraph/Passes/computePass";
+import type { FrameGraphTextureHandle } from "core/FrameGraph/frameGraphTypes";
+import { Scene } from "core/scene";
+
+/**
+ * Task made of a single compute pass, which declares the textures it reads and writes
+ */
+class ComputeTask extends FrameGraphTask {
+    public readTextures: FrameGraphTextureHandle[] = [];
+    public writtenTextures: FrameGraphTextureHandle[] = [];
+
+    constructor(
+        name: string,
+        frameGraph: FrameGraph,
+        public asyncCompute = false
+    ) {
+        super(name, frameGraph);
+    }
+
+    public record(): void {
+        const pass: FrameGraphComputePass = this._frameGraph.addComputePass(this.name);
+
+        pass.addDependencies(this.readTextures);
+        pass.addWrittenTextures(this.writtenTextures);
+        pass.setExecuteFunc(() => {});
+    }
+}
+
+/**
+ * Task made of a generic pass, which can use any resource
+ */
+class GenericTask extends FrameGraphTask {
+    public record(): void {
+        const pass = this._frameGraph.addPass(this.name);
+
+        pass.setExecuteFunc(() => {});
+    }
+}
+
+describe("FrameGraph", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let frameGraph: FrameGraph;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        // The null engine can't create render target textures
+        jest.spyOn(engine, "_createInternalTexture").mockImplementation((_size, _options, _delayGPUTextureCreation, source) => new InternalTexture(engine, source!));
+        frameGraph = new FrameGraph(scene);
+    });
+
+    afterEach(() => {
+        frameGraph.dispose();
+        scene.dispose();
+        engine.dispose();
+    });
+
+    const createTexture = (name: string) => {
+        return frameGraph.textureManager.createRenderTargetTexture(name, {
+            size: { width: 4, height: 4 },
+            options: { formats: [Constants.TEXTUREFORMAT_RGBA] },
+            sizeIsPercentage: false,
+        });
+    };
+
+    const addComputeTask = (name: string, readTextures: FrameGraphTextureHandle[], writtenTextures: FrameGraphTextureHandle[], asyncCompute = false) => {
+        const task = new ComputeTask(name, frameGraph, asyncCompute);
+        task.readTextures = readTextures;
+        task.writtenTextures = writtenTextures;
+        frameGraph.addTask(task);
+        return task;
+    };
+
+    const getExecutionOrder = () => frameGraph.executionOrder.map((task) => task.name);
+
+    describe("scheduling of the asynchronous compute tasks", () => {
+        it("moves an asynchronous compute task right after the task writing the texture it reads", async () => {
+            const [texture1, texture2, texture3] = [createTexture("texture1"), createTexture("texture2"), createTexture("texture3")];
+            addComputeTask("write1", [], [texture1]);
+            addComputeTask("write2", [], [texture2]);
+            addComputeTask("write3", [texture2], [texture3]);
+            addComputeTask("async", [texture1], [], true);
+
+            await frameGraph.buildAsync(false);
+
+            expect(getExecutionOrder()).toEqual(["write1", "async", "write2", "write3"]);
+            expect(frameGraph.tasks.map((task) => task.name)).toEqual(["write1", "write2", "write3", "async"]);
+        });
+
+        it("doesn't move an asynchronous compute task before a task reading or writing the texture it writes", async () => {
+            const [texture1, texture2, texture3] = [createTexture("texture1"), createTexture("texture2"), createTexture("texture3")];
+            addComputeTask("read1", [texture1], [texture2]);
+            addComputeTask("write3", [], [texture3]);
+            addComputeTask("write2", [], [texture2]);
+            addComputeTask("asyncWrite1", [], [texture1], true);
+            addComputeTask("asyncWrite3", [], [texture3], true);
+
+            await frameGraph.buildAsync(false);
+
+            expect(getExecutionOrder()).toEqual(["read1", "asyncWrite1", "write3", "asyncWrite3", "write2"]);
+        });
+
+        it("keeps the order of the asynchronous compute tasks and doesn't move them before the tasks with undeclared resources", async () => {
+            const [texture1, texture2] = [createTexture("texture1"), createTexture("texture2")];
+            addComputeTask("write1", [], [texture1]);
+            frameGraph.addTask(new GenericTask("generic", frameGraph));
+            addComputeTask("write2", [], [texture2]);
+            addComputeTask("async1", [], [], true);
+            addComputeTask("write3", [], [createTexture("texture3")]);
+            addComputeTask("async2", [], [], true);
+
+            await frameGraph.buildAsync(false);
+
+            expect(getExecutionOrder()).toEqual(["write1", "generic", "async1", "async2", "write2", "write3"]);
+        });
+
+        it("resolves the dangling handles to find the dependencies of the tasks", async () => {
+            const texture = createTexture("texture");
+            const danglingHandle = frameGraph.textureManager.createDanglingHandle();
+            frameGraph.textureManager.resolveDanglingHandle(danglingHandle, texture);
+            addComputeTask("write", [], [texture]);
+            addComputeTask("other", [], [createTexture("other")]);
+            addComputeTask("async", [danglingHandle], [], true);
+
+            await frameGraph.buildAsync(false);
+
+            expect(getExecutionOrder()).toEqual(["write", "async", "other"]);
+        });
+
+        it("keeps the order of the tasks when the scheduling of the asynchronous compute tasks is disabled", async () => {
+            addComputeTask("write", [], [createTexture("texture")]);
+            addComputeTask("async", [], [], true);
+            frameGraph.scheduleAsyncCompute = false;
+
+            await frameGraph.buildAsync(false);
+
+            expect(getExecutionOrder()).toEqual(["write", "async"]);
+        });
+    });
+});
@@ -0,0 +1,147 @@
+import { StorageBuffer } from "core/Buffers/storageBuffer";
+import { Constants } from "core/Engines/constants";
+import type { WebGPUEngine } from "core/Engines/webgpuEngine";
+import { FrameGraphBufferManager } from "core/FrameGraph/frameGraphBufferManager";
+import type { FrameGraphTask } from "core/FrameGraph/frameGraphTask";
+import type { FrameGraphBufferHandle } from "core/FrameGraph/frameGraphTypes";
+import { FrameGraphComputePass } from "core/FrameGraph/Passes/computePass";
+import { Logger } from "core/Misc/logger";
+
+/**
+ * Creates a task made of compute passes, each pass reading and writing the given buffers
+ * @param passes the buffers read and written by each pass
+ * @returns the task
+ */
+function CreateTask(...passes: { reads?: FrameGraphBufferHandle[]; writes?: FrameGraphBufferHandle[] }[]): FrameGraphTask {
+    return {
+        passes: passes.map(({ reads, writes }, index) => {
+            const pass = new FrameGraphComputePass(`pass${index}`, null as any, null as any);
+            pass.addBufferDependencies(reads);
+            pass.addWrittenBuffers(writes);
+            return pass;
+        }),
+        passesDisabled: [],
+    } as unknown as FrameGraphTask;
+}
+
+describe("FrameGraphBufferManager", () => {
+    let engine: { isWebGPU: boolean; _storageBuffers: StorageBuffer[]; createStorageBuffer: jest.Mock; _releaseBuffer: jest.Mock };
+    let bufferManager: FrameGraphBufferManager;
+
+    beforeEach(() => {
+        engine = {
+            isWebGPU: true,
+            _storageBuffers: [],
+            createStorageBuffer: jest.fn((byteSize: number, creationFlags: number, label: string) => ({ capacity: byteSize, creationFlags, label })),
+            _releaseBuffer: jest.fn(),
+        };
+        bufferManager = new FrameGraphBufferManager(engine as any);
+    });
+
+    it("allocates the buffers with their creation options, and shares them with the dangling handles resolved to them", () => {
+        const buffer = bufferManager.createBuffer("buffer", { byteSize: 64, creationFlags: Constants.BUFFER_CREATIONFLAG_INDIRECT, label: "indirect" });
+        const danglingHandle = bufferManager.createDanglingHandle();
+        bufferManager.resolveDanglingHandle(danglingHandle, buffer);
+        const newBufferHandle = bufferManager.createDanglingHandle();
+        bufferManager.resolveDanglingHandle(newBufferHandle, undefined, "new", { byteSize: 32 });
+
+        bufferManager._allocateBuffers();
+
+        expect(engine.createStorageBuffer.mock.calls).toEqual([
+            [64, Constants.BUFFER_CREATIONFLAG_INDIRECT, "indirect"],
+            [32, Constants.BUFFER_CREATIONFLAG_READWRITE, "new"],
+        ]);
+        expect(bufferManager.getBufferFromHandle(buffer)!.getBuffer().capacity).toBe(64);
+        expect(bufferManager.getBufferFromHandle(danglingHandle)).toBe(bufferManager.getBufferFromHandle(buffer));
+        expect(bufferManager.getBufferName(danglingHandle)).toBe("buffer");
+        expect(bufferManager.getBufferCreationOptions(danglingHandle).byteSize).toBe(64);
+        expect(bufferManager.computeTotalBufferSize()).toBe(96);
+    });
+
+    it("aliases the buffers of the same size and creation flags which are not used at the same time", () => {
+        const [buffer1, buffer2, buffer3] = ["buffer1", "buffer2", "buffer3"].map((name) => bufferManager.createBuffer(name, { byteSize: 64 }));
+        const otherSize = bufferManager.createBuffer("otherSize", { byteSize: 128 });
+        const otherFlags = bufferManager.createBuffer("otherFlags", { byteSize: 64, creationFlags: Constants.BUFFER_CREATIONFLAG_INDIRECT });
+        const persistent = bufferManager.createBuffer("persistent", { byteSize: 64, persistent: true });
+        const tasks = [
+            CreateTask({ writes: [buffer1] }),
+            CreateTask({ reads: [buffer1], writes: [buffer2] }),
+            CreateTask({ reads: [buffer2], writes: [buffer3] }, { writes: [otherSize, otherFlags, persistent] }),
+        ];
+
+        bufferManager._allocateBuffers(tasks);
+
+        expect(engine.createStorageBuffer).toHaveBeenCalledTimes(5);
+        expect(bufferManager.getBufferFromHandle(buffer3)).toBe(bufferManager.getBufferFromHandle(buffer1));
+        expect(bufferManager.getBufferFromHandle(buffer2)).not.toBe(bufferManager.getBufferFromHandle(buffer1));
+        for (const handle of [otherSize, otherFlags, persistent]) {
+            expect(bufferManager.getBufferFromHandle(handle)).not.toBe(bufferManager.getBufferFromHandle(buffer1));
+        }
+        expect(bufferManager.computeTotalBufferSize()).toBe(64 * 4 + 128);
+        expect(bufferManager.computeTotalBufferSize(false)).toBe(64 * 5 + 128);
+    });
+
+    it("takes the dependencies of the tasks and of the passes of the resolved dangling handles into account", () => {
+        const [buffer1, buffer2] = ["buffer1", "buffer2"].map((name) => bufferManager.createBuffer(name, { byteSize: 64 }));
+        const danglingHandle = bufferManager.createDanglingHandle();
+        bufferManager.resolveDanglingHandle(danglingHandle, buffer1);
+        const lastTask = CreateTask({ reads: [buffer2] });
+        lastTask.bufferDependencies = new Set([danglingHandle]);
+
+        bufferManager._allocateBuffers([CreateTask({ writes: [buffer1] }), lastTask]);
+
+        expect(engine.createStorageBuffer).toHaveBeenCalledTimes(2);
+        expect(bufferManager.getBufferFromHandle(buffer2)).not.toBe(bufferManager.getBufferFromHandle(buffer1));
+    });
+
+    it("doesn't allocate nor release the imported buffers", () => {
+        const importedBuffer = new StorageBuffer(engine as unknown as WebGPUEngine, 256);
+        const imported = bufferManager.importBuffer("imported", importedBuffer);
+        const buffer = bufferManager.createBuffer("buffer", { byteSize: 256 });
+
+        bufferManager._allocateBuffers([CreateTask({ writes: [imported] }), CreateTask({ writes: [buffer] })]);
+
+        expect(engine.createStorageBuffer).toHaveBeenCalledTimes(2);
+        expect(bufferManager.getBufferFromHandle(imported)).toBe(importedBuffer);
+        expect(bufferManager.getBufferFromHandle(buffer)).not.toBe(importedBuffer);
+        expect(bufferManager.computeTotalBufferSize()).toBe(256);
+
+        bufferManager._releaseBuffers();
+
+        expect(engine._releaseBuffer).toHaveBeenCalledTimes(1);
+        expect(engine._storageBuffers).toEqual([importedBuffer]);
+    });
+
+    it("releases the buffers created by the tasks and only the owners of the aliased buffers", () => {
+        const graphBuffer = bufferManager.createBuffer("graph", { byteSize: 64 });
+        bufferManager._isRecordingTask = true;
+        const taskBuffer = bufferManager.createBuffer("task", { byteSize: 64 });
+        bufferManager._isRecordingTask = false;
+
+        bufferManager._allocateBuffers([CreateTask({ writes: [graphBuffer] }), CreateTask({ writes: [taskBuffer] })]);
+
+        expect(engine.createStorageBuffer).toHaveBeenCalledTimes(1);
+        expect(bufferManager.getBufferFromHandle(taskBuffer)).toBe(bufferManager.getBufferFromHandle(graphBuffer));
+
+        bufferManager._releaseBuffers(false);
+
+        expect(engine._releaseBuffer).toHaveBeenCalledTimes(1);
+        expect(bufferManager.getBufferFromHandle(graphBuffer)).toBeNull();
+        expect(bufferManager._buffers.has(graphBuffer)).toBe(true);
+        expect(bufferManager._buffers.has(taskBuffer)).toBe(false);
+    });
+
+    it("doesn't allocate the buffers when the engine doesn't support storage buffers", () => {
+        const errorSpy = jest.spyOn(Logger, "Error").mockImplementation(() => {});
+        engine.isWebGPU = false;
+        const buffer = bufferManager.createBuffer("buffer", { byteSize: 64 });
+
+        bufferManager._allocateBuffers();
+
+        expect(engine.createStorageBuffer).not.toHaveBeenCalled();
+        expect(bufferManager.getBufferFromHandle(buffer)).toBeNull();
+        expect(errorSpy).toHaveBeenCalledWith("FrameGraphBufferManager: Storage buffers are only supported by WebGPU!");
+
+        errorSpy.mockRestore();
+    });
+});
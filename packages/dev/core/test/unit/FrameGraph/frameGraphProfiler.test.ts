@@ -0,0 +1,147 @@
+import { Constants } from "core/Engines/constants";
+import { NullEngine } from "core/Engines/nullEngine";
+import { FrameGraph } from "core/FrameGraph/frameGraph";
+import type { FrameGraphResourceReport } from "core/FrameGraph/frameGraphProfiler";
+import { FrameGraphTask } from "core/FrameGraph/frameGraphTask";
+import type { FrameGraphTextureHandle } from "core/FrameGraph/frameGraphTypes";
+import { InternalTexture } from "core/Materials/Textures/internalTexture";
+import { Scene } from "core/scene";
+
+/**
+ * Task made of a compute pass, which declares the textures it reads and writes, and of a generic pass executed when the task is disabled
+ */
+class ComputeTask extends FrameGraphTask {
+    public readTextures: FrameGraphTextureHandle[] = [];
+    public writtenTextures: FrameGraphTextureHandle[] = [];
+
+    public record(): void {
+        const pass = this._frameGraph.addComputePass(this.name);
+
+        pass.addDependencies(this.readTextures);
+        pass.addWrittenTextures(this.writtenTextures);
+        pass.setExecuteFunc(() => {});
+
+        const passDisabled = this._frameGraph.addPass(this.name + "_disabled", true);
+
+        passDisabled.setExecuteFunc(() => {});
+    }
+}
+
+describe("FrameGraphProfiler", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let frameGraph: FrameGraph;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        // The null engine can't create render target textures
+        jest.spyOn(engine, "_createInternalTexture").mockImplementation((_size, _options, _delayGPUTextureCreation, source) => new InternalTexture(engine, source!));
+        frameGraph = new FrameGraph(scene);
+    });
+
+    afterEach(() => {
+        frameGraph.dispose();
+        scene.dispose();
+        engine.dispose();
+    });
+
+    const createTexture = (name: string) => {
+        return frameGraph.textureManager.createRenderTargetTexture(name, {
+            size: { width: 4, height: 4 },
+            options: { formats: [Constants.TEXTUREFORMAT_RGBA] },
+            sizeIsPercentage: false,
+        });
+    };
+
+    const addComputeTask = (name: string, readTextures: FrameGraphTextureHandle[], writtenTextures: FrameGraphTextureHandle[]) => {
+        const task = new ComputeTask(name, frameGraph);
+        task.readTextures = readTextures;
+        task.writtenTextures = writtenTextures;
+        frameGraph.addTask(task);
+        return task;
+    };
+
+    it("reports the passes and the textures they use each time the frame graph is built", async () => {
+        const [texture1, texture2, texture3] = [createTexture("texture1"), createTexture("texture2"), createTexture("texture3")];
+        const danglingHandle = frameGraph.textureManager.createDanglingHandle();
+        frameGraph.textureManager.resolveDanglingHandle(danglingHandle, texture1);
+        addComputeTask("write1", [], [danglingHandle]);
+        addComputeTask("read1", [texture1], [texture2]);
+        addComputeTask("read2", [], [texture3]).dependencies = new Set([texture2]);
+        let notifiedReport: FrameGraphResourceReport | null = null;
+        frameGraph.profiler.onReportObservable.add((report) => (notifiedReport = report));
+
+        await frameGraph.buildAsync(false);
+
+        const report = frameGraph.profiler.report!;
+        expect(notifiedReport).toBe(report);
+        expect(report.passes.map((pass) => [pass.index, pass.name, pass.type, pass.taskName, pass.taskIndex, pass.whenTaskDisabled])).toEqual([
+            [0, "write1", "compute", "write1", 0, false],
+            [1, "write1_disabled", "generic", "write1", 0, true],
+            [2, "read1", "compute", "read1", 1, false],
+            [3, "read1_disabled", "generic", "read1", 1, true],
+            [4, "read2", "compute", "read2", 2, false],
+            [5, "read2_disabled", "generic", "read2", 2, true],
+        ]);
+        expect(report.passes.map((pass) => [pass.readTextures, pass.writtenTextures])).toEqual([
+            [[], [texture1]],
+            [[], []],
+            [[texture1], [texture2]],
+            [[], []],
+            [[texture2], [texture3]],
+            [[texture2], []],
+        ]);
+
+        // The back buffer textures are not created by the frame graph
+        expect(report.textures.filter((texture) => texture.isExternal).map((texture) => texture.name)).toEqual(["backbuffer color", "backbuffer depth/stencil"]);
+        const textures = report.textures.filter((texture) => !texture.isExternal);
+        expect(textures.map((texture) => [texture.handle, texture.name, texture.firstPass, texture.lastPass])).toEqual([
+            [texture1, "texture1", 0, 2],
+            [texture2, "texture2", 2, 5],
+            [texture3, "texture3", 4, 4],
+        ]);
+        const texture = textures[0];
+        expect(texture.size).toEqual({ width: 4, height: 4 });
+        expect(texture.format).toBe(Constants.TEXTUREFORMAT_RGBA);
+        expect(texture.byteSize).toBe(4 * 4 * 4);
+        expect(texture.isHistoryTexture).toBe(false);
+        // texture3 is not used at the same time as texture1, so it reuses its memory
+        expect(textures.map((texture) => texture.aliasHandle)).toEqual([undefined, undefined, texture1]);
+        expect(report.totalByteSize).toBe(3 * 64);
+        expect(report.optimizedByteSize).toBe(2 * 64);
+
+        frameGraph.clear();
+
+        expect(frameGraph.profiler.report).toBeNull();
+    });
+
+    it("measures the CPU and GPU times of the passes when enabled", async () => {
+        const endTimeQuery = jest.fn().mockReturnValueOnce(-1).mockReturnValue(2000000);
+        Object.assign(engine, { startTimeQuery: jest.fn(() => ({})), endTimeQuery });
+        engine.getCaps().canUseTimestampForTimerQuery = true;
+        addComputeTask("write", [], [createTexture("texture")]);
+        addComputeTask("disabled", [], []).disabled = true;
+
+        await frameGraph.buildAsync(false);
+        frameGraph.execute();
+
+        const [writePass, , , disabledPass] = frameGraph.profiler.report!.passes;
+        expect(writePass.cpuTime.count).toBe(0);
+        expect(endTimeQuery).not.toHaveBeenCalled();
+
+        frameGraph.profiler.enabled = true;
+        frameGraph.execute();
+
+        expect(writePass.cpuTime.count).toBe(1);
+        expect(disabledPass.cpuTime.count).toBe(1);
+        expect(disabledPass.gpuTime.current).toBeCloseTo(2);
+        // The GPU time of the first pass is not available yet: it is retrieved during the next execution
+        expect(writePass.gpuTime.count).toBe(0);
+
+        frameGraph.execute();
+
+        expect(writePass.gpuTime.current).toBeCloseTo(2);
+        expect(writePass.cpuTime.count).toBe(2);
+    });
+});
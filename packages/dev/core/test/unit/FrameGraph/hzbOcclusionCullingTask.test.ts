@@ -0,0 +1,91 @@
+import { FreeCamera } from "core/Cameras/freeCamera";
+import { Constants } from "core/Engines/constants";
+import { NullEngine } from "core/Engines/nullEngine";
+import { FrameGraph } from "core/FrameGraph/frameGraph";
+import { FrameGraphHZBOcclusionCullingTask } from "core/FrameGraph/Tasks/Misc/hzbOcclusionCullingTask";
+import { InternalTexture } from "core/Materials/Textures/internalTexture";
+import { Vector3 } from "core/Maths/math.vector";
+import { CreateBox } from "core/Meshes/Builders/boxBuilder";
+import { Scene } from "core/scene";
+
+describe("FrameGraphHZBOcclusionCullingTask", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let frameGraph: FrameGraph;
+    let camera: FreeCamera;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        // The null engine can't create render target textures
+        jest.spyOn(engine, "_createInternalTexture").mockImplementation((_size, _options, _delayGPUTextureCreation, source) => new InternalTexture(engine, source!));
+        frameGraph = new FrameGraph(scene);
+        camera = new FreeCamera("camera", new Vector3(0, 0, -10), scene);
+    });
+
+    afterEach(() => {
+        frameGraph.dispose();
+        scene.dispose();
+        engine.dispose();
+    });
+
+    const createTask = () => {
+        const task = new FrameGraphHZBOcclusionCullingTask("hzb", frameGraph, scene);
+        task.depthTexture = frameGraph.textureManager.createRenderTargetTexture("depth", {
+            size: { width: 8, height: 4 },
+            options: { formats: [Constants.TEXTUREFORMAT_DEPTH32_FLOAT] },
+            sizeIsPercentage: false,
+        });
+        task.camera = camera;
+        task.objectList = { meshes: null, particleSystems: null };
+        frameGraph.addTask(task);
+        return task;
+    };
+
+    it("tests the meshes of the scene against the depth texture when the object list has no meshes", async () => {
+        const task = createTask();
+        const mesh = CreateBox("box", {}, scene);
+        const updateSpy = jest.spyOn(task.culler, "update");
+
+        await frameGraph.buildAsync(false);
+        frameGraph.execute();
+
+        expect(updateSpy).toHaveBeenCalledTimes(1);
+        const [depthTexture, viewProjection, meshes] = updateSpy.mock.calls[0];
+        expect(depthTexture).toBe(frameGraph.textureManager.getTextureFromHandle(task.depthTexture));
+        expect(viewProjection).toBe(camera.getTransformationMatrix());
+        expect(meshes).toEqual([mesh]);
+    });
+
+    it("resets the results of the culler when the task is disabled", async () => {
+        const task = createTask();
+        const updateSpy = jest.spyOn(task.culler, "update");
+        const resetSpy = jest.spyOn(task.culler, "reset");
+
+        await frameGraph.buildAsync(false);
+        frameGraph.execute();
+
+        expect(resetSpy).not.toHaveBeenCalled();
+
+        task.disabled = true;
+        frameGraph.execute();
+
+        expect(updateSpy).toHaveBeenCalledTimes(1);
+        expect(resetSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("renames the culler with the task", () => {
+        const task = createTask();
+
+        task.name = "renamed";
+
+        expect(task.culler.name).toBe("renamed");
+    });
+
+    it("throws when the depth texture, the camera or the object list is not set", async () => {
+        const task = createTask();
+        (task as Partial<FrameGraphHZBOcclusionCullingTask>).camera = undefined;
+
+        await expect(frameGraph.buildAsync(false)).rejects.toThrow("FrameGraphHZBOcclusionCullingTask hzb: depthTexture, camera and objectList are required");
+    });
+});
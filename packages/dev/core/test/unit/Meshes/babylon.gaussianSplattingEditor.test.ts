@@ -0,0 +1,194 @@
+import type { Engine } from "core/Engines";
+import { NullEngine } from "core/Engines";
+import { Color3, Color4, Matrix, Quaternion, Vector3 } from "core/Maths";
+import { GaussianSplattingEditor, GaussianSplattingMesh, GaussianSplattingSelectionMode } from "core/Meshes";
+import { Scene } from "core/scene";
+
+/**
+ * The mesh sorts its splats in a worker, which is not available in node
+ */
+class WorkerMock {
+    public onmessage: ((event: any) => void) | null = null;
+    public postMessage() {}
+    public terminate() {}
+}
+
+/**
+ * Creates the splats data of a row of splats along the x axis
+ * @param count the number of splats
+ * @returns the splats data
+ */
+function CreateSplatsData(count: number): ArrayBuffer {
+    const data = new ArrayBuffer(count * 32);
+    const floats = new Float32Array(data);
+    const bytes = new Uint8Array(data);
+    for (let i = 0; i < count; i++) {
+        floats[i * 8] = i;
+        floats[i * 8 + 3] = 0.1;
+        floats[i * 8 + 4] = 0.2;
+        floats[i * 8 + 5] = 0.3;
+        bytes[i * 32 + 24] = 255;
+        bytes[i * 32 + 27] = Math.round((i / (count - 1)) * 255);
+        bytes[i * 32 + 28] = 255;
+        bytes[i * 32 + 29] = 128;
+        bytes[i * 32 + 30] = 128;
+        bytes[i * 32 + 31] = 128;
+    }
+    return data;
+}
+
+/**
+ * Computes the covariance of a splat, as used to render it
+ * @param data the splats data
+ * @param index the index of the splat
+ * @returns the covariance matrix, up to a constant factor
+ */
+function GetCovariance(data: ArrayBuffer, index: number): number[] {
+    const floats = new Float32Array(data, index * 32, 6);
+    const bytes = new Uint8Array(data, index * 32 + 28, 4);
+    const rotation = new Quaternion((bytes[1] - 127.5) / 127.5, (bytes[2] - 127.5) / 127.5, (bytes[3] - 127.5) / 127.5, -(bytes[0] - 127.5) / 127.5)
+        .normalize()
+        .toRotationMatrix(new Matrix());
+    const m = rotation.multiply(Matrix.Scaling(floats[3], floats[4], floats[5])).m;
+    const covariance: number[] = [];
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            covariance.push(m[i * 4] * m[j * 4] + m[i * 4 + 1] * m[j * 4 + 1] + m[i * 4 + 2] * m[j * 4 + 2]);
+        }
+    }
+    return covariance;
+}
+
+describe("GaussianSplattingEditor", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let mesh: GaussianSplattingMesh;
+    let editor: GaussianSplattingEditor;
+    let worker: any;
+
+    beforeAll(() => {
+        worker = (globalThis as any).Worker;
+        (globalThis as any).Worker = WorkerMock;
+    });
+
+    afterAll(() => {
+        (globalThis as any).Worker = worker;
+    });
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+        scene = new Scene(engine);
+        mesh = new GaussianSplattingMesh("splats", null, scene, true);
+        mesh.updateData(CreateSplatsData(10));
+        editor = new GaussianSplattingEditor(mesh);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("selects the splats in a box, in world space", () => {
+        mesh.position.y = 10;
+        editor.selectInBox(new Vector3(1.5, 9, -1), new Vector3(4.5, 11, 1));
+        expect(editor.getSelectedIndices()).toEqual([2, 3, 4]);
+
+        editor.selectInBox(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+        expect(editor.selectedCount).toBe(0);
+    });
+
+    it("combines the selections", () => {
+        editor.selectInSphere(new Vector3(2, 0, 0), 1.5);
+        expect(editor.getSelectedIndices()).toEqual([1, 2, 3]);
+
+        editor.selectInSphere(new Vector3(5, 0, 0), 1, GaussianSplattingSelectionMode.Add);
+        expect(editor.getSelectedIndices()).toEqual([1, 2, 3, 4, 5, 6]);
+
+        editor.selectInSphere(new Vector3(3, 0, 0), 0.5, GaussianSplattingSelectionMode.Subtract);
+        expect(editor.getSelectedIndices()).toEqual([1, 2, 4, 5, 6]);
+
+        editor.selectInSphere(new Vector3(0, 0, 0), 4.5, GaussianSplattingSelectionMode.Intersect);
+        expect(editor.getSelectedIndices()).toEqual([1, 2, 4]);
+
+        editor.invertSelection();
+        expect(editor.selectedCount).toBe(7);
+    });
+
+    it("selects the splats with a low opacity and deletes them", () => {
+        editor.selectByOpacity(0.25);
+        expect(editor.getSelectedIndices()).toEqual([0, 1, 2]);
+
+        editor.deleteSelected();
+        expect(mesh.splatsData!.byteLength).toBe(7 * 32);
+        expect(new Float32Array(mesh.splatsData!)[0]).toBe(3);
+        expect(editor.selectedCount).toBe(0);
+    });
+
+    it("recolors the selected splats", () => {
+        editor.selectInSphere(new Vector3(0, 0, 0), 0.5);
+        editor.recolorSelected(new Color3(0, 1, 0));
+        let bytes = new Uint8Array(mesh.splatsData!);
+        expect(Array.from(bytes.subarray(24, 28))).toEqual([0, 255, 0, 0]);
+        expect(Array.from(bytes.subarray(56, 60))).toEqual([255, 0, 0, 28]);
+
+        editor.recolorSelected(new Color4(0, 0, 1, 1));
+        bytes = new Uint8Array(mesh.splatsData!);
+        expect(Array.from(bytes.subarray(24, 28))).toEqual([0, 0, 255, 255]);
+    });
+
+    it("transforms the selected splats", () => {
+        const before = GetCovariance(mesh.splatsData!, 2);
+
+        editor.selectInSphere(new Vector3(2, 0, 0), 0.5);
+        editor.transformSelected(Matrix.RotationZ(Math.PI / 2).multiply(Matrix.Translation(0, 0, 1)));
+
+        const floats = new Float32Array(mesh.splatsData!);
+        expect(floats[16]).toBeCloseTo(0);
+        expect(floats[17]).toBeCloseTo(-2);
+        expect(floats[18]).toBeCloseTo(1);
+
+        // The splat is rotated by 90 degrees around the z axis, which swaps its x and y extents
+        const after = GetCovariance(mesh.splatsData!, 2);
+        expect(after[0]).toBeCloseTo(before[4], 3);
+        expect(after[4]).toBeCloseTo(before[0], 3);
+        expect(after[8]).toBeCloseTo(before[8], 3);
+        expect(after[1]).toBeCloseTo(0, 3);
+
+        // The other splats are unchanged
+        expect(floats[8]).toBe(1);
+    });
+
+    it("extracts the selected splats", () => {
+        mesh.position.x = 5;
+        editor.selectInBox(new Vector3(5, -1, -1), new Vector3(6.5, 1, 1));
+        const extracted = editor.extractSelected("extracted", true);
+
+        expect(extracted.splatsData!.byteLength).toBe(2 * 32);
+        expect(extracted.position.x).toBe(5);
+        expect(mesh.splatsData!.byteLength).toBe(8 * 32);
+    });
+
+    it("merges meshes", () => {
+        const other = new GaussianSplattingMesh("other", null, scene, true);
+        other.updateData(CreateSplatsData(5));
+        other.position.y = 3;
+
+        const merged = GaussianSplattingEditor.Merge([mesh, other], "merged");
+        const floats = new Float32Array(merged.splatsData!);
+        expect(floats.length).toBe(15 * 8);
+        expect(floats[10 * 8]).toBeCloseTo(0);
+        expect(floats[10 * 8 + 1]).toBeCloseTo(-3);
+    });
+
+    it("throws when the data is not kept in RAM", () => {
+        const other = new GaussianSplattingMesh("other", null, scene);
+        other.updateData(CreateSplatsData(5));
+        expect(() => new GaussianSplattingEditor(other).selectAll()).toThrow();
+    });
+});
@@ -0,0 +1,237 @@
+import { FreeCamera } from "core/Cameras/freeCamera";
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import { Vector3 } from "core/Maths/math.vector";
+import type { IGaussianSplattingChunkSet } from "core/Meshes/GaussianSplatting/gaussianSplattingStreamingMesh";
+import { GaussianSplattingStreamingMesh } from "core/Meshes/GaussianSplatting/gaussianSplattingStreamingMesh";
+import { Scene } from "core/scene";
+
+/**
+ * The mesh sorts its splats in a worker, which is not available in node
+ */
+class WorkerMock {
+    public static LastInstance: WorkerMock | null = null;
+    public onmessage: ((event: any) => void) | null = null;
+    constructor() {
+        WorkerMock.LastInstance = this;
+    }
+    public postMessage() {}
+    public terminate() {}
+}
+
+/**
+ * Creates the splats data of a grid of splats in the x/z plane
+ * @param size the number of splats along each axis
+ * @returns the splats data
+ */
+function CreateSplatsData(size: number): ArrayBuffer {
+    const data = new ArrayBuffer(size * size * 32);
+    const floats = new Float32Array(data);
+    const bytes = new Uint8Array(data);
+    for (let i = 0; i < size * size; i++) {
+        floats[i * 8] = (i % size) * 0.1;
+        floats[i * 8 + 2] = Math.floor(i / size) * 0.1;
+        floats[i * 8 + 3] = 0.05;
+        floats[i * 8 + 4] = 0.05;
+        floats[i * 8 + 5] = 0.01;
+        bytes.set([255, 128, 0, 255, 255, 128, 128, 128], i * 32 + 24);
+    }
+    return data;
+}
+
+describe("GaussianSplattingStreamingMesh", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let worker: any;
+
+    beforeAll(() => {
+        worker = (globalThis as any).Worker;
+        (globalThis as any).Worker = WorkerMock;
+    });
+
+    afterAll(() => {
+        (globalThis as any).Worker = worker;
+    });
+
+    beforeEach(() => {
+        engine = new NullEngine({
+            renderHeight: 256,
+            renderWidth: 256,
+            textureSize: 256,
+            deterministicLockstep: false,
+            lockstepMaxSteps: 1,
+        });
+        scene = new Scene(engine);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    describe("BuildChunks", () => {
+        it("splits the splats in chunks with reduced detail levels", () => {
+            const chunkSet = GaussianSplattingStreamingMesh.BuildChunks(CreateSplatsData(64), null, { maxSplatsPerChunk: 1024, lodCount: 3 });
+
+            expect(chunkSet.chunks.length).toBe(4);
+            let splatCount = 0;
+            chunkSet.chunks.forEach((chunk, chunkIndex) => {
+                const levels = chunkSet.levels[chunkIndex];
+                expect(chunk.lodCount).toBe(3);
+                expect(levels.length).toBe(3);
+
+                const counts = levels.map((level) => level.data.byteLength / 32);
+                expect(counts[0]).toBe(1024);
+                expect(counts[1]).toBeLessThan(counts[0]);
+                expect(counts[1]).toBeGreaterThan(128);
+                expect(counts[2]).toBeLessThan(counts[1]);
+                splatCount += counts[0];
+
+                // The reduced levels stay in the bounds of the chunk
+                for (const level of levels) {
+                    const floats = new Float32Array(level.data);
+                    let outside = 0;
+                    for (let i = 0; i < floats.length; i += 8) {
+                        if (floats[i] < chunk.minimum.x || floats[i] > chunk.maximum.x || floats[i + 2] < chunk.minimum.z || floats[i + 2] > chunk.maximum.z) {
+                            outside++;
+                        }
+                    }
+                    expect(outside).toBe(0);
+                }
+            });
+            expect(splatCount).toBe(64 * 64);
+        });
+
+        it("splits the SH coefficients with the splats", () => {
+            const data = CreateSplatsData(4);
+            const sh = [new Uint8Array(16 * 16).map((_, i) => Math.floor(i / 16))];
+            const chunkSet = GaussianSplattingStreamingMesh.BuildChunks(data, sh, { maxSplatsPerChunk: 8, lodCount: 1 });
+
+            for (const [level] of chunkSet.levels) {
+                const floats = new Float32Array(level.data);
+                for (let i = 0; i < floats.length / 8; i++) {
+                    const sourceIndex = Math.round(floats[i * 8] * 10) + Math.round(floats[i * 8 + 2] * 10) * 4;
+                    expect(level.sh![0][i * 16]).toBe(sourceIndex);
+                }
+            }
+        });
+    });
+
+    describe("streaming", () => {
+        let chunkSet: IGaussianSplattingChunkSet;
+        let requests: { chunkIndex: number; lod: number }[];
+        let mesh: GaussianSplattingStreamingMesh;
+        let camera: FreeCamera;
+
+        const flushAsync = async () => {
+            // The data of the mesh is updated in a coroutine
+            for (let i = 0; i < 10; i++) {
+                await new Promise((resolve) => setTimeout(resolve, 0));
+            }
+        };
+
+        beforeEach(() => {
+            // 8 chunks of 8x8 splats, from x = 0 to x = 51.2
+            const data = new ArrayBuffer(512 * 32);
+            const floats = new Float32Array(data);
+            for (let i = 0; i < 512; i++) {
+                floats[i * 8] = i * 0.1;
+                floats[i * 8 + 3] = floats[i * 8 + 4] = floats[i * 8 + 5] = 0.01;
+            }
+            chunkSet = GaussianSplattingStreamingMesh.BuildChunks(data, null, { maxSplatsPerChunk: 64, lodCount: 3 });
+            chunkSet.chunks.sort((a, b) => a.minimum.x - b.minimum.x);
+
+            requests = [];
+            mesh = new GaussianSplattingStreamingMesh(
+                "streaming",
+                chunkSet.chunks,
+                async (chunkIndex, lod) => {
+                    requests.push({ chunkIndex, lod });
+                    return { data: new ArrayBuffer(32 * (4 - lod)) };
+                },
+                scene
+            );
+            mesh.maxConcurrentLoads = 100;
+
+            // Looking along the splats, from x = 2
+            camera = new FreeCamera("camera", new Vector3(2, 0, 0), scene);
+            camera.setTarget(new Vector3(10, 0, 0));
+        });
+
+        it("loads the coarsest level of the visible chunks first", async () => {
+            mesh.update(camera);
+            await flushAsync();
+            const coarseRequests = requests.filter((request) => request.lod === 2);
+            expect(coarseRequests.length).toBe(8);
+            expect(requests.slice(0, 8)).toEqual(coarseRequests);
+            expect(requests[8]).toEqual({ chunkIndex: 0, lod: 0 });
+        });
+
+        it("displays the levels matching the distance to the camera", async () => {
+            mesh.update(camera);
+            await flushAsync();
+            mesh.update(camera);
+            await flushAsync();
+
+            const levels = mesh.displayedLevels;
+            expect(levels[0]).toBe(0);
+            expect(levels[1]).toBe(0);
+            expect(levels[7]).toBe(2);
+            for (let i = 1; i < levels.length; i++) {
+                expect(levels[i]).toBeGreaterThanOrEqual(levels[i - 1]);
+            }
+            expect(mesh.getTotalVertices()).toBe(levels.reduce((sum, lod) => sum + 4 - lod, 0));
+        });
+
+        it("hides the chunks out of the frustum", async () => {
+            camera.setTarget(new Vector3(-10, 0, 0));
+            mesh.update(camera);
+            await flushAsync();
+            mesh.update(camera);
+            await flushAsync();
+
+            expect(mesh.displayedLevels[0]).toBe(0);
+            expect(mesh.displayedLevels.slice(1).every((lod) => lod === -1)).toBe(true);
+            expect(requests.every((request) => request.chunkIndex === 0)).toBe(true);
+        });
+
+        it("updates the splats of the hidden chunks in place, uploading only their texture lines", async () => {
+            // 16 splats per texture line, the full detail levels using 2 lines
+            engine.getCaps().maxTextureSize = 16;
+            mesh.dispose();
+            mesh = new GaussianSplattingStreamingMesh("streaming", chunkSet.chunks, async (_, lod) => ({ data: new ArrayBuffer(32 * (lod ? 4 - lod : 32)) }), scene);
+            mesh.maxConcurrentLoads = 100;
+
+            // Looking at all the chunks from the last one, which uses its full detail level
+            camera.position.set(50, 0, 0);
+            camera.setTarget(new Vector3(0, 0, 0));
+            mesh.update(camera);
+            await flushAsync();
+            mesh.update(camera);
+            await flushAsync();
+            expect(mesh.displayedLevels[7]).toBe(0);
+
+            const vertexCount = mesh.getTotalVertices();
+            const updateDataAsync = jest.spyOn(mesh, "updateDataAsync");
+            const updateTextureData = jest.spyOn(engine, "updateTextureData").mockImplementation(() => {});
+
+            // Only the last chunk, containing the camera, stays visible
+            camera.setTarget(new Vector3(60, 0, 0));
+            mesh.update(camera);
+            await flushAsync();
+            expect(mesh.displayedLevels.slice(0, 7).every((lod) => lod === -1)).toBe(true);
+            expect(mesh.displayedLevels[7]).toBe(0);
+            expect(updateDataAsync).not.toHaveBeenCalled();
+            expect(mesh.getTotalVertices()).toBe(vertexCount);
+
+            // The textures are updated once the splats are sorted
+            const vertexCountPadded = (vertexCount + 15) & ~0xf;
+            WorkerMock.LastInstance!.onmessage!({ data: { depthMix: new BigInt64Array(vertexCountPadded), cameraId: camera.uniqueId } });
+            const lastUpdatedLine = Math.floor((vertexCount - 32 - 1) / 16);
+            const updatedLines = updateTextureData.mock.calls.map((call) => call[3] + call[5] - 1);
+            expect(updatedLines.length).toBeGreaterThan(0);
+            expect(Math.max(...updatedLines)).toBe(lastUpdatedLine);
+            expect(lastUpdatedLine).toBeLessThan(Math.floor((vertexCount - 1) / 16));
+        });
+    });
+});
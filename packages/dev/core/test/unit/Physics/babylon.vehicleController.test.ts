@@ -0,0 +1,323 @@
+import type { Engine } from "core/Engines/engine";
+import { NullEngine } from "core/Engines/nullEngine";
+import { Vector3 } from "core/Maths/math.vector";
+import { TransformNode } from "core/Meshes/transformNode";
+import type { PhysicsRaycastResult } from "core/Physics/physicsRaycastResult";
+import type { ShapeCastResult } from "core/Physics/shapeCastResult";
+import { PhysicsMotionType } from "core/Physics/v2/IPhysicsEnginePlugin";
+import type { PhysicsBody } from "core/Physics/v2/physicsBody";
+import type { IPhysicsVehicleControllerOptions } from "core/Physics/v2/vehicleController";
+import { PhysicsVehicleController, PhysicsVehicleDifferentialType } from "core/Physics/v2/vehicleController";
+import { Scene } from "core/scene";
+
+const DeltaTime = 1 / 60;
+
+describe("PhysicsVehicleController", () => {
+    let engine: Engine;
+    let scene: Scene;
+    let chassis: TransformNode;
+    let body: ReturnType<typeof CreateBody>;
+    let plugin: { initShape: jest.Mock; disposeShape: jest.Mock; shapeCast: jest.Mock };
+    // height of the ground under a point, or null where there is no ground
+    let groundHeight: (x: number) => number | null;
+
+    function CreateBody(mass: number) {
+        return {
+            transformNode: chassis,
+            linearVelocity: Vector3.Zero(),
+            angularVelocity: Vector3.Zero(),
+            getMotionType: () => PhysicsMotionType.DYNAMIC,
+            getObjectCenterWorldToRef(result: Vector3) {
+                return result.copyFrom(chassis.position);
+            },
+            getLinearVelocityToRef(result: Vector3) {
+                result.copyFrom(this.linearVelocity);
+            },
+            getAngularVelocityToRef(result: Vector3) {
+                result.copyFrom(this.angularVelocity);
+            },
+            getMassProperties: () => ({ mass }),
+            applyImpulse: jest.fn(),
+        };
+    }
+
+    function CreateVehicle(options: IPhysicsVehicleControllerOptions, chassisHeight: number, mass = 1000) {
+        chassis.position.set(0, chassisHeight, 0);
+        body = CreateBody(mass);
+        return new PhysicsVehicleController(body as unknown as PhysicsBody, options);
+    }
+
+    function GetLastImpulse(): Vector3 {
+        return body.applyImpulse.mock.calls[body.applyImpulse.mock.calls.length - 1][0];
+    }
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+        chassis = new TransformNode("chassis", scene);
+        groundHeight = () => 0;
+
+        plugin = { initShape: jest.fn(), disposeShape: jest.fn(), shapeCast: jest.fn() };
+        const physicsEngine = {
+            getPluginVersion: () => 2,
+            getPhysicsPlugin: () => plugin,
+            // casts the ray down to the ground
+            raycastToRef: jest.fn((from: Vector3, to: Vector3, result: PhysicsRaycastResult) => {
+                result.reset(from, to);
+                const height = groundHeight(from.x);
+                if (height !== null && to.y <= height) {
+                    result.setHitData(Vector3.Up(), new Vector3(from.x, height, from.z));
+                    result.setHitDistance(from.y - height);
+                }
+            }),
+        };
+        (scene as any).getPhysicsEngine = () => physicsEngine;
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("applies the spring and damping forces of the suspension", () => {
+        const vehicle = CreateVehicle({ wheels: [{ position: new Vector3(-1, 0, 1) }, { position: new Vector3(1, 0, 1) }] }, 0.55);
+
+        // the suspension is compressed by 0.1 during the first step
+        vehicle.update(DeltaTime);
+        expect(vehicle.wheels[0].isGrounded).toBe(true);
+        expect(vehicle.wheels[0].suspensionLength).toBeCloseTo(0.2);
+        expect(vehicle.wheels[0].suspensionForce).toBeCloseTo(35000 * 0.1 + 3000 * (0.1 / DeltaTime));
+
+        vehicle.update(DeltaTime);
+        expect(vehicle.wheels[0].suspensionForce).toBeCloseTo(3500);
+        expect(vehicle.wheels[0].contactPoint.equalsWithEpsilon(new Vector3(-1, 0, 1))).toBe(true);
+
+        const impulse = GetLastImpulse();
+        expect(impulse.y).toBeCloseTo(3500 * DeltaTime);
+        expect(impulse.x).toBeCloseTo(0);
+        expect(impulse.z).toBeCloseTo(0);
+        expect(body.applyImpulse.mock.calls[3][1].equalsWithEpsilon(new Vector3(1, 0, 1))).toBe(true);
+    });
+
+    it("does not apply forces when the wheels are in the air", () => {
+        const vehicle = CreateVehicle({ wheels: [{ position: new Vector3(0, 0, 1) }] }, 2);
+
+        vehicle.update(DeltaTime);
+
+        expect(vehicle.wheels[0].isGrounded).toBe(false);
+        expect(vehicle.wheels[0].suspensionLength).toBe(0.3);
+        expect(vehicle.wheels[0].suspensionForce).toBe(0);
+        expect(body.applyImpulse).not.toHaveBeenCalled();
+    });
+
+    it("transfers load between the wheels of an axle with an anti-roll bar", () => {
+        groundHeight = (x) => (x < 0 ? 0.05 : 0);
+        const vehicle = CreateVehicle(
+            {
+                wheels: [{ position: new Vector3(-1, 0, 0) }, { position: new Vector3(1, 0, 0) }],
+                axles: [{ leftWheel: 0, rightWheel: 1, antiRollStiffness: 10000 }],
+            },
+            0.55
+        );
+
+        vehicle.update(DeltaTime);
+        vehicle.update(DeltaTime);
+
+        // compressions of 0.15 and 0.1
+        expect(vehicle.wheels[0].suspensionForce).toBeCloseTo(35000 * 0.15 + 500);
+        expect(vehicle.wheels[1].suspensionForce).toBeCloseTo(35000 * 0.1 - 500);
+    });
+
+    it("follows the lateral friction curve of the tires", () => {
+        const vehicle = CreateVehicle(
+            {
+                wheels: [{ position: Vector3.Zero(), lateralFriction: { extremumSlip: 0.15, extremumValue: 1, asymptoteSlip: 0.6, asymptoteValue: 0.7 } }],
+            },
+            0.55,
+            10000
+        );
+        vehicle.update(DeltaTime);
+
+        // slip angles and friction coefficients before, at, after and beyond the extremum
+        const expectations = [
+            [0.075, 0.75],
+            [0.15, 1],
+            [0.375, 0.85],
+            [1, 0.7],
+            [-1, -0.7],
+        ];
+        for (const [slip, friction] of expectations) {
+            // the chassis slides sideways without moving forward, so the slip angle is computed against the low speed of 0.5
+            body.linearVelocity.set(0.5 * Math.tan(slip), 0, 0);
+            vehicle.update(DeltaTime);
+
+            expect(vehicle.wheels[0].lateralSlip).toBeCloseTo(slip);
+            expect(GetLastImpulse().x).toBeCloseTo(-3500 * friction * DeltaTime);
+        }
+    });
+
+    it("limits the lateral force to the force stopping the slide in one step", () => {
+        const vehicle = CreateVehicle({ wheels: [{ position: Vector3.Zero() }] }, 0.55, 10);
+        vehicle.update(DeltaTime);
+
+        body.linearVelocity.set(0.1, 0, 0);
+        vehicle.update(DeltaTime);
+
+        expect(GetLastImpulse().x).toBeCloseTo(-0.1 * 10);
+    });
+
+    it("clamps the gears and times the gear shifts", () => {
+        const vehicle = CreateVehicle({ wheels: [{ position: Vector3.Zero() }] }, 2);
+
+        expect(vehicle.gear).toBe(1);
+        expect(vehicle.isShifting).toBe(false);
+
+        vehicle.gear = 10;
+        expect(vehicle.gear).toBe(5);
+        expect(vehicle.isShifting).toBe(true);
+
+        vehicle.gear = -3;
+        expect(vehicle.gear).toBe(-1);
+
+        vehicle.shiftUp();
+        expect(vehicle.gear).toBe(0);
+
+        // the shift lasts 0.2 seconds
+        for (let i = 0; i < 11; i++) {
+            vehicle.update(DeltaTime);
+        }
+        expect(vehicle.isShifting).toBe(true);
+
+        vehicle.update(DeltaTime);
+        vehicle.update(DeltaTime);
+        expect(vehicle.isShifting).toBe(false);
+    });
+
+    describe("drivetrain", () => {
+        function CreateDrivenVehicle(differential: PhysicsVehicleDifferentialType) {
+            // in the air, so only the drivetrain turns the wheels
+            return CreateVehicle(
+                {
+                    wheels: [{ position: new Vector3(-1, 0, 0) }, { position: new Vector3(1, 0, 0) }],
+                    axles: [{ leftWheel: 0, rightWheel: 1, torqueShare: 1, differential }],
+                },
+                2
+            );
+        }
+
+        // torque at the idle speed of 1000 rpm, multiplied by the first gear, the final drive and the efficiency
+        const DriveTorque = 400 * 0.6 * 3.5 * 3.7 * 0.9;
+        const WheelInertia = 0.5 * 20 * 0.35 * 0.35;
+
+        it("drives the wheels through the gearbox and an open differential", () => {
+            const vehicle = CreateDrivenVehicle(PhysicsVehicleDifferentialType.OPEN);
+            vehicle.throttle = 1;
+
+            vehicle.update(DeltaTime);
+
+            expect(vehicle.rpm).toBe(1000);
+            expect(vehicle.wheels[0].driveTorque).toBeCloseTo(DriveTorque / 2);
+            expect(vehicle.wheels[1].driveTorque).toBeCloseTo(DriveTorque / 2);
+            const wheelSpeed = vehicle.wheels[0].angularVelocity;
+            expect(wheelSpeed).toBeCloseTo((DriveTorque / 2 / WheelInertia) * DeltaTime);
+
+            // the engine speed follows the wheels
+            vehicle.update(DeltaTime);
+            expect(vehicle.rpm).toBeCloseTo(wheelSpeed * (30 / Math.PI) * 3.5 * 3.7);
+        });
+
+        it("revs the engine freely in neutral", () => {
+            const vehicle = CreateDrivenVehicle(PhysicsVehicleDifferentialType.OPEN);
+            vehicle.gear = 0;
+            vehicle.throttle = 1;
+
+            vehicle.update(DeltaTime);
+
+            expect(vehicle.rpm).toBeCloseTo(1000 + ((400 * 0.6) / 0.3) * DeltaTime * (30 / Math.PI));
+            expect(vehicle.wheels[0].driveTorque).toBe(0);
+            expect(vehicle.wheels[0].angularVelocity).toBe(0);
+        });
+
+        it("shifts up automatically", () => {
+            const vehicle = CreateDrivenVehicle(PhysicsVehicleDifferentialType.OPEN);
+            vehicle.throttle = 1;
+            vehicle.wheels[0].angularVelocity = 60;
+            vehicle.wheels[1].angularVelocity = 60;
+
+            vehicle.update(DeltaTime);
+
+            expect(vehicle.gear).toBe(2);
+            expect(vehicle.isShifting).toBe(true);
+            expect(vehicle.wheels[0].driveTorque).toBe(0);
+        });
+
+        it("shifts down automatically", () => {
+            const vehicle = CreateDrivenVehicle(PhysicsVehicleDifferentialType.OPEN);
+            vehicle.gear = 3;
+
+            // the engine idles once the shift to the third gear ends
+            for (let i = 0; i < 14; i++) {
+                vehicle.update(DeltaTime);
+            }
+
+            expect(vehicle.gear).toBe(2);
+        });
+
+        it("keeps both wheels at the same speed with a locked differential", () => {
+            const vehicle = CreateDrivenVehicle(PhysicsVehicleDifferentialType.LOCKED);
+            vehicle.wheels[0].angularVelocity = 10;
+
+            vehicle.update(DeltaTime);
+
+            expect(vehicle.wheels[0].angularVelocity).toBeCloseTo(5);
+            expect(vehicle.wheels[1].angularVelocity).toBeCloseTo(5);
+        });
+
+        it("transfers torque to the slower wheel with a limited slip differential", () => {
+            const vehicle = CreateDrivenVehicle(PhysicsVehicleDifferentialType.LIMITED_SLIP);
+            vehicle.throttle = 1;
+            vehicle.wheels[0].angularVelocity = 40;
+
+            vehicle.update(DeltaTime);
+
+            // the transfer is limited by the default torque bias ratio of 3
+            expect(vehicle.wheels[1].driveTorque / vehicle.wheels[0].driveTorque).toBeCloseTo(3);
+        });
+    });
+
+    describe("shape casts", () => {
+        it("casts the wheel cylinders to find the ground", () => {
+            plugin.shapeCast.mockImplementation((_query: any, _inputResult: ShapeCastResult, hitResult: ShapeCastResult) => {
+                hitResult.setHitData(Vector3.Up(), new Vector3(0, 0, 1));
+                hitResult.setHitFraction(0.5);
+            });
+            const vehicle = CreateVehicle({ wheels: [{ position: new Vector3(0, 0, 1) }], useShapeCast: true, castQuery: { shouldHitTriggers: true } }, 0.55);
+
+            vehicle.update(DeltaTime);
+
+            expect(plugin.initShape).toHaveBeenCalledTimes(1);
+            const query = plugin.shapeCast.mock.calls[0][0];
+            expect(query.shouldHitTriggers).toBe(true);
+            expect(query.ignoreBody).toBe(body);
+            expect(query.startPosition.equalsWithEpsilon(new Vector3(0, 0.55, 1))).toBe(true);
+            expect(query.endPosition.equalsWithEpsilon(new Vector3(0, 0.25, 1))).toBe(true);
+            expect(vehicle.wheels[0].isGrounded).toBe(true);
+            expect(vehicle.wheels[0].suspensionLength).toBeCloseTo(0.15);
+
+            vehicle.dispose();
+            expect(plugin.disposeShape).toHaveBeenCalledTimes(1);
+        });
+
+        it("throws when the ground queries filter collisions", () => {
+            expect(() => CreateVehicle({ wheels: [{ position: Vector3.Zero() }], useShapeCast: true, castQuery: { collideWith: 1 } }, 1)).toThrow();
+            expect(plugin.initShape).not.toHaveBeenCalled();
+        });
+    });
+
+    it("throws when the chassis is not dynamic", () => {
+        body = CreateBody(1000);
+        body.getMotionType = () => PhysicsMotionType.STATIC;
+
+        expect(() => new PhysicsVehicleController(body as unknown as PhysicsBody, { wheels: [] })).toThrow();
+    });
+});
@@ -7,6 +7,9 @@ import { ButtonLine } from "shared-ui-components/fluent/hoc/buttonLine";
 import { useProperty } from "../../../hooks/compoundPropertyHooks";
 import { BoundProperty } from "../boundProperty";
 import { SwitchPropertyLine } from "shared-ui-components/fluent/hoc/propertyLines/switchPropertyLine";
+import { StringifiedPropertyLine } from "shared-ui-components/fluent/hoc/propertyLines/stringifiedPropertyLine";
+import { useObservableState } from "../../../hooks/observableHooks";
+import { FrameGraphTimeline } from "./frameGraphTimeline";
 
 export const FrameGraphTaskProperties: FunctionComponent<{ frameGraph: FrameGraph }> = (props) => {
     const { frameGraph } = props;
@@ -45,3 +48,34 @@ export const FrameGraphGeneralProperties: FunctionComponent<{ frameGraph: FrameG
         </>
     );
 };
+
+export const FrameGraphProfilerProperties: FunctionComponent<{ frameGraph: FrameGraph }> = (props) => {
+    const { frameGraph } = props;
+    const profiler = frameGraph.profiler;
+    const report = useObservableState(() => profiler.report, profiler.onReportObservable);
+
+    return (
+        <>
+            <BoundProperty
+                component={SwitchPropertyLine}
+                label="Measure Pass Times"
+                description="Whether to measure the CPU/GPU time spent in each pass."
+                target={profiler}
+                propertyKey="enabled"
+            ></BoundProperty>
+            {report && (
+                <>
+                    <StringifiedPropertyLine label="Texture Memory" value={report.totalByteSize / (1024 * 1024)} precision={2} units="MB" />
+                    <StringifiedPropertyLine
+                        label="Texture Memory (Optimized)"
+                        description="Texture memory when the aliased textures are taken into account."
+                        value={report.optimizedByteSize / (1024 * 1024)}
+                        precision={2}
+                        units="MB"
+                    />
+                    <FrameGraphTimeline report={report} />
+                </>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,149 @@
+import type { FrameGraphResourceReport, FrameGraphTextureReport } from "core/index";
+
+import type { FunctionComponent } from "react";
+
+import { Body1, Caption1, makeStyles, mergeClasses, tokens, Tooltip } from "@fluentui/react-components";
+import { useCallback, useMemo } from "react";
+
+import { useObservableState } from "../../../hooks/observableHooks";
+import { usePollingObservable } from "../../../hooks/pollingHooks";
+
+const useStyles = makeStyles({
+    root: {
+        display: "flex",
+        flexDirection: "column",
+        gap: tokens.spacingVerticalXXS,
+        paddingBottom: tokens.spacingVerticalS,
+    },
+    row: {
+        display: "flex",
+        alignItems: "center",
+        gap: tokens.spacingHorizontalS,
+        minHeight: "20px",
+    },
+    pass: {
+        flex: "1 1 0",
+        minWidth: 0,
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+    },
+    disabledPass: {
+        color: tokens.colorNeutralForegroundDisabled,
+    },
+    timings: {
+        flex: "0 0 auto",
+        color: tokens.colorNeutralForeground3,
+    },
+    lanes: {
+        flex: "0 0 auto",
+        display: "flex",
+        gap: "2px",
+        alignSelf: "stretch",
+    },
+    lane: {
+        width: "8px",
+    },
+    read: {
+        backgroundColor: tokens.colorPaletteBlueBorderActive,
+        opacity: 0.5,
+    },
+    written: {
+        backgroundColor: tokens.colorPaletteBlueBorderActive,
+    },
+    alive: {
+        backgroundColor: tokens.colorNeutralStroke1,
+    },
+    legend: {
+        display: "flex",
+        flexDirection: "column",
+        marginTop: tokens.spacingVerticalS,
+    },
+});
+
+type TextureLane = {
+    textures: FrameGraphTextureReport[];
+    byteSize: number;
+};
+
+function FormatByteSize(byteSize: number) {
+    return `${(byteSize / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+/**
+ * Gets the texture lanes of a report: textures aliased to the same memory share the same lane.
+ * @param report The report of the frame graph profiler
+ * @returns The texture lanes, in order of first use
+ */
+function GetTextureLanes(report: FrameGraphResourceReport): TextureLane[] {
+    const lanes = new Map<number, TextureLane>();
+
+    for (const texture of report.textures) {
+        if (texture.firstPass < 0) {
+            continue;
+        }
+
+        const memoryHandle = texture.aliasHandle ?? texture.handle;
+        let lane = lanes.get(memoryHandle);
+        if (!lane) {
+            lane = { textures: [], byteSize: 0 };
+            lanes.set(memoryHandle, lane);
+        }
+        lane.textures.push(texture);
+        lane.byteSize = Math.max(lane.byteSize, texture.byteSize);
+    }
+
+    return Array.from(lanes.values()).sort((a, b) => a.textures[0].firstPass - b.textures[0].firstPass);
+}
+
+/**
+ * Displays the passes of a frame graph with their execution times and the lifespan of the textures they use.
+ * Each column is a texture lane: textures aliased by the texture allocation optimization share the same lane.
+ * @param props The report of the frame graph profiler
+ * @returns The timeline component
+ */
+export const FrameGraphTimeline: FunctionComponent<{ report: FrameGraphResourceReport }> = (props) => {
+    const { report } = props;
+    const classes = useStyles();
+
+    const lanes = useMemo(() => GetTextureLanes(report), [report]);
+
+    const pollingObservable = usePollingObservable(1000);
+    const timings = useObservableState(
+        useCallback(() => report.passes.map((pass) => `${pass.cpuTime.lastSecAverage.toFixed(2)} / ${pass.gpuTime.lastSecAverage.toFixed(2)} ms`), [report]),
+        pollingObservable
+    );
+
+    return (
+        <div className={classes.root}>
+            {report.passes.map((pass) => (
+                <div key={pass.index} className={classes.row}>
+                    <Tooltip content={`Task: ${pass.taskName} - ${pass.type} pass${pass.whenTaskDisabled ? " (task disabled)" : ""}`} relationship="description">
+                        <Body1 className={mergeClasses(classes.pass, pass.whenTaskDisabled && classes.disabledPass)}>{`${pass.index + 1}. ${pass.name}`}</Body1>
+                    </Tooltip>
+                    <Caption1 className={classes.timings} title="CPU / GPU time">
+                        {timings[pass.index]}
+                    </Caption1>
+                    <div className={classes.lanes}>
+                        {lanes.map((lane, i) => {
+                            const texture = lane.textures.find((texture) => texture.firstPass <= pass.index && texture.lastPass >= pass.index);
+                            const laneClass = !texture
+                                ? undefined
+                                : pass.writtenTextures.indexOf(texture.handle) !== -1
+                                  ? classes.written
+                                  : pass.readTextures.indexOf(texture.handle) !== -1
+                                    ? classes.read
+                                    : classes.alive;
+                            return <div key={i} className={mergeClasses(classes.lane, laneClass)} title={texture?.name} />;
+                        })}
+                    </div>
+                </div>
+            ))}
+            <div className={classes.legend}>
+                {lanes.map((lane, i) => (
+                    <Caption1 key={i}>{`${i + 1}. ${lane.textures.map((texture) => texture.name).join(", ")} (${FormatByteSize(lane.byteSize)})`}</Caption1>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -3,7 +3,7 @@ import type { ServiceDefinition } from "../../../modularity/serviceDefinition";
 import type { IPropertiesService } from "./propertiesService";
 
 import { PropertiesServiceIdentity } from "./propertiesService";
-import { FrameGraphTaskProperties, FrameGraphGeneralProperties } from "../../../components/properties/frameGraph/frameGraphProperties";
+import { FrameGraphTaskProperties, FrameGraphGeneralProperties, FrameGraphProfilerProperties } from "../../../components/properties/frameGraph/frameGraphProperties";
 
 export const FrameGraphPropertiesServiceDefinition: ServiceDefinition<[], [IPropertiesService]> = {
     friendlyName: "Frame Graph Properties",
@@ -21,6 +21,10 @@ export const FrameGraphPropertiesServiceDefinition: ServiceDefinition<[], [IProp
                     section: "Tasks",
                     component: ({ context }) => <FrameGraphTaskProperties frameGraph={context} />,
                 },
+                {
+                    section: "Resources",
+                    component: ({ context }) => <FrameGraphProfilerProperties frameGraph={context} />,
+                },
             ],
         });
 
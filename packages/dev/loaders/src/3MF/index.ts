@@ -0,0 +1,3 @@
+/* eslint-disable @typescript-eslint/no-restricted-imports */
+export * from "./threeMFFileLoader";
+export * from "./threeMFLoadingOptions";
@@ -0,0 +1,10 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import type { ISceneLoaderPluginExtensions, ISceneLoaderPluginMetadata } from "core/index";
+
+export const ThreeMFFileLoaderMetadata = {
+    name: "3mf",
+
+    extensions: {
+        ".3mf": { isBinary: true },
+    } as const satisfies ISceneLoaderPluginExtensions,
+} as const satisfies ISceneLoaderPluginMetadata;
@@ -0,0 +1,668 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import type { ISceneLoaderPluginAsync, ISceneLoaderPluginFactory, ISceneLoaderAsyncResult, SceneLoaderPluginOptions } from "core/Loading/sceneLoader";
+import { RegisterSceneLoaderPlugin } from "core/Loading/sceneLoader";
+import { AssetContainer } from "core/assetContainer";
+import { Color4 } from "core/Maths/math.color";
+import { Matrix, Quaternion, Vector3 } from "core/Maths/math.vector";
+import type { Material } from "core/Materials/material";
+import { MultiMaterial } from "core/Materials/multiMaterial";
+import { StandardMaterial } from "core/Materials/standardMaterial";
+import type { AbstractMesh } from "core/Meshes/abstractMesh";
+import { Mesh } from "core/Meshes/mesh";
+import { VertexData } from "core/Meshes/mesh.vertexData";
+import { SubMesh } from "core/Meshes/subMesh";
+import { TransformNode } from "core/Meshes/transformNode";
+import { Tools } from "core/Misc/tools";
+import type { Scene } from "core/scene";
+import type { Nullable } from "core/types";
+import type { ThreeMFLoadingOptions } from "./threeMFLoadingOptions";
+import { ThreeMFFileLoaderMetadata } from "./threeMFFileLoader.metadata";
+
+declare module "core/Loading/sceneLoader" {
+    // eslint-disable-next-line jsdoc/require-jsdoc
+    export interface SceneLoaderPluginOptions {
+        /**
+         * Defines options for the 3mf loader.
+         */
+        [ThreeMFFileLoaderMetadata.name]: Partial<ThreeMFLoadingOptions>;
+    }
+}
+
+/**
+ * Size of a unit of the 3MF specification, in meters
+ */
+const UnitScales: { [unit: string]: number } = {
+    micron: 0.000001,
+    millimeter: 0.001,
+    centimeter: 0.01,
+    inch: 0.0254,
+    foot: 0.3048,
+    meter: 1,
+};
+
+const ModelRelationshipType = "http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel";
+const DefaultModelPath = "3D/3dmodel.model";
+
+/**
+ * Group of properties (base materials, colors, textures...) referenced by the triangles of the objects
+ */
+interface IThreeMFPropertyGroup {
+    /** The type of the group, the unsupported groups are ignored */
+    type: "basematerials" | "colorgroup" | "unsupported";
+    /** The colors of the properties */
+    colors: Color4[];
+    /** The names of the base materials */
+    names: string[];
+}
+
+/**
+ * Reference to an object, by a build item or a component
+ */
+interface IThreeMFObjectReference {
+    objectId: string;
+    /** The model file containing the object, from the production extension */
+    path?: string;
+    transform?: number[];
+}
+
+/**
+ * Object resource of a 3MF model
+ */
+interface IThreeMFObject {
+    id: string;
+    name: string;
+    pid?: string;
+    pindex: number;
+    /** The x, y and z coordinates of the vertices */
+    vertices: number[];
+    /** The v1, v2 and v3 vertex indices of the triangles */
+    triangles: number[];
+    /** The property group of the triangles, if they override the one of the object */
+    trianglePids: (string | undefined)[];
+    /** The p1, p2 and p3 property indices of the triangles (-1 if not defined) */
+    triangleProperties: number[];
+    components: IThreeMFObjectReference[];
+}
+
+/**
+ * Content of a 3MF model file
+ */
+interface IThreeMFModel {
+    unit: string;
+    objects: Map<string, IThreeMFObject>;
+    propertyGroups: Map<string, IThreeMFPropertyGroup>;
+    items: IThreeMFObjectReference[];
+}
+
+/**
+ * Decodes the XML entities of a string
+ * @param value the string to decode
+ * @returns the decoded string
+ */
+function DecodeXml(value: string): string {
+    if (value.indexOf("&") === -1) {
+        return value;
+    }
+    return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+        switch (entity) {
+            case "amp":
+                return "&";
+            case "lt":
+                return "<";
+            case "gt":
+                return ">";
+            case "quot":
+                return '"';
+            case "apos":
+                return "'";
+        }
+        return String.fromCodePoint(entity[1] === "x" ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1)));
+    });
+}
+
+/**
+ * Scans the elements of an XML document.
+ * The namespace prefixes are removed from the names of the elements and attributes, as the 3MF extensions use distinct element names.
+ * @param text the XML document
+ * @param onStartElement called for every opening (or self closing) tag
+ * @param onEndElement called for every closing (or self closing) tag
+ */
+function ScanXml(text: string, onStartElement: (name: string, attributes: { [name: string]: string }) => void, onEndElement: (name: string) => void): void {
+    const tagPattern = /<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>/g;
+    const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: Nullable<RegExpExecArray>;
+    while ((match = tagPattern.exec(text))) {
+        if (!match[2]) {
+            continue;
+        }
+        const name = match[2].substring(match[2].indexOf(":") + 1);
+        if (match[1]) {
+            onEndElement(name);
+            continue;
+        }
+        const attributes: { [name: string]: string } = {};
+        let attribute: Nullable<RegExpExecArray>;
+        attributePattern.lastIndex = 0;
+        while ((attribute = attributePattern.exec(match[3]))) {
+            attributes[attribute[1].substring(attribute[1].indexOf(":") + 1)] = DecodeXml(attribute[2] ?? attribute[3]);
+        }
+        onStartElement(name, attributes);
+        if (match[4]) {
+            onEndElement(name);
+        }
+    }
+}
+
+/**
+ * Parses a 3MF color (#RRGGBB or #RRGGBBAA, in sRGB)
+ * @param value the color attribute
+ * @returns the color
+ */
+function ParseColor(value: string | undefined): Color4 {
+    const color = new Color4(1, 1, 1, 1);
+    if (value && value[0] === "#" && (value.length === 7 || value.length === 9)) {
+        color.r = parseInt(value.substring(1, 3), 16) / 255;
+        color.g = parseInt(value.substring(3, 5), 16) / 255;
+        color.b = parseInt(value.substring(5, 7), 16) / 255;
+        if (value.length === 9) {
+            color.a = parseInt(value.substring(7, 9), 16) / 255;
+        }
+    }
+    return color;
+}
+
+/**
+ * Parses a 3MF transform ("m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32")
+ * @param value the transform attribute
+ * @returns the 12 values of the transform, if defined
+ */
+function ParseTransform(value: string | undefined): number[] | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const values = value.trim().split(/\s+/).map(parseFloat);
+    return values.length === 12 ? values : undefined;
+}
+
+/**
+ * Parses a 3MF model file
+ * @param text the XML content of the model file
+ * @returns the model
+ */
+function ParseModel(text: string): IThreeMFModel {
+    const model: IThreeMFModel = { unit: "millimeter", objects: new Map(), propertyGroups: new Map(), items: [] };
+    let object: Nullable<IThreeMFObject> = null;
+    let group: Nullable<IThreeMFPropertyGroup> = null;
+
+    ScanXml(
+        text,
+        (name, attributes) => {
+            switch (name) {
+                case "model":
+                    model.unit = attributes.unit ?? model.unit;
+                    break;
+                case "object":
+                    object = {
+                        id: attributes.id,
+                        name: attributes.name ?? "object" + attributes.id,
+                        pid: attributes.pid,
+                        pindex: attributes.pindex ? parseInt(attributes.pindex) : 0,
+                        vertices: [],
+                        triangles: [],
+                        trianglePids: [],
+                        triangleProperties: [],
+                        components: [],
+                    };
+                    model.objects.set(object.id, object);
+                    break;
+                case "vertex":
+                    object?.vertices.push(parseFloat(attributes.x), parseFloat(attributes.y), parseFloat(attributes.z));
+                    break;
+                case "triangle":
+                    if (object) {
+                        object.triangles.push(parseInt(attributes.v1), parseInt(attributes.v2), parseInt(attributes.v3));
+                        object.trianglePids.push(attributes.pid);
+                        const p1 = attributes.p1 ? parseInt(attributes.p1) : -1;
+                        object.triangleProperties.push(p1, attributes.p2 ? parseInt(attributes.p2) : p1, attributes.p3 ? parseInt(attributes.p3) : p1);
+                    }
+                    break;
+                case "component":
+                    object?.components.push({ objectId: attributes.objectid, path: attributes.path, transform: ParseTransform(attributes.transform) });
+                    break;
+                case "item":
+                    model.items.push({ objectId: attributes.objectid, path: attributes.path, transform: ParseTransform(attributes.transform) });
+                    break;
+                case "basematerials":
+                case "colorgroup":
+                    group = { type: name, colors: [], names: [] };
+                    model.propertyGroups.set(attributes.id, group);
+                    break;
+                case "texture2dgroup":
+                case "compositematerials":
+                case "multiproperties":
+                    model.propertyGroups.set(attributes.id, { type: "unsupported", colors: [], names: [] });
+                    break;
+                case "base":
+                    group?.colors.push(ParseColor(attributes.displaycolor));
+                    group?.names.push(attributes.name ?? "");
+                    break;
+                case "color":
+                    group?.colors.push(ParseColor(attributes.color));
+                    break;
+            }
+        },
+        (name) => {
+            switch (name) {
+                case "object":
+                    object = null;
+                    break;
+                case "basematerials":
+                case "colorgroup":
+                    group = null;
+                    break;
+            }
+        }
+    );
+
+    return model;
+}
+
+/**
+ * Removes the leading slash of a part name of the package
+ * @param path the part name
+ * @returns the path of the part in the zip archive
+ */
+function NormalizePath(path: string): string {
+    return path[0] === "/" ? path.substring(1) : path;
+}
+
+/**
+ * State of the creation of the Babylon objects of a 3MF file
+ */
+interface IThreeMFBuildContext {
+    scene: Scene;
+    files: Map<string, Uint8Array>;
+    models: Map<string, IThreeMFModel>;
+    unitScale: number;
+    meshes: Map<IThreeMFObject, Mesh>;
+    materials: Map<string, Material>;
+    assetContainer: Nullable<AssetContainer>;
+    result: ISceneLoaderAsyncResult;
+    warnings: Set<string>;
+}
+
+/**
+ * @experimental
+ * 3MF file type loader.
+ * Loads the objects of the build items of 3MF files (3D Manufacturing Format) with their components, base materials and color groups.
+ * The z-up coordinates of the file are converted to the y-up coordinates of Babylon by swapping the y and z axes, as done by the STL loader.
+ * This is a babylon scene loader plugin.
+ */
+export class ThreeMFFileLoader implements ISceneLoaderPluginAsync, ISceneLoaderPluginFactory {
+    /**
+     * Name of the loader ("3mf")
+     */
+    public readonly name = ThreeMFFileLoaderMetadata.name;
+
+    /** @internal */
+    public readonly extensions = ThreeMFFileLoaderMetadata.extensions;
+
+    private readonly _loadingOptions: ThreeMFLoadingOptions;
+
+    /**
+     * Creates loader for 3MF files
+     * @param loadingOptions - Options for the 3MF loader
+     */
+    constructor(loadingOptions: Partial<Readonly<ThreeMFLoadingOptions>> = ThreeMFFileLoader._DefaultLoadingOptions) {
+        this._loadingOptions = loadingOptions;
+    }
+
+    private static readonly _DefaultLoadingOptions = {
+        convertUnitsToMeters: false,
+    } as const satisfies ThreeMFLoadingOptions;
+
+    /** @internal */
+    public createPlugin(options: SceneLoaderPluginOptions): ISceneLoaderPluginAsync {
+        return new ThreeMFFileLoader(options[ThreeMFFileLoaderMetadata.name]);
+    }
+
+    /**
+     * Imports the objects of the build items of the loaded 3MF data and adds them to the scene
+     * @param meshesNames a string or array of strings of the names of the objects that should be loaded from the file (all the objects if empty)
+     * @param scene the scene the meshes should be added to
+     * @param data the 3MF data to load
+     * @returns a promise containing the loaded meshes and transform nodes
+     */
+    public async importMeshAsync(meshesNames: string | readonly string[] | null | undefined, scene: Scene, data: ArrayBuffer): Promise<ISceneLoaderAsyncResult> {
+        const files = await this._unzipWithFFlateAsync(new Uint8Array(data));
+        return this._buildScene(meshesNames, scene, files, null);
+    }
+
+    /**
+     * Imports all objects from the loaded 3MF data and adds them to the scene
+     * @param scene the scene the objects should be added to
+     * @param data the 3MF data to load
+     * @returns a promise which completes when objects have been loaded to the scene
+     */
+    public async loadAsync(scene: Scene, data: ArrayBuffer): Promise<void> {
+        await this.importMeshAsync(null, scene, data);
+    }
+
+    /**
+     * Load into an asset container.
+     * @param scene The scene to load into
+     * @param data The data to import
+     * @returns The loaded asset container
+     */
+    public async loadAssetContainerAsync(scene: Scene, data: ArrayBuffer): Promise<AssetContainer> {
+        const files = await this._unzipWithFFlateAsync(new Uint8Array(data));
+        const container = new AssetContainer(scene);
+        const result = this._buildScene(null, scene, files, container);
+        container.meshes.push(...result.meshes);
+        container.transformNodes.push(...result.transformNodes);
+        container.geometries.push(...result.geometries);
+        return container;
+    }
+
+    private async _unzipWithFFlateAsync(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+        let fflate = this._loadingOptions.fflate as any;
+        // ensure fflate is loaded
+        if (!fflate) {
+            if (typeof (window as any).fflate === "undefined") {
+                await Tools.LoadScriptAsync(this._loadingOptions.deflateURL ?? "https://unpkg.com/fflate/umd/index.js");
+            }
+            fflate = (window as any).fflate;
+        }
+
+        const unzipped = fflate.unzipSync(data) as Record<string, Uint8Array>;
+
+        const files = new Map<string, Uint8Array>();
+        for (const [name, content] of Object.entries(unzipped)) {
+            files.set(name, content);
+        }
+        return files;
+    }
+
+    private _buildScene(
+        meshesNames: string | readonly string[] | null | undefined,
+        scene: Scene,
+        files: Map<string, Uint8Array>,
+        assetContainer: Nullable<AssetContainer>
+    ): ISceneLoaderAsyncResult {
+        // The root model is the target of the 3D model relationship of the package
+        let rootPath = DefaultModelPath;
+        const relationships = files.get("_rels/.rels");
+        if (relationships) {
+            ScanXml(
+                new TextDecoder().decode(relationships),
+                (name, attributes) => {
+                    if (name === "Relationship" && attributes.Type === ModelRelationshipType && attributes.Target) {
+                        rootPath = NormalizePath(attributes.Target);
+                    }
+                },
+                () => {}
+            );
+        }
+
+        const context: IThreeMFBuildContext = {
+            scene,
+            files,
+            models: new Map(),
+            unitScale: 1,
+            meshes: new Map(),
+            materials: new Map(),
+            assetContainer,
+            result: {
+                meshes: [],
+                particleSystems: [],
+                skeletons: [],
+                animationGroups: [],
+                transformNodes: [],
+                geometries: [],
+                lights: [],
+                spriteManagers: [],
+            },
+            warnings: new Set(),
+        };
+
+        const rootModel = this._getModel(context, rootPath);
+        if (this._loadingOptions.convertUnitsToMeters) {
+            context.unitScale = UnitScales[rootModel.unit] ?? UnitScales.millimeter;
+        }
+
+        const names = meshesNames ? (Array.isArray(meshesNames) ? meshesNames : [meshesNames]) : null;
+        scene._blockEntityCollection = !!assetContainer;
+        try {
+            for (const item of rootModel.items) {
+                const path = item.path ? NormalizePath(item.path) : rootPath;
+                const object = this._getModel(context, path).objects.get(item.objectId);
+                if (!object) {
+                    throw new Error(`3MF build item references the unknown object ${item.objectId}`);
+                }
+                if (names && names.length && names.indexOf(object.name) === -1) {
+                    continue;
+                }
+                this._instantiateObject(context, path, object, item.transform, null);
+            }
+        } finally {
+            scene._blockEntityCollection = false;
+        }
+
+        return context.result;
+    }
+
+    private _getModel(context: IThreeMFBuildContext, path: string): IThreeMFModel {
+        let model = context.models.get(path);
+        if (!model) {
+            const file = context.files.get(path);
+            if (!file) {
+                throw new Error(`3MF package does not contain the model ${path}`);
+            }
+            model = ParseModel(new TextDecoder().decode(file));
+            context.models.set(path, model);
+        }
+        return model;
+    }
+
+    private _instantiateObject(context: IThreeMFBuildContext, path: string, object: IThreeMFObject, transform: number[] | undefined, parent: Nullable<TransformNode>): void {
+        let node: TransformNode;
+        if (object.components.length) {
+            node = new TransformNode(object.name, context.scene);
+            node._parentContainer = context.assetContainer;
+            context.result.transformNodes.push(node);
+            for (const component of object.components) {
+                const componentPath = component.path ? NormalizePath(component.path) : path;
+                const componentObject = this._getModel(context, componentPath).objects.get(component.objectId);
+                if (!componentObject) {
+                    throw new Error(`3MF component references the unknown object ${component.objectId}`);
+                }
+                this._instantiateObject(context, componentPath, componentObject, component.transform, node);
+            }
+        } else {
+            // Objects used several times are instanced
+            const mesh = context.meshes.get(object);
+            if (mesh) {
+                node = mesh.createInstance(object.name);
+            } else {
+                node = this._createMesh(context, path, object);
+                context.meshes.set(object, node as Mesh);
+            }
+            node._parentContainer = context.assetContainer;
+            context.result.meshes.push(node as AbstractMesh);
+        }
+
+        node.parent = parent;
+        if (transform) {
+            // Swap the y and z axes of the transform and scale its translation
+            const m = transform;
+            const scale = context.unitScale;
+            // prettier-ignore
+            const matrix = Matrix.FromValues(
+                m[0], m[2], m[1], 0,
+                m[6], m[8], m[7], 0,
+                m[3], m[5], m[4], 0,
+                m[9] * scale, m[11] * scale, m[10] * scale, 1
+            );
+            node.rotationQuaternion = new Quaternion();
+            node.scaling = new Vector3();
+            matrix.decompose(node.scaling, node.rotationQuaternion, node.position);
+        }
+    }
+
+    private _warn(context: IThreeMFBuildContext, message: string): void {
+        if (!context.warnings.has(message)) {
+            context.warnings.add(message);
+            Tools.Warn(message);
+        }
+    }
+
+    private _getPropertyGroup(context: IThreeMFBuildContext, model: IThreeMFModel, pid: string | undefined): Nullable<IThreeMFPropertyGroup> {
+        if (pid === undefined) {
+            return null;
+        }
+        const group = model.propertyGroups.get(pid);
+        if (!group) {
+            this._warn(context, `3MF property group ${pid} not found.`);
+            return null;
+        }
+        if (group.type === "unsupported") {
+            this._warn(context, "3MF textures, composite materials and multi-properties are not supported, the triangles using them are loaded without material.");
+            return null;
+        }
+        return group;
+    }
+
+    private _getMaterial(context: IThreeMFBuildContext, path: string, pid: string, index: number, group: Nullable<IThreeMFPropertyGroup>): Material {
+        const key = group ? `${path}#${pid}/${index}` : "";
+        let material = context.materials.get(key);
+        if (!material) {
+            const standardMaterial = new StandardMaterial(group?.names[index] || (group ? `material${pid}_${index}` : "default"), context.scene);
+            const color = group?.colors[index];
+            if (color) {
+                standardMaterial.diffuseColor.set(color.r, color.g, color.b);
+                standardMaterial.alpha = color.a;
+            }
+            standardMaterial._parentContainer = context.assetContainer;
+            context.assetContainer?.materials.push(standardMaterial);
+            context.materials.set(key, standardMaterial);
+            material = standardMaterial;
+        }
+        return material;
+    }
+
+    private _createMesh(context: IThreeMFBuildContext, path: string, object: IThreeMFObject): Mesh {
+        const model = this._getModel(context, path);
+        const triangleCount = object.triangles.length / 3;
+
+        // Resolve the property group of every triangle
+        const groups: Nullable<IThreeMFPropertyGroup>[] = [];
+        const pids: (string | undefined)[] = [];
+        let hasColors = false;
+        for (let i = 0; i < triangleCount; i++) {
+            const pid = object.trianglePids[i] ?? object.pid;
+            const group = this._getPropertyGroup(context, model, pid);
+            pids.push(pid);
+            groups.push(group);
+            hasColors ||= group?.type === "colorgroup";
+        }
+        const getPropertyIndex = (triangle: number, corner: number) => {
+            const index = object.triangleProperties[triangle * 3 + corner];
+            return index >= 0 ? index : object.pindex;
+        };
+
+        // Without colors, the triangles are sorted by base material to be rendered with submeshes
+        const materialKeys: string[] = [];
+        const materialTriangles: number[][] = [];
+        const order: number[] = [];
+        if (hasColors) {
+            for (let i = 0; i < triangleCount; i++) {
+                order.push(i);
+            }
+        } else {
+            for (let i = 0; i < triangleCount; i++) {
+                const key = groups[i] ? `${pids[i]}/${getPropertyIndex(i, 0)}` : "";
+                let materialIndex = materialKeys.indexOf(key);
+                if (materialIndex === -1) {
+                    materialIndex = materialKeys.length;
+                    materialKeys.push(key);
+                    materialTriangles.push([]);
+                }
+                materialTriangles[materialIndex].push(i);
+            }
+            for (const triangles of materialTriangles) {
+                order.push(...triangles);
+            }
+        }
+
+        // The triangles don't share their vertices, so that the meshes are flat shaded like with the STL loader
+        const scale = context.unitScale;
+        const positions = new Float32Array(triangleCount * 9);
+        const colors = hasColors ? new Float32Array(triangleCount * 12) : null;
+        const indices = new Uint32Array(triangleCount * 3);
+        let hasVertexAlpha = false;
+        for (let i = 0; i < triangleCount; i++) {
+            const triangle = order[i];
+            const group = groups[triangle];
+            for (let corner = 0; corner < 3; corner++) {
+                const vertex = i * 3 + corner;
+                const source = object.triangles[triangle * 3 + corner] * 3;
+                positions[vertex * 3] = object.vertices[source] * scale;
+                positions[vertex * 3 + 1] = object.vertices[source + 2] * scale;
+                positions[vertex * 3 + 2] = object.vertices[source + 1] * scale;
+                indices[vertex] = vertex;
+                if (colors) {
+                    // Base materials apply to the whole triangle, colors to each corner
+                    const color = group?.colors[group.type === "colorgroup" ? getPropertyIndex(triangle, corner) : getPropertyIndex(triangle, 0)];
+                    if (color) {
+                        color.toArray(colors, vertex * 4);
+                        hasVertexAlpha ||= color.a < 1;
+                    } else {
+                        colors.fill(1, vertex * 4, vertex * 4 + 4);
+                    }
+                }
+            }
+        }
+
+        const vertexData = new VertexData();
+        vertexData.positions = positions;
+        vertexData.indices = indices;
+        vertexData.normals = new Float32Array(positions.length);
+        VertexData.ComputeNormals(positions, indices, vertexData.normals);
+        if (colors) {
+            vertexData.colors = colors;
+        }
+
+        const mesh = new Mesh(object.name, context.scene);
+        mesh._parentContainer = context.assetContainer;
+        vertexData.applyToMesh(mesh);
+        if (mesh.geometry) {
+            context.result.geometries.push(mesh.geometry);
+        }
+
+        if (colors) {
+            mesh.hasVertexAlpha = hasVertexAlpha;
+            mesh.material = this._getMaterial(context, path, "", 0, null);
+        } else if (materialKeys.length === 1) {
+            const triangle = materialTriangles[0][0];
+            mesh.material = this._getMaterial(context, path, pids[triangle] ?? "", getPropertyIndex(triangle, 0), groups[triangle]);
+        } else if (materialKeys.length > 1) {
+            const multiMaterial = new MultiMaterial(object.name, context.scene);
+            multiMaterial._parentContainer = context.assetContainer;
+            context.assetContainer?.multiMaterials.push(multiMaterial);
+            mesh.subMeshes = [];
+            let start = 0;
+            for (let i = 0; i < materialTriangles.length; i++) {
+                const triangle = materialTriangles[i][0];
+                multiMaterial.subMaterials.push(this._getMaterial(context, path, pids[triangle] ?? "", getPropertyIndex(triangle, 0), groups[triangle]));
+                const count = materialTriangles[i].length * 3;
+                new SubMesh(i, start, count, start, count, mesh);
+                start += count;
+            }
+            mesh.material = multiMaterial;
+        }
+
+        return mesh;
+    }
+}
+
+RegisterSceneLoaderPlugin(new ThreeMFFileLoader());
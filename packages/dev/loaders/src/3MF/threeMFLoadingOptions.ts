@@ -0,0 +1,22 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+/**
+ * Options for loading 3MF files
+ */
+export type ThreeMFLoadingOptions = {
+    /**
+     * Converts the coordinates from the unit of the model (millimeter by default in 3MF) to meters.
+     * When false, the coordinates are used as stored in the file.
+     */
+    convertUnitsToMeters?: boolean;
+    /**
+     * URL to load fflate from. If null or undefined, will load from unpkg.com
+     * (https://unpkg.com/fflate/umd/index.js)
+     */
+    deflateURL?: string;
+    /**
+     * Instance of [fflate](https://github.com/101arrowz/fflate) to avoid
+     * dynamically loading of the lib to global if needed, useful for bundler users.
+     * @example import * as fflate from 'fflate';
+     */
+    fflate?: unknown;
+};
@@ -0,0 +1,366 @@
+import type { Nullable } from "core/types";
+
+/**
+ * Property of an element of a PLY file
+ */
+export interface IPlyProperty {
+    /**
+     * Name of the property
+     */
+    name: string;
+    /**
+     * Type of the values (char, uchar, short, ushort, int, uint, float, double or their sized aliases like float32)
+     */
+    type: string;
+    /**
+     * Type of the number of values, for the list properties
+     */
+    countType?: string;
+}
+
+/**
+ * Element (vertex, face...) of a PLY file
+ */
+export interface IPlyElement {
+    /**
+     * Name of the element
+     */
+    name: string;
+    /**
+     * Number of elements stored in the file
+     */
+    count: number;
+    /**
+     * Properties of each element
+     */
+    properties: IPlyProperty[];
+}
+
+/**
+ * Header of a PLY file
+ */
+export interface IPlyHeader {
+    /**
+     * Format of the data following the header
+     */
+    format: "ascii" | "binary_little_endian" | "binary_big_endian";
+    /**
+     * Elements of the file, in the order of the data
+     */
+    elements: IPlyElement[];
+    /**
+     * Length of the header in bytes, including the end_header line
+     */
+    headerLength: number;
+}
+
+/**
+ * Geometry of a PLY triangle mesh or point cloud
+ */
+export interface IPlyGeometry {
+    /**
+     * Positions of the vertices
+     */
+    positions: Float32Array;
+    /**
+     * Normals of the vertices, if stored in the file
+     */
+    normals: Nullable<Float32Array>;
+    /**
+     * RGBA colors of the vertices, if stored in the file
+     */
+    colors: Nullable<Float32Array>;
+    /**
+     * Texture coordinates of the vertices, if stored in the file
+     */
+    uvs: Nullable<Float32Array>;
+    /**
+     * Indices of the triangles, if the file contains faces. The polygons are triangulated.
+     */
+    indices: Nullable<Uint32Array>;
+}
+
+const TypeSizes: { [type: string]: number } = {
+    char: 1,
+    int8: 1,
+    uchar: 1,
+    uint8: 1,
+    short: 2,
+    int16: 2,
+    ushort: 2,
+    uint16: 2,
+    int: 4,
+    int32: 4,
+    uint: 4,
+    uint32: 4,
+    float: 4,
+    float32: 4,
+    double: 8,
+    float64: 8,
+};
+
+/**
+ * Vertex properties of the Gaussian splatting PLY files
+ */
+const SplatProperties = ["x", "y", "z", "scale_0", "scale_1", "scale_2", "opacity", "rot_0", "rot_1", "rot_2", "rot_3"];
+
+/**
+ * Parses the header of a PLY file
+ * @param data the PLY file
+ * @returns the header, or null if the data is not a PLY file
+ */
+export function ParsePlyHeader(data: ArrayBuffer): Nullable<IPlyHeader> {
+    const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 64 * 1024));
+    // "ply" magic number
+    if (bytes[0] !== 0x70 || bytes[1] !== 0x6c || bytes[2] !== 0x79) {
+        return null;
+    }
+    const text = new TextDecoder().decode(bytes);
+    const end = /end_header\r?\n/.exec(text);
+    if (!end) {
+        return null;
+    }
+
+    const header: IPlyHeader = { format: "binary_little_endian", elements: [], headerLength: new TextEncoder().encode(text.substring(0, end.index + end[0].length)).length };
+    let element: Nullable<IPlyElement> = null;
+    for (const line of text.substring(0, end.index).split(/\r?\n/)) {
+        const tokens = line.trim().split(/\s+/);
+        switch (tokens[0]) {
+            case "format":
+                header.format = tokens[1] as IPlyHeader["format"];
+                break;
+            case "element":
+                element = { name: tokens[1], count: parseInt(tokens[2]), properties: [] };
+                header.elements.push(element);
+                break;
+            case "property":
+                if (tokens[1] === "list") {
+                    element?.properties.push({ name: tokens[4], type: tokens[3], countType: tokens[2] });
+                } else {
+                    element?.properties.push({ name: tokens[2], type: tokens[1] });
+                }
+                break;
+        }
+    }
+    return header;
+}
+
+/**
+ * Checks if a PLY file contains Gaussian splats, rather than a regular triangle mesh or point cloud
+ * @param header the header of the PLY file
+ * @returns true if the file contains compressed splats, or splats with all their properties and without faces
+ */
+export function IsGaussianSplattingPly(header: IPlyHeader): boolean {
+    if (header.elements.some((element) => element.name === "chunk")) {
+        return true;
+    }
+    if (header.elements.some((element) => element.name === "face" && element.count > 0)) {
+        return false;
+    }
+    const vertex = header.elements.find((element) => element.name === "vertex");
+    if (!vertex) {
+        return false;
+    }
+    const names = vertex.properties.map((property) => property.name);
+    const hasColor = ["f_dc_0", "f_dc_1", "f_dc_2"].every((name) => names.includes(name)) || ["red", "green", "blue"].every((name) => names.includes(name));
+    return hasColor && SplatProperties.every((name) => names.includes(name));
+}
+
+/**
+ * Creates a function reading the values of the data of a PLY file, one after the other
+ * @param data the PLY file
+ * @param header the header of the PLY file
+ * @returns the function reading the next value of the given type
+ */
+function CreateValueReader(data: ArrayBuffer, header: IPlyHeader): (type: string) => number {
+    if (header.format === "ascii") {
+        const tokens = new TextDecoder().decode(new Uint8Array(data, header.headerLength)).trim().split(/\s+/);
+        let index = 0;
+        return () => parseFloat(tokens[index++]);
+    }
+
+    const dataView = new DataView(data, header.headerLength);
+    const littleEndian = header.format === "binary_little_endian";
+    let offset = 0;
+    return (type: string) => {
+        let value: number;
+        switch (type) {
+            case "char":
+            case "int8":
+                value = dataView.getInt8(offset);
+                break;
+            case "uchar":
+            case "uint8":
+                value = dataView.getUint8(offset);
+                break;
+            case "short":
+            case "int16":
+                value = dataView.getInt16(offset, littleEndian);
+                break;
+            case "ushort":
+            case "uint16":
+                value = dataView.getUint16(offset, littleEndian);
+                break;
+            case "int":
+            case "int32":
+                value = dataView.getInt32(offset, littleEndian);
+                break;
+            case "uint":
+            case "uint32":
+                value = dataView.getUint32(offset, littleEndian);
+                break;
+            case "float":
+            case "float32":
+                value = dataView.getFloat32(offset, littleEndian);
+                break;
+            case "double":
+            case "float64":
+                value = dataView.getFloat64(offset, littleEndian);
+                break;
+            default:
+                throw new Error(`Unsupported PLY property type: ${type}.`);
+        }
+        offset += TypeSizes[type];
+        return value;
+    };
+}
+
+/**
+ * Gets the factor converting the color values of a type to the 0 to 1 range
+ * @param type the type of the color property
+ * @returns the factor
+ */
+function GetColorScale(type: string): number {
+    switch (type) {
+        case "uchar":
+        case "uint8":
+            return 1 / 255;
+        case "ushort":
+        case "uint16":
+            return 1 / 65535;
+    }
+    return 1;
+}
+
+/**
+ * Parses the vertices and faces of a regular PLY triangle mesh or point cloud, in ASCII or binary (little or big endian) format.
+ * The positions are used as stored, like the ones of the Gaussian splatting PLY files, and the winding of the faces is reversed.
+ * @param data the PLY file
+ * @param header the header of the PLY file
+ * @returns the geometry
+ */
+export function ParsePlyGeometry(data: ArrayBuffer, header: IPlyHeader): IPlyGeometry {
+    const read = CreateValueReader(data, header);
+    const geometry: IPlyGeometry = { positions: new Float32Array(0), normals: null, colors: null, uvs: null, indices: null };
+    const indices: number[] = [];
+    const polygon: number[] = [];
+
+    for (const element of header.elements) {
+        const properties = element.properties;
+        if (element.name === "vertex") {
+            const count = element.count;
+            const names = properties.map((property) => property.name);
+            const findProperty = (...candidates: string[]) => {
+                for (const candidate of candidates) {
+                    const index = names.indexOf(candidate);
+                    if (index !== -1) {
+                        return index;
+                    }
+                }
+                return -1;
+            };
+
+            // Destination array and offset in the vertex of every property
+            const targets: { array: Nullable<Float32Array>; stride: number; offset: number; scale: number }[] = properties.map(() => ({
+                array: null,
+                stride: 0,
+                offset: 0,
+                scale: 1,
+            }));
+            const bind = (propertyNames: string[][], stride: number, scale?: (type: string) => number) => {
+                const propertyIndices = propertyNames.map((candidates) => findProperty(...candidates));
+                // The alpha of the colors is optional
+                if (propertyIndices.slice(0, Math.min(stride, 3)).includes(-1)) {
+                    return null;
+                }
+                const array = new Float32Array(count * stride);
+                propertyIndices.forEach((propertyIndex, offset) => {
+                    if (propertyIndex !== -1) {
+                        targets[propertyIndex] = { array, stride, offset, scale: scale ? scale(properties[propertyIndex].type) : 1 };
+                    }
+                });
+                return array;
+            };
+
+            geometry.positions = bind([["x"], ["y"], ["z"]], 3)!;
+            geometry.normals = bind([["nx"], ["ny"], ["nz"]], 3);
+            geometry.uvs = bind(
+                [
+                    ["s", "u", "texture_u", "texture_s"],
+                    ["t", "v", "texture_v", "texture_t"],
+                ],
+                2
+            );
+            geometry.colors = bind(
+                [
+                    ["red", "r", "diffuse_red"],
+                    ["green", "g", "diffuse_green"],
+                    ["blue", "b", "diffuse_blue"],
+                    ["alpha", "a", "diffuse_alpha"],
+                ],
+                4,
+                GetColorScale
+            );
+            if (!geometry.positions) {
+                throw new Error("PLY vertices don't contain positions.");
+            }
+            if (geometry.colors && findProperty("alpha", "a", "diffuse_alpha") === -1) {
+                geometry.colors.fill(1);
+            }
+
+            for (let i = 0; i < count; i++) {
+                for (let p = 0; p < properties.length; p++) {
+                    const property = properties[p];
+                    const target = targets[p];
+                    if (property.countType) {
+                        const length = read(property.countType);
+                        for (let j = 0; j < length; j++) {
+                            read(property.type);
+                        }
+                    } else if (target.array) {
+                        target.array[i * target.stride + target.offset] = read(property.type) * target.scale;
+                    } else {
+                        read(property.type);
+                    }
+                }
+            }
+        } else {
+            const isFace = element.name === "face";
+            for (let i = 0; i < element.count; i++) {
+                for (const property of properties) {
+                    if (property.countType) {
+                        const length = read(property.countType);
+                        const isIndices = isFace && (property.name === "vertex_indices" || property.name === "vertex_index");
+                        polygon.length = 0;
+                        for (let j = 0; j < length; j++) {
+                            polygon.push(read(property.type));
+                        }
+                        if (isIndices) {
+                            // Triangle fan, with the winding reversed
+                            for (let j = 1; j < length - 1; j++) {
+                                indices.push(polygon[0], polygon[j + 1], polygon[j]);
+                            }
+                        }
+                    } else {
+                        read(property.type);
+                    }
+                }
+            }
+        }
+    }
+
+    if (indices.length) {
+        geometry.indices = new Uint32Array(indices);
+    }
+    return geometry;
+}
@@ -25,3 +25,27 @@ export interface IParsedSplat {
     upAxis?: "X" | "Y" | "Z";
     chirality?: "LeftHanded" | "RightHanded";
 }
+
+/**
+ * Manifest of a Gaussian splatting scene split in chunks, loaded as a GaussianSplattingStreamingMesh
+ */
+export interface ISplatChunkManifest {
+    /**
+     * The chunks of the scene
+     */
+    chunks: {
+        /**
+         * Minimum corner of the box containing the splats of the chunk, in the space of the loaded splats
+         */
+        min: [number, number, number];
+        /**
+         * Maximum corner of the box containing the splats of the chunk, in the space of the loaded splats
+         */
+        max: [number, number, number];
+        /**
+         * Files of the levels of detail of the chunk, from the full detail level to the coarsest one, relative to the manifest.
+         * The files use the same format: .spz, .splat, .ply, .sog or .json (SOG meta data).
+         */
+        lods: string[];
+    }[];
+}
@@ -4,6 +4,8 @@ import type { ISceneLoaderPluginAsync, ISceneLoaderPluginFactory, ISceneLoaderAs
 import { RegisterSceneLoaderPlugin } from "core/Loading/sceneLoader";
 import { SPLATFileLoaderMetadata } from "./splatFileLoader.metadata";
 import { GaussianSplattingMesh } from "core/Meshes/GaussianSplatting/gaussianSplattingMesh";
+import { GaussianSplattingStreamingMesh } from "core/Meshes/GaussianSplatting/gaussianSplattingStreamingMesh";
+import type { IGaussianSplattingChunk } from "core/Meshes/GaussianSplatting/gaussianSplattingStreamingMesh";
 import { AssetContainer } from "core/assetContainer";
 import type { Scene } from "core/scene";
 import type { Nullable } from "core/types";
@@ -18,8 +20,10 @@ import type { SPLATLoadingOptions } from "./splatLoadingOptions";
 import type { GaussianSplattingMaterial } from "core/Materials/GaussianSplatting/gaussianSplattingMaterial";
 import { ParseSpz } from "./spz";
 import { Mode } from "./splatDefs";
-import type { IParsedSplat } from "./splatDefs";
+import type { IParsedSplat, ISplatChunkManifest } from "./splatDefs";
 import { ParseSogMeta } from "./sog";
+import { IsGaussianSplattingPly, ParsePlyGeometry, ParsePlyHeader } from "./ply";
+import type { IPlyGeometry } from "./ply";
 import type { SOGRootData } from "./sog";
 import { Tools } from "core/Misc/tools";
 import type { ArcRotateCamera } from "core/Cameras/arcRotateCamera";
@@ -108,68 +112,43 @@ export class SPLATFileLoader implements ISceneLoaderPluginAsync, ISceneLoaderPlu
         });
     }
 
-    private static _BuildPointCloud(pointcloud: PointsCloudSystem, data: ArrayBuffer): boolean {
-        if (!data.byteLength) {
-            return false;
+    private static async _BuildPointCloudAsync(scene: Scene, geometry: IPlyGeometry): Promise<Nullable<Mesh>> {
+        const vertexCount = geometry.positions.length / 3;
+        if (!vertexCount) {
+            return null;
         }
-        const uBuffer = new Uint8Array(data);
-        const fBuffer = new Float32Array(data);
-
-        // parsed array contains room for position(3floats), normal(3floats), color (4b), quantized quaternion (4b)
-        const rowLength = 3 * 4 + 3 * 4 + 4 + 4;
-        const vertexCount = uBuffer.length / rowLength;
-
-        const pointcloudfunc = function (particle: any, i: number) {
-            const x = fBuffer[8 * i + 0];
-            const y = fBuffer[8 * i + 1];
-            const z = fBuffer[8 * i + 2];
-            particle.position = new Vector3(x, y, z);
-
-            const r = uBuffer[rowLength * i + 24 + 0] / 255;
-            const g = uBuffer[rowLength * i + 24 + 1] / 255;
-            const b = uBuffer[rowLength * i + 24 + 2] / 255;
-            particle.color = new Color4(r, g, b, 1);
-        };
-
-        pointcloud.addPoints(vertexCount, pointcloudfunc);
-        return true;
+        const positions = geometry.positions;
+        const colors = geometry.colors;
+
+        const pointcloud = new PointsCloudSystem("PointCloud", 1, scene);
+        pointcloud.addPoints(vertexCount, (particle: any, i: number) => {
+            particle.position = Vector3.FromArray(positions, i * 3);
+            if (colors) {
+                particle.color = Color4.FromArray(colors, i * 4);
+            }
+        });
+        return await pointcloud.buildMeshAsync();
     }
 
-    private static _BuildMesh(scene: Scene, parsedPLY: IParsedSplat): Mesh {
+    private static _BuildMesh(scene: Scene, geometry: IPlyGeometry): Mesh {
         const mesh = new Mesh("PLYMesh", scene);
 
-        const uBuffer = new Uint8Array(parsedPLY.data);
-        const fBuffer = new Float32Array(parsedPLY.data);
-
-        const rowLength = 3 * 4 + 3 * 4 + 4 + 4;
-        const vertexCount = uBuffer.length / rowLength;
-
-        const positions = [];
-
         const vertexData = new VertexData();
-        for (let i = 0; i < vertexCount; i++) {
-            const x = fBuffer[8 * i + 0];
-            const y = fBuffer[8 * i + 1];
-            const z = fBuffer[8 * i + 2];
-            positions.push(x, y, z);
+        vertexData.positions = geometry.positions;
+        vertexData.indices = geometry.indices;
+        if (geometry.normals) {
+            vertexData.normals = geometry.normals;
+        } else {
+            vertexData.normals = new Float32Array(geometry.positions.length);
+            VertexData.ComputeNormals(geometry.positions, geometry.indices, vertexData.normals);
         }
-
-        if (parsedPLY.hasVertexColors) {
-            const colors = new Float32Array(vertexCount * 4);
-            for (let i = 0; i < vertexCount; i++) {
-                const r = uBuffer[rowLength * i + 24 + 0] / 255;
-                const g = uBuffer[rowLength * i + 24 + 1] / 255;
-                const b = uBuffer[rowLength * i + 24 + 2] / 255;
-                colors[i * 4 + 0] = r;
-                colors[i * 4 + 1] = g;
-                colors[i * 4 + 2] = b;
-                colors[i * 4 + 3] = 1;
-            }
-            vertexData.colors = colors;
+        if (geometry.uvs) {
+            vertexData.uvs = geometry.uvs;
+        }
+        if (geometry.colors) {
+            vertexData.colors = geometry.colors;
+            mesh.hasVertexAlpha = geometry.colors.some((value, index) => index % 4 === 3 && value < 1);
         }
-
-        vertexData.positions = positions;
-        vertexData.indices = parsedPLY.faces!;
 
         vertexData.applyToMesh(mesh);
         return mesh;
@@ -214,7 +193,12 @@ export class SPLATFileLoader implements ISceneLoaderPluginAsync, ISceneLoaderPlu
 
         // check if data is json string
         if (typeof data === "string") {
-            const dataSOG = JSON.parse(data) as SOGRootData;
+            const json = JSON.parse(data);
+            if (json && Array.isArray(json.chunks)) {
+                return Promise.resolve([this._buildStreamingMesh(json as ISplatChunkManifest, scene, rootUrl)]);
+            }
+
+            const dataSOG = json as SOGRootData;
             if (dataSOG && dataSOG.means && dataSOG.scales && dataSOG.quats && dataSOG.sh0) {
                 return new Promise((resolve) => {
                     ParseSogMeta(dataSOG, rootUrl, scene)
@@ -250,6 +234,14 @@ export class SPLATFileLoader implements ISceneLoaderPluginAsync, ISceneLoaderPlu
             });
         }
 
+        // Regular PLY triangle meshes and point clouds
+        if (data instanceof ArrayBuffer) {
+            const plyHeader = ParsePlyHeader(data);
+            if (plyHeader && !IsGaussianSplattingPly(plyHeader)) {
+                return this._buildPlyAsync(scene, ParsePlyGeometry(data, plyHeader));
+            }
+        }
+
         const readableStream = new ReadableStream({
             start(controller) {
                 controller.enqueue(new Uint8Array(data)); // Enqueue the ArrayBuffer as a Uint8Array
@@ -317,28 +309,6 @@ export class SPLATFileLoader implements ISceneLoaderPluginAsync, ISceneLoaderPlu
                                     }
                                 }
                                 break;
-                            case Mode.PointCloud:
-                                {
-                                    const pointcloud = new PointsCloudSystem("PointCloud", 1, scene);
-                                    if (SPLATFileLoader._BuildPointCloud(pointcloud, parsedPLY.data)) {
-                                        // eslint-disable-next-line github/no-then
-                                        await pointcloud.buildMeshAsync().then((mesh) => {
-                                            babylonMeshesArray.push(mesh);
-                                        });
-                                    } else {
-                                        pointcloud.dispose();
-                                    }
-                                }
-                                break;
-                            case Mode.Mesh:
-                                {
-                                    if (parsedPLY.faces) {
-                                        babylonMeshesArray.push(SPLATFileLoader._BuildMesh(scene, parsedPLY));
-                                    } else {
-                                        throw new Error("PLY mesh doesn't contain face informations.");
-                                    }
-                                }
-                                break;
                             default:
                                 throw new Error("Unsupported Splat mode");
                         }
@@ -350,6 +320,113 @@ export class SPLATFileLoader implements ISceneLoaderPluginAsync, ISceneLoaderPlu
         });
     }
 
+    private async _buildPlyAsync(scene: Scene, geometry: IPlyGeometry): Promise<Array<AbstractMesh>> {
+        if (geometry.indices) {
+            scene._blockEntityCollection = !!this._assetContainer;
+            const mesh = SPLATFileLoader._BuildMesh(scene, geometry);
+            mesh._parentContainer = this._assetContainer;
+            scene._blockEntityCollection = false;
+            return [mesh];
+        }
+
+        // The point cloud mesh is built asynchronously, so the entities of the scene are not blocked while waiting,
+        // and the entities of the point cloud are moved to the asset container once built.
+        const mesh = await SPLATFileLoader._BuildPointCloudAsync(scene, geometry);
+        if (!mesh) {
+            return [];
+        }
+        const container = this._assetContainer;
+        if (container) {
+            scene.removeMesh(mesh);
+            mesh._parentContainer = container;
+            const meshGeometry = mesh.geometry;
+            if (meshGeometry) {
+                scene.removeGeometry(meshGeometry);
+                meshGeometry._parentContainer = container;
+                container.geometries.push(meshGeometry);
+            }
+            const material = mesh.material;
+            if (material) {
+                scene.removeMaterial(material);
+                material._parentContainer = container;
+                container.materials.push(material);
+            }
+        }
+        return [mesh];
+    }
+
+    private _buildStreamingMesh(manifest: ISplatChunkManifest, scene: Scene, rootUrl: string): Mesh {
+        const chunks: IGaussianSplattingChunk[] = manifest.chunks.map((chunk) => ({
+            minimum: Vector3.FromArray(chunk.min),
+            maximum: Vector3.FromArray(chunk.max),
+            lodCount: chunk.lods.length,
+        }));
+
+        scene._blockEntityCollection = !!this._assetContainer;
+        const gaussianSplatting: GaussianSplattingStreamingMesh = new GaussianSplattingStreamingMesh(
+            "GaussianSplatting",
+            chunks,
+            async (chunkIndex, lod) => {
+                const parsedSplat = await this._loadChunkAsync(rootUrl + manifest.chunks[chunkIndex].lods[lod], scene);
+                if (parsedSplat.trainedWithAntialiasing) {
+                    const gsMaterial = gaussianSplatting.material as GaussianSplattingMaterial;
+                    gsMaterial.kernelSize = 0.1;
+                    gsMaterial.compensation = true;
+                }
+                return parsedSplat;
+            },
+            scene,
+            this._loadingOptions.keepInRam
+        );
+        gaussianSplatting._parentContainer = this._assetContainer;
+        scene._blockEntityCollection = false;
+
+        // The chunks use the same format, which defines how the SH coefficients are evaluated
+        switch (SPLATFileLoader._GetChunkFileExtension(manifest.chunks[0]?.lods[0] ?? "")) {
+            case "sog":
+            case "json":
+                gaussianSplatting.viewDirectionFactor.set(1, -1, 1);
+                break;
+            case "ply":
+                gaussianSplatting.viewDirectionFactor.set(-1, -1, 1);
+                break;
+        }
+
+        return gaussianSplatting;
+    }
+
+    private static _GetChunkFileExtension(url: string): string {
+        const fileName = url.split(/[?#]/)[0];
+        return fileName.substring(fileName.lastIndexOf(".") + 1).toLowerCase();
+    }
+
+    private async _loadChunkAsync(url: string, scene: Scene): Promise<IParsedSplat> {
+        const extension = SPLATFileLoader._GetChunkFileExtension(url);
+        const chunkRootUrl = url.substring(0, url.lastIndexOf("/") + 1);
+
+        if (extension === "json") {
+            const dataSOG = JSON.parse(await Tools.LoadFileAsync(url, false)) as SOGRootData;
+            return await ParseSogMeta(dataSOG, chunkRootUrl, scene);
+        }
+
+        const data = await Tools.LoadFileAsync(url, true);
+        switch (extension) {
+            case "sog":
+                return await ParseSogMeta(await this._unzipWithFFlateAsync(new Uint8Array(data)), chunkRootUrl, scene);
+            case "spz": {
+                const decompressedStream = new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"));
+                return await ParseSpz(await new Response(decompressedStream).arrayBuffer(), scene, this._loadingOptions);
+            }
+            default: {
+                const parsedPLY = await SPLATFileLoader._ConvertPLYToSplat(data);
+                if (parsedPLY.mode !== Mode.Splat) {
+                    throw new Error(`The chunk ${url} doesn't contain Gaussian splats.`);
+                }
+                return parsedPLY;
+            }
+        }
+    }
+
     /**
      * Applies camera limits based on parsed meta data
      * @param meta parsed splat meta data
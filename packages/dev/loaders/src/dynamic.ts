@@ -3,6 +3,7 @@
 import type { ISceneLoaderPluginFactory, SceneLoaderPluginOptions } from "core/Loading/sceneLoader";
 import { RegisterSceneLoaderPlugin } from "core/Loading/sceneLoader";
 
+import { ThreeMFFileLoaderMetadata } from "./3MF/threeMFFileLoader.metadata";
 import { BVHFileLoaderMetadata } from "./BVH/bvhFileLoader.metadata";
 import { GLTFFileLoaderMetadata } from "./glTF/glTFFileLoader.metadata";
 import { OBJFileLoaderMetadata } from "./OBJ/objFileLoader.metadata";
@@ -16,6 +17,15 @@ import { registerBuiltInGLTFExtensions } from "./glTF/2.0/Extensions/dynamic";
  * Loaders will be dynamically imported on demand, only when a SceneLoader load operation needs each respective loader.
  */
 export function registerBuiltInLoaders() {
+    // Register the 3MF loader.
+    RegisterSceneLoaderPlugin({
+        ...ThreeMFFileLoaderMetadata,
+        createPlugin: async (options: SceneLoaderPluginOptions) => {
+            const { ThreeMFFileLoader } = await import("./3MF/threeMFFileLoader");
+            return new ThreeMFFileLoader(options[ThreeMFFileLoaderMetadata.name]);
+        },
+    } satisfies ISceneLoaderPluginFactory);
+
     // Register the BVH loader.
     RegisterSceneLoaderPlugin({
         ...BVHFileLoaderMetadata,
@@ -1,4 +1,5 @@
 /* eslint-disable @typescript-eslint/no-restricted-imports */
+export * from "./3MF/index";
 export * from "./BVH/index";
 export * from "./glTF/index";
 export * from "./OBJ/index";
@@ -0,0 +1,202 @@
+import { NullEngine } from "core/Engines/nullEngine";
+import { StandardMaterial } from "core/Materials/standardMaterial";
+import { MultiMaterial } from "core/Materials/multiMaterial";
+import { VertexBuffer } from "core/Buffers/buffer";
+import { InstancedMesh } from "core/Meshes/instancedMesh";
+import type { Mesh } from "core/Meshes/mesh";
+import { Scene } from "core/scene";
+import { ThreeMFFileLoader } from "loaders/3MF/threeMFFileLoader";
+
+/**
+ * A small 3MF package, in centimeters:
+ * - a "plate" made of a red and a half transparent blue triangle, using base materials
+ * - a "triangle" with a color per corner, using a color group
+ * - an "assembly" of the plate and of the translated triangle
+ * The build contains the assembly and a translated copy of the plate.
+ */
+const Files: { [path: string]: string } = {
+    "_rels/.rels": `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+    <Relationship Target="/3D/model.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />
+</Relationships>`,
+    "3D/model.model": `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="centimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+    <resources>
+        <basematerials id="1">
+            <base name="red" displaycolor="#FF0000" />
+            <base name="blue" displaycolor="#0000FF80" />
+        </basematerials>
+        <object id="2" name="plate" type="model" pid="1" pindex="0">
+            <mesh>
+                <vertices>
+                    <vertex x="0" y="0" z="0" />
+                    <vertex x="1" y="0" z="0" />
+                    <vertex x="1" y="1" z="0" />
+                    <vertex x="0" y="1" z="0" />
+                </vertices>
+                <triangles>
+                    <triangle v1="0" v2="1" v3="2" />
+                    <triangle v1="0" v2="2" v3="3" p1="1" />
+                </triangles>
+            </mesh>
+        </object>
+        <m:colorgroup id="3" xmlns:m="http://schemas.microsoft.com/3dmanufacturing/material/2015/02">
+            <m:color color="#FF0000FF" />
+            <m:color color="#00FF00" />
+            <m:color color="#0000FF" />
+        </m:colorgroup>
+        <object id="4" name="triangle" type="model">
+            <mesh>
+                <vertices>
+                    <vertex x="0" y="0" z="0" />
+                    <vertex x="0" y="0" z="1" />
+                    <vertex x="1" y="0" z="1" />
+                </vertices>
+                <triangles>
+                    <triangle v1="0" v2="1" v3="2" pid="3" p1="0" p2="1" p3="2" />
+                </triangles>
+            </mesh>
+        </object>
+        <object id="5" name="assembly" type="model">
+            <components>
+                <component objectid="2" />
+                <component objectid="4" transform="1 0 0 0 1 0 0 0 1 0 0 5" />
+            </components>
+        </object>
+    </resources>
+    <build>
+        <item objectid="5" />
+        <item objectid="2" transform="1 0 0 0 1 0 0 0 1 10 20 30" />
+    </build>
+</model>`,
+};
+
+/**
+ * fflate is not installed for the unit tests: the package is stored as JSON, which is decoded by this replacement of fflate
+ */
+const FFlateMock = {
+    unzipSync: (data: Uint8Array) => {
+        const files: { [path: string]: string } = JSON.parse(new TextDecoder().decode(data));
+        const unzipped: Record<string, Uint8Array> = {};
+        for (const path in files) {
+            unzipped[path] = new TextEncoder().encode(files[path]);
+        }
+        return unzipped;
+    },
+};
+
+/**
+ * Creates the data of a 3MF package
+ * @param files the content of the files of the package
+ * @returns the data of the package
+ */
+function CreatePackage(files: { [path: string]: string }): ArrayBuffer {
+    return new TextEncoder().encode(JSON.stringify(files)).buffer;
+}
+
+describe("ThreeMFFileLoader", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("loads the objects of the build items with their components, instancing the objects used several times", async () => {
+        const loader = new ThreeMFFileLoader({ fflate: FFlateMock });
+
+        const result = await loader.importMeshAsync(null, scene, CreatePackage(Files));
+
+        expect(result.transformNodes.map((node) => node.name)).toEqual(["assembly"]);
+        expect(result.meshes.map((mesh) => mesh.name)).toEqual(["plate", "triangle", "plate"]);
+        const [plate, triangle, instance] = result.meshes;
+        expect(plate.parent).toBe(result.transformNodes[0]);
+        expect(triangle.parent).toBe(result.transformNodes[0]);
+        expect(instance).toBeInstanceOf(InstancedMesh);
+        expect((instance as InstancedMesh).sourceMesh).toBe(plate);
+        expect(result.geometries.length).toBe(2);
+
+        // The y and z axes are swapped
+        expect(triangle.position.asArray()).toEqual([0, 5, 0]);
+        expect(instance.position.asArray()).toEqual([10, 30, 20]);
+        expect(Array.from(triangle.getVerticesData(VertexBuffer.PositionKind)!)).toEqual([0, 0, 0, 0, 1, 0, 1, 1, 0]);
+    });
+
+    it("creates the materials of the base materials and the vertex colors of the color groups", async () => {
+        const loader = new ThreeMFFileLoader({ fflate: FFlateMock });
+
+        const result = await loader.importMeshAsync(null, scene, CreatePackage(Files));
+
+        const plate = result.meshes[0] as Mesh;
+        expect(plate.material).toBeInstanceOf(MultiMaterial);
+        const [red, blue] = (plate.material as MultiMaterial).subMaterials as StandardMaterial[];
+        expect(red.name).toBe("red");
+        expect(red.diffuseColor.asArray()).toEqual([1, 0, 0]);
+        expect(red.alpha).toBe(1);
+        expect(blue.name).toBe("blue");
+        expect(blue.diffuseColor.asArray()).toEqual([0, 0, 1]);
+        expect(blue.alpha).toBeCloseTo(128 / 255);
+        expect(plate.subMeshes.map((subMesh) => [subMesh.materialIndex, subMesh.indexStart, subMesh.indexCount])).toEqual([
+            [0, 0, 3],
+            [1, 3, 3],
+        ]);
+
+        const triangle = result.meshes[1];
+        expect(triangle.material).toBeInstanceOf(StandardMaterial);
+        expect(triangle.hasVertexAlpha).toBe(false);
+        expect(Array.from(triangle.getVerticesData(VertexBuffer.ColorKind)!)).toEqual([1, 0, 0, 1, 0, 1, 0, 1, 0, 0, 1, 1]);
+    });
+
+    it("converts the units to meters", async () => {
+        const loader = new ThreeMFFileLoader({ fflate: FFlateMock, convertUnitsToMeters: true });
+
+        const result = await loader.importMeshAsync(null, scene, CreatePackage(Files));
+
+        const [, triangle, instance] = result.meshes;
+        expect(triangle.position.y).toBeCloseTo(0.05);
+        expect(instance.position.x).toBeCloseTo(0.1);
+        expect(instance.position.y).toBeCloseTo(0.3);
+        expect(instance.position.z).toBeCloseTo(0.2);
+        const positions = triangle.getVerticesData(VertexBuffer.PositionKind)!;
+        expect(Math.max(...positions)).toBeCloseTo(0.01);
+    });
+
+    it("loads only the build items of the given names", async () => {
+        const loader = new ThreeMFFileLoader({ fflate: FFlateMock });
+
+        const result = await loader.importMeshAsync("plate", scene, CreatePackage(Files));
+
+        expect(result.transformNodes.length).toBe(0);
+        expect(result.meshes.map((mesh) => mesh.name)).toEqual(["plate"]);
+        expect(result.meshes[0].position.asArray()).toEqual([10, 30, 20]);
+    });
+
+    it("loads the objects in an asset container", async () => {
+        const loader = new ThreeMFFileLoader({ fflate: FFlateMock });
+
+        const container = await loader.loadAssetContainerAsync(scene, CreatePackage(Files));
+
+        expect(container.meshes.length).toBe(3);
+        expect(container.transformNodes.length).toBe(1);
+        expect(container.materials.map((material) => material.name)).toEqual(["red", "blue", "default"]);
+        expect(container.multiMaterials.length).toBe(1);
+        expect(scene.meshes.length).toBe(0);
+        expect(scene.transformNodes.length).toBe(0);
+
+        container.addAllToScene();
+        expect(scene.meshes.length).toBe(3);
+    });
+
+    it("throws when a build item references an unknown object", async () => {
+        const loader = new ThreeMFFileLoader({ fflate: FFlateMock });
+        const files = { ...Files, "3D/model.model": Files["3D/model.model"].replace('<item objectid="5" />', '<item objectid="6" />') };
+
+        await expect(loader.importMeshAsync(null, scene, CreatePackage(files))).rejects.toThrow("3MF build item references the unknown object 6");
+    });
+});
@@ -0,0 +1,192 @@
+import { IsGaussianSplattingPly, ParsePlyGeometry, ParsePlyHeader } from "loaders/SPLAT/ply";
+import type { IPlyHeader } from "loaders/SPLAT/ply";
+
+/**
+ * Creates a PLY file from its header lines and data
+ * @param headerLines the lines of the header, without the end_header line
+ * @param data the ASCII data, or the binary data to append to the header
+ * @returns the PLY file
+ */
+function CreatePly(headerLines: string[], data: string | Uint8Array): ArrayBuffer {
+    const header = new TextEncoder().encode(["ply", ...headerLines, "end_header", ""].join("\n"));
+    const body = typeof data === "string" ? new TextEncoder().encode(data) : data;
+    const bytes = new Uint8Array(header.length + body.length);
+    bytes.set(header);
+    bytes.set(body, header.length);
+    return bytes.buffer;
+}
+
+describe("PLY", () => {
+    describe("ParsePlyHeader", () => {
+        it("parses the format, the elements and the properties", () => {
+            const data = CreatePly(
+                [
+                    "format ascii 1.0",
+                    "comment made by hand",
+                    "element vertex 3",
+                    "property float x",
+                    "property float y",
+                    "property float z",
+                    "element face 1",
+                    "property list uchar int vertex_indices",
+                ],
+                "0 0 0\n1 0 0\n0 1 0\n3 0 1 2\n"
+            );
+
+            const header = ParsePlyHeader(data)!;
+
+            expect(header.format).toBe("ascii");
+            expect(header.elements).toEqual([
+                {
+                    name: "vertex",
+                    count: 3,
+                    properties: [
+                        { name: "x", type: "float" },
+                        { name: "y", type: "float" },
+                        { name: "z", type: "float" },
+                    ],
+                },
+                { name: "face", count: 1, properties: [{ name: "vertex_indices", type: "int", countType: "uchar" }] },
+            ]);
+            expect(new TextDecoder().decode(new Uint8Array(data, header.headerLength))).toBe("0 0 0\n1 0 0\n0 1 0\n3 0 1 2\n");
+        });
+
+        it("returns null for data that is not a PLY file", () => {
+            expect(ParsePlyHeader(new TextEncoder().encode("solid cube\nendsolid cube\n").buffer)).toBeNull();
+            expect(ParsePlyHeader(new TextEncoder().encode("ply\nformat ascii 1.0\n").buffer)).toBeNull();
+        });
+    });
+
+    describe("IsGaussianSplattingPly", () => {
+        const splatProperties = ["x", "y", "z", "f_dc_0", "f_dc_1", "f_dc_2", "opacity", "scale_0", "scale_1", "scale_2", "rot_0", "rot_1", "rot_2", "rot_3"];
+
+        function CreateHeader(vertexProperties: string[], faceCount = 0): IPlyHeader {
+            return {
+                format: "binary_little_endian",
+                headerLength: 0,
+                elements: [
+                    { name: "vertex", count: 1, properties: vertexProperties.map((name) => ({ name, type: "float" })) },
+                    { name: "face", count: faceCount, properties: [{ name: "vertex_indices", type: "int", countType: "uchar" }] },
+                ],
+            };
+        }
+
+        it("detects the splats with all their properties", () => {
+            expect(IsGaussianSplattingPly(CreateHeader(splatProperties))).toBe(true);
+        });
+
+        it("detects the compressed splats", () => {
+            const header: IPlyHeader = { format: "binary_little_endian", headerLength: 0, elements: [{ name: "chunk", count: 1, properties: [] }] };
+
+            expect(IsGaussianSplattingPly(header)).toBe(true);
+        });
+
+        it("does not detect the meshes and point clouds", () => {
+            expect(IsGaussianSplattingPly(CreateHeader(splatProperties, 1))).toBe(false);
+            expect(IsGaussianSplattingPly(CreateHeader(["x", "y", "z", "red", "green", "blue"]))).toBe(false);
+        });
+    });
+
+    describe("ParsePlyGeometry", () => {
+        it("parses an ASCII mesh, triangulating the polygons and reversing their winding", () => {
+            const data = CreatePly(
+                [
+                    "format ascii 1.0",
+                    "element vertex 4",
+                    "property float x",
+                    "property float y",
+                    "property float z",
+                    "property float nx",
+                    "property float ny",
+                    "property float nz",
+                    "property float s",
+                    "property float t",
+                    "element face 1",
+                    "property list uchar int vertex_indices",
+                ],
+                ["0 0 0 0 0 1 0 0", "1 0 0 0 0 1 1 0", "1 1 0 0 0 1 1 1", "0 1 0 0 0 1 0 1", "4 0 1 2 3"].join("\n")
+            );
+
+            const geometry = ParsePlyGeometry(data, ParsePlyHeader(data)!);
+
+            expect(Array.from(geometry.positions)).toEqual([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]);
+            expect(Array.from(geometry.normals!)).toEqual([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]);
+            expect(Array.from(geometry.uvs!)).toEqual([0, 0, 1, 0, 1, 1, 0, 1]);
+            expect(geometry.colors).toBeNull();
+            expect(Array.from(geometry.indices!)).toEqual([0, 2, 1, 0, 3, 2]);
+        });
+
+        it("parses a binary big endian point cloud, normalizing the colors and skipping the unknown properties", () => {
+            const dataView = new DataView(new ArrayBuffer(2 * 18));
+            const vertices = [
+                [1.5, -2, 3, 255, 0, 51, 7],
+                [4, 5, -6, 0, 255, 102, 8],
+            ];
+            vertices.forEach(([x, y, z, red, green, blue, confidence], index) => {
+                const offset = index * 18;
+                dataView.setFloat32(offset, x, false);
+                dataView.setFloat32(offset + 4, y, false);
+                dataView.setFloat32(offset + 8, z, false);
+                dataView.setUint8(offset + 12, red);
+                dataView.setUint8(offset + 13, green);
+                dataView.setUint8(offset + 14, blue);
+                dataView.setUint16(offset + 15, confidence, false);
+                // empty list property
+                dataView.setUint8(offset + 17, 0);
+            });
+            const data = CreatePly(
+                [
+                    "format binary_big_endian 1.0",
+                    "element vertex 2",
+                    "property float x",
+                    "property float y",
+                    "property float z",
+                    "property uchar red",
+                    "property uchar green",
+                    "property uchar blue",
+                    "property ushort confidence",
+                    "property list uchar int tags",
+                ],
+                new Uint8Array(dataView.buffer)
+            );
+
+            const geometry = ParsePlyGeometry(data, ParsePlyHeader(data)!);
+
+            expect(Array.from(geometry.positions)).toEqual([1.5, -2, 3, 4, 5, -6]);
+            expect(geometry.colors).toEqual(new Float32Array([1, 0, 0.2, 1, 0, 1, 0.4, 1]));
+            expect(geometry.normals).toBeNull();
+            expect(geometry.uvs).toBeNull();
+            expect(geometry.indices).toBeNull();
+        });
+
+        it("parses a binary little endian mesh with the faces after the vertices", () => {
+            const dataView = new DataView(new ArrayBuffer(3 * 12 + 1 + 3 * 4));
+            [0, 0, 0, 1, 0, 0, 0, 1, 0].forEach((value, index) => dataView.setFloat32(index * 4, value, true));
+            dataView.setUint8(36, 3);
+            [0, 1, 2].forEach((value, index) => dataView.setInt32(37 + index * 4, value, true));
+            const data = CreatePly(
+                [
+                    "format binary_little_endian 1.0",
+                    "element vertex 3",
+                    "property float x",
+                    "property float y",
+                    "property float z",
+                    "element face 1",
+                    "property list uchar int vertex_index",
+                ],
+                new Uint8Array(dataView.buffer)
+            );
+
+            const geometry = ParsePlyGeometry(data, ParsePlyHeader(data)!);
+
+            expect(Array.from(geometry.positions)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+            expect(Array.from(geometry.indices!)).toEqual([0, 2, 1]);
+        });
+
+        it("throws if the vertices have no position", () => {
+            const data = CreatePly(["format ascii 1.0", "element vertex 1", "property float red"], "1\n");
+
+            expect(() => ParsePlyGeometry(data, ParsePlyHeader(data)!)).toThrow("PLY vertices don't contain positions.");
+        });
+    });
+});
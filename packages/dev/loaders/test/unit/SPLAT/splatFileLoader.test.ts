@@ -0,0 +1,73 @@
+import { NullEngine } from "core/Engines/nullEngine";
+import { Scene } from "core/scene";
+import { SPLATFileLoader } from "loaders/SPLAT/splatFileLoader";
+
+/**
+ * Creates an ASCII PLY file
+ * @param lines the lines of the header after the format, and of the data
+ * @returns the PLY file
+ */
+function CreateAsciiPly(lines: string[]): ArrayBuffer {
+    return new TextEncoder().encode(["ply", "format ascii 1.0", ...lines, ""].join("\n")).buffer;
+}
+
+describe("SPLATFileLoader", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    it("loads a PLY triangle mesh in an asset container", async () => {
+        const data = CreateAsciiPly([
+            "element vertex 3",
+            "property float x",
+            "property float y",
+            "property float z",
+            "element face 1",
+            "property list uchar int vertex_indices",
+            "end_header",
+            "0 0 0",
+            "1 0 0",
+            "0 1 0",
+            "3 0 1 2",
+        ]);
+
+        const container = await new SPLATFileLoader().loadAssetContainerAsync(scene, data as any, "");
+
+        expect(container.meshes.length).toBe(1);
+        expect(container.meshes[0].getTotalIndices()).toBe(3);
+        expect(container.meshes[0]._parentContainer).toBe(container);
+        expect(scene.meshes.length).toBe(0);
+        expect(scene.geometries.length).toBe(0);
+    });
+
+    it("loads a PLY point cloud with its material in an asset container", async () => {
+        const data = CreateAsciiPly(["element vertex 2", "property float x", "property float y", "property float z", "end_header", "0 0 0", "1 2 3"]);
+
+        const container = await new SPLATFileLoader().loadAssetContainerAsync(scene, data as any, "");
+
+        expect(container.meshes.length).toBe(1);
+        const mesh = container.meshes[0];
+        expect(mesh.getTotalVertices()).toBe(2);
+        expect(mesh._parentContainer).toBe(container);
+        expect(container.materials).toEqual([mesh.material]);
+        expect(mesh.material!.pointsCloud).toBe(true);
+        expect(container.geometries.length).toBe(1);
+        expect(scene.meshes.length).toBe(0);
+        expect(scene.materials).not.toContain(mesh.material);
+        expect(scene.geometries.length).toBe(0);
+
+        container.addAllToScene();
+
+        expect(scene.meshes).toEqual([mesh]);
+        expect(scene.materials).toContain(mesh.material);
+    });
+});
@@ -0,0 +1,280 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { VertexBuffer } from "core/Buffers/buffer";
+import type { Material } from "core/Materials/material";
+import { MultiMaterial } from "core/Materials/multiMaterial";
+import { PBRBaseMaterial } from "core/Materials/PBR/pbrBaseMaterial";
+import { StandardMaterial } from "core/Materials/standardMaterial";
+import type { Matrix } from "core/Maths/math.vector";
+import { InstancedMesh } from "core/Meshes/instancedMesh";
+import type { Mesh } from "core/Meshes/mesh";
+import { Tools } from "core/Misc/tools";
+import type { Nullable } from "core/types";
+
+// FFlate access
+declare const fflate: any;
+
+/**
+ * Options for the 3MF export
+ */
+export interface IThreeMFExportOptions {
+    /**
+     * URL to load the fflate library from
+     */
+    fflateUrl?: string;
+    /**
+     * Unit of the coordinates of the scene, written in the model (millimeter by default).
+     * The coordinates are not scaled.
+     */
+    unit?: "micron" | "millimeter" | "centimeter" | "inch" | "foot" | "meter";
+    /**
+     * Export the colors of the materials as base materials (true by default)
+     */
+    exportMaterials?: boolean;
+    /**
+     * Export the vertex colors as color groups, instead of the materials (true by default)
+     */
+    exportVertexColors?: boolean;
+    /**
+     * Metadata written in the model (Title, Designer, Description...)
+     */
+    metadata?: { [name: string]: string };
+    /**
+     * Number of decimals of the coordinates (6 by default)
+     */
+    precision?: number;
+}
+
+/**
+ * Escapes the special characters of a string written in an XML attribute or text
+ * @param value the string to escape
+ * @returns the escaped string
+ */
+function EscapeXml(value: string): string {
+    return value.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`);
+}
+
+/**
+ * Converts a color to a 3MF color (#RRGGBBAA, in sRGB)
+ * @param r the red component, in gamma space
+ * @param g the green component, in gamma space
+ * @param b the blue component, in gamma space
+ * @param a the alpha
+ * @returns the 3MF color
+ */
+function ToColorString(r: number, g: number, b: number, a: number): string {
+    let color = "#";
+    for (const value of [r, g, b, a]) {
+        color += Math.round(Math.min(Math.max(value, 0), 1) * 255)
+            .toString(16)
+            .padStart(2, "0");
+    }
+    return color.toUpperCase();
+}
+
+/**
+ * Gets the display color of a material
+ * @param material the material
+ * @returns the 3MF color of the material
+ */
+function GetMaterialColor(material: Material): string {
+    if (material instanceof StandardMaterial) {
+        const color = material.diffuseColor;
+        return ToColorString(color.r, color.g, color.b, material.alpha);
+    }
+    if (material instanceof PBRBaseMaterial) {
+        const color = material._albedoColor.toGammaSpace();
+        return ToColorString(color.r, color.g, color.b, material.alpha);
+    }
+    return ToColorString(1, 1, 1, material.alpha);
+}
+
+/**
+ * Formats a 3MF transform ("m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32") from a world matrix, swapping the y and z axes
+ * @param matrix the world matrix
+ * @param precision the number of decimals
+ * @returns the transform attribute
+ */
+function FormatTransform(matrix: Matrix, precision: number): string {
+    const m = matrix.m;
+    // prettier-ignore
+    const values = [
+        m[0], m[2], m[1],
+        m[8], m[10], m[9],
+        m[4], m[6], m[5],
+        m[12], m[14], m[13],
+    ];
+    return values.map((value) => FormatNumber(value, precision)).join(" ");
+}
+
+/**
+ * Formats a number without trailing zeros
+ * @param value the number
+ * @param precision the number of decimals
+ * @returns the formatted number
+ */
+function FormatNumber(value: number, precision: number): string {
+    return parseFloat(value.toFixed(precision)).toString();
+}
+
+/**
+ * Class for generating 3MF (3D Manufacturing Format) data from Babylon meshes.
+ * Like the STL exporter, the y and z axes are swapped to convert the y-up coordinates of Babylon to the z-up coordinates of 3MF.
+ */
+export class ThreeMFExport {
+    /**
+     * Exports meshes to a 3MF file.
+     * Each mesh is written as an object in local space, referenced by a build item with the world matrix of the mesh.
+     * The instances of a mesh reference the object of their source mesh.
+     * @param meshes the meshes (and instances) to export
+     * @param options options to configure the export
+     * @returns a uint8 array containing the 3MF file
+     */
+    public static async ExportAsync(meshes: (Mesh | InstancedMesh)[], options: IThreeMFExportOptions = {}): Promise<Uint8Array> {
+        const localOptions = {
+            fflateUrl: "https://unpkg.com/fflate@0.8.2",
+            unit: "millimeter",
+            exportMaterials: true,
+            exportVertexColors: true,
+            metadata: {},
+            precision: 6,
+            ...options,
+        };
+
+        // Get the fflate library
+        if (typeof fflate === "undefined") {
+            await Tools.LoadScriptAsync(localOptions.fflateUrl);
+        }
+
+        const precision = localOptions.precision;
+        const resources: string[] = [];
+        const items: string[] = [];
+        let nextId = 1;
+
+        // All the materials are written in a single base materials group
+        const baseMaterialsId = nextId++;
+        const baseMaterials: string[] = [];
+        const materialIndices = new Map<Material, number>();
+        const getMaterialIndex = (material: Nullable<Material>) => {
+            if (!material) {
+                return -1;
+            }
+            let index = materialIndices.get(material);
+            if (index === undefined) {
+                index = baseMaterials.length;
+                baseMaterials.push(`<base name="${EscapeXml(material.name)}" displaycolor="${GetMaterialColor(material)}"/>`);
+                materialIndices.set(material, index);
+            }
+            return index;
+        };
+
+        const objectIds = new Map<Mesh, number>();
+        for (const mesh of meshes) {
+            const sourceMesh = mesh instanceof InstancedMesh ? mesh.sourceMesh : mesh;
+            let objectId = objectIds.get(sourceMesh);
+            if (objectId === undefined) {
+                const positions = sourceMesh.getVerticesData(VertexBuffer.PositionKind);
+                if (!positions || !positions.length) {
+                    continue;
+                }
+                const vertexCount = positions.length / 3;
+                const indices = sourceMesh.getIndices() ?? Array.from({ length: vertexCount }, (_, i) => i);
+                const colors = localOptions.exportVertexColors ? sourceMesh.getVerticesData(VertexBuffer.ColorKind) : null;
+                const colorStride = colors ? colors.length / vertexCount : 0;
+
+                // The property of every triangle: a color of the color group of the object, or a base material
+                let colorGroupId = -1;
+                const triangleMaterials = new Int32Array(indices.length / 3).fill(-1);
+                if (colors) {
+                    colorGroupId = nextId++;
+                    const groupColors: string[] = [];
+                    for (let i = 0; i < vertexCount; i++) {
+                        const offset = i * colorStride;
+                        const alpha = colorStride === 4 ? colors[offset + 3] : 1;
+                        groupColors.push(`<m:color color="${ToColorString(colors[offset], colors[offset + 1], colors[offset + 2], alpha)}"/>`);
+                    }
+                    resources.push(`<m:colorgroup id="${colorGroupId}">${groupColors.join("")}</m:colorgroup>`);
+                } else if (localOptions.exportMaterials && sourceMesh.material) {
+                    const material = sourceMesh.material;
+                    for (const subMesh of sourceMesh.subMeshes ?? []) {
+                        const index = getMaterialIndex(material instanceof MultiMaterial ? material.getSubMaterial(subMesh.materialIndex) : material);
+                        triangleMaterials.fill(index, subMesh.indexStart / 3, (subMesh.indexStart + subMesh.indexCount) / 3);
+                    }
+                }
+
+                const vertices: string[] = [];
+                for (let i = 0; i < vertexCount; i++) {
+                    const x = FormatNumber(positions[i * 3], precision);
+                    const y = FormatNumber(positions[i * 3 + 2], precision);
+                    const z = FormatNumber(positions[i * 3 + 1], precision);
+                    vertices.push(`<vertex x="${x}" y="${y}" z="${z}"/>`);
+                }
+
+                const triangles: string[] = [];
+                for (let i = 0; i < indices.length / 3; i++) {
+                    const v1 = indices[i * 3];
+                    const v2 = indices[i * 3 + 1];
+                    const v3 = indices[i * 3 + 2];
+                    if (colorGroupId !== -1) {
+                        triangles.push(`<triangle v1="${v1}" v2="${v2}" v3="${v3}" p1="${v1}" p2="${v2}" p3="${v3}"/>`);
+                    } else if (triangleMaterials[i] !== -1) {
+                        triangles.push(`<triangle v1="${v1}" v2="${v2}" v3="${v3}" pid="${baseMaterialsId}" p1="${triangleMaterials[i]}"/>`);
+                    } else {
+                        triangles.push(`<triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`);
+                    }
+                }
+
+                // The objects with properties on their triangles must define a default property
+                let properties = "";
+                if (colorGroupId !== -1) {
+                    properties = ` pid="${colorGroupId}" pindex="0"`;
+                } else {
+                    const materialIndex = triangleMaterials.find((index) => index !== -1);
+                    if (materialIndex !== undefined) {
+                        properties = ` pid="${baseMaterialsId}" pindex="${materialIndex}"`;
+                    }
+                }
+
+                objectId = nextId++;
+                objectIds.set(sourceMesh, objectId);
+                resources.push(
+                    `<object id="${objectId}" type="model" name="${EscapeXml(sourceMesh.name)}"${properties}><mesh><vertices>${vertices.join("")}</vertices><triangles>${triangles.join("")}</triangles></mesh></object>`
+                );
+            }
+
+            items.push(`<item objectid="${objectId}" transform="${FormatTransform(mesh.computeWorldMatrix(true), precision)}"/>`);
+        }
+
+        if (baseMaterials.length) {
+            resources.unshift(`<basematerials id="${baseMaterialsId}">${baseMaterials.join("")}</basematerials>`);
+        }
+
+        const metadata = Object.entries(localOptions.metadata).map(([name, value]) => `<metadata name="${EscapeXml(name)}">${EscapeXml(value)}</metadata>`);
+
+        const model =
+            `<?xml version="1.0" encoding="UTF-8"?>\n` +
+            `<model unit="${localOptions.unit}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:m="http://schemas.microsoft.com/3dmanufacturing/material/2015/02">` +
+            `<metadata name="Application">Babylon.js</metadata>${metadata.join("")}` +
+            `<resources>${resources.join("")}</resources>` +
+            `<build>${items.join("")}</build>` +
+            `</model>`;
+
+        const contentTypes =
+            `<?xml version="1.0" encoding="UTF-8"?>\n` +
+            `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+            `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+            `<Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>` +
+            `</Types>`;
+
+        const relationships =
+            `<?xml version="1.0" encoding="UTF-8"?>\n` +
+            `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+            `<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>` +
+            `</Relationships>`;
+
+        return fflate.zipSync({
+            "[Content_Types].xml": fflate.strToU8(contentTypes),
+            "_rels/.rels": fflate.strToU8(relationships),
+            "3D/3dmodel.model": fflate.strToU8(model),
+        });
+    }
+}
@@ -0,0 +1,2 @@
+/* eslint-disable @typescript-eslint/no-restricted-imports */
+export * from "./plySerializer";
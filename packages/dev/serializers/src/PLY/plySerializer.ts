@@ -0,0 +1,223 @@
+import { VertexBuffer } from "core/Buffers/buffer";
+import { Constants } from "core/Engines/constants";
+import { TmpVectors, Vector3 } from "core/Maths/math.vector";
+import type { InstancedMesh } from "core/Meshes/instancedMesh";
+import type { Mesh } from "core/Meshes/mesh";
+import type { FloatArray, IndicesArray, Nullable } from "core/types";
+
+/**
+ * Options used to export meshes to the PLY format
+ */
+export interface IPLYExportOptions {
+    /**
+     * Writes the data in binary format (true by default), or in ASCII format
+     */
+    binary?: boolean;
+    /**
+     * Byte order of the binary format (true by default)
+     */
+    littleEndian?: boolean;
+    /**
+     * Exports the normals of the vertices (true by default)
+     */
+    exportNormals?: boolean;
+    /**
+     * Exports the colors of the vertices (true by default)
+     */
+    exportColors?: boolean;
+    /**
+     * Exports the texture coordinates of the vertices (true by default)
+     */
+    exportUVs?: boolean;
+    /**
+     * Exports the meshes as a point cloud, without their faces (false by default).
+     * The meshes without indices, or rendered as points, are always exported as points.
+     */
+    pointCloud?: boolean;
+}
+
+/**
+ * Vertex data of an exported mesh, in world space
+ */
+interface IPLYMeshData {
+    positions: FloatArray;
+    normals: Nullable<FloatArray>;
+    colors: Nullable<FloatArray>;
+    colorStride: number;
+    uvs: Nullable<FloatArray>;
+    indices: Nullable<IndicesArray>;
+    flipFaces: boolean;
+}
+
+/**
+ * Class for exporting meshes and point clouds to the PLY format.
+ * All the meshes are merged in a single PLY mesh, in world space.
+ * The positions are written as they are in the scene, and the winding of the faces is reversed, which matches the PLY loader of the SPLAT loader plugin.
+ */
+export class PLYExport {
+    /**
+     * Exports meshes to a PLY file
+     * @param meshes the meshes (and instances) to export
+     * @param options options to configure the export
+     * @returns the PLY file
+     */
+    public static ExportPLY(meshes: (Mesh | InstancedMesh)[], options: IPLYExportOptions = {}): ArrayBuffer {
+        const binary = options.binary ?? true;
+        const littleEndian = options.littleEndian ?? true;
+
+        const meshesData: IPLYMeshData[] = [];
+        let vertexCount = 0;
+        let faceCount = 0;
+        let hasNormals = false;
+        let hasColors = false;
+        let hasUVs = false;
+        for (const mesh of meshes) {
+            const data = PLYExport._GetMeshData(mesh, options);
+            if (!data) {
+                continue;
+            }
+            meshesData.push(data);
+            vertexCount += data.positions.length / 3;
+            faceCount += data.indices ? Math.floor(data.indices.length / 3) : 0;
+            hasNormals ||= !!data.normals;
+            hasColors ||= !!data.colors;
+            hasUVs ||= !!data.uvs;
+        }
+
+        // Header
+        let header = `ply\nformat ${binary ? (littleEndian ? "binary_little_endian" : "binary_big_endian") : "ascii"} 1.0\ncomment Exported by Babylon.js\n`;
+        header += `element vertex ${vertexCount}\nproperty float x\nproperty float y\nproperty float z\n`;
+        if (hasNormals) {
+            header += "property float nx\nproperty float ny\nproperty float nz\n";
+        }
+        if (hasUVs) {
+            header += "property float s\nproperty float t\n";
+        }
+        if (hasColors) {
+            header += "property uchar red\nproperty uchar green\nproperty uchar blue\nproperty uchar alpha\n";
+        }
+        if (faceCount) {
+            header += `element face ${faceCount}\nproperty list uchar int vertex_indices\n`;
+        }
+        header += "end_header\n";
+
+        const vertexSize = 12 + (hasNormals ? 12 : 0) + (hasUVs ? 8 : 0) + (hasColors ? 4 : 0);
+        const headerBytes = new TextEncoder().encode(header);
+        const buffer = new ArrayBuffer(binary ? headerBytes.length + vertexCount * vertexSize + faceCount * 13 : 0);
+        const dataView = new DataView(buffer);
+        const lines: string[] = [];
+        let offset = headerBytes.length;
+        const toByte = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 255);
+
+        // Vertices
+        const values: number[] = [];
+        for (const data of meshesData) {
+            for (let i = 0; i < data.positions.length / 3; i++) {
+                values.length = 0;
+                values.push(data.positions[i * 3], data.positions[i * 3 + 1], data.positions[i * 3 + 2]);
+                if (hasNormals) {
+                    values.push(...(data.normals ? [data.normals[i * 3], data.normals[i * 3 + 1], data.normals[i * 3 + 2]] : [0, 0, 0]));
+                }
+                if (hasUVs) {
+                    values.push(...(data.uvs ? [data.uvs[i * 2], data.uvs[i * 2 + 1]] : [0, 0]));
+                }
+                const floatCount = values.length;
+                if (hasColors) {
+                    const colors = data.colors;
+                    const colorOffset = i * data.colorStride;
+                    const color = colors
+                        ? [colors[colorOffset], colors[colorOffset + 1], colors[colorOffset + 2], data.colorStride === 4 ? colors[colorOffset + 3] : 1]
+                        : [1, 1, 1, 1];
+                    values.push(...color.map(toByte));
+                }
+                if (binary) {
+                    for (let j = 0; j < values.length; j++) {
+                        if (j < floatCount) {
+                            dataView.setFloat32(offset, values[j], littleEndian);
+                            offset += 4;
+                        } else {
+                            dataView.setUint8(offset++, values[j]);
+                        }
+                    }
+                } else {
+                    lines.push(values.join(" "));
+                }
+            }
+        }
+
+        // Faces
+        let firstVertex = 0;
+        for (const data of meshesData) {
+            const indices = data.indices;
+            if (indices) {
+                for (let i = 0; i + 2 < indices.length; i += 3) {
+                    // Reverse the winding, unless the transform of the mesh already reverses it
+                    const face = data.flipFaces
+                        ? [indices[i] + firstVertex, indices[i + 1] + firstVertex, indices[i + 2] + firstVertex]
+                        : [indices[i] + firstVertex, indices[i + 2] + firstVertex, indices[i + 1] + firstVertex];
+                    if (binary) {
+                        dataView.setUint8(offset++, 3);
+                        for (const index of face) {
+                            dataView.setInt32(offset, index, littleEndian);
+                            offset += 4;
+                        }
+                    } else {
+                        lines.push("3 " + face.join(" "));
+                    }
+                }
+            }
+            firstVertex += data.positions.length / 3;
+        }
+
+        if (!binary) {
+            return new TextEncoder().encode(header + lines.join("\n") + "\n").buffer as ArrayBuffer;
+        }
+        new Uint8Array(buffer).set(headerBytes);
+        return buffer;
+    }
+
+    private static _GetMeshData(mesh: Mesh | InstancedMesh, options: IPLYExportOptions): Nullable<IPLYMeshData> {
+        const localPositions = mesh.getVerticesData(VertexBuffer.PositionKind);
+        if (!localPositions || !localPositions.length) {
+            return null;
+        }
+        const vertexCount = localPositions.length / 3;
+        const worldMatrix = mesh.computeWorldMatrix(true);
+
+        const positions = new Float32Array(localPositions.length);
+        for (let i = 0; i < vertexCount; i++) {
+            Vector3.TransformCoordinatesFromFloatsToRef(localPositions[i * 3], localPositions[i * 3 + 1], localPositions[i * 3 + 2], worldMatrix, TmpVectors.Vector3[0]);
+            TmpVectors.Vector3[0].toArray(positions, i * 3);
+        }
+
+        let normals: Nullable<Float32Array> = null;
+        const localNormals = (options.exportNormals ?? true) ? mesh.getVerticesData(VertexBuffer.NormalKind) : null;
+        if (localNormals) {
+            const normalMatrix = worldMatrix.clone().invert().transpose();
+            normals = new Float32Array(localNormals.length);
+            for (let i = 0; i < vertexCount; i++) {
+                Vector3.TransformNormalFromFloatsToRef(localNormals[i * 3], localNormals[i * 3 + 1], localNormals[i * 3 + 2], normalMatrix, TmpVectors.Vector3[0]);
+                TmpVectors.Vector3[0].normalize().toArray(normals, i * 3);
+            }
+        }
+
+        const colors = (options.exportColors ?? true) ? mesh.getVerticesData(VertexBuffer.ColorKind) : null;
+        const material = mesh.material;
+        const isPointCloud =
+            options.pointCloud ||
+            !mesh.getIndices() ||
+            !!material?.pointsCloud ||
+            material?.fillMode === Constants.MATERIAL_PointFillMode ||
+            material?.fillMode === Constants.MATERIAL_PointListDrawMode;
+
+        return {
+            positions,
+            normals,
+            colors,
+            colorStride: colors ? colors.length / vertexCount : 0,
+            uvs: (options.exportUVs ?? true) ? mesh.getVerticesData(VertexBuffer.UVKind) : null,
+            indices: isPointCloud ? null : mesh.getIndices(),
+            flipFaces: worldMatrix.determinant() < 0,
+        };
+    }
+}
@@ -0,0 +1,334 @@
+import type { GaussianSplattingMesh } from "core/Meshes/GaussianSplatting/gaussianSplattingMesh";
+import { GaussianSplattingStreamingMesh } from "core/Meshes/GaussianSplatting/gaussianSplattingStreamingMesh";
+import type { IGaussianSplattingChunkBuildOptions } from "core/Meshes/GaussianSplatting/gaussianSplattingStreamingMesh";
+import type { Vector3 } from "core/Maths/math.vector";
+import type { Nullable } from "core/types";
+
+/**
+ * Options used to export a Gaussian splatting mesh to the SPZ format
+ */
+export interface ISPZExportOptions {
+    /**
+     * Number of fractional bits of the fixed point positions (default: 12). It is reduced when the positions don't fit in 24 bits.
+     */
+    fractionalBits?: number;
+    /**
+     * Defines if the data was loaded with the flipY option of the SPLAT loader, so that the file can be loaded back with the same option (default: false)
+     */
+    flipY?: boolean;
+}
+
+/**
+ * Options used to export a Gaussian splatting mesh to chunks of .spz files
+ */
+export interface ISPZChunksExportOptions extends ISPZExportOptions, IGaussianSplattingChunkBuildOptions {
+    /**
+     * Prefix of the names of the chunk files (default: "chunk")
+     */
+    fileNamePrefix?: string;
+}
+
+/**
+ * Size in bytes of a splat in the splats data of a GaussianSplattingMesh: position (3 floats), scale (3 floats), color (4 bytes), orientation quaternion (4 bytes)
+ */
+const ROW_LENGTH = 32;
+
+const SH_C0 = 0.28209479177387814;
+
+/**
+ * SH coefficients (in the order of the 15 RGB SH vectors of the degrees 1 to 3) which are odd functions of x, y and z
+ */
+const SH_ODD_X = [2, 3, 6, 9, 12, 14];
+const SH_ODD_Y = [0, 3, 4, 8, 9, 10];
+const SH_ODD_Z = [1, 4, 6, 9, 11, 13];
+
+/**
+ * View direction factors set by the SPLAT loader on the loaded meshes
+ */
+const PlyViewDirectionFactor = [-1, -1, 1];
+const SpzViewDirectionFactor = [1, 1, -1];
+
+interface ISplatsData {
+    splatCount: number;
+    floats: Float32Array;
+    bytes: Uint8Array;
+    shDegree: number;
+    shCoefficientCount: number;
+    sh: Nullable<Uint8Array[]>;
+}
+
+function GetSplatsData(mesh: GaussianSplattingMesh): ISplatsData {
+    const splatsData = mesh.splatsData;
+    if (!splatsData) {
+        throw new Error(`The splats data of the mesh ${mesh.name} is not available, the mesh must keep its data in RAM (see the keepInRam parameter of GaussianSplattingMesh).`);
+    }
+
+    return CreateSplatsData(splatsData, mesh.shDegree ? mesh.shData : null);
+}
+
+function CreateSplatsData(splatsData: ArrayBuffer, sh?: Nullable<Uint8Array[]>): ISplatsData {
+    sh = sh?.length ? sh : null;
+    const shDegree = sh ? sh.length : 0;
+
+    return {
+        splatCount: splatsData.byteLength / ROW_LENGTH,
+        floats: new Float32Array(splatsData),
+        bytes: new Uint8Array(splatsData),
+        shDegree,
+        shCoefficientCount: ((shDegree + 1) * (shDegree + 1) - 1) * 3,
+        sh,
+    };
+}
+
+/**
+ * Gets the function returning the SH coefficients of a splat (as bytes, 0 to 255 for -1 to 1), converted from the view direction factor of the mesh to the one of the exported format.
+ * The view direction factor flips the axes of the view direction used to evaluate the SH, so the coefficients which are odd functions of the flipped axes are negated.
+ * @param data the splats data
+ * @param meshViewDirectionFactor the view direction factor of the mesh
+ * @param viewDirectionFactor the view direction factor used when loading the exported format
+ * @returns a function reading the SH coefficient of a splat, in RGB order for each SH vector
+ */
+function GetShReader(data: ISplatsData, meshViewDirectionFactor: Vector3, viewDirectionFactor: number[]): (splatIndex: number, coefficientIndex: number) => number {
+    const negated = new Array<boolean>(15).fill(false);
+    const oddCoefficients = [SH_ODD_X, SH_ODD_Y, SH_ODD_Z];
+    const meshFactor = meshViewDirectionFactor.asArray();
+    for (let axis = 0; axis < 3; axis++) {
+        if (Math.sign(meshFactor[axis]) !== Math.sign(viewDirectionFactor[axis])) {
+            for (const vectorIndex of oddCoefficients[axis]) {
+                negated[vectorIndex] = !negated[vectorIndex];
+            }
+        }
+    }
+
+    const sh = data.sh!;
+    return (splatIndex: number, coefficientIndex: number) => {
+        // 16 coefficients per splat in each SH array
+        const value = sh[coefficientIndex >> 4][splatIndex * 16 + (coefficientIndex & 15)];
+        return negated[Math.floor(coefficientIndex / 3)] ? 255 - value : value;
+    };
+}
+
+function Clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Class for exporting Gaussian splatting meshes to the .ply, .splat and .spz formats.
+ * The splats are exported in the local space of the mesh, and the mesh must keep its data in RAM (see the keepInRam parameter of GaussianSplattingMesh and the keepInRam option of the SPLAT loader).
+ */
+export class SPLATExport {
+    /**
+     * Exports a Gaussian splatting mesh to the .ply format (binary, with the properties used by the 3D Gaussian splatting trainings, including the SH coefficients)
+     * @param mesh defines the mesh to export
+     * @returns the content of the .ply file
+     */
+    public static ExportPLY(mesh: GaussianSplattingMesh): ArrayBuffer {
+        const data = GetSplatsData(mesh);
+        const { splatCount, floats, bytes, shCoefficientCount } = data;
+
+        const properties = ["x", "y", "z", "f_dc_0", "f_dc_1", "f_dc_2"];
+        for (let i = 0; i < shCoefficientCount; i++) {
+            properties.push(`f_rest_${i}`);
+        }
+        properties.push("opacity", "scale_0", "scale_1", "scale_2", "rot_0", "rot_1", "rot_2", "rot_3");
+
+        const header = ["ply", "format binary_little_endian 1.0", `element vertex ${splatCount}`, ...properties.map((name) => `property float ${name}`), "end_header", ""].join(
+            "\n"
+        );
+        const headerBytes = new TextEncoder().encode(header);
+
+        const rowLength = properties.length * 4;
+        const buffer = new ArrayBuffer(headerBytes.length + splatCount * rowLength);
+        new Uint8Array(buffer).set(headerBytes);
+        const dataView = new DataView(buffer, headerBytes.length);
+
+        // The SH coefficients are stored by color channel in the .ply file
+        const readSH = shCoefficientCount ? GetShReader(data, mesh.viewDirectionFactor, PlyViewDirectionFactor) : null;
+        const shVectorCount = shCoefficientCount / 3;
+
+        for (let i = 0; i < splatCount; i++) {
+            let offset = i * rowLength;
+            const write = (value: number) => {
+                dataView.setFloat32(offset, value, true);
+                offset += 4;
+            };
+
+            // position
+            write(floats[i * 8 + 0]);
+            write(floats[i * 8 + 1]);
+            write(floats[i * 8 + 2]);
+
+            // color
+            const colorOffset = i * ROW_LENGTH + 24;
+            for (let channel = 0; channel < 3; channel++) {
+                write((bytes[colorOffset + channel] / 255 - 0.5) / SH_C0);
+            }
+
+            if (readSH) {
+                for (let channel = 0; channel < 3; channel++) {
+                    for (let vectorIndex = 0; vectorIndex < shVectorCount; vectorIndex++) {
+                        write((readSH(i, vectorIndex * 3 + channel) - 127.5) / 127.5);
+                    }
+                }
+            }
+
+            // opacity is stored before the sigmoid activation
+            const alpha = Clamp(bytes[colorOffset + 3], 0.5, 254.5) / 255;
+            write(-Math.log(1 / alpha - 1));
+
+            // scale is stored before the exponential activation
+            for (let axis = 0; axis < 3; axis++) {
+                write(Math.log(floats[i * 8 + 3 + axis]));
+            }
+
+            // orientation (w, x, y, z)
+            const rotationOffset = i * ROW_LENGTH + 28;
+            for (let component = 0; component < 4; component++) {
+                write((bytes[rotationOffset + component] - 127.5) / 127.5);
+            }
+        }
+
+        return buffer;
+    }
+
+    /**
+     * Exports a Gaussian splatting mesh to the .splat format. This format doesn't support SH coefficients.
+     * @param mesh defines the mesh to export
+     * @returns the content of the .splat file
+     */
+    public static ExportSPLAT(mesh: GaussianSplattingMesh): ArrayBuffer {
+        // The splats data of the mesh is stored in the .splat format
+        return GetSplatsData(mesh).bytes.slice().buffer;
+    }
+
+    /**
+     * Exports a Gaussian splatting mesh to the .spz format (version 2, compressed with gzip), including the SH coefficients
+     * @param mesh defines the mesh to export
+     * @param options defines the options of the export
+     * @returns a promise resolving to the content of the .spz file
+     */
+    public static async ExportSPZAsync(mesh: GaussianSplattingMesh, options: ISPZExportOptions = {}): Promise<ArrayBuffer> {
+        return await SPLATExport._EncodeSPZAsync(GetSplatsData(mesh), mesh.viewDirectionFactor, mesh.compensation, options);
+    }
+
+    /**
+     * Exports a Gaussian splatting mesh to chunks of .spz files with reduced detail levels, and to the manifest listing them, which is streamed by the SPLAT loader (see GaussianSplattingStreamingMesh)
+     * @param mesh defines the mesh to export
+     * @param options defines the options of the export
+     * @returns a promise resolving to the content of the files, indexed by file name. The manifest is named "manifest.json" and the chunks files are relative to it.
+     */
+    public static async ExportSPZChunksAsync(mesh: GaussianSplattingMesh, options: ISPZChunksExportOptions = {}): Promise<{ [fileName: string]: ArrayBuffer | string }> {
+        // Throws if the data of the mesh is not kept in RAM
+        const { sh } = GetSplatsData(mesh);
+        const chunkSet = GaussianSplattingStreamingMesh.BuildChunks(mesh.splatsData!, sh, options);
+        const fileNamePrefix = options.fileNamePrefix ?? "chunk";
+
+        const files: { [fileName: string]: ArrayBuffer | string } = {};
+        const manifest = {
+            chunks: [] as { min: number[]; max: number[]; lods: string[] }[],
+        };
+        for (let chunkIndex = 0; chunkIndex < chunkSet.chunks.length; chunkIndex++) {
+            const chunk = chunkSet.chunks[chunkIndex];
+            const lods: string[] = [];
+            for (let lod = 0; lod < chunk.lodCount; lod++) {
+                const level = chunkSet.levels[chunkIndex][lod];
+                const fileName = `${fileNamePrefix}_${chunkIndex}_${lod}.spz`;
+                // eslint-disable-next-line no-await-in-loop
+                files[fileName] = await SPLATExport._EncodeSPZAsync(CreateSplatsData(level.data, level.sh), mesh.viewDirectionFactor, mesh.compensation, options);
+                lods.push(fileName);
+            }
+            manifest.chunks.push({ min: chunk.minimum.asArray(), max: chunk.maximum.asArray(), lods });
+        }
+        files["manifest.json"] = JSON.stringify(manifest);
+
+        return files;
+    }
+
+    private static async _EncodeSPZAsync(data: ISplatsData, meshViewDirectionFactor: Vector3, compensation: boolean, options: ISPZExportOptions): Promise<ArrayBuffer> {
+        const { splatCount, floats, bytes, shDegree, shCoefficientCount } = data;
+
+        // The SPLAT loader flips the y and z axes unless the flipY option is set
+        const coordinateSign = options.flipY ? 1 : -1;
+
+        // Use as many fractional bits as possible for the 24 bits signed fixed point positions
+        let maxCoordinate = 0;
+        for (let i = 0; i < splatCount; i++) {
+            for (let axis = 0; axis < 3; axis++) {
+                maxCoordinate = Math.max(maxCoordinate, Math.abs(floats[i * 8 + axis]));
+            }
+        }
+        let fractionalBits = options.fractionalBits ?? 12;
+        while (fractionalBits > 0 && maxCoordinate * (1 << fractionalBits) >= 1 << 23) {
+            fractionalBits--;
+        }
+
+        const output = new Uint8Array(16 + splatCount * (9 + 1 + 3 + 3 + 3 + shCoefficientCount));
+        const header = new DataView(output.buffer);
+        header.setUint32(0, 0x5053474e, true); // magic
+        header.setUint32(4, 2, true); // version
+        header.setUint32(8, splatCount, true);
+        output[12] = shDegree;
+        output[13] = fractionalBits;
+        output[14] = compensation ? 1 : 0; // trained with antialiasing
+        output[15] = 0; // reserved
+
+        let offset = 16;
+
+        // positions, as 24 bits signed fixed point values
+        const positionScale = 1 << fractionalBits;
+        for (let i = 0; i < splatCount; i++) {
+            for (let axis = 0; axis < 3; axis++) {
+                const value = Math.round(floats[i * 8 + axis] * (axis === 0 ? 1 : coordinateSign) * positionScale);
+                output[offset++] = value & 0xff;
+                output[offset++] = (value >> 8) & 0xff;
+                output[offset++] = (value >> 16) & 0xff;
+            }
+        }
+
+        // alphas
+        for (let i = 0; i < splatCount; i++) {
+            output[offset++] = bytes[i * ROW_LENGTH + 27];
+        }
+
+        // colors, as the DC SH coefficient scaled by 0.15 (as done by the SPZ format to represent colors out of range)
+        for (let i = 0; i < splatCount; i++) {
+            for (let channel = 0; channel < 3; channel++) {
+                const value = (bytes[i * ROW_LENGTH + 24 + channel] / 255 - 0.5) / 0.282;
+                output[offset++] = Clamp(Math.round(value * 0.15 * 255 + 127.5), 0, 255);
+            }
+        }
+
+        // scales, as 4.4 fixed point log values
+        for (let i = 0; i < splatCount; i++) {
+            for (let axis = 0; axis < 3; axis++) {
+                output[offset++] = Clamp(Math.round((Math.log(floats[i * 8 + 3 + axis]) + 10) * 16), 0, 255);
+            }
+        }
+
+        // rotations, as the (x, y, z) components of the quaternion, w being positive
+        for (let i = 0; i < splatCount; i++) {
+            const rotationOffset = i * ROW_LENGTH + 28;
+            const negate = bytes[rotationOffset] < 127.5;
+            for (let component = 1; component < 4; component++) {
+                let value = negate ? 255 - bytes[rotationOffset + component] : bytes[rotationOffset + component];
+                if (component > 1 && coordinateSign < 0) {
+                    value = 255 - value;
+                }
+                output[offset++] = value;
+            }
+        }
+
+        // SH coefficients
+        if (shCoefficientCount) {
+            const readSH = GetShReader(data, meshViewDirectionFactor, SpzViewDirectionFactor);
+            for (let i = 0; i < splatCount; i++) {
+                for (let coefficientIndex = 0; coefficientIndex < shCoefficientCount; coefficientIndex++) {
+                    output[offset++] = readSH(i, coefficientIndex);
+                }
+            }
+        }
+
+        const compressedStream = new Blob([output]).stream().pipeThrough(new CompressionStream("gzip"));
+        return await new Response(compressedStream).arrayBuffer();
+    }
+}
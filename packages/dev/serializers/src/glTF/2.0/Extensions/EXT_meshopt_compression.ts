@@ -0,0 +1,167 @@
+import type { IBuffer, IBufferView, IEXTMeshoptCompression } from "babylonjs-gltf2interface";
+import { MeshPrimitiveMode } from "babylonjs-gltf2interface";
+import type { IGLTFExporterExtensionV2 } from "../glTFExporterExtension";
+import type { BufferManager } from "../bufferManager";
+import { GLTFExporter } from "../glTFExporter";
+import { GetAccessorElementCount } from "../glTFUtilities";
+import { GetTypeByteLength } from "core/Buffers/bufferUtils";
+import { MeshoptCompression } from "core/Meshes/Compression/meshoptCompression";
+import { Logger } from "core/Misc/logger";
+
+const NAME = "EXT_meshopt_compression";
+
+interface IEncodedBufferView {
+    bufferView: IBufferView;
+    extension: IEXTMeshoptCompression;
+}
+
+/**
+ * [Specification](https://github.com/KhronosGroup/glTF/blob/main/extensions/2.0/Vendor/EXT_meshopt_compression/README.md)
+ *
+ * Compresses the buffer views of the vertex attributes, indices and animations with meshopt when the meshCompressionMethod export option is "Meshopt"
+ * and the encoder of `MeshoptCompression.Configuration` is configured.
+ * The uncompressed buffer views are moved to a fallback buffer which has no data, so the extension is required.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export class EXT_meshopt_compression implements IGLTFExporterExtensionV2 {
+    /** Name of this extension */
+    public readonly name = NAME;
+
+    /** Defines whether this extension is enabled */
+    public enabled: boolean;
+
+    /** EXT_meshopt_compression is required, as uncompressed fallback data is not written. */
+    public required = true;
+
+    private _exporter: GLTFExporter;
+
+    private _encodedBufferViews: IEncodedBufferView[] = [];
+
+    /** @internal */
+    public get wasUsed() {
+        return this._encodedBufferViews.length > 0;
+    }
+
+    /** @internal */
+    constructor(exporter: GLTFExporter) {
+        this._exporter = exporter;
+        this.enabled = exporter.options.meshCompressionMethod === "Meshopt" && MeshoptCompression.EncoderAvailable;
+        if (exporter.options.meshCompressionMethod === "Meshopt" && !this.enabled) {
+            Logger.Warn(`${NAME}: The meshopt encoder is not configured, the buffer views are not compressed.`);
+        }
+    }
+
+    /** @internal */
+    public dispose() {
+        this._encodedBufferViews.length = 0;
+    }
+
+    /** @internal */
+    public async preGenerateBinaryAsync(bufferManager: BufferManager): Promise<void> {
+        if (!this.enabled) {
+            return;
+        }
+
+        // Find the mode and the element size of the buffer views referenced by the accessors
+        const indicesModes = new Map<number, MeshPrimitiveMode>();
+        for (const mesh of this._exporter._meshes) {
+            for (const primitive of mesh.primitives) {
+                if (primitive.indices !== undefined) {
+                    indicesModes.set(primitive.indices, primitive.mode ?? MeshPrimitiveMode.TRIANGLES);
+                }
+            }
+        }
+
+        const candidates = new Map<IBufferView, { mode: IEXTMeshoptCompression["mode"]; byteStride: number } | null>();
+        this._exporter._accessors.forEach((accessor, accessorIndex) => {
+            const bufferView = bufferManager.getBufferView(accessor);
+            const indicesMode = indicesModes.get(accessorIndex);
+            const elementByteLength = GetTypeByteLength(accessor.componentType) * GetAccessorElementCount(accessor.type);
+            const mode: IEXTMeshoptCompression["mode"] =
+                indicesMode === undefined ? "ATTRIBUTES" : indicesMode === MeshPrimitiveMode.TRIANGLES && accessor.count % 3 === 0 ? "TRIANGLES" : "INDICES";
+            const byteStride = bufferView.byteStride || elementByteLength;
+
+            const candidate = candidates.get(bufferView);
+            if (candidate === undefined) {
+                candidates.set(bufferView, { mode, byteStride });
+            } else if (candidate && (candidate.mode !== mode || candidate.byteStride !== byteStride)) {
+                // The buffer view is used by accessors which can't be encoded together
+                candidates.set(bufferView, null);
+            }
+        });
+
+        const promises: Promise<void>[] = [];
+        candidates.forEach((candidate, bufferView) => {
+            if (!candidate) {
+                return;
+            }
+
+            const { mode, byteStride } = candidate;
+            const data = bufferManager.getData(bufferView);
+            if (data.byteLength % byteStride !== 0 || (mode === "ATTRIBUTES" ? byteStride % 4 !== 0 || byteStride > 256 : byteStride !== 2 && byteStride !== 4)) {
+                return;
+            }
+
+            const count = data.byteLength / byteStride;
+            const source = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+            promises.push(
+                MeshoptCompression.Default.encodeGltfBufferAsync(source, count, byteStride, mode)
+                    // eslint-disable-next-line github/no-then
+                    .then((encodedData) => {
+                        // The encoded data is stored in place of the original data, padded to keep the buffer views aligned
+                        const paddedData = new Uint8Array(Math.ceil(encodedData.byteLength / 4) * 4);
+                        paddedData.set(encodedData);
+                        bufferManager.setData(bufferView, paddedData);
+
+                        this._encodedBufferViews.push({
+                            bufferView,
+                            extension: {
+                                buffer: 0,
+                                byteLength: encodedData.byteLength,
+                                byteStride,
+                                count,
+                                mode,
+                            },
+                        });
+                    })
+                    // eslint-disable-next-line github/no-then
+                    .catch((error) => {
+                        Logger.Error(`${NAME}: encoding failed for buffer view: ${error}`);
+                    })
+            );
+        });
+
+        await Promise.all(promises);
+    }
+
+    /** @internal */
+    public onExporting(): void {
+        // The binary has been generated: the encoded data is at the offset of the buffer view in the binary buffer.
+        // The buffer view itself now points to the fallback buffer, which has no data.
+        const buffers = (this._exporter._glTF.buffers ||= []);
+        const fallbackBuffer: IBuffer = {
+            byteLength: 0,
+            extensions: {
+                [NAME]: {
+                    fallback: true,
+                },
+            },
+        };
+        buffers.push(fallbackBuffer);
+        // The binary buffer is inserted before the other buffers when generating the JSON
+        const fallbackBufferIndex = buffers.length;
+
+        for (const { bufferView, extension } of this._encodedBufferViews) {
+            extension.byteOffset = bufferView.byteOffset;
+
+            bufferView.buffer = fallbackBufferIndex;
+            bufferView.byteOffset = fallbackBuffer.byteLength;
+            fallbackBuffer.byteLength += Math.ceil(bufferView.byteLength / 4) * 4;
+            bufferView.extensions ||= {};
+            bufferView.extensions[NAME] = extension;
+        }
+    }
+}
+
+// Registered after KHR_mesh_quantization so that the quantized data is encoded
+GLTFExporter.RegisterExtension(NAME, (exporter) => new EXT_meshopt_compression(exporter), 200);
@@ -0,0 +1,229 @@
+import type { INode, IKHRMaterialVariants_Mapping, IKHRMaterialVariants_Variants } from "babylonjs-gltf2interface";
+import type { IGLTFExporterExtensionV2 } from "../glTFExporterExtension";
+import { GLTFExporter } from "../glTFExporter";
+import type { Nullable } from "core/types";
+import type { Node } from "core/node";
+import type { Material } from "core/Materials/material";
+import { MultiMaterial } from "core/Materials/multiMaterial";
+import { AbstractMesh } from "core/Meshes/abstractMesh";
+import { InstancedMesh } from "core/Meshes/instancedMesh";
+import { VertexBuffer } from "core/Buffers/buffer";
+import { Logger } from "core/Misc/logger";
+
+const NAME = "KHR_materials_variants";
+
+/**
+ * Metadata stored by the glTF loader (and by KHR_materials_variants.AddVariantMaterial) on the root node of the meshes having variants
+ */
+interface IExtensionMetadata {
+    lastSelected: Nullable<string | Array<string>>;
+    original: Array<{ mesh: AbstractMesh; material: Nullable<Material> }>;
+    variants: { [key: string]: Array<{ mesh: AbstractMesh; material: Nullable<Material> }> };
+}
+
+interface IMeshVariants {
+    original?: Nullable<Material>;
+    variants: Array<{ name: string; material: Nullable<Material> }>;
+}
+
+/**
+ * [Specification](https://github.com/KhronosGroup/glTF/blob/main/extensions/2.0/Khronos/KHR_materials_variants/README.md)
+ *
+ * The variants are read from the metadata created by the glTF loader when loading an asset using this extension,
+ * or from the alternative materials registered with KHR_materials_variants.AddVariantMaterial.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export class KHR_materials_variants implements IGLTFExporterExtensionV2 {
+    /** Name of this extension */
+    public readonly name = NAME;
+
+    /** Defines whether this extension is enabled */
+    public enabled = true;
+
+    /** Defines whether this extension is required */
+    public required = false;
+
+    private _exporter: GLTFExporter;
+
+    private _meshVariants: Nullable<Map<AbstractMesh, IMeshVariants>> = null;
+
+    private _variantNames: string[] = [];
+
+    private _exportedMeshes = new Set<number>();
+
+    private _wasUsed = false;
+
+    /**
+     * @internal
+     */
+    constructor(exporter: GLTFExporter) {
+        this._exporter = exporter;
+    }
+
+    /** @internal */
+    public dispose() {
+        this._meshVariants = null;
+        this._exportedMeshes.clear();
+    }
+
+    /** @internal */
+    public get wasUsed() {
+        return this._wasUsed;
+    }
+
+    /**
+     * Registers an alternative material for a mesh, exported as a variant of the mesh.
+     * The variant can also be selected at runtime with the KHR_materials_variants loader extension (using the mesh as root node)
+     * @param mesh The mesh
+     * @param variantName The name of the variant
+     * @param material The material used by the mesh for this variant
+     */
+    public static AddVariantMaterial(mesh: AbstractMesh, variantName: string, material: Material): void {
+        const metadata = (mesh._internalMetadata = mesh._internalMetadata || {});
+        const gltf = (metadata.gltf = metadata.gltf || {});
+        let extensionMetadata: IExtensionMetadata = gltf[NAME];
+        if (!extensionMetadata) {
+            extensionMetadata = gltf[NAME] = { lastSelected: null, original: [{ mesh, material: mesh.material }], variants: {} };
+        }
+
+        const entries = (extensionMetadata.variants[variantName] = extensionMetadata.variants[variantName] || []);
+        const entry = entries.find((entry) => entry.mesh === mesh);
+        if (entry) {
+            entry.material = material;
+        } else {
+            entries.push({ mesh, material });
+        }
+    }
+
+    /** @internal */
+    public onExporting(): void {
+        const extension: IKHRMaterialVariants_Variants = {
+            variants: this._variantNames.map((name) => ({ name })),
+        };
+        this._exporter._glTF.extensions![NAME] = extension;
+    }
+
+    /**
+     * After node is exported
+     * @param context the GLTF context when loading the asset
+     * @param node the node exported
+     * @param babylonNode the corresponding babylon node
+     * @returns nullable promise, resolves with the node
+     */
+    public async postExportNodeAsync(context: string, node: Nullable<INode>, babylonNode: Node): Promise<Nullable<INode>> {
+        if (!node || node.mesh === undefined || !(babylonNode instanceof AbstractMesh) || this._exportedMeshes.has(node.mesh)) {
+            return node;
+        }
+
+        const babylonMesh = babylonNode instanceof InstancedMesh ? babylonNode.sourceMesh : babylonNode;
+        const meshVariants = this._getMeshVariants().get(babylonMesh);
+        if (!meshVariants) {
+            return node;
+        }
+
+        this._exportedMeshes.add(node.mesh);
+
+        const mesh = this._exporter._meshes[node.mesh];
+        const hasUVs = babylonMesh.isVerticesDataPresent(VertexBuffer.UVKind);
+        const subMeshes = babylonMesh.subMeshes;
+
+        for (let primitiveIndex = 0; primitiveIndex < mesh.primitives.length; primitiveIndex++) {
+            const primitive = mesh.primitives[primitiveIndex];
+            const materialIndex = subMeshes[primitiveIndex]?.materialIndex ?? 0;
+            const getSubMaterial = (material: Nullable<Material>) => (material instanceof MultiMaterial ? material.subMaterials[materialIndex] : material);
+
+            // The default material of the primitive is the original one, whatever the variant currently selected
+            const original = getSubMaterial(meshVariants.original ?? null);
+            if (original) {
+                // eslint-disable-next-line no-await-in-loop
+                const originalIndex = await this._exporter._getOrExportMaterialAsync(original, hasUVs);
+                if (originalIndex !== undefined) {
+                    primitive.material = originalIndex;
+                }
+            }
+
+            const mappings: IKHRMaterialVariants_Mapping["mappings"] = [];
+            for (const variant of meshVariants.variants) {
+                const material = getSubMaterial(variant.material);
+                if (!material) {
+                    continue;
+                }
+
+                // eslint-disable-next-line no-await-in-loop
+                const gltfMaterialIndex = await this._exporter._getOrExportMaterialAsync(material, hasUVs);
+                if (gltfMaterialIndex === undefined) {
+                    continue;
+                }
+
+                if (this._exporter._materialNeedsUVsSet.has(material) && !Object.keys(primitive.attributes).some((attribute) => attribute.startsWith("TEXCOORD"))) {
+                    Logger.Warn(`${NAME}: the material '${material.name}' of the variant '${variant.name}' needs texture coordinates that were not exported (see exportUnusedUVs)`);
+                }
+
+                const variantIndex = this._getVariantIndex(variant.name);
+                const mapping = mappings.find((mapping) => mapping.material === gltfMaterialIndex);
+                if (mapping) {
+                    mapping.variants.push(variantIndex);
+                } else {
+                    mappings.push({ material: gltfMaterialIndex, variants: [variantIndex] });
+                }
+            }
+
+            if (mappings.length) {
+                primitive.extensions = primitive.extensions || {};
+                primitive.extensions[NAME] = { mappings };
+                this._wasUsed = true;
+            }
+        }
+
+        return node;
+    }
+
+    private _getVariantIndex(name: string): number {
+        let index = this._variantNames.indexOf(name);
+        if (index === -1) {
+            index = this._variantNames.length;
+            this._variantNames.push(name);
+        }
+        return index;
+    }
+
+    private _getMeshVariants(): Map<AbstractMesh, IMeshVariants> {
+        if (this._meshVariants) {
+            return this._meshVariants;
+        }
+
+        const meshVariants = new Map<AbstractMesh, IMeshVariants>();
+        const getOrCreate = (mesh: AbstractMesh) => {
+            let entry = meshVariants.get(mesh);
+            if (!entry) {
+                entry = { variants: [] };
+                meshVariants.set(mesh, entry);
+            }
+            return entry;
+        };
+
+        const scene = this._exporter._babylonScene;
+        const nodes: Node[] = [...scene.transformNodes, ...scene.meshes];
+        for (const babylonNode of nodes) {
+            const extensionMetadata: Nullable<IExtensionMetadata> = babylonNode._internalMetadata?.gltf?.[NAME] || null;
+            if (!extensionMetadata) {
+                continue;
+            }
+
+            for (const original of extensionMetadata.original) {
+                getOrCreate(original.mesh).original = original.material;
+            }
+
+            for (const name in extensionMetadata.variants) {
+                for (const entry of extensionMetadata.variants[name]) {
+                    getOrCreate(entry.mesh).variants.push({ name, material: entry.material });
+                }
+            }
+        }
+
+        this._meshVariants = meshVariants;
+        return meshVariants;
+    }
+}
+
+GLTFExporter.RegisterExtension(NAME, (exporter) => new KHR_materials_variants(exporter));
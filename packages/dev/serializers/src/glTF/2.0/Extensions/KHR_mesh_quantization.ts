@@ -0,0 +1,347 @@
+import type { IAccessor, INode } from "babylonjs-gltf2interface";
+import { AccessorComponentType } from "babylonjs-gltf2interface";
+import type { IGLTFExporterExtensionV2 } from "../glTFExporterExtension";
+import type { BufferManager } from "../bufferManager";
+import type { IMeshQuantizationOptions } from "../glTFSerializer";
+import { GLTFExporter } from "../glTFExporter";
+import { GetAccessorElementCount } from "../glTFUtilities";
+import { EnumerateFloatValues, GetTypeByteLength } from "core/Buffers/bufferUtils";
+import { Logger } from "core/Misc/logger";
+
+const NAME = "KHR_mesh_quantization";
+
+const DefaultOptions: Required<IMeshQuantizationOptions> = {
+    positionBits: 14,
+    normalBits: 8,
+    texCoordBits: 16,
+    quantizeWeights: true,
+};
+
+type QuantizedArray = Int8Array | Uint8Array | Int16Array | Uint16Array;
+
+/**
+ * Reads the values of an accessor as floats
+ * @param accessor the accessor
+ * @param bufferManager the buffer manager holding the data of the accessor
+ * @returns the values of the accessor, one array per element
+ */
+function ReadAccessor(accessor: IAccessor, bufferManager: BufferManager): number[][] {
+    const bufferView = bufferManager.getBufferView(accessor);
+    const size = GetAccessorElementCount(accessor.type);
+    const byteStride = bufferView.byteStride || GetTypeByteLength(accessor.componentType) * size;
+    const elements: number[][] = [];
+    EnumerateFloatValues(
+        bufferManager.getData(bufferView),
+        accessor.byteOffset || 0,
+        byteStride,
+        size,
+        accessor.componentType,
+        accessor.count * size,
+        !!accessor.normalized,
+        (values) => {
+            elements.push(values.slice());
+        }
+    );
+    return elements;
+}
+
+/**
+ * Replaces the data of an accessor with integer data. Each element is padded to a multiple of 4 bytes, as required for vertex attributes
+ * @param accessor the accessor
+ * @param bufferManager the buffer manager holding the data of the accessor
+ * @param elements the quantized values, one array per element
+ * @param componentType the new component type of the accessor
+ * @param normalized whether the integer values are normalized
+ */
+function WriteAccessor(accessor: IAccessor, bufferManager: BufferManager, elements: number[][], componentType: AccessorComponentType, normalized: boolean): void {
+    const size = GetAccessorElementCount(accessor.type);
+    const componentByteLength = GetTypeByteLength(componentType);
+    const byteStride = Math.ceil((size * componentByteLength) / 4) * 4;
+    const stride = byteStride / componentByteLength;
+
+    let data: QuantizedArray;
+    switch (componentType) {
+        case AccessorComponentType.BYTE:
+            data = new Int8Array(elements.length * stride);
+            break;
+        case AccessorComponentType.UNSIGNED_BYTE:
+            data = new Uint8Array(elements.length * stride);
+            break;
+        case AccessorComponentType.SHORT:
+            data = new Int16Array(elements.length * stride);
+            break;
+        default:
+            data = new Uint16Array(elements.length * stride);
+            break;
+    }
+
+    for (let i = 0; i < elements.length; i++) {
+        data.set(elements[i], i * stride);
+    }
+
+    bufferManager.setAccessorBufferView(accessor, bufferManager.createBufferView(data, byteStride));
+    accessor.componentType = componentType;
+    accessor.byteOffset = 0;
+    if (normalized) {
+        accessor.normalized = true;
+    } else {
+        delete accessor.normalized;
+    }
+}
+
+/**
+ * [Specification](https://github.com/KhronosGroup/glTF/blob/main/extensions/2.0/Khronos/KHR_mesh_quantization/README.md)
+ *
+ * Quantizes the vertex attributes of the exported meshes, according to the meshQuantization export option.
+ * The quantized positions are dequantized with the transformation of a child node, inserted between the node and its mesh.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export class KHR_mesh_quantization implements IGLTFExporterExtensionV2 {
+    /** Name of this extension */
+    public readonly name = NAME;
+
+    /** Defines whether this extension is enabled */
+    public enabled: boolean;
+
+    /** KHR_mesh_quantization is required, as the quantized data types are not valid in core glTF */
+    public required = true;
+
+    private _exporter: GLTFExporter;
+
+    private _options: Required<IMeshQuantizationOptions>;
+
+    private _processedAccessors = new Set<IAccessor>();
+
+    private _wasUsed = false;
+
+    /** @internal */
+    public get wasUsed() {
+        return this._wasUsed;
+    }
+
+    /** @internal */
+    constructor(exporter: GLTFExporter) {
+        this._exporter = exporter;
+
+        const meshQuantization = exporter.options.meshQuantization;
+        this._options = { ...DefaultOptions, ...(typeof meshQuantization === "object" ? meshQuantization : {}) };
+        this.enabled = !!meshQuantization;
+
+        if (this.enabled && exporter.options.meshCompressionMethod === "Draco") {
+            Logger.Warn(`${NAME}: mesh quantization is not compatible with Draco compression and is ignored`);
+            this.enabled = false;
+        }
+    }
+
+    /** @internal */
+    public dispose() {
+        this._processedAccessors.clear();
+    }
+
+    /** @internal */
+    public async preGenerateBinaryAsync(bufferManager: BufferManager): Promise<void> {
+        if (!this.enabled) {
+            return;
+        }
+
+        const accessors = this._exporter._accessors;
+        const options = this._options;
+
+        for (const mesh of this._exporter._meshes) {
+            for (const primitive of mesh.primitives) {
+                for (const [attribute, accessorIndex] of Object.entries(primitive.attributes)) {
+                    const accessor = accessors[accessorIndex];
+                    if (this._processedAccessors.has(accessor) || accessor.componentType !== AccessorComponentType.FLOAT) {
+                        continue;
+                    }
+                    this._processedAccessors.add(accessor);
+
+                    if ((attribute === "NORMAL" || attribute === "TANGENT") && options.normalBits > 0) {
+                        this._quantizeNormalizedAccessor(accessor, bufferManager, options.normalBits <= 8 ? AccessorComponentType.BYTE : AccessorComponentType.SHORT);
+                    } else if (attribute.startsWith("TEXCOORD_") && options.texCoordBits > 0) {
+                        this._quantizeNormalizedAccessor(
+                            accessor,
+                            bufferManager,
+                            options.texCoordBits <= 8 ? AccessorComponentType.UNSIGNED_BYTE : AccessorComponentType.UNSIGNED_SHORT
+                        );
+                    } else if (attribute.startsWith("WEIGHTS_") && options.quantizeWeights) {
+                        this._quantizeWeightsAccessor(accessor, bufferManager);
+                    }
+                }
+            }
+        }
+
+        if (options.positionBits > 0) {
+            this._quantizePositions(bufferManager, Math.min(options.positionBits, 16));
+        }
+    }
+
+    private _quantizeNormalizedAccessor(accessor: IAccessor, bufferManager: BufferManager, componentType: AccessorComponentType): void {
+        const elements = ReadAccessor(accessor, bufferManager);
+        const isSigned = componentType === AccessorComponentType.BYTE || componentType === AccessorComponentType.SHORT;
+        const maxValue = (1 << (GetTypeByteLength(componentType) * 8 - (isSigned ? 1 : 0))) - 1;
+        const minValue = isSigned ? -1 : 0;
+
+        for (const element of elements) {
+            for (const value of element) {
+                // Values out of range (texture coordinates outside of [0, 1] for eg.) can't be stored as normalized integers
+                if (value < minValue || value > 1) {
+                    return;
+                }
+            }
+        }
+
+        for (const element of elements) {
+            for (let i = 0; i < element.length; i++) {
+                element[i] = Math.round(element[i] * maxValue);
+            }
+        }
+
+        WriteAccessor(accessor, bufferManager, elements, componentType, true);
+        this._wasUsed = true;
+    }
+
+    private _quantizeWeightsAccessor(accessor: IAccessor, bufferManager: BufferManager): void {
+        const elements = ReadAccessor(accessor, bufferManager);
+
+        for (const element of elements) {
+            const sum = element.reduce((sum, value) => sum + value, 0);
+            let largest = 0;
+            let quantizedSum = 0;
+            for (let i = 0; i < element.length; i++) {
+                element[i] = Math.round(Math.min(Math.max(element[i], 0), 1) * 255);
+                quantizedSum += element[i];
+                if (element[i] > element[largest]) {
+                    largest = i;
+                }
+            }
+
+            // Keep the sum of the weights of the vertex unchanged by adjusting the largest weight
+            if (quantizedSum > 0) {
+                element[largest] = Math.min(Math.max(element[largest] + Math.round(sum * 255) - quantizedSum, 0), 255);
+            }
+        }
+
+        WriteAccessor(accessor, bufferManager, elements, AccessorComponentType.UNSIGNED_BYTE, true);
+        this._wasUsed = true;
+    }
+
+    private _quantizePositions(bufferManager: BufferManager, bits: number): void {
+        const meshes = this._exporter._meshes;
+        const nodes = this._exporter._nodes;
+        const accessors = this._exporter._accessors;
+
+        // Meshes whose positions can't be dequantized by a node transformation (skins and instances ignore or reorder the node transformation)
+        const excludedMeshes = new Set<number>();
+        const meshNodes = new Map<number, INode[]>();
+        for (const node of nodes) {
+            if (node.mesh === undefined) {
+                continue;
+            }
+            if (node.skin !== undefined || node.extensions?.["EXT_mesh_gpu_instancing"]) {
+                excludedMeshes.add(node.mesh);
+            }
+            const list = meshNodes.get(node.mesh) ?? [];
+            list.push(node);
+            meshNodes.set(node.mesh, list);
+        }
+
+        // Meshes sharing position accessors must share the same dequantization transformation: group them
+        const groupRoots = meshes.map((_, meshIndex) => meshIndex);
+        const findRoot = (meshIndex: number): number => {
+            while (groupRoots[meshIndex] !== meshIndex) {
+                meshIndex = groupRoots[meshIndex] = groupRoots[groupRoots[meshIndex]];
+            }
+            return meshIndex;
+        };
+        const accessorMeshes = new Map<IAccessor, number>();
+        for (let meshIndex = 0; meshIndex < meshes.length; meshIndex++) {
+            for (const primitive of meshes[meshIndex].primitives) {
+                if (primitive.targets || primitive.attributes["POSITION"] === undefined) {
+                    excludedMeshes.add(meshIndex);
+                    continue;
+                }
+                const accessor = accessors[primitive.attributes["POSITION"]];
+                const otherMeshIndex = accessorMeshes.get(accessor);
+                if (otherMeshIndex === undefined) {
+                    accessorMeshes.set(accessor, meshIndex);
+                } else {
+                    groupRoots[findRoot(meshIndex)] = findRoot(otherMeshIndex);
+                }
+            }
+        }
+
+        const groups = new Map<number, number[]>();
+        for (let meshIndex = 0; meshIndex < meshes.length; meshIndex++) {
+            const root = findRoot(meshIndex);
+            const group = groups.get(root) ?? [];
+            group.push(meshIndex);
+            groups.set(root, group);
+        }
+
+        const maxValue = (1 << bits) - 1;
+        const componentType = bits <= 8 ? AccessorComponentType.UNSIGNED_BYTE : AccessorComponentType.UNSIGNED_SHORT;
+
+        for (const group of groups.values()) {
+            if (group.some((meshIndex) => excludedMeshes.has(meshIndex))) {
+                continue;
+            }
+
+            const groupAccessors = new Set<IAccessor>();
+            for (const meshIndex of group) {
+                for (const primitive of meshes[meshIndex].primitives) {
+                    groupAccessors.add(accessors[primitive.attributes["POSITION"]]);
+                }
+            }
+            if (
+                groupAccessors.size === 0 ||
+                Array.from(groupAccessors).some((accessor) => accessor.componentType !== AccessorComponentType.FLOAT || !accessor.min || !accessor.max)
+            ) {
+                continue;
+            }
+
+            // Uniform scale, so that the normals are not modified by the dequantization transformation
+            const min = [Infinity, Infinity, Infinity];
+            const max = [-Infinity, -Infinity, -Infinity];
+            for (const accessor of groupAccessors) {
+                for (let i = 0; i < 3; i++) {
+                    min[i] = Math.min(min[i], accessor.min![i]);
+                    max[i] = Math.max(max[i], accessor.max![i]);
+                }
+            }
+            const range = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+            const scale = range / maxValue;
+
+            for (const accessor of groupAccessors) {
+                const elements = ReadAccessor(accessor, bufferManager);
+                for (const element of elements) {
+                    for (let i = 0; i < 3; i++) {
+                        element[i] = Math.min(Math.max(Math.round((element[i] - min[i]) / scale), 0), maxValue);
+                    }
+                }
+                accessor.min = accessor.min!.map((value, i) => Math.round((value - min[i]) / scale));
+                accessor.max = accessor.max!.map((value, i) => Math.round((value - min[i]) / scale));
+                WriteAccessor(accessor, bufferManager, elements, componentType, false);
+            }
+
+            // Insert the dequantization transformation between the nodes and the meshes
+            for (const meshIndex of group) {
+                for (const node of meshNodes.get(meshIndex) ?? []) {
+                    const dequantizationNode: INode = {
+                        mesh: meshIndex,
+                        translation: min,
+                        scale: [scale, scale, scale],
+                    };
+                    delete node.mesh;
+                    nodes.push(dequantizationNode);
+                    node.children = node.children ?? [];
+                    node.children.push(nodes.length - 1);
+                }
+            }
+
+            this._wasUsed = true;
+        }
+    }
+}
+
+GLTFExporter.RegisterExtension(NAME, (exporter) => new KHR_mesh_quantization(exporter));
@@ -0,0 +1,214 @@
+import type { INode, IMSFTLOD } from "babylonjs-gltf2interface";
+import type { IGLTFExporterExtensionV2 } from "../glTFExporterExtension";
+import { GLTFExporter } from "../glTFExporter";
+import type { Nullable } from "core/types";
+import type { Node } from "core/node";
+import { Camera } from "core/Cameras/camera";
+import type { AbstractMesh } from "core/Meshes/abstractMesh";
+import { Mesh } from "core/Meshes/mesh";
+import { InstancedMesh } from "core/Meshes/instancedMesh";
+import { Logger } from "core/Misc/logger";
+
+const NAME = "MSFT_lod";
+
+/**
+ * Name of the node extras holding the screen coverage of the LODs, as defined by the MSFT_lod specification
+ */
+const SCREEN_COVERAGE = "MSFT_screencoverage";
+
+/**
+ * Vertical field of view used to compute the screen coverage when the scene has no perspective camera (default field of view of the cameras)
+ */
+const DEFAULT_FOV = 0.8;
+
+interface ILODNode {
+    node: INode;
+    babylonMesh: AbstractMesh;
+    masterMesh: Mesh;
+}
+
+/**
+ * Computes the fraction of the screen covered by a bounding sphere, the same way Mesh.getLOD does when useLODScreenCoverage is set
+ * @param radius radius of the bounding sphere in world space
+ * @param distance distance between the camera and the center of the bounding sphere
+ * @param screenArea area of the screen at a distance of 1 from the camera
+ * @returns the screen coverage, between 0 and 1
+ */
+function ComputeScreenCoverage(radius: number, distance: number, screenArea: number): number {
+    if (distance <= 0) {
+        return 1;
+    }
+    return Math.min((Math.PI * radius * radius) / (distance * distance * screenArea), 1);
+}
+
+/**
+ * [Specification](https://github.com/KhronosGroup/glTF/blob/main/extensions/2.0/Vendor/MSFT_lod/README.md)
+ *
+ * The LOD levels of the meshes (see Mesh.addLODLevel) are exported as LOD nodes, which are not part of the node hierarchy.
+ * The screen coverage of each LOD is written in the MSFT_screencoverage extras of the node. When the LOD levels are defined by distances,
+ * the screen coverage is computed from the bounding sphere of the mesh and the active camera of the scene.
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export class MSFT_lod implements IGLTFExporterExtensionV2 {
+    /** Name of this extension */
+    public readonly name = NAME;
+
+    /** Defines whether this extension is enabled */
+    public enabled = true;
+
+    /** Defines whether this extension is required */
+    public required = false;
+
+    private _exporter: GLTFExporter;
+
+    private _lodNodes: ILODNode[] = [];
+
+    private _lodMeshIndices = new Map<Mesh, number>();
+
+    private _wasUsed = false;
+
+    /** @internal */
+    constructor(exporter: GLTFExporter) {
+        this._exporter = exporter;
+    }
+
+    /** @internal */
+    public dispose() {
+        this._lodNodes.length = 0;
+        this._lodMeshIndices.clear();
+    }
+
+    /** @internal */
+    public get wasUsed() {
+        return this._wasUsed;
+    }
+
+    /**
+     * After node is exported
+     * @param context the GLTF context when loading the asset
+     * @param node the node exported
+     * @param babylonNode the corresponding babylon node
+     * @returns nullable promise, resolves with the node
+     */
+    public async postExportNodeAsync(context: string, node: Nullable<INode>, babylonNode: Node): Promise<Nullable<INode>> {
+        if (!node || node.mesh === undefined) {
+            return node;
+        }
+
+        // A LOD level is exported as a LOD node of its master mesh, not as a node of the hierarchy
+        if (babylonNode instanceof Mesh && babylonNode._masterMesh instanceof Mesh && this._exporter.options.shouldExportNode(babylonNode._masterMesh)) {
+            this._lodMeshIndices.set(babylonNode, node.mesh);
+            this._exporter._nodesExcludedByExtensions.add(babylonNode);
+            if (babylonNode.getChildren().length) {
+                // The exporter attaches the children of a node which is not exported to the parent of the node
+                Logger.Warn(`${NAME}: the children of the LOD level '${babylonNode.name}' are exported as children of its parent, without its transformation`);
+            }
+            return null;
+        }
+
+        const masterMesh = babylonNode instanceof InstancedMesh ? babylonNode.sourceMesh : babylonNode;
+        if (masterMesh instanceof Mesh && masterMesh.hasLODLevels) {
+            this._lodNodes.push({ node, babylonMesh: babylonNode as AbstractMesh, masterMesh });
+        }
+
+        return node;
+    }
+
+    /** @internal */
+    public async preGenerateBinaryAsync(): Promise<void> {
+        // The LOD nodes are created once all the nodes are exported, as the LOD levels may come after their master mesh in the hierarchy.
+        // This also lets the other extensions (e.g. KHR_mesh_quantization) process the LOD nodes like any other node.
+        for (const lodNode of this._lodNodes) {
+            this._exportLODs(lodNode);
+        }
+    }
+
+    private _exportLODs({ node, babylonMesh, masterMesh }: ILODNode): void {
+        const nodes = this._exporter._nodes;
+
+        // Mesh.getLOD picks the level with the largest distance (or the smallest screen coverage) that has been passed, the master mesh being used before the first level
+        const useScreenCoverage = masterMesh.useLODScreenCoverage;
+        const levels = masterMesh
+            .getLODLevels()
+            .slice()
+            .sort((a, b) => (useScreenCoverage ? b.distanceOrScreenCoverage - a.distanceOrScreenCoverage : a.distanceOrScreenCoverage - b.distanceOrScreenCoverage));
+
+        const toScreenCoverage = useScreenCoverage ? (value: number) => value : this._getDistanceToScreenCoverage(babylonMesh);
+
+        const ids: number[] = [];
+        const screenCoverages: number[] = [];
+        for (const level of levels) {
+            // The screen coverage below which the previous LOD is not used anymore
+            screenCoverages.push(toScreenCoverage(level.distanceOrScreenCoverage));
+
+            // A level without mesh culls the mesh: the next levels are never used
+            if (!level.mesh) {
+                break;
+            }
+
+            const meshIndex = this._lodMeshIndices.get(level.mesh);
+            if (meshIndex === undefined) {
+                Logger.Warn(`${NAME}: the LOD level '${level.mesh.name}' of the mesh '${masterMesh.name}' was not exported`);
+                screenCoverages.pop();
+                continue;
+            }
+
+            // The LOD node replaces the node of the master mesh, a LOD level being rendered with the world matrix of its master mesh
+            const lodNode: INode = {
+                name: level.mesh.name,
+                mesh: meshIndex,
+            };
+            if (node.translation) {
+                lodNode.translation = node.translation;
+            }
+            if (node.rotation) {
+                lodNode.rotation = node.rotation;
+            }
+            if (node.scale) {
+                lodNode.scale = node.scale;
+            }
+            if (node.skin !== undefined && level.mesh.skeleton === masterMesh.skeleton) {
+                lodNode.skin = node.skin;
+            }
+
+            ids.push(nodes.length);
+            nodes.push(lodNode);
+        }
+
+        if (!ids.length) {
+            return;
+        }
+
+        // The last LOD is used whatever its screen coverage, unless a level without mesh culls it
+        if (screenCoverages.length === ids.length) {
+            screenCoverages.push(0);
+        }
+
+        const extension: IMSFTLOD = { ids };
+        node.extensions ||= {};
+        node.extensions[NAME] = extension;
+        node.extras = { ...node.extras, [SCREEN_COVERAGE]: screenCoverages };
+        this._wasUsed = true;
+    }
+
+    private _getDistanceToScreenCoverage(babylonMesh: AbstractMesh): (distance: number) => number {
+        const radius = babylonMesh.getBoundingInfo().boundingSphere.radiusWorld;
+
+        // Area of the screen at a distance of 1 from the camera, using the default field of view if there is no perspective camera
+        const scene = this._exporter._babylonScene;
+        const camera = scene.activeCamera;
+        let screenArea: number;
+        if (camera && camera.mode === Camera.PERSPECTIVE_CAMERA) {
+            screenArea = camera.screenArea / (camera.minZ * camera.minZ);
+        } else {
+            const engine = scene.getEngine();
+            const height = 2 * Math.tan(DEFAULT_FOV / 2);
+            screenArea = (height * height * engine.getRenderWidth()) / engine.getRenderHeight();
+        }
+
+        return (distance: number) => ComputeScreenCoverage(radius, distance, screenArea);
+    }
+}
+
+// Registered before KHR_mesh_quantization so that the LOD nodes are dequantized like the other nodes
+GLTFExporter.RegisterExtension(NAME, (exporter) => new MSFT_lod(exporter), 90);
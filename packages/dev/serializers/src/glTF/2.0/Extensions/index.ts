@@ -1,5 +1,8 @@
 export * from "./EXT_mesh_gpu_instancing";
 export * from "./KHR_draco_mesh_compression";
+export * from "./KHR_mesh_quantization";
+export * from "./EXT_meshopt_compression";
+export * from "./MSFT_lod";
 export * from "./KHR_lights_punctual";
 export * from "./EXT_lights_area";
 export * from "./KHR_materials_anisotropy";
@@ -15,6 +18,7 @@ export * from "./KHR_materials_fuzz";
 export * from "./KHR_materials_specular";
 export * from "./KHR_materials_transmission";
 export * from "./KHR_materials_unlit";
+export * from "./KHR_materials_variants";
 export * from "./KHR_materials_volume";
 export * from "./KHR_materials_diffuse_roughness";
 export * from "./KHR_texture_transform";
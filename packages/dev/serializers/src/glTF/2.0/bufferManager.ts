@@ -162,6 +162,37 @@ export class BufferManager {
         });
     }
 
+    /**
+     * Assigns another bufferView to an accessor. The previous bufferView is removed if it is not referenced anymore
+     * @param accessor the accessor
+     * @param bufferView the new bufferView of the accessor
+     */
+    public setAccessorBufferView(accessor: IAccessor, bufferView: IBufferView): void {
+        const previousBufferView = this.getBufferView(accessor);
+        const properties = this.getPropertiesWithBufferView(previousBufferView);
+        const index = properties.indexOf(accessor);
+        if (index !== -1) {
+            properties.splice(index, 1);
+        }
+        if (properties.length === 0) {
+            this._bufferViewToData.delete(previousBufferView);
+            this._bufferViewToProperties.delete(previousBufferView);
+        }
+
+        this.setBufferView(accessor, bufferView);
+        this._accessorToBufferView.set(accessor, bufferView);
+    }
+
+    /**
+     * Replaces the data of a bufferView
+     * @param bufferView the bufferView
+     * @param data the new data
+     */
+    public setData(bufferView: IBufferView, data: TypedArrayForglTF): void {
+        this._verifyBufferView(bufferView);
+        this._bufferViewToData.set(bufferView, data);
+    }
+
     public getBufferView(accessor: IAccessor): IBufferView {
         const bufferView = this._accessorToBufferView.get(accessor);
         this._verifyBufferView(bufferView);
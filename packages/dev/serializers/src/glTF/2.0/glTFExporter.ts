@@ -274,6 +274,9 @@ export class GLTFExporter {
     // A material in this set requires UVs
     public readonly _materialNeedsUVsSet = new Set<Material>();
 
+    // A node in this set is excluded from the node hierarchy on purpose by an extension (e.g. the LOD levels exported by MSFT_lod)
+    public readonly _nodesExcludedByExtensions = new Set<Node>();
+
     private static readonly _ExtensionNames = new Array<string>();
     private static readonly _ExtensionFactories: { [name: string]: (exporter: GLTFExporter) => IGLTFExporterExtensionV2 } = {};
     private static readonly _ExtensionOrders: { [name: string]: number } = {};
@@ -435,6 +438,7 @@ export class GLTFExporter {
             removeNoopRootNodes: true,
             includeCoordinateSystemConversionNodes: false,
             meshCompressionMethod: "None",
+            meshQuantization: false,
             ...options,
         };
 
@@ -496,7 +500,8 @@ export class GLTFExporter {
         const buffer: IBuffer = { byteLength: bufferByteLength };
 
         if (buffer.byteLength) {
-            this._glTF.buffers = [buffer];
+            // Extensions may have added buffers (e.g. EXT_meshopt_compression fallback buffer), the binary buffer always comes first
+            this._glTF.buffers = [buffer, ...(this._glTF.buffers ?? [])];
         }
         if (this._nodes && this._nodes.length) {
             this._glTF.nodes = this._nodes;
@@ -1322,7 +1327,9 @@ export class GLTFExporter {
         // Apply extensions to the node. If this resolves to null, it means we should skip exporting this node
         const processedNode = await this._extensionsPostExportNodeAsync("exportNodeAsync", node, babylonNode, this._nodeMap, state.convertToRightHanded);
         if (!processedNode) {
-            Logger.Warn(`Not exporting node ${babylonNode.name}`);
+            if (!this._nodesExcludedByExtensions.has(babylonNode)) {
+                Logger.Warn(`Not exporting node ${babylonNode.name}`);
+            }
             return null;
         }
 
@@ -1447,23 +1454,43 @@ export class GLTFExporter {
         if (materialIndex === undefined) {
             const hasUVs = vertexBuffers && Object.keys(vertexBuffers).some((kind) => kind.startsWith("uv"));
             babylonMaterial = babylonMaterial instanceof MultiMaterial ? babylonMaterial.subMaterials[subMesh.materialIndex]! : babylonMaterial;
-            if (babylonMaterial instanceof PBRBaseMaterial) {
-                materialIndex = await this._materialExporter.exportPBRMaterialAsync(babylonMaterial, hasUVs);
-            } else if (babylonMaterial instanceof StandardMaterial) {
-                materialIndex = await this._materialExporter.exportStandardMaterialAsync(babylonMaterial, hasUVs);
-            } else if (babylonMaterial instanceof OpenPBRMaterial) {
-                materialIndex = await this._materialExporter.exportOpenPBRMaterialAsync(babylonMaterial, hasUVs);
-            } else {
-                Logger.Warn(`Unsupported material '${babylonMaterial.name}' with type ${babylonMaterial.getClassName()}`);
+            materialIndex = await this._getOrExportMaterialAsync(babylonMaterial, hasUVs);
+            if (materialIndex === undefined) {
                 return;
             }
-
-            this._materialMap.set(babylonMaterial, materialIndex);
         }
 
         primitive.material = materialIndex;
     }
 
+    /**
+     * Gets the index of the glTF material of a Babylon material, exporting the material if needed
+     * @param babylonMaterial The Babylon material (must not be a multi material)
+     * @param hasUVs Whether the mesh using the material has texture coordinates
+     * @returns The index of the glTF material, or undefined if the material type is not supported
+     * @internal
+     */
+    public async _getOrExportMaterialAsync(babylonMaterial: Material, hasUVs: boolean): Promise<number | undefined> {
+        let materialIndex = this._materialMap.get(babylonMaterial);
+        if (materialIndex !== undefined) {
+            return materialIndex;
+        }
+
+        if (babylonMaterial instanceof PBRBaseMaterial) {
+            materialIndex = await this._materialExporter.exportPBRMaterialAsync(babylonMaterial, hasUVs);
+        } else if (babylonMaterial instanceof StandardMaterial) {
+            materialIndex = await this._materialExporter.exportStandardMaterialAsync(babylonMaterial, hasUVs);
+        } else if (babylonMaterial instanceof OpenPBRMaterial) {
+            materialIndex = await this._materialExporter.exportOpenPBRMaterialAsync(babylonMaterial, hasUVs);
+        } else {
+            Logger.Warn(`Unsupported material '${babylonMaterial.name}' with type ${babylonMaterial.getClassName()}`);
+            return undefined;
+        }
+
+        this._materialMap.set(babylonMaterial, materialIndex);
+        return materialIndex;
+    }
+
     private async _exportMeshAsync(babylonMesh: Mesh, state: ExporterState): Promise<number> {
         let meshIndex = state.getMesh(babylonMesh);
         if (meshIndex !== undefined) {
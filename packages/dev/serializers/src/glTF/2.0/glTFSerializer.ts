@@ -7,7 +7,36 @@ import { GLTFExporter } from "./glTFExporter";
 /**
  * Mesh compression methods.
  */
-export type MeshCompressionMethod = "None" | "Draco";
+export type MeshCompressionMethod = "None" | "Draco" | "Meshopt";
+
+/**
+ * Options used to quantize the vertex data with the KHR_mesh_quantization extension
+ */
+export interface IMeshQuantizationOptions {
+    /**
+     * Number of bits (between 1 and 16) used to quantize the positions. Defaults to 14.
+     * Set to 0 to keep floating point positions.
+     * Positions are not quantized for skinned meshes, meshes with morph targets and meshes with thin instances.
+     */
+    positionBits?: number;
+
+    /**
+     * Number of bits used to store the normals and tangents: 8 or 16. Defaults to 8.
+     * Set to 0 to keep floating point normals and tangents.
+     */
+    normalBits?: number;
+
+    /**
+     * Number of bits used to store the texture coordinates: 8 or 16. Defaults to 16.
+     * Set to 0 to keep floating point texture coordinates. Texture coordinates outside of the [0, 1] range are always kept as floating point values.
+     */
+    texCoordBits?: number;
+
+    /**
+     * Indicates if the skin weights are stored as 8 bits values. Defaults to true.
+     */
+    quantizeWeights?: boolean;
+}
 
 /**
  * Holds a collection of exporter options and parameters
@@ -63,8 +92,16 @@ export interface IExportOptions {
 
     /**
      * Indicates what compression method to apply to mesh data.
+     * "Meshopt" compresses the buffer views with the EXT_meshopt_compression extension, and is best combined with meshQuantization.
+     * It requires the encoder of `MeshoptCompression.Configuration` to be configured.
      */
     meshCompressionMethod?: MeshCompressionMethod;
+
+    /**
+     * Quantizes the vertex data with the KHR_mesh_quantization extension (not compatible with Draco compression).
+     * Set to true to use the default quantization options. Defaults to false.
+     */
+    meshQuantization?: boolean | IMeshQuantizationOptions;
 }
 
 /**
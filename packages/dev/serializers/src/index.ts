@@ -4,3 +4,6 @@ export * from "./glTF/index";
 export * from "./stl/index";
 export * from "./USDZ/index";
 export * from "./BVH/index";
+export * from "./SPLAT/index";
+export * from "./PLY/index";
+export * from "./3MF/index";
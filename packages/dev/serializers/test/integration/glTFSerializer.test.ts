@@ -692,6 +692,120 @@ describe("Babylon glTF Serializer", () => {
             expect(accessorData.componentType).toEqual(Constants.UNSIGNED_BYTE);
         });
 
+        it("uses KHR_materials_variants to export the variant materials of the meshes", async () => {
+            const assertionData = await page.evaluate(async () => {
+                const createMaterial = (name: string) => new BABYLON.StandardMaterial(name);
+                const red = createMaterial("red");
+                const blue = createMaterial("blue");
+                const green = createMaterial("green");
+                const variants = BABYLON.GLTF2.Exporter.Extensions.KHR_materials_variants;
+
+                const box = BABYLON.MeshBuilder.CreateBox("box");
+                box.material = red;
+                variants.AddVariantMaterial(box, "blue", blue);
+                variants.AddVariantMaterial(box, "green", green);
+                variants.AddVariantMaterial(box, "dark", blue);
+                // The exported material is the original one, whatever the selected variant
+                box.material = green;
+
+                const otherBox = BABYLON.MeshBuilder.CreateBox("otherBox");
+                otherBox.material = red;
+                variants.AddVariantMaterial(otherBox, "blue", blue);
+
+                const glTFData = await BABYLON.GLTF2Export.GLTFAsync(window.scene!, "test");
+                const jsonString = glTFData.files["test.gltf"] as string;
+                return JSON.parse(jsonString);
+            });
+            expect(assertionData.extensionsUsed).toContain("KHR_materials_variants");
+            expect(assertionData.extensionsRequired ?? []).not.toContain("KHR_materials_variants");
+
+            const variantNames = assertionData.extensions.KHR_materials_variants.variants.map((variant: any) => variant.name);
+            expect([...variantNames].sort()).toEqual(["blue", "dark", "green"]);
+            const getVariantIndex = (name: string) => variantNames.indexOf(name);
+            const getMaterialIndex = (name: string) => assertionData.materials.findIndex((material: any) => material.name === name);
+            const getPrimitive = (name: string) => assertionData.meshes[assertionData.nodes.find((node: any) => node.name === name).mesh].primitives[0];
+
+            const primitive = getPrimitive("box");
+            expect(primitive.material).toEqual(getMaterialIndex("red"));
+            expect(primitive.extensions.KHR_materials_variants.mappings).toEqual([
+                { material: getMaterialIndex("blue"), variants: [getVariantIndex("blue"), getVariantIndex("dark")] },
+                { material: getMaterialIndex("green"), variants: [getVariantIndex("green")] },
+            ]);
+
+            const otherPrimitive = getPrimitive("otherBox");
+            expect(otherPrimitive.material).toEqual(getMaterialIndex("red"));
+            expect(otherPrimitive.extensions.KHR_materials_variants.mappings).toEqual([{ material: getMaterialIndex("blue"), variants: [getVariantIndex("blue")] }]);
+        });
+
+        describe("MSFT_lod", () => {
+            const exportLODsAsync = async (cullLastLevel: boolean, addChildToLowLevel = false) => {
+                return await page.evaluate(
+                    async (cullLastLevel, addChildToLowLevel) => {
+                        const box = BABYLON.MeshBuilder.CreateBox("box");
+                        box.position.set(1, 2, 3);
+                        box.useLODScreenCoverage = true;
+                        const low = BABYLON.MeshBuilder.CreateBox("low", { size: 0.5 });
+                        box.addLODLevel(0.01, low);
+                        box.addLODLevel(0.1, BABYLON.MeshBuilder.CreateBox("medium", { size: 0.75 }));
+                        if (cullLastLevel) {
+                            box.addLODLevel(0.05, null);
+                        }
+                        if (addChildToLowLevel) {
+                            BABYLON.MeshBuilder.CreateSphere("child").parent = low;
+                        }
+
+                        const warnings: string[] = [];
+                        const warn = BABYLON.Logger.Warn;
+                        BABYLON.Logger.Warn = (message: string | any[]) => warnings.push(String(message));
+                        try {
+                            const glTFData = await BABYLON.GLTF2Export.GLTFAsync(window.scene!, "test");
+                            const jsonString = glTFData.files["test.gltf"] as string;
+                            return { ...JSON.parse(jsonString), warnings };
+                        } finally {
+                            BABYLON.Logger.Warn = warn;
+                        }
+                    },
+                    cullLastLevel,
+                    addChildToLowLevel
+                );
+            };
+
+            it("exports the LOD levels as LOD nodes of their master mesh, with their screen coverage", async () => {
+                const assertionData = await exportLODsAsync(false);
+                expect(assertionData.warnings).toEqual([]);
+                expect(assertionData.extensionsUsed).toContain("MSFT_lod");
+                expect(assertionData.extensionsRequired ?? []).not.toContain("MSFT_lod");
+
+                // The LOD levels are not part of the node hierarchy
+                const boxIndex = assertionData.nodes.findIndex((node: any) => node.name === "box");
+                expect(assertionData.scenes[0].nodes).toEqual([boxIndex]);
+                const boxNode = assertionData.nodes[boxIndex];
+                expect(boxNode.extras.MSFT_screencoverage).toEqual([0.1, 0.01, 0]);
+
+                const lodNodes = boxNode.extensions.MSFT_lod.ids.map((id: number) => assertionData.nodes[id]);
+                expect(lodNodes.map((node: any) => node.name)).toEqual(["medium", "low"]);
+                expect(new Set([boxNode.mesh, ...lodNodes.map((node: any) => node.mesh)]).size).toEqual(3);
+                for (const lodNode of lodNodes) {
+                    expect(lodNode.translation).toEqual(boxNode.translation);
+                    expect(assertionData.nodes.filter((node: any) => node.name === lodNode.name)).toHaveLength(1);
+                }
+            });
+
+            it("stops at the level culling the mesh", async () => {
+                const assertionData = await exportLODsAsync(true);
+                const boxNode = assertionData.nodes.find((node: any) => node.name === "box");
+                expect(boxNode.extras.MSFT_screencoverage).toEqual([0.1, 0.05]);
+                expect(boxNode.extensions.MSFT_lod.ids.map((id: number) => assertionData.nodes[id].name)).toEqual(["medium"]);
+            });
+
+            it("exports the children of a LOD level as children of its parent, with a warning", async () => {
+                const assertionData = await exportLODsAsync(false, true);
+                const childIndex = assertionData.nodes.findIndex((node: any) => node.name === "child");
+                expect(assertionData.scenes[0].nodes).toContain(childIndex);
+                expect(assertionData.warnings).toEqual(["MSFT_lod: the children of the LOD level 'low' are exported as children of its parent, without its transformation"]);
+            });
+        });
+
         describe("texture image extensions", () => {
             const testRoundtripImage = async (imageUrl: string, mimeType: string, extensionName: string) => {
                 const assertionData = await page.evaluate(async (imageUrl) => {
@@ -720,5 +834,86 @@ describe("Babylon glTF Serializer", () => {
                 await testRoundtripImage("https://assets.babylonjs.com/meshes/webp/webp_DefaultMaterial_Normal.webp", "image/webp", "EXT_texture_webp");
             });
         });
+
+        describe("mesh compression extensions", () => {
+            it("uses KHR_mesh_quantization to quantize the vertex data", async () => {
+                const assertionData = await page.evaluate(async () => {
+                    BABYLON.MeshBuilder.CreateBox("box", { size: 2 });
+
+                    const glTFData = await BABYLON.GLTF2Export.GLTFAsync(window.scene!, "test", { meshQuantization: true });
+                    const jsonString = glTFData.files["test.gltf"] as string;
+                    return JSON.parse(jsonString);
+                });
+                expect(assertionData.extensionsUsed).toContain("KHR_mesh_quantization");
+                expect(assertionData.extensionsRequired).toContain("KHR_mesh_quantization");
+                const attributes = assertionData.meshes[0].primitives[0].attributes;
+                const position = assertionData.accessors[attributes.POSITION];
+                expect(position.componentType).toEqual(Constants.UNSIGNED_SHORT);
+                expect(position.normalized).toBeUndefined();
+                expect(position.min).toEqual([0, 0, 0]);
+                expect(position.max).toEqual([16383, 16383, 16383]);
+                const normal = assertionData.accessors[attributes.NORMAL];
+                expect(normal.componentType).toEqual(Constants.BYTE);
+                expect(normal.normalized).toBe(true);
+                const texCoord = assertionData.accessors[attributes.TEXCOORD_0];
+                expect(texCoord.componentType).toEqual(Constants.UNSIGNED_SHORT);
+                expect(texCoord.normalized).toBe(true);
+
+                // The dequantization transformation is a child node holding the mesh
+                const boxNode = assertionData.nodes.find((node: any) => node.name === "box");
+                expect(boxNode.mesh).toBeUndefined();
+                expect(boxNode.children).toHaveLength(1);
+                const dequantizationNode = assertionData.nodes[boxNode.children[0]];
+                expect(dequantizationNode.mesh).toEqual(0);
+                expect(dequantizationNode.translation).toEqual([-1, -1, -1]);
+                dequantizationNode.scale.forEach((scale: number) => expect(scale).toBeCloseTo(2 / 16383, 8));
+            });
+
+            it("uses EXT_meshopt_compression to encode the buffer views with the configured encoder", async () => {
+                const assertionData = await page.evaluate(async () => {
+                    const encodedModes: string[] = [];
+                    // The encoded data is replaced by one byte per element, to check where it is written
+                    BABYLON.MeshoptCompression.Configuration.encoder = {
+                        jsModule: {
+                            ready: Promise.resolve(),
+                            encodeGltfBuffer: (_source, count, _stride, mode) => {
+                                encodedModes.push(mode);
+                                return new Uint8Array(count).fill(encodedModes.length);
+                            },
+                        },
+                    };
+                    BABYLON.MeshBuilder.CreateBox("box");
+
+                    const glTFData = await BABYLON.GLTF2Export.GLTFAsync(window.scene!, "test", { meshCompressionMethod: "Meshopt", meshQuantization: true });
+                    const jsonString = glTFData.files["test.gltf"] as string;
+                    const binary = new Uint8Array(await (glTFData.files["test.bin"] as Blob).arrayBuffer());
+                    return { glTF: JSON.parse(jsonString), binary: Array.from(binary), encodedModes };
+                });
+                const { glTF, binary, encodedModes } = assertionData;
+                expect(glTF.extensionsUsed).toEqual(expect.arrayContaining(["EXT_meshopt_compression", "KHR_mesh_quantization"]));
+                expect(glTF.extensionsRequired).toEqual(expect.arrayContaining(["EXT_meshopt_compression", "KHR_mesh_quantization"]));
+                expect(encodedModes.sort()).toEqual(["ATTRIBUTES", "ATTRIBUTES", "ATTRIBUTES", "TRIANGLES"]);
+
+                // The binary buffer is followed by the fallback buffer, which has no data
+                expect(glTF.buffers).toHaveLength(2);
+                expect(glTF.buffers[0].byteLength).toEqual(binary.length);
+                expect(glTF.buffers[1].uri).toBeUndefined();
+                expect(glTF.buffers[1].extensions.EXT_meshopt_compression).toEqual({ fallback: true });
+
+                const primitive = glTF.meshes[0].primitives[0];
+                for (const accessorIndex of [primitive.indices, ...Object.values(primitive.attributes)]) {
+                    const accessor = glTF.accessors[accessorIndex as number];
+                    const bufferView = glTF.bufferViews[accessor.bufferView];
+                    const extension = bufferView.extensions.EXT_meshopt_compression;
+                    expect(bufferView.buffer).toEqual(1);
+                    expect(extension.buffer).toEqual(0);
+                    expect(extension.count).toEqual(accessor.count);
+                    expect(extension.byteLength).toEqual(accessor.count);
+                    expect(extension.mode).toEqual(accessorIndex === primitive.indices ? "TRIANGLES" : "ATTRIBUTES");
+                    const encodedData = binary.slice(extension.byteOffset, extension.byteOffset + extension.byteLength);
+                    expect(new Set(encodedData).size).toEqual(1);
+                }
+            });
+        });
     });
 });
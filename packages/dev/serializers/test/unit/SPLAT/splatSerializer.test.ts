@@ -0,0 +1,196 @@
+import { NullEngine } from "core/Engines/nullEngine";
+import { GaussianSplattingMesh } from "core/Meshes/GaussianSplatting/gaussianSplattingMesh";
+import { Scene } from "core/scene";
+import { ParseSpz } from "loaders/SPLAT/spz";
+import { SPLATExport } from "serializers/SPLAT/splatSerializer";
+
+/**
+ * The mesh sorts its splats in a worker, which is not available in node
+ */
+class WorkerMock {
+    public onmessage: ((event: any) => void) | null = null;
+    public postMessage() {}
+    public terminate() {}
+}
+
+const SplatCount = 4;
+
+/**
+ * Creates the splats data of a few splats, with various positions, scales, colors and orientations
+ * @returns the splats data
+ */
+function CreateSplatsData(): ArrayBuffer {
+    const data = new ArrayBuffer(SplatCount * 32);
+    const floats = new Float32Array(data);
+    const bytes = new Uint8Array(data);
+    for (let i = 0; i < SplatCount; i++) {
+        floats.set([i * 0.5, -i * 0.25, 1 + i * 0.125, 0.01 * (i + 1), 0.02 * (i + 1), 0.005], i * 8);
+        bytes.set([64 * i, 255 - 64 * i, 128, 100 + 40 * i], i * 32 + 24);
+    }
+    // orientations (w, x, y, z), w being positive
+    bytes.set([255, 128, 128, 128], 28);
+    bytes.set([218, 218, 128, 128], 32 + 28);
+    bytes.set([218, 128, 38, 128], 64 + 28);
+    bytes.set([192, 192, 192, 64], 96 + 28);
+    return data;
+}
+
+/**
+ * Creates the SH coefficients of degree 1 of the splats (9 coefficients per splat, in 16 bytes)
+ * @returns the SH arrays
+ */
+function CreateShData(): Uint8Array[] {
+    const sh = new Uint8Array(SplatCount * 16);
+    for (let i = 0; i < SplatCount; i++) {
+        for (let coefficient = 0; coefficient < 9; coefficient++) {
+            sh[i * 16 + coefficient] = 20 * coefficient + i;
+        }
+    }
+    return [sh];
+}
+
+/**
+ * Decompresses gzip data
+ * @param data the compressed data
+ * @returns the decompressed data
+ */
+async function GunzipAsync(data: ArrayBuffer): Promise<ArrayBuffer> {
+    const decompressedStream = new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"));
+    return await new Response(decompressedStream).arrayBuffer();
+}
+
+describe("SPLATExport", () => {
+    let engine: NullEngine;
+    let scene: Scene;
+    let worker: any;
+
+    beforeAll(() => {
+        worker = (globalThis as any).Worker;
+        (globalThis as any).Worker = WorkerMock;
+    });
+
+    afterAll(() => {
+        (globalThis as any).Worker = worker;
+    });
+
+    beforeEach(() => {
+        engine = new NullEngine();
+        scene = new Scene(engine);
+    });
+
+    afterEach(() => {
+        scene.dispose();
+        engine.dispose();
+    });
+
+    const createMesh = (sh?: Uint8Array[]) => {
+        const mesh = new GaussianSplattingMesh("splats", null, scene, true);
+        mesh.updateData(CreateSplatsData(), sh);
+        return mesh;
+    };
+
+    const expectSplatsClose = (actual: ArrayBuffer, expected: ArrayBuffer, positionPrecision: number, scaleRatio: number, colorTolerance: number, rotationTolerance: number) => {
+        const actualFloats = new Float32Array(actual);
+        const actualBytes = new Uint8Array(actual);
+        const expectedFloats = new Float32Array(expected);
+        const expectedBytes = new Uint8Array(expected);
+        expect(actual.byteLength).toBe(expected.byteLength);
+        for (let i = 0; i < actual.byteLength / 32; i++) {
+            for (let axis = 0; axis < 3; axis++) {
+                expect(actualFloats[i * 8 + axis]).toBeCloseTo(expectedFloats[i * 8 + axis], positionPrecision);
+                const ratio = actualFloats[i * 8 + 3 + axis] / expectedFloats[i * 8 + 3 + axis];
+                expect(ratio).toBeGreaterThan(1 / scaleRatio);
+                expect(ratio).toBeLessThan(scaleRatio);
+            }
+            for (let component = 0; component < 4; component++) {
+                expect(Math.abs(actualBytes[i * 32 + 24 + component] - expectedBytes[i * 32 + 24 + component])).toBeLessThanOrEqual(colorTolerance);
+                expect(Math.abs(actualBytes[i * 32 + 28 + component] - expectedBytes[i * 32 + 28 + component])).toBeLessThanOrEqual(rotationTolerance);
+            }
+        }
+    };
+
+    it("exports the splats data to the .splat format", () => {
+        const mesh = createMesh();
+
+        const splat = SPLATExport.ExportSPLAT(mesh);
+
+        expect(new Uint8Array(splat)).toEqual(new Uint8Array(CreateSplatsData()));
+        expect(splat).not.toBe(mesh.splatsData);
+    });
+
+    it("throws when the mesh doesn't keep its data in RAM", () => {
+        const mesh = new GaussianSplattingMesh("splats", null, scene);
+        mesh.updateData(CreateSplatsData());
+
+        expect(() => SPLATExport.ExportSPLAT(mesh)).toThrow("The splats data of the mesh splats is not available");
+    });
+
+    it("exports the splats and their SH coefficients to the .ply format", async () => {
+        const mesh = createMesh(CreateShData());
+        // The view direction factor of the meshes loaded from .ply files, so that the SH coefficients are exported as is
+        mesh.viewDirectionFactor.set(-1, -1, 1);
+
+        const ply = SPLATExport.ExportPLY(mesh);
+
+        const header = new TextDecoder().decode(ply).split("end_header")[0];
+        expect(header).toContain(`element vertex ${SplatCount}`);
+        expect(header).toContain("property float f_rest_8");
+        expect(header).not.toContain("property float f_rest_9");
+
+        const { buffer, sh } = await GaussianSplattingMesh.ConvertPLYWithSHToSplatAsync(ply);
+        expectSplatsClose(buffer, CreateSplatsData(), 5, 1.0001, 1, 1);
+        const expectedSh = CreateShData()[0];
+        for (let i = 0; i < SplatCount; i++) {
+            for (let coefficient = 0; coefficient < 9; coefficient++) {
+                expect(Math.abs(sh![0][i * 16 + coefficient] - expectedSh[i * 16 + coefficient])).toBeLessThanOrEqual(1);
+            }
+        }
+    });
+
+    it("negates the SH coefficients which are odd functions of the flipped axes of the view direction", async () => {
+        const mesh = createMesh(CreateShData());
+
+        const { sh } = await GaussianSplattingMesh.ConvertPLYWithSHToSplatAsync(SPLATExport.ExportPLY(mesh));
+
+        // The view direction factors of the mesh (1, 1, -1) and of the .ply files (-1, -1, 1) flip the 3 axes, which negates the coefficients of degree 1
+        const expectedSh = CreateShData()[0];
+        for (let coefficient = 0; coefficient < 9; coefficient++) {
+            expect(Math.abs(sh![0][coefficient] - (255 - expectedSh[coefficient]))).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it("exports the splats and their SH coefficients to the .spz format", async () => {
+        const mesh = createMesh(CreateShData());
+
+        const spz = await GunzipAsync(await SPLATExport.ExportSPZAsync(mesh));
+
+        const parsed = await ParseSpz(spz, scene, {});
+        // The positions are stored with 12 fractional bits, the scales with 4 fractional bits of their logarithm, and the w component of the orientations is not stored
+        expectSplatsClose(parsed.data, CreateSplatsData(), 3, Math.exp(1 / 32) + 1e-6, 2, 2);
+        const expectedSh = CreateShData()[0];
+        for (let i = 0; i < SplatCount; i++) {
+            for (let coefficient = 0; coefficient < 9; coefficient++) {
+                expect(parsed.sh![0][i * 16 + coefficient]).toBe(expectedSh[i * 16 + coefficient]);
+            }
+        }
+    });
+
+    it("exports the chunks of the splats to .spz files listed by a manifest", async () => {
+        const mesh = createMesh();
+
+        const files = await SPLATExport.ExportSPZChunksAsync(mesh, { maxSplatsPerChunk: 2, lodCount: 2, fileNamePrefix: "splats" });
+
+        const manifest = JSON.parse(files["manifest.json"] as string);
+        expect(manifest.chunks.length).toBe(2);
+        let splatCount = 0;
+        for (let chunkIndex = 0; chunkIndex < manifest.chunks.length; chunkIndex++) {
+            const chunk = manifest.chunks[chunkIndex];
+            expect(chunk.min.length).toBe(3);
+            expect(chunk.max.length).toBe(3);
+            expect(chunk.lods).toEqual([`splats_${chunkIndex}_0.spz`, `splats_${chunkIndex}_1.spz`]);
+            const parsed = await ParseSpz(await GunzipAsync(files[chunk.lods[0]] as ArrayBuffer), scene, {});
+            splatCount += parsed.data.byteLength / 32;
+        }
+        expect(splatCount).toBe(SplatCount);
+    });
+});
@@ -7,3 +7,4 @@ export * from "./legacy-glTF1";
 export * from "./legacy-glTF2";
 export * from "./legacy-objFileLoader";
 export * from "./legacy-stlFileLoader";
+export * from "./legacy-threeMFFileLoader";
@@ -0,0 +1,15 @@
+/* eslint-disable @typescript-eslint/no-restricted-imports */
+import * as Serializers from "serializers/PLY/index";
+
+/**
+ * This is the entry point for the UMD module.
+ * The entry point for a future ESM package should be index.ts
+ */
+const globalObject = typeof global !== "undefined" ? global : typeof window !== "undefined" ? window : undefined;
+if (typeof globalObject !== "undefined") {
+    for (const serializer in Serializers) {
+        (<any>globalObject).BABYLON[serializer] = (<any>Serializers)[serializer];
+    }
+}
+
+export * from "serializers/PLY/index";
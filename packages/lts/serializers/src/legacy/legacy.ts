@@ -4,5 +4,8 @@ import "serializers/index";
 export * from "./legacy-bvhSerializer";
 export * from "./legacy-glTF2Serializer";
 export * from "./legacy-objSerializer";
+export * from "./legacy-plySerializer";
+export * from "./legacy-splatSerializer";
 export * from "./legacy-stlSerializer";
+export * from "./legacy-threeMFSerializer";
 export * from "./legacy-usdzSerializer";
@@ -17,6 +17,7 @@ import { NodeRenderGraphCopyTextureBlock } from "core/FrameGraph/Node/Blocks/Tex
 import { NodeRenderGraphGenerateMipmapsBlock } from "core/FrameGraph/Node/Blocks/Textures/generateMipmapsBlock";
 import { NodeRenderGraphObjectRendererBlock } from "core/FrameGraph/Node/Blocks/Rendering/objectRendererBlock";
 import { NodeRenderGraphGeometryRendererBlock } from "core/FrameGraph/Node/Blocks/Rendering/geometryRendererBlock";
+import { NodeRenderGraphDeferredLightingBlock } from "core/FrameGraph/Node/Blocks/Rendering/deferredLightingBlock";
 import { NodeRenderGraphCullObjectsBlock } from "core/FrameGraph/Node/Blocks/cullObjectsBlock";
 import { NodeRenderGraphGUIBlock } from "gui/2D/FrameGraph/renderGraphGUIBlock";
 import { NodeRenderGraphTAAPostProcessBlock } from "core/FrameGraph/Node/Blocks/PostProcesses/taaPostProcessBlock";
@@ -92,6 +93,12 @@ export class BlockTools {
             case "ShadowLightBlock": {
                 return new NodeRenderGraphInputBlock("Shadow light", frameGraph, scene, NodeRenderGraphBlockConnectionPointTypes.ShadowLight);
             }
+            case "ClusteredLightContainerBlock": {
+                return new NodeRenderGraphInputBlock("Clustered light container", frameGraph, scene, NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer);
+            }
+            case "StorageBufferBlock": {
+                return new NodeRenderGraphInputBlock("Storage buffer", frameGraph, scene, NodeRenderGraphBlockConnectionPointTypes.StorageBuffer);
+            }
             case "ClearBlock": {
                 return new NodeRenderGraphClearBlock("Clear", frameGraph, scene);
             }
@@ -125,6 +132,9 @@ export class BlockTools {
             case "GeometryRendererBlock": {
                 return new NodeRenderGraphGeometryRendererBlock("Geometry renderer", frameGraph, scene);
             }
+            case "DeferredLightingBlock": {
+                return new NodeRenderGraphDeferredLightingBlock("Deferred lighting", frameGraph, scene);
+            }
             case "TAABlock": {
                 return new NodeRenderGraphTAAPostProcessBlock("Temporal Anti-Aliasing", frameGraph, scene);
             }
@@ -269,6 +279,12 @@ export class BlockTools {
             case NodeRenderGraphBlockConnectionPointTypes.ShadowLight:
                 color = "#e08e4b";
                 break;
+            case NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer:
+                color = "#e0c14b";
+                break;
+            case NodeRenderGraphBlockConnectionPointTypes.StorageBuffer:
+                color = "#4bb3e0";
+                break;
             case NodeRenderGraphBlockConnectionPointTypes.BasedOnInput:
                 color = "#f28e0a"; // Used by the teleport blocks
                 break;
@@ -327,6 +343,10 @@ export class BlockTools {
                 return NodeRenderGraphBlockConnectionPointTypes.ShadowGenerator;
             case "ShadowLight":
                 return NodeRenderGraphBlockConnectionPointTypes.ShadowLight;
+            case "ClusteredLightContainer":
+                return NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer;
+            case "StorageBuffer":
+                return NodeRenderGraphBlockConnectionPointTypes.StorageBuffer;
         }
 
         return NodeRenderGraphBlockConnectionPointTypes.AutoDetect;
@@ -374,6 +394,10 @@ export class BlockTools {
                 return "ShadowGenerator";
             case NodeRenderGraphBlockConnectionPointTypes.ShadowLight:
                 return "ShadowLight";
+            case NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer:
+                return "ClusteredLightContainer";
+            case NodeRenderGraphBlockConnectionPointTypes.StorageBuffer:
+                return "StorageBuffer";
         }
 
         return "";
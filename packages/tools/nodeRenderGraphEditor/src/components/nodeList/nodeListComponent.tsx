@@ -50,6 +50,9 @@ export class NodeListComponent extends React.Component<INodeListComponentProps,
         CameraBlock: "Camera",
         ResourceContainerBlock: "Container of resources (textures, buffers, shadow generators)",
         ShadowLightBlock: "Shadow light (used by the shadow generator block)",
+        ClusteredLightContainerBlock: "Clustered light container (used by the deferred lighting block)",
+        StorageBufferBlock: "Storage buffer (read and written by compute shaders)",
+        DeferredLightingBlock: "Lights geometry buffers with the lights of a clustered light container",
         ShadowGeneratorBlock: "Generates shadows through a shadow generator",
         CascadedShadowGeneratorBlock: "Generates shadows through a cascaded shadow generator",
         ExecuteBlock: "Block used to execute a custom function",
@@ -167,6 +170,8 @@ export class NodeListComponent extends React.Component<INodeListComponentProps,
                 "ObjectListBlock",
                 "CameraBlock",
                 "ShadowLightBlock",
+                "ClusteredLightContainerBlock",
+                "StorageBufferBlock",
             ],
             Layers: ["GlowLayerBlock", "HighlightLayerBlock"],
             Misc: [
@@ -207,7 +212,14 @@ export class NodeListComponent extends React.Component<INodeListComponentProps,
                 "VolumetricLightingBlock",
             ],
             Output_Nodes: ["OutputBlock"],
-            Rendering: ["ObjectRendererBlock", "GeometryRendererBlock", "ShadowGeneratorBlock", "CascadedShadowGeneratorBlock", "UtilityLayerRendererBlock"],
+            Rendering: [
+                "ObjectRendererBlock",
+                "GeometryRendererBlock",
+                "DeferredLightingBlock",
+                "ShadowGeneratorBlock",
+                "CascadedShadowGeneratorBlock",
+                "UtilityLayerRendererBlock",
+            ],
             Textures: ["ClearBlock", "CopyTextureBlock", "GenerateMipmapsBlock"],
         };
 
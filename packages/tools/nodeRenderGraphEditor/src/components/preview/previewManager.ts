@@ -9,6 +9,7 @@ import { Scene } from "core/scene";
 import { Matrix, Vector3 } from "core/Maths/math.vector";
 import { HemisphericLight } from "core/Lights/hemisphericLight";
 import { DirectionalLight } from "core/Lights/directionalLight";
+import { ClusteredLightContainer } from "core/Lights/Clustered/clusteredLightContainer";
 import { ArcRotateCamera } from "core/Cameras/arcRotateCamera";
 import { SceneLoader } from "core/Loading/sceneLoader";
 import { TransformNode } from "core/Meshes/transformNode";
@@ -329,6 +330,7 @@ export class PreviewManager {
         }
 
         let curLightIndex = 0;
+        let lightContainer: Nullable<ClusteredLightContainer> = null;
 
         // Set default external inputs
         const allInputs = this._nodeRenderGraph.getInputBlocks();
@@ -369,6 +371,14 @@ export class PreviewManager {
                 } else {
                     input.value = dummyLight;
                 }
+            } else if (input.isClusteredLightContainer()) {
+                if (!lightContainer) {
+                    // Use the clustered light container of the preview scene, or an empty one if the scene does not have any
+                    lightContainer =
+                        (this._scene.lights.find((light) => light instanceof ClusteredLightContainer) as ClusteredLightContainer) ??
+                        new ClusteredLightContainer("dummyClustered", [], this._scene);
+                }
+                input.value = lightContainer;
             }
         }
 
@@ -31,6 +31,7 @@ import { SplitContainer } from "shared-ui-components/split/splitContainer";
 import { Splitter } from "shared-ui-components/split/splitter";
 import { ControlledSize, SplitDirection } from "shared-ui-components/split/splitContext";
 import type { IShadowLight } from "core/Lights";
+import type { ClusteredLightContainer } from "core/Lights/Clustered/clusteredLightContainer";
 import type { NodeRenderGraphExecuteBlock } from "core/FrameGraph/Node/Blocks/executeBlock";
 import { HistoryStack } from "shared-ui-components/historyStack";
 
@@ -336,6 +337,8 @@ export class GraphEditor extends React.Component<IGraphEditorProps, IGraphEditor
                 input.value = { meshes: this.props.globalState.scene.meshes.slice(), particleSystems: this.props.globalState.scene.particleSystems.slice() };
             } else if (input.isShadowLight()) {
                 input.value = this.props.globalState.scene.lights[1] as IShadowLight;
+            } else if (input.isClusteredLightContainer()) {
+                input.value = this.props.globalState.scene.lights.find((light) => light.getClassName() === "ClusteredLightContainer") as ClusteredLightContainer;
             }
         }
     }
@@ -14,6 +14,7 @@ import { TextLineComponent } from "shared-ui-components/lines/textLineComponent"
 import type { FrameGraphObjectList } from "core/FrameGraph/frameGraphObjectList";
 import type { Camera } from "core/Cameras/camera";
 import type { IShadowLight } from "core/Lights/shadowLight";
+import type { ClusteredLightContainer } from "core/Lights/Clustered/clusteredLightContainer";
 import { Constants } from "core/Engines/constants";
 
 export class InputPropertyTabComponent extends React.Component<IPropertyComponentProps> {
@@ -271,6 +272,53 @@ export class InputPropertyTabComponent extends React.Component<IPropertyComponen
                     </>
                 );
             }
+            case NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer: {
+                const lightContainer = inputBlock.value as ClusteredLightContainer;
+                return (
+                    <>
+                        <TextLineComponent label="Name" value={lightContainer?.name ?? ""} />
+                        <TextLineComponent label="Lights" value={(lightContainer?.lights.length ?? 0).toString()} />
+                    </>
+                );
+            }
+            case NodeRenderGraphBlockConnectionPointTypes.StorageBuffer: {
+                const isExternal = inputBlock.isExternal;
+                if (!isExternal && !inputBlock.bufferCreationOptions) {
+                    inputBlock.setDefaultValue();
+                }
+                const bufferCreationOptions = inputBlock.bufferCreationOptions;
+                return (
+                    <>
+                        <CheckBoxLineComponent
+                            label="Is external"
+                            target={inputBlock}
+                            propertyName="isExternal"
+                            onValueChanged={() => this.props.stateManager.onRebuildRequiredObservable.notifyObservers()}
+                        ></CheckBoxLineComponent>
+                        {!isExternal && (
+                            <>
+                                <FloatLineComponent
+                                    lockObject={this.props.stateManager.lockObject}
+                                    digits={0}
+                                    step={"4"}
+                                    isInteger={true}
+                                    label="Byte size"
+                                    propertyName="byteSize"
+                                    target={bufferCreationOptions}
+                                    min={4}
+                                    onChange={() => this.props.stateManager.onRebuildRequiredObservable.notifyObservers()}
+                                />
+                                <CheckBoxLineComponent
+                                    label="Persistent"
+                                    target={bufferCreationOptions}
+                                    propertyName="persistent"
+                                    onValueChanged={() => this.props.stateManager.onRebuildRequiredObservable.notifyObservers()}
+                                />
+                            </>
+                        )}
+                    </>
+                );
+            }
         }
 
         return null;
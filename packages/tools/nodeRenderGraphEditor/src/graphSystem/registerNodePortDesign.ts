@@ -33,6 +33,7 @@ export const RegisterNodePortDesign = (stateManager: StateManager) => {
                     "PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyBpZD0iTGF5ZXJfNSIgZGF0YS1uYW1lPSJMYXllciA1IiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCIgdmlld0JveD0iMCAwIDIwIDIwIj4KICA8ZGVmcz4KICAgIDxzdHlsZT4KICAgICAgLmNscy0xIHsKICAgICAgICBmaWxsOiAjZmZmOwogICAgICB9CiAgICA8L3N0eWxlPgogIDwvZGVmcz4KICA8cGF0aCBjbGFzcz0iY2xzLTEiIGQ9Ik0xMi4wNSwxNy4yOGMuMzYtLjEuNy0uMjMsMS4wNC0uMzdsLTIuOS0yLjljLS4yMi0uMjItLjIyLS41OCwwLS44cy41OC0uMjIuOCwwbDMuMTMsMy4xM2MuMjgtLjE4LjU1LS4zOS44MS0uNjFsLTIuODYtMi44NmMtLjIyLS4yMi0uMjItLjU4LDAtLjhzLjU4LS4yMi44LDBsMi44NiwyLjg2Yy4yMi0uMjUuNDItLjUyLjYxLS44MWwtMy4xMy0zLjEzYy0uMjItLjIyLS4yMi0uNTgsMC0uOHMuNTgtLjIyLjgsMGwyLjksMi45Yy4xNS0uMzMuMjctLjY4LjM3LTEuMDRsLTMuMzItMy4zMmMtLjIyLS4yMi0uMjItLjU4LDAtLjguMjItLjIyLjU4LS4yMi44LDBsMi43NywyLjc3Yy4wMi0uMjIuMDMtLjQ1LjAzLS42OCwwLS4yNS0uMDEtLjUtLjA0LS43NGwtMy4zNy0zLjM3Yy0uMjItLjIyLS4yMi0uNTgsMC0uOC4yMi0uMjIuNTgtLjIyLjgsMGwyLjA0LDIuMDRjLTEuMTMtMi43My0zLjgyLTQuNjUtNi45NS00LjY1LTQuMTUsMC03LjUyLDMuMzctNy41Miw3LjUyLDAsMy4xNCwxLjkyLDUuODMsNC42NSw2Ljk1bC0yLjA0LTIuMDRjLS4yMi0uMjItLjIyLS41OCwwLS44LjIyLS4yMi41OC0uMjIuOCwwbDMuMzcsMy4zN2MuMjQuMDIuNDkuMDQuNzQuMDQuMjMsMCwuNDUtLjAxLjY4LS4wM2wtMi43Ny0yLjc3Yy0uMjItLjIyLS4yMi0uNTgsMC0uOC4yMi0uMjIuNTgtLjIyLjgsMGwzLjMyLDMuMzJaIi8+Cjwvc3ZnPg==";
                 break;
             case NodeRenderGraphBlockConnectionPointTypes.ShadowLight:
+            case NodeRenderGraphBlockConnectionPointTypes.ClusteredLightContainer:
                 svg =
                     "PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyBpZD0iTGF5ZXJfNSIgZGF0YS1uYW1lPSJMYXllciA1IiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCIgdmlld0JveD0iMCAwIDIwIDIwIj4KICA8ZGVmcz4KICAgIDxzdHlsZT4KICAgICAgLmNscy0xIHsKICAgICAgICBmaWxsOiAjZmZmOwogICAgICB9CiAgICA8L3N0eWxlPgogIDwvZGVmcz4KICA8cGF0aCBjbGFzcz0iY2xzLTEiIGQ9Ik0xMi41OSwxNS4xMmwtLjIxLjkyYy0uMTYuNy0uNzYsMS4yMS0xLjQ4LDEuMjdoLS4xM3MtMS41NCwwLTEuNTQsMGMtLjcyLDAtMS4zNi0uNDctMS41Ny0xLjE1bC0uMDMtLjEyLS4yMS0uOTJoNS4xN1pNMTAsMi42OWMyLjkzLDAsNS4zLDIuMzcsNS4zLDUuMywwLDEuNTYtLjY4LDIuOTktMi4wMiw0LjI3LS4wMy4wMi0uMDQuMDYtLjA1LjA5bC0uMzksMS42N2gtNS42OGwtLjM4LTEuNjdzLS4wMy0uMDctLjA1LS4wOWMtMS4zNC0xLjI4LTIuMDItMi43MS0yLjAyLTQuMjcsMC0yLjkzLDIuMzctNS4zLDUuMy01LjNaIi8+Cjwvc3ZnPg==";
                 break;
@@ -55,6 +56,7 @@ export const RegisterNodePortDesign = (stateManager: StateManager) => {
                     "PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz48c3ZnIGlkPSJMYXllcl81IiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCIgdmlld0JveD0iMCAwIDIwIDIwIj48ZGVmcz48c3R5bGU+LmNscy0xe2ZpbGw6I2ZmZjtzdHJva2Utd2lkdGg6MHB4O308L3N0eWxlPjwvZGVmcz48cGF0aCBjbGFzcz0iY2xzLTEiIGQ9Im0xMCwyLjEyYy00LjM0LDAtNy44OCwzLjUzLTcuODgsNy44OHMzLjUzLDcuODgsNy44OCw3Ljg4LDcuODgtMy41Myw3Ljg4LTcuODgtMy41My03Ljg4LTcuODgtNy44OFptMCwxLjc5YzEuMTIsMCwyLjE3LjMxLDMuMDYuODQtLjY4LS4wNC0xLjM3LjEyLTEuOTcuNDctLjQ0LjI1LS44LjU5LTEuMDkuOTktLjI4LS4zOS0uNjUtLjczLTEuMDktLjk5LS42MS0uMzUtMS4yOS0uNTEtMS45Ny0uNDcuOS0uNTMsMS45NC0uODQsMy4wNi0uODRabS02LjA1LDYuMDVzMC0uMDQsMC0uMDVjLjMxLjYxLjc5LDEuMTMsMS4zOSwxLjQ4LjQ0LjI2LjkyLjQsMS40LjQ1LS4yLjQ0LS4zMS45Mi0uMzEsMS40NCwwLC43Mi4yMiwxLjM5LjU5LDEuOTUtMS44My0xLjA0LTMuMDgtMy0zLjA4LTUuMjZabTIuMjEuMDJjLS40NS0uMjYtLjc3LS42OC0uOS0xLjE4LS4xMy0uNS0uMDctMS4wMi4xOS0xLjQ3aDBjLjI2LS40NS42OC0uNzcsMS4xOC0uOS4xNy0uMDUuMzQtLjA3LjUxLS4wNy4zNCwwLC42Ny4wOS45Ni4yNi45My41MywxLjI0LDEuNzIuNzEsMi42NS0uMjYuNDUtLjY4Ljc3LTEuMTguOS0uNS4xMy0xLjAyLjA3LTEuNDctLjE5Wm0zLjg0LDUuMjNjLTEuMDcsMC0xLjk0LS44Ny0xLjk0LTEuOTRzLjg3LTEuOTQsMS45NC0xLjk0LDEuOTQuODcsMS45NCwxLjk0LS44NywxLjk0LTEuOTQsMS45NFptMi4zNy01LjA0Yy0uNS0uMTMtLjkyLS40NS0xLjE4LS45LS4yNi0uNDUtLjMzLS45Ny0uMTktMS40Ny4xMy0uNS40NS0uOTIuOS0xLjE4LjMtLjE3LjYzLS4yNi45Ni0uMjYuMTcsMCwuMzQuMDIuNTEuMDcuNS4xMy45Mi40NSwxLjE4LjloMGMuMjYuNDUuMzMuOTcuMTksMS40Ny0uMTMuNS0uNDUuOTItLjksMS4xOC0uNDUuMjYtLjk3LjMzLTEuNDcuMTlabS42LDUuMDVjLjM3LS41Ni41OS0xLjIzLjU5LTEuOTUsMC0uNTEtLjExLTEtLjMxLTEuNDQuNDktLjA1Ljk2LS4yLDEuNC0uNDUuNjEtLjM1LDEuMDktLjg2LDEuMzktMS40OCwwLC4wMiwwLC4wNCwwLC4wNiwwLDIuMjYtMS4yNCw0LjIyLTMuMDgsNS4yNloiLz48L3N2Zz4=";
                 break;
             case NodeRenderGraphBlockConnectionPointTypes.ResourceContainer:
+            case NodeRenderGraphBlockConnectionPointTypes.StorageBuffer:
                 svg =
                     "PD94bWwgdmVyc2lvbj0iMS4wIiBlbmNvZGluZz0iVVRGLTgiPz4KPHN2ZyBpZD0iTGF5ZXJfNSIgZGF0YS1uYW1lPSJMYXllciA1IiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCIgdmlld0JveD0iMCAwIDIwIDIwIj4KICA8ZGVmcz4KICAgIDxzdHlsZT4KICAgICAgLmNscy0xIHsKICAgICAgICBmaWxsOiAjZmZmOwogICAgICB9CiAgICA8L3N0eWxlPgogIDwvZGVmcz4KICA8cGF0aCBjbGFzcz0iY2xzLTEiIGQ9Ik05LjAyLDE3LjQydi02LjQySDIuNjFjLjQ1LDMuMzMsMy4wOCw1Ljk3LDYuNDEsNi40MloiLz4KICA8cGF0aCBjbGFzcz0iY2xzLTEiIGQ9Ik0xMSwxNy40M2MzLjM1LS40Myw2LjAxLTMuMDgsNi40Ni02LjQzaC02LjQ2djYuNDNaIi8+CiAgPHBhdGggY2xhc3M9ImNscy0xIiBkPSJNMTMuOTEsMy41OHY1LjQyaDMuNTVjLS4zMS0yLjI5LTEuNjUtNC4yNi0zLjU1LTUuNDJaIi8+CiAgPHBhdGggY2xhc3M9ImNscy0xIiBkPSJNNi4xMSwzLjYyYy0xLjg3LDEuMTYtMy4xOSwzLjExLTMuNSw1LjM4aDMuNVYzLjYyWiIvPgogIDxwYXRoIGNsYXNzPSJjbHMtMSIgZD0iTTExLjkzLDIuNzVjLS42MS0uMTYtMS4yNC0uMjUtMS44OS0uMjVzLTEuMzMuMDktMS45NS4yNnY2LjI0aDMuODRWMi43NVoiLz4KPC9zdmc+";
                 break;
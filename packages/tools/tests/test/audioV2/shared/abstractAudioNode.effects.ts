@@ -0,0 +1,122 @@
+import { EvaluateAbstractAudioNodeTestAsync } from "../utils/abstractAudioNode.utils";
+import type { AudioNodeType } from "../utils/audioV2.utils";
+import { Channel, EvaluateVolumesAtTimeAsync, VolumePrecision } from "../utils/audioV2.utils";
+
+import { expect, test } from "@playwright/test";
+
+export const AddSharedAbstractAudioNodeEffectsTests = (audioNodeType: AudioNodeType) => {
+    test.describe(`${audioNodeType} effects`, () => {
+        test("Setting `equalizerEnabled` option to `true` should play sound at 1x volume", async ({ page }) => {
+            await EvaluateAbstractAudioNodeTestAsync(page, audioNodeType, async ({ audioNodeType }) => {
+                await AudioV2Test.CreateAudioEngineAsync(audioNodeType);
+                const { sound } = await AudioV2Test.CreateAbstractSoundAndOutputNodeAsync(audioNodeType, audioTestConfig.pulseTrainSoundFile, { equalizerEnabled: true });
+
+                sound.play();
+                await AudioV2Test.WaitAsync(1, () => {
+                    sound.stop();
+                });
+            });
+
+            const volumes = await EvaluateVolumesAtTimeAsync(page, 0.5);
+
+            expect(volumes[Channel.L]).toBeCloseTo(1, VolumePrecision);
+            expect(volumes[Channel.R]).toBeCloseTo(1, VolumePrecision);
+        });
+
+        test("Setting `delayDry` and `delayWet` options to 0 should play sound at 0 volume", async ({ page }) => {
+            await EvaluateAbstractAudioNodeTestAsync(page, audioNodeType, async ({ audioNodeType }) => {
+                await AudioV2Test.CreateAudioEngineAsync(audioNodeType);
+                const { sound } = await AudioV2Test.CreateAbstractSoundAndOutputNodeAsync(audioNodeType, audioTestConfig.pulseTrainSoundFile, { delayDry: 0, delayWet: 0 });
+
+                sound.play();
+                await AudioV2Test.WaitAsync(1, () => {
+                    sound.stop();
+                });
+            });
+
+            const volumes = await EvaluateVolumesAtTimeAsync(page, 0.5);
+
+            expect(volumes[Channel.L]).toBeCloseTo(0, VolumePrecision);
+            expect(volumes[Channel.R]).toBeCloseTo(0, VolumePrecision);
+        });
+
+        test("Setting `reverbDry` option to 0.5 without an impulse response should play sound at 0.5x volume", async ({ page }) => {
+            await EvaluateAbstractAudioNodeTestAsync(page, audioNodeType, async ({ audioNodeType }) => {
+                await AudioV2Test.CreateAudioEngineAsync(audioNodeType);
+                const { sound } = await AudioV2Test.CreateAbstractSoundAndOutputNodeAsync(audioNodeType, audioTestConfig.pulseTrainSoundFile, { reverbDry: 0.5 });
+
+                sound.play();
+                await AudioV2Test.WaitAsync(1, () => {
+                    sound.stop();
+                });
+            });
+
+            const volumes = await EvaluateVolumesAtTimeAsync(page, 0.5);
+
+            expect(volumes[Channel.L]).toBeCloseTo(0.5, VolumePrecision);
+            expect(volumes[Channel.R]).toBeCloseTo(0.5, VolumePrecision);
+        });
+
+        test("Setting `delay.dry` and `delay.wet` properties to 0 should play sound at 0 volume", async ({ page }) => {
+            await EvaluateAbstractAudioNodeTestAsync(page, audioNodeType, async ({ audioNodeType }) => {
+                await AudioV2Test.CreateAudioEngineAsync(audioNodeType);
+                const { sound, outputNode } = await AudioV2Test.CreateAbstractSoundAndOutputNodeAsync(audioNodeType, audioTestConfig.pulseTrainSoundFile);
+
+                await outputNode.delay.enableAsync();
+                outputNode.delay.dry = 0;
+                outputNode.delay.wet = 0;
+
+                sound.play();
+                await AudioV2Test.WaitAsync(1, () => {
+                    sound.stop();
+                });
+            });
+
+            const volumes = await EvaluateVolumesAtTimeAsync(page, 0.5);
+
+            expect(volumes[Channel.L]).toBeCloseTo(0, VolumePrecision);
+            expect(volumes[Channel.R]).toBeCloseTo(0, VolumePrecision);
+        });
+
+        test("Disposing the delay should play sound at 1x volume", async ({ page }) => {
+            await EvaluateAbstractAudioNodeTestAsync(page, audioNodeType, async ({ audioNodeType }) => {
+                await AudioV2Test.CreateAudioEngineAsync(audioNodeType);
+                const { sound, outputNode } = await AudioV2Test.CreateAbstractSoundAndOutputNodeAsync(audioNodeType, audioTestConfig.pulseTrainSoundFile, {
+                    delayDry: 0,
+                    delayWet: 0,
+                });
+
+                outputNode.delay.dispose();
+
+                sound.play();
+                await AudioV2Test.WaitAsync(1, () => {
+                    sound.stop();
+                });
+            });
+
+            const volumes = await EvaluateVolumesAtTimeAsync(page, 0.5);
+
+            expect(volumes[Channel.L]).toBeCloseTo(1, VolumePrecision);
+            expect(volumes[Channel.R]).toBeCloseTo(1, VolumePrecision);
+        });
+
+        test("Setting reverb `dry` parameter to 1 with `setParameter` should play sound at 1x volume", async ({ page }) => {
+            await EvaluateAbstractAudioNodeTestAsync(page, audioNodeType, async ({ audioNodeType }) => {
+                await AudioV2Test.CreateAudioEngineAsync(audioNodeType);
+                const { sound, outputNode } = await AudioV2Test.CreateAbstractSoundAndOutputNodeAsync(audioNodeType, audioTestConfig.pulseTrainSoundFile, { reverbDry: 0 });
+
+                outputNode.reverb.setParameter("dry", 1, { duration: 0.01 });
+
+                sound.play();
+                await AudioV2Test.WaitAsync(1, () => {
+                    sound.stop();
+                });
+            });
+
+            const volumes = await EvaluateVolumesAtTimeAsync(page, 0.5);
+
+            expect(volumes[Channel.L]).toBeCloseTo(1, VolumePrecision);
+            expect(volumes[Channel.R]).toBeCloseTo(1, VolumePrecision);
+        });
+    });
+};
@@ -0,0 +1,5 @@
+import { AddSharedAbstractAudioNodeEffectsTests } from "./shared/abstractAudioNode.effects";
+import { InitAudioV2Tests } from "./utils/audioV2.utils";
+
+InitAudioV2Tests();
+AddSharedAbstractAudioNodeEffectsTests("StreamingSound");
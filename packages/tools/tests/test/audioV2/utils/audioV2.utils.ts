@@ -60,6 +60,11 @@ declare global {
         ): Promise<{
             sound: { play(): void; stop(): void };
             outputNode: {
+                compressor: BABYLON.AbstractAudioCompressor;
+                delay: BABYLON.AbstractAudioDelay;
+                equalizer: BABYLON.AbstractAudioEqualizer;
+                filter: BABYLON.AbstractAudioFilter;
+                reverb: BABYLON.AbstractAudioReverb;
                 spatial: BABYLON.AbstractSpatialAudio;
                 stereo: BABYLON.AbstractStereoAudio;
                 volume: number;